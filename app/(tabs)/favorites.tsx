@@ -1,15 +1,16 @@
-import { Search, SortAsc } from 'lucide-react-native';
+import { router } from 'expo-router';
+import { History, Search, SortAsc } from 'lucide-react-native';
 import React, { useState, useEffect } from 'react';
 import { Alert, FlatList, View, Text, ScrollView, TouchableOpacity } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { EnhancedFavoritesScreen } from '@/components/EnhancedFavoritesScreen';
 import { NavigationHeader } from '@/components/NavigationHeader';
-import { useStreamManager } from '@/hooks/useStreamManager';
+import { useStreamManagerContext } from '@/contexts/StreamManagerContext';
 
 export default function Favorites() {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('all');
-  const { favorites, toggleFavorite } = useStreamManager();
+  const { favorites, toggleFavorite } = useStreamManagerContext();
 
   const handleStreamSelect = (stream: any) => {
     console.log('Selected stream:', stream);
@@ -17,7 +18,7 @@ export default function Favorites() {
 
   const handleToggleFavorite = (streamId: string) => {
     // Find the stream in favorites by ID and pass the full stream object
-    const stream = favorites.find(fav => fav.id === streamId || fav.user_id === streamId);
+    const stream = favorites.find(fav => fav.id === streamId || fav.channelId === streamId);
     if (stream) {
       toggleFavorite(stream);
     }
@@ -32,9 +33,14 @@ export default function Favorites() {
           title="Favorites"
           subtitle={`${favoriteCount} favorite${favoriteCount !== 1 ? 's' : ''}`}
           rightElement={
-            <TouchableOpacity style={{ padding: 4 }}>
-              <Search size={20} color="#8B5CF6" />
-            </TouchableOpacity>
+            <View style={{ flexDirection: 'row', gap: 8 }}>
+              <TouchableOpacity style={{ padding: 4 }} onPress={() => router.push('/history')}>
+                <History size={20} color="#8B5CF6" />
+              </TouchableOpacity>
+              <TouchableOpacity style={{ padding: 4 }}>
+                <Search size={20} color="#8B5CF6" />
+              </TouchableOpacity>
+            </View>
           }
         />
         <EnhancedFavoritesScreen
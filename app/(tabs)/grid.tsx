@@ -1,9 +1,12 @@
-import React, { useState, useCallback } from 'react';
-import { View, StatusBar, Platform } from 'react-native';
+import React, { useState, useCallback, useEffect } from 'react';
+import { View, StatusBar, Platform, Alert } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
-import { useFocusEffect } from 'expo-router';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
 import { OptimizedMultiStreamGrid } from '@/components/OptimizedMultiStreamGrid';
+import { useStreamManagerContext } from '@/contexts/StreamManagerContext';
 import { useStreamManager } from '@/hooks/useStreamManager';
+import { platformRegistry } from '@/services/platformProviders';
+import { recordingPlaybackService } from '@/services/recordingPlaybackService';
 
 type GridLayout = '1x1' | '2x2' | '3x3' | '2x1' | '1x2' | 'adaptive';
 type ViewMode = 'grid' | 'stack' | 'pip' | 'focus';
@@ -12,6 +15,90 @@ export default React.memo(function GridScreen() {
   const [layout, setLayout] = useState<GridLayout>('adaptive');
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
   const { forceReload } = useStreamManager();
+  const { favorites, loading, addStream, isStreamActive } = useStreamManagerContext();
+  // Set by go-live notifications: streamyyy://grid?add=<stream id>
+  // and by recording links: streamyyy://grid?watch=<VOD or clip URL, e.g. with ?t=1h2m3s>
+  // and by watch party invites: streamyyy://grid?party=<room id>
+  // and by shared layouts, forwarded from streamyyy://layout?d=<code>
+  const { add, watch, party, layout: sharedLayout } = useLocalSearchParams<{
+    add?: string;
+    watch?: string;
+    party?: string;
+    layout?: string;
+  }>();
+  const [partyCode, setPartyCode] = useState<string>();
+  const [layoutCode, setLayoutCode] = useState<string>();
+
+  useEffect(() => {
+    if (!party) {
+      return;
+    }
+    router.setParams({ party: undefined });
+    setPartyCode(party);
+  }, [party]);
+
+  useEffect(() => {
+    if (!sharedLayout) {
+      return;
+    }
+    router.setParams({ layout: undefined });
+    setLayoutCode(sharedLayout);
+  }, [sharedLayout]);
+
+  useEffect(() => {
+    if (!add || loading) {
+      return;
+    }
+    router.setParams({ add: undefined });
+
+    const stream = favorites.find(favorite => favorite.id === add);
+    if (!stream) {
+      console.warn('⚠️ Go-live link for a stream that is no longer a favorite:', add);
+      return;
+    }
+    if (isStreamActive(stream.id)) {
+      return;
+    }
+    addStream(stream).then(result => {
+      if (!result.success) {
+        Alert.alert('Could not add stream', result.message);
+      }
+    });
+  }, [add, loading, favorites, addStream, isStreamActive]);
+
+  useEffect(() => {
+    if (!watch || loading) {
+      return;
+    }
+    router.setParams({ watch: undefined });
+
+    const provider = platformRegistry.findByUrl(watch);
+    if (!provider?.resolveRecording) {
+      console.warn('⚠️ Recording link for an unsupported site:', watch);
+      return;
+    }
+    provider
+      .resolveRecording(watch)
+      .then(stream => {
+        if (!stream) {
+          Alert.alert('Video not found', "That video or clip isn't available anymore.");
+          return;
+        }
+        if (isStreamActive(stream.id)) {
+          // Already in the grid: jump to the linked moment instead
+          if (stream.recording?.startAt !== undefined) {
+            recordingPlaybackService.seekTo(stream.id, stream.recording.startAt);
+          }
+          return;
+        }
+        return addStream(stream).then(result => {
+          if (!result.success) {
+            Alert.alert('Could not add video', result.message);
+          }
+        });
+      })
+      .catch(error => console.error('❌ Failed to open recording link:', error));
+  }, [watch, loading, addStream, isStreamActive]);
 
   // Remove automatic reload on focus to prevent race conditions with discover screen
   // The grid will update reactively through the shared useStreamManager state
@@ -40,6 +127,8 @@ export default React.memo(function GridScreen() {
           onViewModeChange={handleViewModeChange}
           showControls
           enableGestures={false}
+          partyCode={partyCode}
+          layoutCode={layoutCode}
         />
       </View>
     </SafeAreaProvider>
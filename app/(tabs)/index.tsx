@@ -9,6 +9,7 @@ import { ModernDiscoverScreen } from '@/components/ModernDiscoverScreen';
 import { NavigationHeader } from '@/components/NavigationHeader';
 import { useInterstitialAd } from '@/hooks/useInterstitialAd';
 import { useStreamManagerContext } from '@/contexts/StreamManagerContext';
+import { createChannelKey, createStreamId, fromTwitchStream } from '@/services/streamAdapters';
 import {
   TwitchStream,
   TwitchGame,
@@ -97,7 +98,7 @@ export default function DiscoverScreen() {
 
   const handleAddStream = async (stream: TwitchStream) => {
     try {
-      const result = await addStream(stream);
+      const result = await addStream(fromTwitchStream(stream));
 
       if (result.success) {
         // Show interstitial ad occasionally after successful stream add
@@ -130,7 +131,7 @@ export default function DiscoverScreen() {
       // Find the stream by user_id
       const stream = streams.find(s => s.user_id === userId);
       if (stream) {
-        await toggleFavorite(stream);
+        await toggleFavorite(fromTwitchStream(stream));
         console.log('Toggled favorite for:', stream.user_name);
       } else {
         console.error('Stream not found for user_id:', userId);
@@ -142,12 +143,13 @@ export default function DiscoverScreen() {
   };
 
   const isFavorite = (userId: string) => {
-    return checkIsFavorite(userId);
+    return checkIsFavorite(createChannelKey('twitch', userId));
   };
 
   const isStreamActive = useCallback(
     (streamId: string) => {
-      const isActive = activeStreams.some(stream => stream.id === streamId);
+      const canonicalId = createStreamId('twitch', streamId);
+      const isActive = activeStreams.some(stream => stream.id === canonicalId);
       console.log(`🔍 DISCOVER PAGE - Checking stream active: "${streamId}" -> ${isActive} (total active: ${activeStreams.length})`);
       return isActive;
     },
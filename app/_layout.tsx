@@ -68,6 +68,8 @@ export default function RootLayout() {
               <StreamManagerProvider>
                 <Stack screenOptions={{ headerShown: false }}>
                   <Stack.Screen name="(tabs)" />
+                  <Stack.Screen name="history" />
+                  <Stack.Screen name="layout" />
                   <Stack.Screen name="+not-found" />
                 </Stack>
                 <StatusBar style="light" backgroundColor="#000" />
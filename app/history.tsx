@@ -0,0 +1,38 @@
+import { router } from 'expo-router';
+import { ArrowLeft } from 'lucide-react-native';
+import React from 'react';
+import { View, TouchableOpacity, StyleSheet } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NavigationHeader } from '@/components/NavigationHeader';
+import { WatchHistoryScreen } from '@/components/WatchHistoryScreen';
+
+export default function History() {
+  return (
+    <View style={styles.container}>
+      <SafeAreaView style={styles.safeArea} edges={['top']}>
+        <NavigationHeader
+          title="Watch History"
+          leftElement={
+            <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+              <ArrowLeft size={20} color="#8B5CF6" />
+            </TouchableOpacity>
+          }
+        />
+        <WatchHistoryScreen />
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  safeArea: {
+    flex: 1,
+  },
+  backButton: {
+    padding: 4,
+  },
+});
@@ -0,0 +1,35 @@
+import { useLocalSearchParams } from 'expo-router';
+import React, { useEffect } from 'react';
+import { View, Text, ActivityIndicator, StyleSheet } from 'react-native';
+import { navigationService } from '@/services/NavigationService';
+
+// Shared layout links: streamyyy://layout?d=<code from layoutShareService>
+export default function SharedLayoutScreen() {
+  const { d } = useLocalSearchParams<{ d?: string }>();
+
+  useEffect(() => {
+    navigationService.openSharedLayout(d || '');
+  }, [d]);
+
+  return (
+    <View style={styles.container}>
+      <ActivityIndicator size="large" color="#8B5CF6" />
+      <Text style={styles.text}>Opening layout...</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#0f0f0f',
+    gap: 16,
+  },
+  text: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+  },
+});
@@ -0,0 +1,250 @@
+/**
+ * Add Stream URL Modal
+ * Adds a stream to the multi-view from a pasted URL: platform channel, VOD and
+ * clip links go through their provider, anything else is probed as a direct
+ * HLS/MP4 source.
+ */
+
+import { LinearGradient } from 'expo-linear-gradient';
+import { Link, X } from 'lucide-react-native';
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  Pressable,
+  ActivityIndicator,
+} from 'react-native';
+import { useStreamManagerContext } from '@/contexts/StreamManagerContext';
+import { createCustomStream, customStreamProvider } from '@/services/customStreamProvider';
+import { platformRegistry } from '@/services/platformProviders';
+import { resolveChannel } from '@/services/platformService';
+import { probeStreamUrl } from '@/services/streamProbe';
+import { ModernTheme } from '@/theme/modernTheme';
+import { Stream } from '@/types/stream';
+import { HapticFeedback } from '@/utils/haptics';
+
+interface AddStreamUrlModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const describeSource = (stream: Stream): string => {
+  const playback = stream.playback;
+  const platformName = platformRegistry.get(stream.platform)?.displayName || stream.platform;
+  if (stream.recording) {
+    return `${platformName} ${stream.recording.type === 'vod' ? 'VOD' : 'clip'}`;
+  }
+  if (!playback) {
+    return platformName;
+  }
+
+  const kind = playback.type === 'hls' ? 'HLS' : 'MP4';
+  const state = playback.isLive ? 'live' : 'on demand';
+  const renditions = playback.variants.length > 1 ? ` • ${playback.variants.length} qualities` : '';
+  return `${kind} ${state}${renditions}`;
+};
+
+export const AddStreamUrlModal: React.FC<AddStreamUrlModalProps> = ({ visible, onClose }) => {
+  const { addStream } = useStreamManagerContext();
+  const [url, setUrl] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleClose = useCallback(() => {
+    setUrl('');
+    setError(null);
+    setStatus(null);
+    onClose();
+  }, [onClose]);
+
+  const resolveStream = async (input: string): Promise<Stream> => {
+    const provider = platformRegistry.findByUrl(input);
+
+    if (provider && provider.id !== customStreamProvider.id) {
+      const recording = await provider.resolveRecording?.(input);
+      if (recording) {
+        return recording;
+      }
+
+      const channel = await resolveChannel(input, provider.id);
+      if (!channel) {
+        throw new Error(`Couldn't find that ${provider.displayName} channel`);
+      }
+      if (!channel.stream) {
+        throw new Error(`${channel.displayName} is not live right now`);
+      }
+      return channel.stream;
+    }
+
+    // Probe directly so playlist errors reach the user instead of being swallowed
+    return createCustomStream(await probeStreamUrl(input));
+  };
+
+  const handleAdd = useCallback(async () => {
+    const input = url.trim();
+    if (!input || isChecking) {
+      return;
+    }
+
+    setIsChecking(true);
+    setError(null);
+    setStatus(null);
+
+    try {
+      const stream = await resolveStream(input);
+      setStatus(describeSource(stream));
+
+      const result = await addStream(stream);
+      if (!result.success) {
+        setError(result.message);
+        HapticFeedback.warning();
+        return;
+      }
+
+      HapticFeedback.success();
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add stream');
+      HapticFeedback.error();
+    } finally {
+      setIsChecking(false);
+    }
+  }, [url, isChecking, addStream, handleClose]);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={handleClose}>
+      <Pressable style={styles.overlay} onPress={handleClose}>
+        <Pressable style={styles.sheet} onPress={() => {}}>
+          <View style={styles.header}>
+            <View style={styles.titleRow}>
+              <Link size={18} color={customStreamProvider.color} />
+              <Text style={styles.title}>Add stream by URL</Text>
+            </View>
+            <TouchableOpacity
+              onPress={handleClose}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <X size={20} color={ModernTheme.colors.text.secondary} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.hint}>
+            Paste a Twitch, YouTube or Kick channel link, a Twitch VOD or clip link, an .m3u8
+            playlist or an MP4 file.
+          </Text>
+
+          <TextInput
+            style={styles.input}
+            value={url}
+            onChangeText={text => {
+              setUrl(text);
+              setError(null);
+            }}
+            placeholder="https://example.com/live/stream.m3u8"
+            placeholderTextColor={ModernTheme.colors.text.tertiary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            returnKeyType="go"
+            onSubmitEditing={handleAdd}
+            editable={!isChecking}
+          />
+
+          {error && <Text style={styles.error}>{error}</Text>}
+          {!error && status && <Text style={styles.status}>{status}</Text>}
+
+          <TouchableOpacity
+            style={[styles.addButton, (!url.trim() || isChecking) && styles.addButtonDisabled]}
+            onPress={handleAdd}
+            disabled={!url.trim() || isChecking}
+          >
+            <LinearGradient
+              colors={[ModernTheme.colors.primary[500], ModernTheme.colors.primary[600]]}
+              style={styles.addButtonGradient}
+            >
+              {isChecking ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.addButtonText}>Add to multi-view</Text>
+              )}
+            </LinearGradient>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    padding: ModernTheme.spacing.lg,
+  },
+  sheet: {
+    backgroundColor: ModernTheme.colors.background.secondary,
+    borderRadius: ModernTheme.borderRadius.lg,
+    padding: ModernTheme.spacing.lg,
+    gap: ModernTheme.spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.sm,
+  },
+  title: {
+    color: ModernTheme.colors.text.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  hint: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: 13,
+  },
+  input: {
+    color: ModernTheme.colors.text.primary,
+    backgroundColor: ModernTheme.colors.background.tertiary,
+    borderRadius: ModernTheme.borderRadius.md,
+    paddingHorizontal: ModernTheme.spacing.md,
+    paddingVertical: ModernTheme.spacing.sm,
+    fontSize: 14,
+  },
+  error: {
+    color: ModernTheme.colors.error[400],
+    fontSize: 13,
+  },
+  status: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: 13,
+  },
+  addButton: {
+    borderRadius: ModernTheme.borderRadius.md,
+    overflow: 'hidden',
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  addButtonGradient: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: ModernTheme.spacing.md,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default AddStreamUrlModal;
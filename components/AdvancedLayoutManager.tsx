@@ -12,16 +12,8 @@ import {
   RotateCcw,
   Settings,
 } from 'lucide-react-native';
-import React, { useState, useCallback, useMemo } from 'react';
-import {
-  View,
-  Text,
-  StyleSheet,
-  TouchableOpacity,
-  ScrollView,
-  Dimensions,
-  Platform,
-} from 'react-native';
+import React, { useState, useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Platform } from 'react-native';
 import Animated, {
   useAnimatedStyle,
   useSharedValue,
@@ -29,9 +21,8 @@ import Animated, {
   withTiming,
   interpolate,
 } from 'react-native-reanimated';
-import { TwitchStream } from '@/services/twitchApi';
-
-const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
+import { MultiviewLayout } from '@/types/layout';
+import { Stream } from '@/types/stream';
 
 export type LayoutType =
   | 'grid_1x1'
@@ -50,29 +41,21 @@ export type LayoutType =
   | 'floating'
   | 'custom';
 
-export interface StreamPosition {
-  streamId: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  zIndex: number;
-  scale: number;
-  opacity: number;
-}
-
-export interface LayoutConfiguration {
-  id: string;
+/**
+ * A named layout. Tiles use the shared normalized model in types/layout, so
+ * a layout built on one screen is solved again for any other; `type` is the
+ * picker entry it came from (see toLayoutPreset).
+ */
+export interface LayoutConfiguration extends MultiviewLayout {
   name: string;
   type: LayoutType;
-  positions: StreamPosition[];
   isCustom?: boolean;
   description?: string;
   thumbnail?: string;
 }
 
 interface AdvancedLayoutManagerProps {
-  streams: TwitchStream[];
+  streams: Stream[];
   currentLayout: LayoutType;
   onLayoutChange: (layout: LayoutType) => void;
   onCustomLayout: (config: LayoutConfiguration) => void;
@@ -110,165 +93,6 @@ export function AdvancedLayoutManager({
     categoryOpacity.value = withTiming(1, { duration: 200 });
   }, [selectedCategory]);
 
-  const calculateStreamDimensions = useCallback(
-    (
-      layout: LayoutType,
-      streamIndex: number,
-      totalStreams: number
-    ): { width: number; height: number; x: number; y: number } => {
-      const containerWidth = screenWidth - 24;
-      const containerHeight = screenHeight - 200;
-      const aspectRatio = 16 / 9;
-
-      switch (layout) {
-        case 'grid_1x1':
-          return {
-            width: containerWidth,
-            height: containerWidth / aspectRatio,
-            x: 0,
-            y: 0,
-          };
-
-        case 'grid_2x2':
-          const grid2Size = (containerWidth - 12) / 2;
-          return {
-            width: grid2Size,
-            height: grid2Size / aspectRatio,
-            x: (streamIndex % 2) * (grid2Size + 12),
-            y: Math.floor(streamIndex / 2) * (grid2Size / aspectRatio + 12),
-          };
-
-        case 'grid_3x3':
-          const grid3Size = (containerWidth - 24) / 3;
-          return {
-            width: grid3Size,
-            height: grid3Size / aspectRatio,
-            x: (streamIndex % 3) * (grid3Size + 12),
-            y: Math.floor(streamIndex / 3) * (grid3Size / aspectRatio + 12),
-          };
-
-        case 'grid_4x4':
-          const grid4Size = (containerWidth - 36) / 4;
-          return {
-            width: grid4Size,
-            height: grid4Size / aspectRatio,
-            x: (streamIndex % 4) * (grid4Size + 9),
-            y: Math.floor(streamIndex / 4) * (grid4Size / aspectRatio + 9),
-          };
-
-        case 'linear_2x1':
-          return {
-            width: (containerWidth - 12) / 2,
-            height: containerHeight,
-            x: streamIndex * ((containerWidth - 12) / 2 + 12),
-            y: 0,
-          };
-
-        case 'linear_3x1':
-          return {
-            width: (containerWidth - 24) / 3,
-            height: containerHeight,
-            x: streamIndex * ((containerWidth - 24) / 3 + 12),
-            y: 0,
-          };
-
-        case 'linear_4x1':
-          return {
-            width: (containerWidth - 36) / 4,
-            height: containerHeight,
-            x: streamIndex * ((containerWidth - 36) / 4 + 9),
-            y: 0,
-          };
-
-        case 'split_horizontal':
-          return {
-            width: containerWidth,
-            height: (containerHeight - 12) / 2,
-            x: 0,
-            y: streamIndex * ((containerHeight - 12) / 2 + 12),
-          };
-
-        case 'split_vertical':
-          return {
-            width: (containerWidth - 12) / 2,
-            height: containerHeight,
-            x: streamIndex * ((containerWidth - 12) / 2 + 12),
-            y: 0,
-          };
-
-        case 'pip':
-          if (streamIndex === 0) {
-            return {
-              width: containerWidth,
-              height: containerHeight * 0.75,
-              x: 0,
-              y: 0,
-            };
-          } else {
-            const pipSize = containerWidth * 0.25;
-            return {
-              width: pipSize,
-              height: pipSize / aspectRatio,
-              x: containerWidth - pipSize - 12,
-              y: 12 + (streamIndex - 1) * (pipSize / aspectRatio + 12),
-            };
-          }
-
-        case 'focus':
-          if (streamIndex === 0) {
-            return {
-              width: containerWidth,
-              height: containerHeight * 0.7,
-              x: 0,
-              y: 0,
-            };
-          } else {
-            const thumbSize = (containerWidth - 24) / 3;
-            return {
-              width: thumbSize,
-              height: thumbSize / aspectRatio,
-              x: ((streamIndex - 1) % 3) * (thumbSize + 12),
-              y: containerHeight * 0.7 + 12,
-            };
-          }
-
-        case 'mosaic':
-          // Dynamic mosaic based on stream count
-          if (totalStreams <= 2) {
-            return calculateStreamDimensions('split_horizontal', streamIndex, totalStreams);
-          } else if (totalStreams <= 4) {
-            return calculateStreamDimensions('grid_2x2', streamIndex, totalStreams);
-          } else if (totalStreams <= 9) {
-            return calculateStreamDimensions('grid_3x3', streamIndex, totalStreams);
-          } else {
-            return calculateStreamDimensions('grid_4x4', streamIndex, totalStreams);
-          }
-
-        case 'floating':
-          const floatingSize = containerWidth * 0.3;
-          const margin = 20;
-          return {
-            width: floatingSize,
-            height: floatingSize / aspectRatio,
-            x: margin + (streamIndex % 2) * (floatingSize + margin),
-            y: margin + Math.floor(streamIndex / 2) * (floatingSize / aspectRatio + margin),
-          };
-
-        case 'stacked':
-          return {
-            width: containerWidth,
-            height: containerHeight / Math.min(totalStreams, 4),
-            x: 0,
-            y: streamIndex * (containerHeight / Math.min(totalStreams, 4)),
-          };
-
-        default:
-          return calculateStreamDimensions('grid_2x2', streamIndex, totalStreams);
-      }
-    },
-    []
-  );
-
   const basicLayouts = useMemo(
     () => [
       { id: 'grid_2x2', name: '2×2 Grid', icon: Grid, description: 'Classic 4-stream grid' },
@@ -0,0 +1,326 @@
+/**
+ * Audio Policy Panel
+ * Picks how the grid's tiles share the speakers (see audioPolicyService):
+ * one focused tile, ducking, a free mix with a slider per tile, or focus
+ * that follows the loudest tile or the busiest chat. On web it also shows
+ * live loudness meters and the mixer's normalization and limiter.
+ */
+
+import Slider from '@react-native-community/slider';
+import { Headphones, Volume2, VolumeX, X } from 'lucide-react-native';
+import React, { useState } from 'react';
+import {
+  Platform,
+  StyleProp,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+  ViewStyle,
+} from 'react-native';
+import { AudioPolicyState } from '@/hooks/useAudioPolicy';
+import {
+  AudioMixingSettings,
+  audioMixingService,
+  LOUDNESS_TARGETS,
+} from '@/services/audioMixingService';
+import { audioPolicyService } from '@/services/audioPolicyService';
+import { ModernTheme } from '@/theme/modernTheme';
+import { AudioPolicyMode, AutoFocusSignal } from '@/types/layout';
+import { Stream } from '@/types/stream';
+import { HapticFeedback } from '@/utils/haptics';
+import { LoudnessMeter } from './LoudnessMeter';
+
+interface AudioPolicyPanelProps {
+  audio: AudioPolicyState;
+  streams: Stream[];
+  onClose?: () => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+const MODES: { mode: AudioPolicyMode; label: string; hint: string }[] = [
+  {
+    mode: 'single',
+    label: 'Focus',
+    hint: 'Only the focused tile plays. Tap a tile to move the audio.',
+  },
+  { mode: 'duck', label: 'Duck', hint: 'The focused tile plays over the others, turned down.' },
+  { mode: 'mix', label: 'Mix', hint: 'Every tile plays at its own volume.' },
+  { mode: 'auto', label: 'Auto', hint: 'Audio follows whichever tile is most exciting.' },
+];
+
+const AUTO_SIGNALS: { signal: AutoFocusSignal; label: string }[] = [
+  { signal: 'loudness', label: 'Loudest' },
+  { signal: 'chat', label: 'Busiest chat' },
+];
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const AudioPolicyPanel: React.FC<AudioPolicyPanelProps> = ({
+  audio,
+  streams,
+  onClose,
+  style,
+}) => {
+  const { policy, focusedStreamId } = audio;
+  const current = MODES.find(option => option.mode === policy.mode) || MODES[0];
+  const showVolumes = policy.mode === 'mix' || policy.mode === 'duck';
+  // Only web players route their audio through the mixer
+  const showLoudness = Platform.OS === 'web';
+  const [mixer, setMixer] = useState(() => audioMixingService.getSettings());
+
+  const updateMixer = (settings: Partial<AudioMixingSettings>) => {
+    audioMixingService.updateSettings(settings);
+    setMixer(audioMixingService.getSettings());
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.header}>
+        <Headphones size={16} color={ModernTheme.colors.primary[500]} />
+        <Text style={styles.title}>Audio</Text>
+        {onClose && (
+          <TouchableOpacity onPress={onClose} hitSlop={8}>
+            <X size={16} color={ModernTheme.colors.text.secondary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.chips}>
+        {MODES.map(option => (
+          <TouchableOpacity
+            key={option.mode}
+            style={[styles.chip, option.mode === policy.mode && styles.chipActive]}
+            onPress={() => {
+              HapticFeedback.light();
+              audioPolicyService.setMode(option.mode);
+            }}
+          >
+            <Text style={styles.chipText}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.hint}>{current.hint}</Text>
+
+      {policy.mode === 'duck' && (
+        <View style={styles.sliderRow}>
+          <Text style={styles.label}>Others at</Text>
+          <Slider
+            style={styles.slider}
+            value={policy.duckLevel}
+            minimumValue={0}
+            maximumValue={1}
+            step={0.05}
+            onSlidingComplete={value => audioPolicyService.setDuckLevel(value)}
+            minimumTrackTintColor={ModernTheme.colors.primary[500]}
+            maximumTrackTintColor={ModernTheme.colors.background.tertiary}
+            thumbTintColor={ModernTheme.colors.primary[400]}
+          />
+          <Text style={styles.value}>{percent(policy.duckLevel)}</Text>
+        </View>
+      )}
+
+      {policy.mode === 'auto' && (
+        <View style={styles.chips}>
+          {AUTO_SIGNALS.map(option => (
+            <TouchableOpacity
+              key={option.signal}
+              style={[styles.chip, option.signal === policy.autoSignal && styles.chipActive]}
+              onPress={() => audioPolicyService.setAutoSignal(option.signal)}
+            >
+              <Text style={styles.chipText}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {streams.map(stream => {
+        const tile = audio.getTileAudio(stream.id);
+        let iconColor = ModernTheme.colors.text.secondary;
+        if (tile.muted) {
+          iconColor = ModernTheme.colors.text.tertiary;
+        } else if (tile.hasFocus) {
+          iconColor = ModernTheme.colors.primary[400];
+        }
+        return (
+          <View key={stream.id} style={styles.tileRow}>
+            <TouchableOpacity
+              style={[styles.tileName, !showVolumes && styles.tileNameWide]}
+              onPress={() => {
+                HapticFeedback.light();
+                audio.focus(stream.id);
+              }}
+            >
+              {tile.muted ? (
+                <VolumeX size={14} color={iconColor} />
+              ) : (
+                <Volume2 size={14} color={iconColor} />
+              )}
+              <Text
+                style={[styles.tileLabel, stream.id === focusedStreamId && styles.tileLabelFocused]}
+                numberOfLines={1}
+              >
+                {stream.displayName}
+              </Text>
+            </TouchableOpacity>
+            {showVolumes ? (
+              <>
+                <Slider
+                  style={styles.slider}
+                  value={audioPolicyService.getTileVolume(stream.id)}
+                  minimumValue={0}
+                  maximumValue={1}
+                  step={0.05}
+                  onSlidingComplete={value => audioPolicyService.setTileVolume(stream.id, value)}
+                  minimumTrackTintColor={ModernTheme.colors.primary[500]}
+                  maximumTrackTintColor={ModernTheme.colors.background.tertiary}
+                  thumbTintColor={ModernTheme.colors.primary[400]}
+                />
+                <Text style={styles.value}>{percent(tile.muted ? 0 : tile.volume)}</Text>
+              </>
+            ) : (
+              <Text style={styles.value}>{tile.hasFocus ? 'On' : 'Off'}</Text>
+            )}
+          </View>
+        );
+      })}
+
+      {showLoudness && (
+        <>
+          <View style={styles.divider} />
+          <View style={styles.chips}>
+            <TouchableOpacity
+              style={[styles.chip, mixer.loudnessNormalization && styles.chipActive]}
+              onPress={() => updateMixer({ loudnessNormalization: !mixer.loudnessNormalization })}
+            >
+              <Text style={styles.chipText}>Normalize</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.chip, mixer.limiterEnabled && styles.chipActive]}
+              onPress={() => updateMixer({ limiterEnabled: !mixer.limiterEnabled })}
+            >
+              <Text style={styles.chipText}>Limiter</Text>
+            </TouchableOpacity>
+          </View>
+          {mixer.loudnessNormalization && (
+            <View style={styles.chips}>
+              {LOUDNESS_TARGETS.map(target => (
+                <TouchableOpacity
+                  key={target}
+                  style={[styles.chip, target === mixer.targetLoudness && styles.chipActive]}
+                  onPress={() => updateMixer({ targetLoudness: target })}
+                >
+                  <Text style={styles.chipText}>{target} LUFS</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          {streams.map(stream => (
+            <View key={stream.id} style={styles.tileRow}>
+              <Text style={[styles.tileLabel, styles.meterLabel]} numberOfLines={1}>
+                {stream.displayName}
+              </Text>
+              <LoudnessMeter streamId={stream.id} />
+            </View>
+          ))}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: ModernTheme.spacing.sm,
+    padding: ModernTheme.spacing.md,
+    backgroundColor: ModernTheme.colors.background.secondary,
+    borderRadius: ModernTheme.borderRadius.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.sm,
+  },
+  title: {
+    flex: 1,
+    color: ModernTheme.colors.text.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  hint: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: ModernTheme.spacing.xs,
+  },
+  chip: {
+    flex: 1,
+    height: 32,
+    borderRadius: ModernTheme.borderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: ModernTheme.colors.background.tertiary,
+  },
+  chipActive: {
+    backgroundColor: ModernTheme.colors.primary[500],
+  },
+  chipText: {
+    color: ModernTheme.colors.text.primary,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  sliderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.sm,
+  },
+  label: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: 12,
+  },
+  slider: {
+    flex: 1,
+    height: 28,
+  },
+  value: {
+    width: 36,
+    textAlign: 'right',
+    color: ModernTheme.colors.text.tertiary,
+    fontSize: 11,
+  },
+  tileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.sm,
+  },
+  tileName: {
+    width: 110,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  tileNameWide: {
+    flex: 1,
+  },
+  tileLabel: {
+    flex: 1,
+    color: ModernTheme.colors.text.secondary,
+    fontSize: 12,
+  },
+  meterLabel: {
+    flex: 0,
+    width: 110,
+  },
+  divider: {
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: ModernTheme.colors.border.primary,
+  },
+  tileLabelFocused: {
+    color: ModernTheme.colors.text.primary,
+    fontWeight: '600',
+  },
+});
+
+export default AudioPolicyPanel;
@@ -0,0 +1,315 @@
+/**
+ * Channel Recordings Modal
+ * Browses a channel's past broadcasts and clips through its platform provider.
+ * Picking one puts it in the multi-view next to the live streams.
+ */
+
+import { router } from 'expo-router';
+import { Film, X } from 'lucide-react-native';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  View,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  Modal,
+  Pressable,
+  FlatList,
+  Image,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useStreamManagerContext } from '@/contexts/StreamManagerContext';
+import { platformRegistry } from '@/services/platformProviders';
+import { ModernTheme } from '@/theme/modernTheme';
+import { RecordingKind, Stream } from '@/types/stream';
+import { HapticFeedback } from '@/utils/haptics';
+import { formatPlaybackTime } from './RecordingControls';
+
+interface ChannelRecordingsModalProps {
+  /** Channel to browse; the modal is hidden while null */
+  channel: Stream | null;
+  onClose: () => void;
+}
+
+const TABS: { kind: RecordingKind; label: string }[] = [
+  { kind: 'vod', label: 'Past broadcasts' },
+  { kind: 'clip', label: 'Clips' },
+];
+
+/** True when the channel's platform can list VODs or clips */
+export const hasChannelRecordings = (stream: Stream): boolean => {
+  const provider = platformRegistry.get(stream.platform);
+  return !!provider?.getRecordings && (provider.capabilities.vods || provider.capabilities.clips);
+};
+
+export const ChannelRecordingsModal: React.FC<ChannelRecordingsModalProps> = ({
+  channel,
+  onClose,
+}) => {
+  const { addStream, isStreamActive } = useStreamManagerContext();
+  const provider = channel ? platformRegistry.get(channel.platform) : null;
+  const tabs = TABS.filter(tab =>
+    tab.kind === 'vod' ? provider?.capabilities.vods : provider?.capabilities.clips
+  );
+
+  const [kind, setKind] = useState<RecordingKind>('vod');
+  const [streams, setStreams] = useState<Stream[]>([]);
+  const [cursor, setCursor] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = useCallback(
+    async (reset: boolean) => {
+      if (!channel || !provider?.getRecordings) {
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+      try {
+        const page = await provider.getRecordings(channel, kind, reset ? undefined : cursor);
+        setStreams(current => (reset ? page.streams : [...current, ...page.streams]));
+        setCursor(page.cursor);
+      } catch (err) {
+        console.error('❌ Failed to load recordings:', err);
+        setError('Could not load videos. Pull to try again.');
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [channel, provider, kind, cursor]
+  );
+  const loadPageRef = useRef(loadPage);
+  loadPageRef.current = loadPage;
+
+  // Start over whenever the channel or tab changes
+  const channelId = channel?.id;
+  useEffect(() => {
+    setStreams([]);
+    setCursor(undefined);
+    if (channelId) {
+      loadPageRef.current(true);
+    }
+  }, [channelId, kind]);
+
+  // Fall back to a tab the platform has
+  const firstKind = tabs[0]?.kind;
+  const hasKind = tabs.some(tab => tab.kind === kind);
+  useEffect(() => {
+    if (firstKind && !hasKind) {
+      setKind(firstKind);
+    }
+  }, [firstKind, hasKind]);
+
+  const handleSelect = useCallback(
+    async (stream: Stream) => {
+      if (!isStreamActive(stream.id)) {
+        const result = await addStream(stream);
+        if (!result.success) {
+          HapticFeedback.warning();
+          Alert.alert('Could not add video', result.message);
+          return;
+        }
+      }
+      HapticFeedback.success();
+      onClose();
+      router.push('/(tabs)/grid');
+    },
+    [addStream, isStreamActive, onClose]
+  );
+
+  const renderItem = ({ item }: { item: Stream }) => (
+    <TouchableOpacity style={styles.row} onPress={() => handleSelect(item)} activeOpacity={0.7}>
+      <View style={styles.thumbnail}>
+        {!!item.thumbnailUrl && <Image source={{ uri: item.thumbnailUrl }} style={styles.image} />}
+        {!!item.recording?.duration && (
+          <Text style={styles.duration}>{formatPlaybackTime(item.recording.duration)}</Text>
+        )}
+      </View>
+      <View style={styles.details}>
+        <Text style={styles.itemTitle} numberOfLines={2}>
+          {item.title || 'Untitled'}
+        </Text>
+        <Text style={styles.meta} numberOfLines={1}>
+          {[
+            item.recording && new Date(item.recording.createdAt).toLocaleDateString(),
+            `${item.viewerCount.toLocaleString()} views`,
+          ]
+            .filter(Boolean)
+            .join(' • ')}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={!!channel} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={styles.sheet} onPress={() => {}}>
+          <View style={styles.header}>
+            <View style={styles.titleRow}>
+              <Film size={18} color={provider?.color || ModernTheme.colors.primary[500]} />
+              <Text style={styles.title} numberOfLines={1}>
+                {channel?.displayName}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <X size={20} color={ModernTheme.colors.text.secondary} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.tabs}>
+            {tabs.map(tab => (
+              <TouchableOpacity
+                key={tab.kind}
+                style={[styles.tab, tab.kind === kind && styles.tabActive]}
+                onPress={() => setKind(tab.kind)}
+              >
+                <Text style={[styles.tabText, tab.kind === kind && styles.tabTextActive]}>
+                  {tab.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <FlatList
+            data={streams}
+            keyExtractor={item => item.id}
+            renderItem={renderItem}
+            style={styles.list}
+            onEndReached={() => {
+              if (cursor && !isLoading) {
+                loadPage(false);
+              }
+            }}
+            onEndReachedThreshold={0.5}
+            refreshing={false}
+            onRefresh={() => loadPage(true)}
+            ListFooterComponent={
+              isLoading ? (
+                <ActivityIndicator style={styles.footer} color={ModernTheme.colors.primary[500]} />
+              ) : null
+            }
+            ListEmptyComponent={
+              isLoading ? null : (
+                <Text style={styles.empty}>
+                  {error || (kind === 'vod' ? 'No past broadcasts' : 'No clips yet')}
+                </Text>
+              )
+            }
+          />
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    padding: ModernTheme.spacing.lg,
+  },
+  sheet: {
+    maxHeight: '80%',
+    backgroundColor: ModernTheme.colors.background.secondary,
+    borderRadius: ModernTheme.borderRadius.lg,
+    padding: ModernTheme.spacing.lg,
+    gap: ModernTheme.spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  titleRow: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.sm,
+  },
+  title: {
+    flex: 1,
+    color: ModernTheme.colors.text.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  tabs: {
+    flexDirection: 'row',
+    gap: ModernTheme.spacing.sm,
+  },
+  tab: {
+    paddingHorizontal: ModernTheme.spacing.md,
+    paddingVertical: ModernTheme.spacing.xs,
+    borderRadius: ModernTheme.borderRadius.full,
+    backgroundColor: ModernTheme.colors.background.tertiary,
+  },
+  tabActive: {
+    backgroundColor: ModernTheme.colors.primary[500],
+  },
+  tabText: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  tabTextActive: {
+    color: '#fff',
+  },
+  list: {
+    flexGrow: 0,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.md,
+    paddingVertical: ModernTheme.spacing.sm,
+  },
+  thumbnail: {
+    width: 112,
+    aspectRatio: 16 / 9,
+    borderRadius: ModernTheme.borderRadius.sm,
+    backgroundColor: ModernTheme.colors.background.tertiary,
+    overflow: 'hidden',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  duration: {
+    position: 'absolute',
+    right: 4,
+    bottom: 4,
+    paddingHorizontal: 4,
+    borderRadius: 3,
+    backgroundColor: 'rgba(0, 0, 0, 0.75)',
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  details: {
+    flex: 1,
+    gap: 2,
+  },
+  itemTitle: {
+    color: ModernTheme.colors.text.primary,
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  meta: {
+    color: ModernTheme.colors.text.tertiary,
+    fontSize: 12,
+  },
+  footer: {
+    paddingVertical: ModernTheme.spacing.md,
+  },
+  empty: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: 13,
+    textAlign: 'center',
+    paddingVertical: ModernTheme.spacing.lg,
+  },
+});
+
+export default ChannelRecordingsModal;
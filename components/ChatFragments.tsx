@@ -0,0 +1,97 @@
+/**
+ * Chat Fragments
+ * Renders a chat message's text and emote fragments inline inside a parent
+ * <Text>. Zero-width emotes are stacked on top of the emote before them and
+ * animated emotes play through expo-image.
+ */
+
+import { Image } from 'expo-image';
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { ChatFragment } from '@/types/chat';
+
+type EmoteFragment = Extract<ChatFragment, { type: 'emote' }>;
+
+type RenderItem =
+  | { kind: 'text'; text: string }
+  | { kind: 'emote'; base: EmoteFragment; overlays: EmoteFragment[] };
+
+interface ChatFragmentsProps {
+  fragments: ChatFragment[];
+  emoteSize?: number;
+}
+
+/**
+ * Attaches zero-width emotes to the closest preceding emote, dropping the
+ * whitespace between them. Leading zero-width emotes render on their own.
+ */
+const groupFragments = (fragments: ChatFragment[]): RenderItem[] => {
+  const items: RenderItem[] = [];
+
+  fragments.forEach(fragment => {
+    if (fragment.type === 'text') {
+      items.push({ kind: 'text', text: fragment.text });
+      return;
+    }
+
+    if (fragment.zeroWidth) {
+      const last = items[items.length - 1];
+      const beforeLast = items[items.length - 2];
+      if (last?.kind === 'emote') {
+        last.overlays.push(fragment);
+        return;
+      }
+      if (last?.kind === 'text' && !last.text.trim() && beforeLast?.kind === 'emote') {
+        items.pop();
+        beforeLast.overlays.push(fragment);
+        return;
+      }
+    }
+
+    items.push({ kind: 'emote', base: fragment, overlays: [] });
+  });
+
+  return items;
+};
+
+export const ChatFragments: React.FC<ChatFragmentsProps> = ({ fragments, emoteSize = 20 }) => {
+  const size = { width: emoteSize, height: emoteSize };
+
+  return (
+    <>
+      {groupFragments(fragments).map((item, index) => {
+        if (item.kind === 'text') {
+          return item.text;
+        }
+
+        const base = (
+          <Image
+            source={{ uri: item.base.url }}
+            style={size}
+            contentFit="contain"
+            accessibilityLabel={item.base.text}
+          />
+        );
+
+        if (item.overlays.length === 0) {
+          return <React.Fragment key={index}>{base}</React.Fragment>;
+        }
+
+        return (
+          <View key={index} style={size}>
+            {base}
+            {item.overlays.map((overlay, overlayIndex) => (
+              <Image
+                key={overlayIndex}
+                source={{ uri: overlay.url }}
+                style={StyleSheet.absoluteFill}
+                contentFit="contain"
+                accessibilityLabel={overlay.text}
+              />
+            ))}
+          </View>
+        );
+      })}
+    </>
+  );
+};
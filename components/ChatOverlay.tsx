@@ -22,10 +22,11 @@ import {
   Heart,
   Smile,
   Settings,
+  Shield,
   Minimize2,
   Maximize2,
 } from 'lucide-react-native';
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -33,22 +34,26 @@ import Animated, {
   withTiming,
   interpolate,
 } from 'react-native-reanimated';
+import { useAuth } from '@/contexts/AuthContext';
+import { useChatModeration } from '@/hooks/useChatModeration';
+import { useStreamChat } from '@/hooks/useStreamChat';
+import { platformRegistry } from '@/services/platformProviders';
+import { PlatformChatSource } from '@/services/platformRegistry';
+import { ChatMessage } from '@/types/chat';
+import { Stream } from '@/types/stream';
+import { ChatFragments } from './ChatFragments';
+import { ChatUserCard } from './ChatUserCard';
+import { EmotePicker } from './EmotePicker';
+import { ModerationPanel } from './ModerationPanel';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
-interface ChatMessage {
-  id: string;
-  username: string;
-  message: string;
-  timestamp: Date;
-  type: 'normal' | 'subscription' | 'donation' | 'system';
-  badges?: string[];
-  color?: string;
-}
-
 interface ChatOverlayProps {
   streamId: string;
+  /** Twitch login used for chat when no `stream` is given */
   streamName: string;
+  /** Stream whose platform provider supplies the chat source */
+  stream?: Stream;
   isVisible: boolean;
   isMinimized: boolean;
   onToggleVisibility: () => void;
@@ -58,60 +63,54 @@ interface ChatOverlayProps {
   onChatMessage?: (message: ChatMessage) => void;
 }
 
-const mockMessages: ChatMessage[] = [
-  {
-    id: '1',
-    username: 'StreamFan123',
-    message: 'Amazing gameplay! 🔥',
-    timestamp: new Date(),
-    type: 'normal',
-    color: '#FF6B6B',
-  },
-  {
-    id: '2',
-    username: 'ProGamer',
-    message: 'Just subscribed for 6 months! PogChamp',
-    timestamp: new Date(),
-    type: 'subscription',
-    badges: ['subscriber'],
-    color: '#4ECDC4',
-  },
-  {
-    id: '3',
-    username: 'ChatMod',
-    message: 'Welcome to the stream everyone!',
-    timestamp: new Date(),
-    type: 'normal',
-    badges: ['moderator'],
-    color: '#45B7D1',
-  },
-];
-
 export const ChatOverlay: React.FC<ChatOverlayProps> = ({
   streamId,
   streamName,
+  stream,
   isVisible,
   isMinimized,
   onToggleVisibility,
   onToggleMinimize,
   position,
-  enableRealTimeChat = false,
+  enableRealTimeChat = true,
   onChatMessage,
 }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>(mockMessages);
   const [newMessage, setNewMessage] = useState('');
-  const [viewerCount, setViewerCount] = useState(1247);
   const [isTyping, setIsTyping] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
-  const [connectionStatus, setConnectionStatus] = useState<
-    'connecting' | 'connected' | 'disconnected'
-  >('disconnected');
-  const [typingUsers, setTypingUsers] = useState<string[]>([]);
-  const [chatModerators, setChatModerators] = useState<string[]>(['ChatMod']);
-  const [bannedWords, setBannedWords] = useState<string[]>(['spam', 'hate']);
-  const [slowMode, setSlowMode] = useState(false);
-  const [slowModeDelay, setSlowModeDelay] = useState(0);
-  const [lastMessageTime, setLastMessageTime] = useState(0);
+  const [bannedWords] = useState<string[]>(['spam', 'hate']);
+  const [isSending, setIsSending] = useState(false);
+  const [showEmotePicker, setShowEmotePicker] = useState(false);
+  const [selectedMessage, setSelectedMessage] = useState<ChatMessage | null>(null);
+  const [showModPanel, setShowModPanel] = useState(false);
+  const { connectTwitch } = useAuth();
+
+  // Chat comes from the stream's provider; bare overlays fall back to Twitch by login
+  const chatSource = useMemo<PlatformChatSource | null>(() => {
+    if (!enableRealTimeChat) {
+      return null;
+    }
+    if (stream) {
+      return platformRegistry.get(stream.platform)?.getChatSource(stream) || null;
+    }
+    return streamName ? { kind: 'twitch-irc', channel: streamName.toLowerCase() } : null;
+  }, [enableRealTimeChat, stream, streamName]);
+
+  const {
+    messages,
+    roomState,
+    channelId,
+    status: connectionStatus,
+    sendAs,
+    isModerator,
+    sendMessage,
+  } = useStreamChat(isVisible ? chatSource : null);
+  // Mod tools and user history only exist for Twitch chat
+  const moderation = useChatModeration(
+    isVisible && chatSource?.kind === 'twitch-irc' ? chatSource.channel : null,
+    channelId,
+    isModerator
+  );
+  const viewerCount = stream?.viewerCount ?? 0;
 
   const chatListRef = useRef<FlatList>(null);
   const scale = useSharedValue(isVisible ? 1 : 0);
@@ -132,88 +131,6 @@ export const ChatOverlay: React.FC<ChatOverlayProps> = ({
     chatHeight.value = withSpring(isMinimized ? 60 : 400, { damping: 15 });
   }, [isMinimized]);
 
-  // Real-time chat connection simulation
-  useEffect(() => {
-    if (!isVisible || !enableRealTimeChat) {return;}
-
-    // Simulate connection
-    setConnectionStatus('connecting');
-    const connectTimeout = setTimeout(() => {
-      setConnectionStatus('connected');
-      setIsConnected(true);
-    }, 1000);
-
-    // Simulate new messages with more realistic patterns
-    const messageInterval = setInterval(
-      () => {
-        const messageTemplates = [
-          'Nice stream!',
-          'PogChamp',
-          'Amazing play!',
-          'KEKW',
-          '5Head move',
-          'EZ Clap',
-          'LUL',
-          'Kreygasm',
-          'MonkaS',
-          'That was insane!',
-          'GG',
-          'What game is this?',
-          'First time here!',
-          'Followed!',
-          'Sub hype!',
-        ];
-
-      const randomTemplate = messageTemplates[Math.floor(Math.random() * messageTemplates.length)];
-        const username = `User${Math.floor(Math.random() * 1000)}`;
-
-      const newMsg: ChatMessage = {
-          id: Date.now().toString(),
-          username,
-          message: randomTemplate,
-          timestamp: new Date(),
-          type: Math.random() < 0.05 ? 'subscription' : 'normal',
-          color: `hsl(${Math.floor(Math.random() * 360)}, 70%, 60%)`,
-          badges: Math.random() < 0.1 ? ['subscriber'] : undefined,
-        };
-
-      setMessages(prev => [...prev.slice(-49), newMsg]);
-
-      // Simulate typing indicator
-        if (Math.random() < 0.3) {
-          const typingUser = `User${Math.floor(Math.random() * 100)}`;
-          setTypingUsers(prev => [...prev, typingUser]);
-          setTimeout(() => {
-            setTypingUsers(prev => prev.filter(u => u !== typingUser));
-          }, 2000);
-        }
-
-
-      // Auto-scroll to bottom
-        setTimeout(() => {
-          chatListRef.current?.scrollToEnd({ animated: true });
-        }, 100);
-      },
-      2000 + Math.random() * 4000
-    );
-
-    // Simulate viewer count changes
-    const viewerInterval = setInterval(() => {
-      setViewerCount(prev => {
-        const change = Math.floor(Math.random() * 20) - 10; // ±10
-        return Math.max(1000, prev + change);
-      });
-    }, 10000);
-
-    return () => {
-      clearTimeout(connectTimeout);
-      clearInterval(messageInterval);
-      clearInterval(viewerInterval);
-      setConnectionStatus('disconnected');
-      setIsConnected(false);
-    };
-  }, [isVisible, enableRealTimeChat]);
-
   // Enhanced message validation and moderation
   const validateMessage = (messageText: string): { isValid: boolean; reason?: string } => {
     const trimmedMessage = messageText.trim();
@@ -233,19 +150,17 @@ export const ChatOverlay: React.FC<ChatOverlayProps> = ({
       return { isValid: false, reason: 'Message contains inappropriate content' };
     }
 
-    // Check slow mode
-    if (slowMode) {
-      const now = Date.now();
-      if (now - lastMessageTime < slowModeDelay * 1000) {
-        const remaining = Math.ceil((slowModeDelay * 1000 - (now - lastMessageTime)) / 1000);
-        return { isValid: false, reason: `Slow mode: wait ${remaining}s` };
-      }
-    }
-
     return { isValid: true };
   };
 
-  const handleSendMessage = () => {
+  // Only Twitch chat can be written to; other platforms are read-only here
+  const canSend = chatSource?.kind === 'twitch-irc';
+  let inputPlaceholder = 'Chat is read-only for this platform';
+  if (canSend) {
+    inputPlaceholder = sendAs ? `Chat as ${sendAs}...` : 'Sign in with Twitch to chat';
+  }
+
+  const handleSendMessage = async () => {
     const validation = validateMessage(newMessage);
 
     if (!validation.isValid) {
@@ -253,31 +168,68 @@ export const ChatOverlay: React.FC<ChatOverlayProps> = ({
       return;
     }
 
-    const message: ChatMessage = {
-      id: Date.now().toString(),
-      username: 'You',
-      message: newMessage.trim(),
-      timestamp: new Date(),
-      type: 'normal',
-      color: '#8B5CF6',
-    };
-
-    setMessages(prev => [...prev.slice(-49), message]);
-    setNewMessage('');
-    setIsTyping(false);
-    setLastMessageTime(Date.now());
-
-    // Notify parent component
-    onChatMessage?.(message);
-
-    setTimeout(() => {
-      chatListRef.current?.scrollToEnd({ animated: true });
-    }, 100);
+    // Anonymous connections are read-only until a Twitch account is linked
+    if (!sendAs) {
+      Alert.alert('Sign In to Chat', 'Connect your Twitch account to send chat messages.', [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Connect Twitch',
+          onPress: async () => {
+            const { error } = await connectTwitch();
+            if (error) {
+              Alert.alert('Twitch Sign-In Failed', error.message);
+            }
+          },
+        },
+      ]);
+      return;
+    }
+
+    const text = newMessage.trim();
+    setIsSending(true);
+
+    try {
+      await sendMessage(text);
+      setNewMessage('');
+      setIsTyping(false);
+
+      // Notify parent component
+      onChatMessage?.({
+        id: Date.now().toString(),
+        platform: stream?.platform || 'twitch',
+        channel: chatSource?.channel || streamName,
+        userId: '',
+        username: sendAs,
+        displayName: sendAs,
+        message: text,
+        fragments: [{ type: 'text', text }],
+        timestamp: new Date(),
+        type: 'normal',
+        badges: [],
+      });
+    } catch (error) {
+      // Keep the text so it can be edited and resent
+      Alert.alert(
+        'Message Not Sent',
+        error instanceof Error ? error.message : 'Failed to send message'
+      );
+    } finally {
+      setIsSending(false);
+    }
   };
 
+  const roomModes = [
+    roomState.slowMode > 0 && `Slow ${roomState.slowMode}s`,
+    roomState.subsOnly && 'Subs only',
+    roomState.followersOnly !== null &&
+      (roomState.followersOnly > 0 ? `Followers ${roomState.followersOnly}m` : 'Followers only'),
+    roomState.emoteOnly && 'Emote only',
+  ].filter(Boolean) as string[];
+
   const renderMessage = ({ item }: { item: ChatMessage }) => {
-    const isSubscription = item.type === 'subscription';
-    const isSystem = item.type === 'system';
+    const isSubscription = item.type === 'subscription' || item.type === 'donation';
+    const isSystem = item.type === 'system' || item.type === 'announcement';
+    const hasBadge = (id: string) => item.badges.some(badge => badge.id === id);
 
     return (
       <MotiView
@@ -297,13 +249,23 @@ export const ChatOverlay: React.FC<ChatOverlayProps> = ({
         )}
 
         <View style={styles.messageContent}>
+          {item.systemMessage && <Text style={styles.systemText}>{item.systemMessage}</Text>}
+
           <View style={styles.messageHeader}>
             <View style={styles.userInfo}>
-              {item.badges?.includes('moderator') && <Crown size={12} color="#FFD700" />}
-              {item.badges?.includes('subscriber') && <Heart size={12} color="#FF6B6B" />}
-              <Text style={[styles.username, { color: item.color || '#999' }]}>
-                {item.username}
+              {(hasBadge('broadcaster') || hasBadge('moderator')) && (
+                <Crown size={12} color="#FFD700" />
+              )}
+              {(hasBadge('subscriber') || hasBadge('founder')) && (
+                <Heart size={12} color="#FF6B6B" />
+              )}
+              <Text
+                style={[styles.username, { color: item.color || '#999' }]}
+                onPress={item.username ? () => setSelectedMessage(item) : undefined}
+              >
+                {item.displayName}
               </Text>
+              {!!item.bits && <Text style={styles.bitsText}>{item.bits} bits</Text>}
             </View>
             <Text style={styles.timestamp}>
               {item.timestamp.toLocaleTimeString('en-US', {
@@ -313,7 +275,13 @@ export const ChatOverlay: React.FC<ChatOverlayProps> = ({
             </Text>
           </View>
 
-          <Text style={styles.messageText}>{item.message}</Text>
+          {item.isDeleted ? (
+            <Text style={[styles.messageText, styles.deletedText]}>&lt;message deleted&gt;</Text>
+          ) : (
+            <Text style={[styles.messageText, item.type === 'action' && { color: item.color }]}>
+              <ChatFragments fragments={item.fragments} />
+            </Text>
+          )}
         </View>
       </MotiView>
     );
@@ -366,6 +334,7 @@ export const ChatOverlay: React.FC<ChatOverlayProps> = ({
                           : '#EF4444',
                   },
                 ]}
+              />
 
               <View style={styles.viewerBadge}>
                 <Users size={12} color="#10B981" />
@@ -374,6 +343,18 @@ export const ChatOverlay: React.FC<ChatOverlayProps> = ({
             </View>
 
             <View style={styles.headerControls}>
+              {isModerator && moderation.target && (
+                <TouchableOpacity
+                  style={styles.headerButton}
+                  onPress={() => setShowModPanel(prev => !prev)}
+                >
+                  <Shield
+                    size={16}
+                    color={showModPanel || moderation.heldMessages.length ? '#8B5CF6' : '#666'}
+                  />
+                </TouchableOpacity>
+              )}
+
               <TouchableOpacity style={styles.headerButton} onPress={onToggleMinimize}>
                 {isMinimized ? (
                   <Maximize2 size={16} color="#666" />
@@ -405,40 +386,49 @@ export const ChatOverlay: React.FC<ChatOverlayProps> = ({
                   }}
                 />
 
-                {/* Typing Indicators */}
-                {typingUsers.length > 0 && (
-                  <MotiView
-                    from={{ opacity: 0, translateY: 10 }}
-                    animate={{ opacity: 1, translateY: 0 }}
-                    exit={{ opacity: 0, translateY: 10 }}
-                    style={styles.typingIndicators}
-                  >
-                    <View style={styles.typingDots}>
-                      <MotiView
-                        animate={{ opacity: [0.3, 1, 0.3] }}
-                        transition={{ repeat: Infinity, duration: 1000 }}
-                        style={styles.typingDot}
-                      />
-                      <MotiView
-                        animate={{ opacity: [0.3, 1, 0.3] }}
-                        transition={{ repeat: Infinity, duration: 1000, delay: 200 }}
-                        style={styles.typingDot}
-                      />
-                      <MotiView
-                        animate={{ opacity: [0.3, 1, 0.3] }}
-                        transition={{ repeat: Infinity, duration: 1000, delay: 400 }}
-                        style={styles.typingDot}
-                      />
-                    </View>
-                    <Text style={styles.typingText}>
-                      {typingUsers.slice(0, 3).join(', ')}
-                      {typingUsers.length > 3 && ` +${typingUsers.length - 3} more`}
-                      {typingUsers.length === 1 ? ' is' : ' are'} typing...
-                    </Text>
-                  </MotiView>
+                {selectedMessage && (
+                  <ChatUserCard
+                    message={selectedMessage}
+                    recentMessages={moderation.getUserMessages(selectedMessage.username)}
+                    target={isModerator ? moderation.target : null}
+                    onClose={() => setSelectedMessage(null)}
+                  />
+                )}
+
+                {showModPanel && isModerator && moderation.target && (
+                  <ModerationPanel
+                    target={moderation.target}
+                    roomState={roomState}
+                    heldMessages={moderation.heldMessages}
+                    heldError={moderation.heldError}
+                    modLog={moderation.modLog}
+                    onClose={() => setShowModPanel(false)}
+                  />
                 )}
               </View>
 
+              {/* Room modes that restrict who can chat */}
+              {roomModes.length > 0 && (
+                <View style={styles.roomModes}>
+                  {roomModes.map(mode => (
+                    <Text key={mode} style={styles.roomModeText}>
+                      {mode}
+                    </Text>
+                  ))}
+                </View>
+              )}
+
+              {showEmotePicker && canSend && (
+                <EmotePicker
+                  channelId={channelId}
+                  onSelect={name =>
+                    setNewMessage(
+                      prev => `${prev && !prev.endsWith(' ') ? `${prev} ` : prev}${name} `
+                    )
+                  }
+                />
+              )}
+
               {/* Input */}
               <MotiView
                 from={{ opacity: 0, translateY: 20 }}
@@ -448,8 +438,12 @@ export const ChatOverlay: React.FC<ChatOverlayProps> = ({
               >
                 <BlurView style={styles.inputBlur} blurType="light" blurAmount={5}>
                   <View style={styles.inputRow}>
-                    <TouchableOpacity style={styles.emojiButton}>
-                      <Smile size={18} color="#666" />
+                    <TouchableOpacity
+                      style={styles.emojiButton}
+                      onPress={() => setShowEmotePicker(prev => !prev)}
+                      disabled={!canSend}
+                    >
+                      <Smile size={18} color={showEmotePicker ? '#8B5CF6' : '#666'} />
                     </TouchableOpacity>
 
                     <TextInput
@@ -459,18 +453,19 @@ export const ChatOverlay: React.FC<ChatOverlayProps> = ({
                         setNewMessage(text);
                         setIsTyping(text.length > 0);
                       }}
-                      placeholder="Type a message..."
+                      placeholder={inputPlaceholder}
                       placeholderTextColor="#666"
                       multiline
                       maxLength={500}
                       onSubmitEditing={handleSendMessage}
                       blurOnSubmit={false}
+                      editable={canSend && !isSending}
                     />
 
                     <TouchableOpacity
                       style={[styles.sendButton, newMessage.trim() && styles.sendButtonActive]}
                       onPress={handleSendMessage}
-                      disabled={!newMessage.trim()}
+                      disabled={!canSend || !newMessage.trim() || isSending}
                     >
                       <Send size={16} color={newMessage.trim() ? '#8B5CF6' : '#666'} />
                     </TouchableOpacity>
@@ -612,11 +607,40 @@ const styles = StyleSheet.create({
     color: '#666',
     fontSize: 10,
   },
+  systemText: {
+    color: '#A78BFA',
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  bitsText: {
+    color: '#F59E0B',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  deletedText: {
+    color: '#666',
+    fontStyle: 'italic',
+  },
   messageText: {
     color: '#fff',
     fontSize: 13,
     lineHeight: 18,
   },
+  roomModes: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  roomModeText: {
+    color: '#F59E0B',
+    fontSize: 11,
+    fontWeight: '600',
+  },
   inputContainer: {
     padding: 12,
     borderTopWidth: 1,
@@ -659,24 +683,4 @@ const styles = StyleSheet.create({
     color: '#666',
     fontSize: 10,
   },
-  typingIndicators: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    paddingHorizontal: 12,
-    paddingVertical: 6,
-    backgroundColor: 'rgba(0, 0, 0, 0.3)',
-    borderRadius: 12,
-    margin: 8,
-    gap: 8,
-  },
-  typingDots: {
-    flexDirection: 'row',
-    gap: 3,
-  },
-  typingDot: {
-    width: 4,
-    height: 4,
-    borderRadius: 2,
-    backgroundColor: '#8B5CF6',
-  },
 });
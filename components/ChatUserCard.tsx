@@ -0,0 +1,218 @@
+/**
+ * Chat User Card
+ * Opened from a chatter's name: their recent messages in this session and,
+ * for moderators, timeout/ban/unban and deleting the message tapped.
+ */
+
+import { Ban, Clock, ShieldCheck, Trash2, X } from 'lucide-react-native';
+import React from 'react';
+import { Alert, FlatList, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useModerationAction } from '@/hooks/useChatModeration';
+import {
+  ChatModerationTarget,
+  contentModerationService,
+} from '@/services/contentModerationService';
+import { ModernTheme } from '@/theme/modernTheme';
+import { ChatMessage } from '@/types/chat';
+import { ChatFragments } from './ChatFragments';
+
+interface ChatUserCardProps {
+  /** Message the card was opened from */
+  message: ChatMessage;
+  recentMessages: ChatMessage[];
+  /** Set when the signed-in account moderates the channel */
+  target: ChatModerationTarget | null;
+  onClose: () => void;
+}
+
+const TIMEOUTS: { label: string; seconds: number }[] = [
+  { label: '1m', seconds: 60 },
+  { label: '10m', seconds: 600 },
+  { label: '1h', seconds: 3600 },
+  { label: '24h', seconds: 86400 },
+];
+
+export const ChatUserCard: React.FC<ChatUserCardProps> = ({
+  message,
+  recentMessages,
+  target,
+  onClose,
+}) => {
+  const { run, isBusy } = useModerationAction();
+  const user = { id: message.userId, login: message.username };
+  const canModerate = !!target && !!user.id;
+
+  const handleBan = () => {
+    if (!target) {
+      return;
+    }
+    Alert.alert('Ban User', `Ban ${message.displayName} from #${target.channel}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Ban',
+        style: 'destructive',
+        onPress: () => run(() => contentModerationService.banChatUser(target, user)),
+      },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text
+          style={[styles.displayName, { color: message.color || ModernTheme.colors.text.primary }]}
+        >
+          {message.displayName}
+        </Text>
+        {message.displayName.toLowerCase() !== message.username && (
+          <Text style={styles.login}>{message.username}</Text>
+        )}
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <X size={16} color={ModernTheme.colors.text.secondary} />
+        </TouchableOpacity>
+      </View>
+
+      {canModerate && target && (
+        <View style={styles.actions}>
+          <Clock size={14} color={ModernTheme.colors.text.secondary} />
+          {TIMEOUTS.map(timeout => (
+            <TouchableOpacity
+              key={timeout.seconds}
+              style={styles.actionChip}
+              disabled={isBusy}
+              onPress={() =>
+                run(() => contentModerationService.timeoutChatUser(target, user, timeout.seconds))
+              }
+            >
+              <Text style={styles.actionText}>{timeout.label}</Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity
+            style={[styles.actionChip, styles.dangerChip]}
+            disabled={isBusy}
+            onPress={handleBan}
+          >
+            <Ban size={12} color={ModernTheme.colors.text.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionChip}
+            disabled={isBusy}
+            onPress={() => run(() => contentModerationService.unbanChatUser(target, user))}
+            accessibilityLabel="Unban"
+          >
+            <ShieldCheck size={12} color={ModernTheme.colors.text.primary} />
+          </TouchableOpacity>
+          {!message.isDeleted && (
+            <TouchableOpacity
+              style={styles.actionChip}
+              disabled={isBusy}
+              onPress={() =>
+                run(() =>
+                  contentModerationService.deleteChatMessage(target, message.id, message.username)
+                )
+              }
+              accessibilityLabel="Delete message"
+            >
+              <Trash2 size={12} color={ModernTheme.colors.text.primary} />
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      <Text style={styles.sectionTitle}>Recent messages ({recentMessages.length})</Text>
+      <FlatList
+        data={[...recentMessages].reverse()}
+        keyExtractor={item => item.id}
+        renderItem={({ item }) => (
+          <View style={styles.historyRow}>
+            <Text style={styles.historyTime}>
+              {item.timestamp.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+            </Text>
+            <Text style={[styles.historyText, item.isDeleted && styles.deletedText]}>
+              <ChatFragments fragments={item.fragments} emoteSize={16} />
+            </Text>
+          </View>
+        )}
+        ListEmptyComponent={<Text style={styles.emptyText}>No messages since chat opened</Text>}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: ModernTheme.colors.background.secondary,
+    padding: ModernTheme.spacing.sm,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: ModernTheme.spacing.xs,
+  },
+  displayName: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  login: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: 12,
+  },
+  closeButton: {
+    marginLeft: 'auto',
+    padding: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: ModernTheme.spacing.xs,
+    marginTop: ModernTheme.spacing.sm,
+  },
+  actionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: ModernTheme.spacing.sm,
+    paddingVertical: 4,
+    borderRadius: ModernTheme.borderRadius.md,
+    backgroundColor: ModernTheme.colors.background.tertiary,
+  },
+  dangerChip: {
+    backgroundColor: ModernTheme.colors.error[500],
+  },
+  actionText: {
+    color: ModernTheme.colors.text.primary,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: 11,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: ModernTheme.spacing.md,
+    marginBottom: ModernTheme.spacing.xs,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    gap: ModernTheme.spacing.sm,
+    paddingVertical: 3,
+  },
+  historyTime: {
+    color: ModernTheme.colors.text.tertiary,
+    fontSize: 11,
+  },
+  historyText: {
+    flex: 1,
+    color: ModernTheme.colors.text.primary,
+    fontSize: 13,
+  },
+  deletedText: {
+    color: ModernTheme.colors.text.tertiary,
+    textDecorationLine: 'line-through',
+  },
+  emptyText: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: 12,
+  },
+});
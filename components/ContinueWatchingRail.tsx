@@ -0,0 +1,146 @@
+/**
+ * Continue Watching Rail
+ * Horizontal row of on-demand videos that were started but not finished.
+ * Picking one adds it back to the grid, where the player resumes it.
+ */
+
+import { router, useFocusEffect } from 'expo-router';
+import React, { useState, useCallback, useEffect } from 'react';
+import { View, StyleSheet, Text, TouchableOpacity, FlatList, Image, Alert } from 'react-native';
+import { useStreamManagerContext } from '@/contexts/StreamManagerContext';
+import { ContinueWatchingItem, watchHistoryService } from '@/services/watchHistoryService';
+import { ModernTheme } from '@/theme/modernTheme';
+
+const formatRemaining = (item: ContinueWatchingItem): string => {
+  if (!item.duration) {
+    return `${Math.floor(item.position / 60)}m watched`;
+  }
+  const minutes = Math.max(1, Math.round((item.duration - item.position) / 60));
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m left` : `${minutes}m left`;
+};
+
+export const ContinueWatchingRail: React.FC = () => {
+  const { addStream, isStreamActive } = useStreamManagerContext();
+  const [items, setItems] = useState<ContinueWatchingItem[]>([]);
+
+  const loadItems = useCallback(() => {
+    watchHistoryService
+      .getContinueWatching()
+      .then(setItems)
+      .catch(error => console.error('❌ Failed to load continue watching:', error));
+  }, []);
+
+  // Positions change while watching, so reload whenever the screen is shown
+  useFocusEffect(loadItems);
+  useEffect(() => watchHistoryService.subscribe(loadItems), [loadItems]);
+
+  const handleResume = useCallback(
+    async (item: ContinueWatchingItem) => {
+      if (!isStreamActive(item.stream.id)) {
+        const result = await addStream(item.stream);
+        if (!result.success) {
+          Alert.alert('Could not resume', result.message);
+          return;
+        }
+      }
+      router.push('/(tabs)/grid');
+    },
+    [addStream, isStreamActive]
+  );
+
+  if (!items.length) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.heading}>Continue watching</Text>
+      <FlatList
+        horizontal
+        data={items}
+        keyExtractor={item => item.stream.id}
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.list}
+        renderItem={({ item }) => (
+          <TouchableOpacity style={styles.card} onPress={() => handleResume(item)}>
+            <View style={styles.thumbnail}>
+              {!!item.entry.thumbnailUrl && (
+                <Image source={{ uri: item.entry.thumbnailUrl }} style={styles.image} />
+              )}
+              {!!item.duration && (
+                <View style={styles.progressTrack}>
+                  <View
+                    style={[
+                      styles.progressFill,
+                      { width: `${Math.min(100, (item.position / item.duration) * 100)}%` },
+                    ]}
+                  />
+                </View>
+              )}
+            </View>
+            <Text style={styles.title} numberOfLines={1}>
+              {item.entry.title || item.entry.channelName}
+            </Text>
+            <Text style={styles.meta} numberOfLines={1}>
+              {item.entry.channelName} • {formatRemaining(item)}
+            </Text>
+          </TouchableOpacity>
+        )}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: ModernTheme.spacing.sm,
+    gap: ModernTheme.spacing.sm,
+  },
+  heading: {
+    color: ModernTheme.colors.text.primary,
+    fontSize: ModernTheme.typography.sizes.lg,
+    fontWeight: '600',
+    paddingHorizontal: ModernTheme.spacing.md,
+  },
+  list: {
+    paddingHorizontal: ModernTheme.spacing.md,
+    gap: ModernTheme.spacing.sm,
+  },
+  card: {
+    width: 200,
+    gap: ModernTheme.spacing.xs,
+  },
+  thumbnail: {
+    aspectRatio: 16 / 9,
+    borderRadius: ModernTheme.borderRadius.md,
+    backgroundColor: ModernTheme.colors.background.tertiary,
+    overflow: 'hidden',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  progressTrack: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: 3,
+    backgroundColor: ModernTheme.colors.border.primary,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: ModernTheme.colors.primary[500],
+  },
+  title: {
+    color: ModernTheme.colors.text.primary,
+    fontSize: ModernTheme.typography.sizes.sm,
+    fontWeight: '500',
+  },
+  meta: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: ModernTheme.typography.sizes.xs,
+  },
+});
+
+export default ContinueWatchingRail;
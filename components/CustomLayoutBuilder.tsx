@@ -18,7 +18,7 @@ import {
   Layers,
   Settings,
 } from 'lucide-react-native';
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -45,27 +45,34 @@ import Animated, {
   runOnJS,
   interpolate,
 } from 'react-native-reanimated';
-import { TwitchStream } from '@/services/twitchApi';
-import { LayoutConfiguration, StreamPosition } from './AdvancedLayoutManager';
+import { LayoutContainer, LayoutTile, MultiviewLayout, SolvedTile } from '@/types/layout';
+import { Stream } from '@/types/stream';
+import {
+  clampRect,
+  createLayout,
+  solveLayout,
+  toCustomLayout,
+  toNormalizedRect,
+  updateTileRect,
+} from '@/utils/layoutEngine';
+import { LayoutConfiguration } from './AdvancedLayoutManager';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
-interface DraggableStreamSlot {
-  id: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  zIndex: number;
-  scale: number;
-  opacity: number;
+// Snapping step, as a fraction of the canvas on each axis
+const GRID_STEP = 1 / 20;
+
+// Slots never shrink below this on screen
+const MIN_SLOT_SIZE = { minWidth: 60, minHeight: 40 };
+
+// A tile of the layout being built
+interface DraggableStreamSlot extends LayoutTile {
   isSelected: boolean;
-  streamId?: string;
   label: string;
 }
 
 interface CustomLayoutBuilderProps {
-  streams: TwitchStream[];
+  streams: Stream[];
   existingLayouts: LayoutConfiguration[];
   onSaveLayout: (layout: LayoutConfiguration) => void;
   onDeleteLayout: (layoutId: string) => void;
@@ -90,12 +97,29 @@ export function CustomLayoutBuilder({
   const [layoutDescription, setLayoutDescription] = useState('');
   const [showGrid, setShowGrid] = useState(true);
   const [snapToGrid, setSnapToGrid] = useState(true);
-  const [gridSize, setGridSize] = useState(20);
   const [editingLayoutId, setEditingLayoutId] = useState<string | null>(null);
 
   // Canvas dimensions
   const canvasWidth = screenWidth - 40;
   const canvasHeight = 300;
+  const canvas: LayoutContainer = useMemo(
+    () => ({ width: canvasWidth, height: canvasHeight }),
+    [canvasWidth, canvasHeight]
+  );
+
+  // The slots as a custom layout, so the engine snaps, clamps and solves them
+  const draftLayout: MultiviewLayout = useMemo(
+    () => ({
+      id: editingLayoutId || 'draft',
+      preset: 'custom',
+      tiles: streamSlots,
+      constraints: MIN_SLOT_SIZE,
+      snap: snapToGrid ? GRID_STEP : undefined,
+      designAspect: canvasWidth / canvasHeight,
+    }),
+    [editingLayoutId, streamSlots, snapToGrid, canvasWidth, canvasHeight]
+  );
+  const slotFrames = useMemo(() => solveLayout(draftLayout, canvas), [draftLayout, canvas]);
 
   // Animation values
   const containerOpacity = useSharedValue(0);
@@ -121,27 +145,18 @@ export function CustomLayoutBuilder({
   const generateSlotId = () => `slot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
   const initializeDefaultLayout = () => {
-    const defaultSlots: DraggableStreamSlot[] = streams.slice(0, 4).map((stream, index) => {
-      const cols = 2;
-      const slotWidth = canvasWidth / cols - 20;
-      const slotHeight = slotWidth * (9 / 16);
-      const x = (index % cols) * (slotWidth + 20) + 10;
-      const y = Math.floor(index / cols) * (slotHeight + 20) + 10;
-
-      return {
-        id: generateSlotId(),
-        x,
-        y,
-        width: slotWidth,
-        height: slotHeight,
-        zIndex: index + 1,
-        scale: 1,
-        opacity: 1,
-        isSelected: false,
-        streamId: stream.id,
-        label: stream.user_name,
-      };
-    });
+    const defaultStreams = streams.slice(0, 4);
+    const { tiles } = createLayout(
+      '2x2',
+      defaultStreams.map(stream => stream.id),
+      { container: canvas }
+    );
+    const defaultSlots: DraggableStreamSlot[] = tiles.map((tile, index) => ({
+      ...tile,
+      id: generateSlotId(),
+      isSelected: false,
+      label: defaultStreams[index].displayName,
+    }));
 
     setStreamSlots(defaultSlots);
   };
@@ -149,19 +164,14 @@ export function CustomLayoutBuilder({
   const addNewSlot = useCallback(() => {
     const newSlot: DraggableStreamSlot = {
       id: generateSlotId(),
-      x: 20,
-      y: 20,
-      width: 120,
-      height: 68,
+      rect: toNormalizedRect({ x: 20, y: 20, width: 120, height: 68 }, canvas),
       zIndex: streamSlots.length + 1,
-      scale: 1,
-      opacity: 1,
       isSelected: false,
       label: `Slot ${streamSlots.length + 1}`,
     };
 
     setStreamSlots(prev => [...prev, newSlot]);
-  }, [streamSlots.length]);
+  }, [streamSlots.length, canvas]);
 
   const removeSlot = useCallback(
     (slotId: string) => {
@@ -173,40 +183,33 @@ export function CustomLayoutBuilder({
     [selectedSlotId]
   );
 
-  const snapToGridValue = useCallback(
-    (value: number) => {
-      if (!snapToGrid) {
-        return value;
-      }
-      return Math.round(value / gridSize) * gridSize;
+  // Moves and resizes come in as canvas pixels
+  const updateSlotRect = useCallback(
+    (slotId: string, changes: { x?: number; y?: number; width?: number; height?: number }) => {
+      const { tiles } = updateTileRect(
+        draftLayout,
+        slotId,
+        {
+          ...(changes.x !== undefined && { x: changes.x / canvasWidth }),
+          ...(changes.y !== undefined && { y: changes.y / canvasHeight }),
+          ...(changes.width !== undefined && { width: changes.width / canvasWidth }),
+          ...(changes.height !== undefined && { height: changes.height / canvasHeight }),
+        },
+        canvas
+      );
+      setStreamSlots(tiles as DraggableStreamSlot[]);
     },
-    [snapToGrid, gridSize]
+    [draftLayout, canvas, canvasWidth, canvasHeight]
   );
 
   const updateSlotPosition = useCallback(
-    (slotId: string, x: number, y: number) => {
-      const snappedX = snapToGridValue(Math.max(0, Math.min(canvasWidth - 60, x)));
-      const snappedY = snapToGridValue(Math.max(0, Math.min(canvasHeight - 40, y)));
-
-      setStreamSlots(prev =>
-        prev.map(slot => (slot.id === slotId ? { ...slot, x: snappedX, y: snappedY } : slot))
-      );
-    },
-    [snapToGridValue, canvasWidth, canvasHeight]
+    (slotId: string, x: number, y: number) => updateSlotRect(slotId, { x, y }),
+    [updateSlotRect]
   );
 
   const updateSlotSize = useCallback(
-    (slotId: string, width: number, height: number) => {
-      const snappedWidth = snapToGridValue(Math.max(60, Math.min(canvasWidth - 20, width)));
-      const snappedHeight = snapToGridValue(Math.max(40, Math.min(canvasHeight - 20, height)));
-
-      setStreamSlots(prev =>
-        prev.map(slot =>
-          slot.id === slotId ? { ...slot, width: snappedWidth, height: snappedHeight } : slot
-        )
-      );
-    },
-    [snapToGridValue, canvasWidth, canvasHeight]
+    (slotId: string, width: number, height: number) => updateSlotRect(slotId, { width, height }),
+    [updateSlotRect]
   );
 
   const selectSlot = useCallback((slotId: string) => {
@@ -229,8 +232,12 @@ export function CustomLayoutBuilder({
       const newSlot: DraggableStreamSlot = {
         ...slotToDuplicate,
         id: generateSlotId(),
-        x: slotToDuplicate.x + 20,
-        y: slotToDuplicate.y + 20,
+        rect: clampRect({
+          ...slotToDuplicate.rect,
+          x: slotToDuplicate.rect.x + GRID_STEP,
+          y: slotToDuplicate.rect.y + GRID_STEP,
+        }),
+        zIndex: streamSlots.length + 1,
         isSelected: false,
         label: `${slotToDuplicate.label} Copy`,
       };
@@ -249,7 +256,7 @@ export function CustomLayoutBuilder({
 
       setStreamSlots(prev =>
         prev.map(slot =>
-          slot.id === slotId ? { ...slot, streamId, label: stream.user_name } : slot
+          slot.id === slotId ? { ...slot, streamId, label: stream.displayName } : slot
         )
       );
     },
@@ -267,22 +274,18 @@ export function CustomLayoutBuilder({
       return;
     }
 
-    const positions: StreamPosition[] = streamSlots.map(slot => ({
-      streamId: slot.streamId || '',
-      x: slot.x,
-      y: slot.y,
-      width: slot.width,
-      height: slot.height,
-      zIndex: slot.zIndex,
-      scale: slot.scale,
-      opacity: slot.opacity,
-    }));
-
     const layout: LayoutConfiguration = {
+      ...draftLayout,
       id: editingLayoutId || `custom_${Date.now()}`,
       name: layoutName,
       type: 'custom',
-      positions,
+      tiles: streamSlots.map(slot => ({
+        id: slot.id,
+        streamId: slot.streamId,
+        rect: slot.rect,
+        zIndex: slot.zIndex,
+        constraints: slot.constraints,
+      })),
       isCustom: true,
       description: layoutDescription,
     };
@@ -300,26 +303,21 @@ export function CustomLayoutBuilder({
         },
       },
     ]);
-  }, [layoutName, layoutDescription, streamSlots, editingLayoutId, onSaveLayout]);
+  }, [layoutName, layoutDescription, streamSlots, draftLayout, editingLayoutId, onSaveLayout]);
 
   const loadLayout = useCallback(
     (layout: LayoutConfiguration) => {
-      const slots: DraggableStreamSlot[] = layout.positions.map((position, index) => {
-        const stream = streams.find(s => s.id === position.streamId);
-        return {
-          id: generateSlotId(),
-          x: position.x,
-          y: position.y,
-          width: position.width,
-          height: position.height,
-          zIndex: position.zIndex,
-          scale: position.scale,
-          opacity: position.opacity,
-          isSelected: false,
-          streamId: position.streamId,
-          label: stream?.user_name || `Slot ${index + 1}`,
-        };
-      });
+      const slots: DraggableStreamSlot[] = toCustomLayout(layout, canvas).tiles.map(
+        (tile, index) => {
+          const stream = streams.find(s => s.id === tile.streamId);
+          return {
+            ...tile,
+            id: generateSlotId(),
+            isSelected: false,
+            label: stream?.displayName || `Slot ${index + 1}`,
+          };
+        }
+      );
 
       setStreamSlots(slots);
       setLayoutName(layout.name);
@@ -327,7 +325,7 @@ export function CustomLayoutBuilder({
       setEditingLayoutId(layout.id);
       setMode('design');
     },
-    [streams]
+    [streams, canvas]
   );
 
   const resetLayout = useCallback(() => {
@@ -357,7 +355,7 @@ export function CustomLayoutBuilder({
     const lines = [];
 
     // Vertical lines
-    for (let x = 0; x <= canvasWidth; x += gridSize) {
+    for (let x = 0; x <= canvasWidth; x += GRID_STEP * canvasWidth) {
       lines.push(
         <View
           key={`v-${x}`}
@@ -375,7 +373,7 @@ export function CustomLayoutBuilder({
     }
 
     // Horizontal lines
-    for (let y = 0; y <= canvasHeight; y += gridSize) {
+    for (let y = 0; y <= canvasHeight; y += GRID_STEP * canvasHeight) {
       lines.push(
         <View
           key={`h-${y}`}
@@ -395,11 +393,12 @@ export function CustomLayoutBuilder({
     return lines;
   };
 
-  const renderDraggableSlot = (slot: DraggableStreamSlot) => {
+  const renderDraggableSlot = (slot: DraggableStreamSlot, index: number) => {
     return (
       <DraggableStreamSlot
         key={slot.id}
         slot={slot}
+        frame={slotFrames[index]}
         isSelected={slot.isSelected}
         onSelect={() => selectSlot(slot.id)}
         onPositionChange={(x, y) => updateSlotPosition(slot.id, x, y)}
@@ -500,7 +499,7 @@ export function CustomLayoutBuilder({
                     <Text style={styles.layoutItemDescription}>
                       {layout.description || 'No description'}
                     </Text>
-                    <Text style={styles.layoutItemMeta}>{layout.positions.length} streams</Text>
+                    <Text style={styles.layoutItemMeta}>{layout.tiles.length} streams</Text>
                   </View>
                   <View style={styles.layoutItemActions}>
                     <TouchableOpacity
@@ -527,18 +526,16 @@ export function CustomLayoutBuilder({
   const renderPreviewMode = () => (
     <View style={styles.previewContainer}>
       <View style={[styles.canvas, { width: canvasWidth, height: canvasHeight }]}>
-        {streamSlots.map(slot => (
+        {streamSlots.map((slot, index) => (
           <View
             key={slot.id}
             style={[
               styles.previewSlot,
               {
-                left: slot.x,
-                top: slot.y,
-                width: slot.width,
-                height: slot.height,
-                opacity: slot.opacity,
-                transform: [{ scale: slot.scale }],
+                left: slotFrames[index].x,
+                top: slotFrames[index].y,
+                width: slotFrames[index].width,
+                height: slotFrames[index].height,
                 zIndex: slot.zIndex,
               },
             ]}
@@ -631,6 +628,8 @@ export function CustomLayoutBuilder({
 // Draggable stream slot component
 interface DraggableStreamSlotProps {
   slot: DraggableStreamSlot;
+  /** The slot solved into canvas pixels */
+  frame: SolvedTile;
   isSelected: boolean;
   onSelect: () => void;
   onPositionChange: (x: number, y: number) => void;
@@ -642,6 +641,7 @@ interface DraggableStreamSlotProps {
 
 function DraggableStreamSlot({
   slot,
+  frame,
   isSelected,
   onSelect,
   onPositionChange,
@@ -650,8 +650,8 @@ function DraggableStreamSlot({
   canvasWidth,
   canvasHeight,
 }: DraggableStreamSlotProps) {
-  const translateX = useSharedValue(slot.x);
-  const translateY = useSharedValue(slot.y);
+  const translateX = useSharedValue(frame.x);
+  const translateY = useSharedValue(frame.y);
   const scale = useSharedValue(1);
 
   const panGestureHandler = useAnimatedGestureHandler({
@@ -662,11 +662,11 @@ function DraggableStreamSlot({
     onActive: event => {
       translateX.value = Math.max(
         0,
-        Math.min(canvasWidth - slot.width, slot.x + event.translationX)
+        Math.min(canvasWidth - frame.width, frame.x + event.translationX)
       );
       translateY.value = Math.max(
         0,
-        Math.min(canvasHeight - slot.height, slot.y + event.translationY)
+        Math.min(canvasHeight - frame.height, frame.y + event.translationY)
       );
     },
     onEnd: () => {
@@ -677,8 +677,8 @@ function DraggableStreamSlot({
 
   const animatedStyle = useAnimatedStyle(() => ({
     transform: [
-      { translateX: translateX.value - slot.x },
-      { translateY: translateY.value - slot.y },
+      { translateX: translateX.value - frame.x },
+      { translateY: translateY.value - frame.y },
       { scale: scale.value },
     ],
   }));
@@ -689,10 +689,10 @@ function DraggableStreamSlot({
         style={[
           styles.draggableSlot,
           {
-            left: slot.x,
-            top: slot.y,
-            width: slot.width,
-            height: slot.height,
+            left: frame.x,
+            top: frame.y,
+            width: frame.width,
+            height: frame.height,
             zIndex: slot.zIndex,
           },
           animatedStyle,
@@ -12,11 +12,11 @@ import {
   Linking,
 } from 'react-native';
 import { WebView } from 'react-native-webview';
-import { TwitchStream } from '@/services/twitchApi';
+import { Stream } from '@/types/stream';
 import { ModernTheme } from '@/theme/modernTheme';
 
 interface DirectTwitchPlayerProps {
-  stream: TwitchStream;
+  stream: Stream;
   width: number;
   height: number;
   isActive?: boolean;
@@ -44,7 +44,7 @@ export const DirectTwitchPlayer: React.FC<DirectTwitchPlayerProps> = ({
   // Generate the most direct Twitch embed URL possible
   const getDirectTwitchUrl = useCallback(() => {
     const params = new URLSearchParams({
-      channel: stream.user_login,
+      channel: stream.username,
       muted: String(isMuted),
       autoplay: 'true',
       controls: 'true',
@@ -55,28 +55,28 @@ export const DirectTwitchPlayer: React.FC<DirectTwitchPlayerProps> = ({
     const url = `https://player.twitch.tv/?${params.toString()}`;
     console.log('🎯 Direct Twitch URL:', url);
     return url;
-  }, [stream.user_login, isMuted]);
+  }, [stream.username, isMuted]);
 
   // WebView event handlers - minimal and direct
   const handleWebViewLoad = useCallback(() => {
-    console.log('✅ Direct Twitch player loaded:', stream.user_login);
+    console.log('✅ Direct Twitch player loaded:', stream.username);
     setTimeout(() => {
       setIsLoading(false);
     }, 2000); // Give it 2 seconds to start playing
-  }, [stream.user_login]);
+  }, [stream.username]);
 
   const handleWebViewLoadStart = useCallback(() => {
-    console.log('🔄 Direct Twitch player loading:', stream.user_login);
+    console.log('🔄 Direct Twitch player loading:', stream.username);
     setIsLoading(true);
-  }, [stream.user_login]);
+  }, [stream.username]);
 
   // Handle external link
   const handleOpenExternal = useCallback(() => {
-    const twitchUrl = `https://twitch.tv/${stream.user_login}`;
+    const twitchUrl = `https://twitch.tv/${stream.username}`;
     Linking.openURL(twitchUrl).catch(err => {
       console.error('Failed to open Twitch URL:', err);
     });
-  }, [stream.user_login]);
+  }, [stream.username]);
 
   // Force hide loading after timeout
   React.useEffect(() => {
@@ -121,7 +121,7 @@ export const DirectTwitchPlayer: React.FC<DirectTwitchPlayerProps> = ({
         {isLoading && (
           <View style={styles.loadingOverlay}>
             <ActivityIndicator size="small" color={ModernTheme.colors.primary[400]} />
-            <Text style={styles.loadingText}>{stream.user_name}</Text>
+            <Text style={styles.loadingText}>{stream.displayName}</Text>
           </View>
         )}
 
@@ -135,15 +135,15 @@ export const DirectTwitchPlayer: React.FC<DirectTwitchPlayerProps> = ({
               <View style={styles.viewerInfo}>
                 <Eye size={12} color={ModernTheme.colors.text.primary} />
                 <Text style={styles.viewerText}>
-                  {stream.viewer_count?.toLocaleString() || '0'}
+                  {stream.viewerCount?.toLocaleString() || '0'}
                 </Text>
               </View>
             </View>
             <Text style={styles.streamTitle} numberOfLines={1}>
-              {stream.user_name}
+              {stream.displayName}
             </Text>
             <Text style={styles.streamGame} numberOfLines={1}>
-              {stream.game_name}
+              {stream.category}
             </Text>
           </LinearGradient>
         </View>
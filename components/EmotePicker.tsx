@@ -0,0 +1,196 @@
+/**
+ * Emote Picker
+ * Grid of the 7TV, BetterTTV and FrankerFaceZ emotes usable in a Twitch
+ * channel, channel emotes first. Picking one hands its name to the chat input.
+ */
+
+import { Image } from 'expo-image';
+import { Search } from 'lucide-react-native';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { getChannelEmotes } from '@/services/emoteService';
+import { ModernTheme } from '@/theme/modernTheme';
+import { ChatEmote, EmoteProviderId } from '@/types/chat';
+
+interface EmotePickerProps {
+  /** Twitch user id of the channel; null shows global emotes only */
+  channelId: string | null;
+  onSelect: (name: string) => void;
+}
+
+type EmoteFilter = 'all' | 'channel' | EmoteProviderId;
+
+const FILTERS: { id: EmoteFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'channel', label: 'Channel' },
+  { id: '7tv', label: '7TV' },
+  { id: 'bttv', label: 'BTTV' },
+  { id: 'ffz', label: 'FFZ' },
+];
+
+const COLUMNS = 7;
+
+export const EmotePicker: React.FC<EmotePickerProps> = ({ channelId, onSelect }) => {
+  const [emotes, setEmotes] = useState<ChatEmote[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [filter, setFilter] = useState<EmoteFilter>('all');
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    getChannelEmotes(channelId)
+      .then(result => {
+        if (!cancelled) {
+          setEmotes(result);
+        }
+      })
+      .catch(error => console.error('❌ Failed to load emotes:', error))
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [channelId]);
+
+  const visibleEmotes = useMemo(() => {
+    const search = query.trim().toLowerCase();
+    return emotes.filter(emote => {
+      if (filter === 'channel' && !emote.isChannelEmote) {
+        return false;
+      }
+      if (filter !== 'all' && filter !== 'channel' && emote.provider !== filter) {
+        return false;
+      }
+      return !search || emote.name.toLowerCase().includes(search);
+    });
+  }, [emotes, query, filter]);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchRow}>
+        <Search size={14} color={ModernTheme.colors.text.secondary} />
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search emotes"
+          placeholderTextColor={ModernTheme.colors.text.tertiary}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      </View>
+
+      <View style={styles.filterRow}>
+        {FILTERS.map(option => (
+          <TouchableOpacity
+            key={option.id}
+            style={[styles.filterChip, filter === option.id && styles.filterChipActive]}
+            onPress={() => setFilter(option.id)}
+          >
+            <Text style={styles.filterText}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator style={styles.loading} color={ModernTheme.colors.primary[500]} />
+      ) : (
+        <FlatList
+          data={visibleEmotes}
+          keyExtractor={emote => `${emote.provider}:${emote.id}`}
+          numColumns={COLUMNS}
+          keyboardShouldPersistTaps="handled"
+          initialNumToRender={COLUMNS * 5}
+          windowSize={5}
+          renderItem={({ item }) => (
+            <TouchableOpacity
+              style={styles.emoteCell}
+              onPress={() => onSelect(item.name)}
+              accessibilityLabel={item.name}
+            >
+              <Image source={{ uri: item.url }} style={styles.emoteImage} contentFit="contain" />
+            </TouchableOpacity>
+          )}
+          ListEmptyComponent={<Text style={styles.emptyText}>No emotes found</Text>}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    height: 240,
+    backgroundColor: ModernTheme.colors.background.secondary,
+    borderTopWidth: 1,
+    borderTopColor: ModernTheme.colors.border.primary,
+    paddingHorizontal: ModernTheme.spacing.sm,
+    paddingTop: ModernTheme.spacing.sm,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.xs,
+    paddingHorizontal: ModernTheme.spacing.sm,
+    borderRadius: ModernTheme.borderRadius.md,
+    backgroundColor: ModernTheme.colors.background.tertiary,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 6,
+    color: ModernTheme.colors.text.primary,
+    fontSize: 13,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: ModernTheme.spacing.xs,
+    paddingVertical: ModernTheme.spacing.sm,
+  },
+  filterChip: {
+    paddingHorizontal: ModernTheme.spacing.sm,
+    paddingVertical: 3,
+    borderRadius: ModernTheme.borderRadius.full,
+    backgroundColor: ModernTheme.colors.background.tertiary,
+  },
+  filterChipActive: {
+    backgroundColor: ModernTheme.colors.primary[500],
+  },
+  filterText: {
+    color: ModernTheme.colors.text.primary,
+    fontSize: 11,
+    fontWeight: '500',
+  },
+  loading: {
+    marginTop: ModernTheme.spacing.lg,
+  },
+  emoteCell: {
+    flex: 1 / COLUMNS,
+    aspectRatio: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emoteImage: {
+    width: 28,
+    height: 28,
+  },
+  emptyText: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: ModernTheme.spacing.lg,
+  },
+});
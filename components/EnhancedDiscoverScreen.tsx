@@ -23,6 +23,7 @@ import Animated, {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useStreamManagerContext } from '@/contexts/StreamManagerContext';
 import { useTwitchStreams } from '@/hooks/useTwitchStreams';
+import { createChannelKey, createStreamId, fromTwitchStream } from '@/services/streamAdapters';
 import { twitchApi } from '@/services/twitchApi';
 import { BlurViewFallback as BlurView } from './BlurViewFallback';
 import { EnhancedStreamCard } from './EnhancedStreamCard';
@@ -303,11 +304,11 @@ export const EnhancedDiscoverScreen: React.FC = () => {
     >
       <EnhancedStreamCard
         stream={item}
-        onAdd={addStream}
-        onToggleFavorite={toggleFavorite}
-        isFavorite={isFavorite(item.user_id)}
-        isActive={isStreamActive(item.id)}
-        showAddButton={!isStreamActive(item.id)}
+        onAdd={stream => addStream(fromTwitchStream(stream))}
+        onToggleFavorite={() => toggleFavorite(fromTwitchStream(item))}
+        isFavorite={isFavorite(createChannelKey('twitch', item.user_id))}
+        isActive={isStreamActive(createStreamId('twitch', item.id))}
+        showAddButton={!isStreamActive(createStreamId('twitch', item.id))}
       />
     </MotiView>
   );
@@ -26,6 +26,7 @@ import {
   TouchableOpacity,
   TextInput,
   Alert,
+  AlertButton,
   StatusBar,
   Platform,
   Dimensions,
@@ -40,7 +41,9 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useStreamManagerContext } from '@/contexts/StreamManagerContext';
 import { ModernTheme } from '@/theme/modernTheme';
+import { Stream } from '@/types/stream';
 import { HapticFeedback } from '@/utils/haptics';
+import { ChannelRecordingsModal, hasChannelRecordings } from './ChannelRecordingsModal';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -63,7 +66,8 @@ interface FavoritesScreenProps {
 }
 
 export function EnhancedFavoritesScreen(props: FavoritesScreenProps = {}) {
-  const { favorites, removeFavorite, addToMultiView } = useStreamManagerContext();
+  const { favorites, removeFavorite, addToMultiView, refreshLiveStatus } =
+    useStreamManagerContext();
   const [searchQuery, setSearchQuery] = useState('');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [sortBy, setSortBy] = useState<'name' | 'viewers' | 'added'>('added');
@@ -71,23 +75,22 @@ export function EnhancedFavoritesScreen(props: FavoritesScreenProps = {}) {
   const [filterLive, setFilterLive] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
+  const [recordingsChannel, setRecordingsChannel] = useState<Stream | null>(null);
 
   // Animation values
   const cardScale = useSharedValue(1);
 
-  // Convert TwitchStream favorites to FavoriteStream format for UI compatibility
+  // Convert canonical favorites to FavoriteStream format for UI compatibility
   const favoriteStreams = useMemo(() => {
     return favorites.map((stream): FavoriteStream => ({
       id: stream.id,
-      username: stream.user_name,
+      username: stream.displayName,
       title: stream.title,
-      game: stream.game_name,
-      viewers: stream.viewer_count,
-      isLive: stream.type === 'live',
-      thumbnail: stream.thumbnail_url,
-      addedAt: 'fetchedAt' in stream && typeof stream.fetchedAt === 'string'
-        ? new Date(stream.fetchedAt)
-        : new Date(),
+      game: stream.category,
+      viewers: stream.viewerCount,
+      isLive: stream.isLive,
+      thumbnail: stream.thumbnailUrl,
+      addedAt: stream.addedAt ? new Date(stream.addedAt) : new Date(),
     }));
   }, [favorites]);
 
@@ -135,27 +138,28 @@ export function EnhancedFavoritesScreen(props: FavoritesScreenProps = {}) {
   const handleRefresh = useCallback(async () => {
     try {
       setRefreshing(true);
-      // Add actual refresh logic here if needed
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await refreshLiveStatus();
     } catch (error) {
       console.error('Refresh failed:', error);
       Alert.alert('Error', 'Failed to refresh favorites. Please try again.');
     } finally {
       setRefreshing(false);
     }
-  }, []);
+  }, [refreshLiveStatus]);
 
   const handleAddToMultiView = useCallback(async (stream: FavoriteStream) => {
     try {
       await HapticFeedback.medium();
-      const result = await addToMultiView({
-        id: stream.id,
-        username: stream.username,
-        url: `https://www.twitch.tv/${stream.username}`,
-        title: stream.title,
-        game: stream.game,
-        viewers: stream.viewers,
-      });
+      const favorite = favorites.find(fav => fav.id === stream.id);
+      const result = await addToMultiView(
+        favorite || {
+          id: stream.id,
+          username: stream.username,
+          title: stream.title,
+          game: stream.game,
+          viewers: stream.viewers,
+        }
+      );
 
       if (result.success) {
         Alert.alert(
@@ -178,7 +182,7 @@ export function EnhancedFavoritesScreen(props: FavoritesScreenProps = {}) {
       console.error('Error adding to multi-view:', error);
       Alert.alert('Error', 'Failed to add stream to multi-view');
     }
-  }, [addToMultiView, router]);
+  }, [addToMultiView, favorites, router]);
 
   const formatViewers = (viewers: number) => {
     if (viewers >= 1000000) {
@@ -378,8 +382,23 @@ export function EnhancedFavoritesScreen(props: FavoritesScreenProps = {}) {
                 ]}
                 onPress={() => {
                   HapticFeedback.light();
-                  // Show more options
-                  Alert.alert('More Options', 'Share, Remove, Settings...');
+                  const favorite = favorites.find(fav => fav.id === stream.id);
+                  const options: AlertButton[] = [];
+                  if (favorite && hasChannelRecordings(favorite)) {
+                    options.push({
+                      text: 'Videos & clips',
+                      onPress: () => setRecordingsChannel(favorite),
+                    });
+                  }
+                  options.push(
+                    {
+                      text: 'Remove',
+                      style: 'destructive',
+                      onPress: () => handleRemoveFavorite(stream.id, stream.username),
+                    },
+                    { text: 'Cancel', style: 'cancel' }
+                  );
+                  Alert.alert(stream.username, undefined, options);
                 }}
               >
                 <LinearGradient
@@ -394,7 +413,7 @@ export function EnhancedFavoritesScreen(props: FavoritesScreenProps = {}) {
         </View>
       </MotiView>
     );
-  }, [viewMode, screenWidth, handleAddToMultiView]);
+  }, [viewMode, screenWidth, handleAddToMultiView, favorites]);
 
   const renderEmptyState = () => (
     <MotiView
@@ -635,6 +654,11 @@ export function EnhancedFavoritesScreen(props: FavoritesScreenProps = {}) {
           columnWrapperStyle={viewMode === 'grid' ? styles.gridRow : undefined}
         />
       </SafeAreaView>
+
+      <ChannelRecordingsModal
+        channel={recordingsChannel}
+        onClose={() => setRecordingsChannel(null)}
+      />
     </View>
   );
 }
@@ -33,8 +33,9 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 // Import our new components
 import { useStreamManagerContext } from '@/contexts/StreamManagerContext';
-import { TwitchStream } from '@/services/twitchApi';
+import { Stream } from '@/types/stream';
 import { HapticFeedback } from '@/utils/haptics';
+import { assignStreams, solveLayout, solvePreset, toLayoutPreset } from '@/utils/layoutEngine';
 import { audioMixingService } from '../services/audioMixingService';
 import { gestureManager } from '../services/gestureManager';
 import { AdvancedLayoutManager, LayoutType, LayoutConfiguration } from './AdvancedLayoutManager';
@@ -85,7 +86,7 @@ export function EnhancedMultiStreamExperience({
   const [showCustomBuilder, setShowCustomBuilder] = useState(false);
   const [floatingControlsVisible, setFloatingControlsVisible] = useState(false);
   const [floatingControlsPosition, setFloatingControlsPosition] = useState({ x: 0, y: 0 });
-  const [selectedStreamForControls, setSelectedStreamForControls] = useState<TwitchStream | null>(
+  const [selectedStreamForControls, setSelectedStreamForControls] = useState<Stream | null>(
     null
   );
   const [customLayouts, setCustomLayouts] = useState<LayoutConfiguration[]>([]);
@@ -103,7 +104,7 @@ export function EnhancedMultiStreamExperience({
     if (enableAudioMixing) {
       // Initialize audio streams
       activeStreams.forEach(stream => {
-        audioMixingService.addStream(stream.id, stream.user_name);
+        audioMixingService.addStream(stream.id, stream.displayName);
       });
 
       // Set up audio event listeners
@@ -153,55 +154,37 @@ export function EnhancedMultiStreamExperience({
       return;
     }
 
+    const container = {
+      width: screenWidth,
+      height: screenHeight - 160,
+      gap: 10,
+      padding: 20,
+    };
+    const customLayout = customLayouts.find(layout => layout.id === currentLayout);
+    const streamIds = activeStreams.map(stream => stream.id);
+    const solved = customLayout
+      ? solveLayout(assignStreams(customLayout, streamIds), container)
+      : solvePreset(toLayoutPreset(currentLayout), streamIds, container);
+
+    // Streams the layout has no tile for are not shown
     const newPositions = new Map<string, StreamPosition>();
-    const containerWidth = screenWidth - 40;
-    const containerHeight = screenHeight - 200;
-
-    activeStreams.forEach((stream, index) => {
-      const position = calculateStreamPosition(
-        currentLayout,
-        index,
-        activeStreams.length,
-        containerWidth,
-        containerHeight
-      );
-      newPositions.set(stream.id, {
-        streamId: stream.id,
-        ...position,
-        zIndex: index + 1,
-        scale: 1,
-        opacity: 1,
-      });
+    solved.forEach(tile => {
+      if (tile.streamId) {
+        newPositions.set(tile.streamId, {
+          streamId: tile.streamId,
+          x: tile.x,
+          y: tile.y,
+          width: tile.width,
+          height: tile.height,
+          zIndex: tile.zIndex,
+          scale: 1,
+          opacity: 1,
+        });
+      }
     });
 
     setStreamPositions(newPositions);
-  }, [activeStreams, currentLayout]);
-
-  const calculateStreamPosition = (
-    layout: LayoutType,
-    index: number,
-    totalStreams: number,
-    containerWidth: number,
-    containerHeight: number
-  ) => {
-    // This would contain the same logic as in AdvancedLayoutManager
-    // For simplicity, I'll implement a basic 2x2 grid
-    const cols = Math.min(2, Math.ceil(Math.sqrt(totalStreams)));
-    const rows = Math.ceil(totalStreams / cols);
-
-    const cellWidth = (containerWidth - 20) / cols;
-    const cellHeight = cellWidth * (9 / 16);
-
-    const row = Math.floor(index / cols);
-    const col = index % cols;
-
-    return {
-      x: col * (cellWidth + 10) + 20,
-      y: row * (cellHeight + 10) + 20,
-      width: cellWidth,
-      height: cellHeight,
-    };
-  };
+  }, [activeStreams, currentLayout, customLayouts]);
 
   // Gesture handlers
   const handleStreamReorder = useCallback(
@@ -296,7 +279,7 @@ export function EnhancedMultiStreamExperience({
 
   // Floating controls
   const handleStreamLongPress = useCallback(
-    (stream: TwitchStream, position: { x: number; y: number }) => {
+    (stream: Stream, position: { x: number; y: number }) => {
       setSelectedStreamForControls(stream);
       setFloatingControlsPosition(position);
       setFloatingControlsVisible(true);
@@ -328,7 +311,7 @@ export function EnhancedMultiStreamExperience({
     transform: [{ scale: contentScale.value }],
   }));
 
-  const renderStreamCard = (stream: TwitchStream) => {
+  const renderStreamCard = (stream: Stream) => {
     const position = streamPositions.get(stream.id);
     if (!position) {
       return null;
@@ -382,7 +365,7 @@ export function EnhancedMultiStreamExperience({
         >
           <LinearGradient colors={['#8B5CF6', '#7C3AED']} style={styles.basicStreamGradient}>
             <Text style={styles.basicStreamText} numberOfLines={1}>
-              {stream.user_name}
+              {stream.displayName}
             </Text>
           </LinearGradient>
         </TouchableOpacity>
@@ -513,14 +496,14 @@ export function EnhancedMultiStreamExperience({
             handleStreamQualityChange(selectedStreamForControls.id, quality)
           }
           onScreenshot={() => {
-            Alert.alert('Screenshot', `Screenshot taken of ${selectedStreamForControls.user_name}`);
+            Alert.alert('Screenshot', `Screenshot taken of ${selectedStreamForControls.displayName}`);
             handleFloatingControlsClose();
           }}
           onRecord={recording => {
             Alert.alert(
               recording ? 'Recording Started' : 'Recording Stopped',
               recording
-                ? `Started recording ${selectedStreamForControls.user_name}`
+                ? `Started recording ${selectedStreamForControls.displayName}`
                 : 'Recording saved'
             );
           }}
@@ -45,7 +45,7 @@ import Animated, {
 } from 'react-native-reanimated';
 import { WebView } from 'react-native-webview';
 import { useStreamManagerContext } from '@/contexts/StreamManagerContext';
-import { TwitchStream } from '@/services/twitchApi';
+import { Stream } from '@/types/stream';
 import { BlurViewFallback as BlurView } from './BlurViewFallback';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
@@ -131,7 +131,7 @@ const AudioManager = {
 };
 
 const StreamCell: React.FC<{
-  stream: TwitchStream;
+  stream: Stream;
   width: number;
   height: number;
   isActive: boolean;
@@ -264,7 +264,7 @@ const StreamCell: React.FC<{
   };
 
   // Generate Twitch embed HTML with constrained dimensions - THIS FIXES THE FULLSCREEN ISSUE
-  const embedUrl = `https://player.twitch.tv/?channel=${stream.user_name}&parent=localhost&muted=true&autoplay=true`;
+  const embedUrl = `https://player.twitch.tv/?channel=${stream.username}&parent=localhost&muted=true&autoplay=true`;
 
   const twitchEmbedHtml = `
     <!DOCTYPE html>
@@ -392,7 +392,7 @@ const StreamCell: React.FC<{
                   animate={{ opacity: 1, translateY: 0 }}
                   transition={{ delay: 300 }}
                 >
-                  {stream.user_name}
+                  {stream.displayName}
                 </MotiText>
                 <View style={styles.liveIndicator}>
                   <MotiView
@@ -408,7 +408,7 @@ const StreamCell: React.FC<{
                   />
                   <Text style={styles.liveText}>LIVE</Text>
                   <Text style={styles.viewerCount}>
-                    {stream.viewer_count?.toLocaleString() || '0'}
+                    {stream.viewerCount?.toLocaleString() || '0'}
                   </Text>
                 </View>
               </View>
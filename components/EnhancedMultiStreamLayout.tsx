@@ -29,7 +29,7 @@ import Animated, {
   withTiming,
   interpolate,
 } from 'react-native-reanimated';
-import { TwitchStream } from '@/services/twitchApi';
+import { Stream } from '@/types/stream';
 import { useAppStore } from '@/store/useAppStore';
 import { StreamViewer } from './StreamViewer';
 
@@ -38,7 +38,7 @@ const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 type GridType = 'grid' | 'stacked' | 'pip' | 'focus';
 
 interface EnhancedMultiStreamLayoutProps {
-  streams: TwitchStream[];
+  streams: Stream[];
   onStreamRemove: (streamId: string) => void;
   onSaveLayout: () => void;
   onClearAll: () => void;
@@ -115,10 +115,10 @@ export function EnhancedMultiStreamLayout({
   }, [gridType, gridColumns, streams.length]);
 
   const handleStreamLongPress = useCallback(
-    (stream: TwitchStream) => {
+    (stream: Stream) => {
       Alert.alert(
         'Stream Options',
-        `${stream.title}\n${stream.user_name}`,
+        `${stream.title}\n${stream.displayName}`,
         [
           {
             text: 'Set as Focus',
@@ -277,7 +277,7 @@ export function EnhancedMultiStreamLayout({
                 />
                 <View style={styles.streamOverlay}>
                   <Text style={styles.streamTitle} numberOfLines={1}>
-                    {stream.user_name}
+                    {stream.displayName}
                   </Text>
                 </View>
               </TouchableOpacity>
@@ -317,7 +317,7 @@ export function EnhancedMultiStreamLayout({
                 {stream.title}
               </Text>
               <Text style={styles.streamUsername} numberOfLines={1}>
-                {stream.user_name}
+                {stream.displayName}
               </Text>
             </View>
           </TouchableOpacity>
@@ -49,7 +49,7 @@ import Animated, {
   runOnJS,
   withDelay,
 } from 'react-native-reanimated';
-import { TwitchStream } from '@/services/twitchApi';
+import { Stream } from '@/types/stream';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
@@ -72,7 +72,7 @@ interface StreamStats {
 }
 
 interface FloatingStreamControlsProps {
-  stream: TwitchStream;
+  stream: Stream;
   isVisible: boolean;
   position: { x: number; y: number };
   onClose: () => void;
@@ -122,7 +122,7 @@ export function FloatingStreamControls({
   const [selectedQuality, setSelectedQuality] = useState('auto');
   const [showQualityMenu, setShowQualityMenu] = useState(false);
   const [streamStats, setStreamStats] = useState<StreamStats>({
-    viewers: stream.viewer_count || 0,
+    viewers: stream.viewerCount || 0,
     duration: '2:34:15',
     bitrate: '6000 kbps',
     resolution: '1920x1080',
@@ -207,27 +207,27 @@ export function FloatingStreamControls({
     Alert.alert(
       newRecording ? 'Recording Started' : 'Recording Stopped',
       newRecording
-        ? `Started recording ${stream.user_name}'s stream`
+        ? `Started recording ${stream.displayName}'s stream`
         : 'Recording saved to your device',
       [{ text: 'OK' }]
     );
-  }, [recording, onRecord, triggerHaptic, stream.user_name]);
+  }, [recording, onRecord, triggerHaptic, stream.displayName]);
 
   const handleScreenshot = useCallback(() => {
     onScreenshot();
     triggerHaptic('medium');
 
     // Show success feedback
-    Alert.alert('Screenshot Captured', `Screenshot of ${stream.user_name}'s stream saved`, [
+    Alert.alert('Screenshot Captured', `Screenshot of ${stream.displayName}'s stream saved`, [
       { text: 'OK' },
     ]);
-  }, [onScreenshot, triggerHaptic, stream.user_name]);
+  }, [onScreenshot, triggerHaptic, stream.displayName]);
 
   const handleShare = useCallback(() => {
     const shareData = {
-      title: `${stream.user_name} - ${stream.title}`,
-      message: `Check out ${stream.user_name} playing ${stream.game_name} on Twitch!`,
-      url: `https://twitch.tv/${stream.user_login}`,
+      title: `${stream.displayName} - ${stream.title}`,
+      message: `Check out ${stream.displayName} playing ${stream.category} on Twitch!`,
+      url: `https://twitch.tv/${stream.username}`,
     };
 
     Share.share(shareData).then(() => {
@@ -400,10 +400,10 @@ export function FloatingStreamControls({
             <View style={styles.header}>
               <View style={styles.streamInfo}>
                 <Text style={styles.streamTitle} numberOfLines={1}>
-                  {stream.user_name}
+                  {stream.displayName}
                 </Text>
                 <Text style={styles.streamGame} numberOfLines={1}>
-                  {stream.game_name}
+                  {stream.category}
                 </Text>
               </View>
               <TouchableOpacity style={styles.closeButton} onPress={onClose}>
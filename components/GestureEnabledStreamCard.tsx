@@ -39,13 +39,13 @@ import Animated, {
   runOnJS,
   interpolate,
 } from 'react-native-reanimated';
-import { TwitchStream } from '@/services/twitchApi';
+import { Stream } from '@/types/stream';
 import { StreamViewer } from './StreamViewer';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
 interface GestureEnabledStreamCardProps {
-  stream: TwitchStream;
+  stream: Stream;
   onRemove: (streamId: string) => void;
   onReorder: (streamId: string, newPosition: { x: number; y: number }) => void;
   onFocus: (streamId: string) => void;
@@ -373,10 +373,10 @@ export function GestureEnabledStreamCard({
                           <View style={styles.topControls}>
                             <View style={styles.streamInfo}>
                               <Text style={styles.streamTitle} numberOfLines={1}>
-                                {stream.user_name}
+                                {stream.displayName}
                               </Text>
                               <Text style={styles.streamGame} numberOfLines={1}>
-                                {stream.game_name}
+                                {stream.category}
                               </Text>
                             </View>
                             <TouchableOpacity style={styles.closeButton} onPress={handleRemove}>
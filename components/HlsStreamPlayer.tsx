@@ -0,0 +1,315 @@
+/**
+ * HLS Stream Player Component
+ * Plays direct HLS playlists and MP4 files in a WebView so custom sources sit
+ * in the grid next to platform embeds. Quality changes from
+ * streamQualityManager switch the WebView between HLS variants. On-demand
+ * sources resume where they were left off. On web the page runs in a
+ * sandboxed frame. Only http(s) URLs are ever written into the page.
+ */
+
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { View, StyleSheet, ActivityIndicator, Platform, StyleProp, ViewStyle } from 'react-native';
+import { WebView } from 'react-native-webview';
+import { WebViewErrorEvent } from 'react-native-webview/lib/WebViewTypes';
+import { HLS_JS_URL, normalizeHttpUrl } from '@/services/streamProbe';
+import { streamQualityManager } from '@/services/streamQualityManager';
+import { watchHistoryService } from '@/services/watchHistoryService';
+import { PlaybackSource } from '@/types/stream';
+import { WebPlayerFrame, WebPlayerFrameHandle, WebPlayerFrameMessageEvent } from './WebPlayerFrame';
+
+// How often an on-demand video reports its position while playing
+const PROGRESS_INTERVAL_MS = 5000;
+
+interface HlsStreamPlayerProps {
+  streamId: string;
+  playback: PlaybackSource;
+  muted?: boolean;
+  /** 0–1, from the grid's audio policy */
+  volume?: number;
+  onLoad?: () => void;
+  onError?: (error: Error) => void;
+  style?: StyleProp<ViewStyle>;
+  isVisible?: boolean; // For viewport culling
+  priority?: 'high' | 'normal' | 'low'; // Loading priority
+}
+
+// JSON that can't close the inline <script> it's written into
+const toScriptLiteral = (value: unknown): string =>
+  JSON.stringify(value).replace(/</g, '\\u003c').replace(/>/g, '\\u003e').replace(/&/g, '\\u0026');
+
+const buildPlayerHtml = (
+  url: string,
+  playback: PlaybackSource,
+  muted: boolean,
+  autoplay: boolean,
+  preferHlsJs: boolean
+) => `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1, user-scalable=no">
+  <style>
+    html, body { margin: 0; padding: 0; height: 100%; background: #000; overflow: hidden; }
+    video { width: 100%; height: 100%; object-fit: contain; background: #000; }
+  </style>
+  <script src="${HLS_JS_URL}"></script>
+</head>
+<body>
+  <video id="video" playsinline webkit-playsinline ${muted ? 'muted' : ''} ${autoplay ? 'autoplay' : ''}></video>
+  <script>
+    var video = document.getElementById('video');
+    var isHls = ${JSON.stringify(playback.type === 'hls')};
+    var hls = null;
+
+    function post(message) {
+      window.ReactNativeWebView.postMessage(JSON.stringify(message));
+    }
+
+    window.setSource = function (url, keepPosition) {
+      var position = keepPosition ? video.currentTime : 0;
+      var wasPaused = video.paused;
+
+      if (hls) {
+        hls.destroy();
+        hls = null;
+      }
+
+      // iOS plays HLS natively; everywhere else goes through hls.js
+      var preferHlsJs = ${JSON.stringify(preferHlsJs)};
+      if (isHls && (preferHlsJs || !video.canPlayType('application/vnd.apple.mpegurl')) && window.Hls && Hls.isSupported()) {
+        hls = new Hls({ lowLatencyMode: ${JSON.stringify(playback.isLive)} });
+        hls.on(Hls.Events.ERROR, function (event, data) {
+          if (data.fatal) {
+            post({ type: 'error', message: data.details });
+          }
+        });
+        hls.loadSource(url);
+        hls.attachMedia(video);
+      } else {
+        video.src = url;
+      }
+
+      if (position > 0) {
+        video.addEventListener('loadedmetadata', function seek() {
+          video.removeEventListener('loadedmetadata', seek);
+          video.currentTime = position;
+        });
+      }
+      if (!wasPaused || ${JSON.stringify(autoplay)}) {
+        video.play().catch(function () {});
+      }
+    };
+
+    video.addEventListener('loadeddata', function () {
+      post({ type: 'ready', width: video.videoWidth, height: video.videoHeight });
+    });
+    video.addEventListener('error', function () {
+      post({ type: 'error', message: video.error ? video.error.message : 'Playback failed' });
+    });
+
+    if (${JSON.stringify(!playback.isLive)}) {
+      var lastProgress = 0;
+      var postProgress = function () {
+        if (video.duration && isFinite(video.duration)) {
+          lastProgress = Date.now();
+          post({
+            type: 'progress',
+            position: video.currentTime,
+            duration: video.duration,
+            playing: !video.paused,
+          });
+        }
+      };
+      video.addEventListener('timeupdate', function () {
+        if (Date.now() - lastProgress >= ${PROGRESS_INTERVAL_MS}) {
+          postProgress();
+        }
+      });
+      video.addEventListener('pause', postProgress);
+      video.addEventListener('ended', postProgress);
+    }
+
+    window.setSource(${toScriptLiteral(url)}, false);
+  </script>
+</body>
+</html>
+`;
+
+export const HlsStreamPlayer: React.FC<HlsStreamPlayerProps> = React.memo(
+  ({
+    streamId,
+    playback,
+    muted = true,
+    volume = 1,
+    onLoad,
+    onError,
+    style,
+    isVisible = true,
+    priority = 'normal',
+  }) => {
+    const [loading, setLoading] = useState(true);
+    const [shouldLoad, setShouldLoad] = useState(priority === 'high');
+    const webViewRef = useRef<WebView | WebPlayerFrameHandle>(null);
+    const hasResumed = useRef(false);
+    const onErrorRef = useRef(onError);
+    onErrorRef.current = onError;
+    // Read when the page is built; later changes are injected in place
+    const playStateRef = useRef({ muted, isVisible });
+    playStateRef.current = { muted, isVisible };
+    const sourceUrl = useMemo(() => normalizeHttpUrl(playback.url), [playback.url]);
+
+    // Lazy loading based on visibility and priority, same staggering as the embed player
+    useEffect(() => {
+      if (isVisible && !shouldLoad) {
+        const delay = priority === 'high' ? 0 : priority === 'normal' ? 300 : 600;
+        const timer = setTimeout(() => setShouldLoad(true), delay);
+        return () => clearTimeout(timer);
+      }
+    }, [isVisible, priority, shouldLoad]);
+
+    // Expose the playlist's variants to the quality manager and follow its decisions
+    useEffect(() => {
+      streamQualityManager.initializeStream(streamId);
+      streamQualityManager.setStreamVariants(streamId, playback.variants);
+
+      const unsubscribe = streamQualityManager.onQualityChange(event => {
+        if (event.streamId !== streamId) {
+          return;
+        }
+
+        const variant = streamQualityManager.getVariantForQuality(streamId, event.newQuality);
+        const url = normalizeHttpUrl(variant?.url || playback.url);
+        if (!url) {
+          return;
+        }
+        webViewRef.current?.injectJavaScript(
+          `window.setSource(${toScriptLiteral(url)}, ${!playback.isLive}); true;`
+        );
+      });
+
+      return () => {
+        unsubscribe();
+        streamQualityManager.removeStream(streamId);
+      };
+    }, [streamId, playback]);
+
+    // Mute and visibility changes are applied in place so the player keeps its buffer
+    useEffect(() => {
+      webViewRef.current?.injectJavaScript(
+        `video.muted = ${muted}; ${isVisible ? 'video.play().catch(function () {});' : 'video.pause();'} true;`
+      );
+    }, [muted, isVisible]);
+
+    useEffect(() => {
+      webViewRef.current?.injectJavaScript(`video.volume = ${volume}; true;`);
+    }, [volume]);
+
+    useEffect(() => {
+      if (!sourceUrl) {
+        setLoading(false);
+        onErrorRef.current?.(new Error('Stream URL must start with http:// or https://'));
+      }
+    }, [sourceUrl]);
+
+    // Only rebuilt for a new source; mute/visibility are injected above
+    const html = useMemo(() => {
+      if (!sourceUrl) {
+        return null;
+      }
+      const { muted: startMuted, isVisible: autoplay } = playStateRef.current;
+      return buildPlayerHtml(sourceUrl, playback, startMuted, autoplay, Platform.OS === 'web');
+    }, [sourceUrl, playback]);
+
+    const handleMessage = (event: WebPlayerFrameMessageEvent) => {
+      try {
+        const data = JSON.parse(event.nativeEvent.data);
+        if (data.type === 'ready') {
+          setLoading(false);
+          onLoad?.();
+          webViewRef.current?.injectJavaScript(`video.volume = ${volume}; true;`);
+          // Quality switches keep their own position; only seek on first load
+          if (!playback.isLive && !hasResumed.current) {
+            hasResumed.current = true;
+            watchHistoryService.getResumePosition(streamId).then(position => {
+              if (position > 0) {
+                webViewRef.current?.injectJavaScript(`video.currentTime = ${position}; true;`);
+              }
+            });
+          }
+        } else if (data.type === 'progress') {
+          watchHistoryService.savePosition(streamId, data.position, data.duration);
+        } else if (data.type === 'error') {
+          setLoading(false);
+          onError?.(new Error(data.message));
+        }
+      } catch {
+        // Ignore non-JSON messages
+      }
+    };
+
+    const handleError = (event: WebViewErrorEvent) => {
+      setLoading(false);
+      onError?.(new Error(event.nativeEvent.description));
+    };
+
+    return (
+      <View style={[styles.container, style]}>
+        {(loading || !shouldLoad) && (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#0EA5E9" />
+          </View>
+        )}
+
+        {shouldLoad && html && Platform.OS === 'web' && (
+          <WebPlayerFrame
+            ref={webViewRef as React.RefObject<WebPlayerFrameHandle>}
+            html={html}
+            style={styles.webview}
+            onMessage={handleMessage}
+          />
+        )}
+        {shouldLoad && html && Platform.OS !== 'web' && (
+          <WebView
+            ref={webViewRef as React.RefObject<WebView>}
+            source={{ html, baseUrl: sourceUrl }}
+            style={styles.webview}
+            onMessage={handleMessage}
+            onError={handleError}
+            allowsInlineMediaPlayback
+            mediaPlaybackRequiresUserAction={false}
+            javaScriptEnabled
+            domStorageEnabled
+            mixedContentMode="compatibility"
+            allowsBackForwardNavigationGestures={false}
+            renderLoading={() => null}
+          />
+        )}
+      </View>
+    );
+  }
+);
+
+HlsStreamPlayer.displayName = 'HlsStreamPlayer';
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  webview: {
+    flex: 1,
+  },
+  loadingContainer: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#000',
+    zIndex: 1,
+  },
+});
+
+export default HlsStreamPlayer;
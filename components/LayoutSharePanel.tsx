@@ -0,0 +1,540 @@
+/**
+ * Layout Share Panel
+ * Shares the current multiview as a link, a QR code or a JSON file, and
+ * opens layouts someone else shared. Importing replaces the grid's streams;
+ * channels that are offline or can't be found are listed instead. Layouts
+ * can also be saved on this device, together with their audio policy.
+ * Files are downloaded and picked with the browser on web, and go through
+ * the share sheet and document picker on iOS and Android.
+ */
+
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import {
+  BookmarkPlus,
+  Download,
+  FolderOpen,
+  LayoutGrid,
+  QrCode,
+  Share2,
+  Trash2,
+  X,
+} from 'lucide-react-native';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Platform,
+  Share,
+  StyleProp,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+  ViewStyle,
+} from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import { audioPolicyService } from '@/services/audioPolicyService';
+import {
+  describeSkippedTile,
+  LayoutImportError,
+  layoutShareService,
+  ResolvedSharedLayout,
+} from '@/services/layoutShareService';
+import { Layout, useLayoutActions, useSavedLayouts } from '@/store/useAppStore';
+import { ModernTheme } from '@/theme/modernTheme';
+import { AudioPolicyMode, MultiviewLayout, SharedLayout } from '@/types/layout';
+import { Stream } from '@/types/stream';
+import { HapticFeedback } from '@/utils/haptics';
+
+interface LayoutSharePanelProps {
+  /** The grid as it is now */
+  layout: MultiviewLayout;
+  streams: Stream[];
+  audioFocusStreamId?: string | null;
+  /** Streams past this are left out of an import */
+  maxStreams: number;
+  /** Layout code from a shared link; imported as soon as it arrives */
+  initialCode?: string;
+  /** Put the resolved streams in the grid and apply its layout */
+  onImport: (result: ResolvedSharedLayout) => void;
+  /** Put a layout saved on this device back in the grid */
+  onOpenSaved: (layout: Layout) => void;
+  onClose?: () => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+interface ImportSummary {
+  opened: number;
+  total: number;
+  notes: string[];
+}
+
+const AUDIO_MODE_LABELS: Record<AudioPolicyMode, string> = {
+  single: 'Focus',
+  duck: 'Duck',
+  mix: 'Mix',
+  auto: 'Auto',
+};
+
+const downloadFile = (name: string, contents: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const pickWebFile = (): Promise<string | null> =>
+  new Promise(resolve => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'application/json,.json';
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      file.text().then(resolve, () => resolve(null));
+    };
+    input.click();
+  });
+
+// Written to the cache first; the share sheet can save it to Files or send it on
+const shareFile = async (name: string, contents: string) => {
+  if (!(await Sharing.isAvailableAsync())) {
+    await Share.share({ message: contents, title: name });
+    return;
+  }
+  const uri = `${FileSystem.cacheDirectory}${name}`;
+  await FileSystem.writeAsStringAsync(uri, contents);
+  await Sharing.shareAsync(uri, {
+    mimeType: 'application/json',
+    UTI: 'public.json',
+    dialogTitle: name,
+  });
+};
+
+const pickNativeFile = async (): Promise<string | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    // Android often labels downloaded .json files as plain text or binary
+    type: ['application/json', 'text/plain', 'application/octet-stream'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || !result.assets[0]) {
+    return null;
+  }
+  return FileSystem.readAsStringAsync(result.assets[0].uri);
+};
+
+export const LayoutSharePanel: React.FC<LayoutSharePanelProps> = ({
+  layout,
+  streams,
+  audioFocusStreamId,
+  maxStreams,
+  initialCode,
+  onImport,
+  onOpenSaved,
+  onClose,
+  style,
+}) => {
+  const savedLayouts = useSavedLayouts();
+  const { saveLayout, deleteLayout } = useLayoutActions();
+  const [name, setName] = useState('');
+  const [showQr, setShowQr] = useState(false);
+  const [input, setInput] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const shared = useMemo<SharedLayout | null>(() => {
+    if (streams.length === 0) {
+      return null;
+    }
+    return layoutShareService.createSharedLayout(
+      { ...layout, name: name.trim() || undefined },
+      streams,
+      audioFocusStreamId
+    );
+  }, [layout, streams, audioFocusStreamId, name]);
+  const link = useMemo(() => (shared ? layoutShareService.getLink(shared) : ''), [shared]);
+
+  const handleShareLink = useCallback(async () => {
+    if (!shared) {
+      return;
+    }
+    try {
+      await Share.share({
+        message: `${shared.name || 'My multiview'} on Streamyyy (${shared.tiles.length} streams)\n${link}`,
+      });
+    } catch (shareError) {
+      console.error('❌ Failed to share layout link:', shareError);
+    }
+  }, [shared, link]);
+
+  const handleExport = useCallback(async () => {
+    if (!shared) {
+      return;
+    }
+    const json = layoutShareService.toJSON(shared);
+    try {
+      if (Platform.OS === 'web') {
+        downloadFile(layoutShareService.getFileName(shared), json);
+      } else {
+        await shareFile(layoutShareService.getFileName(shared), json);
+      }
+    } catch (exportError) {
+      console.error('❌ Failed to export layout:', exportError);
+    }
+  }, [shared]);
+
+  const handleSave = useCallback(async () => {
+    if (streams.length === 0) {
+      return;
+    }
+    let gridType: Layout['gridType'] = 'grid';
+    if (layout.preset === 'stacked' || layout.preset === 'pip' || layout.preset === 'focus') {
+      gridType = layout.preset;
+    }
+    const columns = /^(\d)x\d$/.exec(layout.preset);
+    const policy = audioPolicyService.getPolicy();
+    const volumes: Record<string, number> = {};
+    streams.forEach(stream => {
+      if (policy.volumes[stream.id] !== undefined) {
+        volumes[stream.id] = policy.volumes[stream.id];
+      }
+    });
+
+    await saveLayout({
+      name: name.trim() || `Layout ${savedLayouts.length + 1}`,
+      streams,
+      gridType,
+      gridColumns: columns ? Number(columns[1]) : Math.ceil(Math.sqrt(streams.length)),
+      preset: layout.preset,
+      audio: { ...policy, volumes },
+      audioFocusStreamId,
+    });
+    HapticFeedback.success();
+  }, [layout.preset, streams, name, savedLayouts.length, audioFocusStreamId, saveLayout]);
+
+  const runImport = useCallback(
+    async (text: string) => {
+      setIsImporting(true);
+      setError(null);
+      setSummary(null);
+      try {
+        const parsed = layoutShareService.parse(text);
+        const result = await layoutShareService.resolve(parsed);
+        const notes = result.skipped.map(describeSkippedTile);
+
+        if (result.streams.length > maxStreams) {
+          notes.push(`Only the first ${maxStreams} streams fit in the grid`);
+          result.streams = result.streams.slice(0, maxStreams);
+          if (!result.streams.some(stream => stream.id === result.audioFocusStreamId)) {
+            result.audioFocusStreamId = null;
+          }
+        }
+        if (result.streams.length === 0) {
+          setError('None of the streams in this layout are live right now');
+          setSummary({ opened: 0, total: parsed.tiles.length, notes });
+          HapticFeedback.warning();
+          return;
+        }
+
+        onImport(result);
+        layoutShareService.applyTileSettings(result.tileSettings, result.streams);
+        setSummary({ opened: result.streams.length, total: parsed.tiles.length, notes });
+        setInput('');
+        HapticFeedback.success();
+      } catch (importError) {
+        if (!(importError instanceof LayoutImportError)) {
+          console.error('❌ Failed to import layout:', importError);
+        }
+        setError(importError instanceof Error ? importError.message : 'Could not open the layout');
+        HapticFeedback.error();
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [maxStreams, onImport]
+  );
+
+  // Only a new link should trigger an import, not a new runImport
+  const runImportRef = useRef(runImport);
+  runImportRef.current = runImport;
+  useEffect(() => {
+    if (initialCode) {
+      runImportRef.current(initialCode);
+    }
+  }, [initialCode]);
+
+  const handleOpenFile = useCallback(async () => {
+    try {
+      const text = Platform.OS === 'web' ? await pickWebFile() : await pickNativeFile();
+      if (text) {
+        runImport(text);
+      }
+    } catch (pickError) {
+      console.error('❌ Failed to open layout file:', pickError);
+      setError("Couldn't read that file");
+    }
+  }, [runImport]);
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.header}>
+        <LayoutGrid size={16} color={ModernTheme.colors.primary[500]} />
+        <Text style={styles.title}>Layouts</Text>
+        {onClose && (
+          <TouchableOpacity onPress={onClose} hitSlop={8}>
+            <X size={16} color={ModernTheme.colors.text.secondary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {shared ? (
+        <>
+          <TextInput
+            style={styles.field}
+            value={name}
+            onChangeText={setName}
+            placeholder="Layout name (optional)"
+            placeholderTextColor={ModernTheme.colors.text.tertiary}
+            maxLength={80}
+          />
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={styles.primaryButton} onPress={handleShareLink}>
+              <Share2 size={14} color="#fff" />
+              <Text style={styles.primaryButtonText}>Link</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.secondaryButton, showQr && styles.secondaryButtonActive]}
+              onPress={() => setShowQr(prev => !prev)}
+            >
+              <QrCode size={14} color={ModernTheme.colors.text.primary} />
+              <Text style={styles.secondaryButtonText}>QR code</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.secondaryButton} onPress={handleExport}>
+              <Download size={14} color={ModernTheme.colors.text.primary} />
+              <Text style={styles.secondaryButtonText}>JSON</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.secondaryButton} onPress={handleSave}>
+              <BookmarkPlus size={14} color={ModernTheme.colors.text.primary} />
+              <Text style={styles.secondaryButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+          {showQr && (
+            <View style={styles.qr}>
+              <QRCode value={link} size={180} ecl="L" backgroundColor="#fff" color="#000" />
+            </View>
+          )}
+        </>
+      ) : (
+        <Text style={styles.hint}>Add streams to share this multiview.</Text>
+      )}
+
+      {savedLayouts.length > 0 && (
+        <>
+          <View style={styles.divider} />
+          {savedLayouts.map(saved => (
+            <View key={saved.id} style={styles.savedRow}>
+              <TouchableOpacity
+                style={styles.savedName}
+                onPress={() => {
+                  HapticFeedback.light();
+                  onOpenSaved(saved);
+                }}
+              >
+                <Text style={styles.savedTitle} numberOfLines={1}>
+                  {saved.name}
+                </Text>
+                <Text style={styles.note}>
+                  {saved.streams.length} streams
+                  {saved.audio ? ` · ${AUDIO_MODE_LABELS[saved.audio.mode]} audio` : ''}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.iconButton}
+                onPress={() => deleteLayout(saved.id)}
+                hitSlop={6}
+              >
+                <Trash2 size={14} color={ModernTheme.colors.text.tertiary} />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </>
+      )}
+
+      <View style={styles.divider} />
+
+      <View style={styles.inputRow}>
+        <TextInput
+          style={[styles.field, styles.input]}
+          value={input}
+          onChangeText={text => {
+            setInput(text);
+            setError(null);
+          }}
+          placeholder="Paste a layout link, code or JSON"
+          placeholderTextColor={ModernTheme.colors.text.tertiary}
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="go"
+          onSubmitEditing={() => runImport(input)}
+          editable={!isImporting}
+        />
+        <TouchableOpacity
+          style={[styles.secondaryButton, (!input.trim() || isImporting) && styles.buttonDisabled]}
+          onPress={() => runImport(input)}
+          disabled={!input.trim() || isImporting}
+        >
+          {isImporting ? (
+            <ActivityIndicator size="small" color={ModernTheme.colors.text.primary} />
+          ) : (
+            <Text style={styles.secondaryButtonText}>Open</Text>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={handleOpenFile}
+          disabled={isImporting}
+          hitSlop={6}
+        >
+          <FolderOpen size={16} color={ModernTheme.colors.text.secondary} />
+        </TouchableOpacity>
+      </View>
+
+      {error && <Text style={styles.error}>{error}</Text>}
+      {summary && summary.opened > 0 && (
+        <Text style={styles.hint}>
+          Opened {summary.opened} of {summary.total} streams
+        </Text>
+      )}
+      {summary?.notes.map(note => (
+        <Text key={note} style={styles.note}>
+          · {note}
+        </Text>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: ModernTheme.spacing.sm,
+    padding: ModernTheme.spacing.md,
+    backgroundColor: ModernTheme.colors.background.secondary,
+    borderRadius: ModernTheme.borderRadius.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.sm,
+  },
+  title: {
+    flex: 1,
+    color: ModernTheme.colors.text.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  hint: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: 12,
+  },
+  note: {
+    color: ModernTheme.colors.text.tertiary,
+    fontSize: 11,
+  },
+  error: {
+    color: ModernTheme.colors.error[500],
+    fontSize: 12,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: ModernTheme.spacing.sm,
+  },
+  primaryButton: {
+    flex: 1,
+    height: 36,
+    flexDirection: 'row',
+    gap: 6,
+    borderRadius: ModernTheme.borderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: ModernTheme.colors.primary[500],
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    height: 36,
+    flexDirection: 'row',
+    gap: 6,
+    paddingHorizontal: ModernTheme.spacing.md,
+    borderRadius: ModernTheme.borderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: ModernTheme.colors.background.tertiary,
+  },
+  secondaryButtonActive: {
+    borderWidth: 1,
+    borderColor: ModernTheme.colors.primary[500],
+  },
+  secondaryButtonText: {
+    color: ModernTheme.colors.text.primary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  qr: {
+    alignSelf: 'center',
+    padding: ModernTheme.spacing.sm,
+    borderRadius: ModernTheme.borderRadius.md,
+    backgroundColor: '#fff',
+  },
+  divider: {
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: ModernTheme.colors.border.primary,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.sm,
+  },
+  field: {
+    height: 36,
+    paddingHorizontal: ModernTheme.spacing.sm,
+    borderRadius: ModernTheme.borderRadius.md,
+    backgroundColor: ModernTheme.colors.background.tertiary,
+    color: ModernTheme.colors.text.primary,
+    fontSize: 13,
+  },
+  input: {
+    flex: 1,
+  },
+  iconButton: {
+    padding: 4,
+  },
+  savedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.sm,
+  },
+  savedName: {
+    flex: 1,
+  },
+  savedTitle: {
+    color: ModernTheme.colors.text.primary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
+
+export default LayoutSharePanel;
@@ -0,0 +1,129 @@
+/**
+ * Loudness Meter
+ * Live level for one stream from audioMixingService.getVisualizationData:
+ * the bar is the stream's level before its volume, the readout its
+ * short-term loudness and the gain normalization applies. Tapping the
+ * readout turns normalization off or on for that stream.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { StyleProp, StyleSheet, Text, TouchableOpacity, View, ViewStyle } from 'react-native';
+import { audioMixingService, AudioVisualizationData } from '@/services/audioMixingService';
+import { ModernTheme } from '@/theme/modernTheme';
+
+const REFRESH_MS = 100;
+// The bar spans this many dB below full scale
+const METER_RANGE_DB = 60;
+
+interface LoudnessMeterProps {
+  streamId: string;
+  style?: StyleProp<ViewStyle>;
+}
+
+const toMeterFraction = (level: number): number => {
+  if (level <= 0) {
+    return 0;
+  }
+  const db = 20 * Math.log10(level);
+  return Math.max(0, Math.min(1, 1 + db / METER_RANGE_DB));
+};
+
+const formatGain = (gain: number): string => {
+  const rounded = Math.round(gain);
+  return `${rounded > 0 ? '+' : ''}${rounded} dB`;
+};
+
+export const LoudnessMeter: React.FC<LoudnessMeterProps> = ({ streamId, style }) => {
+  const [data, setData] = useState<AudioVisualizationData | null>(null);
+
+  useEffect(() => {
+    const timer = setInterval(
+      () => setData(audioMixingService.getVisualizationData(streamId)),
+      REFRESH_MS
+    );
+    return () => clearInterval(timer);
+  }, [streamId]);
+
+  const stream = audioMixingService.getStream(streamId);
+  if (!data || !stream) {
+    return (
+      <View style={[styles.container, style]}>
+        <Text style={styles.unavailable}>Not measurable</Text>
+      </View>
+    );
+  }
+
+  let barColor = ModernTheme.colors.success[500];
+  if (data.peak >= 0.89) {
+    barColor = ModernTheme.colors.error[500];
+  } else if (data.peak >= 0.5) {
+    barColor = ModernTheme.colors.text.warning;
+  }
+
+  let readout = '—';
+  if (data.loudness !== null && data.loudness !== undefined) {
+    readout = `${Math.round(data.loudness)} LUFS`;
+    if (stream.normalize) {
+      readout += ` · ${formatGain(data.gain || 0)}`;
+    }
+  }
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.track}>
+        <View
+          style={[
+            styles.bar,
+            { width: `${toMeterFraction(data.rms) * 100}%`, backgroundColor: barColor },
+          ]}
+        />
+        <View style={[styles.peak, { left: `${toMeterFraction(data.peak) * 100}%` }]} />
+      </View>
+      <TouchableOpacity
+        onPress={() => audioMixingService.setStreamNormalization(streamId, !stream.normalize)}
+        hitSlop={6}
+      >
+        <Text style={[styles.readout, !stream.normalize && styles.readoutOff]}>
+          {stream.normalize ? readout : 'Not normalized'}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    gap: 2,
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+    backgroundColor: ModernTheme.colors.background.tertiary,
+  },
+  bar: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  peak: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    backgroundColor: ModernTheme.colors.text.primary,
+  },
+  readout: {
+    color: ModernTheme.colors.text.tertiary,
+    fontSize: 10,
+  },
+  readoutOff: {
+    color: ModernTheme.colors.text.warning,
+  },
+  unavailable: {
+    color: ModernTheme.colors.text.tertiary,
+    fontSize: 10,
+  },
+});
+
+export default LoudnessMeter;
@@ -0,0 +1,387 @@
+/**
+ * Merged Chat Pane
+ * One combined chat for every stream in the multi-view. Messages are tagged
+ * with their channel in the platform color; channels can be muted and the
+ * feed narrowed to mentions and keywords.
+ */
+
+import { AtSign, ChevronDown, MessageSquare, X } from 'lucide-react-native';
+import React, { memo, useCallback, useMemo, useRef, useState } from 'react';
+import {
+  FlatList,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { MergedChatChannel, MergedChatMessage, useMergedChat } from '@/hooks/useMergedChat';
+import { ModernTheme } from '@/theme/modernTheme';
+import { Stream } from '@/types/stream';
+import { HapticFeedback } from '@/utils/haptics';
+import { ChatFragments } from './ChatFragments';
+
+interface MergedChatPaneProps {
+  streams: Stream[];
+  visible: boolean;
+  onClose: () => void;
+}
+
+// Scrolling further than this from the newest message pauses the feed
+const PAUSE_OFFSET = 40;
+
+const parseKeywords = (text: string): string[] =>
+  text
+    .split(',')
+    .map(keyword => keyword.trim().toLowerCase())
+    .filter(Boolean);
+
+interface ChatRowProps {
+  entry: MergedChatMessage;
+  channel?: MergedChatChannel;
+  highlighted: boolean;
+}
+
+const ChatRow = memo(({ entry, channel, highlighted }: ChatRowProps) => {
+  const { message } = entry;
+  const tagColor = channel?.color || ModernTheme.colors.text.secondary;
+
+  return (
+    <View style={[styles.row, { borderLeftColor: tagColor }, highlighted && styles.rowHighlighted]}>
+      {message.systemMessage && <Text style={styles.systemText}>{message.systemMessage}</Text>}
+      <Text style={styles.rowText}>
+        <Text style={[styles.channelTag, { color: tagColor }]}>{channel?.label} </Text>
+        <Text style={[styles.username, { color: message.color || '#999' }]}>
+          {message.displayName}
+        </Text>
+        {message.type === 'action' ? ' ' : ': '}
+        {message.isDeleted ? (
+          <Text style={styles.deletedText}>&lt;message deleted&gt;</Text>
+        ) : (
+          <ChatFragments fragments={message.fragments} />
+        )}
+      </Text>
+    </View>
+  );
+});
+
+ChatRow.displayName = 'ChatRow';
+
+export const MergedChatPane: React.FC<MergedChatPaneProps> = ({ streams, visible, onClose }) => {
+  const [mutedChannelIds, setMutedChannelIds] = useState<string[]>([]);
+  const [highlightsOnly, setHighlightsOnly] = useState(false);
+  const [keywordText, setKeywordText] = useState('');
+  const [pausedAt, setPausedAt] = useState<MergedChatMessage[] | null>(null);
+  const listRef = useRef<FlatList<MergedChatMessage>>(null);
+
+  const { messages, channels, identities } = useMergedChat(visible ? streams : [], {
+    mutedChannelIds,
+  });
+
+  const channelsById = useMemo(
+    () => new Map(channels.map(channel => [channel.id, channel])),
+    [channels]
+  );
+
+  // Mentions of the signed-in accounts always count as highlights
+  const terms = useMemo(
+    () => [...identities.map(login => login.toLowerCase()), ...parseKeywords(keywordText)],
+    [identities, keywordText]
+  );
+
+  const isHighlight = useCallback(
+    (entry: MergedChatMessage) => {
+      const text = entry.message.message.toLowerCase();
+      return terms.some(term => text.includes(term));
+    },
+    [terms]
+  );
+
+  // Inverted list: newest first so new messages appear without scrolling
+  const data = useMemo(() => {
+    const source = pausedAt || messages;
+    const filtered = highlightsOnly ? source.filter(isHighlight) : source;
+    return [...filtered].reverse();
+  }, [pausedAt, messages, highlightsOnly, isHighlight]);
+
+  const newSincePause = useMemo(() => {
+    const lastSeen = pausedAt?.[pausedAt.length - 1];
+    if (!lastSeen) {
+      return 0;
+    }
+    const index = messages.findIndex(entry => entry.key === lastSeen.key);
+    return index === -1 ? messages.length : messages.length - 1 - index;
+  }, [pausedAt, messages]);
+
+  const toggleMuted = (channelId: string) => {
+    HapticFeedback.light();
+    setMutedChannelIds(prev =>
+      prev.includes(channelId) ? prev.filter(id => id !== channelId) : [...prev, channelId]
+    );
+  };
+
+  const resume = () => {
+    setPausedAt(null);
+    listRef.current?.scrollToOffset({ offset: 0, animated: true });
+  };
+
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const offset = event.nativeEvent.contentOffset.y;
+    if (offset > PAUSE_OFFSET && !pausedAt) {
+      setPausedAt(messages);
+    } else if (offset <= PAUSE_OFFSET && pausedAt) {
+      setPausedAt(null);
+    }
+  };
+
+  const renderItem = useCallback(
+    ({ item }: { item: MergedChatMessage }) => (
+      <ChatRow
+        entry={item}
+        channel={channelsById.get(item.channelId)}
+        highlighted={!highlightsOnly && terms.length > 0 && isHighlight(item)}
+      />
+    ),
+    [channelsById, highlightsOnly, terms, isHighlight]
+  );
+
+  if (!visible) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.titleRow}>
+          <MessageSquare size={16} color={ModernTheme.colors.text.primary} />
+          <Text style={styles.title}>Combined chat</Text>
+        </View>
+        <View style={styles.titleRow}>
+          <TouchableOpacity
+            style={[styles.modeButton, highlightsOnly && styles.modeButtonActive]}
+            onPress={() => setHighlightsOnly(prev => !prev)}
+            accessibilityLabel="Only show mentions and keywords"
+          >
+            <AtSign size={14} color="#fff" />
+            <Text style={styles.modeText}>Mentions</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={onClose} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+            <X size={18} color={ModernTheme.colors.text.secondary} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <View style={styles.channelRow}>
+        {channels.map(channel => {
+          const isMuted = mutedChannelIds.includes(channel.id);
+          return (
+            <TouchableOpacity
+              key={channel.id}
+              style={[styles.channelChip, (isMuted || !channel.isSupported) && styles.chipInactive]}
+              onPress={() => toggleMuted(channel.id)}
+              disabled={!channel.isSupported}
+            >
+              <View
+                style={[
+                  styles.statusDot,
+                  { backgroundColor: channel.color },
+                  channel.status !== 'connected' && styles.statusDotOffline,
+                ]}
+              />
+              <Text style={styles.chipText} numberOfLines={1}>
+                {channel.label}
+              </Text>
+              {!channel.isSupported && <Text style={styles.chipNote}>no chat</Text>}
+              {isMuted && <Text style={styles.chipNote}>muted</Text>}
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {highlightsOnly && (
+        <TextInput
+          style={styles.keywordInput}
+          value={keywordText}
+          onChangeText={setKeywordText}
+          placeholder="Keywords, comma separated"
+          placeholderTextColor={ModernTheme.colors.text.tertiary}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      )}
+
+      <FlatList
+        ref={listRef}
+        data={data}
+        keyExtractor={item => item.key}
+        renderItem={renderItem}
+        inverted
+        onScroll={handleScroll}
+        scrollEventThrottle={100}
+        initialNumToRender={20}
+        maxToRenderPerBatch={20}
+        windowSize={7}
+        removeClippedSubviews
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {highlightsOnly ? 'No mentions yet' : 'Waiting for chat messages...'}
+          </Text>
+        }
+      />
+
+      {pausedAt && (
+        <TouchableOpacity style={styles.resumeButton} onPress={resume}>
+          <ChevronDown size={14} color="#fff" />
+          <Text style={styles.modeText}>
+            {newSincePause > 0 ? `${newSincePause} new messages` : 'Back to live'}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'rgba(10, 10, 15, 0.95)',
+    borderTopLeftRadius: ModernTheme.borderRadius.lg,
+    borderTopRightRadius: ModernTheme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: ModernTheme.colors.border.primary,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: ModernTheme.spacing.md,
+    paddingVertical: ModernTheme.spacing.sm,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.sm,
+  },
+  title: {
+    color: ModernTheme.colors.text.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  modeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: ModernTheme.spacing.sm,
+    paddingVertical: 4,
+    borderRadius: ModernTheme.borderRadius.full,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  modeButtonActive: {
+    backgroundColor: ModernTheme.colors.primary[500],
+  },
+  modeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  channelRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: ModernTheme.spacing.xs,
+    paddingHorizontal: ModernTheme.spacing.md,
+    paddingBottom: ModernTheme.spacing.sm,
+  },
+  channelChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    maxWidth: 160,
+    paddingHorizontal: ModernTheme.spacing.sm,
+    paddingVertical: 4,
+    borderRadius: ModernTheme.borderRadius.full,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  chipInactive: {
+    opacity: 0.4,
+  },
+  statusDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  statusDotOffline: {
+    opacity: 0.4,
+  },
+  chipText: {
+    color: ModernTheme.colors.text.primary,
+    fontSize: 12,
+    flexShrink: 1,
+  },
+  chipNote: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: 10,
+  },
+  keywordInput: {
+    marginHorizontal: ModernTheme.spacing.md,
+    marginBottom: ModernTheme.spacing.sm,
+    paddingHorizontal: ModernTheme.spacing.sm,
+    paddingVertical: 6,
+    borderRadius: ModernTheme.borderRadius.md,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    color: ModernTheme.colors.text.primary,
+    fontSize: 13,
+  },
+  row: {
+    paddingHorizontal: ModernTheme.spacing.sm,
+    paddingVertical: 3,
+    marginHorizontal: ModernTheme.spacing.sm,
+    borderLeftWidth: 2,
+  },
+  rowHighlighted: {
+    backgroundColor: 'rgba(139, 92, 246, 0.18)',
+  },
+  rowText: {
+    color: ModernTheme.colors.text.primary,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  channelTag: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  username: {
+    fontWeight: '600',
+  },
+  systemText: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: 11,
+    fontStyle: 'italic',
+  },
+  deletedText: {
+    color: ModernTheme.colors.text.tertiary,
+    fontStyle: 'italic',
+  },
+  emptyText: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: 13,
+    textAlign: 'center',
+    padding: ModernTheme.spacing.lg,
+    // Inverted lists flip their empty component too
+    transform: [{ scaleY: -1 }],
+  },
+  resumeButton: {
+    position: 'absolute',
+    bottom: ModernTheme.spacing.sm,
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: ModernTheme.spacing.md,
+    paddingVertical: 6,
+    borderRadius: ModernTheme.borderRadius.full,
+    backgroundColor: ModernTheme.colors.primary[500],
+  },
+});
@@ -0,0 +1,326 @@
+/**
+ * Moderation Panel
+ * Mod tools for a Twitch channel the user moderates: room mode toggles and
+ * clear chat, the AutoMod queue and the channel's mod log.
+ */
+
+import { Check, Trash2, X } from 'lucide-react-native';
+import React, { useState } from 'react';
+import { Alert, FlatList, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useModerationAction } from '@/hooks/useChatModeration';
+import {
+  ChatModAction,
+  ChatModerationTarget,
+  ChatModLogEntry,
+  ChatSettingsUpdate,
+  contentModerationService,
+  HeldChatMessage,
+} from '@/services/contentModerationService';
+import { ModernTheme } from '@/theme/modernTheme';
+import { ChatRoomState } from '@/types/chat';
+
+interface ModerationPanelProps {
+  target: ChatModerationTarget;
+  roomState: ChatRoomState;
+  heldMessages: HeldChatMessage[];
+  heldError: string | null;
+  modLog: ChatModLogEntry[];
+  onClose: () => void;
+}
+
+type PanelTab = 'tools' | 'automod' | 'log';
+
+const SLOW_MODE_SECONDS = 30;
+const FOLLOWERS_ONLY_MINUTES = 10;
+
+const ACTION_LABELS: Record<ChatModAction, string> = {
+  timeout: 'timed out',
+  ban: 'banned',
+  unban: 'unbanned',
+  delete: 'deleted a message',
+  clear: 'cleared chat',
+  slow: 'slow mode',
+  emote_only: 'emote-only',
+  subs_only: 'subs-only',
+  followers_only: 'followers-only',
+  automod_approve: 'approved held message from',
+  automod_deny: 'denied held message from',
+};
+
+export const ModerationPanel: React.FC<ModerationPanelProps> = ({
+  target,
+  roomState,
+  heldMessages,
+  heldError,
+  modLog,
+  onClose,
+}) => {
+  const [tab, setTab] = useState<PanelTab>('tools');
+  const { run, isBusy } = useModerationAction();
+
+  const updateSettings = (settings: ChatSettingsUpdate) =>
+    run(() => contentModerationService.updateChatSettings(target, settings));
+
+  const handleClearChat = () => {
+    Alert.alert('Clear Chat', `Remove every message in #${target.channel} for all viewers?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: () => run(() => contentModerationService.clearChat(target)),
+      },
+    ]);
+  };
+
+  const modes: { label: string; active: boolean; settings: ChatSettingsUpdate }[] = [
+    {
+      label: `Slow ${SLOW_MODE_SECONDS}s`,
+      active: roomState.slowMode > 0,
+      settings: { slowMode: roomState.slowMode > 0 ? 0 : SLOW_MODE_SECONDS },
+    },
+    {
+      label: 'Emote only',
+      active: roomState.emoteOnly,
+      settings: { emoteOnly: !roomState.emoteOnly },
+    },
+    {
+      label: 'Subs only',
+      active: roomState.subsOnly,
+      settings: { subsOnly: !roomState.subsOnly },
+    },
+    {
+      label: `Followers ${FOLLOWERS_ONLY_MINUTES}m`,
+      active: roomState.followersOnly !== null,
+      settings: {
+        followersOnly: roomState.followersOnly !== null ? null : FOLLOWERS_ONLY_MINUTES,
+      },
+    },
+  ];
+
+  const tabs: { id: PanelTab; label: string }[] = [
+    { id: 'tools', label: 'Tools' },
+    { id: 'automod', label: heldMessages.length ? `AutoMod (${heldMessages.length})` : 'AutoMod' },
+    { id: 'log', label: 'Mod log' },
+  ];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.tabRow}>
+        {tabs.map(option => (
+          <TouchableOpacity
+            key={option.id}
+            style={[styles.tab, tab === option.id && styles.tabActive]}
+            onPress={() => setTab(option.id)}
+          >
+            <Text style={styles.tabText}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <X size={16} color={ModernTheme.colors.text.secondary} />
+        </TouchableOpacity>
+      </View>
+
+      {tab === 'tools' && (
+        <View>
+          <View style={styles.modeGrid}>
+            {modes.map(mode => (
+              <TouchableOpacity
+                key={mode.label}
+                style={[styles.modeButton, mode.active && styles.modeButtonActive]}
+                disabled={isBusy}
+                onPress={() => updateSettings(mode.settings)}
+              >
+                <Text style={styles.modeText}>{mode.label}</Text>
+                <Text style={styles.modeState}>{mode.active ? 'On' : 'Off'}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TouchableOpacity style={styles.clearButton} disabled={isBusy} onPress={handleClearChat}>
+            <Trash2 size={14} color={ModernTheme.colors.text.primary} />
+            <Text style={styles.modeText}>Clear chat</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {tab === 'automod' && (
+        <FlatList
+          data={heldMessages}
+          keyExtractor={item => item.id}
+          renderItem={({ item }) => (
+            <View style={styles.heldRow}>
+              <View style={styles.heldContent}>
+                <Text style={styles.heldUser}>
+                  {item.userName} <Text style={styles.heldReason}>· {item.reason}</Text>
+                </Text>
+                <Text style={styles.heldText}>{item.text}</Text>
+              </View>
+              <TouchableOpacity
+                style={[styles.heldButton, styles.approveButton]}
+                disabled={isBusy}
+                onPress={() =>
+                  run(() => contentModerationService.resolveHeldMessage(target, item, true))
+                }
+                accessibilityLabel="Approve"
+              >
+                <Check size={14} color={ModernTheme.colors.text.primary} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.heldButton, styles.denyButton]}
+                disabled={isBusy}
+                onPress={() =>
+                  run(() => contentModerationService.resolveHeldMessage(target, item, false))
+                }
+                accessibilityLabel="Deny"
+              >
+                <X size={14} color={ModernTheme.colors.text.primary} />
+              </TouchableOpacity>
+            </View>
+          )}
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>{heldError || 'No messages held by AutoMod'}</Text>
+          }
+        />
+      )}
+
+      {tab === 'log' && (
+        <FlatList
+          data={modLog}
+          keyExtractor={item => item.id}
+          renderItem={({ item }) => (
+            <Text style={styles.logRow}>
+              <Text style={styles.logTime}>
+                {new Date(item.timestamp).toLocaleTimeString('en-US', {
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}{' '}
+              </Text>
+              <Text style={styles.logModerator}>{item.moderator || 'A moderator'}</Text>{' '}
+              {ACTION_LABELS[item.action]}
+              {item.targetLogin ? ` ${item.targetLogin}` : ''}
+              {item.detail ? ` (${item.detail})` : ''}
+            </Text>
+          )}
+          ListEmptyComponent={<Text style={styles.emptyText}>No moderation actions yet</Text>}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: ModernTheme.colors.background.secondary,
+    padding: ModernTheme.spacing.sm,
+  },
+  tabRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.xs,
+    marginBottom: ModernTheme.spacing.sm,
+  },
+  tab: {
+    paddingHorizontal: ModernTheme.spacing.sm,
+    paddingVertical: 4,
+    borderRadius: ModernTheme.borderRadius.full,
+    backgroundColor: ModernTheme.colors.background.tertiary,
+  },
+  tabActive: {
+    backgroundColor: ModernTheme.colors.primary[500],
+  },
+  tabText: {
+    color: ModernTheme.colors.text.primary,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  closeButton: {
+    marginLeft: 'auto',
+    padding: 4,
+  },
+  modeGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: ModernTheme.spacing.sm,
+  },
+  modeButton: {
+    width: '48%',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    padding: ModernTheme.spacing.sm,
+    borderRadius: ModernTheme.borderRadius.md,
+    backgroundColor: ModernTheme.colors.background.tertiary,
+  },
+  modeButtonActive: {
+    backgroundColor: ModernTheme.colors.primary[500],
+  },
+  modeText: {
+    color: ModernTheme.colors.text.primary,
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  modeState: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: 12,
+  },
+  clearButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: ModernTheme.spacing.xs,
+    marginTop: ModernTheme.spacing.md,
+    padding: ModernTheme.spacing.sm,
+    borderRadius: ModernTheme.borderRadius.md,
+    backgroundColor: ModernTheme.colors.error[500],
+  },
+  heldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.xs,
+    paddingVertical: ModernTheme.spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: ModernTheme.colors.border.primary,
+  },
+  heldContent: {
+    flex: 1,
+  },
+  heldUser: {
+    color: ModernTheme.colors.text.primary,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  heldReason: {
+    color: ModernTheme.colors.text.secondary,
+    fontWeight: '400',
+  },
+  heldText: {
+    color: ModernTheme.colors.text.primary,
+    fontSize: 13,
+  },
+  heldButton: {
+    padding: 6,
+    borderRadius: ModernTheme.borderRadius.md,
+  },
+  approveButton: {
+    backgroundColor: ModernTheme.colors.success[500],
+  },
+  denyButton: {
+    backgroundColor: ModernTheme.colors.error[500],
+  },
+  logRow: {
+    color: ModernTheme.colors.text.primary,
+    fontSize: 12,
+    paddingVertical: 3,
+  },
+  logTime: {
+    color: ModernTheme.colors.text.tertiary,
+  },
+  logModerator: {
+    fontWeight: '600',
+  },
+  emptyText: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: ModernTheme.spacing.md,
+  },
+});
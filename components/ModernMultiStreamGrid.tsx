@@ -23,7 +23,7 @@ import {
   Monitor,
 } from 'lucide-react-native';
 import { useStreamManagerContext } from '@/contexts/StreamManagerContext';
-import { TwitchStream } from '@/services/twitchApi';
+import { Stream } from '@/types/stream';
 import { ModernTheme } from '@/theme/modernTheme';
 import { DirectTwitchPlayer } from './DirectTwitchPlayer';
 import Animated, {
@@ -170,7 +170,7 @@ export const ModernMultiStreamGrid: React.FC<ModernMultiStreamGridProps> = ({
   }));
 
   const renderStreamItem = useCallback(
-    (stream: TwitchStream | null, index: number) => {
+    (stream: Stream | null, index: number) => {
       if (!stream) {
         return renderEmptySlot(index);
       }
@@ -21,7 +21,7 @@ import {
   Check,
 } from 'lucide-react-native';
 import { MotiView, MotiText } from 'moti';
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   View,
   StyleSheet,
@@ -47,6 +47,7 @@ import Animated, {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '@/contexts/AuthContext';
 import { useStreamManagerContext } from '@/contexts/StreamManagerContext';
+import { usePlatformProviders } from '@/hooks/usePlatformProviders';
 import {
   discordService,
   sendStreamNotification,
@@ -60,20 +61,21 @@ import {
 import {
   platformService,
   UnifiedStream,
-  Platform,
   fetchAllLiveStreams,
   fetchStreamsByPlatform,
   searchAllPlatforms,
   fetchPlatformStats,
 } from '@/services/platformService';
+import { PlatformProvider } from '@/services/platformRegistry';
 import { socialService, getUserProfile, followStreamer } from '@/services/socialService';
+import { StreamPlatform } from '@/types/stream';
 import { BlurViewFallback as BlurView } from './BlurViewFallback';
 import { MultiPlatformStreamCard } from './MultiPlatformStreamCard';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
 interface FilterOptions {
-  platforms: Platform[];
+  platforms: StreamPlatform[];
   categories: string[];
   languages: string[];
   minViewers: number;
@@ -87,38 +89,31 @@ interface CategoryTab {
   name: string;
   icon: React.ReactNode;
   gradient: string[];
-  platforms: Platform[];
+  platforms: StreamPlatform[];
 }
 
-const platformTabs: CategoryTab[] = [
+// Tab styling for the built-in platforms; other providers use their brand color
+const platformTabStyles: Record<string, Pick<CategoryTab, 'icon' | 'gradient'>> = {
+  twitch: { icon: <Zap size={16} color="#fff" />, gradient: ['#9146FF', '#772CE8'] },
+  youtube: { icon: <TrendingUp size={16} color="#fff" />, gradient: ['#FF0000', '#CC0000'] },
+  kick: { icon: <Activity size={16} color="#fff" />, gradient: ['#53FC18', '#3FBF12'] },
+};
+
+const buildPlatformTabs = (providers: PlatformProvider[]): CategoryTab[] => [
   {
     id: 'all',
     name: 'All Platforms',
     icon: <Globe size={16} color="#fff" />,
     gradient: ['#8B5CF6', '#7C3AED'],
-    platforms: ['twitch', 'youtube', 'kick'],
-  },
-  {
-    id: 'twitch',
-    name: 'Twitch',
-    icon: <Zap size={16} color="#fff" />,
-    gradient: ['#9146FF', '#772CE8'],
-    platforms: ['twitch'],
-  },
-  {
-    id: 'youtube',
-    name: 'YouTube',
-    icon: <TrendingUp size={16} color="#fff" />,
-    gradient: ['#FF0000', '#CC0000'],
-    platforms: ['youtube'],
-  },
-  {
-    id: 'kick',
-    name: 'Kick',
-    icon: <Activity size={16} color="#fff" />,
-    gradient: ['#53FC18', '#3FBF12'],
-    platforms: ['kick'],
-  },
+    platforms: providers.map(provider => provider.id),
+  },
+  ...providers.map(provider => ({
+    id: provider.id,
+    name: provider.displayName,
+    icon: platformTabStyles[provider.id]?.icon || <Globe size={16} color="#fff" />,
+    gradient: platformTabStyles[provider.id]?.gradient || [provider.color, provider.color],
+    platforms: [provider.id],
+  })),
 ];
 
 const quickCategories = [
@@ -149,8 +144,11 @@ export const MultiPlatformDiscoveryScreen: React.FC = () => {
   const [followedStreamers, setFollowedStreamers] = useState<string[]>([]);
   const [totalStreamers, setTotalStreamers] = useState(0);
 
+  const discoveryProviders = usePlatformProviders('discovery');
+  const platformTabs = useMemo(() => buildPlatformTabs(discoveryProviders), [discoveryProviders]);
+
   const [filters, setFilters] = useState<FilterOptions>({
-    platforms: ['twitch', 'youtube', 'kick'],
+    platforms: discoveryProviders.map(provider => provider.id),
     categories: [],
     languages: [],
     minViewers: 0,
@@ -201,7 +199,7 @@ export const MultiPlatformDiscoveryScreen: React.FC = () => {
       } else if (selectedPlatform === 'all') {
         result = await fetchAllLiveStreams(20);
       } else {
-        result = await fetchStreamsByPlatform(selectedPlatform as Platform, 20);
+        result = await fetchStreamsByPlatform(selectedPlatform as StreamPlatform, 20);
       }
 
       // Apply filters
@@ -182,7 +182,7 @@ export const MultiStreamPerformanceOptimizer: React.FC<PerformanceOptimizerProps
         if (streamToRemove) {
           logDebug('Auto-removing stream for optimization', {
             streamId: streamToRemove.stream.id,
-            streamName: streamToRemove.stream.user_name,
+            streamName: streamToRemove.stream.displayName,
             health: streamToRemove.health,
           });
 
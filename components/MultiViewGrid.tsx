@@ -17,12 +17,11 @@ import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   StyleSheet,
-  Dimensions,
   TouchableOpacity,
   Text,
   Platform,
-  ScrollView,
   Alert,
+  LayoutChangeEvent,
 } from 'react-native';
 import Animated, {
   useSharedValue,
@@ -33,13 +32,13 @@ import Animated, {
 } from 'react-native-reanimated';
 import { WebView } from 'react-native-webview';
 import { useStreamManagerContext } from '@/contexts/StreamManagerContext';
-import { TwitchStream, twitchApi } from '@/services/twitchApi';
+import { twitchApi } from '@/services/twitchApi';
+import { Stream } from '@/types/stream';
+import { solvePreset, toLayoutPreset } from '@/utils/layoutEngine';
 import { BlurViewFallback as BlurView } from './BlurViewFallback';
 
-const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
-
 interface StreamCellProps {
-  stream: TwitchStream;
+  stream: Stream;
   width: number;
   height: number;
   onRemove: () => void;
@@ -101,7 +100,7 @@ const StreamCell: React.FC<StreamCellProps> = ({
   };
 
   // Generate clean Twitch embed HTML that prevents fullscreen
-  const embedUrl = `https://player.twitch.tv/?channel=${stream.user_login}&parent=localhost&muted=${isMuted}&autoplay=true&allowfullscreen=false&controls=true&time=0s`;
+  const embedUrl = `https://player.twitch.tv/?channel=${stream.username}&parent=localhost&muted=${isMuted}&autoplay=true&allowfullscreen=false&controls=true&time=0s`;
 
   const twitchEmbedHtml = `
     <!DOCTYPE html>
@@ -233,13 +232,13 @@ const StreamCell: React.FC<StreamCellProps> = ({
               <View style={styles.liveDot} />
               <Text style={styles.liveText}>LIVE</Text>
             </View>
-            <Text style={styles.viewerCount}>{(stream.viewer_count || 0).toLocaleString()}</Text>
+            <Text style={styles.viewerCount}>{(stream.viewerCount || 0).toLocaleString()}</Text>
           </View>
           <Text style={styles.streamTitle} numberOfLines={1}>
-            {stream.user_name}
+            {stream.displayName}
           </Text>
           <Text style={styles.streamGame} numberOfLines={1}>
-            {stream.game_name}
+            {stream.category}
           </Text>
         </LinearGradient>
 
@@ -280,57 +279,14 @@ export const MultiViewGrid: React.FC<MultiViewGridProps> = ({ layout = 'auto' })
   const { activeStreams, removeStream } = useStreamManagerContext();
   const [activeStreamId, setActiveStreamId] = useState<string | null>(null);
 
-  const getGridLayout = () => {
-    const streamCount = activeStreams.length;
-
-    if (layout !== 'auto') {
-      const size = parseInt(layout.charAt(0));
-      return { columns: size, rows: size };
-    }
+  const [gridSize, setGridSize] = useState({ width: 0, height: 0 });
 
-    // Auto layout based on stream count
-    if (streamCount <= 1) {
-      return { columns: 1, rows: 1 };
-    }
-    if (streamCount <= 4) {
-      return { columns: 2, rows: 2 };
-    }
-    if (streamCount <= 9) {
-      return { columns: 3, rows: 3 };
-    }
-    return { columns: 4, rows: 4 };
+  const handleGridLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setGridSize({ width, height });
   };
 
-  const { columns, rows } = getGridLayout();
-  const maxStreams = columns * rows;
-  const displayStreams = activeStreams.slice(0, maxStreams);
-
-  // Force massive stream dimensions - ignore calculated values for maximum size
-  const padding = 0; // No padding for absolute maximum space
-  const gap = 0; // No gap for absolute maximum space
-
-  // Force absolutely massive dimensions - streams must dominate the screen
-  let minCellWidth, minCellHeight;
-
-  if (columns === 2) {
-    // For 2x2 grid, make each stream take up nearly half the screen
-    minCellWidth = SCREEN_WIDTH / 2; // Exactly half screen width
-    minCellHeight = (SCREEN_HEIGHT - 150) / 2; // Nearly half screen height
-  } else if (columns === 1) {
-    // For single stream, take up most of the screen
-    minCellWidth = SCREEN_WIDTH - 20;
-    minCellHeight = SCREEN_HEIGHT - 200;
-  } else {
-    // For 3x3 or larger grids, still make them as large as possible
-    minCellWidth = (SCREEN_WIDTH - 20) / columns;
-    minCellHeight = (SCREEN_HEIGHT - 200) / rows;
-  }
-
-  // Force minimum huge sizes regardless of calculations
-  minCellWidth = Math.max(minCellWidth, SCREEN_WIDTH * 0.45); // At least 45% of screen width
-  minCellHeight = Math.max(minCellHeight, SCREEN_HEIGHT * 0.35); // At least 35% of screen height
-
-  if (displayStreams.length === 0) {
+  if (activeStreams.length === 0) {
     return (
       <View style={styles.emptyState}>
         <BlurView style={styles.emptyBlur} blurType="dark" blurAmount={20}>
@@ -344,53 +300,42 @@ export const MultiViewGrid: React.FC<MultiViewGridProps> = ({ layout = 'auto' })
     );
   }
 
-  // Create proper grid rows
-  const createGridRows = () => {
-    const rows = [];
-    for (let i = 0; i < displayStreams.length; i += columns) {
-      const rowStreams = displayStreams.slice(i, i + columns);
-      rows.push(rowStreams);
-    }
-    return rows;
-  };
-
-  const gridRows = createGridRows();
+  // Fixed grids show as many streams as they have cells; 'auto' fits them all.
+  // Tiles touch so the streams get all the space.
+  const tiles = solvePreset(
+    toLayoutPreset(layout),
+    activeStreams.map(stream => stream.id),
+    gridSize
+  );
 
   return (
-    <ScrollView
-      style={styles.container}
-      contentContainerStyle={styles.gridContainer}
-      showsVerticalScrollIndicator={false}
-    >
-      <View style={styles.grid}>
-        {gridRows.map((rowStreams, rowIndex) => (
-          <View key={rowIndex} style={styles.gridRow}>
-            {rowStreams.map((stream, columnIndex) => (
-              <View
-                key={stream.id}
-                style={[
-                  styles.cellWrapper,
-                  {
-                    width: minCellWidth,
-                    height: minCellHeight,
-                    marginRight: 0, // No gap for absolute maximum space
-                  },
-                ]}
-              >
-                <StreamCell
-                  stream={stream}
-                  width={minCellWidth}
-                  height={minCellHeight}
-                  onRemove={() => removeStream(stream.id)}
-                  isActive={activeStreamId === stream.id}
-                  onPress={() => setActiveStreamId(stream.id)}
-                />
-              </View>
-            ))}
+    <View style={styles.container} onLayout={handleGridLayout}>
+      {tiles.map(tile => {
+        const stream = activeStreams.find(candidate => candidate.id === tile.streamId);
+        if (!stream) {
+          return null;
+        }
+
+        return (
+          <View
+            key={stream.id}
+            style={[
+              styles.cellWrapper,
+              { left: tile.x, top: tile.y, width: tile.width, height: tile.height },
+            ]}
+          >
+            <StreamCell
+              stream={stream}
+              width={tile.width}
+              height={tile.height}
+              onRemove={() => removeStream(stream.id)}
+              isActive={activeStreamId === stream.id}
+              onPress={() => setActiveStreamId(stream.id)}
+            />
           </View>
-        ))}
-      </View>
-    </ScrollView>
+        );
+      })}
+    </View>
   );
 };
 
@@ -399,21 +344,8 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#0a0a0a',
   },
-  gridContainer: {
-    padding: 0, // No padding for absolute maximum space
-    paddingBottom: 100,
-  },
-  grid: {
-    flexDirection: 'column',
-    alignItems: 'center',
-  },
-  gridRow: {
-    flexDirection: 'row',
-    justifyContent: 'center',
-    marginBottom: 0, // No gap for absolute maximum space
-  },
   cellWrapper: {
-    // marginRight is handled dynamically in the component
+    position: 'absolute',
   },
   streamCell: {
     backgroundColor: '#1a1a1a',
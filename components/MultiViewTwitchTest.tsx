@@ -30,6 +30,7 @@ import {
   generateHealthReport,
   StreamPerformanceReport,
 } from '@/services/streamHealthMonitor';
+import { fromTwitchStream } from '@/services/streamAdapters';
 import { twitchApi, TwitchStream } from '@/services/twitchApi';
 import { ModernTheme } from '@/theme/modernTheme';
 import { logDebug, withErrorHandling } from '@/utils/errorHandler';
@@ -136,7 +137,7 @@ export const MultiViewTwitchTest: React.FC<TestSuiteProps> = ({ onTestComplete }
       }
 
       // Test adding a stream
-      const result = await addStream(testStreams[0]);
+      const result = await addStream(fromTwitchStream(testStreams[0]));
 
       if (!result.success) {
         return {
@@ -149,7 +150,7 @@ export const MultiViewTwitchTest: React.FC<TestSuiteProps> = ({ onTestComplete }
       // Test stream limit
       let limitReached = false;
       for (let i = 1; i < testStreams.length; i++) {
-        const addResult = await addStream(testStreams[i]);
+        const addResult = await addStream(fromTwitchStream(testStreams[i]));
         if (!addResult.success && addResult.message.includes('Maximum')) {
           limitReached = true;
           break;
@@ -222,7 +223,7 @@ export const MultiViewTwitchTest: React.FC<TestSuiteProps> = ({ onTestComplete }
       let successCount = 0;
 
       for (const stream of streamsToAdd) {
-        const result = await addStream(stream);
+        const result = await addStream(fromTwitchStream(stream));
         if (result.success) {
           successCount++;
           streamHealthMonitor.initializeStream(stream);
@@ -301,7 +302,7 @@ export const MultiViewTwitchTest: React.FC<TestSuiteProps> = ({ onTestComplete }
         is_mature: false,
       };
 
-      const result = await addStream(invalidStream);
+      const result = await addStream(fromTwitchStream(invalidStream));
       const handledCorrectly = !result.success;
 
       return {
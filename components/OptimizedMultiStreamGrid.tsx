@@ -10,6 +10,7 @@ import {
   Alert,
   Platform,
   LayoutAnimation,
+  LayoutChangeEvent,
   Pressable,
 } from 'react-native';
 import { BlurView } from 'expo-blur';
@@ -33,6 +34,13 @@ import {
   Users,
   Clock,
   Zap,
+  Link,
+  Link2,
+  MessageSquare,
+  PartyPopper,
+  Share2,
+  Headphones,
+  PictureInPicture2,
 } from 'lucide-react-native';
 import Animated, {
   useSharedValue,
@@ -55,25 +63,33 @@ import Animated, {
 } from 'react-native-reanimated';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useStreamManagerContext } from '@/contexts/StreamManagerContext';
-import { TwitchStream } from '@/services/twitchApi';
+import { useAudioPolicy } from '@/hooks/useAudioPolicy';
+import { usePictureInPicture } from '@/hooks/usePictureInPicture';
+import { useWatchParty } from '@/hooks/useWatchParty';
+import { audioPolicyService } from '@/services/audioPolicyService';
+import { ResolvedSharedLayout } from '@/services/layoutShareService';
+import { PictureInPictureAction } from '@/services/pictureInPictureService';
+import { RoomLayout } from '@/services/streamRoomsService';
+import { isSyncableVod } from '@/services/vodSyncService';
+import { Layout as SavedLayout } from '@/store/useAppStore';
+import { LayoutPreset, MultiviewLayout, SolvedTile } from '@/types/layout';
+import { Stream } from '@/types/stream';
 import { ModernTheme } from '@/theme/modernTheme';
+import { AddStreamUrlModal } from './AddStreamUrlModal';
+import { AudioPolicyPanel } from './AudioPolicyPanel';
+import { LayoutSharePanel } from './LayoutSharePanel';
+import { MergedChatPane } from './MergedChatPane';
 import { StreamPlayerCard } from './StreamPlayerCard';
+import { VodSyncPanel } from './VodSyncPanel';
+import { WatchPartyPanel } from './WatchPartyPanel';
 import { HapticFeedback } from '@/utils/haptics';
+import { assignStreams, createLayout, solveLayout, solvePreset } from '@/utils/layoutEngine';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
 type GridLayout = '1x1' | '2x2' | '3x3' | '2x1' | '1x2' | 'adaptive';
 type ViewMode = 'grid' | 'stack' | 'pip' | 'focus';
 
-interface GridDimensions {
-  columns: number;
-  rows: number;
-  cellWidth: number;
-  cellHeight: number;
-  gap: number;
-  padding: number;
-}
-
 interface OptimizedMultiStreamGridProps {
   maxStreams?: number;
   initialLayout?: GridLayout;
@@ -82,8 +98,24 @@ interface OptimizedMultiStreamGridProps {
   onViewModeChange?: (mode: ViewMode) => void;
   showControls?: boolean;
   enableGestures?: boolean;
+  /** Watch party to join, from an invite link */
+  partyCode?: string;
+  /** Shared layout to open, from a layout link */
+  layoutCode?: string;
 }
 
+const GRID_LAYOUTS: GridLayout[] = ['1x1', '2x2', '3x3', '2x1', '1x2', 'adaptive'];
+
+// View modes other than the grid have a preset of their own
+const VIEW_MODE_PRESETS: Record<Exclude<ViewMode, 'grid'>, LayoutPreset> = {
+  stack: 'stacked',
+  pip: 'pip',
+  focus: 'focus',
+};
+
+const isGridPreset = (preset: LayoutPreset): boolean =>
+  (GRID_LAYOUTS as string[]).includes(preset) || Object.values(VIEW_MODE_PRESETS).includes(preset);
+
 const AnimatedTouchableOpacity = Animated.createAnimatedComponent(TouchableOpacity);
 
 export const OptimizedMultiStreamGrid: React.FC<OptimizedMultiStreamGridProps> = React.memo(
@@ -95,22 +127,250 @@ export const OptimizedMultiStreamGrid: React.FC<OptimizedMultiStreamGridProps> =
     onViewModeChange,
     showControls = true,
     enableGestures = true,
+    partyCode,
+    layoutCode,
   }) => {
-    const { activeStreams, removeStream, clearAllStreams } = useStreamManagerContext();
+    const { activeStreams, removeStream, clearAllStreams, replaceStreams } =
+      useStreamManagerContext();
 
   // Debug logging for grid component
   useEffect(() => {
-    console.log('📺 GRID COMPONENT - Active streams changed:', activeStreams.length, 'streams:', activeStreams.map(s => s.user_name));
+    console.log('📺 GRID COMPONENT - Active streams changed:', activeStreams.length, 'streams:', activeStreams.map(s => s.displayName));
   }, [activeStreams]);
     const insets = useSafeAreaInsets();
 
 
   const [layout, setLayout] = useState<GridLayout>(initialLayout);
     const [viewMode, setViewMode] = useState<ViewMode>(initialViewMode);
-    const [activeStreamId, setActiveStreamId] = useState<string | null>(null);
+    // Audio focus; the policy decides what every other tile plays at
+    const audio = useAudioPolicy(activeStreams);
+    const activeStreamId = audio.focusedStreamId;
+    const setActiveStreamId = audio.focus;
     const [globalMute, setGlobalMute] = useState(true);
     const [controlsVisible, setControlsVisible] = useState(showControls);
     const [isLandscape, setIsLandscape] = useState(false);
+    const [showAddUrl, setShowAddUrl] = useState(false);
+    const [showChat, setShowChat] = useState(false);
+    const [showVodSync, setShowVodSync] = useState(false);
+    const [showParty, setShowParty] = useState(false);
+    const [showLayoutShare, setShowLayoutShare] = useState(false);
+    const [showAudio, setShowAudio] = useState(false);
+    // Imported once; reopening the panel shouldn't open the link again
+    const [pendingLayoutCode, setPendingLayoutCode] = useState<string>();
+    // A shared layout none of the grid's presets can show, solved tile by tile
+    const [importedLayout, setImportedLayout] = useState<MultiviewLayout | null>(null);
+    // It holds its streams until more are open than it has tiles
+    const customLayout = useMemo(() => {
+      if (!importedLayout || activeStreams.length > importedLayout.tiles.length) {
+        return null;
+      }
+      return assignStreams(
+        importedLayout,
+        activeStreams.map(stream => stream.id)
+      );
+    }, [importedLayout, activeStreams]);
+    // Sync mode needs at least two past broadcasts to line up
+    const canSyncVods = useMemo(
+      () => activeStreams.filter(isSyncableVod).length >= 2,
+      [activeStreams]
+    );
+
+    // In a watch party the grid follows the host's layout; mute stays personal
+    const handlePartyLayout = useCallback(
+      (partyLayout: RoomLayout) => {
+        LayoutAnimation.configureNext({
+          duration: 250,
+          update: { type: 'easeInEaseOut' },
+        });
+        setImportedLayout(null);
+        setLayout(partyLayout.gridLayout);
+        setViewMode(partyLayout.viewMode);
+        setActiveStreamId(partyLayout.audioFocusStreamId);
+        onLayoutChange?.(partyLayout.gridLayout);
+        onViewModeChange?.(partyLayout.viewMode);
+      },
+      [onLayoutChange, onViewModeChange, setActiveStreamId]
+    );
+    const party = useWatchParty({
+      grid: { gridLayout: layout, viewMode, audioFocusStreamId: activeStreamId },
+      onLayoutApplied: handlePartyLayout,
+    });
+
+    useEffect(() => {
+      if (partyCode) {
+        setShowParty(true);
+      }
+    }, [partyCode]);
+
+    // Each invite is joined once, as soon as parties are available; leaving
+    // the party afterwards shouldn't join it again
+    const joinedPartyCodeRef = useRef<string | null>(null);
+    const { isAvailable: partyAvailable, join: joinParty } = party;
+    const partyRoomId = party.room?.id;
+    useEffect(() => {
+      if (!partyCode || !partyAvailable || joinedPartyCodeRef.current === partyCode) {
+        return;
+      }
+      joinedPartyCodeRef.current = partyCode;
+      if (partyRoomId !== partyCode) {
+        joinParty(partyCode);
+      }
+    }, [partyCode, partyAvailable, partyRoomId, joinParty]);
+
+    // A layout link opens the share panel, which imports it
+    useEffect(() => {
+      if (layoutCode) {
+        setPendingLayoutCode(layoutCode);
+        setShowLayoutShare(true);
+      }
+    }, [layoutCode]);
+
+    // Shared and saved layouts both come down to a preset, streams and a focus
+    const applyLayout = useCallback(
+      (preset: LayoutPreset, streams: Stream[], audioFocusStreamId: string | null) => {
+        let nextLayout: GridLayout = 'adaptive';
+        let nextViewMode: ViewMode = 'grid';
+        const viewModeEntry = Object.entries(VIEW_MODE_PRESETS).find(
+          ([, viewModePreset]) => viewModePreset === preset
+        );
+        if (viewModeEntry) {
+          nextViewMode = viewModeEntry[0] as ViewMode;
+        } else if ((GRID_LAYOUTS as string[]).includes(preset)) {
+          nextLayout = preset as GridLayout;
+        }
+
+        LayoutAnimation.configureNext({
+          duration: 250,
+          update: { type: 'easeInEaseOut' },
+        });
+        replaceStreams(streams);
+        setImportedLayout(null);
+        setLayout(nextLayout);
+        setViewMode(nextViewMode);
+        setActiveStreamId(audioFocusStreamId);
+        onLayoutChange?.(nextLayout);
+        onViewModeChange?.(nextViewMode);
+      },
+      [replaceStreams, onLayoutChange, onViewModeChange, setActiveStreamId]
+    );
+
+    const handleSharedLayout = useCallback(
+      ({ layout: shared, multiview, streams, audioFocusStreamId }: ResolvedSharedLayout) => {
+        setPendingLayoutCode(undefined);
+        if (shared.audio) {
+          audioPolicyService.setPolicy({ ...audioPolicyService.getPolicy(), ...shared.audio });
+        }
+        if (isGridPreset(shared.preset)) {
+          applyLayout(shared.preset, streams, audioFocusStreamId);
+        } else {
+          // Custom and mosaic layouts keep the rects they were shared with
+          applyLayout('adaptive', streams, audioFocusStreamId);
+          setImportedLayout(multiview);
+        }
+        console.log('✅ Shared layout opened:', shared.name || shared.preset, streams.length);
+      },
+      [applyLayout]
+    );
+
+    const handleSavedLayout = useCallback(
+      (saved: SavedLayout) => {
+        const streams = saved.streams.slice(0, maxStreams);
+        let preset: LayoutPreset = saved.preset || 'adaptive';
+        if (!saved.preset && saved.gridType !== 'grid') {
+          preset = saved.gridType;
+        }
+        if (saved.audio) {
+          // Saved volumes win for the layout's streams; others keep theirs
+          const current = audioPolicyService.getPolicy();
+          audioPolicyService.setPolicy({
+            ...saved.audio,
+            volumes: { ...current.volumes, ...saved.audio.volumes },
+          });
+        }
+        let focusId: string | null = null;
+        if (streams.some(stream => stream.id === saved.audioFocusStreamId)) {
+          focusId = saved.audioFocusStreamId!;
+        }
+        applyLayout(preset, streams, focusId);
+        console.log('✅ Saved layout opened:', saved.name, streams.length);
+      },
+      [applyLayout, maxStreams]
+    );
+
+    // Single and focus modes play one tile; in mix mode each tile mutes itself
+    const handleTileMuteToggle = useCallback(
+      (stream: Stream) => {
+        if (audio.policy.mode === 'mix') {
+          const volume = audioPolicyService.getTileVolume(stream.id);
+          if (globalMute) {
+            setGlobalMute(false);
+            if (volume === 0) {
+              audioPolicyService.setTileVolume(stream.id, 1);
+            }
+          } else {
+            audioPolicyService.setTileVolume(stream.id, volume > 0 ? 0 : 1);
+          }
+        } else if (activeStreamId === stream.id) {
+          setGlobalMute(!globalMute);
+        } else {
+          setActiveStreamId(stream.id);
+          setGlobalMute(false);
+        }
+        HapticFeedback.light();
+      },
+      [audio.policy.mode, activeStreamId, globalMute, setActiveStreamId]
+    );
+
+    // Actions from the system PiP window: its buttons and, on web, its tiles
+    const handlePipAction = useCallback(
+      (action: PictureInPictureAction) => {
+        if (action.type === 'mute') {
+          setGlobalMute(prev => !prev);
+          return;
+        }
+        if (activeStreams.length === 0) {
+          return;
+        }
+        if (action.type === 'focus') {
+          setActiveStreamId(action.streamId);
+          return;
+        }
+        const index = activeStreams.findIndex(stream => stream.id === activeStreamId);
+        setActiveStreamId(activeStreams[(index + 1) % activeStreams.length].id);
+      },
+      [activeStreams, activeStreamId, setActiveStreamId]
+    );
+
+    const pip = usePictureInPicture({
+      streams: activeStreams,
+      focusedStreamId: activeStreamId,
+      muted: globalMute,
+      onAction: handlePipAction,
+    });
+    // The Android PiP window shows the whole activity, so only the tiles stay
+    const isSystemPip = pip.mode === 'android';
+    // The Document PiP window and AVPlayer play the streams themselves, so the
+    // grid's copies stay quiet until PiP closes
+    const isPipPlayingElsewhere = pip.isActive && !isSystemPip;
+
+    const handleTogglePip = useCallback(() => {
+      if (pip.mode !== 'none') {
+        pip.exit();
+        return;
+      }
+      pip.enter().catch(error => {
+        Alert.alert('Picture in Picture', error.message);
+      });
+    }, [pip.mode, pip.enter, pip.exit]);
+
+    const getTileAudioProps = (stream: Stream) => {
+      const tile = audio.getTileAudio(stream.id);
+      return {
+        isActive: tile.hasFocus,
+        isMuted: globalMute || tile.muted || isPipPlayingElsewhere,
+        volume: tile.volume,
+      };
+    };
 
   // Animation values
     const gridScale = useSharedValue(1);
@@ -154,141 +414,72 @@ export const OptimizedMultiStreamGrid: React.FC<OptimizedMultiStreamGridProps> =
       return () => subscription?.remove();
     }, []);
 
-    // Optimized grid dimension calculations with orientation awareness
-    const gridDimensions = useMemo((): GridDimensions => {
-      const streamCount = activeStreams.length;
-      const availableWidth = SCREEN_WIDTH;
-      const headerHeight = controlsVisible ? (isLandscape ? 80 : 120) : 60;
-      const bottomTabHeight = 100; // Tab bar space
-      const availableHeight =
-        SCREEN_HEIGHT - headerHeight - bottomTabHeight - insets.top - insets.bottom;
-
-    // Responsive padding and gap based on screen size
-      const padding = SCREEN_WIDTH < 400 ? 4 : 8; // More padding on larger screens
-      const gap = SCREEN_WIDTH < 400 ? 2 : 4; // Smaller gap on small screens
-
-    const containerWidth = availableWidth - (padding * 2);
-      const containerHeight = availableHeight - padding * 2;
-
-      let columns = 1;
-      let rows = 1;
-
-      // Intelligent layout selection
-      if (layout === 'adaptive') {
-        if (streamCount <= 1) {
-          columns = 1;
-          rows = 1;
-        } else if (streamCount <= 2) {
-          columns = isLandscape ? 2 : 1;
-          rows = isLandscape ? 1 : 2;
-        } else if (streamCount <= 4) {
-          columns = 2;
-          rows = 2;
-        } else if (streamCount <= 6) {
-          columns = isLandscape ? 3 : 2;
-          rows = isLandscape ? 2 : 3;
-        } else {
-          columns = 3;
-          rows = 3;
-        }
-      } else {
-        // Fixed layouts
-        switch (layout) {
-          case '1x1':
-            columns = 1;
-            rows = 1;
-            break;
-          case '2x1':
-            columns = 2;
-            rows = 1;
-            break;
-          case '1x2':
-            columns = 1;
-            rows = 2;
-            break;
-          case '2x2':
-            columns = 2;
-            rows = 2;
-            break;
-          case '3x3':
-            columns = 3;
-            rows = 3;
-            break;
-        }
-      }
-
-      // Calculate cell dimensions properly accounting for gaps
-      let cellWidth = (containerWidth - gap * (columns - 1)) / columns;
-      let cellHeight = (containerHeight - gap * (rows - 1)) / rows;
-
-    // Ensure cells don't exceed reasonable bounds for responsive design
-      const maxCellWidth = containerWidth / columns - gap;
-      const maxCellHeight = containerHeight / rows - gap;
-
-    cellWidth = Math.min(cellWidth, maxCellWidth);
-      cellHeight = Math.min(cellHeight, maxCellHeight);
-
-    // For 2x2 grid, ensure cells are properly sized for side-by-side display
-      if (columns === 2 && rows === 2) {
-        // Calculate available width after padding
-        const paddingHorizontal = SCREEN_WIDTH < 400 ? 4 : 8;
-        const availableWidth = SCREEN_WIDTH - paddingHorizontal * 2;
+    // Size of the content area; the estimate only covers the first frame
+    // before onLayout reports the real one
+    const [contentSize, setContentSize] = useState(() => ({
+      width: SCREEN_WIDTH,
+      height: SCREEN_HEIGHT - 220 - insets.top - insets.bottom,
+    }));
+    const gridPadding = contentSize.width < 400 ? 4 : 8;
+    const gridGap = contentSize.width < 400 ? 2 : 4;
 
-      // Force exact calculation for 2x2 layout: (available width - gap between columns) / 2
-        cellWidth = Math.floor((availableWidth - gap) / 2);
-        // For 2x2, also ensure height accounts for gap between rows
-        cellHeight = Math.floor((containerHeight - gap) / 2);
+    const handleContentLayout = useCallback((event: LayoutChangeEvent) => {
+      const { width, height } = event.nativeEvent.layout;
+      setContentSize(current =>
+        current.width === width && current.height === height ? current : { width, height }
+      );
+    }, []);
 
-      // Ensure minimum viable size but don't exceed calculated size
-        const minSize = 100;
-        cellWidth = Math.max(cellWidth, minSize);
-        cellHeight = Math.max(cellHeight, minSize);
+    // The grid as a layout for sharing; the focused stream leads in pip and focus
+    const sharedGridLayout = useMemo(() => {
+      if (customLayout) {
+        return customLayout;
       }
-
-      return {
-        columns,
-        rows,
-        cellWidth: Math.floor(cellWidth),
-        cellHeight: Math.floor(cellHeight),
-        gap,
-        padding,
-      };
-    }, [activeStreams.length, layout, controlsVisible, isLandscape]);
+      const preset = viewMode === 'grid' ? layout : VIEW_MODE_PRESETS[viewMode];
+      const focused = activeStreams.find(stream => stream.id === activeStreamId);
+      let ordered = activeStreams;
+      if (focused && (preset === 'pip' || preset === 'focus')) {
+        ordered = [focused, ...activeStreams.filter(stream => stream !== focused)];
+      }
+      return createLayout(
+        preset,
+        ordered.map(stream => stream.id),
+        { container: contentSize }
+      );
+    }, [customLayout, layout, viewMode, activeStreams, activeStreamId, contentSize]);
 
     // Layout handlers with optimized animations
     const handleLayoutChange = useCallback(
       (newLayout: GridLayout) => {
-        if (newLayout === layout) {return;}
-
-    HapticFeedback.medium();
+        if (newLayout === layout && !importedLayout) {
+          return;
+        }
 
-    // Simplified layout animation
+        HapticFeedback.medium();
         LayoutAnimation.configureNext({
           duration: 250,
           update: { type: 'easeInEaseOut' },
         });
-
-
-    setLayout(newLayout);
+        setImportedLayout(null);
+        setLayout(newLayout);
         onLayoutChange?.(newLayout);
       },
-      [layout, onLayoutChange]
+      [layout, importedLayout, onLayoutChange]
     );
 
     const handleViewModeChange = useCallback(
       (newMode: ViewMode) => {
-        if (newMode === viewMode) return;
-
-
-    HapticFeedback.light();
+        if (newMode === viewMode) {
+          return;
+        }
 
-    // Simplified view mode animation
+        HapticFeedback.light();
         LayoutAnimation.configureNext({
           duration: 200,
           update: { type: 'easeInEaseOut' },
         });
-
-    setViewMode(newMode);
+        setImportedLayout(null);
+        setViewMode(newMode);
         onViewModeChange?.(newMode);
       },
       [viewMode, onViewModeChange]
@@ -296,10 +487,11 @@ export const OptimizedMultiStreamGrid: React.FC<OptimizedMultiStreamGridProps> =
 
     // Stream interaction handlers
     const handleStreamPress = useCallback(
-      (stream: TwitchStream) => {
+      (stream: Stream) => {
         HapticFeedback.light();
 
-    if (viewMode === 'focus' || viewMode === 'pip') {
+        // Tapping moves the audio, except in mix mode where every tile keeps its own
+        if (viewMode === 'focus' || viewMode === 'pip' || audio.policy.mode !== 'mix') {
           setActiveStreamId(stream.id);
           if (globalMute) {
             setGlobalMute(false);
@@ -307,17 +499,17 @@ export const OptimizedMultiStreamGrid: React.FC<OptimizedMultiStreamGridProps> =
           }
         }
       },
-      [viewMode, globalMute]
+      [viewMode, globalMute, audio.policy.mode, setActiveStreamId]
     );
 
     const handleStreamLongPress = useCallback(
-      (stream: TwitchStream) => {
+      (stream: Stream) => {
         HapticFeedback.medium();
 
 
     Alert.alert(
       'Stream Options',
-      `${stream.user_name}\n${stream.title}`,
+      `${stream.displayName}\n${stream.title}`,
       [
           {
             text: 'Set as Main',
@@ -444,19 +636,19 @@ export const OptimizedMultiStreamGrid: React.FC<OptimizedMultiStreamGridProps> =
                 <View style={styles.controlRow}>
                   <ControlButton
                     onPress={() => handleLayoutChange('adaptive')}
-                    active={layout === 'adaptive'}
+                    active={!customLayout && layout === 'adaptive'}
                     icon={Square}
                     label="Auto"
                   />
                   <ControlButton
                     onPress={() => handleLayoutChange('2x2')}
-                    active={layout === '2x2'}
+                    active={!customLayout && layout === '2x2'}
                     icon={Grid2X2}
                     label="2×2"
                   />
                   <ControlButton
                     onPress={() => handleLayoutChange('3x3')}
-                    active={layout === '3x3'}
+                    active={!customLayout && layout === '3x3'}
                     icon={Grid3X3}
                     label="3×3"
                   />
@@ -464,7 +656,7 @@ export const OptimizedMultiStreamGrid: React.FC<OptimizedMultiStreamGridProps> =
                     <>
                       <ControlButton
                         onPress={() => handleLayoutChange('2x1')}
-                        active={layout === '2x1'}
+                        active={!customLayout && layout === '2x1'}
                         icon={Minimize2}
                         label="2×1"
                       />
@@ -546,202 +738,76 @@ export const OptimizedMultiStreamGrid: React.FC<OptimizedMultiStreamGridProps> =
       }
     };
 
-    const renderGridView = (streams: TwitchStream[]) => {
-      // Special handling for 2x2 grid to ensure side-by-side layout
-      if (layout === '2x2' && gridDimensions.columns === 2) {
-        const paddingHorizontal = SCREEN_WIDTH < 400 ? 4 : 8;
-        const availableWidth = SCREEN_WIDTH - paddingHorizontal * 2;
-        const gap = gridDimensions.gap;
-        // Calculate cell width to ensure two cells fit side-by-side
-        const cellWidth = Math.floor((availableWidth - gap) / 2);
-
-      // Create rows explicitly for 2x2 layout
-        const topRow = streams.slice(0, 2);
-        const bottomRow = streams.slice(2, 4);
-
-
-      return (
-          <Animated.View
-            style={[
-              gridAnimatedStyle,
-              {
-                paddingHorizontal,
-                width: SCREEN_WIDTH,
-              },
-            ]}
-          >
-            {/* Top Row */}
-            <View
-              style={{
-                flexDirection: 'row',
-                justifyContent: 'space-between',
-                marginBottom: gap,
-              }}
-            >
-              {topRow.map((stream, index) => (
-                <Animated.View
-                  key={stream.id}
-                  layout={Layout.springify()}
-                  entering={FadeIn.delay(index * 50)}
-                  exiting={FadeOut}
-                  style={[
-                    styles.streamCell,
-                    {
-                      width: cellWidth,
-                      height: gridDimensions.cellHeight,
-                    },
-                  ]}
-                >
-                  <StreamPlayerCard
-                    stream={stream}
-                    width={cellWidth}
-                    height={gridDimensions.cellHeight}
-                    isActive={activeStreamId === stream.id}
-                    isMuted={globalMute || activeStreamId !== stream.id}
-                    onPress={() => handleStreamPress(stream)}
-                    onLongPress={() => handleStreamLongPress(stream)}
-                    onRemove={() => removeStream(stream.id)}
-                    onMuteToggle={() => {
-                      // If this is the active stream, toggle global mute
-                      if (activeStreamId === stream.id) {
-                        setGlobalMute(!globalMute);
-                      } else {
-                        // Make this stream active and unmute
-                        setActiveStreamId(stream.id);
-                        setGlobalMute(false);
-                      }
-                      HapticFeedback.light();
-                    }}
-                    showQuality
-                    showViewers
-                    compact={cellWidth < 200}
-                  />
-                </Animated.View>
-              ))}
-            </View>
-
-          {/* Bottom Row */}
-            {bottomRow.length > 0 && (
-              <View
-                style={{
-                  flexDirection: 'row',
-                  justifyContent: 'space-between',
-                }}
-              >
-                {bottomRow.map((stream, index) => (
-                  <Animated.View
-                    key={stream.id}
-                    layout={Layout.springify()}
-                    entering={FadeIn.delay((index + 2) * 50)}
-                    exiting={FadeOut}
-                    style={[
-                      styles.streamCell,
-                      {
-                        width: cellWidth,
-                        height: gridDimensions.cellHeight,
-                      },
-                    ]}
-                  >
-                    <StreamPlayerCard
-                      stream={stream}
-                      width={cellWidth}
-                      height={gridDimensions.cellHeight}
-                      isActive={activeStreamId === stream.id}
-                      isMuted={globalMute || activeStreamId !== stream.id}
-                      onPress={() => handleStreamPress(stream)}
-                      onLongPress={() => handleStreamLongPress(stream)}
-                      onRemove={() => removeStream(stream.id)}
-                      showQuality
-                      showViewers
-                      compact={cellWidth < 200}
-                    />
-                  </Animated.View>
-                ))}
-              </View>
-            )}
-          </Animated.View>
+    // Tiles come from the shared layout engine, solved for the measured
+    // content area, so the same layout fits phones, tablets and desktop windows
+    const renderGridView = (streams: Stream[]) => {
+      const container = {
+        width: contentSize.width - gridPadding * 2,
+        // styles.content pads 2 vertically
+        height: contentSize.height - 4,
+        gap: gridGap,
+      };
+      const streamsById = new Map(streams.map(stream => [stream.id, stream]));
+      let tiles: SolvedTile[];
+      if (customLayout) {
+        tiles = solveLayout(customLayout, container);
+      } else {
+        tiles = solvePreset(
+          layout,
+          streams.map(stream => stream.id),
+          container
         );
       }
 
-      // Default grid layout for other configurations - organize into proper rows
-      const rows = [];
-      for (let i = 0; i < streams.length; i += gridDimensions.columns) {
-        rows.push(streams.slice(i, i + gridDimensions.columns));
-      }
-
-
-    return (
+      return (
         <Animated.View
-          style={[
-            gridAnimatedStyle,
-            {
-              paddingHorizontal: gridDimensions.padding,
-              width: SCREEN_WIDTH,
-            },
-          ]}
+          style={[gridAnimatedStyle, { width: container.width, height: container.height }]}
         >
-          {rows.map((rowStreams, rowIndex) => (
-            <View
-              key={`row-${rowIndex}`}
-              style={{
-                flexDirection: 'row',
-                justifyContent:
-                  rowStreams.length < gridDimensions.columns ? 'flex-start' : 'space-between',
-                marginBottom: rowIndex < rows.length - 1 ? gridDimensions.gap : 0,
-              }}
-            >
-              {rowStreams.map((stream, colIndex) => (
-                <Animated.View
-                  key={stream.id}
-                  layout={Layout.springify()}
-                  entering={FadeIn.delay((rowIndex * gridDimensions.columns + colIndex) * 50)}
-                  exiting={FadeOut}
-                  style={[
-                    styles.streamCell,
-                    {
-                      width: gridDimensions.cellWidth,
-                      height: gridDimensions.cellHeight,
-                      marginRight:
-                        colIndex < rowStreams.length - 1 &&
-                        rowStreams.length === gridDimensions.columns
-                          ? gridDimensions.gap
-                          : 0,
-                    },
-                  ]}
-                >
-                  <StreamPlayerCard
-                    stream={stream}
-                    width={gridDimensions.cellWidth}
-                    height={gridDimensions.cellHeight}
-                    isActive={activeStreamId === stream.id}
-                    isMuted={globalMute || activeStreamId !== stream.id}
-                    onPress={() => handleStreamPress(stream)}
-                    onLongPress={() => handleStreamLongPress(stream)}
-                    onRemove={() => removeStream(stream.id)}
-                    onMuteToggle={() => {
-                      // If this is the active stream, toggle global mute
-                      if (activeStreamId === stream.id) {
-                        setGlobalMute(!globalMute);
-                      } else {
-                        // Make this stream active and unmute
-                        setActiveStreamId(stream.id);
-                        setGlobalMute(false);
-                      }
-                      HapticFeedback.light();
-                    }}
-                    showQuality
-                    showViewers
-                    compact={gridDimensions.cellWidth < 200}
-                  />
-                </Animated.View>
-              ))}
-            </View>
-          ))}
+          {tiles.map((tile, index) => {
+            const stream = tile.streamId && streamsById.get(tile.streamId);
+            if (!stream) {
+              return null;
+            }
+
+            return (
+              <Animated.View
+                key={stream.id}
+                layout={Layout.springify()}
+                entering={FadeIn.delay(index * 50)}
+                exiting={FadeOut}
+                style={[
+                  styles.streamCell,
+                  styles.gridTile,
+                  {
+                    left: tile.x,
+                    top: tile.y,
+                    width: tile.width,
+                    height: tile.height,
+                    zIndex: tile.zIndex,
+                  },
+                ]}
+              >
+                <StreamPlayerCard
+                  stream={stream}
+                  width={tile.width}
+                  height={tile.height}
+                  {...getTileAudioProps(stream)}
+                  onPress={() => handleStreamPress(stream)}
+                  onLongPress={() => handleStreamLongPress(stream)}
+                  onRemove={() => removeStream(stream.id)}
+                  onMuteToggle={() => handleTileMuteToggle(stream)}
+                  showQuality
+                  showViewers
+                  compact={tile.width < 200}
+                />
+              </Animated.View>
+            );
+          })}
         </Animated.View>
       );
     };
 
-    const renderStackView = (streams: TwitchStream[]) => (
+    const renderStackView = (streams: Stream[]) => (
       <ScrollView
         style={styles.stackContainer}
         showsVerticalScrollIndicator={false}
@@ -761,22 +827,11 @@ export const OptimizedMultiStreamGrid: React.FC<OptimizedMultiStreamGridProps> =
               stream={stream}
               width={SCREEN_WIDTH - ModernTheme.spacing.md * 2}
               height={Math.floor((SCREEN_WIDTH - ModernTheme.spacing.md * 2) / 1.6)}
-              isActive={activeStreamId === stream.id}
-              isMuted={globalMute || activeStreamId !== stream.id}
+              {...getTileAudioProps(stream)}
               onPress={() => handleStreamPress(stream)}
               onLongPress={() => handleStreamLongPress(stream)}
               onRemove={() => removeStream(stream.id)}
-              onMuteToggle={() => {
-                // If this is the active stream, toggle global mute
-                if (activeStreamId === stream.id) {
-                  setGlobalMute(!globalMute);
-                } else {
-                  // Make this stream active and unmute
-                  setActiveStreamId(stream.id);
-                  setGlobalMute(false);
-                }
-                HapticFeedback.light();
-              }}
+              onMuteToggle={() => handleTileMuteToggle(stream)}
               showQuality
               showViewers
               expanded
@@ -786,7 +841,7 @@ export const OptimizedMultiStreamGrid: React.FC<OptimizedMultiStreamGridProps> =
       </ScrollView>
     );
 
-    const renderPiPView = (streams: TwitchStream[]) => {
+    const renderPiPView = (streams: Stream[]) => {
       const mainStream = streams.find(s => s.id === activeStreamId) || streams[0];
       const secondaryStreams = streams.filter(s => s.id !== mainStream?.id);
 
@@ -799,15 +854,11 @@ export const OptimizedMultiStreamGrid: React.FC<OptimizedMultiStreamGridProps> =
                 stream={mainStream}
                 width={SCREEN_WIDTH - ModernTheme.spacing.md * 2}
                 height={Math.floor((SCREEN_WIDTH - ModernTheme.spacing.md * 2) * 0.6)}
-                isActive
-                isMuted={globalMute}
+                {...getTileAudioProps(mainStream)}
                 onPress={() => handleStreamPress(mainStream)}
                 onLongPress={() => handleStreamLongPress(mainStream)}
                 onRemove={() => removeStream(mainStream.id)}
-                onMuteToggle={() => {
-                  setGlobalMute(!globalMute);
-                  HapticFeedback.light();
-                }}
+                onMuteToggle={() => handleTileMuteToggle(mainStream)}
                 showQuality
                 showViewers
                 expanded
@@ -855,17 +906,11 @@ export const OptimizedMultiStreamGrid: React.FC<OptimizedMultiStreamGridProps> =
                       stream={stream}
                       width={streamWidth}
                       height={streamHeight}
-                      isActive={false}
-                      isMuted
+                      {...getTileAudioProps(stream)}
                       onPress={() => setActiveStreamId(stream.id)}
                       onLongPress={() => handleStreamLongPress(stream)}
                       onRemove={() => removeStream(stream.id)}
-                      onMuteToggle={() => {
-                        // Make this stream active and unmute
-                        setActiveStreamId(stream.id);
-                        setGlobalMute(false);
-                        HapticFeedback.light();
-                      }}
+                      onMuteToggle={() => handleTileMuteToggle(stream)}
                       compact
                     />
                   </Animated.View>
@@ -877,7 +922,7 @@ export const OptimizedMultiStreamGrid: React.FC<OptimizedMultiStreamGridProps> =
       );
     };
 
-    const renderFocusView = (streams: TwitchStream[]) => {
+    const renderFocusView = (streams: Stream[]) => {
       const focusedStream = streams.find(s => s.id === activeStreamId) || streams[0];
       const otherStreams = streams.filter(s => s.id !== focusedStream?.id);
 
@@ -890,15 +935,11 @@ export const OptimizedMultiStreamGrid: React.FC<OptimizedMultiStreamGridProps> =
                 stream={focusedStream}
                 width={SCREEN_WIDTH - ModernTheme.spacing.md * 2}
                 height={Math.floor((SCREEN_WIDTH - ModernTheme.spacing.md * 2) * 0.56)}
-                isActive
-                isMuted={globalMute}
+                {...getTileAudioProps(focusedStream)}
                 onPress={() => handleStreamPress(focusedStream)}
                 onLongPress={() => handleStreamLongPress(focusedStream)}
                 onRemove={() => removeStream(focusedStream.id)}
-                onMuteToggle={() => {
-                  setGlobalMute(!globalMute);
-                  HapticFeedback.light();
-                }}
+                onMuteToggle={() => handleTileMuteToggle(focusedStream)}
                 showQuality
                 showViewers
                 expanded
@@ -929,17 +970,11 @@ export const OptimizedMultiStreamGrid: React.FC<OptimizedMultiStreamGridProps> =
                       stream={stream}
                       width={100}
                       height={56}
-                      isActive={false}
-                      isMuted
+                      {...getTileAudioProps(stream)}
                       onPress={() => setActiveStreamId(stream.id)}
                       onLongPress={() => handleStreamLongPress(stream)}
                       onRemove={() => removeStream(stream.id)}
-                      onMuteToggle={() => {
-                        // Make this stream active and unmute
-                        setActiveStreamId(stream.id);
-                        setGlobalMute(false);
-                        HapticFeedback.light();
-                      }}
+                      onMuteToggle={() => handleTileMuteToggle(stream)}
                       compact
                     />
                   </Animated.View>
@@ -951,6 +986,16 @@ export const OptimizedMultiStreamGrid: React.FC<OptimizedMultiStreamGridProps> =
       );
     };
 
+    if (isSystemPip) {
+      return (
+        <View style={styles.container}>
+          <View style={styles.content} onLayout={handleContentLayout}>
+            {renderContent()}
+          </View>
+        </View>
+      );
+    }
+
     return (
       <View style={styles.container}>
         {/* Header */}
@@ -991,6 +1036,94 @@ export const OptimizedMultiStreamGrid: React.FC<OptimizedMultiStreamGridProps> =
                 </TouchableOpacity>
               )}
 
+              <TouchableOpacity style={styles.headerButton} onPress={() => setShowAddUrl(true)}>
+                <LinearGradient colors={['#0ea5e9', '#0284c7']} style={styles.headerButtonGradient}>
+                  <Link size={20} color="#fff" />
+                </LinearGradient>
+              </TouchableOpacity>
+
+              {activeStreams.length > 0 && (
+                <TouchableOpacity
+                  style={styles.headerButton}
+                  onPress={() => setShowChat(prev => !prev)}
+                >
+                  <LinearGradient
+                    colors={showChat ? ['#10b981', '#059669'] : ['#64748b', '#475569']}
+                    style={styles.headerButtonGradient}
+                  >
+                    <MessageSquare size={20} color="#fff" />
+                  </LinearGradient>
+                </TouchableOpacity>
+              )}
+
+              {canSyncVods && (
+                <TouchableOpacity
+                  style={styles.headerButton}
+                  onPress={() => setShowVodSync(prev => !prev)}
+                >
+                  <LinearGradient
+                    colors={showVodSync ? ['#f59e0b', '#d97706'] : ['#64748b', '#475569']}
+                    style={styles.headerButtonGradient}
+                  >
+                    <Link2 size={20} color="#fff" />
+                  </LinearGradient>
+                </TouchableOpacity>
+              )}
+
+              {pip.isSupported && activeStreams.length > 0 && (
+                <TouchableOpacity style={styles.headerButton} onPress={handleTogglePip}>
+                  <LinearGradient
+                    colors={pip.mode !== 'none' ? ['#8b5cf6', '#7c3aed'] : ['#64748b', '#475569']}
+                    style={styles.headerButtonGradient}
+                  >
+                    <PictureInPicture2 size={20} color="#fff" />
+                  </LinearGradient>
+                </TouchableOpacity>
+              )}
+
+              {activeStreams.length > 0 && (
+                <TouchableOpacity
+                  style={styles.headerButton}
+                  onPress={() => {
+                    setShowAudio(prev => !prev);
+                    setShowLayoutShare(false);
+                  }}
+                >
+                  <LinearGradient
+                    colors={showAudio ? ['#06b6d4', '#0891b2'] : ['#64748b', '#475569']}
+                    style={styles.headerButtonGradient}
+                  >
+                    <Headphones size={20} color="#fff" />
+                  </LinearGradient>
+                </TouchableOpacity>
+              )}
+
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={() => {
+                  setShowLayoutShare(prev => !prev);
+                  setShowAudio(false);
+                }}
+              >
+                <LinearGradient
+                  colors={showLayoutShare ? ['#8b5cf6', '#7c3aed'] : ['#64748b', '#475569']}
+                  style={styles.headerButtonGradient}
+                >
+                  <Share2 size={20} color="#fff" />
+                </LinearGradient>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={() => setShowParty(prev => !prev)}
+              >
+                <LinearGradient
+                  colors={party.room ? ['#ec4899', '#db2777'] : ['#64748b', '#475569']}
+                  style={styles.headerButtonGradient}
+                >
+                  <PartyPopper size={20} color="#fff" />
+                </LinearGradient>
+              </TouchableOpacity>
 
             <TouchableOpacity
               style={styles.headerButton}
@@ -1011,8 +1144,19 @@ export const OptimizedMultiStreamGrid: React.FC<OptimizedMultiStreamGridProps> =
         {/* Controls */}
         {controlsVisible && <LayoutControls />}
 
+        {showVodSync && canSyncVods && (
+          <VodSyncPanel
+            streams={activeStreams}
+            onClose={() => setShowVodSync(false)}
+            style={styles.vodSyncPanel}
+          />
+        )}
+
         {/* Content */}
-        <View style={[styles.content, { paddingHorizontal: gridDimensions.padding }]}>
+        <View
+          style={[styles.content, { paddingHorizontal: gridPadding }]}
+          onLayout={handleContentLayout}
+        >
           {renderContent()}
         </View>
 
@@ -1040,6 +1184,62 @@ export const OptimizedMultiStreamGrid: React.FC<OptimizedMultiStreamGridProps> =
             </Pressable>
           </Animated.View>
         )}
+
+        {showChat && activeStreams.length > 0 && (
+          <View style={[styles.chatPane, { paddingBottom: insets.bottom }]}>
+            <MergedChatPane
+              streams={activeStreams}
+              visible={showChat}
+              onClose={() => setShowChat(false)}
+            />
+          </View>
+        )}
+
+        {showParty && (
+          <View
+            style={[
+              styles.partyPane,
+              party.room && styles.partyPaneActive,
+              { bottom: insets.bottom + ModernTheme.spacing.sm },
+            ]}
+          >
+            <WatchPartyPanel
+              party={party}
+              initialCode={partyCode}
+              onClose={() => setShowParty(false)}
+            />
+          </View>
+        )}
+
+        {showLayoutShare && (
+          <View style={[styles.sharePane, { top: insets.top + ModernTheme.spacing.sm }]}>
+            <LayoutSharePanel
+              layout={sharedGridLayout}
+              streams={activeStreams}
+              audioFocusStreamId={activeStreamId}
+              maxStreams={maxStreams}
+              initialCode={pendingLayoutCode}
+              onImport={handleSharedLayout}
+              onOpenSaved={handleSavedLayout}
+              onClose={() => {
+                setShowLayoutShare(false);
+                setPendingLayoutCode(undefined);
+              }}
+            />
+          </View>
+        )}
+
+        {showAudio && activeStreams.length > 0 && (
+          <View style={[styles.sharePane, { top: insets.top + ModernTheme.spacing.sm }]}>
+            <AudioPolicyPanel
+              audio={audio}
+              streams={activeStreams}
+              onClose={() => setShowAudio(false)}
+            />
+          </View>
+        )}
+
+        <AddStreamUrlModal visible={showAddUrl} onClose={() => setShowAddUrl(false)} />
       </View>
     );
   }
@@ -1231,6 +1431,30 @@ const styles = StyleSheet.create({
   controlButtonTextDestructive: {
     color: ModernTheme.colors.error[400],
   },
+  vodSyncPanel: {
+    marginHorizontal: ModernTheme.spacing.md,
+    marginBottom: ModernTheme.spacing.sm,
+  },
+  chatPane: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: '45%',
+  },
+  partyPane: {
+    position: 'absolute',
+    left: ModernTheme.spacing.sm,
+    right: ModernTheme.spacing.sm,
+  },
+  partyPaneActive: {
+    height: '45%',
+  },
+  sharePane: {
+    position: 'absolute',
+    left: ModernTheme.spacing.sm,
+    right: ModernTheme.spacing.sm,
+  },
   content: {
     flex: 1,
     paddingVertical: 2, // Minimal padding
@@ -1246,6 +1470,9 @@ const styles = StyleSheet.create({
     borderRadius: ModernTheme.borderRadius.lg,
     overflow: 'hidden',
   },
+  gridTile: {
+    position: 'absolute',
+  },
   stackContainer: {
     flex: 1,
   },
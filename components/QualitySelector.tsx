@@ -109,7 +109,7 @@ export const QualitySelector: React.FC<QualitySelectorProps> = ({
   }, [currentQuality]);
 
   // Generate quality options
-  const qualityOptions: QualityOption[] = [
+  const presetOptions: QualityOption[] = [
     {
       level: 'auto',
       label: 'Auto',
@@ -163,6 +163,26 @@ export const QualitySelector: React.FC<QualitySelectorProps> = ({
     },
   ];
 
+  // Direct HLS streams only offer the renditions their master playlist lists
+  const variantOptions: QualityOption[] = streamQualityManager
+    .getStreamVariants(streamId)
+    .map(({ level, variant }) => {
+      const bandwidth = Math.round(variant.bandwidth / 100_000) / 10;
+      const resolution = variant.width ? `${variant.width}x${variant.height} • ` : '';
+      return {
+        level,
+        label: variant.name || presetOptions.find(opt => opt.level === level)?.label || level,
+        description: `${resolution}${bandwidth} Mbps`,
+        bandwidth,
+        warning:
+          availableBandwidth > 0 && availableBandwidth < bandwidth
+            ? 'May cause buffering'
+            : undefined,
+      };
+    });
+  const qualityOptions =
+    variantOptions.length > 0 ? [presetOptions[0], ...variantOptions] : presetOptions;
+
   const handleToggleDropdown = useCallback(() => {
     if (disabled) {
       return;
@@ -147,7 +147,7 @@ export const RealtimeCommunicationHub: React.FC<RealtimeCommunicationHubProps> =
       setConnectionStatus('connecting');
 
       // Connect to WebSocket
-      await connectToRealtime(userId, `stream_${streamId}`);
+      await connectToRealtime(userId, `stream_${streamId}`, username);
 
       // Initialize all services
       await Promise.all([
@@ -0,0 +1,185 @@
+/**
+ * Recording Controls
+ * Seek bar, skip buttons, playback speed and a share-this-moment link for a
+ * VOD or clip in the grid. Drives the stream's RecordingPlayer through
+ * recordingPlaybackService.
+ */
+
+import { Gauge, RotateCcw, RotateCw, Share2 } from 'lucide-react-native';
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, StyleSheet, Text, TouchableOpacity, Pressable, Share } from 'react-native';
+import { platformRegistry } from '@/services/platformProviders';
+import {
+  PLAYBACK_RATES,
+  RecordingPlaybackState,
+  recordingPlaybackService,
+} from '@/services/recordingPlaybackService';
+import { ModernTheme } from '@/theme/modernTheme';
+import { Stream } from '@/types/stream';
+import { HapticFeedback } from '@/utils/haptics';
+
+const SEEK_STEP_SECONDS = 10;
+
+interface RecordingControlsProps {
+  stream: Stream;
+  iconSize?: number;
+  fontSize?: number;
+}
+
+export const formatPlaybackTime = (totalSeconds: number): string => {
+  const total = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, '0');
+  return hours
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+};
+
+export const RecordingControls: React.FC<RecordingControlsProps> = ({
+  stream,
+  iconSize = 14,
+  fontSize = 11,
+}) => {
+  const [state, setState] = useState<RecordingPlaybackState | null>(() =>
+    recordingPlaybackService.getState(stream.id)
+  );
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  useEffect(
+    () =>
+      recordingPlaybackService.subscribe((streamId, next) => {
+        if (streamId === stream.id) {
+          setState(next);
+        }
+      }),
+    [stream.id]
+  );
+
+  const duration = state?.duration || stream.recording?.duration || 0;
+  const position = state?.position || 0;
+  const rate = state?.rate || 1;
+
+  const handleSeekBy = useCallback(
+    (seconds: number) => {
+      HapticFeedback.light();
+      recordingPlaybackService.seekBy(stream.id, seconds);
+    },
+    [stream.id]
+  );
+
+  const handleTrackPress = useCallback(
+    (event: any) => {
+      if (!trackWidth || !duration) {
+        return;
+      }
+      recordingPlaybackService.seekTo(
+        stream.id,
+        (event.nativeEvent.locationX / trackWidth) * duration
+      );
+    },
+    [stream.id, trackWidth, duration]
+  );
+
+  const handleRateChange = useCallback(() => {
+    HapticFeedback.light();
+    const index = PLAYBACK_RATES.indexOf(rate);
+    recordingPlaybackService.setPlaybackRate(
+      stream.id,
+      PLAYBACK_RATES[(index + 1) % PLAYBACK_RATES.length]
+    );
+  }, [stream.id, rate]);
+
+  const handleShare = useCallback(async () => {
+    const current = recordingPlaybackService.getCurrentPosition(stream.id) ?? position;
+    const url = platformRegistry.getRecordingUrl(stream, current);
+    try {
+      await Share.share({
+        message:
+          stream.recording?.type === 'vod'
+            ? `${stream.title} @ ${formatPlaybackTime(current)}\n${url}`
+            : url,
+      });
+    } catch (error) {
+      console.error('❌ Failed to share recording link:', error);
+    }
+  }, [stream, position]);
+
+  const progress = duration ? Math.min(1, position / duration) : 0;
+
+  return (
+    <View style={styles.container}>
+      <Pressable
+        style={styles.track}
+        onLayout={event => setTrackWidth(event.nativeEvent.layout.width)}
+        onPress={handleTrackPress}
+        hitSlop={{ top: 8, bottom: 8 }}
+      >
+        <View style={[styles.trackFill, { width: `${progress * 100}%` }]} />
+      </Pressable>
+
+      <View style={styles.row}>
+        <TouchableOpacity onPress={() => handleSeekBy(-SEEK_STEP_SECONDS)} hitSlop={6}>
+          <RotateCcw size={iconSize} color="#fff" />
+        </TouchableOpacity>
+        <Text style={[styles.time, { fontSize }]} numberOfLines={1}>
+          {formatPlaybackTime(position)} / {formatPlaybackTime(duration)}
+        </Text>
+        <TouchableOpacity onPress={() => handleSeekBy(SEEK_STEP_SECONDS)} hitSlop={6}>
+          <RotateCw size={iconSize} color="#fff" />
+        </TouchableOpacity>
+
+        <View style={styles.spacer} />
+
+        <TouchableOpacity style={styles.rateButton} onPress={handleRateChange} hitSlop={6}>
+          <Gauge size={iconSize} color="#fff" />
+          <Text style={[styles.rateText, { fontSize }]}>{rate}x</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={handleShare} hitSlop={6}>
+          <Share2 size={iconSize} color="#fff" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: ModernTheme.spacing.xs,
+    paddingHorizontal: ModernTheme.spacing.sm,
+    paddingTop: ModernTheme.spacing.xs,
+  },
+  track: {
+    height: 3,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.25)',
+    overflow: 'hidden',
+  },
+  trackFill: {
+    height: '100%',
+    backgroundColor: ModernTheme.colors.primary[500],
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.sm,
+  },
+  time: {
+    color: '#fff',
+    fontVariant: ['tabular-nums'],
+  },
+  spacer: {
+    flex: 1,
+  },
+  rateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  rateText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
+
+export default RecordingControls;
@@ -0,0 +1,304 @@
+/**
+ * Recording Player Component
+ * Plays a VOD or clip through the platform's on-demand embed. The embed is the
+ * WebView's top document, so an injected script can reach its <video> to
+ * seek, change speed and report progress to recordingPlaybackService. Past
+ * broadcasts resume where they were left off unless a link asked for a time.
+ */
+
+import React, { useState, useRef, useEffect } from 'react';
+import { View, StyleSheet, ActivityIndicator, StyleProp, ViewStyle } from 'react-native';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+import { WebViewErrorEvent } from 'react-native-webview/lib/WebViewTypes';
+import { recordingPlaybackService } from '@/services/recordingPlaybackService';
+import { watchHistoryService } from '@/services/watchHistoryService';
+import { RecordingSource } from '@/types/stream';
+
+// How often the player reports its position to the grid controls
+const PROGRESS_INTERVAL_MS = 1000;
+// How often that position is saved for resuming
+const SAVE_INTERVAL_MS = 5000;
+// The embed builds its <video> after its own scripts load
+const VIDEO_POLL_ATTEMPTS = 60;
+
+interface RecordingPlayerProps {
+  streamId: string;
+  recording: RecordingSource;
+  embedUrl: string;
+  muted?: boolean;
+  /** 0–1, from the grid's audio policy */
+  volume?: number;
+  onLoad?: () => void;
+  onError?: (error: Error) => void;
+  style?: StyleProp<ViewStyle>;
+  isVisible?: boolean; // For viewport culling
+  priority?: 'high' | 'normal' | 'low'; // Loading priority
+}
+
+const PLAYER_SCRIPT = `
+(function () {
+  if (window.recordingPlayer) {
+    return;
+  }
+
+  var video = null;
+  var rate = 1;
+
+  function post(message) {
+    window.ReactNativeWebView.postMessage(JSON.stringify(message));
+  }
+
+  function postProgress() {
+    if (video && video.duration && isFinite(video.duration)) {
+      post({
+        type: 'progress',
+        position: video.currentTime,
+        duration: video.duration,
+        playing: !video.paused,
+        rate: video.playbackRate,
+      });
+    }
+  }
+
+  window.recordingPlayer = {
+    seekTo: function (seconds) {
+      if (video) {
+        video.currentTime = seconds;
+        postProgress();
+      }
+    },
+    setRate: function (value) {
+      rate = value;
+      if (video) {
+        video.playbackRate = value;
+      }
+    },
+    setMuted: function (muted) {
+      if (video) {
+        video.muted = muted;
+      }
+    },
+    setVolume: function (volume) {
+      if (video) {
+        video.volume = volume;
+      }
+    },
+    setPaused: function (paused) {
+      if (!video) {
+        return;
+      }
+      if (paused) {
+        video.pause();
+      } else {
+        video.play().catch(function () {});
+      }
+    },
+  };
+
+  var attempts = 0;
+  var poll = setInterval(function () {
+    video = document.querySelector('video');
+    if (!video && ++attempts < ${VIDEO_POLL_ATTEMPTS}) {
+      return;
+    }
+    clearInterval(poll);
+    if (!video) {
+      post({ type: 'error', message: 'Player did not load' });
+      return;
+    }
+
+    var ready = function () {
+      post({ type: 'ready', duration: video.duration || 0 });
+    };
+    if (video.readyState >= 2) {
+      ready();
+    } else {
+      video.addEventListener('loadeddata', ready, { once: true });
+    }
+    // The embed resets speed when it switches renditions
+    video.addEventListener('playing', function () {
+      if (video.playbackRate !== rate) {
+        video.playbackRate = rate;
+      }
+    });
+    video.addEventListener('pause', postProgress);
+    video.addEventListener('seeked', postProgress);
+    video.addEventListener('ended', postProgress);
+    video.addEventListener('error', function () {
+      post({ type: 'error', message: video.error ? video.error.message : 'Playback failed' });
+    });
+    setInterval(function () {
+      if (!video.paused) {
+        postProgress();
+      }
+    }, ${PROGRESS_INTERVAL_MS});
+  }, 250);
+})();
+true;
+`;
+
+export const RecordingPlayer: React.FC<RecordingPlayerProps> = React.memo(
+  ({
+    streamId,
+    recording,
+    embedUrl,
+    muted = true,
+    volume = 1,
+    onLoad,
+    onError,
+    style,
+    isVisible = true,
+    priority = 'normal',
+  }) => {
+    const [loading, setLoading] = useState(true);
+    const [shouldLoad, setShouldLoad] = useState(priority === 'high');
+    const webViewRef = useRef<WebView>(null);
+    const hasResumed = useRef(false);
+    const lastSaved = useRef(0);
+
+    // Only reloaded for a new recording; mute and visibility are injected below
+    const recordingKey = `${recording.type}:${recording.id}`;
+    const loaded = useRef({ recordingKey, uri: embedUrl });
+    if (loaded.current.recordingKey !== recordingKey) {
+      loaded.current = { recordingKey, uri: embedUrl };
+    }
+    const uri = loaded.current.uri;
+
+    // Lazy loading based on visibility and priority, same staggering as the embed player
+    useEffect(() => {
+      if (isVisible && !shouldLoad) {
+        const delay = priority === 'high' ? 0 : priority === 'normal' ? 300 : 600;
+        const timer = setTimeout(() => setShouldLoad(true), delay);
+        return () => clearTimeout(timer);
+      }
+    }, [isVisible, priority, shouldLoad]);
+
+    useEffect(() => {
+      const run = (script: string) =>
+        webViewRef.current?.injectJavaScript(`window.recordingPlayer && ${script}; true;`);
+      return recordingPlaybackService.register(streamId, {
+        seekTo: seconds => run(`window.recordingPlayer.seekTo(${seconds})`),
+        setPlaybackRate: rate => run(`window.recordingPlayer.setRate(${rate})`),
+        setPaused: paused => run(`window.recordingPlayer.setPaused(${paused})`),
+      });
+    }, [streamId]);
+
+    useEffect(() => {
+      webViewRef.current?.injectJavaScript(
+        `window.recordingPlayer && window.recordingPlayer.setMuted(${muted}); true;`
+      );
+    }, [muted]);
+
+    useEffect(() => {
+      webViewRef.current?.injectJavaScript(
+        `window.recordingPlayer && window.recordingPlayer.setVolume(${volume}); true;`
+      );
+    }, [volume]);
+
+    useEffect(() => {
+      recordingPlaybackService.setPaused(streamId, !isVisible);
+    }, [streamId, isVisible]);
+
+    const resume = async () => {
+      hasResumed.current = true;
+      webViewRef.current?.injectJavaScript(
+        `window.recordingPlayer.setMuted(${muted}); window.recordingPlayer.setVolume(${volume}); true;`
+      );
+      // A link's timestamp is already in the embed URL and wins over history
+      if (recording.type !== 'vod' || recording.startAt !== undefined) {
+        return;
+      }
+      const position = await watchHistoryService.getResumePosition(streamId);
+      if (position > 0) {
+        recordingPlaybackService.seekTo(streamId, position);
+      }
+    };
+
+    const handleMessage = (event: WebViewMessageEvent) => {
+      try {
+        const data = JSON.parse(event.nativeEvent.data);
+        if (data.type === 'ready') {
+          setLoading(false);
+          onLoad?.();
+          if (!hasResumed.current) {
+            resume();
+          }
+        } else if (data.type === 'progress') {
+          recordingPlaybackService.report(streamId, {
+            position: data.position,
+            duration: data.duration || recording.duration,
+            playing: data.playing,
+            rate: data.rate,
+          });
+          if (recording.type === 'vod' && Date.now() - lastSaved.current >= SAVE_INTERVAL_MS) {
+            lastSaved.current = Date.now();
+            watchHistoryService.savePosition(streamId, data.position, data.duration);
+          }
+        } else if (data.type === 'error') {
+          setLoading(false);
+          onError?.(new Error(data.message));
+        }
+      } catch {
+        // Ignore non-JSON messages
+      }
+    };
+
+    const handleError = (event: WebViewErrorEvent) => {
+      setLoading(false);
+      onError?.(new Error(event.nativeEvent.description));
+    };
+
+    return (
+      <View style={[styles.container, style]}>
+        {(loading || !shouldLoad) && (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#9146FF" />
+          </View>
+        )}
+
+        {shouldLoad && (
+          <WebView
+            ref={webViewRef}
+            source={{ uri }}
+            style={styles.webview}
+            injectedJavaScript={PLAYER_SCRIPT}
+            onMessage={handleMessage}
+            onError={handleError}
+            allowsInlineMediaPlayback
+            mediaPlaybackRequiresUserAction={false}
+            javaScriptEnabled
+            domStorageEnabled
+            mixedContentMode="compatibility"
+            allowsBackForwardNavigationGestures={false}
+            renderLoading={() => null}
+          />
+        )}
+      </View>
+    );
+  }
+);
+
+RecordingPlayer.displayName = 'RecordingPlayer';
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  webview: {
+    flex: 1,
+  },
+  loadingContainer: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#000',
+    zIndex: 1,
+  },
+});
+
+export default RecordingPlayer;
@@ -3,8 +3,9 @@
  * Clean, minimal debug interface without file corruption issues
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView } from 'react-native';
+import { requestScheduler, RequestSchedulerMetrics } from '@/services/requestScheduler';
 
 interface SimpleDebugDashboardProps {
   visible: boolean;
@@ -13,6 +14,18 @@ interface SimpleDebugDashboardProps {
 
 export const SimpleDebugDashboard: React.FC<SimpleDebugDashboardProps> = ({ visible, onClose }) => {
   const [activeTab, setActiveTab] = useState('system');
+  const [apiMetrics, setApiMetrics] = useState<RequestSchedulerMetrics>(() =>
+    requestScheduler.getMetrics()
+  );
+
+  useEffect(() => {
+    if (!visible || activeTab !== 'api') {
+      return;
+    }
+    setApiMetrics(requestScheduler.getMetrics());
+    const interval = setInterval(() => setApiMetrics(requestScheduler.getMetrics()), 1000);
+    return () => clearInterval(interval);
+  }, [visible, activeTab]);
 
   const systemInfo = {
     platform: 'React Native',
@@ -31,7 +44,7 @@ export const SimpleDebugDashboard: React.FC<SimpleDebugDashboardProps> = ({ visi
         </View>
 
         <View style={styles.tabContainer}>
-          {['system', 'performance', 'logs'].map(tab => (
+          {['system', 'performance', 'api', 'logs'].map(tab => (
             <TouchableOpacity
               key={tab}
               style={[styles.tab, activeTab === tab && styles.activeTab]}
@@ -63,6 +76,44 @@ export const SimpleDebugDashboard: React.FC<SimpleDebugDashboardProps> = ({ visi
             </View>
           )}
 
+          {activeTab === 'api' && (
+            <>
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>YouTube Quota</Text>
+                <Text style={styles.info}>
+                  Used: {apiMetrics.youtubeQuota.used} / {apiMetrics.youtubeQuota.budget} units
+                </Text>
+                <Text style={styles.info}>Level: {apiMetrics.youtubeQuota.level}</Text>
+                <Text style={styles.info}>Day (Pacific): {apiMetrics.youtubeQuota.day}</Text>
+              </View>
+              {Object.entries(apiMetrics.platforms).map(([platform, metrics]) => (
+                <View key={platform} style={styles.section}>
+                  <Text style={styles.sectionTitle}>{platform}</Text>
+                  <Text style={styles.info}>
+                    Tokens: {metrics.tokens} / {metrics.capacity}
+                  </Text>
+                  <Text style={styles.info}>
+                    Queued: {metrics.queued.visible} visible, {metrics.queued.normal} normal,{' '}
+                    {metrics.queued.prefetch} prefetch
+                  </Text>
+                  <Text style={styles.info}>In flight: {metrics.inFlight}</Text>
+                  <Text style={styles.info}>
+                    Sent: {metrics.sent} · Coalesced: {metrics.coalesced}
+                  </Text>
+                  <Text style={styles.info}>
+                    Throttled: {metrics.throttled} · Failed: {metrics.failed}
+                  </Text>
+                  <Text style={styles.info}>Avg queue wait: {metrics.avgWaitMs}ms</Text>
+                  {metrics.pausedUntil !== null && (
+                    <Text style={styles.info}>
+                      Paused until {new Date(metrics.pausedUntil).toLocaleTimeString()}
+                    </Text>
+                  )}
+                </View>
+              ))}
+            </>
+          )}
+
           {activeTab === 'logs' && (
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>Console Logs</Text>
@@ -15,6 +15,7 @@ import {
   Minimize2,
   Zap,
   Radio,
+  Film,
 } from 'lucide-react-native';
 import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { View, StyleSheet, Text, TouchableOpacity, Platform, Pressable } from 'react-native';
@@ -34,18 +35,28 @@ import Animated, {
   withSequence,
   Easing,
 } from 'react-native-reanimated';
-import { TwitchStream } from '@/services/twitchApi';
+import { platformRegistry } from '@/services/platformProviders';
+import { recordingPlaybackService } from '@/services/recordingPlaybackService';
+import { QualityLevel, streamQualityManager } from '@/services/streamQualityManager';
+import { Stream } from '@/types/stream';
 import { ModernTheme } from '@/theme/modernTheme';
 import { HapticFeedback } from '@/utils/haptics';
 import { BlurViewFallback as BlurView } from './BlurViewFallback';
+import { HlsStreamPlayer } from './HlsStreamPlayer';
+import { QualitySelector } from './QualitySelector';
+import { RecordingControls } from './RecordingControls';
+import { RecordingPlayer } from './RecordingPlayer';
 import { UnifiedTwitchPlayer } from './UnifiedTwitchPlayer';
 
 interface StreamPlayerCardProps {
-  stream: TwitchStream;
+  stream: Stream;
   width: number;
   height: number;
+  /** Has the grid's audio focus */
   isActive?: boolean;
   isMuted?: boolean;
+  /** 0–1, from the grid's audio policy */
+  volume?: number;
   onPress?: () => void;
   onLongPress?: () => void;
   onRemove?: () => void;
@@ -76,6 +87,7 @@ export const StreamPlayerCard: React.FC<StreamPlayerCardProps> = React.memo(
     height,
     isActive = false,
     isMuted = true,
+    volume = 1,
     onPress,
     onLongPress,
     onRemove,
@@ -97,6 +109,9 @@ export const StreamPlayerCard: React.FC<StreamPlayerCardProps> = React.memo(
     });
 
     const [controlsVisible, setControlsVisible] = useState(false);
+    const [selectedQuality, setSelectedQuality] = useState<QualityLevel>(
+      () => streamQualityManager.getStreamQuality(stream.id)?.targetQuality || 'auto'
+    );
 
     // Animation values
     const scale = useSharedValue(1);
@@ -221,7 +236,10 @@ export const StreamPlayerCard: React.FC<StreamPlayerCardProps> = React.memo(
       HapticFeedback.medium();
       setStreamState(prev => ({ ...prev, isPlaying: !prev.isPlaying }));
       // WebView control logic would go here
-    }, []);
+      if (stream.recording) {
+        recordingPlaybackService.setPaused(stream.id, streamState.isPlaying);
+      }
+    }, [stream.recording, stream.id, streamState.isPlaying]);
 
     const handleMuteToggle = useCallback(() => {
       HapticFeedback.light();
@@ -290,6 +308,25 @@ export const StreamPlayerCard: React.FC<StreamPlayerCardProps> = React.memo(
       [width]
     );
 
+    // Player URL comes from the stream's platform provider
+    const providerEmbedUrl = useMemo(
+      () => platformRegistry.getEmbedUrl(stream, { muted: isMuted, autoplay: isVisible }),
+      [stream, isMuted, isVisible]
+    );
+
+    // Direct HLS/MP4 sources are played by the app instead of a platform embed
+    const playbackSource = useMemo(() => platformRegistry.getPlaybackSource(stream), [stream]);
+    const hasVariants = !!playbackSource && playbackSource.variants.length > 0;
+
+    const handleQualityChange = useCallback(
+      (quality: QualityLevel) => {
+        if (streamQualityManager.setStreamQuality(stream.id, quality, true)) {
+          setSelectedQuality(quality);
+        }
+      },
+      [stream.id]
+    );
+
     // Generate optimized Twitch embed (memoized for performance)
     const embedHtml = useMemo(() => {
       // Enhanced parent domain configuration for better compatibility
@@ -309,7 +346,7 @@ export const StreamPlayerCard: React.FC<StreamPlayerCardProps> = React.memo(
         return domains.map(domain => `parent=${encodeURIComponent(domain)}`).join('&');
       };
 
-      const embedUrl = `https://player.twitch.tv/?channel=${stream.user_login}&${getParentDomains()}&muted=${isMuted}&autoplay=true&controls=false&time=0s`;
+      const embedUrl = `https://player.twitch.tv/?channel=${stream.username}&${getParentDomains()}&muted=${isMuted}&autoplay=true&controls=false&time=0s`;
 
       return `
       <!DOCTYPE html>
@@ -459,7 +496,7 @@ export const StreamPlayerCard: React.FC<StreamPlayerCardProps> = React.memo(
       </body>
       </html>
     `;
-    }, [stream.user_login, isMuted]);
+    }, [stream.username, isMuted]);
 
     // Animated styles
     const cardStyle = useAnimatedStyle(() => ({
@@ -521,10 +558,65 @@ export const StreamPlayerCard: React.FC<StreamPlayerCardProps> = React.memo(
         >
           {/* Stream Content */}
           <View style={styles.webViewContainer}>
-            {!streamState.hasError ? (
+            {!streamState.hasError && playbackSource ? (
+              <HlsStreamPlayer
+                streamId={stream.id}
+                playback={playbackSource}
+                muted={isMuted}
+                volume={volume}
+                isVisible={isVisible}
+                priority={isActive ? 'high' : priority}
+                onLoad={() => {
+                  setStreamState(prev => ({
+                    ...prev,
+                    isLoading: false,
+                    hasError: false,
+                    quality: width > 300 ? 'HD' : 'SD',
+                  }));
+                }}
+                onError={() => {
+                  setStreamState(prev => ({
+                    ...prev,
+                    isLoading: false,
+                    hasError: true,
+                    loadAttempts: prev.loadAttempts + 1,
+                  }));
+                }}
+                style={StyleSheet.absoluteFill}
+              />
+            ) : !streamState.hasError && stream.recording ? (
+              <RecordingPlayer
+                streamId={stream.id}
+                recording={stream.recording}
+                embedUrl={providerEmbedUrl}
+                muted={isMuted}
+                volume={volume}
+                isVisible={isVisible}
+                priority={isActive ? 'high' : priority}
+                onLoad={() => {
+                  setStreamState(prev => ({
+                    ...prev,
+                    isLoading: false,
+                    hasError: false,
+                    quality: width > 300 ? 'HD' : 'SD',
+                  }));
+                }}
+                onError={() => {
+                  setStreamState(prev => ({
+                    ...prev,
+                    isLoading: false,
+                    hasError: true,
+                    loadAttempts: prev.loadAttempts + 1,
+                  }));
+                }}
+                style={StyleSheet.absoluteFill}
+              />
+            ) : !streamState.hasError ? (
               <UnifiedTwitchPlayer
-                streamId={stream.user_login}
+                streamId={stream.username}
+                embedUrl={providerEmbedUrl}
                 muted={isMuted}
+                volume={volume}
                 isVisible={isVisible}
                 priority={isActive ? 'high' : priority}
                 onLoad={() => {
@@ -605,13 +697,22 @@ export const StreamPlayerCard: React.FC<StreamPlayerCardProps> = React.memo(
               {/* Top Row: Live indicator, quality, viewer count */}
               <View style={styles.topRow}>
                 <View style={styles.leftInfo}>
-                  <Animated.View
-                    style={[styles.liveIndicator, { height: fontSize.badge + 4 }, livePulseStyle]}
-                  >
-                    <Animated.View style={[styles.liveDot, { width: 4, height: 4 }]} />
-                    <Text style={[styles.liveText, { fontSize: fontSize.badge }]}>LIVE</Text>
-                    <Radio size={fontSize.badge} color={ModernTheme.colors.status.live} />
-                  </Animated.View>
+                  {stream.recording ? (
+                    <View style={[styles.recordingBadge, { height: fontSize.badge + 4 }]}>
+                      <Film size={fontSize.badge} color={ModernTheme.colors.text.secondary} />
+                      <Text style={[styles.liveText, { fontSize: fontSize.badge }]}>
+                        {stream.recording.type === 'vod' ? 'VOD' : 'CLIP'}
+                      </Text>
+                    </View>
+                  ) : (
+                    <Animated.View
+                      style={[styles.liveIndicator, { height: fontSize.badge + 4 }, livePulseStyle]}
+                    >
+                      <Animated.View style={[styles.liveDot, { width: 4, height: 4 }]} />
+                      <Text style={[styles.liveText, { fontSize: fontSize.badge }]}>LIVE</Text>
+                      <Radio size={fontSize.badge} color={ModernTheme.colors.status.live} />
+                    </Animated.View>
+                  )}
 
                   {showQuality && (
                     <Animated.View
@@ -629,7 +730,7 @@ export const StreamPlayerCard: React.FC<StreamPlayerCardProps> = React.memo(
                   <View style={[styles.viewersBadge, { height: fontSize.badge + 4 }]}>
                     <Eye size={fontSize.badge} color={ModernTheme.colors.text.secondary} />
                     <Text style={[styles.viewersText, { fontSize: fontSize.badge }]}>
-                      {(stream.viewer_count || 0).toLocaleString()}
+                      {(stream.viewerCount || 0).toLocaleString()}
                     </Text>
                   </View>
                 )}
@@ -641,17 +742,17 @@ export const StreamPlayerCard: React.FC<StreamPlayerCardProps> = React.memo(
                   style={[styles.streamTitle, { fontSize: fontSize.title }]}
                   numberOfLines={expanded ? 2 : 1}
                 >
-                  {stream.user_name}
+                  {stream.displayName}
                 </Text>
               )}
 
               {/* Game/Category */}
-              {expanded && stream.game_name && (
+              {expanded && stream.category && (
                 <Text
                   style={[styles.streamCategory, { fontSize: fontSize.subtitle }]}
                   numberOfLines={1}
                 >
-                  {stream.game_name}
+                  {stream.category}
                 </Text>
               )}
             </LinearGradient>
@@ -661,6 +762,13 @@ export const StreamPlayerCard: React.FC<StreamPlayerCardProps> = React.memo(
           {showControls && (
             <Animated.View style={[styles.controlsOverlay, controlsStyle]}>
               <BlurView style={styles.controlsContainer} blurType="dark" blurAmount={15}>
+                {stream.recording && !compact && (
+                  <RecordingControls
+                    stream={stream}
+                    iconSize={iconSize * 0.8}
+                    fontSize={fontSize.badge}
+                  />
+                )}
                 <View style={[styles.controlsContent, { padding: padding / 2 }]}>
                   {/* Left Controls */}
                   <View style={styles.leftControls}>
@@ -697,6 +805,15 @@ export const StreamPlayerCard: React.FC<StreamPlayerCardProps> = React.memo(
 
                   {/* Right Controls */}
                   <View style={styles.rightControls}>
+                    {hasVariants && !compact && (
+                      <QualitySelector
+                        streamId={stream.id}
+                        currentQuality={selectedQuality}
+                        onQualityChange={handleQualityChange}
+                        compact
+                        showBandwidthInfo={false}
+                      />
+                    )}
                     {onRemove && (
                       <Pressable
                         style={({ pressed }) => [
@@ -719,14 +836,19 @@ export const StreamPlayerCard: React.FC<StreamPlayerCardProps> = React.memo(
             </Animated.View>
           )}
 
-          {/* Active Indicator */}
+          {/* Audio focus indicator */}
           {isActive && (
             <Animated.View entering={BounceIn.delay(200)} style={styles.activeIndicator}>
               <LinearGradient
                 colors={[ModernTheme.colors.primary[400], ModernTheme.colors.primary[600]]}
                 style={styles.activeGradient}
               >
-                <Zap size={iconSize} color="#fff" />
+                {isMuted ? (
+                  <VolumeX size={iconSize} color="#fff" />
+                ) : (
+                  <Volume2 size={iconSize} color="#fff" />
+                )}
+                {!compact && <Text style={styles.activeText}>{isMuted ? 'FOCUS' : 'AUDIO'}</Text>}
               </LinearGradient>
             </Animated.View>
           )}
@@ -843,6 +965,16 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(255, 0, 0, 0.3)',
   },
+  recordingBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    paddingHorizontal: 6,
+    borderRadius: ModernTheme.borderRadius.sm,
+    gap: 3,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
   liveDot: {
     borderRadius: 2,
     backgroundColor: ModernTheme.colors.status.live,
@@ -933,9 +1065,17 @@ const styles = StyleSheet.create({
     overflow: 'hidden',
   },
   activeGradient: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
     padding: 6,
     borderRadius: ModernTheme.borderRadius.md,
   },
+  activeText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '700',
+  },
 });
 
 export default StreamPlayerCard;
@@ -3,10 +3,11 @@ import { Volume2, VolumeX, Maximize, X } from 'lucide-react-native';
 import React, { useState, useEffect, useRef } from 'react';
 import { View, StyleSheet, TouchableOpacity, Text, Dimensions, Platform } from 'react-native';
 import { WebView } from 'react-native-webview';
-import { TwitchStream, twitchApi } from '@/services/twitchApi';
+import { twitchApi } from '@/services/twitchApi';
+import { Stream } from '@/types/stream';
 
 interface StreamViewerProps {
-  stream: TwitchStream;
+  stream: Stream;
   onRemove: (streamId: string) => void;
   width?: number;
   height?: number;
@@ -23,7 +24,7 @@ export function StreamViewer({ stream, onRemove, width, height }: StreamViewerPr
   const viewerHeight = height || (viewerWidth * 9) / 16;
 
   const embedUrl =
-    twitchApi.generateEmbedUrl(stream.user_login) + (isMuted ? '&muted=true' : '&muted=false');
+    twitchApi.generateEmbedUrl(stream.username) + (isMuted ? '&muted=true' : '&muted=false');
 
   useEffect(() => {
     isMountedRef.current = true;
@@ -91,9 +92,9 @@ export function StreamViewer({ stream, onRemove, width, height }: StreamViewerPr
           mixedContentMode="compatibility"
           scrollEnabled={false}
           bounces={false}
-          onLoadStart={() => console.log(`Loading stream: ${stream.user_name}`)}
-          onLoad={() => console.log(`Stream loaded: ${stream.user_name}`)}
-          onError={error => console.error(`Stream error for ${stream.user_name}:`, error)}
+          onLoadStart={() => console.log(`Loading stream: ${stream.displayName}`)}
+          onLoad={() => console.log(`Stream loaded: ${stream.displayName}`)}
+          onError={error => console.error(`Stream error for ${stream.displayName}:`, error)}
         />
 
         {showControls && (
@@ -125,10 +126,10 @@ export function StreamViewer({ stream, onRemove, width, height }: StreamViewerPr
               <View style={styles.bottomControls}>
                 <View style={styles.streamDetails}>
                   <Text style={styles.streamTitle} numberOfLines={1}>
-                    {stream.user_name}
+                    {stream.displayName}
                   </Text>
                   <Text style={styles.streamGame} numberOfLines={1}>
-                    {stream.game_name}
+                    {stream.category}
                   </Text>
                 </View>
                 <View style={styles.controlButtons}>
@@ -16,6 +16,7 @@ import {
   Settings,
   BarChart3,
   Equalizer,
+  Link2,
 } from 'lucide-react-native';
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import {
@@ -36,7 +37,9 @@ import Animated, {
   interpolate,
   runOnJS,
 } from 'react-native-reanimated';
-import { TwitchStream } from '@/services/twitchApi';
+import { isSyncableVod, vodSyncService } from '@/services/vodSyncService';
+import { Stream } from '@/types/stream';
+import { VodSyncPanel } from './VodSyncPanel';
 
 interface AudioStreamState {
   streamId: string;
@@ -51,7 +54,7 @@ interface AudioStreamState {
 }
 
 interface SynchronizedPlaybackControllerProps {
-  streams: TwitchStream[];
+  streams: Stream[];
   onStreamAudioToggle: (streamId: string, enabled: boolean) => void;
   onStreamVolumeChange: (streamId: string, volume: number) => void;
   onStreamQualityChange: (streamId: string, quality: string) => void;
@@ -77,6 +80,7 @@ export function SynchronizedPlaybackController({
   const [isAllPaused, setIsAllPaused] = useState(false);
   const [syncMode, setSyncMode] = useState<'single' | 'mixed' | 'crossfade'>('single');
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [vodSyncEnabled, setVodSyncEnabled] = useState(false);
   const [audioVisualization, setAudioVisualization] = useState<number[]>([]);
   const [crossfadeDuration, setCrossfadeDuration] = useState(2); // seconds
 
@@ -85,6 +89,9 @@ export function SynchronizedPlaybackController({
   const volumeBarsOpacity = useSharedValue(0);
   const syncIndicatorScale = useSharedValue(1);
 
+  // Past broadcasts of the same event can share one timeline
+  const canSyncVods = streams.filter(isSyncableVod).length >= 2;
+
   // Audio context simulation (would integrate with actual audio system)
   const audioContextRef = useRef<any>(null);
   const crossfadeTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -93,7 +100,7 @@ export function SynchronizedPlaybackController({
   useEffect(() => {
     const newAudioStreams: AudioStreamState[] = streams.map((stream, index) => ({
       streamId: stream.id,
-      streamName: stream.user_name,
+      streamName: stream.displayName,
       isPlaying: true,
       isMuted: index !== 0, // First stream unmuted by default
       volume: 0.7,
@@ -262,21 +269,26 @@ export function SynchronizedPlaybackController({
   }, [syncMode]);
 
   const handleSyncAll = useCallback(() => {
+    if (canSyncVods) {
+      setVodSyncEnabled(prev => !prev);
+    }
     onSyncAll();
     syncIndicatorScale.value = withSpring(1.3, {}, () => {
       syncIndicatorScale.value = withSpring(1);
     });
-  }, [onSyncAll]);
+  }, [onSyncAll, canSyncVods]);
 
   const handlePauseAll = useCallback(() => {
     setIsAllPaused(true);
     setAudioStreams(prev => prev.map(stream => ({ ...stream, isPlaying: false })));
+    vodSyncService.pause();
     onPauseAll();
   }, [onPauseAll]);
 
   const handlePlayAll = useCallback(() => {
     setIsAllPaused(false);
     setAudioStreams(prev => prev.map(stream => ({ ...stream, isPlaying: true })));
+    vodSyncService.play();
     onPlayAll();
   }, [onPlayAll]);
 
@@ -375,125 +387,139 @@ export function SynchronizedPlaybackController({
   );
 
   return (
-    <Animated.View style={[styles.container, animatedContainerStyle]}>
-      <LinearGradient
-        colors={['rgba(26, 26, 26, 0.98)', 'rgba(15, 15, 15, 0.95)']}
-        style={styles.background}
-      >
-        {/* Main playback controls */}
-        <View style={styles.mainControls}>
-          <View style={styles.playbackControls}>
-            <TouchableOpacity
-              style={styles.controlButton}
-              onPress={isAllPaused ? handlePlayAll : handlePauseAll}
-            >
-              <LinearGradient colors={['#22C55E', '#16A34A']} style={styles.controlGradient}>
-                {isAllPaused ? <Play size={20} color="#fff" /> : <Pause size={20} color="#fff" />}
-              </LinearGradient>
-            </TouchableOpacity>
-
-            <AnimatedTouchableOpacity
-              style={[styles.controlButton, animatedSyncIndicatorStyle]}
-              onPress={handleSyncAll}
-            >
-              <LinearGradient colors={['#8B5CF6', '#7C3AED']} style={styles.controlGradient}>
-                <Shuffle size={20} color="#fff" />
-              </LinearGradient>
-            </AnimatedTouchableOpacity>
-
-            <TouchableOpacity style={styles.controlButton} onPress={handleSyncModeChange}>
-              <LinearGradient colors={['#F59E0B', '#D97706']} style={styles.controlGradient}>
-                {syncMode === 'single' && <Headphones size={20} color="#fff" />}
-                {syncMode === 'mixed' && <Speaker size={20} color="#fff" />}
-                {syncMode === 'crossfade' && <Music size={20} color="#fff" />}
-              </LinearGradient>
-            </TouchableOpacity>
-          </View>
+    <>
+      <Animated.View style={[styles.container, animatedContainerStyle]}>
+        <LinearGradient
+          colors={['rgba(26, 26, 26, 0.98)', 'rgba(15, 15, 15, 0.95)']}
+          style={styles.background}
+        >
+          {/* Main playback controls */}
+          <View style={styles.mainControls}>
+            <View style={styles.playbackControls}>
+              <TouchableOpacity
+                style={styles.controlButton}
+                onPress={isAllPaused ? handlePlayAll : handlePauseAll}
+              >
+                <LinearGradient colors={['#22C55E', '#16A34A']} style={styles.controlGradient}>
+                  {isAllPaused ? <Play size={20} color="#fff" /> : <Pause size={20} color="#fff" />}
+                </LinearGradient>
+              </TouchableOpacity>
+
+              <AnimatedTouchableOpacity
+                style={[styles.controlButton, animatedSyncIndicatorStyle]}
+                onPress={handleSyncAll}
+              >
+                <LinearGradient colors={['#8B5CF6', '#7C3AED']} style={styles.controlGradient}>
+                  {canSyncVods ? (
+                    <Link2 size={20} color="#fff" />
+                  ) : (
+                    <Shuffle size={20} color="#fff" />
+                  )}
+                </LinearGradient>
+              </AnimatedTouchableOpacity>
+
+              <TouchableOpacity style={styles.controlButton} onPress={handleSyncModeChange}>
+                <LinearGradient colors={['#F59E0B', '#D97706']} style={styles.controlGradient}>
+                  {syncMode === 'single' && <Headphones size={20} color="#fff" />}
+                  {syncMode === 'mixed' && <Speaker size={20} color="#fff" />}
+                  {syncMode === 'crossfade' && <Music size={20} color="#fff" />}
+                </LinearGradient>
+              </TouchableOpacity>
+            </View>
 
-          <View style={styles.audioInfo}>
-            {renderAudioVisualization()}
-            <Text style={styles.audioModeText}>{syncMode.toUpperCase()} MODE</Text>
-          </View>
+            <View style={styles.audioInfo}>
+              {renderAudioVisualization()}
+              <Text style={styles.audioModeText}>{syncMode.toUpperCase()} MODE</Text>
+            </View>
 
-          <View style={styles.masterControls}>
-            <TouchableOpacity
-              style={styles.advancedToggle}
-              onPress={() => setShowAdvanced(!showAdvanced)}
-            >
-              <LinearGradient
-                colors={['rgba(139, 92, 246, 0.2)', 'rgba(124, 58, 237, 0.2)']}
-                style={styles.advancedGradient}
+            <View style={styles.masterControls}>
+              <TouchableOpacity
+                style={styles.advancedToggle}
+                onPress={() => setShowAdvanced(!showAdvanced)}
               >
-                <Settings size={16} color="#8B5CF6" />
-              </LinearGradient>
-            </TouchableOpacity>
-
-            <View style={styles.masterVolumeContainer}>
-              <Volume1 size={16} color="#8B5CF6" />
-              <Slider
-                style={styles.masterVolumeSlider}
-                minimumValue={0}
-                maximumValue={1}
-                value={masterVolume}
-                onValueChange={handleMasterVolumeChange}
-                minimumTrackTintColor="#8B5CF6"
-                maximumTrackTintColor="#333"
-                thumbTintColor="#8B5CF6"
-              />
-              <Text style={styles.volumeText}>{Math.round(masterVolume * 100)}%</Text>
+                <LinearGradient
+                  colors={['rgba(139, 92, 246, 0.2)', 'rgba(124, 58, 237, 0.2)']}
+                  style={styles.advancedGradient}
+                >
+                  <Settings size={16} color="#8B5CF6" />
+                </LinearGradient>
+              </TouchableOpacity>
+
+              <View style={styles.masterVolumeContainer}>
+                <Volume1 size={16} color="#8B5CF6" />
+                <Slider
+                  style={styles.masterVolumeSlider}
+                  minimumValue={0}
+                  maximumValue={1}
+                  value={masterVolume}
+                  onValueChange={handleMasterVolumeChange}
+                  minimumTrackTintColor="#8B5CF6"
+                  maximumTrackTintColor="#333"
+                  thumbTintColor="#8B5CF6"
+                />
+                <Text style={styles.volumeText}>{Math.round(masterVolume * 100)}%</Text>
+              </View>
             </View>
           </View>
-        </View>
 
-        {/* Stream audio controls */}
-        <ScrollView
-          horizontal
-          showsHorizontalScrollIndicator={false}
-          style={styles.streamAudioContainer}
-          contentContainerStyle={styles.streamAudioContent}
-        >
-          {audioStreams.map(renderStreamAudioControl)}
-        </ScrollView>
-
-        {/* Advanced controls */}
-        {showAdvanced && (
-          <Animated.View style={[styles.advancedControls, animatedVolumeBarsStyle]}>
-            <View style={styles.advancedSection}>
-              <Text style={styles.sectionTitle}>Crossfade Duration</Text>
-              <Slider
-                style={styles.crossfadeSlider}
-                minimumValue={1}
-                maximumValue={10}
-                value={crossfadeDuration}
-                onValueChange={setCrossfadeDuration}
-                step={1}
-                minimumTrackTintColor="#8B5CF6"
-                maximumTrackTintColor="#333"
-                thumbTintColor="#8B5CF6"
-              />
-              <Text style={styles.sliderValue}>{crossfadeDuration}s</Text>
-            </View>
+          {/* Stream audio controls */}
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.streamAudioContainer}
+            contentContainerStyle={styles.streamAudioContent}
+          >
+            {audioStreams.map(renderStreamAudioControl)}
+          </ScrollView>
+
+          {/* Advanced controls */}
+          {showAdvanced && (
+            <Animated.View style={[styles.advancedControls, animatedVolumeBarsStyle]}>
+              <View style={styles.advancedSection}>
+                <Text style={styles.sectionTitle}>Crossfade Duration</Text>
+                <Slider
+                  style={styles.crossfadeSlider}
+                  minimumValue={1}
+                  maximumValue={10}
+                  value={crossfadeDuration}
+                  onValueChange={setCrossfadeDuration}
+                  step={1}
+                  minimumTrackTintColor="#8B5CF6"
+                  maximumTrackTintColor="#333"
+                  thumbTintColor="#8B5CF6"
+                />
+                <Text style={styles.sliderValue}>{crossfadeDuration}s</Text>
+              </View>
 
-            <View style={styles.audioStats}>
-              <Text style={styles.statsTitle}>Audio Statistics</Text>
-              <View style={styles.statsGrid}>
-                <Text style={styles.statItem}>
-                  Active: {audioStreams.filter(s => s.isActive).length}
-                </Text>
-                <Text style={styles.statItem}>Total: {audioStreams.length}</Text>
-                <Text style={styles.statItem}>
-                  Avg Latency:{' '}
-                  {Math.round(
-                    audioStreams.reduce((acc, s) => acc + s.latency, 0) / audioStreams.length
-                  )}
-                  ms
-                </Text>
+              <View style={styles.audioStats}>
+                <Text style={styles.statsTitle}>Audio Statistics</Text>
+                <View style={styles.statsGrid}>
+                  <Text style={styles.statItem}>
+                    Active: {audioStreams.filter(s => s.isActive).length}
+                  </Text>
+                  <Text style={styles.statItem}>Total: {audioStreams.length}</Text>
+                  <Text style={styles.statItem}>
+                    Avg Latency:{' '}
+                    {Math.round(
+                      audioStreams.reduce((acc, s) => acc + s.latency, 0) / audioStreams.length
+                    )}
+                    ms
+                  </Text>
+                </View>
               </View>
-            </View>
-          </Animated.View>
-        )}
-      </LinearGradient>
-    </Animated.View>
+            </Animated.View>
+          )}
+        </LinearGradient>
+      </Animated.View>
+
+      {vodSyncEnabled && canSyncVods && (
+        <VodSyncPanel
+          streams={streams}
+          onClose={() => setVodSyncEnabled(false)}
+          style={styles.vodSyncPanel}
+        />
+      )}
+    </>
   );
 }
 
@@ -505,6 +531,10 @@ const styles = StyleSheet.create({
     marginHorizontal: 12,
     marginBottom: 12,
   },
+  vodSyncPanel: {
+    marginHorizontal: 12,
+    marginBottom: 12,
+  },
   background: {
     flex: 1,
     padding: 16,
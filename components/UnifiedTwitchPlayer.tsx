@@ -9,7 +9,10 @@ import { WebView } from 'react-native-webview';
 
 interface UnifiedTwitchPlayerProps {
   streamId: string;
+  embedUrl?: string; // Provider-built player URL; defaults to the Twitch player for streamId
   muted?: boolean;
+  /** 0–1, from the grid's audio policy; applied to the embed's video in place */
+  volume?: number;
   onLoad?: () => void;
   onError?: (error: any) => void;
   style?: any;
@@ -17,8 +20,22 @@ interface UnifiedTwitchPlayerProps {
   priority?: 'high' | 'normal' | 'low'; // Loading priority
 }
 
+const volumeScript = (volume: number) => `
+  window.streamyyyVolume = ${volume};
+  if (!window.streamyyyVolumeTimer) {
+    window.streamyyyVolumeTimer = setInterval(function () {
+      document.querySelectorAll('video').forEach(function (video) {
+        if (video.volume !== window.streamyyyVolume) {
+          video.volume = window.streamyyyVolume;
+        }
+      });
+    }, 1000);
+  }
+  true;
+`;
+
 export const UnifiedTwitchPlayer: React.FC<UnifiedTwitchPlayerProps> = React.memo(
-  ({ streamId, muted = true, onLoad, onError, style, isVisible = true, priority = 'normal' }) => {
+  ({ streamId, embedUrl: providerEmbedUrl, muted = true, volume = 1, onLoad, onError, style, isVisible = true, priority = 'normal' }) => {
     const [loading, setLoading] = useState(true);
     const [shouldLoad, setShouldLoad] = useState(priority === 'high');
     const [currentMuted, setCurrentMuted] = useState(muted);
@@ -43,11 +60,21 @@ export const UnifiedTwitchPlayer: React.FC<UnifiedTwitchPlayerProps> = React.mem
 
     // Optimized embed URL that updates only mute parameter
     const embedUrl = React.useMemo(() => {
+      if (providerEmbedUrl) {
+        return providerEmbedUrl;
+      }
       return `https://player.twitch.tv/?channel=${streamId}&parent=localhost&parent=expo.dev&parent=expo.io&parent=snack.expo.dev&muted=${currentMuted}&autoplay=${isVisible}&controls=false&time=0s`;
-    }, [streamId, currentMuted, isVisible]);
+    }, [providerEmbedUrl, streamId, currentMuted, isVisible]);
+
+    // Embeds only take mute in their URL; volume is set on their <video>,
+    // which they build late and may reset, so it is re-applied every second
+    React.useEffect(() => {
+      webViewRef.current?.injectJavaScript(volumeScript(volume));
+    }, [volume]);
 
     const handleLoadEnd = () => {
       setLoading(false);
+      webViewRef.current?.injectJavaScript(volumeScript(volume));
       onLoad?.();
     };
 
@@ -0,0 +1,291 @@
+/**
+ * VOD Sync Panel
+ * Master controls for watching several past broadcasts of one event in step:
+ * a shared scrubber across every POV, play/pause for all tiles, the drift
+ * tolerance and per-VOD offset nudges for broadcasters on different delays.
+ * Runs vodSyncService while mounted.
+ */
+
+import { Link2, Pause, Play, RotateCcw, RotateCw, X } from 'lucide-react-native';
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  Pressable,
+  GestureResponderEvent,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+import { SYNC_TOLERANCE_OPTIONS, VodSyncTrack, vodSyncService } from '@/services/vodSyncService';
+import { ModernTheme } from '@/theme/modernTheme';
+import { Stream } from '@/types/stream';
+import { HapticFeedback } from '@/utils/haptics';
+import { formatPlaybackTime } from './RecordingControls';
+
+const SEEK_STEP_SECONDS = 10;
+const NUDGE_STEPS = [-1, -0.1, 0.1, 1];
+// The scrubber follows the master clock between state changes
+const CLOCK_REFRESH_MS = 500;
+
+interface VodSyncPanelProps {
+  streams: Stream[];
+  onClose?: () => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+const formatOffset = (seconds: number): string => `${seconds > 0 ? '+' : ''}${seconds.toFixed(1)}s`;
+
+export const VodSyncPanel: React.FC<VodSyncPanelProps> = ({ streams, onClose, style }) => {
+  const [, setRevision] = useState(0);
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  useEffect(() => {
+    vodSyncService.start(streams);
+  }, [streams]);
+
+  useEffect(() => {
+    const refresh = () => setRevision(value => value + 1);
+    vodSyncService.on('state_changed', refresh);
+    const timer = setInterval(refresh, CLOCK_REFRESH_MS);
+    return () => {
+      clearInterval(timer);
+      vodSyncService.off('state_changed', refresh);
+      vodSyncService.stop();
+    };
+  }, []);
+
+  const handleTrackPress = useCallback(
+    (event: GestureResponderEvent) => {
+      const { start, end } = vodSyncService.getTimeline();
+      if (!trackWidth || end <= start) {
+        return;
+      }
+      vodSyncService.seek(start + (event.nativeEvent.locationX / trackWidth) * (end - start));
+    },
+    [trackWidth]
+  );
+
+  const handleTogglePlay = useCallback(() => {
+    HapticFeedback.light();
+    if (vodSyncService.getTimeline().playing) {
+      vodSyncService.pause();
+    } else {
+      vodSyncService.play();
+    }
+  }, []);
+
+  const handleToleranceChange = useCallback(() => {
+    HapticFeedback.light();
+    const index = SYNC_TOLERANCE_OPTIONS.indexOf(vodSyncService.getTolerance());
+    vodSyncService.setTolerance(
+      SYNC_TOLERANCE_OPTIONS[(index + 1) % SYNC_TOLERANCE_OPTIONS.length]
+    );
+  }, []);
+
+  const tracks = vodSyncService.getTracks();
+  if (!vodSyncService.isActive() || !tracks.length) {
+    return null;
+  }
+
+  const timeline = vodSyncService.getTimeline();
+  const span = timeline.end - timeline.start;
+  const elapsed = (timeline.position - timeline.start) / 1000;
+  const progress = span > 0 ? Math.min(1, (timeline.position - timeline.start) / span) : 0;
+
+  const renderTrack = (track: VodSyncTrack) => {
+    const position = vodSyncService.getTrackPosition(track, timeline.position);
+    const inRange = position >= 0 && position <= track.duration;
+
+    return (
+      <View key={track.streamId} style={styles.trackRow}>
+        <View style={styles.trackInfo}>
+          <Text style={styles.trackName} numberOfLines={1}>
+            {track.displayName}
+          </Text>
+          <Text style={styles.trackMeta} numberOfLines={1}>
+            {inRange ? formatPlaybackTime(position) : position < 0 ? 'Not started' : 'Ended'}
+          </Text>
+        </View>
+        <TouchableOpacity
+          onPress={() => vodSyncService.resetOffset(track.streamId)}
+          disabled={!track.offset}
+          hitSlop={6}
+        >
+          <Text style={[styles.offset, !!track.offset && styles.offsetActive]}>
+            {formatOffset(track.offset)}
+          </Text>
+        </TouchableOpacity>
+        {NUDGE_STEPS.map(step => (
+          <TouchableOpacity
+            key={step}
+            style={styles.nudgeButton}
+            onPress={() => {
+              HapticFeedback.light();
+              vodSyncService.nudge(track.streamId, step);
+            }}
+          >
+            <Text style={styles.nudgeText}>
+              {step > 0 ? '+' : ''}
+              {step}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.header}>
+        <Link2 size={16} color={ModernTheme.colors.primary[500]} />
+        <Text style={styles.title}>Synced VODs</Text>
+        <TouchableOpacity style={styles.toleranceChip} onPress={handleToleranceChange}>
+          <Text style={styles.toleranceText}>±{vodSyncService.getTolerance()}s</Text>
+        </TouchableOpacity>
+        {onClose && (
+          <TouchableOpacity onPress={onClose} hitSlop={8}>
+            <X size={16} color={ModernTheme.colors.text.secondary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.transport}>
+        <TouchableOpacity onPress={() => vodSyncService.seekBy(-SEEK_STEP_SECONDS)} hitSlop={6}>
+          <RotateCcw size={16} color="#fff" />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.playButton} onPress={handleTogglePlay}>
+          {timeline.playing ? <Pause size={16} color="#fff" /> : <Play size={16} color="#fff" />}
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => vodSyncService.seekBy(SEEK_STEP_SECONDS)} hitSlop={6}>
+          <RotateCw size={16} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.time} numberOfLines={1}>
+          {formatPlaybackTime(elapsed)} / {formatPlaybackTime(span / 1000)}
+        </Text>
+        <Text style={styles.clock} numberOfLines={1}>
+          {new Date(timeline.position).toLocaleTimeString()}
+        </Text>
+      </View>
+
+      <Pressable
+        style={styles.scrubber}
+        onLayout={event => setTrackWidth(event.nativeEvent.layout.width)}
+        onPress={handleTrackPress}
+        hitSlop={{ top: 8, bottom: 8 }}
+      >
+        <View style={[styles.scrubberFill, { width: `${progress * 100}%` }]} />
+      </Pressable>
+
+      {tracks.map(renderTrack)}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: ModernTheme.spacing.sm,
+    padding: ModernTheme.spacing.md,
+    backgroundColor: ModernTheme.colors.background.secondary,
+    borderRadius: ModernTheme.borderRadius.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.sm,
+  },
+  title: {
+    flex: 1,
+    color: ModernTheme.colors.text.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  toleranceChip: {
+    paddingHorizontal: ModernTheme.spacing.sm,
+    paddingVertical: 2,
+    borderRadius: ModernTheme.borderRadius.full,
+    backgroundColor: ModernTheme.colors.background.tertiary,
+  },
+  toleranceText: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  transport: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.md,
+  },
+  playButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: ModernTheme.colors.primary[500],
+  },
+  time: {
+    flex: 1,
+    color: ModernTheme.colors.text.primary,
+    fontSize: 12,
+    fontVariant: ['tabular-nums'],
+  },
+  clock: {
+    color: ModernTheme.colors.text.tertiary,
+    fontSize: 11,
+    fontVariant: ['tabular-nums'],
+  },
+  scrubber: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: ModernTheme.colors.background.tertiary,
+    overflow: 'hidden',
+  },
+  scrubberFill: {
+    height: '100%',
+    backgroundColor: ModernTheme.colors.primary[500],
+  },
+  trackRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.xs,
+  },
+  trackInfo: {
+    flex: 1,
+  },
+  trackName: {
+    color: ModernTheme.colors.text.primary,
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  trackMeta: {
+    color: ModernTheme.colors.text.tertiary,
+    fontSize: 11,
+    fontVariant: ['tabular-nums'],
+  },
+  offset: {
+    minWidth: 44,
+    color: ModernTheme.colors.text.tertiary,
+    fontSize: 11,
+    textAlign: 'right',
+    fontVariant: ['tabular-nums'],
+  },
+  offsetActive: {
+    color: ModernTheme.colors.primary[500],
+  },
+  nudgeButton: {
+    minWidth: 32,
+    paddingVertical: 4,
+    borderRadius: ModernTheme.borderRadius.sm,
+    alignItems: 'center',
+    backgroundColor: ModernTheme.colors.background.tertiary,
+  },
+  nudgeText: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: 11,
+    fontWeight: '600',
+  },
+});
+
+export default VodSyncPanel;
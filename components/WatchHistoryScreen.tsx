@@ -0,0 +1,304 @@
+/**
+ * Watch History Screen
+ * Everything watched in the grid, grouped by day and searchable by channel,
+ * title or category. Entries can be removed one at a time or all at once;
+ * tapping one with a saved stream puts it back in the grid.
+ */
+
+import { router } from 'expo-router';
+import { Search, Trash2, X } from 'lucide-react-native';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import {
+  View,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  SectionList,
+  Image,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { useStreamManagerContext } from '@/contexts/StreamManagerContext';
+import { WatchHistoryEntry, watchHistoryService } from '@/services/watchHistoryService';
+import { ModernTheme } from '@/theme/modernTheme';
+import { ContinueWatchingRail } from './ContinueWatchingRail';
+
+interface HistorySection {
+  title: string;
+  data: WatchHistoryEntry[];
+}
+
+const formatWatched = (seconds: number): string => {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 1) {
+    return `${seconds}s`;
+  }
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+const formatDay = (date: Date): string => {
+  const today = new Date();
+  const yesterday = new Date();
+  yesterday.setDate(today.getDate() - 1);
+
+  if (date.toDateString() === today.toDateString()) {
+    return 'Today';
+  }
+  if (date.toDateString() === yesterday.toDateString()) {
+    return 'Yesterday';
+  }
+  return date.toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' });
+};
+
+const groupByDay = (entries: WatchHistoryEntry[]): HistorySection[] => {
+  const sections: HistorySection[] = [];
+  entries.forEach(entry => {
+    const title = formatDay(new Date(entry.watchedAt));
+    const section = sections[sections.length - 1];
+    if (section?.title === title) {
+      section.data.push(entry);
+    } else {
+      sections.push({ title, data: [entry] });
+    }
+  });
+  return sections;
+};
+
+export const WatchHistoryScreen: React.FC = () => {
+  const { addStream, isStreamActive } = useStreamManagerContext();
+  const [entries, setEntries] = useState<WatchHistoryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    try {
+      setEntries(await watchHistoryService.sync());
+    } catch (error) {
+      console.error('❌ Failed to sync watch history:', error);
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    watchHistoryService.load().then(setEntries);
+    handleRefresh();
+    return watchHistoryService.subscribe(setEntries);
+  }, [handleRefresh]);
+
+  const sections = useMemo(() => {
+    const search = query.trim().toLowerCase();
+    if (!search) {
+      return groupByDay(entries);
+    }
+    return groupByDay(
+      entries.filter(entry =>
+        [entry.channelName, entry.title, entry.category].some(field =>
+          field.toLowerCase().includes(search)
+        )
+      )
+    );
+  }, [entries, query]);
+
+  const handleOpen = useCallback(
+    async (entry: WatchHistoryEntry) => {
+      if (!entry.stream) {
+        return;
+      }
+      if (!isStreamActive(entry.stream.id)) {
+        const result = await addStream(entry.stream);
+        if (!result.success) {
+          Alert.alert('Could not add stream', result.message);
+          return;
+        }
+      }
+      router.push('/(tabs)/grid');
+    },
+    [addStream, isStreamActive]
+  );
+
+  const handleClear = useCallback(() => {
+    Alert.alert('Clear watch history?', 'This removes your history on every device.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Clear', style: 'destructive', onPress: () => watchHistoryService.clear() },
+    ]);
+  }, []);
+
+  const renderEntry = ({ item }: { item: WatchHistoryEntry }) => (
+    <TouchableOpacity
+      style={styles.row}
+      onPress={() => handleOpen(item)}
+      disabled={!item.stream}
+      activeOpacity={0.7}
+    >
+      <View style={styles.thumbnail}>
+        {!!item.thumbnailUrl && <Image source={{ uri: item.thumbnailUrl }} style={styles.image} />}
+      </View>
+      <View style={styles.details}>
+        <Text style={styles.channel} numberOfLines={1}>
+          {item.channelName}
+        </Text>
+        {!!item.title && (
+          <Text style={styles.title} numberOfLines={1}>
+            {item.title}
+          </Text>
+        )}
+        <Text style={styles.meta} numberOfLines={1}>
+          {[
+            item.category,
+            `${formatWatched(item.durationSeconds)} watched`,
+            new Date(item.watchedAt).toLocaleTimeString(undefined, {
+              hour: 'numeric',
+              minute: '2-digit',
+            }),
+          ]
+            .filter(Boolean)
+            .join(' • ')}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={styles.removeButton}
+        onPress={() => watchHistoryService.remove(item.id)}
+        hitSlop={8}
+      >
+        <X size={16} color={ModernTheme.colors.text.tertiary} />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SectionList
+      sections={sections}
+      keyExtractor={item => item.id}
+      renderItem={renderEntry}
+      renderSectionHeader={({ section }) => (
+        <Text style={styles.sectionHeader}>{section.title}</Text>
+      )}
+      stickySectionHeadersEnabled={false}
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefreshing}
+          onRefresh={handleRefresh}
+          tintColor={ModernTheme.colors.primary[500]}
+        />
+      }
+      ListHeaderComponent={
+        <View>
+          <ContinueWatchingRail />
+          <View style={styles.toolbar}>
+            <View style={styles.searchBox}>
+              <Search size={16} color={ModernTheme.colors.text.tertiary} />
+              <TextInput
+                style={styles.searchInput}
+                value={query}
+                onChangeText={setQuery}
+                placeholder="Search channels, titles, categories"
+                placeholderTextColor={ModernTheme.colors.text.tertiary}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+            {entries.length > 0 && (
+              <TouchableOpacity style={styles.clearButton} onPress={handleClear}>
+                <Trash2 size={18} color={ModernTheme.colors.text.error} />
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      }
+      ListEmptyComponent={
+        <Text style={styles.empty}>
+          {query ? 'Nothing in your history matches that search' : 'Streams you watch show up here'}
+        </Text>
+      }
+      contentContainerStyle={styles.content}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  content: {
+    paddingBottom: ModernTheme.spacing.xl,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.sm,
+    paddingHorizontal: ModernTheme.spacing.md,
+    paddingVertical: ModernTheme.spacing.sm,
+  },
+  searchBox: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.sm,
+    backgroundColor: ModernTheme.colors.background.tertiary,
+    borderRadius: ModernTheme.borderRadius.md,
+    paddingHorizontal: ModernTheme.spacing.md,
+  },
+  searchInput: {
+    flex: 1,
+    color: ModernTheme.colors.text.primary,
+    fontSize: ModernTheme.typography.sizes.sm,
+    paddingVertical: ModernTheme.spacing.sm,
+  },
+  clearButton: {
+    padding: ModernTheme.spacing.sm,
+  },
+  sectionHeader: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: ModernTheme.typography.sizes.sm,
+    fontWeight: '600',
+    paddingHorizontal: ModernTheme.spacing.md,
+    paddingTop: ModernTheme.spacing.md,
+    paddingBottom: ModernTheme.spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.md,
+    paddingHorizontal: ModernTheme.spacing.md,
+    paddingVertical: ModernTheme.spacing.sm,
+  },
+  thumbnail: {
+    width: 96,
+    aspectRatio: 16 / 9,
+    borderRadius: ModernTheme.borderRadius.sm,
+    backgroundColor: ModernTheme.colors.background.tertiary,
+    overflow: 'hidden',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  details: {
+    flex: 1,
+    gap: 2,
+  },
+  channel: {
+    color: ModernTheme.colors.text.primary,
+    fontSize: ModernTheme.typography.sizes.sm,
+    fontWeight: '600',
+  },
+  title: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: ModernTheme.typography.sizes.sm,
+  },
+  meta: {
+    color: ModernTheme.colors.text.tertiary,
+    fontSize: ModernTheme.typography.sizes.xs,
+  },
+  removeButton: {
+    padding: ModernTheme.spacing.xs,
+  },
+  empty: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: ModernTheme.typography.sizes.sm,
+    textAlign: 'center',
+    paddingTop: ModernTheme.spacing.xl,
+  },
+});
+
+export default WatchHistoryScreen;
@@ -0,0 +1,322 @@
+/**
+ * Watch Party Panel
+ * Start or join a watch party for the current multiview, invite friends with
+ * a link and talk in the party chat. The party itself lives in the grid's
+ * useWatchParty, so closing the panel keeps you in it.
+ */
+
+import * as Linking from 'expo-linking';
+import { Crown, LogOut, PartyPopper, Send, Share2, X } from 'lucide-react-native';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { WatchPartyState } from '@/hooks/useWatchParty';
+import { ChatMessage } from '@/services/realtimeChatService';
+import { ModernTheme } from '@/theme/modernTheme';
+import { HapticFeedback } from '@/utils/haptics';
+
+interface WatchPartyPanelProps {
+  party: WatchPartyState;
+  /** Party code from an invite link */
+  initialCode?: string;
+  onClose?: () => void;
+  style?: any;
+}
+
+// Opens the grid and joins: streamyyy://grid?party=<room id>
+export const getWatchPartyLink = (roomId: string): string =>
+  Linking.createURL('/grid', { queryParams: { party: roomId } });
+
+export const WatchPartyPanel: React.FC<WatchPartyPanelProps> = ({
+  party,
+  initialCode,
+  onClose,
+  style,
+}) => {
+  const [code, setCode] = useState(initialCode || '');
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<FlatList<ChatMessage>>(null);
+  const { room } = party;
+
+  useEffect(() => {
+    if (initialCode) {
+      setCode(initialCode);
+    }
+  }, [initialCode]);
+
+  const handleInvite = useCallback(async () => {
+    if (!room) {
+      return;
+    }
+    try {
+      await Share.share({
+        message: `Watch with me on Streamyyy: ${room.name}\n${getWatchPartyLink(room.id)}`,
+      });
+    } catch (error) {
+      console.error('❌ Failed to share watch party link:', error);
+    }
+  }, [room]);
+
+  const handleSend = useCallback(() => {
+    if (!draft.trim()) {
+      return;
+    }
+    HapticFeedback.light();
+    party.sendMessage(draft);
+    setDraft('');
+  }, [draft, party]);
+
+  const renderHeader = (title: string) => (
+    <View style={styles.header}>
+      <PartyPopper size={16} color={ModernTheme.colors.primary[500]} />
+      <Text style={styles.title} numberOfLines={1}>
+        {title}
+      </Text>
+      {room && (
+        <View style={[styles.roleChip, party.canControl && styles.roleChipHost]}>
+          {party.canControl && <Crown size={10} color="#fff" />}
+          <Text style={styles.roleText}>{party.canControl ? 'Sharing' : 'Following'}</Text>
+        </View>
+      )}
+      {onClose && (
+        <TouchableOpacity onPress={onClose} hitSlop={8}>
+          <X size={16} color={ModernTheme.colors.text.secondary} />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  if (!party.isAvailable) {
+    return (
+      <View style={[styles.container, style]}>
+        {renderHeader('Watch party')}
+        <Text style={styles.hint}>Sign in to watch your multiview together with friends.</Text>
+      </View>
+    );
+  }
+
+  if (!room) {
+    return (
+      <View style={[styles.container, style]}>
+        {renderHeader('Watch party')}
+        <Text style={styles.hint}>
+          Everyone in a party sees the same streams, layout and audio focus as the host.
+        </Text>
+        <TouchableOpacity
+          style={[styles.primaryButton, party.isBusy && styles.buttonDisabled]}
+          onPress={() => {
+            HapticFeedback.light();
+            party.start();
+          }}
+          disabled={party.isBusy}
+        >
+          {party.isBusy ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Start a party</Text>
+          )}
+        </TouchableOpacity>
+        <View style={styles.inputRow}>
+          <TextInput
+            style={styles.input}
+            value={code}
+            onChangeText={setCode}
+            placeholder="Party code"
+            placeholderTextColor={ModernTheme.colors.text.tertiary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="go"
+            onSubmitEditing={() => party.join(code)}
+          />
+          <TouchableOpacity
+            style={[
+              styles.secondaryButton,
+              (!code.trim() || party.isBusy) && styles.buttonDisabled,
+            ]}
+            onPress={() => party.join(code)}
+            disabled={!code.trim() || party.isBusy}
+          >
+            <Text style={styles.secondaryButtonText}>Join</Text>
+          </TouchableOpacity>
+        </View>
+        {party.error && <Text style={styles.error}>{party.error}</Text>}
+      </View>
+    );
+  }
+
+  const online = room.members.filter(member => member.isOnline);
+
+  return (
+    <View style={[styles.container, styles.containerActive, style]}>
+      {renderHeader(room.name)}
+
+      <View style={styles.toolbar}>
+        <Text style={styles.members} numberOfLines={1}>
+          {online.length} watching · {online.map(member => member.displayName).join(', ')}
+        </Text>
+        <TouchableOpacity style={styles.iconButton} onPress={handleInvite} hitSlop={6}>
+          <Share2 size={14} color={ModernTheme.colors.text.secondary} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.iconButton} onPress={party.leave} hitSlop={6}>
+          <LogOut size={14} color={ModernTheme.colors.error[500]} />
+        </TouchableOpacity>
+      </View>
+      {party.error && <Text style={styles.error}>{party.error}</Text>}
+
+      <FlatList
+        ref={listRef}
+        style={styles.messages}
+        data={party.messages}
+        keyExtractor={message => message.id}
+        onContentSizeChange={() => listRef.current?.scrollToEnd({ animated: false })}
+        ListEmptyComponent={<Text style={styles.hint}>Say hi to the party.</Text>}
+        renderItem={({ item }) => (
+          <Text style={styles.message}>
+            <Text style={styles.author}>{item.username}: </Text>
+            {item.message}
+          </Text>
+        )}
+      />
+
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          value={draft}
+          onChangeText={setDraft}
+          placeholder="Message the party"
+          placeholderTextColor={ModernTheme.colors.text.tertiary}
+          returnKeyType="send"
+          onSubmitEditing={handleSend}
+        />
+        <TouchableOpacity style={styles.iconButton} onPress={handleSend} hitSlop={6}>
+          <Send size={16} color={ModernTheme.colors.primary[500]} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: ModernTheme.spacing.sm,
+    padding: ModernTheme.spacing.md,
+    backgroundColor: ModernTheme.colors.background.secondary,
+    borderRadius: ModernTheme.borderRadius.lg,
+  },
+  containerActive: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.sm,
+  },
+  title: {
+    flex: 1,
+    color: ModernTheme.colors.text.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  roleChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: ModernTheme.spacing.sm,
+    paddingVertical: 2,
+    borderRadius: ModernTheme.borderRadius.full,
+    backgroundColor: ModernTheme.colors.background.tertiary,
+  },
+  roleChipHost: {
+    backgroundColor: ModernTheme.colors.primary[500],
+  },
+  roleText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  hint: {
+    color: ModernTheme.colors.text.secondary,
+    fontSize: 12,
+  },
+  error: {
+    color: ModernTheme.colors.error[500],
+    fontSize: 12,
+  },
+  primaryButton: {
+    height: 36,
+    borderRadius: ModernTheme.borderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: ModernTheme.colors.primary[500],
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    height: 36,
+    paddingHorizontal: ModernTheme.spacing.md,
+    borderRadius: ModernTheme.borderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: ModernTheme.colors.background.tertiary,
+  },
+  secondaryButtonText: {
+    color: ModernTheme.colors.text.primary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.sm,
+  },
+  input: {
+    flex: 1,
+    height: 36,
+    paddingHorizontal: ModernTheme.spacing.sm,
+    borderRadius: ModernTheme.borderRadius.md,
+    backgroundColor: ModernTheme.colors.background.tertiary,
+    color: ModernTheme.colors.text.primary,
+    fontSize: 13,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ModernTheme.spacing.sm,
+  },
+  members: {
+    flex: 1,
+    color: ModernTheme.colors.text.tertiary,
+    fontSize: 11,
+  },
+  iconButton: {
+    padding: 4,
+  },
+  messages: {
+    flex: 1,
+  },
+  message: {
+    color: ModernTheme.colors.text.primary,
+    fontSize: 12,
+    paddingVertical: 2,
+  },
+  author: {
+    color: ModernTheme.colors.primary[500],
+    fontWeight: '600',
+  },
+});
+
+export default WatchPartyPanel;
@@ -0,0 +1,94 @@
+/**
+ * Web Player Frame
+ * Stands in for react-native-webview on web, where it has no implementation:
+ * the player's HTML runs in an iframe, window.ReactNativeWebView messages
+ * reach onMessage, and injectJavaScript posts scripts for the frame to run.
+ * The frame is sandboxed without allow-same-origin, so the page it shows
+ * can't reach the app's storage or tokens, and the app never reaches into it.
+ */
+
+import React, { forwardRef, useEffect, useImperativeHandle, useMemo, useRef } from 'react';
+import { StyleProp, View, ViewStyle } from 'react-native';
+
+const MESSAGE_SOURCE = 'streamyyy-player-frame';
+
+// Defined before the player's own scripts, which post through it. Injected
+// scripts run as global code, like WebView's injectJavaScript.
+const BRIDGE_SCRIPT = `<script>
+  window.ReactNativeWebView = {
+    postMessage: function (data) {
+      window.parent.postMessage({ source: '${MESSAGE_SOURCE}', data: data }, '*');
+    }
+  };
+  window.addEventListener('message', function (event) {
+    var message = event.data;
+    if (
+      event.source === window.parent &&
+      message && message.source === '${MESSAGE_SOURCE}' &&
+      typeof message.script === 'string'
+    ) {
+      (0, eval)(message.script);
+    }
+  });
+</script>`;
+
+/** The part of WebView's message event the frame reproduces */
+export interface WebPlayerFrameMessageEvent {
+  nativeEvent: { data: string };
+}
+
+export interface WebPlayerFrameHandle {
+  injectJavaScript: (script: string) => void;
+}
+
+interface WebPlayerFrameProps {
+  html: string;
+  /** Same shape as WebView's onMessage */
+  onMessage?: (event: WebPlayerFrameMessageEvent) => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+export const WebPlayerFrame = forwardRef<WebPlayerFrameHandle, WebPlayerFrameProps>(
+  ({ html, onMessage, style }, ref) => {
+    const frameRef = useRef<HTMLIFrameElement>(null);
+    const onMessageRef = useRef(onMessage);
+    onMessageRef.current = onMessage;
+
+    const srcDoc = useMemo(() => html.replace('<head>', `<head>${BRIDGE_SCRIPT}`), [html]);
+
+    useImperativeHandle(ref, () => ({
+      injectJavaScript: (script: string) => {
+        frameRef.current?.contentWindow?.postMessage({ source: MESSAGE_SOURCE, script }, '*');
+      },
+    }));
+
+    useEffect(() => {
+      const handleMessage = (event: MessageEvent) => {
+        if (
+          event.source === frameRef.current?.contentWindow &&
+          event.data?.source === MESSAGE_SOURCE
+        ) {
+          onMessageRef.current?.({ nativeEvent: { data: event.data.data } });
+        }
+      };
+      window.addEventListener('message', handleMessage);
+      return () => window.removeEventListener('message', handleMessage);
+    }, []);
+
+    return (
+      <View style={style}>
+        {React.createElement('iframe', {
+          ref: frameRef,
+          srcDoc,
+          sandbox: 'allow-scripts',
+          allow: 'autoplay; fullscreen; picture-in-picture',
+          style: { border: 0, width: '100%', height: '100%' },
+        })}
+      </View>
+    );
+  }
+);
+
+WebPlayerFrame.displayName = 'WebPlayerFrame';
+
+export default WebPlayerFrame;
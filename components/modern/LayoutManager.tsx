@@ -11,6 +11,8 @@ import Animated, {
 } from 'react-native-reanimated';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { ModernTheme } from '@/theme/modernTheme';
+import { LayoutContainer } from '@/types/layout';
+import { solvePreset, toLayoutPreset } from '@/utils/layoutEngine';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
@@ -72,242 +74,47 @@ export const LayoutManager: React.FC<LayoutManagerProps> = ({
   // Animation values
   const layoutTransition = useSharedValue(0);
 
-  // Calculate layout positions based on mode
+  // Calculate layout positions based on mode; streams the layout has no
+  // tile for (the rest in fullscreen) are hidden
   const calculateLayout = (
     mode: LayoutMode,
     containerWidth: number,
     containerHeight: number
   ): StreamPosition[] => {
-    const padding = ModernTheme.spacing.md;
-    const spacing = ModernTheme.spacing.sm;
-    const safeAreaTop = StatusBar.currentHeight || 0;
-    const availableWidth = containerWidth - padding * 2;
-    const availableHeight = containerHeight - padding * 2 - safeAreaTop;
-
-    const streamCount = children.length;
-    if (streamCount === 0) {return [];}
-
-    switch (mode) {
-      case 'grid-2x2':
-        return calculateGrid2x2(streamCount, availableWidth, availableHeight, padding, spacing);
-
-      case 'grid-3x1':
-        return calculateGrid3x1(streamCount, availableWidth, availableHeight, padding, spacing);
-
-      case 'grid-4x1':
-        return calculateGrid4x1(streamCount, availableWidth, availableHeight, padding, spacing);
-
-      case 'grid-1x4':
-        return calculateGrid1x4(streamCount, availableWidth, availableHeight, padding, spacing);
-
-      case 'pip':
-        return calculatePiPLayout(streamCount, availableWidth, availableHeight, padding, spacing);
-
-      case 'fullscreen':
-        return calculateFullscreenLayout(streamCount, availableWidth, availableHeight, padding);
-
-      case 'custom':
-        return (
-          customPositions ||
-          calculateGrid2x2(streamCount, availableWidth, availableHeight, padding, spacing)
-
-      default:
-        return calculateGrid2x2(streamCount, availableWidth, availableHeight, padding, spacing);
-    }
-  };
-
-  // 2x2 Grid Layout
-  const calculateGrid2x2 = (
-    count: number,
-    width: number,
-    height: number,
-    padding: number,
-    spacing: number
-  ): StreamPosition[] => {
-    const positions: StreamPosition[] = [];
-    const itemWidth = (width - spacing) / 2;
-    const itemHeight = (height - spacing) / 2;
-
-    for (let i = 0; i < Math.min(count, 4); i++) {
-      const row = Math.floor(i / 2);
-      const col = i % 2;
-
-      positions.push({
-        id: `stream-${i}`,
-        x: padding + col * (itemWidth + spacing),
-        y: padding + row * (itemHeight + spacing),
-        width: itemWidth,
-        height: itemHeight,
-        zIndex: 1,
-        isVisible: true,
-      });
-    }
-
-    return positions;
-  };
-
-  // 3x1 Grid Layout (3 horizontal)
-  const calculateGrid3x1 = (
-    count: number,
-    width: number,
-    height: number,
-    padding: number,
-    spacing: number
-  ): StreamPosition[] => {
-    const positions: StreamPosition[] = [];
-    const itemWidth = (width - spacing * 2) / 3;
-    const itemHeight = height;
-
-    for (let i = 0; i < Math.min(count, 3); i++) {
-      positions.push({
-        id: `stream-${i}`,
-        x: padding + i * (itemWidth + spacing),
-        y: padding,
-        width: itemWidth,
-        height: itemHeight,
-        zIndex: 1,
-        isVisible: true,
-      });
+    if (children.length === 0) {
+      return [];
     }
-
-    return positions;
-  };
-
-  // 4x1 Grid Layout (4 horizontal)
-  const calculateGrid4x1 = (
-    count: number,
-    width: number,
-    height: number,
-    padding: number,
-    spacing: number
-  ): StreamPosition[] => {
-    const positions: StreamPosition[] = [];
-    const itemWidth = (width - spacing * 3) / 4;
-    const itemHeight = height;
-
-    for (let i = 0; i < Math.min(count, 4); i++) {
-      positions.push({
-        id: `stream-${i}`,
-        x: padding + i * (itemWidth + spacing),
-        y: padding,
-        width: itemWidth,
-        height: itemHeight,
-        zIndex: 1,
-        isVisible: true,
-      });
+    if (mode === 'custom' && customPositions) {
+      return customPositions;
     }
 
-    return positions;
-  };
-
-  // 1x4 Grid Layout (4 vertical)
-  const calculateGrid1x4 = (
-    count: number,
-    width: number,
-    height: number,
-    padding: number,
-    spacing: number
-  ): StreamPosition[] => {
-    const positions: StreamPosition[] = [];
-    const itemWidth = width;
-    const itemHeight = (height - spacing * 3) / 4;
-
-    for (let i = 0; i < Math.min(count, 4); i++) {
-      positions.push({
-        id: `stream-${i}`,
-        x: padding,
-        y: padding + i * (itemHeight + spacing),
-        width: itemWidth,
-        height: itemHeight,
-        zIndex: 1,
+    // Fullscreen runs edge to edge; everything else is padded below the status bar
+    const safeAreaTop = StatusBar.currentHeight || 0;
+    const fullscreen = mode === 'fullscreen';
+    const container: LayoutContainer = {
+      width: containerWidth,
+      height: fullscreen ? containerHeight : containerHeight - safeAreaTop,
+      padding: fullscreen ? 0 : ModernTheme.spacing.md,
+      gap: fullscreen ? 0 : ModernTheme.spacing.sm,
+    };
+    const ids = children.map((_, index) => `stream-${index}`);
+    const solved = solvePreset(mode === 'custom' ? '2x2' : toLayoutPreset(mode), ids, container);
+
+    return ids.map(id => {
+      const tile = solved.find(candidate => candidate.streamId === id);
+      if (!tile) {
+        return { id, x: -1000, y: -1000, width: 0, height: 0, zIndex: 0, isVisible: false };
+      }
+      return {
+        id,
+        x: tile.x,
+        y: tile.y,
+        width: tile.width,
+        height: tile.height,
+        zIndex: tile.zIndex,
         isVisible: true,
-      });
-    }
-
-    return positions;
-  };
-
-  // Picture-in-Picture Layout
-  const calculatePiPLayout = (
-    count: number,
-    width: number,
-    height: number,
-    padding: number,
-    spacing: number
-  ): StreamPosition[] => {
-    const positions: StreamPosition[] = [];
-
-    if (count === 0) {return positions;}
-
-    // Main stream (fullscreen)
-    positions.push({
-      id: 'stream-0',
-      x: padding,
-      y: padding,
-      width,
-      height,
-      zIndex: 1,
-      isVisible: true,
+      };
     });
-
-    // PiP streams (small overlays)
-    const pipWidth = width * 0.25;
-    const pipHeight = height * 0.25;
-    const pipSpacing = ModernTheme.spacing.sm;
-
-    for (let i = 1; i < count && i < 5; i++) {
-      const col = (i - 1) % 2;
-      const row = Math.floor((i - 1) / 2);
-
-      positions.push({
-        id: `stream-${i}`,
-        x: width - pipWidth - padding - col * (pipWidth + pipSpacing),
-        y: padding + pipSpacing + row * (pipHeight + pipSpacing),
-        width: pipWidth,
-        height: pipHeight,
-        zIndex: 10 + i,
-        isVisible: true,
-      });
-    }
-
-    return positions;
-  };
-
-  // Fullscreen Layout (single stream)
-  const calculateFullscreenLayout = (
-    count: number,
-    width: number,
-    height: number,
-    padding: number
-  ): StreamPosition[] => {
-    const positions: StreamPosition[] = [];
-
-    if (count > 0) {
-      positions.push({
-        id: 'stream-0',
-        x: 0,
-        y: 0,
-        width: width + padding * 2,
-        height: height + padding * 2,
-        zIndex: 1,
-        isVisible: true,
-      });
-    }
-
-    // Hide other streams in fullscreen mode
-    for (let i = 1; i < count; i++) {
-      positions.push({
-        id: `stream-${i}`,
-        x: -1000, // Move off-screen
-        y: -1000,
-        width: 0,
-        height: 0,
-        zIndex: 0,
-        isVisible: false,
-      });
-    }
-
-    return positions;
   };
 
   // Get current layout positions
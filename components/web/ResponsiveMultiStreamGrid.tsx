@@ -1,7 +1,13 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { UnifiedStream } from '@/services/platformService';
 import { useCrossPlatformStore } from '@/store/useCrossPlatformStore';
+import { SolvedTile } from '@/types/layout';
 import { platformDetection } from '@/utils/crossPlatformStorage';
+import { solvePreset } from '@/utils/layoutEngine';
+
+// Tile id of the "+ Add Stream" slot, laid out like one more stream
+const ADD_SLOT_ID = 'add-stream-slot';
+const GRID_SPACING = 4;
 
 interface ResponsiveMultiStreamGridProps {
   streams: UnifiedStream[];
@@ -11,13 +17,6 @@ interface ResponsiveMultiStreamGridProps {
   className?: string;
 }
 
-interface GridDimensions {
-  width: number;
-  height: number;
-  columns: number;
-  rows: number;
-}
-
 const ResponsiveMultiStreamGrid: React.FC<ResponsiveMultiStreamGridProps> = ({
   streams,
   onStreamSelect,
@@ -25,12 +24,7 @@ const ResponsiveMultiStreamGrid: React.FC<ResponsiveMultiStreamGridProps> = ({
   maxStreams = 4,
   className = '',
 }) => {
-  const [dimensions, setDimensions] = useState<GridDimensions>({
-    width: 0,
-    height: 0,
-    columns: 2,
-    rows: 2,
-  });
+  const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
   const [fullscreenStream, setFullscreenStream] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const gridRef = useRef<HTMLDivElement>(null);
@@ -39,58 +33,12 @@ const ResponsiveMultiStreamGrid: React.FC<ResponsiveMultiStreamGridProps> = ({
   // Cross-platform store
   const { webSettings, updateWebSettings } = useCrossPlatformStore();
 
-  // Calculate optimal grid layout based on container size and stream count
-  const calculateGridLayout = (
-    containerWidth: number,
-    containerHeight: number,
-    streamCount: number
-  ) => {
-    const aspectRatio = 16 / 9; // Standard video aspect ratio
-    const minStreamWidth = 320;
-    const minStreamHeight = 180;
-
-    let bestLayout = { columns: 1, rows: 1 };
-    let bestScore = 0;
-
-    // Try different grid configurations
-    for (let cols = 1; cols <= Math.ceil(Math.sqrt(streamCount)); cols++) {
-      const rows = Math.ceil(streamCount / cols);
-      const streamWidth = containerWidth / cols;
-      const streamHeight = containerHeight / rows;
-
-      // Check if streams fit with minimum dimensions
-      if (streamWidth >= minStreamWidth && streamHeight >= minStreamHeight) {
-        // Calculate how well this layout uses the available space
-        const usedSpace =
-          (streamWidth * streamHeight * streamCount) / (containerWidth * containerHeight);
-        const aspectRatioFit =
-          Math.min(streamWidth / streamHeight, streamHeight / streamWidth) / aspectRatio;
-
-        const score = usedSpace * aspectRatioFit;
-
-        if (score > bestScore) {
-          bestScore = score;
-          bestLayout = { columns: cols, rows };
-        }
-      }
-    }
-
-    return bestLayout;
-  };
-
   // Handle container resize
   useEffect(() => {
     const handleResize = () => {
       if (gridRef.current) {
         const rect = gridRef.current.getBoundingClientRect();
-        const layout = calculateGridLayout(rect.width, rect.height, streams.length);
-
-        setDimensions({
-          width: rect.width,
-          height: rect.height,
-          columns: layout.columns,
-          rows: layout.rows,
-        });
+        setDimensions({ width: rect.width, height: rect.height });
       }
     };
 
@@ -113,7 +61,32 @@ const ResponsiveMultiStreamGrid: React.FC<ResponsiveMultiStreamGridProps> = ({
         window.removeEventListener('resize', handleResize);
       }
     };
-  }, [streams.length]);
+  }, []);
+
+  // The adaptive layout picks the grid that shows the most video at the
+  // current size, so the grid follows window resizes
+  const slotIds = streams.map(stream => stream.id);
+  if (streams.length < maxStreams) {
+    slotIds.push(ADD_SLOT_ID);
+  }
+  const tiles = solvePreset('adaptive', slotIds, {
+    ...dimensions,
+    gap: GRID_SPACING,
+    padding: GRID_SPACING,
+  });
+  const tileFor = (id: string) => tiles.find(tile => tile.streamId === id);
+  const tileStyle = (tile?: SolvedTile): React.CSSProperties => {
+    if (!tile) {
+      return { display: 'none' };
+    }
+    return {
+      position: 'absolute',
+      left: tile.x,
+      top: tile.y,
+      width: tile.width,
+      height: tile.height,
+    };
+  };
 
   // Handle keyboard shortcuts (web-specific)
   useEffect(() => {
@@ -209,9 +182,10 @@ const ResponsiveMultiStreamGrid: React.FC<ResponsiveMultiStreamGridProps> = ({
 
     const isFullscreen = fullscreenStream === stream.id;
     const itemStyle: React.CSSProperties = {
-      position: 'relative',
-      width: isFullscreen ? '100%' : `${100 / dimensions.columns}%`,
-      height: isFullscreen ? '100%' : `${100 / dimensions.rows}%`,
+      ...(isFullscreen
+        ? { position: 'absolute', left: 0, top: 0, width: '100%', height: '100%' }
+        : tileStyle(tileFor(stream.id))),
+      boxSizing: 'border-box',
       border: '1px solid #333',
       borderRadius: '8px',
       overflow: 'hidden',
@@ -361,7 +335,9 @@ const ResponsiveMultiStreamGrid: React.FC<ResponsiveMultiStreamGridProps> = ({
                   color:
                     stream.platform === 'twitch'
                       ? '#9146FF'
-                  stream.platform === 'youtube' ? '#FF0000' : '#53FC18'
+                      : stream.platform === 'youtube'
+                        ? '#FF0000'
+                        : '#53FC18',
                 }}
               >
                 {stream.platform.toUpperCase()}
@@ -436,12 +412,8 @@ const ResponsiveMultiStreamGrid: React.FC<ResponsiveMultiStreamGridProps> = ({
 
   // Main grid styles
   const gridStyle: React.CSSProperties = {
-    display: 'flex',
-    flexWrap: 'wrap',
     width: '100%',
     height: '100%',
-    gap: '4px',
-    padding: '4px',
     backgroundColor: '#111',
     borderRadius: '8px',
     position: 'relative',
@@ -470,8 +442,8 @@ const ResponsiveMultiStreamGrid: React.FC<ResponsiveMultiStreamGridProps> = ({
         {streams.length < maxStreams && (
           <div
             style={{
-              flex: 1,
-              minHeight: '180px',
+              ...tileStyle(tileFor(ADD_SLOT_ID)),
+              boxSizing: 'border-box',
               border: '2px dashed #333',
               borderRadius: '8px',
               display: 'flex',
@@ -1,6 +1,19 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { useAuth as useClerkAuth, useUser as useClerkUser } from '@clerk/clerk-expo';
 import { authService, User, AuthError } from '@/services/authService';
+import {
+  getTwitchAccessToken,
+  TwitchAuthError,
+  TwitchAuthSession,
+  twitchAuthService,
+} from '@/services/twitchAuthService';
+import { twitchChatService } from '@/services/twitchChatService';
+
+interface TwitchAccount {
+  userId: string;
+  login: string;
+  scopes: string[];
+}
 
 interface AuthContextType {
   user: User | null;
@@ -13,6 +26,11 @@ interface AuthContextType {
   continueAsGuest: () => void;
   updateProfile: (updates: Partial<User>) => Promise<{ error: AuthError | null }>;
   updateSubscription: (tier: 'free' | 'pro' | 'premium', status: 'active' | 'inactive' | 'cancelled' | 'past_due') => Promise<{ error: AuthError | null }>;
+  // Linked Twitch account, independent of the Clerk login; used for chat
+  twitchAccount: TwitchAccount | null;
+  // Pass extra scopes (e.g. TWITCH_MODERATION_SCOPES) to re-link with more permissions
+  connectTwitch: (scopes?: string[]) => Promise<{ error: AuthError | null }>;
+  disconnectTwitch: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -24,6 +42,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isGuestMode, setIsGuestMode] = useState(false);
+  const [twitchSession, setTwitchSession] = useState<TwitchAuthSession | null>(
+    twitchAuthService.getSession()
+  );
 
   useEffect(() => {
     if (clerkIsLoaded) {
@@ -31,6 +52,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, [clerkIsLoaded, clerkIsSignedIn, clerkUser]);
 
+  useEffect(() => {
+    const unsubscribe = twitchAuthService.subscribe(setTwitchSession);
+    twitchAuthService.load().then(setTwitchSession);
+    return unsubscribe;
+  }, []);
+
+  // Chat sends as the linked account; without chat:edit it stays read-only
+  const twitchChatLogin = twitchSession?.scopes.includes('chat:edit') ? twitchSession.login : null;
+  useEffect(() => {
+    twitchChatService.setCredentials(
+      twitchChatLogin ? { login: twitchChatLogin, getToken: getTwitchAccessToken } : null
+    );
+  }, [twitchChatLogin]);
+
   const initializeAuth = async () => {
     try {
       setIsLoading(true);
@@ -210,6 +245,31 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const connectTwitch = async (scopes?: string[]): Promise<{ error: AuthError | null }> => {
+    try {
+      await twitchAuthService.signIn(scopes);
+      return { error: null };
+    } catch (error: any) {
+      if (error instanceof TwitchAuthError && error.code === 'cancelled') {
+        return { error: null };
+      }
+      return {
+        error: {
+          message: error.message || 'Twitch sign-in failed',
+          type: error instanceof TwitchAuthError && error.code !== 'network' ? 'auth' : 'network',
+        },
+      };
+    }
+  };
+
+  const disconnectTwitch = async (): Promise<void> => {
+    await twitchAuthService.signOut();
+  };
+
+  const twitchAccount = twitchSession
+    ? { userId: twitchSession.userId, login: twitchSession.login, scopes: twitchSession.scopes }
+    : null;
+
   return (
     <AuthContext.Provider
       value={{
@@ -223,6 +283,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         continueAsGuest,
         updateProfile,
         updateSubscription,
+        twitchAccount,
+        connectTwitch,
+        disconnectTwitch,
       }}
     >
       {children}
@@ -1,8 +1,23 @@
-import React, { createContext, useContext, ReactNode } from 'react';
+import React, {
+  createContext,
+  useContext,
+  ReactNode,
+  useCallback,
+  useEffect,
+  useMemo,
+} from 'react';
+import { useLiveStatusRefresh } from '@/hooks/useLiveStatusRefresh';
 import { useStreamManager } from '@/hooks/useStreamManager';
+import { useWatchHistoryTracker } from '@/hooks/useWatchHistoryTracker';
+import { goLiveService } from '@/services/goLiveService';
+import { LiveStatusUpdate } from '@/services/liveStatusService';
+import { useAppStore } from '@/store/useAppStore';
 
 // Define the context type
-type StreamManagerContextType = ReturnType<typeof useStreamManager>;
+type StreamManagerContextType = ReturnType<typeof useStreamManager> & {
+  /** Re-fetches live status for active and favorite streams now */
+  refreshLiveStatus: () => Promise<void>;
+};
 
 // Create the context
 const StreamManagerContext = createContext<StreamManagerContextType | undefined>(undefined);
@@ -14,6 +29,36 @@ interface StreamManagerProviderProps {
 
 export const StreamManagerProvider: React.FC<StreamManagerProviderProps> = ({ children }) => {
   const streamManager = useStreamManager();
+  const { activeStreams, favorites, applyStreamUpdates } = streamManager;
+  const storeStreams = useAppStore(state => state.activeStreams);
+  const updateStoreStreams = useAppStore(state => state.updateStreams);
+
+  // Grid streams, favorites and the layout store are refreshed together
+  const trackedStreams = useMemo(
+    () => [...activeStreams, ...favorites, ...storeStreams],
+    [activeStreams, favorites, storeStreams]
+  );
+  const handleLiveStatus = useCallback(
+    (updates: LiveStatusUpdate[]) => {
+      const changes = Object.fromEntries(updates.map(update => [update.streamId, update.changes]));
+      applyStreamUpdates(changes);
+      updateStoreStreams(changes);
+    },
+    [applyStreamUpdates, updateStoreStreams]
+  );
+  const refreshLiveStatus = useLiveStatusRefresh(trackedStreams, handleLiveStatus);
+
+  // Favorites get go-live notifications
+  useEffect(() => {
+    goLiveService.watch(favorites);
+  }, [favorites]);
+
+  // Time spent on grid streams goes into watch history
+  useWatchHistoryTracker(activeStreams);
+  const value = useMemo(
+    () => ({ ...streamManager, refreshLiveStatus }),
+    [streamManager, refreshLiveStatus]
+  );
   
   // Debug logging for context state changes
   React.useEffect(() => {
@@ -21,7 +66,7 @@ export const StreamManagerProvider: React.FC<StreamManagerProviderProps> = ({ ch
   }, [streamManager.activeStreams]);
   
   return (
-    <StreamManagerContext.Provider value={streamManager}>
+    <StreamManagerContext.Provider value={value}>
       {children}
     </StreamManagerContext.Provider>
   );
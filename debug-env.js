@@ -1,6 +1,6 @@
 // Temporary debug file to check environment variables
 console.log('=== Environment Variables Debug ===');
 console.log('EXPO_PUBLIC_TWITCH_CLIENT_ID:', process.env.EXPO_PUBLIC_TWITCH_CLIENT_ID);
-console.log('EXPO_PUBLIC_TWITCH_CLIENT_SECRET:', process.env.EXPO_PUBLIC_TWITCH_CLIENT_SECRET);
+console.log('EXPO_PUBLIC_TWITCH_PROXY_URL:', process.env.EXPO_PUBLIC_TWITCH_PROXY_URL);
 console.log('All EXPO_PUBLIC vars:', Object.keys(process.env).filter(key => key.startsWith('EXPO_PUBLIC')));
 console.log('=== End Debug ===');
\ No newline at end of file
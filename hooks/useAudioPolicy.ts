@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react';
+import { audioPolicyService, TileAudio } from '@/services/audioPolicyService';
+import { AudioPolicy } from '@/types/layout';
+import { Stream } from '@/types/stream';
+
+export interface AudioPolicyState {
+  policy: AudioPolicy;
+  focusedStreamId: string | null;
+  getTileAudio: (streamId: string) => TileAudio;
+  focus: (streamId: string | null) => void;
+}
+
+/**
+ * The grid's side of audioPolicyService: keeps the service's streams in step
+ * with the grid and re-renders whenever a tile's level or the focus changes.
+ * Policy edits go straight to the service.
+ */
+export function useAudioPolicy(streams: Stream[]): AudioPolicyState {
+  const [, setVersion] = useState(0);
+
+  useEffect(() => {
+    audioPolicyService.initialize();
+    return audioPolicyService.subscribe(() => setVersion(version => version + 1));
+  }, []);
+
+  useEffect(() => {
+    audioPolicyService.setStreams(streams);
+  }, [streams]);
+
+  // The grid unmounting takes its streams out of the mix and stops auto focus
+  useEffect(() => () => audioPolicyService.setStreams([]), []);
+
+  const getTileAudio = useCallback(
+    (streamId: string) => audioPolicyService.getTileAudio(streamId),
+    []
+  );
+  const focus = useCallback((streamId: string | null) => audioPolicyService.focus(streamId), []);
+
+  return {
+    policy: audioPolicyService.getPolicy(),
+    focusedStreamId: audioPolicyService.getFocusedStreamId(),
+    getTileAudio,
+    focus,
+  };
+}
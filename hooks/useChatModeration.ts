@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Alert } from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { subscribeToChatSource } from '@/services/chatSources';
+import {
+  ChatModerationError,
+  ChatModerationTarget,
+  ChatModLogEntry,
+  contentModerationService,
+  HeldChatMessage,
+} from '@/services/contentModerationService';
+import { TWITCH_CHAT_SCOPES, TWITCH_MODERATION_SCOPES } from '@/services/twitchAuthService';
+import { ChatEvent, ChatMessage } from '@/types/chat';
+
+const MAX_USER_MESSAGES = 50;
+
+export interface ChatModerationState {
+  /** Channel the mod actions apply to, once its Twitch user id is known */
+  target: ChatModerationTarget | null;
+  modLog: ChatModLogEntry[];
+  /** Messages AutoMod is holding; empty unless the user moderates the channel */
+  heldMessages: HeldChatMessage[];
+  /** Why held messages can't be loaded, e.g. missing moderator scopes */
+  heldError: string | null;
+  /** Messages a user sent while this chat was open, oldest first */
+  getUserMessages: (login: string) => ChatMessage[];
+}
+
+/**
+ * Moderation state for a Twitch chat: the channel's mod log, the AutoMod
+ * queue and per-user message history for user cards. History is kept for
+ * everyone; the log and queue only load while `isModerator` is true.
+ */
+export function useChatModeration(
+  channel: string | null,
+  channelId: string | null,
+  isModerator: boolean
+): ChatModerationState {
+  const [modLog, setModLog] = useState<ChatModLogEntry[]>([]);
+  const [heldMessages, setHeldMessages] = useState<HeldChatMessage[]>([]);
+  const [heldError, setHeldError] = useState<string | null>(null);
+  const history = useRef(new Map<string, ChatMessage[]>());
+  const { twitchAccount } = useAuth();
+  // Re-subscribe once the account is re-linked with the AutoMod scope
+  const canManageAutomod = !!twitchAccount?.scopes.includes('moderator:manage:automod');
+
+  const target = useMemo<ChatModerationTarget | null>(
+    () => (channel && channelId ? { channel, broadcasterId: channelId } : null),
+    [channel, channelId]
+  );
+
+  useEffect(() => {
+    history.current = new Map();
+    if (!channel) {
+      return;
+    }
+
+    const updateUser = (login: string, update: (messages: ChatMessage[]) => ChatMessage[]) => {
+      const messages = history.current.get(login);
+      if (messages) {
+        history.current.set(login, update(messages));
+      }
+    };
+
+    const handleEvent = (event: ChatEvent) => {
+      switch (event.type) {
+        case 'message': {
+          const login = event.message.username;
+          if (!login) {
+            break;
+          }
+          const messages = history.current.get(login) || [];
+          history.current.set(login, [...messages.slice(-(MAX_USER_MESSAGES - 1)), event.message]);
+          break;
+        }
+        case 'clearchat':
+          if (event.login) {
+            updateUser(event.login, messages =>
+              messages.map(message => ({ ...message, isDeleted: true }))
+            );
+          }
+          break;
+        case 'clearmsg':
+          history.current.forEach((messages, login) => {
+            if (messages.some(message => message.id === event.messageId)) {
+              updateUser(login, current =>
+                current.map(message =>
+                  message.id === event.messageId ? { ...message, isDeleted: true } : message
+                )
+              );
+            }
+          });
+          break;
+      }
+    };
+
+    return subscribeToChatSource({ kind: 'twitch-irc', channel }, handleEvent);
+  }, [channel]);
+
+  useEffect(() => {
+    setModLog([]);
+    if (!channel || !isModerator) {
+      return;
+    }
+
+    const unsubscribeLog = contentModerationService.subscribeToChatModLog(channel, setModLog);
+    const unsubscribeChat = subscribeToChatSource({ kind: 'twitch-irc', channel }, event => {
+      if (event.type === 'clearchat' || event.type === 'clearmsg') {
+        contentModerationService.recordChatModEvent(channel, event);
+      }
+    });
+
+    return () => {
+      unsubscribeLog();
+      unsubscribeChat();
+    };
+  }, [channel, isModerator]);
+
+  useEffect(() => {
+    setHeldMessages([]);
+    setHeldError(null);
+    if (!target || !isModerator) {
+      return;
+    }
+
+    return contentModerationService.subscribeToHeldMessages(target, setHeldMessages, error =>
+      setHeldError(error.message)
+    );
+  }, [target, isModerator, canManageAutomod]);
+
+  const getUserMessages = useCallback(
+    (login: string) => history.current.get(login.toLowerCase()) || [],
+    []
+  );
+
+  return { target, modLog, heldMessages, heldError, getUserMessages };
+}
+
+/**
+ * Runs a mod action and reports failures. When the linked account lacks
+ * moderator scopes it offers to re-link Twitch with them.
+ */
+export function useModerationAction() {
+  const { connectTwitch } = useAuth();
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = useCallback(
+    async (action: () => Promise<void>): Promise<boolean> => {
+      setIsBusy(true);
+      try {
+        await action();
+        return true;
+      } catch (error) {
+        if (error instanceof ChatModerationError && error.code === 'missing-scope') {
+          Alert.alert('Moderator Permissions Needed', error.message, [
+            { text: 'Cancel', style: 'cancel' },
+            {
+              text: 'Grant',
+              onPress: async () => {
+                const result = await connectTwitch([
+                  ...TWITCH_CHAT_SCOPES,
+                  ...TWITCH_MODERATION_SCOPES,
+                ]);
+                if (result.error) {
+                  Alert.alert('Twitch Sign-In Failed', result.error.message);
+                }
+              },
+            },
+          ]);
+        } else {
+          Alert.alert(
+            'Moderation Failed',
+            error instanceof Error ? error.message : 'Could not complete the action'
+          );
+        }
+        return false;
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [connectTwitch]
+  );
+
+  return { run, isBusy };
+}
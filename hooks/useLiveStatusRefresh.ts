@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { LiveStatusUpdate, liveStatusService } from '@/services/liveStatusService';
+import { Stream } from '@/types/stream';
+
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Keeps live status, viewer counts, titles and categories of `streams`
+ * current with one batched refresh a minute, plus one whenever the set of
+ * streams changes or the app returns to the foreground. Polling stops while
+ * the app is in the background. Returns a function that refreshes now.
+ */
+export function useLiveStatusRefresh(
+  streams: Stream[],
+  onUpdates: (updates: LiveStatusUpdate[]) => void
+): () => Promise<void> {
+  const streamsRef = useRef(streams);
+  const onUpdatesRef = useRef(onUpdates);
+  const inFlight = useRef<Promise<void> | null>(null);
+  streamsRef.current = streams;
+  onUpdatesRef.current = onUpdates;
+
+  const refresh = useCallback(() => {
+    if (!inFlight.current) {
+      inFlight.current = liveStatusService
+        .refresh(streamsRef.current)
+        .then(updates => {
+          if (updates.length) {
+            onUpdatesRef.current(updates);
+          }
+        })
+        .catch(error => console.error('❌ Live status refresh failed:', error))
+        .finally(() => {
+          inFlight.current = null;
+        });
+    }
+    return inFlight.current;
+  }, []);
+
+  // Stream ids, so data changes from a refresh don't trigger another one
+  const streamIds = Array.from(new Set(streams.map(stream => stream.id)))
+    .sort()
+    .join(',');
+
+  useEffect(() => {
+    if (!streamIds) {
+      return;
+    }
+
+    let interval: ReturnType<typeof setInterval> | null = null;
+    const start = () => {
+      refresh();
+      interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    };
+    const stop = () => {
+      if (interval) {
+        clearInterval(interval);
+        interval = null;
+      }
+    };
+
+    if (AppState.currentState === 'active') {
+      start();
+    }
+    const subscription = AppState.addEventListener('change', state => {
+      stop();
+      if (state === 'active') {
+        start();
+      }
+    });
+
+    return () => {
+      stop();
+      subscription.remove();
+    };
+  }, [streamIds, refresh]);
+
+  return refresh;
+}
@@ -0,0 +1,247 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { isChatSourceSupported, subscribeToChatSource } from '@/services/chatSources';
+import { platformRegistry } from '@/services/platformProviders';
+import { PlatformChatSource } from '@/services/platformRegistry';
+import { ChatConnectionStatus, ChatEvent, ChatMessage } from '@/types/chat';
+import { Stream } from '@/types/stream';
+import { getPlatformColor } from '@/utils/platforms';
+
+const MAX_MESSAGES = 500;
+// Incoming messages are applied in batches so busy chats re-render a few
+// times a second instead of once per message
+const FLUSH_INTERVAL_MS = 250;
+
+export interface MergedChatChannel {
+  /** Id of the stream the chat belongs to */
+  id: string;
+  stream: Stream;
+  source: PlatformChatSource | null;
+  label: string;
+  color: string;
+  status: ChatConnectionStatus;
+  isSupported: boolean;
+}
+
+export interface MergedChatMessage {
+  /** Unique across channels; platform message ids are only unique per channel */
+  key: string;
+  channelId: string;
+  message: ChatMessage;
+}
+
+export interface MergedChatOptions {
+  /** Channels whose messages are dropped and hidden */
+  mutedChannelIds?: string[];
+}
+
+export interface MergedChatState {
+  /** Oldest first, interleaved by timestamp */
+  messages: MergedChatMessage[];
+  channels: MergedChatChannel[];
+  /** Logins the viewer is signed in as, for mention matching */
+  identities: string[];
+}
+
+type QueuedEvent =
+  | { type: 'message'; entry: MergedChatMessage }
+  | {
+      type: 'delete';
+      channelId: string;
+      event: Extract<ChatEvent, { type: 'clearchat' | 'clearmsg' }>;
+    };
+
+const isCleared = (
+  event: Extract<ChatEvent, { type: 'clearchat' | 'clearmsg' }>,
+  message: ChatMessage
+): boolean => {
+  if (event.type === 'clearmsg') {
+    return message.id === event.messageId;
+  }
+  return !event.login || message.username === event.login;
+};
+
+const markDeleted = (
+  entries: MergedChatMessage[],
+  channelId: string,
+  event: Extract<ChatEvent, { type: 'clearchat' | 'clearmsg' }>
+): MergedChatMessage[] => {
+  const matches = (entry: MergedChatMessage) =>
+    entry.channelId === channelId && !entry.message.isDeleted && isCleared(event, entry.message);
+
+  if (!entries.some(matches)) {
+    return entries;
+  }
+  return entries.map(entry =>
+    matches(entry) ? { ...entry, message: { ...entry.message, isDeleted: true } } : entry
+  );
+};
+
+/**
+ * Merges a batch into the already sorted list. Batches almost always land
+ * after the tail, so the full merge only runs for late-arriving messages.
+ */
+const mergeByTimestamp = (
+  sorted: MergedChatMessage[],
+  batch: MergedChatMessage[]
+): MergedChatMessage[] => {
+  const time = (entry: MergedChatMessage) => entry.message.timestamp.getTime();
+  const incoming = [...batch].sort((a, b) => time(a) - time(b));
+
+  const last = sorted[sorted.length - 1];
+  if (!last || time(incoming[0]) >= time(last)) {
+    return sorted.concat(incoming);
+  }
+
+  const merged: MergedChatMessage[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < sorted.length || j < incoming.length) {
+    if (j >= incoming.length || (i < sorted.length && time(sorted[i]) <= time(incoming[j]))) {
+      merged.push(sorted[i++]);
+    } else {
+      merged.push(incoming[j++]);
+    }
+  }
+  return merged;
+};
+
+/**
+ * One combined chat for several streams: every supported chat source is
+ * subscribed and its messages interleaved by timestamp.
+ */
+export function useMergedChat(streams: Stream[], options: MergedChatOptions = {}): MergedChatState {
+  const [messages, setMessages] = useState<MergedChatMessage[]>([]);
+  const [statuses, setStatuses] = useState<Record<string, ChatConnectionStatus>>({});
+  const [identities, setIdentities] = useState<Record<string, string | null>>({});
+  const queueRef = useRef<QueuedEvent[]>([]);
+
+  const mutedKey = (options.mutedChannelIds || []).join(',');
+  const muted = useMemo(() => new Set(mutedKey ? mutedKey.split(',') : []), [mutedKey]);
+  const mutedRef = useRef(muted);
+  mutedRef.current = muted;
+
+  const sources = useMemo(
+    () =>
+      streams.map(stream => ({
+        stream,
+        source: platformRegistry.get(stream.platform)?.getChatSource(stream) || null,
+      })),
+    [streams]
+  );
+
+  // Resubscribe only when the set of chat sources changes, not on every stream refresh
+  const sourcesKey = sources
+    .map(({ stream, source }) => `${stream.id}|${source?.kind}|${source?.channel}`)
+    .join(',');
+  const sourcesRef = useRef(sources);
+  sourcesRef.current = sources;
+
+  useEffect(() => {
+    const active = sourcesRef.current.flatMap(({ stream, source }) =>
+      isChatSourceSupported(source) ? [{ stream, source }] : []
+    );
+    if (active.length === 0) {
+      return;
+    }
+
+    const unsubscribers = active.map(({ stream, source }) =>
+      subscribeToChatSource(source, event => {
+        switch (event.type) {
+          case 'message':
+            if (!mutedRef.current.has(stream.id)) {
+              queueRef.current.push({
+                type: 'message',
+                entry: {
+                  key: `${stream.id}:${event.message.id}`,
+                  channelId: stream.id,
+                  message: event.message,
+                },
+              });
+            }
+            break;
+          case 'clearchat':
+          case 'clearmsg':
+            queueRef.current.push({ type: 'delete', channelId: stream.id, event });
+            break;
+          case 'status':
+            setStatuses(prev => ({ ...prev, [stream.id]: event.status }));
+            break;
+          case 'identity':
+            setIdentities(prev => ({ ...prev, [stream.id]: event.login }));
+            break;
+        }
+      })
+    );
+
+    const flush = () => {
+      const queued = queueRef.current;
+      if (queued.length === 0) {
+        return;
+      }
+      queueRef.current = [];
+
+      setMessages(prev => {
+        let next = prev;
+        let batch: MergedChatMessage[] = [];
+        queued.forEach(item => {
+          if (item.type === 'message') {
+            batch.push(item.entry);
+          } else {
+            next = markDeleted(next, item.channelId, item.event);
+            batch = markDeleted(batch, item.channelId, item.event);
+          }
+        });
+
+        if (batch.length > 0) {
+          next = mergeByTimestamp(next, batch.slice(-MAX_MESSAGES));
+        }
+        return next.length > MAX_MESSAGES ? next.slice(-MAX_MESSAGES) : next;
+      });
+    };
+
+    const timer = setInterval(flush, FLUSH_INTERVAL_MS);
+
+    return () => {
+      clearInterval(timer);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      queueRef.current = [];
+    };
+  }, [sourcesKey]);
+
+  // Drop messages of channels that left the grid
+  useEffect(() => {
+    const ids = new Set(sources.map(({ stream }) => stream.id));
+    setMessages(prev =>
+      prev.some(entry => !ids.has(entry.channelId))
+        ? prev.filter(entry => ids.has(entry.channelId))
+        : prev
+    );
+  }, [sources]);
+
+  const channels = useMemo<MergedChatChannel[]>(
+    () =>
+      sources.map(({ stream, source }) => ({
+        id: stream.id,
+        stream,
+        source,
+        label: stream.displayName || stream.username,
+        color: getPlatformColor(stream.platform),
+        status: statuses[stream.id] || 'disconnected',
+        isSupported: isChatSourceSupported(source),
+      })),
+    [sources, statuses]
+  );
+
+  const visibleMessages = useMemo(
+    () => (muted.size > 0 ? messages.filter(entry => !muted.has(entry.channelId)) : messages),
+    [messages, muted]
+  );
+
+  const identityList = useMemo(
+    () =>
+      Array.from(new Set(Object.values(identities).filter((login): login is string => !!login))),
+    [identities]
+  );
+
+  return { messages: visibleMessages, channels, identities: identityList };
+}
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  PictureInPictureAction,
+  PictureInPictureMode,
+  pictureInPictureService,
+} from '@/services/pictureInPictureService';
+import { Stream } from '@/types/stream';
+
+interface UsePictureInPictureOptions {
+  streams: Stream[];
+  focusedStreamId: string | null;
+  muted: boolean;
+  /** Next stream, mute and focus from the PiP window */
+  onAction: (action: PictureInPictureAction) => void;
+}
+
+export interface PictureInPictureControls {
+  isSupported: boolean;
+  mode: PictureInPictureMode;
+  isActive: boolean;
+  enter: () => Promise<void>;
+  exit: () => Promise<void>;
+}
+
+/**
+ * The grid's side of pictureInPictureService: keeps the PiP window showing
+ * what the grid shows and routes its actions back to the grid
+ */
+export function usePictureInPicture({
+  streams,
+  focusedStreamId,
+  muted,
+  onAction,
+}: UsePictureInPictureOptions): PictureInPictureControls {
+  const [mode, setMode] = useState(pictureInPictureService.getMode());
+  const onActionRef = useRef(onAction);
+  onActionRef.current = onAction;
+
+  useEffect(() => pictureInPictureService.subscribe(setMode), []);
+
+  useEffect(() => pictureInPictureService.onAction(action => onActionRef.current(action)), []);
+
+  useEffect(() => {
+    pictureInPictureService.update({ streams, focusedStreamId, muted });
+  }, [streams, focusedStreamId, muted]);
+
+  // Leaving the app while something is audible takes the grid along
+  const hasAudio = streams.length > 0 && !muted;
+  useEffect(() => {
+    pictureInPictureService.setAutoEnterEnabled(hasAudio);
+    return () => pictureInPictureService.setAutoEnterEnabled(false);
+  }, [hasAudio]);
+
+  const enter = useCallback(() => pictureInPictureService.enter(), []);
+  const exit = useCallback(() => pictureInPictureService.exit(), []);
+
+  return {
+    isSupported: pictureInPictureService.isSupported(),
+    mode,
+    isActive: mode !== 'none',
+    enter,
+    exit,
+  };
+}
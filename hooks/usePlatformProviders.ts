@@ -0,0 +1,22 @@
+import { useEffect, useMemo, useState } from 'react';
+import { platformRegistry } from '@/services/platformProviders';
+import { PlatformCapabilities, PlatformProvider } from '@/services/platformRegistry';
+
+/**
+ * Registered platform providers, optionally narrowed to one capability.
+ * Re-renders when a provider is registered or removed at runtime.
+ */
+export function usePlatformProviders(capability?: keyof PlatformCapabilities): PlatformProvider[] {
+  const [providers, setProviders] = useState<PlatformProvider[]>(() => platformRegistry.getAll());
+
+  useEffect(() => {
+    setProviders(platformRegistry.getAll());
+    return platformRegistry.subscribe(setProviders);
+  }, []);
+
+  return useMemo(
+    () =>
+      capability ? providers.filter(provider => provider.capabilities[capability]) : providers,
+    [providers, capability]
+  );
+}
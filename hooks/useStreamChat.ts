@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  isChatSourceSupported,
+  sendChatMessage,
+  subscribeToChatSource,
+} from '@/services/chatSources';
+import { PlatformChatSource } from '@/services/platformRegistry';
+import { ChatConnectionStatus, ChatEvent, ChatMessage, ChatRoomState } from '@/types/chat';
+
+const MAX_MESSAGES = 150;
+
+const DEFAULT_ROOM_STATE: ChatRoomState = {
+  emoteOnly: false,
+  followersOnly: null,
+  slowMode: 0,
+  subsOnly: false,
+};
+
+export interface StreamChatState {
+  messages: ChatMessage[];
+  roomState: ChatRoomState;
+  status: ChatConnectionStatus;
+  /** False when the source has no native chat client (embed-only chat) */
+  isSupported: boolean;
+  /** Platform id of the chat room once the client reports it */
+  channelId: string | null;
+  /** Account messages are sent as; null while reading anonymously */
+  sendAs: string | null;
+  /** Signed-in account moderates (or owns) the channel */
+  isModerator: boolean;
+  /** Rejects with a ChatSendError carrying a user-facing message */
+  sendMessage: (text: string) => Promise<void>;
+}
+
+/**
+ * Live chat for one stream's chat source. Deleted messages and timed-out
+ * users stay in the list flagged `isDeleted` so the UI can collapse them.
+ */
+export function useStreamChat(source: PlatformChatSource | null): StreamChatState {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [roomState, setRoomState] = useState<ChatRoomState>(DEFAULT_ROOM_STATE);
+  const [status, setStatus] = useState<ChatConnectionStatus>('disconnected');
+  const [sendAs, setSendAs] = useState<string | null>(null);
+  const [channelId, setChannelId] = useState<string | null>(null);
+  const [isModerator, setIsModerator] = useState(false);
+
+  const kind = source?.kind;
+  const channel = source?.channel;
+  const url = source?.url;
+  const isSupported = isChatSourceSupported(source);
+
+  useEffect(() => {
+    setMessages([]);
+    setRoomState(DEFAULT_ROOM_STATE);
+    setStatus('disconnected');
+    setSendAs(null);
+    setChannelId(null);
+    setIsModerator(false);
+
+    if (!kind || !channel || !isSupported) {
+      return;
+    }
+
+    const handleEvent = (event: ChatEvent) => {
+      switch (event.type) {
+        case 'message':
+          setMessages(prev => [...prev.slice(-(MAX_MESSAGES - 1)), event.message]);
+          break;
+        case 'clearchat':
+          // Without a target the whole chat was cleared by a moderator
+          setMessages(prev =>
+            prev.map(message =>
+              !event.login || message.username === event.login
+                ? { ...message, isDeleted: true }
+                : message
+            )
+          );
+          break;
+        case 'clearmsg':
+          setMessages(prev =>
+            prev.map(message =>
+              message.id === event.messageId ? { ...message, isDeleted: true } : message
+            )
+          );
+          break;
+        case 'roomstate':
+          setRoomState(prev => ({ ...prev, ...event.state }));
+          if (event.channelId) {
+            setChannelId(event.channelId);
+          }
+          break;
+        case 'userstate':
+          setIsModerator(
+            event.badges.some(badge => badge.id === 'moderator' || badge.id === 'broadcaster')
+          );
+          break;
+        case 'status':
+          setStatus(event.status);
+          break;
+        case 'identity':
+          setSendAs(event.login);
+          if (!event.login) {
+            setIsModerator(false);
+          }
+          break;
+      }
+    };
+
+    return subscribeToChatSource({ kind, channel, url }, handleEvent);
+  }, [kind, channel, url, isSupported]);
+
+  const sendMessage = useCallback(
+    (text: string) => {
+      if (!kind || !channel) {
+        return Promise.reject(new Error('Sending is not supported for this chat'));
+      }
+      return sendChatMessage({ kind, channel, url }, text);
+    },
+    [kind, channel, url]
+  );
+
+  return {
+    messages,
+    roomState,
+    status,
+    isSupported,
+    channelId,
+    sendAs,
+    isModerator,
+    sendMessage,
+  };
+}
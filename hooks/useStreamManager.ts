@@ -1,11 +1,14 @@
 import { useState, useEffect, useCallback } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { TwitchStream } from '@/services/twitchApi';
+import { getChannelKey, isSameChannel, StreamSource, toStream } from '@/services/streamAdapters';
+import { migrateStoredStreamList, STREAM_SCHEMA_VERSION } from '@/store/streamMigrations';
+import { Stream } from '@/types/stream';
 
 const STORAGE_KEYS = {
   ACTIVE_STREAMS: 'streamyyy_active_streams',
   FAVORITES: 'streamyyy_favorites',
   SETTINGS: 'streamyyy_settings',
+  SCHEMA_VERSION: 'streamyyy_stream_schema_version',
 };
 
 interface StreamSettings {
@@ -23,8 +26,8 @@ const DEFAULT_SETTINGS: StreamSettings = {
 };
 
 export function useStreamManager() {
-  const [activeStreams, setActiveStreams] = useState<TwitchStream[]>([]);
-  const [favorites, setFavorites] = useState<TwitchStream[]>([]);
+  const [activeStreams, setActiveStreams] = useState<Stream[]>([]);
+  const [favorites, setFavorites] = useState<Stream[]>([]);
   const [settings, setSettings] = useState<StreamSettings>(DEFAULT_SETTINGS);
   const [loading, setLoading] = useState(true);
   const [isReloading, setIsReloading] = useState(false);
@@ -42,22 +45,32 @@ export function useStreamManager() {
 
     try {
       setIsReloading(true);
-      const [storedStreams, storedFavorites, storedSettings] = await Promise.all([
+      const [storedStreams, storedFavorites, storedSettings, storedVersion] = await Promise.all([
         AsyncStorage.getItem(STORAGE_KEYS.ACTIVE_STREAMS),
         AsyncStorage.getItem(STORAGE_KEYS.FAVORITES),
         AsyncStorage.getItem(STORAGE_KEYS.SETTINGS),
+        AsyncStorage.getItem(STORAGE_KEYS.SCHEMA_VERSION),
       ]);
 
-      if (storedStreams) {
-        const parsedStreams = JSON.parse(storedStreams);
-        console.log('📱 LOADING STORED STREAMS:', parsedStreams.length, 'streams:', parsedStreams.map(s => s.user_name));
-        setActiveStreams(parsedStreams);
+      const parsedStreams = migrateStoredStreamList(storedStreams);
+      const parsedFavorites = migrateStoredStreamList(storedFavorites);
+
+      if (parsedStreams.length > 0) {
+        console.log('📱 LOADING STORED STREAMS:', parsedStreams.length, 'streams:', parsedStreams.map(s => s.displayName));
       } else {
         console.log('📱 NO STORED STREAMS FOUND - Setting empty array');
-        setActiveStreams([]);
       }
-      if (storedFavorites) {
-        setFavorites(JSON.parse(storedFavorites));
+      setActiveStreams(parsedStreams);
+      setFavorites(parsedFavorites);
+
+      // Rewrite data saved by older versions in the canonical stream shape
+      if (Number(storedVersion || 0) < STREAM_SCHEMA_VERSION) {
+        console.log(`📱 MIGRATING STORED STREAMS to schema v${STREAM_SCHEMA_VERSION}`);
+        await AsyncStorage.multiSet([
+          [STORAGE_KEYS.ACTIVE_STREAMS, JSON.stringify(parsedStreams)],
+          [STORAGE_KEYS.FAVORITES, JSON.stringify(parsedFavorites)],
+          [STORAGE_KEYS.SCHEMA_VERSION, String(STREAM_SCHEMA_VERSION)],
+        ]);
       }
       if (storedSettings) {
         setSettings({ ...DEFAULT_SETTINGS, ...JSON.parse(storedSettings) });
@@ -73,14 +86,14 @@ export function useStreamManager() {
     }
   };
 
-  const addStream = useCallback(async (stream: TwitchStream): Promise<{ success: boolean; message: string }> => {
+  const addStream = useCallback(async (stream: Stream): Promise<{ success: boolean; message: string }> => {
     try {
-      console.log('🎯 ADD STREAM CALLED - Stream:', stream.user_name, 'ID:', stream.id);
+      console.log('🎯 ADD STREAM CALLED - Stream:', stream.displayName, 'ID:', stream.id);
 
       // Check current state first
-      const currentStreams = await new Promise<TwitchStream[]>((resolve) => {
+      const currentStreams = await new Promise<Stream[]>((resolve) => {
         setActiveStreams(streams => {
-          console.log('🎯 CURRENT STREAMS IN STATE:', streams.length, 'streams:', streams.map(s => s.user_name));
+          console.log('🎯 CURRENT STREAMS IN STATE:', streams.length, 'streams:', streams.map(s => s.displayName));
           resolve(streams);
           return streams;
         });
@@ -90,7 +103,7 @@ export function useStreamManager() {
 
       const isAlreadyActive = currentStreams.some(s => s.id === stream.id);
       if (isAlreadyActive) {
-        console.log('❌ STREAM ALREADY ACTIVE:', stream.user_name);
+        console.log('❌ STREAM ALREADY ACTIVE:', stream.displayName);
         return { success: false, message: 'Stream is already in your multi-view' };
       }
 
@@ -100,20 +113,20 @@ export function useStreamManager() {
       }
 
       const updatedStreams = [...currentStreams, stream];
-      console.log('🎯 UPDATING STATE - New streams array:', updatedStreams.map(s => s.user_name));
+      console.log('🎯 UPDATING STATE - New streams array:', updatedStreams.map(s => s.displayName));
 
       // Update state and storage
       setActiveStreams(updatedStreams);
 
       try {
         await AsyncStorage.setItem(STORAGE_KEYS.ACTIVE_STREAMS, JSON.stringify(updatedStreams));
-        console.log('✅ STREAM ADDED SUCCESSFULLY:', stream.user_name, 'Total streams:', updatedStreams.length);
+        console.log('✅ STREAM ADDED SUCCESSFULLY:', stream.displayName, 'Total streams:', updatedStreams.length);
       } catch (storageError) {
         console.error('❌ Error saving to storage:', storageError);
         // Don't fail the operation if storage fails
       }
 
-      return { success: true, message: `${stream.user_name} added to multi-view` };
+      return { success: true, message: `${stream.displayName} added to multi-view` };
     } catch (error) {
       console.error('❌ ERROR ADDING STREAM:', error);
       return { success: false, message: 'Failed to add stream' };
@@ -131,7 +144,7 @@ export function useStreamManager() {
       }
 
       setActiveStreams(currentStreams => {
-        console.log('🗑️ CURRENT STREAMS IN STATE:', currentStreams.length, 'streams:', currentStreams.map(s => s.user_name));
+        console.log('🗑️ CURRENT STREAMS IN STATE:', currentStreams.length, 'streams:', currentStreams.map(s => s.displayName));
 
         // Check if stream exists
         const streamExists = currentStreams.some(stream => stream.id === streamId);
@@ -141,7 +154,7 @@ export function useStreamManager() {
         }
 
         const updatedStreams = currentStreams.filter(stream => stream.id !== streamId);
-        console.log('🗑️ UPDATING STATE - New streams array:', updatedStreams.map(s => s.user_name));
+        console.log('🗑️ UPDATING STATE - New streams array:', updatedStreams.map(s => s.displayName));
 
         // Save to storage with error handling
         AsyncStorage.setItem(STORAGE_KEYS.ACTIVE_STREAMS, JSON.stringify(updatedStreams))
@@ -161,12 +174,12 @@ export function useStreamManager() {
     }
   }, []);
 
-  const toggleFavorite = useCallback(async (stream: TwitchStream) => {
-    const isFavorite = favorites.some(fav => fav.user_id === stream.user_id);
+  const toggleFavorite = useCallback(async (stream: Stream) => {
+    const isFavorite = favorites.some(fav => isSameChannel(fav, stream));
     
     const updatedFavorites = isFavorite
-      ? favorites.filter(fav => fav.user_id !== stream.user_id)
-      : [...favorites, stream];
+      ? favorites.filter(fav => !isSameChannel(fav, stream))
+      : [...favorites, { ...stream, addedAt: new Date().toISOString() }];
     
     setFavorites(updatedFavorites);
     
@@ -178,8 +191,10 @@ export function useStreamManager() {
   const removeFavorite = useCallback(async (streamId: string) => {
     try {
       setFavorites(currentFavorites => {
-        // Use user_id for consistency with toggleFavorite function
-        const updatedFavorites = currentFavorites.filter(fav => fav.user_id !== streamId && fav.id !== streamId);
+        // Accept either the stream id or the channel key used by toggleFavorite
+        const updatedFavorites = currentFavorites.filter(
+          fav => fav.id !== streamId && getChannelKey(fav) !== streamId
+        );
         
         AsyncStorage.setItem(STORAGE_KEYS.FAVORITES, JSON.stringify(updatedFavorites))
           .catch(error => console.error('Error removing favorite:', error));
@@ -191,35 +206,53 @@ export function useStreamManager() {
     }
   }, []);
 
-  const addToMultiView = useCallback(async (streamData: any) => {
-    console.log('🚀 ADD TO MULTI-VIEW CALLED - Data:', streamData);
+  // Refreshed stream data (e.g. live status) keyed by stream id, applied to
+  // active streams and favorites in one state change each
+  const applyStreamUpdates = useCallback((updates: Record<string, Partial<Stream>>) => {
+    const applyTo = (key: string) => (current: Stream[]) => {
+      if (!current.some(stream => updates[stream.id])) {
+        return current;
+      }
 
-    // Convert the stream data to TwitchStream format
-    const stream: TwitchStream = {
-      id: streamData.id,
-      user_id: streamData.id, // For favorites, use the same ID for both
-      user_login: streamData.username || streamData.user_login,
-      user_name: streamData.username || streamData.user_name,
-      game_id: streamData.game_id || '',
-      game_name: streamData.game || streamData.game_name || '',
-      type: 'live',
-      title: streamData.title || '',
-      viewer_count: streamData.viewers || streamData.viewer_count || 0,
-      started_at: streamData.started_at || new Date().toISOString(),
-      language: streamData.language || 'en',
-      thumbnail_url: streamData.thumbnail || streamData.thumbnail_url || '',
-      tag_ids: streamData.tag_ids || [],
-      is_mature: streamData.is_mature || false
+      const updated = current.map(stream =>
+        updates[stream.id] ? { ...stream, ...updates[stream.id] } : stream
+      );
+      AsyncStorage.setItem(key, JSON.stringify(updated)).catch(error =>
+        console.error('❌ Error saving updated streams:', error)
+      );
+      return updated;
     };
 
+    setActiveStreams(applyTo(STORAGE_KEYS.ACTIVE_STREAMS));
+    setFavorites(applyTo(STORAGE_KEYS.FAVORITES));
+  }, []);
+
+  // Swaps the whole multi-view at once, e.g. to follow a watch party's layout
+  const replaceStreams = useCallback((streams: Stream[]) => {
+    setActiveStreams(streams);
+    AsyncStorage.setItem(STORAGE_KEYS.ACTIVE_STREAMS, JSON.stringify(streams)).catch(error =>
+      console.error('❌ Error saving replaced streams:', error)
+    );
+  }, []);
+
+  const addToMultiView = useCallback(async (streamData: StreamSource) => {
+    console.log('🚀 ADD TO MULTI-VIEW CALLED - Data:', streamData);
+
+    // Normalize whatever the caller has (platform payload, legacy record) to the canonical model
+    const stream = toStream(streamData);
+    if (!stream) {
+      console.log('❌ ADD TO MULTI-VIEW - Unrecognized stream data');
+      return { success: false, message: 'Invalid stream data' };
+    }
+
     console.log('🚀 CONVERTED STREAM DATA:', stream);
     const result = await addStream(stream);
     console.log('🚀 ADD TO MULTI-VIEW RESULT:', result);
     return result;
   }, [addStream]);
 
-  const isFavorite = useCallback((userId: string) => {
-    return favorites.some(fav => fav.user_id === userId);
+  const isFavorite = useCallback((channelKey: string) => {
+    return favorites.some(fav => getChannelKey(fav) === channelKey);
   }, [favorites]);
 
   const isStreamActive = useCallback((streamId: string) => {
@@ -265,6 +298,8 @@ export function useStreamManager() {
     removeStream,
     toggleFavorite,
     removeFavorite,
+    applyStreamUpdates,
+    replaceStreams,
     addToMultiView,
     isFavorite,
     isStreamActive,
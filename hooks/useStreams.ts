@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { toStreams } from '@/services/streamAdapters';
+import { migrateStoredStreamList } from '@/store/streamMigrations';
 import { Stream, StreamLayout } from '@/types/stream';
 
 const STORAGE_KEYS = {
@@ -26,9 +28,17 @@ export function useStreams() {
         AsyncStorage.getItem(STORAGE_KEYS.LAYOUTS),
       ]);
 
-      if (storedStreams) setActiveStreams(JSON.parse(storedStreams));
-      if (storedFavorites) setFavorites(JSON.parse(storedFavorites));
-      if (storedLayouts) setLayouts(JSON.parse(storedLayouts));
+      if (storedStreams) setActiveStreams(migrateStoredStreamList(storedStreams));
+      if (storedFavorites) setFavorites(migrateStoredStreamList(storedFavorites));
+      if (storedLayouts) {
+        const parsedLayouts: StreamLayout[] = JSON.parse(storedLayouts);
+        setLayouts(
+          parsedLayouts.map(layout => ({
+            ...layout,
+            streams: toStreams(layout.streams),
+          }))
+        );
+      }
     } catch (error) {
       console.error('Error loading stored data:', error);
     } finally {
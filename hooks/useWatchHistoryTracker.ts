@@ -0,0 +1,42 @@
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { watchHistoryService } from '@/services/watchHistoryService';
+import { Stream } from '@/types/stream';
+
+/**
+ * Records time spent on `streams` in watch history. A stream counts as
+ * watched while it is in the list and the app is in the foreground.
+ */
+export function useWatchHistoryTracker(streams: Stream[]): void {
+  const streamsRef = useRef(streams);
+  streamsRef.current = streams;
+
+  const streamIds = streams
+    .map(stream => stream.id)
+    .sort()
+    .join(',');
+
+  useEffect(() => {
+    if (AppState.currentState === 'active') {
+      watchHistoryService.setWatching(streamsRef.current);
+    }
+  }, [streamIds]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      watchHistoryService.setWatching(state === 'active' ? streamsRef.current : []);
+    });
+
+    return () => {
+      subscription.remove();
+      watchHistoryService.setWatching([]);
+    };
+  }, []);
+
+  useEffect(() => {
+    // Upload views recorded offline and pull in other devices' views
+    watchHistoryService
+      .sync()
+      .catch(error => console.error('❌ Watch history sync failed:', error));
+  }, []);
+}
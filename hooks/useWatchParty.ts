@@ -0,0 +1,352 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useStreamManagerContext } from '@/contexts/StreamManagerContext';
+import { ChatMessage, ChatUser, realtimeChatService } from '@/services/realtimeChatService';
+import {
+  RoomGridLayout,
+  RoomLayout,
+  RoomViewMode,
+  StreamRoom,
+  streamRoomsService,
+} from '@/services/streamRoomsService';
+import { webSocketService } from '@/services/webSocketService';
+import { Stream } from '@/types/stream';
+
+// Grid edits usually come in bursts (drag, add, refocus); they are shared
+// once things settle
+const SHARE_DEBOUNCE_MS = 400;
+const MAX_MESSAGES = 200;
+
+/** The parts of the grid a watch party keeps in step */
+export interface WatchPartyGridState {
+  gridLayout: RoomGridLayout;
+  viewMode: RoomViewMode;
+  audioFocusStreamId: string | null;
+}
+
+export interface WatchPartyOptions {
+  grid: WatchPartyGridState;
+  /** Called after someone else's layout replaced the streams, to set the rest of the grid */
+  onLayoutApplied: (layout: RoomLayout) => void;
+}
+
+export interface WatchPartyState {
+  /** False for guests; parties need an account */
+  isAvailable: boolean;
+  room: StreamRoom | null;
+  /** Whether this viewer's grid changes are shared with the party */
+  canControl: boolean;
+  /** Shared party chat, oldest first */
+  messages: ChatMessage[];
+  isBusy: boolean;
+  error: string | null;
+  start: (name?: string) => Promise<void>;
+  join: (code: string, password?: string) => Promise<void>;
+  leave: () => Promise<void>;
+  sendMessage: (text: string) => Promise<void>;
+}
+
+const layoutKey = (streams: Stream[], grid: WatchPartyGridState): string =>
+  [
+    streams.map(stream => stream.id).join(','),
+    grid.gridLayout,
+    grid.viewMode,
+    grid.audioFocusStreamId || '',
+  ].join('|');
+
+const toChatUser = (id: string, username: string, avatar?: string): ChatUser => {
+  const now = new Date().toISOString();
+  return {
+    id,
+    username,
+    displayName: username,
+    avatar,
+    badges: [],
+    isOnline: true,
+    lastSeen: now,
+    joinedAt: now,
+    isModerator: false,
+    isSubscriber: false,
+    isVIP: false,
+    level: 1,
+    messageCount: 0,
+    reputation: 0,
+  };
+};
+
+/**
+ * Co-watching a multiview. Whoever may change the room's stream (the host,
+ * unless they hand out the permission) shares their grid; everyone else's
+ * grid follows it, and joining mid-party starts from the latest layout. The
+ * viewer's own streams come back when they leave.
+ */
+export function useWatchParty({ grid, onLayoutApplied }: WatchPartyOptions): WatchPartyState {
+  const { user } = useAuth();
+  const { activeStreams, replaceStreams } = useStreamManagerContext();
+  const [room, setRoom] = useState<StreamRoom | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const partyIdRef = useRef<string | null>(null);
+  const lastKeyRef = useRef<string | null>(null);
+  const appliedVersionRef = useRef(0);
+  const savedStreamsRef = useRef<Stream[] | null>(null);
+  const activeStreamsRef = useRef(activeStreams);
+  const onLayoutAppliedRef = useRef(onLayoutApplied);
+  activeStreamsRef.current = activeStreams;
+  onLayoutAppliedRef.current = onLayoutApplied;
+
+  const userId = user?.id || null;
+  const username = user?.name || user?.email?.split('@')[0] || 'Viewer';
+
+  const canControl = useMemo(
+    () =>
+      !!room?.members
+        .find(member => member.userId === userId)
+        ?.permissions.includes('change_stream'),
+    [room, userId]
+  );
+
+  const applyLayout = useCallback(
+    (layout: RoomLayout) => {
+      if (layout.version <= appliedVersionRef.current) {
+        return;
+      }
+      appliedVersionRef.current = layout.version;
+
+      const key = layoutKey(layout.streams, layout);
+      lastKeyRef.current = key;
+      if (layout.updatedBy === userId) {
+        return;
+      }
+
+      if (!savedStreamsRef.current) {
+        savedStreamsRef.current = activeStreamsRef.current;
+      }
+      replaceStreams(layout.streams);
+      onLayoutAppliedRef.current(layout);
+      console.log(
+        '🎉 Watch party layout applied:',
+        layout.version,
+        layout.streams.length,
+        'streams'
+      );
+    },
+    [userId, replaceStreams]
+  );
+
+  const reset = useCallback(() => {
+    partyIdRef.current = null;
+    lastKeyRef.current = null;
+    appliedVersionRef.current = 0;
+    setRoom(null);
+    setMessages([]);
+  }, []);
+
+  useEffect(() => {
+    const handleRoomState = (state: StreamRoom) => {
+      if (state.id !== partyIdRef.current) {
+        return;
+      }
+      setRoom({ ...state });
+      setError(null);
+      setIsBusy(false);
+      if (state.layout) {
+        applyLayout(state.layout);
+      }
+    };
+
+    const handleLayoutUpdated = ({ roomId, layout }: { roomId: string; layout: RoomLayout }) => {
+      if (roomId === partyIdRef.current) {
+        applyLayout(layout);
+      }
+    };
+
+    const handleMembersChanged = ({ roomId }: { roomId: string }) => {
+      const current = streamRoomsService.getCurrentRoom();
+      if (roomId === partyIdRef.current && current?.id === roomId) {
+        setRoom({ ...current });
+      }
+    };
+
+    const handleServerError = (data: { type?: string; message?: string }) => {
+      if (partyIdRef.current && data?.type?.startsWith('room_')) {
+        setError(data.message || 'Watch party request failed');
+        setIsBusy(false);
+        // A join that was turned away leaves nothing to show
+        if (data.type === 'room_join' && !streamRoomsService.getCurrentRoom()) {
+          reset();
+        }
+      }
+    };
+
+    const handleChatMessage = (message: ChatMessage) => {
+      if (message.roomId === partyIdRef.current) {
+        setMessages(current => [...current, message].slice(-MAX_MESSAGES));
+      }
+    };
+
+    const handleChatJoined = ({ room: chatRoom }: { room: { id: string } }) => {
+      if (chatRoom?.id === partyIdRef.current) {
+        setMessages(realtimeChatService.getRoomMessages(chatRoom.id, MAX_MESSAGES));
+      }
+    };
+
+    streamRoomsService.on('room_state_updated', handleRoomState);
+    streamRoomsService.on('room_layout_updated', handleLayoutUpdated);
+    streamRoomsService.on('member_joined', handleMembersChanged);
+    streamRoomsService.on('member_left', handleMembersChanged);
+    streamRoomsService.on('member_role_updated', handleMembersChanged);
+    const unsubscribeError = webSocketService.onMessage('error', handleServerError);
+    realtimeChatService.on('message_received', handleChatMessage);
+    realtimeChatService.on('message_sent', handleChatMessage);
+    realtimeChatService.on('room_joined', handleChatJoined);
+
+    return () => {
+      streamRoomsService.off('room_state_updated', handleRoomState);
+      streamRoomsService.off('room_layout_updated', handleLayoutUpdated);
+      streamRoomsService.off('member_joined', handleMembersChanged);
+      streamRoomsService.off('member_left', handleMembersChanged);
+      streamRoomsService.off('member_role_updated', handleMembersChanged);
+      unsubscribeError();
+      realtimeChatService.off('message_received', handleChatMessage);
+      realtimeChatService.off('message_sent', handleChatMessage);
+      realtimeChatService.off('room_joined', handleChatJoined);
+    };
+  }, [applyLayout, reset]);
+
+  // Leaving the grid leaves the party
+  useEffect(
+    () => () => {
+      if (partyIdRef.current) {
+        streamRoomsService.leaveRoom();
+        realtimeChatService.leaveRoom();
+      }
+    },
+    []
+  );
+
+  // Share this viewer's grid whenever it stops matching the party's layout
+  const key = layoutKey(activeStreams, grid);
+  useEffect(() => {
+    if (!room || !canControl || key === lastKeyRef.current) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      lastKeyRef.current = key;
+      streamRoomsService
+        .shareLayout({
+          streams: activeStreamsRef.current,
+          gridLayout: grid.gridLayout,
+          viewMode: grid.viewMode,
+          audioFocusStreamId: grid.audioFocusStreamId,
+        })
+        .catch(shareError => {
+          console.error('❌ Failed to share watch party layout:', shareError);
+          lastKeyRef.current = null;
+        });
+    }, SHARE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [room, canControl, key, grid.gridLayout, grid.viewMode, grid.audioFocusStreamId]);
+
+  const connect = useCallback(async () => {
+    if (!userId) {
+      throw new Error('Sign in to start a watch party');
+    }
+    await webSocketService.connect(userId, username);
+    await streamRoomsService.initialize(userId, username);
+    await realtimeChatService.initialize(toChatUser(userId, username, user?.avatar));
+  }, [userId, username, user?.avatar]);
+
+  const start = useCallback(
+    async (name?: string) => {
+      setIsBusy(true);
+      setError(null);
+      try {
+        await connect();
+        const created = await streamRoomsService.createRoom(
+          name?.trim() || `${username}'s watch party`,
+          'watch_party',
+          { visibility: 'private', streamId: grid.audioFocusStreamId || activeStreams[0]?.id }
+        );
+        if (!created) {
+          throw new Error('Could not create the watch party');
+        }
+
+        partyIdRef.current = created.id;
+        setRoom({ ...created });
+        await realtimeChatService.joinRoom(created.id);
+      } catch (startError) {
+        console.error('❌ Failed to start watch party:', startError);
+        setError(startError instanceof Error ? startError.message : 'Could not start the party');
+        reset();
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [connect, username, grid.audioFocusStreamId, activeStreams, reset]
+  );
+
+  const join = useCallback(
+    async (code: string, password?: string) => {
+      const roomId = code.trim();
+      if (!roomId) {
+        return;
+      }
+
+      setIsBusy(true);
+      setError(null);
+      try {
+        await connect();
+        partyIdRef.current = roomId;
+        // Busy until room_state (or an error) comes back
+        await streamRoomsService.joinRoom(roomId, password);
+        await realtimeChatService.joinRoom(roomId);
+      } catch (joinError) {
+        console.error('❌ Failed to join watch party:', joinError);
+        setError(joinError instanceof Error ? joinError.message : 'Could not join the party');
+        setIsBusy(false);
+        reset();
+      }
+    },
+    [connect, reset]
+  );
+
+  const leave = useCallback(async () => {
+    if (!partyIdRef.current) {
+      return;
+    }
+
+    await streamRoomsService.leaveRoom();
+    await realtimeChatService.leaveRoom();
+    reset();
+    setError(null);
+
+    if (savedStreamsRef.current) {
+      replaceStreams(savedStreamsRef.current);
+      savedStreamsRef.current = null;
+    }
+  }, [reset, replaceStreams]);
+
+  const sendMessage = useCallback(async (text: string) => {
+    if (!partyIdRef.current || !text.trim()) {
+      return;
+    }
+    await realtimeChatService.sendMessage(text.trim());
+  }, []);
+
+  return {
+    isAvailable: !!userId,
+    room,
+    canControl,
+    messages,
+    isBusy,
+    error,
+    start,
+    join,
+    leave,
+    sendMessage,
+  };
+}
@@ -5,6 +5,8 @@ module.exports = {
     '**/__tests__/**/*.(ts|tsx|js)',
     '**/*.(test|spec).(ts|tsx|js)'
   ],
+  // server/ has its own package and runs its tests with node:test
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/server/'],
   collectCoverageFrom: [
     'components/**/*.{ts,tsx}',
     'services/**/*.{ts,tsx}',
@@ -26,20 +28,12 @@ module.exports = {
       statements: 70
     }
   },
-  moduleNameMapping: {
+  moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/$1'
   },
-  transform: {
-    '^.+\\.(ts|tsx)$': 'ts-jest'
-  },
   testEnvironment: 'jsdom',
   transformIgnorePatterns: [
-    'node_modules/(?!(react-native|@react-native|expo-|@expo|@react-navigation|react-navigation|@tamagui|@supabase|zustand)/)'
+    'node_modules/(?!((jest-)?react-native(-.*)?|@react-native(-community)?|expo(-.*)?|@expo(-google-fonts)?|@react-navigation|react-navigation|@tamagui|@supabase|zustand)/)'
   ],
-  moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node'],
-  globals: {
-    'ts-jest': {
-      tsconfig: 'tsconfig.json'
-    }
-  }
+  moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node']
 };
\ No newline at end of file
@@ -10,8 +10,8 @@ jest.mock('@react-native-async-storage/async-storage', () => mockAsyncStorage);
 // Mock React Native modules
 jest.mock('react-native', () => {
   const RN = jest.requireActual('react-native');
-  return {
-    ...RN,
+  // Spreading RN would evaluate every lazy export, including native-only ones
+  const overrides = {
     Dimensions: {
       get: jest.fn(() => ({ width: 375, height: 667 })),
       addEventListener: jest.fn(),
@@ -30,6 +30,10 @@ jest.mock('react-native', () => {
       canOpenURL: jest.fn(() => Promise.resolve(true)),
     },
   };
+  Object.keys(overrides).forEach(name => {
+    Object.defineProperty(RN, name, { value: overrides[name], configurable: true });
+  });
+  return RN;
 });
 
 // Mock Expo modules
@@ -37,7 +41,7 @@ jest.mock('expo-constants', () => ({
   expoConfig: {
     extra: {
       EXPO_PUBLIC_TWITCH_CLIENT_ID: 'test-client-id',
-      EXPO_PUBLIC_TWITCH_CLIENT_SECRET: 'test-client-secret',
+      EXPO_PUBLIC_TWITCH_PROXY_URL: 'https://test.supabase.co/functions/v1/twitch-proxy',
       EXPO_PUBLIC_SUPABASE_URL: 'https://test.supabase.co',
       EXPO_PUBLIC_SUPABASE_ANON_KEY: 'test-anon-key',
     },
@@ -0,0 +1,196 @@
+package expo.modules.systempip
+
+import android.app.Activity
+import android.app.PendingIntent
+import android.app.PictureInPictureParams
+import android.app.RemoteAction
+import android.content.BroadcastReceiver
+import android.content.Context
+import android.content.Intent
+import android.content.IntentFilter
+import android.content.pm.PackageManager
+import android.graphics.drawable.Icon
+import android.os.Build
+import android.util.Rational
+import androidx.activity.ComponentActivity
+import androidx.annotation.RequiresApi
+import androidx.core.app.PictureInPictureModeChangedInfo
+import androidx.core.content.ContextCompat
+import androidx.core.util.Consumer
+import expo.modules.kotlin.exception.Exceptions
+import expo.modules.kotlin.functions.Queues
+import expo.modules.kotlin.modules.Module
+import expo.modules.kotlin.modules.ModuleDefinition
+import expo.modules.kotlin.records.Field
+import expo.modules.kotlin.records.Record
+
+private const val ACTION_PIP = "com.streamyyy.app.PIP_ACTION"
+private const val EXTRA_ACTION_ID = "id"
+
+class PipAction : Record {
+  @Field val id: String = ""
+  @Field val title: String = ""
+  /** "next", "mute" or "unmute" */
+  @Field val icon: String = "next"
+}
+
+/**
+ * Android picture-in-picture for the whole activity. The grid keeps
+ * rendering inside the PiP window; remote actions come back as onAction
+ * events and mode changes as onModeChange.
+ */
+class SystemPipModule : Module() {
+  private var actions: List<PipAction> = emptyList()
+  private var aspectRatio = Rational(16, 9)
+  private var autoEnter = false
+  private var receiver: BroadcastReceiver? = null
+  private var modeListener: Consumer<PictureInPictureModeChangedInfo>? = null
+  private var listeningActivity: ComponentActivity? = null
+
+  private val activity: Activity
+    get() = appContext.currentActivity ?: throw Exceptions.MissingActivity()
+
+  override fun definition() = ModuleDefinition {
+    Name("SystemPip")
+
+    Events("onAction", "onModeChange")
+
+    Function("isSupported") {
+      isSupported()
+    }
+
+    Function("isActive") {
+      Build.VERSION.SDK_INT >= Build.VERSION_CODES.O && appContext.currentActivity?.isInPictureInPictureMode == true
+    }
+
+    AsyncFunction("setActions") { items: List<PipAction> ->
+      actions = items
+      updateParams()
+    }.runOnQueue(Queues.MAIN)
+
+    AsyncFunction("setAspectRatio") { width: Int, height: Int ->
+      // Android rejects ratios outside 1:2.39 – 2.39:1
+      val ratio = width.toFloat() / height.coerceAtLeast(1)
+      if (ratio in 0.42f..2.39f) {
+        aspectRatio = Rational(width, height)
+        updateParams()
+      }
+    }.runOnQueue(Queues.MAIN)
+
+    // Android 12+ enters PiP by itself when the user leaves the app
+    AsyncFunction("setAutoEnterEnabled") { enabled: Boolean ->
+      autoEnter = enabled
+      updateParams()
+    }.runOnQueue(Queues.MAIN)
+
+    AsyncFunction("enter") {
+      if (!isSupported() || Build.VERSION.SDK_INT < Build.VERSION_CODES.O) {
+        return@AsyncFunction false
+      }
+      ensureListeners()
+      activity.enterPictureInPictureMode(buildParams())
+    }.runOnQueue(Queues.MAIN)
+
+    OnDestroy {
+      removeListeners()
+    }
+  }
+
+  private fun isSupported(): Boolean {
+    val context = appContext.reactContext ?: return false
+    return Build.VERSION.SDK_INT >= Build.VERSION_CODES.O &&
+      context.packageManager.hasSystemFeature(PackageManager.FEATURE_PICTURE_IN_PICTURE)
+  }
+
+  private fun updateParams() {
+    if (!isSupported() || Build.VERSION.SDK_INT < Build.VERSION_CODES.O) {
+      return
+    }
+    ensureListeners()
+    appContext.currentActivity?.setPictureInPictureParams(buildParams())
+  }
+
+  @RequiresApi(Build.VERSION_CODES.O)
+  private fun buildParams(): PictureInPictureParams {
+    val builder = PictureInPictureParams.Builder()
+      .setAspectRatio(aspectRatio)
+      .setActions(buildRemoteActions())
+    if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.S) {
+      builder.setAutoEnterEnabled(autoEnter)
+    }
+    return builder.build()
+  }
+
+  @RequiresApi(Build.VERSION_CODES.O)
+  private fun buildRemoteActions(): List<RemoteAction> {
+    val context = activity
+    return actions.mapIndexed { index, action ->
+      val intent = Intent(ACTION_PIP)
+        .setPackage(context.packageName)
+        .putExtra(EXTRA_ACTION_ID, action.id)
+      val pendingIntent = PendingIntent.getBroadcast(
+        context,
+        index,
+        intent,
+        PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE
+      )
+      RemoteAction(
+        Icon.createWithResource(context, iconFor(action.icon)),
+        action.title,
+        action.title,
+        pendingIntent
+      )
+    }
+  }
+
+  private fun iconFor(name: String): Int = when (name) {
+    "mute" -> android.R.drawable.ic_lock_silent_mode
+    "unmute" -> android.R.drawable.ic_lock_silent_mode_off
+    else -> android.R.drawable.ic_media_next
+  }
+
+  private fun ensureListeners() {
+    val current = appContext.currentActivity as? ComponentActivity ?: return
+    if (listeningActivity === current) {
+      return
+    }
+    removeListeners()
+
+    val actionReceiver = object : BroadcastReceiver() {
+      override fun onReceive(context: Context, intent: Intent) {
+        val id = intent.getStringExtra(EXTRA_ACTION_ID) ?: return
+        sendEvent("onAction", mapOf("id" to id))
+      }
+    }
+    ContextCompat.registerReceiver(
+      current,
+      actionReceiver,
+      IntentFilter(ACTION_PIP),
+      ContextCompat.RECEIVER_NOT_EXPORTED
+    )
+
+    val listener = Consumer<PictureInPictureModeChangedInfo> { info ->
+      sendEvent("onModeChange", mapOf("isInPictureInPicture" to info.isInPictureInPictureMode))
+    }
+    current.addOnPictureInPictureModeChangedListener(listener)
+
+    receiver = actionReceiver
+    modeListener = listener
+    listeningActivity = current
+  }
+
+  private fun removeListeners() {
+    val current = listeningActivity ?: return
+    receiver?.let {
+      try {
+        current.unregisterReceiver(it)
+      } catch (_: IllegalArgumentException) {
+        // Already gone with the activity
+      }
+    }
+    modeListener?.let { current.removeOnPictureInPictureModeChangedListener(it) }
+    receiver = null
+    modeListener = null
+    listeningActivity = null
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * System Picture-in-Picture native module
+ * Android: the whole activity goes into PiP, with remote actions.
+ * iOS: AVPictureInPicture for a stream URL AVPlayer can play.
+ * Null in builds without the module (Expo Go, web).
+ */
+
+import { NativeModule, requireOptionalNativeModule } from 'expo-modules-core';
+
+export interface SystemPipAction {
+  id: string;
+  title: string;
+  icon: 'next' | 'mute' | 'unmute';
+}
+
+type SystemPipEvents = {
+  onAction: (event: { id: string }) => void;
+  onModeChange: (event: { isInPictureInPicture: boolean }) => void;
+};
+
+declare class SystemPipModule extends NativeModule<SystemPipEvents> {
+  isSupported(): boolean;
+  isActive(): boolean;
+  // Android
+  setActions(actions: SystemPipAction[]): Promise<void>;
+  setAspectRatio(width: number, height: number): Promise<void>;
+  setAutoEnterEnabled(enabled: boolean): Promise<void>;
+  enter(): Promise<boolean>;
+  // iOS
+  start(url: string, muted: boolean): Promise<boolean>;
+  stop(): Promise<void>;
+  setMuted(muted: boolean): Promise<void>;
+}
+
+export const SystemPip = requireOptionalNativeModule<SystemPipModule>('SystemPip');
+
+export default SystemPip;
@@ -0,0 +1,174 @@
+import AVKit
+import ExpoModulesCore
+
+/**
+ * AVPictureInPicture for streams AVPlayer can play (HLS and MP4 sources).
+ * The player lives in a hidden layer inside the app's view; iOS only allows
+ * its own play/pause controls in the PiP window, so there are no custom
+ * actions and mute is driven from JS.
+ */
+public class SystemPipModule: Module {
+  private var player: AVPlayer?
+  private var playerLayer: AVPlayerLayer?
+  private var hostView: UIView?
+  private var controller: AVPictureInPictureController?
+  private var pipDelegate: PipDelegate?
+  private var possibleObservation: NSKeyValueObservation?
+  // Bumped by every start() so callbacks from an earlier one leave the new player alone
+  private var session = 0
+
+  public func definition() -> ModuleDefinition {
+    Name("SystemPip")
+
+    Events("onAction", "onModeChange")
+
+    Function("isSupported") {
+      AVPictureInPictureController.isPictureInPictureSupported()
+    }
+
+    Function("isActive") {
+      self.controller?.isPictureInPictureActive ?? false
+    }
+
+    AsyncFunction("start") { (url: URL, muted: Bool, promise: Promise) in
+      guard AVPictureInPictureController.isPictureInPictureSupported() else {
+        promise.resolve(false)
+        return
+      }
+      self.teardown()
+      self.session += 1
+      let session = self.session
+
+      do {
+        try AVAudioSession.sharedInstance().setCategory(.playback, mode: .moviePlayback)
+        try AVAudioSession.sharedInstance().setActive(true)
+      } catch {
+        promise.reject("ERR_PIP_AUDIO_SESSION", error.localizedDescription)
+        return
+      }
+
+      guard let parent = self.appContext?.utilities?.currentViewController()?.view else {
+        promise.reject("ERR_PIP_NO_VIEW", "No view to host the player in")
+        return
+      }
+
+      let player = AVPlayer(url: url)
+      player.isMuted = muted
+      let layer = AVPlayerLayer(player: player)
+      // PiP needs the layer on screen, but it can be tiny and transparent
+      let host = UIView(frame: CGRect(x: 0, y: 0, width: 2, height: 2))
+      host.alpha = 0.01
+      host.isUserInteractionEnabled = false
+      layer.frame = host.bounds
+      host.layer.addSublayer(layer)
+      parent.addSubview(host)
+
+      guard let controller = AVPictureInPictureController(playerLayer: layer) else {
+        host.removeFromSuperview()
+        promise.reject("ERR_PIP_UNAVAILABLE", "Picture in Picture is not available")
+        return
+      }
+      let delegate = PipDelegate(
+        onChange: { [weak self] active in
+          guard let self = self, self.session == session else {
+            return
+          }
+          self.sendEvent("onModeChange", ["isInPictureInPicture": active])
+          if !active {
+            self.teardown()
+          }
+        }
+      )
+      controller.delegate = delegate
+      controller.canStartPictureInPictureAutomaticallyFromInline = true
+
+      self.player = player
+      self.playerLayer = layer
+      self.hostView = host
+      self.controller = controller
+      self.pipDelegate = delegate
+
+      var settled = false
+      self.possibleObservation = controller.observe(\.isPictureInPicturePossible, options: [.initial, .new]) { controller, _ in
+        guard controller.isPictureInPicturePossible, !settled else {
+          return
+        }
+        settled = true
+        DispatchQueue.main.async {
+          controller.startPictureInPicture()
+          promise.resolve(true)
+        }
+      }
+      player.play()
+
+      // The stream may never become playable; give up rather than hang
+      DispatchQueue.main.asyncAfter(deadline: .now() + 10) { [weak self] in
+        guard !settled else {
+          return
+        }
+        settled = true
+        if let self = self, self.session == session {
+          self.teardown()
+        }
+        promise.reject("ERR_PIP_TIMEOUT", "The stream didn't start in time")
+      }
+    }.runOnQueue(.main)
+
+    AsyncFunction("stop") {
+      self.controller?.stopPictureInPicture()
+      self.teardown()
+    }.runOnQueue(.main)
+
+    AsyncFunction("setMuted") { (muted: Bool) in
+      self.player?.isMuted = muted
+    }.runOnQueue(.main)
+
+    OnDestroy {
+      DispatchQueue.main.async {
+        self.teardown()
+      }
+    }
+  }
+
+  private func teardown() {
+    possibleObservation?.invalidate()
+    possibleObservation = nil
+    player?.pause()
+    hostView?.removeFromSuperview()
+    controller = nil
+    pipDelegate = nil
+    playerLayer = nil
+    hostView = nil
+    player = nil
+  }
+}
+
+private class PipDelegate: NSObject, AVPictureInPictureControllerDelegate {
+  private let onChange: (Bool) -> Void
+
+  init(onChange: @escaping (Bool) -> Void) {
+    self.onChange = onChange
+  }
+
+  func pictureInPictureControllerDidStartPictureInPicture(_ controller: AVPictureInPictureController) {
+    onChange(true)
+  }
+
+  func pictureInPictureControllerDidStopPictureInPicture(_ controller: AVPictureInPictureController) {
+    onChange(false)
+  }
+
+  func pictureInPictureController(
+    _ controller: AVPictureInPictureController,
+    failedToStartPictureInPictureWithError error: Error
+  ) {
+    onChange(false)
+  }
+
+  func pictureInPictureController(
+    _ controller: AVPictureInPictureController,
+    restoreUserInterfaceForPictureInPictureStopWithCompletionHandler completionHandler: @escaping (Bool) -> Void
+  ) {
+    completionHandler(true)
+  }
+}
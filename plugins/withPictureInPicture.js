@@ -0,0 +1,26 @@
+const { AndroidConfig, withAndroidManifest, withInfoPlist } = require('@expo/config-plugins');
+
+// PiP resizes the activity; it must not be recreated when that happens
+const PIP_CONFIG_CHANGES = ['screenSize', 'smallestScreenSize', 'screenLayout', 'orientation'];
+
+module.exports = function withPictureInPicture(config) {
+  config = withAndroidManifest(config, manifestConfig => {
+    const activity = AndroidConfig.Manifest.getMainActivityOrThrow(manifestConfig.modResults);
+    activity.$['android:supportsPictureInPicture'] = 'true';
+    activity.$['android:resizeableActivity'] = 'true';
+
+    const configChanges = new Set((activity.$['android:configChanges'] || '').split('|'));
+    PIP_CONFIG_CHANGES.forEach(change => configChanges.add(change));
+    configChanges.delete('');
+    activity.$['android:configChanges'] = Array.from(configChanges).join('|');
+    return manifestConfig;
+  });
+
+  // iOS keeps PiP video playing only for apps that play audio in the background
+  return withInfoPlist(config, plistConfig => {
+    const modes = new Set(plistConfig.modResults.UIBackgroundModes || []);
+    modes.add('audio');
+    plistConfig.modResults.UIBackgroundModes = Array.from(modes);
+    return plistConfig;
+  });
+};
@@ -346,7 +346,7 @@ self.addEventListener('notificationclick', (event) => {
   const action = event.action;
   const data = event.notification.data;
   
-  if (action === 'view') {
+  if (action === 'view' || action === 'watch') {
     // Open the app to the relevant stream
     event.waitUntil(
       clients.openWindow(data.url || '/')
@@ -357,7 +357,7 @@ self.addEventListener('notificationclick', (event) => {
   } else {
     // Default click action
     event.waitUntil(
-      clients.openWindow('/')
+      clients.openWindow((data && data.url) || '/')
     );
   }
 });
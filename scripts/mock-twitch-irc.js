@@ -0,0 +1,212 @@
+#!/usr/bin/env node
+
+/**
+ * Mock Twitch IRC WebSocket server for exercising chat without hitting Twitch.
+ *
+ *   node scripts/mock-twitch-irc.js [port]
+ *
+ * Then start the app with EXPO_PUBLIC_TWITCH_IRC_URL=ws://<your-ip>:<port>.
+ * Every joined channel gets tagged PRIVMSGs (badges, colors, emotes, bits),
+ * sub notices, message deletions and timeouts on a loop. Any PASS is accepted;
+ * sent messages are confirmed with USERSTATE, except ones containing "reject"
+ * which get a msg_duplicate NOTICE.
+ */
+
+const { WebSocketServer } = require('ws');
+
+const port = Number(process.argv[2]) || 6667;
+const server = new WebSocketServer({ port });
+
+const USERS = [
+  { login: 'streamfan123', name: 'StreamFan123', color: '#FF6B6B', badges: 'subscriber/12' },
+  { login: 'chatmod', name: 'ChatMod', color: '#45B7D1', badges: 'moderator/1' },
+  { login: 'progamer', name: 'ProGamer', color: '#4ECDC4', badges: 'vip/1,subscriber/3' },
+  { login: 'lurker42', name: 'lurker42', color: '', badges: '' },
+];
+
+// Kappa (25) and PogChamp-style ids; positions are code point offsets
+const MESSAGES = [
+  { text: 'Kappa nice play Kappa', emotes: '25:0-4,16-20' },
+  { text: 'this stream is great', emotes: '' },
+  { text: 'LUL that was close', emotes: '425618:0-2' },
+  { text: '🔥 Kappa 🔥', emotes: '25:2-6' },
+];
+
+let messageCounter = 0;
+
+const escapeTag = value =>
+  String(value).replace(/\\/g, '\\\\').replace(/;/g, '\\:').replace(/ /g, '\\s');
+
+const tagString = tags =>
+  `@${Object.entries(tags)
+    .map(([key, value]) => `${key}=${escapeTag(value)}`)
+    .join(';')}`;
+
+const ROOM_STATE_TAGS = tagString({
+  'emote-only': 0,
+  'followers-only': -1,
+  r9k: 0,
+  'room-id': 1000,
+  slow: 0,
+  'subs-only': 0,
+});
+const DUPLICATE_NOTICE =
+  'Your message was not sent because it is identical to the previous one you sent, less than 30 seconds ago.';
+
+const hostmask = login => `${login}!${login}@${login}.tmi.twitch.tv`;
+
+const pick = list => list[Math.floor(Math.random() * list.length)];
+
+function chatLine(channel) {
+  const user = pick(USERS);
+  const message = pick(MESSAGES);
+  const id = `mock-${++messageCounter}`;
+  const cheer = Math.random() < 0.1;
+
+  const tags = {
+    'badge-info': '',
+    badges: user.badges,
+    color: user.color,
+    'display-name': user.name,
+    emotes: message.emotes,
+    id,
+    mod: user.badges.includes('moderator') ? 1 : 0,
+    'room-id': '1000',
+    'tmi-sent-ts': Date.now(),
+    'user-id': String(USERS.indexOf(user) + 2000),
+  };
+  if (cheer) {
+    tags.bits = 100;
+  }
+
+  return {
+    id,
+    user,
+    line: `${tagString(tags)} :${hostmask(user.login)} PRIVMSG #${channel} :${message.text}`,
+  };
+}
+
+function subNotice(channel) {
+  const user = pick(USERS);
+  const months = 1 + Math.floor(Math.random() * 24);
+  const tags = {
+    badges: user.badges,
+    color: user.color,
+    'display-name': user.name,
+    emotes: '',
+    id: `mock-${++messageCounter}`,
+    login: user.login,
+    'msg-id': 'resub',
+    'msg-param-cumulative-months': months,
+    'system-msg': `${user.name} subscribed at Tier 1. They've subscribed for ${months} months!`,
+    'tmi-sent-ts': Date.now(),
+    'user-id': String(USERS.indexOf(user) + 2000),
+  };
+
+  return `${tagString(tags)} :tmi.twitch.tv USERNOTICE #${channel} :Still here, still hyped`;
+}
+
+server.on('connection', socket => {
+  const channels = new Set();
+  const recent = [];
+  let nick = null;
+
+  const send = line => socket.send(`${line}\r\n`);
+
+  const ticker = setInterval(() => {
+    channels.forEach(channel => {
+      const roll = Math.random();
+
+      if (roll < 0.08) {
+        send(subNotice(channel));
+      } else if (roll < 0.12 && recent.length > 0) {
+        const target = recent.shift();
+        const tags = tagString({ login: target.user.login, 'target-msg-id': target.id });
+        send(`${tags} :tmi.twitch.tv CLEARMSG #${channel} :deleted`);
+      } else if (roll < 0.14) {
+        const user = pick(USERS);
+        const tags = tagString({
+          'ban-duration': 10,
+          'target-user-id': USERS.indexOf(user) + 2000,
+        });
+        send(`${tags} :tmi.twitch.tv CLEARCHAT #${channel} :${user.login}`);
+      } else {
+        const chat = chatLine(channel);
+        recent.push(chat);
+        if (recent.length > 20) {
+          recent.shift();
+        }
+        send(chat.line);
+      }
+    });
+  }, 1000);
+
+  const keepAlive = setInterval(() => send('PING :tmi.twitch.tv'), 60000);
+
+  socket.on('message', data => {
+    String(data)
+      .split('\r\n')
+      .filter(Boolean)
+      .forEach(line => {
+        const [command, ...args] = line.split(' ');
+
+        switch (command) {
+          case 'CAP':
+            send(':tmi.twitch.tv CAP * ACK :twitch.tv/tags twitch.tv/commands');
+            break;
+          case 'NICK':
+            nick = args[0];
+            send(`:tmi.twitch.tv 001 ${nick} :Welcome, GLHF!`);
+            break;
+          case 'JOIN':
+            args[0].split(',').forEach(target => {
+              const channel = target.replace(/^#/, '');
+              channels.add(channel);
+              const userState = tagString({
+                badges: '',
+                color: '#8B5CF6',
+                'display-name': nick,
+                mod: 0,
+              });
+              send(`:${hostmask(nick)} JOIN #${channel}`);
+              send(`${userState} :tmi.twitch.tv USERSTATE #${channel}`);
+              send(`${ROOM_STATE_TAGS} :tmi.twitch.tv ROOMSTATE #${channel}`);
+            });
+            break;
+          case 'PART':
+            channels.delete(args[0].replace(/^#/, ''));
+            break;
+          case 'PRIVMSG': {
+            const channel = args[0];
+            if (line.includes('reject')) {
+              const tags = tagString({ 'msg-id': 'msg_duplicate' });
+              send(`${tags} :tmi.twitch.tv NOTICE ${channel} :${DUPLICATE_NOTICE}`);
+            } else {
+              const userState = tagString({
+                badges: '',
+                color: '#8B5CF6',
+                'display-name': nick,
+                id: `mock-${++messageCounter}`,
+                mod: 0,
+              });
+              send(`${userState} :tmi.twitch.tv USERSTATE ${channel}`);
+            }
+            break;
+          }
+          case 'PING':
+            send(`PONG ${args.join(' ')}`);
+            break;
+          default:
+            break;
+        }
+      });
+  });
+
+  socket.on('close', () => {
+    clearInterval(ticker);
+    clearInterval(keepAlive);
+  });
+});
+
+console.log(`💬 Mock Twitch IRC listening on ws://0.0.0.0:${port}`);
+console.log(`   Set EXPO_PUBLIC_TWITCH_IRC_URL=ws://<your-ip>:${port} and restart Expo`);
@@ -0,0 +1,171 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for the twitch-proxy Supabase Edge Function
+ * (supabase/functions/twitch-proxy). Serves the same routes from the
+ * recorded Helix responses in scripts/fixtures/twitch-helix, so browsing
+ * works offline and without Twitch credentials.
+ *
+ *   node scripts/mock-twitch-proxy.js [port]
+ *
+ * Then start the app with EXPO_PUBLIC_TWITCH_PROXY_URL=http://<your-ip>:<port>.
+ * Helix query filters (user_login, user_id, game_id, id, login, type,
+ * broadcaster_id, query, first) are applied to the fixtures. Unlike the real
+ * function, Helix routes don't check for the anon key. /oauth/token answers
+ * every allowed grant with a fake user token;
+ * the app validates tokens with Twitch, so account linking itself still needs
+ * the real function.
+ */
+
+const fs = require('fs');
+const http = require('http');
+const path = require('path');
+
+const port = Number(process.argv[2]) || 8090;
+const fixturesDir = path.join(__dirname, 'fixtures', 'twitch-helix');
+
+const readFixture = name => JSON.parse(fs.readFileSync(path.join(fixturesDir, name), 'utf8'));
+
+const streams = readFixture('streams.json').data;
+const users = readFixture('users.json').data;
+const games = readFixture('games.json').data;
+const videos = readFixture('videos.json').data;
+const clips = readFixture('clips.json').data;
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, apikey, content-type, x-client-info',
+  });
+  res.end(JSON.stringify(body));
+};
+
+// Helix repeats a parameter for each value, e.g. ?user_login=a&user_login=b
+const filterBy = (items, field, values) =>
+  values.length ? items.filter(item => values.includes(String(item[field]))) : items;
+
+const page = (items, params) => ({
+  data: items.slice(0, Number(params.get('first')) || 20),
+  pagination: {},
+});
+
+const helixRoutes = {
+  streams: params => {
+    // Channels asked for by id and by login are combined, as Helix does
+    const logins = params.getAll('user_login');
+    const ids = params.getAll('user_id');
+    let result = streams;
+    if (logins.length || ids.length) {
+      result = streams.filter(
+        stream => logins.includes(stream.user_login) || ids.includes(stream.user_id)
+      );
+    }
+    result = filterBy(result, 'game_id', params.getAll('game_id'));
+    result = filterBy(result, 'language', params.getAll('language'));
+    return page(result, params);
+  },
+  users: params => {
+    const byId = params.getAll('id');
+    const byLogin = params.getAll('login');
+    const result =
+      byId.length || byLogin.length
+        ? users.filter(user => byId.includes(user.id) || byLogin.includes(user.login))
+        : [];
+    return { data: result };
+  },
+  games: params => ({ data: filterBy(games, 'id', params.getAll('id')) }),
+  'games/top': params => page(games, params),
+  videos: params => {
+    let result = filterBy(videos, 'id', params.getAll('id'));
+    result = filterBy(result, 'user_id', params.getAll('user_id'));
+    const type = params.get('type');
+    if (type && type !== 'all') {
+      result = result.filter(video => video.type === type);
+    }
+    return page(result, params);
+  },
+  clips: params => {
+    const result = filterBy(clips, 'id', params.getAll('id'));
+    return page(filterBy(result, 'broadcaster_id', params.getAll('broadcaster_id')), params);
+  },
+  'search/channels': params => {
+    const query = (params.get('query') || '').toLowerCase();
+    const result = users
+      .filter(user => user.login.includes(query) || user.display_name.toLowerCase().includes(query))
+      .map(user => {
+        const stream = streams.find(item => item.user_id === user.id);
+        return {
+          id: user.id,
+          broadcaster_login: user.login,
+          display_name: user.display_name,
+          thumbnail_url: user.profile_image_url,
+          is_live: !!stream,
+          game_id: stream ? stream.game_id : '',
+          game_name: stream ? stream.game_name : '',
+          title: stream ? stream.title : '',
+          started_at: stream ? stream.started_at : '',
+          tags: stream ? stream.tags : [],
+        };
+      });
+    return page(result, params);
+  },
+};
+
+const readBody = req =>
+  new Promise(resolve => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+    });
+    req.on('end', () => resolve(body));
+  });
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  console.log(`${req.method} ${url.pathname}${url.search}`);
+
+  if (req.method === 'OPTIONS') {
+    send(res, 200, 'ok');
+    return;
+  }
+
+  const helix = /\/helix\/(.+)$/.exec(url.pathname);
+  if (helix && req.method === 'GET') {
+    const route = helixRoutes[helix[1]];
+    if (!route) {
+      send(res, 403, {
+        error: 'Bad Request',
+        status: 403,
+        message: `Helix endpoint not allowed: ${helix[1]}`,
+      });
+      return;
+    }
+    send(res, 200, route(url.searchParams));
+    return;
+  }
+
+  if (url.pathname.endsWith('/oauth/token') && req.method === 'POST') {
+    const params = new URLSearchParams(await readBody(req));
+    const grantType = params.get('grant_type');
+    if (grantType !== 'authorization_code' && grantType !== 'refresh_token') {
+      send(res, 400, { status: 400, message: `Unsupported grant_type: ${grantType}` });
+      return;
+    }
+    send(res, 200, {
+      access_token: `mock-user-token-${Date.now()}`,
+      refresh_token: 'mock-refresh-token',
+      expires_in: 14400,
+      scope: ['chat:read', 'chat:edit'],
+      token_type: 'bearer',
+    });
+    return;
+  }
+
+  send(res, 404, { error: 'Not Found', status: 404, message: `No route for ${url.pathname}` });
+});
+
+server.listen(port, () => {
+  console.log(`🔐 Mock Twitch proxy listening on http://0.0.0.0:${port}`);
+  console.log(`   Set EXPO_PUBLIC_TWITCH_PROXY_URL=http://<your-ip>:${port} and restart Expo`);
+});
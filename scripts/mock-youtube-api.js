@@ -0,0 +1,76 @@
+#!/usr/bin/env node
+
+/**
+ * Mock YouTube Data API that replays recorded live chat responses from
+ * scripts/fixtures/youtube-live-chat, so chat polling can be exercised
+ * without a real broadcast or API quota.
+ *
+ *   node scripts/mock-youtube-api.js [port]
+ *
+ * Then start the app with EXPO_PUBLIC_YOUTUBE_API_URL=http://<your-ip>:<port>
+ * (any EXPO_PUBLIC_YOUTUBE_API_KEY works). Every video id resolves to the
+ * recorded chat; pages are served in order by page token, the last page
+ * reports the stream offline and later polls get a liveChatEnded error.
+ */
+
+const fs = require('fs');
+const http = require('http');
+const path = require('path');
+
+const port = Number(process.argv[2]) || 8089;
+const fixturesDir = path.join(__dirname, 'fixtures', 'youtube-live-chat');
+
+const readFixture = name => JSON.parse(fs.readFileSync(path.join(fixturesDir, name), 'utf8'));
+
+const videos = readFixture('videos.json');
+const pages = ['messages-1.json', 'messages-2.json', 'messages-3.json'].map(readFixture);
+const chatEnded = readFixture('error-chat-ended.json');
+
+// Each page's nextPageToken points at the following page
+const pageIndexByToken = new Map(pages.map((page, index) => [page.nextPageToken, index + 1]));
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  console.log(`${req.method} ${url.pathname}${url.search}`);
+
+  if (url.pathname.endsWith('/videos')) {
+    const id = url.searchParams.get('id') || videos.items[0].id;
+    send(res, 200, { ...videos, items: videos.items.map(item => ({ ...item, id })) });
+    return;
+  }
+
+  if (url.pathname.endsWith('/liveChat/messages')) {
+    const token = url.searchParams.get('pageToken');
+    const index = token ? pageIndexByToken.get(token) : 0;
+
+    if (index === undefined || index >= pages.length) {
+      send(res, 403, chatEnded);
+      return;
+    }
+
+    // Fresh timestamps so replayed messages sort as live chat
+    const now = Date.now();
+    const page = pages[index];
+    const items = page.items.map((item, offset) => ({
+      ...item,
+      snippet: {
+        ...item.snippet,
+        publishedAt: new Date(now - (page.items.length - offset) * 200).toISOString(),
+      },
+    }));
+    send(res, 200, { ...page, items });
+    return;
+  }
+
+  send(res, 404, { error: { code: 404, message: 'Not found', errors: [] } });
+});
+
+server.listen(port, () => {
+  console.log(`📺 Mock YouTube API listening on http://0.0.0.0:${port}`);
+  console.log(`   Set EXPO_PUBLIC_YOUTUBE_API_URL=http://<your-ip>:${port} and restart Expo`);
+});
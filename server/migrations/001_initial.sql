@@ -0,0 +1,231 @@
+-- Every record keeps its full JSON document in `data`, the shape the app's
+-- services send and expect back. The other columns are copies of the fields
+-- the server filters, joins or sorts on.
+
+-- Social (socialService)
+
+create table if not exists users (
+  id text primary key,
+  username text,
+  data text not null
+);
+
+create table if not exists follows (
+  id text primary key,
+  follower_id text not null,
+  following_id text not null,
+  following_type text not null,
+  created_at text not null,
+  data text not null,
+  unique (follower_id, following_id)
+);
+
+create index if not exists follows_following_idx on follows (following_id);
+
+create table if not exists clips (
+  id text primary key,
+  streamer_id text,
+  platform text,
+  created_by text,
+  created_at text not null,
+  data text not null
+);
+
+create table if not exists clip_likes (
+  clip_id text not null,
+  user_id text not null,
+  primary key (clip_id, user_id)
+);
+
+create table if not exists posts (
+  id text primary key,
+  author_id text not null,
+  created_at text not null,
+  data text not null
+);
+
+create index if not exists posts_author_idx on posts (author_id, created_at desc);
+
+create table if not exists post_likes (
+  post_id text not null,
+  user_id text not null,
+  primary key (post_id, user_id)
+);
+
+create table if not exists comments (
+  id text primary key,
+  post_id text not null,
+  created_at text not null,
+  data text not null
+);
+
+create table if not exists activities (
+  id text primary key,
+  user_id text not null,
+  created_at text not null,
+  data text not null
+);
+
+create index if not exists activities_user_idx on activities (user_id, created_at desc);
+
+create table if not exists user_badges (
+  id text primary key,
+  user_id text not null,
+  badge_id text not null,
+  data text not null,
+  unique (user_id, badge_id)
+);
+
+create table if not exists stream_shares (
+  id text primary key,
+  stream_id text not null,
+  created_at text not null,
+  data text not null
+);
+
+-- Streamer tools (streamManagementService)
+
+create table if not exists streamers (
+  id text primary key,
+  user_id text,
+  data text not null
+);
+
+create table if not exists schedules (
+  id text primary key,
+  streamer_id text not null,
+  start_time text,
+  data text not null
+);
+
+create index if not exists schedules_streamer_idx on schedules (streamer_id, start_time);
+
+create table if not exists stream_sessions (
+  id text primary key,
+  streamer_id text not null,
+  data text not null
+);
+
+create table if not exists stream_templates (
+  id text primary key,
+  created_by text,
+  category text,
+  is_public integer not null default 0,
+  data text not null
+);
+
+create table if not exists stream_alerts (
+  id text primary key,
+  streamer_id text not null,
+  created_at text not null,
+  data text not null
+);
+
+create index if not exists stream_alerts_streamer_idx on stream_alerts (streamer_id, created_at desc);
+
+-- Realtime (streamRoomsService, viewerSyncService, livePollsService, presenceService)
+
+create table if not exists rooms (
+  id text primary key,
+  visibility text not null,
+  is_active integer not null default 1,
+  data text not null
+);
+
+create table if not exists room_invitations (
+  id text primary key,
+  room_id text not null,
+  to_user_id text not null,
+  data text not null
+);
+
+create table if not exists room_queue (
+  id text primary key,
+  room_id text not null,
+  data text not null
+);
+
+create table if not exists room_queue_votes (
+  item_id text not null,
+  user_id text not null,
+  vote integer not null,
+  primary key (item_id, user_id)
+);
+
+create table if not exists room_activities (
+  id text primary key,
+  room_id text not null,
+  created_at text not null,
+  data text not null
+);
+
+create index if not exists room_activities_room_idx on room_activities (room_id, created_at desc);
+
+create table if not exists sync_rooms (
+  id text primary key,
+  data text not null
+);
+
+create table if not exists polls (
+  id text primary key,
+  room_id text not null,
+  data text not null
+);
+
+create table if not exists poll_votes (
+  id text primary key,
+  poll_id text not null,
+  user_id text not null,
+  data text not null
+);
+
+create index if not exists poll_votes_poll_idx on poll_votes (poll_id, user_id);
+
+create table if not exists qa_sessions (
+  id text primary key,
+  room_id text not null,
+  data text not null
+);
+
+create table if not exists qa_questions (
+  id text primary key,
+  session_id text not null,
+  data text not null
+);
+
+create table if not exists qa_question_votes (
+  question_id text not null,
+  user_id text not null,
+  vote integer not null,
+  primary key (question_id, user_id)
+);
+
+create table if not exists presences (
+  id text primary key,
+  username text,
+  is_online integer not null default 0,
+  last_seen text not null,
+  data text not null
+);
+
+create table if not exists friend_requests (
+  id text primary key,
+  from_user_id text not null,
+  to_user_id text not null,
+  status text not null,
+  data text not null
+);
+
+create table if not exists friendships (
+  user_id text not null,
+  friend_id text not null,
+  created_at text not null,
+  primary key (user_id, friend_id)
+);
+
+create table if not exists notifications (
+  id text primary key,
+  user_id text not null,
+  is_read integer not null default 0,
+  data text not null
+);
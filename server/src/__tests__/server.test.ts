@@ -0,0 +1,359 @@
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { WebSocket } from 'ws';
+import { App, createApp } from '../app';
+import { openDatabase, SqliteDatabase } from '../db';
+
+interface TestClient {
+  send: (type: string, data: object) => void;
+  /** The oldest message of `type` not taken yet, waiting for one if needed. */
+  next: (type: string) => Promise<any>;
+  close: () => Promise<void>;
+}
+
+const WAIT_MS = 2000;
+
+describe('server', () => {
+  let db: SqliteDatabase;
+  let app: App;
+  let baseUrl: string;
+  let wsUrl: string;
+  const clients: TestClient[] = [];
+
+  before(async () => {
+    db = openDatabase(':memory:');
+    app = createApp(db);
+    await new Promise<void>(resolve => app.server.listen(0, '127.0.0.1', resolve));
+    const { port } = app.server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+    wsUrl = `ws://127.0.0.1:${port}`;
+  });
+
+  after(async () => {
+    await Promise.all(clients.map(client => client.close()));
+    app.hub.close();
+    await new Promise(resolve => app.server.close(resolve));
+    db.close();
+  });
+
+  const api = async (path: string, init: { method?: string; body?: object } = {}) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: init.method || 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      body: init.body ? JSON.stringify(init.body) : undefined,
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  // Speaks the same envelopes as services/webSocketService.ts
+  const connect = async (userId: string, username = userId): Promise<TestClient> => {
+    const socket = new WebSocket(`${wsUrl}?userId=${userId}&username=${username}`);
+    const received: { type: string; data: any }[] = [];
+    const waiting: (() => void)[] = [];
+    socket.on('message', raw => {
+      received.push(JSON.parse(String(raw)));
+      waiting.splice(0).forEach(wake => wake());
+    });
+    await new Promise((resolve, reject) => {
+      socket.once('open', resolve);
+      socket.once('error', reject);
+    });
+
+    const take = (type: string) => {
+      const index = received.findIndex(message => message.type === type);
+      return index === -1 ? undefined : received.splice(index, 1)[0];
+    };
+
+    const client: TestClient = {
+      send: (type, data) =>
+        socket.send(JSON.stringify({ type, data, timestamp: new Date().toISOString() })),
+      next: type =>
+        new Promise((resolve, reject) => {
+          const timer = setTimeout(
+            () => reject(new Error(`${userId} got no ${type} within ${WAIT_MS}ms`)),
+            WAIT_MS
+          );
+          const check = () => {
+            const message = take(type);
+            if (message) {
+              clearTimeout(timer);
+              resolve(message.data);
+            } else {
+              waiting.push(check);
+            }
+          };
+          check();
+        }),
+      close: () =>
+        new Promise(resolve => {
+          if (socket.readyState === WebSocket.CLOSED) {
+            resolve();
+            return;
+          }
+          socket.once('close', () => resolve());
+          socket.close();
+        }),
+    };
+    clients.push(client);
+    return client;
+  };
+
+  const inHours = (hours: number) => new Date(Date.now() + hours * 3600 * 1000).toISOString();
+
+  describe('REST', () => {
+    it('creates and reads user profiles', async () => {
+      assert.deepEqual(await api('/users/ada'), {
+        status: 404,
+        body: { error: 'User not found' },
+      });
+
+      const saved = await api('/users/ada', {
+        method: 'PUT',
+        body: { username: 'ada', displayName: 'Ada', stats: { streamsWatched: 3 } },
+      });
+      assert.equal(saved.status, 200);
+      assert.equal(saved.body.displayName, 'Ada');
+      assert.equal(saved.body.stats.streamsWatched, 3);
+      assert.deepEqual(saved.body.badges, []);
+
+      const { body: profile } = await api('/users/ada');
+      assert.equal(profile.id, 'ada');
+      assert.equal(profile.preferences.notifications.streamGoesLive, true);
+    });
+
+    it('answers a malformed path parameter with 400', async () => {
+      assert.deepEqual(await api('/users/100%'), {
+        status: 400,
+        body: { error: 'Malformed path segment: 100%' },
+      });
+    });
+
+    it('follows and unfollows streamers', async () => {
+      const follow = {
+        followerId: 'ada',
+        followingId: 'shroud',
+        metadata: { platform: 'twitch' },
+      };
+      const { status, body: created } = await api('/follows', { method: 'POST', body: follow });
+      assert.equal(status, 200);
+      assert.equal(created.followingType, 'streamer');
+      assert.equal(created.metadata.platform, 'twitch');
+      // Following twice is a no-op
+      const { body: again } = await api('/follows', { method: 'POST', body: follow });
+      assert.equal(again.id, created.id);
+
+      const { body: streamers } = await api('/users/ada/following/streamers');
+      assert.equal(streamers.length, 1);
+      assert.deepEqual(
+        [streamers[0].id, streamers[0].platform, streamers[0].followerCount, streamers[0].isLive],
+        ['shroud', 'twitch', 1, false]
+      );
+      const { body: followers } = await api('/users/shroud/followers');
+      assert.deepEqual(
+        followers.map((profile: { id: string }) => profile.id),
+        ['ada']
+      );
+      assert.equal((await api('/users/ada')).body.stats.followingCount, 1);
+
+      assert.deepEqual(await api('/follows/ada/shroud', { method: 'DELETE' }), {
+        status: 200,
+        body: { success: true },
+      });
+      assert.deepEqual((await api('/users/ada/following/streamers')).body, []);
+      assert.equal((await api('/follows', { method: 'POST', body: {} })).status, 400);
+    });
+
+    it('saves, filters, likes and shares clips', async () => {
+      const clip = { streamerId: 'shroud', platform: 'twitch', createdBy: 'ada', title: 'Ace' };
+      const { body: created } = await api('/clips', { method: 'POST', body: clip });
+      assert.equal(created.title, 'Ace');
+      assert.deepEqual(
+        [created.viewCount, created.likeCount, created.shareCount, created.isPublic],
+        [0, 0, 0, true]
+      );
+      await api('/clips', {
+        method: 'POST',
+        body: { ...clip, streamerId: 'pokimane', title: 'Private', isPublic: false },
+      });
+
+      const { body: clips } = await api('/clips?streamerId=shroud&platform=twitch');
+      assert.deepEqual(
+        clips.map((entry: { id: string }) => entry.id),
+        [created.id]
+      );
+      assert.deepEqual((await api('/clips?streamerId=pokimane')).body, []);
+
+      // A second like from the same user doesn't count
+      await api(`/clips/${created.id}/like`, { method: 'POST', body: { userId: 'ada' } });
+      await api(`/clips/${created.id}/like`, { method: 'POST', body: { userId: 'ada' } });
+      await api(`/clips/${created.id}/share`, { method: 'POST', body: {} });
+      const [updated] = (await api('/clips?userId=ada')).body;
+      assert.deepEqual([updated.likeCount, updated.shareCount], [1, 1]);
+
+      assert.equal((await api('/clips/missing/share', { method: 'POST', body: {} })).status, 404);
+    });
+
+    it('lists upcoming schedule entries in start order', async () => {
+      const schedule = (title: string, startTime: string) =>
+        api('/schedules', {
+          method: 'POST',
+          body: { streamerId: 'shroud', title, startTime, endTime: startTime },
+        });
+      await schedule('Later', inHours(48));
+      await schedule('Earlier', inHours(2));
+      await schedule('Past', inHours(-2));
+
+      const { status, body } = await api('/streamers/shroud/schedule');
+      assert.equal(status, 200);
+      assert.deepEqual(
+        body.map((entry: { title: string }) => entry.title),
+        ['Earlier', 'Later']
+      );
+      assert.equal((await api('/schedules', { method: 'POST', body: { title: 'x' } })).status, 400);
+    });
+  });
+
+  describe('WebSocket', () => {
+    it('creates a room, lets members join and tells the others', async () => {
+      const host = await connect('host-1', 'Host');
+      const guest = await connect('guest-1', 'Guest');
+
+      host.send('room_create', {
+        id: 'room-1',
+        name: 'Finals',
+        visibility: 'public',
+        hostId: 'host-1',
+        hostUsername: 'Host',
+        members: [],
+        settings: {},
+        maxMembers: 4,
+        tags: [],
+        category: 'esports',
+      });
+      assert.equal((await host.next('room_state')).id, 'room-1');
+
+      guest.send('room_join', { roomId: 'room-1' });
+      const state = await guest.next('room_state');
+      assert.deepEqual(
+        state.members.map((member: { userId: string; role: string }) => [
+          member.userId,
+          member.role,
+        ]),
+        [['guest-1', 'member']]
+      );
+      assert.equal(state.currentMemberCount, 1);
+      const joined = await host.next('room_member_join');
+      assert.equal(joined.member.username, 'Guest');
+
+      guest.send('room_join', { roomId: 'room-missing' });
+      assert.deepEqual(await guest.next('error'), {
+        type: 'room_join',
+        message: 'Room not found',
+      });
+    });
+
+    it('keeps sync rooms in step and hands the host role on when the host leaves', async () => {
+      const host = await connect('sync-host');
+      const viewer = await connect('sync-viewer');
+      const viewerState = (userId: string, currentTime: number) => ({
+        userId,
+        username: userId,
+        currentTime,
+        playbackState: 'playing',
+        latency: 40,
+      });
+
+      host.send('viewer_sync_join', {
+        roomId: 'sync-1',
+        streamId: 'stream-1',
+        viewerState: viewerState('sync-host', 12),
+      });
+      const created = await host.next('viewer_sync_room_state');
+      assert.deepEqual([created.hostId, created.masterTime], ['sync-host', 12]);
+
+      viewer.send('viewer_sync_join', {
+        roomId: 'sync-1',
+        viewerState: viewerState('sync-viewer', 11),
+      });
+      const state = await viewer.next('viewer_sync_room_state');
+      assert.deepEqual(
+        state.viewers.map((entry: { userId: string; isHost: boolean }) => [
+          entry.userId,
+          entry.isHost,
+        ]),
+        [
+          ['sync-host', true],
+          ['sync-viewer', false],
+        ]
+      );
+      assert.equal((await host.next('viewer_sync_event')).type, 'viewer_join');
+
+      host.send('viewer_sync_update', {
+        roomId: 'sync-1',
+        viewerState: viewerState('sync-host', 30),
+        event: 'seek_change',
+      });
+      const seek = await viewer.next('viewer_sync_event');
+      assert.deepEqual(
+        [seek.type, seek.fromUserId, seek.data.currentTime],
+        ['seek_change', 'sync-host', 30]
+      );
+      assert.equal(app.store.syncRooms.get('sync-1')?.masterTime, 30);
+
+      await host.close();
+      assert.deepEqual(await viewer.next('viewer_sync_host_change'), {
+        newHostId: 'sync-viewer',
+        newHostUsername: 'sync-viewer',
+      });
+    });
+
+    it('relays polls and votes to the room and recounts the tally', async () => {
+      const creator = await connect('poll-host');
+      const voter = await connect('poll-voter');
+      creator.send('join_room', { roomId: 'room-poll' });
+      await creator.next('room_joined');
+      voter.send('join_room', { roomId: 'room-poll' });
+      await voter.next('room_joined');
+
+      creator.send('poll_create', {
+        id: 'poll-1',
+        roomId: 'room-poll',
+        question: 'Best map?',
+        options: [
+          { id: 'inferno', text: 'Inferno', votes: 0, percentage: 0 },
+          { id: 'mirage', text: 'Mirage', votes: 0, percentage: 0 },
+        ],
+        status: 'active',
+        settings: { allowChangeVote: false },
+        statistics: { totalVotes: 0, totalParticipants: 0 },
+      });
+      const poll = await voter.next('poll_create');
+      assert.deepEqual([poll.id, poll.createdBy], ['poll-1', 'poll-host']);
+
+      voter.send('poll_vote', { id: 'vote-1', pollId: 'poll-1', optionId: 'mirage' });
+      assert.equal((await creator.next('poll_vote')).userId, 'poll-voter');
+      for (const client of [creator, voter]) {
+        const tally = await client.next('poll_update');
+        assert.equal(tally.statistics.totalVotes, 1);
+        assert.equal(tally.statistics.topOption, 'Mirage');
+        assert.deepEqual(
+          tally.options.map((option: { votes: number }) => option.votes),
+          [0, 1]
+        );
+      }
+
+      voter.send('poll_vote', { id: 'vote-2', pollId: 'poll-1', optionId: 'inferno' });
+      assert.equal((await voter.next('error')).message, 'You have already voted on this poll');
+
+      // Late joiners are caught up on open polls
+      const late = await connect('poll-late');
+      late.send('join_room', { roomId: 'room-poll' });
+      assert.equal((await late.next('poll_update')).statistics.totalVotes, 1);
+
+      creator.send('poll_close', { pollId: 'poll-1' });
+      assert.deepEqual(await voter.next('poll_close'), { pollId: 'poll-1' });
+      assert.equal(app.store.polls.get('poll-1')?.status, 'ended');
+    });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * The server without a port or database file: REST routes and realtime
+ * handlers wired to `db`. index.ts listens on the configured address; tests
+ * boot it on an in-memory database.
+ */
+
+import http from 'http';
+import { SqliteDatabase } from './db';
+import { Router } from './http';
+import { registerAlertHandlers } from './realtime/alerts';
+import { RealtimeHub } from './realtime/hub';
+import { registerPollHandlers } from './realtime/polls';
+import { registerPresenceHandlers } from './realtime/presence';
+import { registerRelayHandlers } from './realtime/relay';
+import { registerRoomHandlers } from './realtime/rooms';
+import { registerViewerSyncHandlers } from './realtime/viewerSync';
+import { registerSocialRoutes } from './routes/social';
+import { registerStreamerRoutes } from './routes/streamers';
+import { Store, createStore } from './store';
+
+export interface App {
+  server: http.Server;
+  hub: RealtimeHub;
+  store: Store;
+}
+
+export const createApp = (db: SqliteDatabase): App => {
+  const store = createStore(db);
+  const hub = new RealtimeHub();
+
+  const router = new Router();
+  router.get('/health', () => ({
+    status: 'ok',
+    connections: hub.connectionCount,
+    timestamp: new Date().toISOString(),
+  }));
+  registerStreamerRoutes(router, store, hub);
+  registerSocialRoutes(router, store);
+
+  registerAlertHandlers(hub);
+  registerRoomHandlers(hub, store);
+  registerViewerSyncHandlers(hub, store);
+  registerPollHandlers(hub, store);
+  registerPresenceHandlers(hub, store);
+  registerRelayHandlers(hub);
+
+  const server = http.createServer((req, res) => {
+    router.handle(req, res);
+  });
+  hub.attach(server);
+
+  return { server, hub, store };
+};
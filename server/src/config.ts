@@ -0,0 +1,9 @@
+import path from 'path';
+
+export const config = {
+  port: Number(process.env.PORT) || 3001,
+  // Loopback only; set HOST=0.0.0.0 to let a phone on the LAN reach it
+  host: process.env.HOST || '127.0.0.1',
+  // ':memory:' gives a throwaway database, handy for integration tests
+  databasePath: process.env.DATABASE_PATH || path.join(__dirname, '..', 'data', 'streamyyy.db'),
+};
@@ -0,0 +1,134 @@
+/**
+ * SQLite storage. Migrations in server/migrations run in file-name order on
+ * startup, each once. Tables keep the app's JSON documents whole in a `data`
+ * column; Table wraps the read/write boilerplate and copies the fields the
+ * server queries on into their own columns.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+export type SqliteDatabase = Database.Database;
+
+const MIGRATIONS_DIR = path.join(__dirname, '..', 'migrations');
+
+const runMigrations = (db: SqliteDatabase): void => {
+  db.exec(
+    'create table if not exists schema_migrations (name text primary key, applied_at text not null)'
+  );
+  const applied = new Set(
+    db
+      .prepare('select name from schema_migrations')
+      .all()
+      .map(row => (row as { name: string }).name)
+  );
+
+  fs.readdirSync(MIGRATIONS_DIR)
+    .filter(name => name.endsWith('.sql') && !applied.has(name))
+    .sort()
+    .forEach(name => {
+      const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, name), 'utf8');
+      db.transaction(() => {
+        db.exec(sql);
+        db.prepare('insert into schema_migrations (name, applied_at) values (?, ?)').run(
+          name,
+          new Date().toISOString()
+        );
+      })();
+      console.log(`✅ Applied migration ${name}`);
+    });
+};
+
+export const openDatabase = (file: string): SqliteDatabase => {
+  if (file !== ':memory:') {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  runMigrations(db);
+  return db;
+};
+
+type ColumnValue = string | number | null;
+
+const toColumnValue = (value: unknown): ColumnValue => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  return typeof value === 'number' ? value : String(value);
+};
+
+/**
+ * One table of JSON documents keyed by `id`. `columns` maps each extra
+ * column to the document field it mirrors.
+ */
+export class Table<T extends object> {
+  private readonly columnNames: string[];
+
+  constructor(
+    private readonly db: SqliteDatabase,
+    private readonly name: string,
+    private readonly columns: Record<string, (doc: T) => unknown> = {}
+  ) {
+    this.columnNames = Object.keys(columns);
+  }
+
+  get(id: string): T | null {
+    const row = this.db.prepare(`select data from ${this.name} where id = ?`).get(id) as
+      | { data: string }
+      | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  /**
+   * Inserts or replaces the document stored under `id`.
+   */
+  put(id: string, doc: T): T {
+    const names = ['id', 'data', ...this.columnNames];
+    const values = [
+      id,
+      JSON.stringify(doc),
+      ...this.columnNames.map(column => toColumnValue(this.columns[column](doc))),
+    ];
+    this.db
+      .prepare(
+        `insert or replace into ${this.name} (${names.join(', ')}) values (${names
+          .map(() => '?')
+          .join(', ')})`
+      )
+      .run(...values);
+    return doc;
+  }
+
+  /**
+   * Shallow-merges `patch` into the stored document. Null when there's none.
+   */
+  update(id: string, patch: Partial<T>): T | null {
+    const current = this.get(id);
+    return current ? this.put(id, { ...current, ...patch }) : null;
+  }
+
+  remove(id: string): boolean {
+    return this.db.prepare(`delete from ${this.name} where id = ?`).run(id).changes > 0;
+  }
+
+  /**
+   * Documents matching a SQL condition on the table's columns.
+   */
+  find(
+    where = '1 = 1',
+    params: ColumnValue[] = [],
+    options: { orderBy?: string; limit?: number } = {}
+  ): T[] {
+    const order = options.orderBy ? ` order by ${options.orderBy}` : '';
+    const limit = options.limit ? ` limit ${Math.floor(options.limit)}` : '';
+    return this.db
+      .prepare(`select data from ${this.name} where ${where}${order}${limit}`)
+      .all(...params)
+      .map(row => JSON.parse((row as { data: string }).data));
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Minimal JSON router over node:http. Handlers get path params, the query
+ * string and the parsed body, and return the response document; throwing an
+ * HttpError picks the status code.
+ */
+
+import http from 'http';
+
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const notFound = (what: string): HttpError => new HttpError(404, `${what} not found`);
+
+const decodeParam = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    // A stray `%` that isn't an escape
+    throw new HttpError(400, `Malformed path segment: ${value}`);
+  }
+};
+
+export interface RequestContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: any;
+}
+
+type Handler = (context: RequestContext) => unknown;
+
+type Method = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+interface Route {
+  method: Method;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+}
+
+// Request bodies are small JSON documents; anything bigger is a mistake
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const readBody = (req: http.IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      if (!text) {
+        resolve({});
+        return;
+      }
+      try {
+        resolve(JSON.parse(text));
+      } catch {
+        reject(new HttpError(400, 'Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const send = (res: http.ServerResponse, status: number, body?: unknown): void => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    // The app's web build calls the API from another origin
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+export class Router {
+  private routes: Route[] = [];
+
+  get(path: string, handler: Handler): void {
+    this.add('GET', path, handler);
+  }
+
+  post(path: string, handler: Handler): void {
+    this.add('POST', path, handler);
+  }
+
+  put(path: string, handler: Handler): void {
+    this.add('PUT', path, handler);
+  }
+
+  delete(path: string, handler: Handler): void {
+    this.add('DELETE', path, handler);
+  }
+
+  /**
+   * Answers the request. Routes match in the order they were added, so
+   * literal segments must be registered before a `:param` that would
+   * swallow them.
+   */
+  async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (req.method === 'OPTIONS') {
+      send(res, 204);
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    try {
+      const matched = this.match(req.method, url.pathname);
+      if (!matched) {
+        throw new HttpError(404, `No route for ${req.method} ${url.pathname}`);
+      }
+      const body = req.method === 'GET' ? {} : await readBody(req);
+      const result = await matched.route.handler({
+        params: matched.params,
+        query: url.searchParams,
+        body,
+      });
+      // The app parses every response as JSON, so commands answer with a body too
+      send(res, 200, result === undefined ? { success: true } : result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        send(res, error.status, { error: error.message });
+        return;
+      }
+      console.error(`❌ ${req.method} ${url.pathname} failed:`, error);
+      send(res, 500, { error: 'Internal server error' });
+    }
+  }
+
+  private match(
+    method: string | undefined,
+    pathname: string
+  ): { route: Route; params: Record<string, string> } | null {
+    for (const route of this.routes) {
+      const match = route.method === method ? route.pattern.exec(pathname) : null;
+      if (match) {
+        const params = Object.fromEntries(
+          route.keys.map((key, index) => [key, decodeParam(match[index + 1])])
+        );
+        return { route, params };
+      }
+    }
+    return null;
+  }
+
+  private add(method: Method, path: string, handler: Handler): void {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    this.routes.push({ method, pattern: new RegExp(`^${source}/?$`), keys, handler });
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Reference backend for Streamyyy's social, rooms and sync features. One
+ * HTTP server answers the REST API and accepts WebSocket upgrades on any
+ * path. See server/README.md for the protocol.
+ */
+
+import { createApp } from './app';
+import { config } from './config';
+import { openDatabase } from './db';
+
+const db = openDatabase(config.databasePath);
+const { server, hub } = createApp(db);
+
+server.listen(config.port, config.host, () => {
+  console.log(`✅ Streamyyy server listening on http://${config.host}:${config.port}`);
+  console.log(`🔄 Database: ${config.databasePath}`);
+});
+
+const shutdown = () => {
+  console.log('🔄 Shutting down');
+  hub.close();
+  server.close(() => {
+    db.close();
+    process.exit(0);
+  });
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
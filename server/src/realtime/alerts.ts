@@ -0,0 +1,29 @@
+/**
+ * Streamer alerts for services/streamManagementService.ts. That service sends
+ * and expects bare `{ type, ... }` frames rather than envelopes, so everything
+ * here goes out through publishRaw.
+ */
+
+import { StreamAlert } from '../types';
+import { RealtimeError, RealtimeHub } from './hub';
+
+const alertChannel = (streamerId: string): string => `alerts:${streamerId}`;
+
+export const registerAlertHandlers = (hub: RealtimeHub): void => {
+  hub.on('subscribe_alerts', (client, data) => {
+    if (!data.streamerId) {
+      throw new RealtimeError('streamerId is required');
+    }
+    hub.subscribe(client, alertChannel(data.streamerId));
+  });
+
+  hub.on('unsubscribe_alerts', (client, data) => {
+    if (data.streamerId) {
+      hub.unsubscribe(client, alertChannel(data.streamerId));
+    }
+  });
+};
+
+export const publishAlert = (hub: RealtimeHub, alert: StreamAlert): void => {
+  hub.publishRaw(alertChannel(alert.streamerId), { type: 'stream_alert', alert });
+};
@@ -0,0 +1,241 @@
+/**
+ * WebSocket side of the server. Every frame is JSON. The app's services speak
+ * `{ type, data, timestamp }` envelopes through services/webSocketService.ts;
+ * streamManagementService talks to the same socket with bare
+ * `{ type, ...fields }` objects, which handlers get as their `data` too.
+ *
+ * Clients say who they are with `?userId=&username=` on the connection URL,
+ * or implicitly with the first message that carries a `userId`. Rooms are
+ * plain channels: a client subscribes when it joins one and messages for the
+ * room fan out to every subscriber.
+ */
+
+import http from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { generateId } from '../util';
+
+export interface Client {
+  id: string;
+  socket: WebSocket;
+  userId?: string;
+  username?: string;
+  channels: Set<string>;
+  /** Rooms joined through `join_room`; one socket can be in several. */
+  rooms: Set<string>;
+  /** The room joined most recently, used when a message names none. */
+  currentRoom?: string;
+}
+
+export interface RealtimeMessage {
+  type: string;
+  data: any;
+  timestamp: string;
+}
+
+type MessageHandler = (client: Client, data: any, message: RealtimeMessage) => void;
+
+type DisconnectHandler = (client: Client) => void;
+
+type SubscribeHandler = (client: Client, channel: string) => void;
+
+/**
+ * A failure a handler reports back to the sender as an `error` message
+ * rather than logging it as a server fault.
+ */
+export class RealtimeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RealtimeError';
+  }
+}
+
+export const roomChannel = (roomId: string): string => `room:${roomId}`;
+
+export const userChannel = (userId: string): string => `user:${userId}`;
+
+export class RealtimeHub {
+  private server: WebSocketServer | null = null;
+  private clients = new Set<Client>();
+  private channels = new Map<string, Set<Client>>();
+  private handlers = new Map<string, MessageHandler>();
+  private fallbackHandler: MessageHandler | null = null;
+  private disconnectHandlers: DisconnectHandler[] = [];
+  private subscribeHandlers: SubscribeHandler[] = [];
+
+  /**
+   * Accepts upgrades on any path of `server`, so the app's `EXPO_PUBLIC_WS_URL`
+   * can point at the bare host.
+   */
+  attach(server: http.Server): void {
+    this.server = new WebSocketServer({ server });
+    this.server.on('connection', (socket, request) => {
+      const url = new URL(request.url || '/', 'http://localhost');
+      const client: Client = {
+        id: generateId('conn'),
+        socket,
+        channels: new Set(),
+        rooms: new Set(),
+      };
+      this.clients.add(client);
+      const userId = url.searchParams.get('userId');
+      if (userId) {
+        this.identify(client, userId, url.searchParams.get('username'));
+      }
+
+      socket.on('message', raw => this.receive(client, raw.toString()));
+      socket.on('close', () => this.disconnect(client));
+      socket.on('error', error => console.error('❌ WebSocket client error:', error));
+    });
+  }
+
+  on(type: string, handler: MessageHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Handles every message type nobody registered for.
+   */
+  onUnhandled(handler: MessageHandler): void {
+    this.fallbackHandler = handler;
+  }
+
+  onDisconnect(handler: DisconnectHandler): void {
+    this.disconnectHandlers.push(handler);
+  }
+
+  /**
+   * Runs when a client joins a channel it wasn't on, e.g. to catch it up on
+   * state it missed.
+   */
+  onSubscribe(handler: SubscribeHandler): void {
+    this.subscribeHandlers.push(handler);
+  }
+
+  send(client: Client, type: string, data: unknown): void {
+    this.sendRaw(client, { type, data, timestamp: new Date().toISOString() });
+  }
+
+  sendRaw(client: Client, payload: object): void {
+    if (client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(JSON.stringify(payload));
+    }
+  }
+
+  subscribe(client: Client, channel: string): void {
+    if (client.channels.has(channel)) {
+      return;
+    }
+    client.channels.add(channel);
+    if (!this.channels.has(channel)) {
+      this.channels.set(channel, new Set());
+    }
+    this.channels.get(channel)!.add(client);
+    this.subscribeHandlers.forEach(handler => handler(client, channel));
+  }
+
+  unsubscribe(client: Client, channel: string): void {
+    client.channels.delete(channel);
+    const members = this.channels.get(channel);
+    members?.delete(client);
+    if (members && members.size === 0) {
+      this.channels.delete(channel);
+    }
+  }
+
+  /**
+   * Sends to everyone on the channel except `except`, which is how senders
+   * avoid getting their own change echoed back.
+   */
+  publish(channel: string, type: string, data: unknown, except?: Client): void {
+    this.channels.get(channel)?.forEach(client => {
+      if (client !== except) {
+        this.send(client, type, data);
+      }
+    });
+  }
+
+  publishRaw(channel: string, payload: object): void {
+    this.channels.get(channel)?.forEach(client => this.sendRaw(client, payload));
+  }
+
+  sendToUser(userId: string, type: string, data: unknown): void {
+    this.publish(userChannel(userId), type, data);
+  }
+
+  clientsOf(channel: string): Client[] {
+    return Array.from(this.channels.get(channel) || []);
+  }
+
+  get connectionCount(): number {
+    return this.clients.size;
+  }
+
+  close(): void {
+    this.clients.forEach(client => client.socket.close());
+    this.server?.close();
+  }
+
+  private identify(client: Client, userId: string, username?: string | null): void {
+    client.userId = userId;
+    client.username = username || client.username || userId;
+    this.subscribe(client, userChannel(userId));
+  }
+
+  private receive(client: Client, raw: string): void {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      this.send(client, 'error', { message: 'Messages must be JSON' });
+      return;
+    }
+    if (!parsed || typeof parsed.type !== 'string') {
+      this.send(client, 'error', { message: 'Messages need a type' });
+      return;
+    }
+
+    const message: RealtimeMessage = {
+      type: parsed.type,
+      data: parsed.data !== undefined ? parsed.data : parsed,
+      timestamp: parsed.timestamp || new Date().toISOString(),
+    };
+    const data = message.data || {};
+    if (!client.userId && typeof data.userId === 'string') {
+      this.identify(client, data.userId, data.username);
+    }
+
+    if (message.type === 'ping') {
+      this.send(client, 'pong', data);
+      return;
+    }
+
+    const handler = this.handlers.get(message.type) || this.fallbackHandler;
+    if (!handler) {
+      this.send(client, 'error', { type: message.type, message: 'Unknown message type' });
+      return;
+    }
+    try {
+      handler(client, data, message);
+    } catch (error) {
+      if (!(error instanceof RealtimeError)) {
+        console.error(`❌ Failed to handle ${message.type}:`, error);
+      }
+      this.send(client, 'error', {
+        type: message.type,
+        message: error instanceof RealtimeError ? error.message : 'Internal server error',
+      });
+    }
+  }
+
+  private disconnect(client: Client): void {
+    this.clients.delete(client);
+    this.disconnectHandlers.forEach(handler => {
+      try {
+        handler(client);
+      } catch (error) {
+        console.error('❌ Disconnect handler failed:', error);
+      }
+    });
+    Array.from(client.channels).forEach(channel => this.unsubscribe(client, channel));
+  }
+}
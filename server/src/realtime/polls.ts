@@ -0,0 +1,246 @@
+/**
+ * Live polls and Q&A for services/livePollsService.ts. Traffic for a room
+ * goes to the clients on its channel (joined through room_join or
+ * join_room). Vote tallies are always recounted here and pushed as
+ * poll_update, so clients that missed a vote still converge.
+ */
+
+import { Store } from '../store';
+import { Poll, PollVote, QASession, Question } from '../types';
+import { now } from '../util';
+import { Client, RealtimeError, RealtimeHub, roomChannel } from './hub';
+
+export const registerPollHandlers = (hub: RealtimeHub, store: Store): void => {
+  const requirePoll = (pollId: string): Poll => {
+    const poll = pollId ? store.polls.get(pollId) : null;
+    if (!poll) {
+      throw new RealtimeError('Poll not found');
+    }
+    return poll;
+  };
+
+  const requireQuestion = (questionId: string): { question: Question; session: QASession } => {
+    const question = questionId ? store.questions.get(questionId) : null;
+    const session = question ? store.qaSessions.get(question.sessionId) : null;
+    if (!question || !session) {
+      throw new RealtimeError('Question not found');
+    }
+    return { question, session };
+  };
+
+  /**
+   * Senders who haven't joined the room through rooms or chat still hear
+   * back from it once they post there.
+   */
+  const joinRoom = (client: Client, roomId: string): string => {
+    const channel = roomChannel(roomId);
+    hub.subscribe(client, channel);
+    return channel;
+  };
+
+  const tally = (poll: Poll): Poll => {
+    const votes = store.pollVotes.find('poll_id = ?', [poll.id]);
+    const counts = new Map<string, number>();
+    votes.forEach(vote =>
+      (vote.optionIds?.length ? vote.optionIds : [vote.optionId]).forEach(optionId =>
+        counts.set(optionId, (counts.get(optionId) || 0) + 1)
+      )
+    );
+    const totalVotes = Array.from(counts.values()).reduce((total, count) => total + count, 0);
+    const options = poll.options.map(option => {
+      const count = counts.get(option.id) || 0;
+      return { ...option, votes: count, percentage: totalVotes ? (count / totalVotes) * 100 : 0 };
+    });
+    const top = options.reduce<(typeof options)[number] | null>(
+      (best, option) => (!best || option.votes > best.votes ? option : best),
+      null
+    );
+    return store.polls.put(poll.id, {
+      ...poll,
+      options,
+      statistics: {
+        ...poll.statistics,
+        totalVotes,
+        totalParticipants: new Set(votes.map(vote => vote.userId)).size,
+        topOption: top?.text || '',
+      },
+    });
+  };
+
+  hub.on('poll_create', (client, data) => {
+    if (!data.id || !data.roomId || !Array.isArray(data.options)) {
+      throw new RealtimeError('Poll needs an id, roomId and options');
+    }
+    const poll = store.polls.put(data.id, {
+      ...(data as Poll),
+      createdBy: client.userId || data.createdBy,
+    });
+    hub.publish(joinRoom(client, poll.roomId), 'poll_create', poll, client);
+  });
+
+  hub.on('poll_vote', (client, data) => {
+    const poll = requirePoll(data.pollId);
+    const userId = client.userId || data.userId;
+    if (poll.status !== 'active' || (poll.endsAt && new Date(poll.endsAt) < new Date())) {
+      throw new RealtimeError('Poll is not active');
+    }
+    const optionIds: string[] = data.optionIds?.length ? data.optionIds : [data.optionId];
+    if (!optionIds.every(optionId => poll.options.some(option => option.id === optionId))) {
+      throw new RealtimeError('Unknown poll option');
+    }
+
+    const previous = store.pollVotes.find('poll_id = ? and user_id = ?', [poll.id, userId]);
+    if (previous.length > 0 && !poll.settings.allowChangeVote) {
+      throw new RealtimeError('You have already voted on this poll');
+    }
+    const vote: PollVote = { ...data, userId, optionIds, timestamp: data.timestamp || now() };
+    store.db.transaction(() => {
+      previous.forEach(stale => store.pollVotes.remove(stale.id));
+      store.pollVotes.put(vote.id, vote);
+    })();
+
+    const channel = joinRoom(client, poll.roomId);
+    hub.publish(channel, 'poll_vote', vote, client);
+    hub.publish(channel, 'poll_update', tally(poll));
+  });
+
+  hub.on('poll_close', (client, data) => {
+    const poll = requirePoll(data.pollId);
+    if (poll.createdBy !== client.userId) {
+      throw new RealtimeError('Only the poll creator can close the poll');
+    }
+    store.polls.put(poll.id, { ...tally(poll), status: 'ended', endsAt: now() });
+    hub.publish(joinRoom(client, poll.roomId), 'poll_close', { pollId: poll.id }, client);
+  });
+
+  hub.on('qa_session_create', (client, data) => {
+    if (!data.id || !data.roomId) {
+      throw new RealtimeError('Q&A session needs an id and roomId');
+    }
+    const session = store.qaSessions.put(data.id, {
+      ...(data as QASession),
+      hostId: client.userId || data.hostId,
+      questions: [],
+    });
+    hub.publish(joinRoom(client, session.roomId), 'qa_session_create', session, client);
+  });
+
+  hub.on('qa_question_ask', (client, data) => {
+    const session = data.sessionId ? store.qaSessions.get(data.sessionId) : null;
+    if (!session || !data.id) {
+      throw new RealtimeError('Q&A session not found');
+    }
+    if (session.status !== 'active') {
+      throw new RealtimeError('Q&A session is not active');
+    }
+    const askedBy = client.userId || data.askedBy;
+    const asked = store.questions.find("session_id = ? and json_extract(data, '$.askedBy') = ?", [
+      session.id,
+      askedBy,
+    ]).length;
+    if (session.settings.maxQuestionsPerUser && asked >= session.settings.maxQuestionsPerUser) {
+      throw new RealtimeError('Maximum questions per user reached');
+    }
+    const question = store.questions.put(data.id, {
+      ...(data as Question),
+      askedBy,
+      upvotes: 0,
+      downvotes: 0,
+    });
+    store.qaSessions.put(session.id, {
+      ...session,
+      statistics: {
+        ...session.statistics,
+        totalQuestions: store.questions.find('session_id = ?', [session.id]).length,
+      },
+    });
+    hub.publish(joinRoom(client, session.roomId), 'qa_question_ask', question, client);
+  });
+
+  hub.on('qa_question_answer', (client, data) => {
+    const { question, session } = requireQuestion(data.questionId);
+    const userId = client.userId || data.answeredBy;
+    if (session.hostId !== userId && !session.moderators.includes(userId)) {
+      throw new RealtimeError('Only the host or moderators can answer questions');
+    }
+    const answeredAt = now();
+    store.questions.put(question.id, {
+      ...question,
+      answer: data.answer,
+      answeredBy: userId,
+      answeredByUsername: data.answeredByUsername,
+      answeredAt,
+      status: 'answered',
+    });
+    store.qaSessions.put(session.id, {
+      ...session,
+      statistics: {
+        ...session.statistics,
+        totalAnswered: store.questions.find(
+          "session_id = ? and json_extract(data, '$.status') = 'answered'",
+          [session.id]
+        ).length,
+      },
+    });
+    hub.publish(
+      joinRoom(client, session.roomId),
+      'qa_question_answer',
+      { ...data, answeredBy: userId, answeredAt },
+      client
+    );
+  });
+
+  hub.on('qa_question_vote', (client, data) => {
+    const { question, session } = requireQuestion(data.questionId);
+    const userId = client.userId || data.userId;
+    if (!session.settings.allowVoting) {
+      throw new RealtimeError('Voting is not enabled for this session');
+    }
+    const vote = data.vote === 'down' ? -1 : 1;
+    const previous = store.db
+      .prepare('select vote from qa_question_votes where question_id = ? and user_id = ?')
+      .get(question.id, userId) as { vote: number } | undefined;
+    if (previous?.vote === vote) {
+      return;
+    }
+    store.db
+      .prepare(
+        'insert or replace into qa_question_votes (question_id, user_id, vote) values (?, ?, ?)'
+      )
+      .run(question.id, userId, vote);
+    const counts = store.db
+      .prepare(
+        `select coalesce(sum(vote = 1), 0) as upvotes, coalesce(sum(vote = -1), 0) as downvotes
+         from qa_question_votes where question_id = ?`
+      )
+      .get(question.id) as { upvotes: number; downvotes: number };
+    store.questions.put(question.id, { ...question, ...counts });
+    hub.publish(
+      joinRoom(client, session.roomId),
+      'qa_question_vote',
+      { questionId: question.id, vote: data.vote, userId },
+      client
+    );
+  });
+
+  /**
+   * Catches a client up on the room's open polls and Q&A when it joins.
+   */
+  hub.onSubscribe((client, channel) => {
+    if (!channel.startsWith('room:')) {
+      return;
+    }
+    const roomId = channel.slice('room:'.length);
+    store.polls
+      .find("room_id = ? and json_extract(data, '$.status') = 'active'", [roomId])
+      .forEach(poll => hub.send(client, 'poll_update', poll));
+    store.qaSessions
+      .find("room_id = ? and json_extract(data, '$.status') = 'active'", [roomId])
+      .forEach(session =>
+        hub.send(client, 'qa_session_create', {
+          ...session,
+          questions: store.questions.find('session_id = ?', [session.id]),
+        })
+      );
+  });
+};
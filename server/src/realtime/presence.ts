@@ -0,0 +1,389 @@
+/**
+ * Presence, friends and live notifications for services/presenceService.ts.
+ * Every client that announces itself with user_online hears everyone else's
+ * presence; invisible users are tracked but never announced.
+ */
+
+import { Store } from '../store';
+import { UserPresence } from '../types';
+import { generateId, now } from '../util';
+import { Client, RealtimeError, RealtimeHub, userChannel } from './hub';
+
+const PRESENCE_CHANNEL = 'presence';
+
+const RETENTION_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const isVisible = (presence: UserPresence): boolean =>
+  presence.isOnline && presence.status !== 'invisible' && !presence.preferences?.invisibleMode;
+
+export const registerPresenceHandlers = (hub: RealtimeHub, store: Store): void => {
+  let peakOnline = { count: 0, at: now() };
+
+  const requirePresence = (client: Client, userId?: string): UserPresence => {
+    const id = userId || client.userId;
+    if (!id || id !== client.userId) {
+      throw new RealtimeError('You can only update your own presence');
+    }
+    const presence = store.presences.get(id);
+    if (!presence) {
+      throw new RealtimeError('Announce yourself with user_online first');
+    }
+    return presence;
+  };
+
+  const countBy = (values: string[]): Record<string, number> =>
+    values.reduce<Record<string, number>>((counts, value) => {
+      counts[value] = (counts[value] || 0) + 1;
+      return counts;
+    }, {});
+
+  /**
+   * PresenceStatistics over everyone the server has seen.
+   */
+  const statistics = () => {
+    const everyone = store.presences.find();
+    const online = everyone.filter(presence => presence.isOnline);
+    if (online.length > peakOnline.count) {
+      peakOnline = { count: online.length, at: now() };
+    }
+    const since = new Date(Date.now() - RETENTION_WINDOW_MS).toISOString();
+    const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    const sessionMinutes = online.map(
+      presence =>
+        (Date.now() - new Date(presence.connectedAt || presence.lastSeen).getTime()) / 60000
+    );
+    const active = online.filter(
+      presence => presence.activity && presence.activity.type !== 'idle'
+    );
+    const socialInteractions = (
+      store.db
+        .prepare(
+          `select (select count(*) from friend_requests where json_extract(data, '$.createdAt') >= ?)
+            + (select count(*) from follows where created_at >= ?) as total`
+        )
+        .get(dayAgo, dayAgo) as { total: number }
+    ).total;
+
+    return {
+      totalUsers: everyone.length,
+      onlineUsers: online.length,
+      byStatus: countBy(online.map(presence => presence.status)),
+      byActivity: countBy(online.map(presence => presence.activity?.type || 'idle')),
+      byLocation: Object.entries(
+        countBy(online.map(presence => presence.location?.country || 'unknown'))
+      )
+        .map(([location, count]) => ({ location, count }))
+        .sort((a, b) => b.count - a.count),
+      averageSessionLength: sessionMinutes.length
+        ? Math.round(
+            sessionMinutes.reduce((total, minutes) => total + minutes, 0) / sessionMinutes.length
+          )
+        : 0,
+      peakOnlineTime: peakOnline.at,
+      retentionRate: everyone.length
+        ? Math.round(
+            (everyone.filter(presence => presence.lastSeen >= since).length / everyone.length) * 100
+          )
+        : 0,
+      engagementScore: online.length ? Math.round((active.length / online.length) * 100) : 0,
+      socialInteractions,
+    };
+  };
+
+  /**
+   * Saves the change and tells everyone else about it, unless the user is
+   * hidden.
+   */
+  const announce = (client: Client, presence: UserPresence, type: string, data: unknown) => {
+    store.presences.put(presence.userId, presence);
+    if (isVisible(presence)) {
+      hub.publish(PRESENCE_CHANNEL, type, data, client);
+    }
+  };
+
+  const goOffline = (client: Client, userId: string) => {
+    const presence = store.presences.get(userId);
+    if (!presence) {
+      return;
+    }
+    const wasVisible = isVisible(presence);
+    store.presences.put(userId, {
+      ...presence,
+      isOnline: false,
+      status: 'offline',
+      lastSeen: now(),
+    });
+    if (wasVisible) {
+      hub.publish(
+        PRESENCE_CHANNEL,
+        'user_offline',
+        { userId, username: presence.username, timestamp: now() },
+        client
+      );
+    }
+    hub.publish(PRESENCE_CHANNEL, 'presence_stats', statistics(), client);
+  };
+
+  hub.on('user_online', (client, data) => {
+    if (!data.userId || data.userId !== client.userId) {
+      throw new RealtimeError('You can only announce yourself');
+    }
+    const presence: UserPresence = {
+      ...(data as UserPresence),
+      isOnline: true,
+      lastSeen: now(),
+      connectedAt: now(),
+    };
+    hub.subscribe(client, PRESENCE_CHANNEL);
+    announce(client, presence, 'user_online', presence);
+
+    // Catch the newcomer up on who's already here
+    store.presences
+      .find('is_online = 1 and id != ?', [presence.userId])
+      .filter(isVisible)
+      .forEach(other => hub.send(client, 'user_online', other));
+    hub.publish(PRESENCE_CHANNEL, 'presence_stats', statistics());
+  });
+
+  hub.on('user_offline', (client, data) => {
+    if (data.userId && data.userId === client.userId) {
+      goOffline(client, data.userId);
+    }
+  });
+
+  hub.on('presence_update', (client, data) => {
+    const presence = requirePresence(client, data.userId);
+    const updated: UserPresence = {
+      ...presence,
+      status: data.status || presence.status,
+      lastSeen: now(),
+      preferences: data.customMessage
+        ? { ...presence.preferences, customStatus: data.customMessage }
+        : presence.preferences,
+    };
+    const wasVisible = isVisible(presence);
+    announce(client, updated, 'presence_update', { ...data, timestamp: updated.lastSeen });
+    // Going invisible looks like going offline to everyone else
+    if (wasVisible && !isVisible(updated)) {
+      hub.publish(
+        PRESENCE_CHANNEL,
+        'user_offline',
+        { userId: updated.userId, username: updated.username },
+        client
+      );
+    } else if (!wasVisible && isVisible(updated)) {
+      hub.publish(PRESENCE_CHANNEL, 'user_online', updated, client);
+    }
+  });
+
+  hub.on('activity_update', (client, data) => {
+    const presence = requirePresence(client, data.userId);
+    const updated: UserPresence = { ...presence, activity: data.activity, lastSeen: now() };
+    store.presences.put(presence.userId, updated);
+    if (isVisible(updated) && data.activity?.isPublic !== false) {
+      hub.publish(PRESENCE_CHANNEL, 'activity_update', data, client);
+    }
+  });
+
+  hub.on('location_update', (client, data) => {
+    const presence = requirePresence(client, data.userId);
+    const updated: UserPresence = {
+      ...presence,
+      location: { ...presence.location, ...data.location },
+      lastSeen: now(),
+    };
+    store.presences.put(presence.userId, updated);
+    if (isVisible(updated) && updated.preferences?.showLocation !== false) {
+      hub.publish(PRESENCE_CHANNEL, 'location_update', data, client);
+    }
+  });
+
+  hub.on('presence_heartbeat', (client, data) => {
+    const presence = store.presences.get(data.userId || client.userId);
+    if (presence && presence.userId === client.userId) {
+      store.presences.put(presence.userId, { ...presence, isOnline: true, lastSeen: now() });
+    }
+  });
+
+  hub.on('friend_request', (client, data) => {
+    if (!data.id || !data.toUserId || data.fromUserId !== client.userId) {
+      throw new RealtimeError('Friend request needs an id, toUserId and your own fromUserId');
+    }
+    if (data.toUserId === data.fromUserId) {
+      throw new RealtimeError("You can't befriend yourself");
+    }
+    const pending = store.friendRequests.find(
+      "from_user_id = ? and to_user_id = ? and status = 'pending'",
+      [data.fromUserId, data.toUserId]
+    );
+    if (pending.length > 0) {
+      throw new RealtimeError('Friend request already pending');
+    }
+    const recipient = store.presences.get(data.toUserId) || store.users.get(data.toUserId);
+    const request = store.friendRequests.put(data.id, {
+      ...data,
+      toUsername: recipient?.username || data.toUserId,
+      status: 'pending',
+      createdAt: data.createdAt || now(),
+    });
+    hub.sendToUser(request.toUserId, 'friend_request', request);
+  });
+
+  hub.on('friend_request_response', (client, data) => {
+    const request = data.requestId ? store.friendRequests.get(data.requestId) : null;
+    if (!request || request.toUserId !== client.userId || request.status !== 'pending') {
+      throw new RealtimeError('Friend request not found');
+    }
+    const respondedAt = data.respondedAt || now();
+    store.db.transaction(() => {
+      store.friendRequests.put(request.id, {
+        ...request,
+        status: data.accept ? 'accepted' : 'rejected',
+        respondedAt,
+      });
+      if (data.accept) {
+        const befriend = store.db.prepare(
+          'insert or ignore into friendships (user_id, friend_id, created_at) values (?, ?, ?)'
+        );
+        befriend.run(request.fromUserId, request.toUserId, respondedAt);
+        befriend.run(request.toUserId, request.fromUserId, respondedAt);
+      }
+    })();
+    hub.sendToUser(request.fromUserId, 'friend_request_response', {
+      requestId: request.id,
+      accept: !!data.accept,
+      respondedAt,
+    });
+  });
+
+  hub.on('follow_user', (client, data) => {
+    if (!data.toUserId || data.fromUserId !== client.userId) {
+      throw new RealtimeError('follow_user needs a toUserId and your own fromUserId');
+    }
+    const existing = store.follows.find('follower_id = ? and following_id = ?', [
+      data.fromUserId,
+      data.toUserId,
+    ]);
+    if (existing.length > 0) {
+      return;
+    }
+    const createdAt = data.timestamp || now();
+    const followId = generateId('follow');
+    store.follows.put(followId, {
+      id: followId,
+      followerId: data.fromUserId,
+      followingId: data.toUserId,
+      followingType: 'user',
+      createdAt,
+      notifications: {
+        streamGoesLive: true,
+        newPosts: true,
+        achievements: false,
+        scheduleUpdates: true,
+      },
+      metadata: { source: 'presence' },
+    });
+
+    const notificationId = generateId('notification');
+    const notification = store.notifications.put(notificationId, {
+      id: notificationId,
+      type: 'follow',
+      title: 'New Follower',
+      message: `${client.username || data.fromUserId} started following you`,
+      priority: 'low',
+      category: 'social',
+      userId: data.toUserId,
+      fromUserId: data.fromUserId,
+      fromUsername: client.username,
+      createdAt,
+      isRead: false,
+      isArchived: false,
+      isSilent: false,
+      tags: [],
+    });
+    hub.sendToUser(data.toUserId, 'notification_create', notification);
+  });
+
+  /**
+   * The app creates notifications locally; storing them here keeps a
+   * user's other devices in step.
+   */
+  hub.on('notification_create', (client, data) => {
+    if (!data.id || !data.userId) {
+      throw new RealtimeError('Notification needs an id and userId');
+    }
+    if (data.userId !== client.userId) {
+      throw new RealtimeError('You can only create your own notifications');
+    }
+    const notification = store.notifications.put(data.id, { ...data, isRead: !!data.isRead });
+    hub.clientsOf(userChannel(notification.userId)).forEach(device => {
+      if (device !== client) {
+        hub.send(device, 'notification_create', notification);
+      }
+    });
+  });
+
+  hub.on('notification_read', (client, data) => {
+    const notification = data.notificationId ? store.notifications.get(data.notificationId) : null;
+    if (!notification || notification.userId !== client.userId) {
+      return;
+    }
+    store.notifications.put(notification.id, { ...notification, isRead: true });
+    hub.clientsOf(userChannel(notification.userId)).forEach(device => {
+      if (device !== client) {
+        hub.send(device, 'notification_read', { notificationId: notification.id });
+      }
+    });
+  });
+
+  hub.on('user_search', (client, data) => {
+    const query = String(data.query || '').toLowerCase();
+    const filters = data.filters || {};
+    const requesterId = client.userId || data.requesterId;
+    const friends = new Set(
+      store.db
+        .prepare('select friend_id from friendships where user_id = ?')
+        .all(requesterId)
+        .map(row => (row as { friend_id: string }).friend_id)
+    );
+
+    const results = store.presences
+      .find('id != ?', [requesterId || ''], { orderBy: 'is_online desc, last_seen desc' })
+      .map(presence =>
+        isVisible(presence) || !presence.isOnline
+          ? presence
+          : { ...presence, isOnline: false, status: 'offline' }
+      )
+      .filter(
+        presence =>
+          (!query ||
+            presence.username.toLowerCase().includes(query) ||
+            (presence.displayName || '').toLowerCase().includes(query)) &&
+          (!filters.status?.length || filters.status.includes(presence.status)) &&
+          (!filters.activity?.length || filters.activity.includes(presence.activity?.type)) &&
+          (!filters.location ||
+            [
+              presence.location?.country,
+              presence.location?.region,
+              presence.location?.roomId,
+            ].includes(filters.location)) &&
+          (!filters.onlineOnly || presence.isOnline) &&
+          (!filters.friendsOnly || friends.has(presence.userId))
+      )
+      .slice(0, Math.min(Number(filters.limit) || 20, 100));
+    hub.send(client, 'user_search_results', results);
+  });
+
+  hub.onDisconnect(client => {
+    if (!client.userId || !client.channels.has(PRESENCE_CHANNEL)) {
+      return;
+    }
+    // Other tabs or devices of the same user keep them online
+    const stillConnected = hub
+      .clientsOf(userChannel(client.userId))
+      .some(other => other !== client && other.channels.has(PRESENCE_CHANNEL));
+    if (!stillConnected) {
+      goOffline(client, client.userId);
+    }
+  });
+};
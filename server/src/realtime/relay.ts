@@ -0,0 +1,66 @@
+/**
+ * Generic room traffic for the services without server-side state of their
+ * own: realtimeChatService, realtimeReactionsService and annotationsService.
+ * A client joins rooms with join_room, as many as it likes over one socket;
+ * any message type no other module handles is relayed to the rest of the
+ * room it names (`data.roomId`) or the one the client joined last.
+ */
+
+import { Client, RealtimeError, RealtimeHub, roomChannel } from './hub';
+
+const memberOf = (client: Client) => ({
+  id: client.userId || client.id,
+  username: client.username || 'Anonymous',
+});
+
+export const registerRelayHandlers = (hub: RealtimeHub): void => {
+  const leave = (client: Client, roomId: string) => {
+    if (!client.rooms.delete(roomId)) {
+      return;
+    }
+    const channel = roomChannel(roomId);
+    hub.unsubscribe(client, channel);
+    hub.publish(channel, 'user_leave', { userId: memberOf(client).id, roomId });
+    if (client.currentRoom === roomId) {
+      client.currentRoom = Array.from(client.rooms).pop();
+    }
+  };
+
+  hub.on('join_room', (client, data) => {
+    if (!data.roomId) {
+      throw new RealtimeError('roomId is required');
+    }
+    const channel = roomChannel(data.roomId);
+    const rejoining = client.rooms.has(data.roomId);
+    client.rooms.delete(data.roomId);
+    client.rooms.add(data.roomId);
+    client.currentRoom = data.roomId;
+    hub.subscribe(client, channel);
+
+    const users = hub
+      .clientsOf(channel)
+      .map(memberOf)
+      .filter((user, index, all) => all.findIndex(other => other.id === user.id) === index);
+    hub.send(client, 'room_joined', { room: { id: data.roomId }, users, messages: [] });
+    if (!rejoining) {
+      hub.publish(channel, 'user_join', memberOf(client), client);
+    }
+  });
+
+  hub.on('leave_room', (client, data) => {
+    const roomId = data.roomId || client.currentRoom;
+    if (roomId) {
+      leave(client, roomId);
+    }
+  });
+
+  hub.onUnhandled((client, data, message) => {
+    const roomId = data.roomId || client.currentRoom;
+    if (!roomId || !client.channels.has(roomChannel(roomId))) {
+      throw new RealtimeError(`Join a room before sending ${message.type}`);
+    }
+    hub.publish(roomChannel(roomId), message.type, data, client);
+  });
+
+  hub.onDisconnect(client => Array.from(client.rooms).forEach(roomId => leave(client, roomId)));
+};
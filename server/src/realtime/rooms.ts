@@ -0,0 +1,473 @@
+/**
+ * Stream rooms for services/streamRoomsService.ts. The client applies its own
+ * changes optimistically, so most updates are checked, stored and relayed to
+ * the other members only; room_state, queue and layout updates go to
+ * everyone.
+ */
+
+import crypto from 'crypto';
+import { Store } from '../store';
+import { MemberRole, RoomLayout, RoomMember, StreamRoom } from '../types';
+import { generateId, now, omit } from '../util';
+import { Client, RealtimeError, RealtimeHub, roomChannel } from './hub';
+
+// The grid shows at most this many tiles
+const MAX_LAYOUT_STREAMS = 9;
+
+const ALL_PERMISSIONS = [
+  'manage_room',
+  'invite_users',
+  'kick_users',
+  'ban_users',
+  'mute_users',
+  'change_stream',
+  'control_playback',
+  'moderate_chat',
+  'create_polls',
+  'manage_queue',
+  'share_screen',
+  'use_voice_chat',
+  'create_annotations',
+  'manage_reactions',
+];
+
+// Mirrors getPermissionsForRole in the app
+const ROLE_PERMISSIONS: Record<MemberRole, string[]> = {
+  host: ALL_PERMISSIONS,
+  co_host: ALL_PERMISSIONS.filter(permission => !['manage_room', 'ban_users'].includes(permission)),
+  moderator: [
+    'kick_users',
+    'mute_users',
+    'moderate_chat',
+    'create_polls',
+    'manage_queue',
+    'use_voice_chat',
+    'create_annotations',
+    'manage_reactions',
+  ],
+  vip: ['create_polls', 'manage_queue', 'use_voice_chat', 'create_annotations', 'manage_reactions'],
+  member: ['use_voice_chat', 'create_annotations', 'manage_reactions'],
+  guest: [],
+};
+
+const hashPassword = (password: string, salt = crypto.randomBytes(16).toString('hex')): string =>
+  `${salt}:${crypto.scryptSync(password, salt, 32).toString('hex')}`;
+
+const passwordMatches = (password: string, stored: string): boolean => {
+  const [salt, hash] = stored.split(':');
+  const candidate = hashPassword(password, salt).split(':')[1];
+  return crypto.timingSafeEqual(Buffer.from(candidate, 'hex'), Buffer.from(hash, 'hex'));
+};
+
+/**
+ * The room as members see it: no password, hashed or otherwise.
+ */
+export const publicRoom = (room: StreamRoom): StreamRoom => {
+  return omit(room, ['password', 'passwordHash']) as StreamRoom;
+};
+
+const createMember = (userId: string, username: string, role: MemberRole): RoomMember => {
+  const timestamp = now();
+  return {
+    id: generateId('member'),
+    userId,
+    username,
+    displayName: username,
+    role,
+    permissions: ROLE_PERMISSIONS[role],
+    joinedAt: timestamp,
+    lastActiveAt: timestamp,
+    isOnline: true,
+    isMuted: false,
+    isBanned: false,
+    statistics: {
+      totalTimeInRoom: 0,
+      messagesPosted: 0,
+      reactionsGiven: 0,
+      pollsCreated: 0,
+      pollsParticipated: 0,
+      streamsWatched: 0,
+      averageViewTime: 0,
+      reputation: 0,
+      level: 1,
+      badges: [],
+    },
+    status: 'watching',
+  };
+};
+
+const isBanActive = (member: RoomMember): boolean =>
+  member.isBanned && (!member.banExpiresAt || new Date(member.banExpiresAt) > new Date());
+
+export const registerRoomHandlers = (hub: RealtimeHub, store: Store): void => {
+  const requireRoom = (roomId: string): StreamRoom => {
+    const room = roomId ? store.rooms.get(roomId) : null;
+    if (!room) {
+      throw new RealtimeError('Room not found');
+    }
+    return room;
+  };
+
+  /**
+   * The acting member, who must hold `permission` unless it's omitted.
+   */
+  const requireMember = (room: StreamRoom, client: Client, permission?: string): RoomMember => {
+    const member = room.members.find(
+      candidate => candidate.userId === client.userId && !candidate.isBanned
+    );
+    if (!member) {
+      throw new RealtimeError('Not a member of this room');
+    }
+    if (permission && !member.permissions.includes(permission)) {
+      throw new RealtimeError(`Missing permission: ${permission}`);
+    }
+    return member;
+  };
+
+  const saveRoom = (room: StreamRoom): StreamRoom => {
+    const members = room.members.filter(member => !member.isBanned);
+    const statistics = room.statistics || {};
+    return store.rooms.put(room.id, {
+      ...room,
+      currentMemberCount: members.length,
+      isActive: members.some(member => member.isOnline),
+      statistics: {
+        ...statistics,
+        peakMembers: Math.max(statistics.peakMembers || 0, members.length),
+      },
+      updatedAt: now(),
+    });
+  };
+
+  const queueOf = (roomId: string) =>
+    store.roomQueue
+      .find('room_id = ?', [roomId])
+      .sort((a, b) => b.votes - a.votes || a.addedAt.localeCompare(b.addedAt));
+
+  const removeMember = (room: StreamRoom, userId: string): RoomMember | undefined => {
+    const member = room.members.find(candidate => candidate.userId === userId);
+    hub.clientsOf(roomChannel(room.id)).forEach(client => {
+      if (client.userId === userId) {
+        hub.unsubscribe(client, roomChannel(room.id));
+      }
+    });
+    return member;
+  };
+
+  hub.on('room_create', (client, data) => {
+    if (!data.id || !data.hostId) {
+      throw new RealtimeError('Room needs an id and hostId');
+    }
+    if (store.rooms.get(data.id)) {
+      throw new RealtimeError('Room already exists');
+    }
+    const { password, ...room } = data as StreamRoom;
+    const saved = saveRoom({
+      ...room,
+      ...(password ? { passwordHash: hashPassword(password) } : {}),
+      createdAt: room.createdAt || now(),
+    });
+    hub.subscribe(client, roomChannel(saved.id));
+    hub.send(client, 'room_state', publicRoom(saved));
+  });
+
+  hub.on('room_join', (client, data) => {
+    const room = requireRoom(data.roomId);
+    const userId = data.userId || client.userId;
+    const username = data.username || client.username || userId;
+    if (!userId) {
+      throw new RealtimeError('userId is required');
+    }
+
+    const existing = room.members.find(member => member.userId === userId);
+    if (existing && isBanActive(existing)) {
+      throw new RealtimeError('You are banned from this room');
+    }
+    if (!existing) {
+      if (room.passwordHash && !passwordMatches(data.password || '', room.passwordHash)) {
+        throw new RealtimeError('Wrong room password');
+      }
+      if (room.members.filter(member => !member.isBanned).length >= room.maxMembers) {
+        throw new RealtimeError('Room is full');
+      }
+      const invited = store.roomInvitations.find(
+        "room_id = ? and to_user_id = ? and json_extract(data, '$.status') = 'accepted'",
+        [room.id, userId]
+      )[0];
+      if (room.visibility === 'invite_only' && room.hostId !== userId && !invited) {
+        throw new RealtimeError('This room is invite only');
+      }
+    }
+
+    const role: MemberRole = room.hostId === userId ? 'host' : existing?.role || 'member';
+    const member: RoomMember = existing
+      ? { ...existing, isBanned: false, isOnline: true, status: 'watching', lastActiveAt: now() }
+      : createMember(userId, username, role);
+    const saved = saveRoom({
+      ...room,
+      members: [...room.members.filter(candidate => candidate.userId !== userId), member],
+    });
+
+    hub.subscribe(client, roomChannel(room.id));
+    hub.send(client, 'room_state', publicRoom(saved));
+    hub.publish(roomChannel(room.id), 'room_member_join', { roomId: room.id, member }, client);
+  });
+
+  hub.on('room_leave', (client, data) => {
+    const room = requireRoom(data.roomId);
+    const userId = data.userId || client.userId;
+    const member = removeMember(room, userId);
+    hub.unsubscribe(client, roomChannel(room.id));
+    if (!member) {
+      return;
+    }
+    saveRoom({ ...room, members: room.members.filter(candidate => candidate !== member) });
+    hub.publish(roomChannel(room.id), 'room_member_leave', {
+      roomId: room.id,
+      userId,
+      username: member.username,
+    });
+  });
+
+  hub.on('room_invite', (client, data) => {
+    const room = requireRoom(data.roomId);
+    requireMember(room, client, 'invite_users');
+    if (!data.id || !data.toUserId) {
+      throw new RealtimeError('Invitation needs an id and toUserId');
+    }
+    const invitee = store.users.get(data.toUserId) || store.presences.get(data.toUserId);
+    const invitation = store.roomInvitations.put(data.id, {
+      ...data,
+      toUsername: data.toUsername || invitee?.username || data.toUserId,
+      status: 'pending',
+    });
+    hub.sendToUser(invitation.toUserId, 'room_invitation', invitation);
+  });
+
+  hub.on('room_invitation_response', (client, data) => {
+    const invitation = store.roomInvitations.get(data.invitationId);
+    if (!invitation || invitation.toUserId !== (data.userId || client.userId)) {
+      throw new RealtimeError('Invitation not found');
+    }
+    const expired = invitation.expiresAt && new Date(invitation.expiresAt) < new Date();
+    store.roomInvitations.put(invitation.id, {
+      ...invitation,
+      status: expired ? 'expired' : data.accept ? 'accepted' : 'rejected',
+    });
+    if (expired) {
+      throw new RealtimeError('Invitation has expired');
+    }
+  });
+
+  hub.on('room_stream_change', (client, data) => {
+    const room = requireRoom(data.roomId);
+    requireMember(room, client, 'change_stream');
+    saveRoom({ ...room, streamId: data.streamId });
+    hub.publish(roomChannel(room.id), 'room_stream_change', data, client);
+  });
+
+  // Watch parties: whoever may change the stream sets the shared grid. The
+  // stored layout rides along in room_state, so late joiners start from it.
+  hub.on('room_layout_update', (client, data) => {
+    const room = requireRoom(data.roomId);
+    const member = requireMember(room, client, 'change_stream');
+    const streams = data.layout?.streams;
+    if (!Array.isArray(streams)) {
+      throw new RealtimeError('Layout needs a streams list');
+    }
+    if (streams.length > MAX_LAYOUT_STREAMS) {
+      throw new RealtimeError(`Layouts hold at most ${MAX_LAYOUT_STREAMS} streams`);
+    }
+    const focusId = data.layout.audioFocusStreamId;
+    const layout: RoomLayout = {
+      ...data.layout,
+      audioFocusStreamId: streams.some(stream => stream?.id === focusId) ? focusId : null,
+      version: (room.layout?.version || 0) + 1,
+      updatedBy: member.userId,
+      updatedAt: now(),
+    };
+    saveRoom({ ...room, layout, streamId: layout.audioFocusStreamId || streams[0]?.id });
+    hub.publish(roomChannel(room.id), 'room_layout_update', { roomId: room.id, layout });
+  });
+
+  hub.on('room_queue_add', (client, data) => {
+    const room = requireRoom(data.roomId);
+    requireMember(room, client, 'manage_queue');
+    if (!data.item?.id) {
+      throw new RealtimeError('Queue item needs an id');
+    }
+    store.roomQueue.put(data.item.id, { ...data.item, roomId: room.id, votes: 0 });
+    hub.publish(roomChannel(room.id), 'room_queue_update', {
+      roomId: room.id,
+      queue: queueOf(room.id),
+    });
+  });
+
+  hub.on('room_queue_vote', (client, data) => {
+    const room = requireRoom(data.roomId);
+    const member = requireMember(room, client);
+    const item = store.roomQueue.get(data.itemId);
+    if (!item || item.roomId !== room.id) {
+      throw new RealtimeError('Queue item not found');
+    }
+    store.db
+      .prepare('insert or replace into room_queue_votes (item_id, user_id, vote) values (?, ?, ?)')
+      .run(item.id, member.userId, data.vote === 'down' ? -1 : 1);
+    const { total } = store.db
+      .prepare('select coalesce(sum(vote), 0) as total from room_queue_votes where item_id = ?')
+      .get(item.id) as { total: number };
+    store.roomQueue.put(item.id, { ...item, votes: total });
+    hub.publish(roomChannel(room.id), 'room_queue_update', {
+      roomId: room.id,
+      queue: queueOf(room.id),
+    });
+  });
+
+  hub.on('room_settings_update', (client, data) => {
+    const room = requireRoom(data.roomId);
+    requireMember(room, client, 'manage_room');
+    const saved = saveRoom({ ...room, settings: { ...room.settings, ...data.settings } });
+    hub.publish(
+      roomChannel(room.id),
+      'room_settings_update',
+      { roomId: room.id, settings: saved.settings },
+      client
+    );
+  });
+
+  hub.on('room_member_role_update', (client, data) => {
+    const room = requireRoom(data.roomId);
+    requireMember(room, client, 'manage_room');
+    const role = data.role as MemberRole;
+    if (!ROLE_PERMISSIONS[role] || role === 'host') {
+      throw new RealtimeError('Invalid role');
+    }
+    if (data.userId === room.hostId) {
+      throw new RealtimeError("The host's role can't be changed");
+    }
+    const target = room.members.find(member => member.userId === data.userId);
+    if (!target) {
+      throw new RealtimeError('Member not found');
+    }
+    // Permissions come from the role, whatever the client sent along
+    const permissions = ROLE_PERMISSIONS[role];
+    saveRoom({
+      ...room,
+      members: room.members.map(member =>
+        member === target ? { ...member, role, permissions } : member
+      ),
+    });
+    hub.publish(
+      roomChannel(room.id),
+      'room_member_role_update',
+      { roomId: room.id, userId: target.userId, role, permissions },
+      client
+    );
+  });
+
+  const expel = (client: Client, data: any, ban: boolean) => {
+    const room = requireRoom(data.roomId);
+    requireMember(room, client, ban ? 'ban_users' : 'kick_users');
+    if (data.userId === room.hostId) {
+      throw new RealtimeError("The host can't be removed");
+    }
+    const target = removeMember(room, data.userId);
+    if (!target) {
+      throw new RealtimeError('Member not found');
+    }
+    // Banned members stay on the list so the ban sticks when they try to rejoin
+    const members = ban
+      ? room.members.map(member =>
+          member === target
+            ? { ...member, isBanned: true, isOnline: false, banExpiresAt: data.banExpiresAt }
+            : member
+        )
+      : room.members.filter(member => member !== target);
+    saveRoom({ ...room, members });
+
+    const leave = { roomId: room.id, userId: target.userId, username: target.username };
+    hub.publish(roomChannel(room.id), 'room_member_leave', leave, client);
+    hub.sendToUser(target.userId, 'room_member_leave', { ...leave, reason: data.reason });
+  };
+
+  hub.on('room_member_kick', (client, data) => expel(client, data, false));
+
+  hub.on('room_member_ban', (client, data) => expel(client, data, true));
+
+  hub.on('room_activity', (client, data) => {
+    const room = requireRoom(data.roomId);
+    requireMember(room, client);
+    if (!data.id) {
+      throw new RealtimeError('Activity needs an id');
+    }
+    store.roomActivities.put(data.id, { ...data, userId: client.userId || data.userId });
+    hub.publish(roomChannel(room.id), 'room_activity', data, client);
+  });
+
+  hub.on('room_search', (client, data) => {
+    const query = String(data.query || '').toLowerCase();
+    const filters = data.filters || {};
+    const results = store.rooms
+      .find("visibility in ('public', 'password_protected') and is_active = 1", [], {
+        orderBy: "json_extract(data, '$.currentMemberCount') desc",
+      })
+      .filter(
+        room =>
+          (!query ||
+            room.name.toLowerCase().includes(query) ||
+            (room.description || '').toLowerCase().includes(query) ||
+            room.tags.some(tag => tag.toLowerCase().includes(query))) &&
+          (!filters.type || room.type === filters.type) &&
+          (!filters.category || room.category === filters.category) &&
+          (!filters.tags?.length || filters.tags.some((tag: string) => room.tags.includes(tag))) &&
+          (filters.minMembers === undefined || room.currentMemberCount >= filters.minMembers) &&
+          (filters.maxMembers === undefined || room.currentMemberCount <= filters.maxMembers) &&
+          (filters.hasStream === undefined || !!room.streamId === filters.hasStream)
+      )
+      .slice(0, 50)
+      .map(publicRoom);
+    hub.send(client, 'room_search_results', results);
+  });
+
+  hub.on('room_heartbeat', (client, data) => {
+    const room = store.rooms.get(data.roomId);
+    const userId = data.userId || client.userId;
+    if (!room || !room.members.some(member => member.userId === userId)) {
+      return;
+    }
+    store.rooms.put(room.id, {
+      ...room,
+      members: room.members.map(member =>
+        member.userId === userId ? { ...member, lastActiveAt: now(), isOnline: true } : member
+      ),
+    });
+  });
+
+  /**
+   * Members who drop off stay in the room but show as disconnected until
+   * they rejoin or leave.
+   */
+  hub.onDisconnect(client => {
+    client.channels.forEach(channel => {
+      if (!channel.startsWith('room:') || !client.userId) {
+        return;
+      }
+      const room = store.rooms.get(channel.slice('room:'.length));
+      const stillConnected = hub
+        .clientsOf(channel)
+        .some(other => other !== client && other.userId === client.userId);
+      if (!room || stillConnected) {
+        return;
+      }
+      const saved = saveRoom({
+        ...room,
+        members: room.members.map(member =>
+          member.userId === client.userId
+            ? { ...member, isOnline: false, status: 'disconnected', lastActiveAt: now() }
+            : member
+        ),
+      });
+      hub.publish(channel, 'room_state', publicRoom(saved), client);
+    });
+  });
+};
@@ -0,0 +1,264 @@
+/**
+ * Synchronized playback rooms for services/viewerSyncService.ts. The server
+ * keeps each room's viewer list and the host's clock; timing corrections are
+ * worked out between clients through relayed sync_request / sync_response
+ * events.
+ */
+
+import { Store } from '../store';
+import { SyncRoom, ViewerSyncState } from '../types';
+import { now } from '../util';
+import { Client, RealtimeError, RealtimeHub } from './hub';
+
+const syncChannel = (roomId: string): string => `sync:${roomId}`;
+
+const createSyncRoom = (roomId: string, streamId: string, host: ViewerSyncState): SyncRoom => ({
+  id: roomId,
+  streamId,
+  hostId: host.userId,
+  hostUsername: host.username,
+  viewers: [],
+  syncMode: 'host_controlled',
+  masterTime: host.currentTime || 0,
+  masterPlaybackState: host.playbackState || 'paused',
+  tolerance: 0.5,
+  createdAt: now(),
+  settings: {
+    allowViewerControl: false,
+    syncTolerance: 0.5,
+    autoSyncEnabled: true,
+    qualitySync: false,
+    volumeSync: false,
+    bufferAheadTime: 5,
+    maxSyncDelay: 3,
+    reconnectGracePeriod: 30,
+    enableLatencyCompensation: true,
+  },
+  statistics: {
+    totalViewers: 0,
+    syncedViewers: 0,
+    averageLatency: 0,
+    syncAccuracy: 100,
+    dropoutRate: 0,
+    bufferEvents: 0,
+    syncEvents: 0,
+    qualityChanges: 0,
+    reconnections: 0,
+  },
+});
+
+/**
+ * Viewer list, host flags and statistics recomputed together so they can't
+ * disagree.
+ */
+const withViewers = (
+  room: SyncRoom,
+  viewers: ViewerSyncState[],
+  hostId = room.hostId
+): SyncRoom => {
+  const host = viewers.find(viewer => viewer.userId === hostId);
+  const synced = viewers.filter(
+    viewer => Math.abs(viewer.currentTime - room.masterTime) <= room.tolerance
+  );
+  return {
+    ...room,
+    hostId,
+    hostUsername: host?.username || room.hostUsername,
+    viewers: viewers.map(viewer => ({ ...viewer, isHost: viewer.userId === hostId })),
+    statistics: {
+      ...room.statistics,
+      totalViewers: Math.max(room.statistics.totalViewers, viewers.length),
+      syncedViewers: synced.length,
+      averageLatency: viewers.length
+        ? Math.round(
+            viewers.reduce((total, viewer) => total + (viewer.latency || 0), 0) / viewers.length
+          )
+        : 0,
+      syncAccuracy: viewers.length ? Math.round((synced.length / viewers.length) * 100) : 100,
+    },
+  };
+};
+
+export const registerViewerSyncHandlers = (hub: RealtimeHub, store: Store): void => {
+  const requireRoom = (roomId: string): SyncRoom => {
+    const room = roomId ? store.syncRooms.get(roomId) : null;
+    if (!room) {
+      throw new RealtimeError('Sync room not found');
+    }
+    return room;
+  };
+
+  const syncEvent = (room: SyncRoom, type: string, from: ViewerSyncState, data: unknown) => ({
+    type,
+    fromUserId: from.userId,
+    fromUsername: from.username,
+    data,
+    timestamp: now(),
+    roomId: room.id,
+  });
+
+  /**
+   * Takes the viewer out and hands the host role to whoever joined next.
+   * Empty rooms are dropped.
+   */
+  const removeViewer = (room: SyncRoom, userId: string, except?: Client): void => {
+    const viewer = room.viewers.find(candidate => candidate.userId === userId);
+    if (!viewer) {
+      return;
+    }
+    const remaining = room.viewers.filter(candidate => candidate !== viewer);
+    if (remaining.length === 0) {
+      store.syncRooms.remove(room.id);
+      return;
+    }
+
+    const hostLeft = room.hostId === userId;
+    const saved = store.syncRooms.put(
+      room.id,
+      withViewers(room, remaining, hostLeft ? remaining[0].userId : room.hostId)
+    );
+    const channel = syncChannel(room.id);
+    hub.publish(channel, 'viewer_sync_event', syncEvent(saved, 'viewer_leave', viewer, {}), except);
+    if (hostLeft) {
+      hub.publish(channel, 'viewer_sync_host_change', {
+        newHostId: saved.hostId,
+        newHostUsername: saved.hostUsername,
+      });
+    }
+    hub.publish(channel, 'viewer_sync_room_state', saved, except);
+  };
+
+  hub.on('viewer_sync_join', (client, data) => {
+    const viewerState = data.viewerState as ViewerSyncState;
+    if (!data.roomId || !viewerState?.userId) {
+      throw new RealtimeError('roomId and viewerState are required');
+    }
+    const room =
+      store.syncRooms.get(data.roomId) || createSyncRoom(data.roomId, data.streamId, viewerState);
+    const rejoining = room.viewers.some(viewer => viewer.userId === viewerState.userId);
+    const viewers = [
+      ...room.viewers.filter(viewer => viewer.userId !== viewerState.userId),
+      { ...viewerState, streamId: room.streamId, timestamp: now() },
+    ];
+    const saved = store.syncRooms.put(
+      room.id,
+      withViewers(
+        {
+          ...room,
+          statistics: {
+            ...room.statistics,
+            reconnections: room.statistics.reconnections + (rejoining ? 1 : 0),
+          },
+        },
+        viewers
+      )
+    );
+
+    hub.subscribe(client, syncChannel(room.id));
+    hub.publish(syncChannel(room.id), 'viewer_sync_room_state', saved);
+    hub.publish(
+      syncChannel(room.id),
+      'viewer_sync_event',
+      syncEvent(saved, 'viewer_join', viewerState, {}),
+      client
+    );
+  });
+
+  hub.on('viewer_sync_leave', (client, data) => {
+    const room = store.syncRooms.get(data.roomId);
+    hub.unsubscribe(client, syncChannel(data.roomId));
+    if (room) {
+      removeViewer(room, data.userId || client.userId, client);
+    }
+  });
+
+  hub.on('viewer_sync_update', (client, data) => {
+    const room = requireRoom(data.roomId);
+    const viewerState = data.viewerState as ViewerSyncState;
+    if (!room.viewers.some(viewer => viewer.userId === viewerState?.userId)) {
+      throw new RealtimeError('Not in this sync room');
+    }
+    const fromHost = viewerState.userId === room.hostId;
+    const updated: SyncRoom = {
+      ...room,
+      masterTime: fromHost ? viewerState.currentTime : room.masterTime,
+      masterPlaybackState: fromHost ? viewerState.playbackState : room.masterPlaybackState,
+      statistics: {
+        ...room.statistics,
+        bufferEvents:
+          room.statistics.bufferEvents + (viewerState.playbackState === 'buffering' ? 1 : 0),
+        qualityChanges: room.statistics.qualityChanges + (data.event === 'quality_change' ? 1 : 0),
+      },
+    };
+    const saved = store.syncRooms.put(
+      room.id,
+      withViewers(
+        updated,
+        room.viewers.map(viewer =>
+          viewer.userId === viewerState.userId ? { ...viewerState, timestamp: now() } : viewer
+        )
+      )
+    );
+    if (data.event) {
+      hub.publish(
+        syncChannel(room.id),
+        'viewer_sync_event',
+        syncEvent(saved, data.event, viewerState, viewerState),
+        client
+      );
+    }
+  });
+
+  hub.on('viewer_sync_event', (client, data) => {
+    const room = requireRoom(data.roomId);
+    if (!room.viewers.some(viewer => viewer.userId === data.fromUserId)) {
+      throw new RealtimeError('Not in this sync room');
+    }
+    if (data.type === 'seek_change' && data.fromUserId === room.hostId) {
+      store.syncRooms.put(room.id, { ...room, masterTime: data.data?.time ?? room.masterTime });
+    }
+    if (data.type === 'sync_request' || data.type === 'sync_response') {
+      store.syncRooms.put(room.id, {
+        ...room,
+        statistics: { ...room.statistics, syncEvents: room.statistics.syncEvents + 1 },
+      });
+    }
+    hub.publish(syncChannel(room.id), 'viewer_sync_event', data, client);
+  });
+
+  hub.on('viewer_sync_host_request', (client, data) => {
+    const room = requireRoom(data.roomId);
+    const userId = data.userId || client.userId;
+    if (!room.viewers.some(viewer => viewer.userId === userId)) {
+      throw new RealtimeError('Not in this sync room');
+    }
+    const hostConnected = hub
+      .clientsOf(syncChannel(room.id))
+      .some(other => other.userId === room.hostId);
+    const allowed =
+      room.syncMode === 'democratic' || room.settings.allowViewerControl || !hostConnected;
+    if (!allowed) {
+      throw new RealtimeError('The host has control of this room');
+    }
+    const saved = store.syncRooms.put(room.id, withViewers(room, room.viewers, userId));
+    hub.publish(syncChannel(room.id), 'viewer_sync_host_change', {
+      newHostId: saved.hostId,
+      newHostUsername: saved.hostUsername,
+    });
+  });
+
+  hub.onDisconnect(client => {
+    client.channels.forEach(channel => {
+      if (!channel.startsWith('sync:') || !client.userId) {
+        return;
+      }
+      const room = store.syncRooms.get(channel.slice('sync:'.length));
+      const stillConnected = hub
+        .clientsOf(channel)
+        .some(other => other !== client && other.userId === client.userId);
+      if (room && !stillConnected) {
+        removeViewer(room, client.userId, client);
+      }
+    });
+  });
+};
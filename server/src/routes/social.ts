@@ -0,0 +1,536 @@
+/**
+ * REST endpoints behind services/socialService.ts: profiles, follows, clips,
+ * posts and comments, activity, badges, schedules and stream shares.
+ */
+
+import { HttpError, Router, notFound } from '../http';
+import { Store } from '../store';
+import { Badge, Comment, SocialPost, StreamClip, UserProfile } from '../types';
+import { generateId, now, omit, parseLimit, timeRangeStart } from '../util';
+
+interface BadgeDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  color: string;
+  rarity: 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
+  criteria: {
+    type: 'watch_time' | 'streams_watched' | 'followers' | 'social' | 'special';
+    requirement: number;
+    description: string;
+  };
+}
+
+const BADGES: BadgeDefinition[] = [
+  {
+    id: 'first_follow',
+    name: 'First Follow',
+    description: 'Followed your first streamer',
+    icon: '⭐',
+    color: '#22C55E',
+    rarity: 'common',
+    criteria: { type: 'social', requirement: 1, description: 'Follow 1 streamer' },
+  },
+  {
+    id: 'clip_creator',
+    name: 'Clip Creator',
+    description: 'Saved 10 clips',
+    icon: '🎬',
+    color: '#3B82F6',
+    rarity: 'uncommon',
+    criteria: { type: 'social', requirement: 10, description: 'Create 10 clips' },
+  },
+  {
+    id: 'community_voice',
+    name: 'Community Voice',
+    description: 'Shared 25 posts',
+    icon: '📣',
+    color: '#8B5CF6',
+    rarity: 'rare',
+    criteria: { type: 'social', requirement: 25, description: 'Create 25 posts' },
+  },
+  {
+    id: 'rising_star',
+    name: 'Rising Star',
+    description: 'Reached 100 followers',
+    icon: '🌟',
+    color: '#F59E0B',
+    rarity: 'epic',
+    criteria: { type: 'followers', requirement: 100, description: 'Have 100 followers' },
+  },
+  {
+    id: 'marathon_viewer',
+    name: 'Marathon Viewer',
+    description: 'Watched 500 streams',
+    icon: '🏆',
+    color: '#EF4444',
+    rarity: 'legendary',
+    criteria: { type: 'streams_watched', requirement: 500, description: 'Watch 500 streams' },
+  },
+];
+
+const count = (store: Store, sql: string, ...params: string[]): number =>
+  (store.db.prepare(sql).get(...params) as { total: number }).total;
+
+const createDefaultProfile = (userId: string): UserProfile => {
+  const timestamp = now();
+  return {
+    id: userId,
+    username: userId,
+    displayName: userId,
+    email: '',
+    avatar: '',
+    bio: '',
+    location: '',
+    website: '',
+    joinedAt: timestamp,
+    lastActiveAt: timestamp,
+    preferences: {
+      preferredPlatforms: [],
+      preferredCategories: [],
+      notifications: {
+        streamGoesLive: true,
+        newFollower: true,
+        communityUpdates: true,
+        streamSchedule: true,
+      },
+      privacy: {
+        showEmail: false,
+        showLocation: false,
+        showActivity: true,
+        allowDirectMessages: true,
+      },
+    },
+    stats: {
+      followingCount: 0,
+      followersCount: 0,
+      streamsWatched: 0,
+      totalWatchTime: 0,
+      favoriteStreams: 0,
+      communitiesJoined: 0,
+    },
+    badges: [],
+    subscription: { tier: 'free', status: 'active', expiresAt: null },
+  };
+};
+
+export const registerSocialRoutes = (router: Router, store: Store): void => {
+  /**
+   * A stored profile with follow counts and badges filled in from their
+   * tables, so they can't drift from what's actually there.
+   */
+  const loadProfile = (userId: string, fallback = false): UserProfile | null => {
+    const profile = store.users.get(userId) || (fallback ? createDefaultProfile(userId) : null);
+    if (!profile) {
+      return null;
+    }
+    return {
+      ...profile,
+      stats: {
+        ...profile.stats,
+        followingCount: count(
+          store,
+          'select count(*) as total from follows where follower_id = ?',
+          userId
+        ),
+        followersCount: count(
+          store,
+          'select count(*) as total from follows where following_id = ?',
+          userId
+        ),
+      },
+      badges: store.userBadges
+        .find('user_id = ?', [userId])
+        .map(({ userId: _owner, ...badge }) => badge as Badge),
+    };
+  };
+
+  const author = (userId: string) => {
+    const profile = loadProfile(userId, true)!;
+    return {
+      id: profile.id,
+      username: profile.username,
+      displayName: profile.displayName,
+      avatar: profile.avatar,
+      verified: !!profile.verified,
+    };
+  };
+
+  // Profiles
+
+  router.get('/users/:userId', ({ params }) => {
+    const profile = loadProfile(params.userId);
+    if (!profile) {
+      throw notFound('User');
+    }
+    return profile;
+  });
+
+  router.put('/users/:userId', ({ params, body }) => {
+    const current = store.users.get(params.userId) || createDefaultProfile(params.userId);
+    const { stats, ...updates } = omit(body || {}, ['id', 'badges']);
+    store.users.put(params.userId, {
+      ...current,
+      ...updates,
+      stats: { ...current.stats, ...stats },
+      lastActiveAt: now(),
+    });
+    return loadProfile(params.userId);
+  });
+
+  // Following
+
+  router.post('/follows', ({ body }) => {
+    const { followerId, followingId, followingType = 'streamer', metadata } = body || {};
+    if (!followerId || !followingId) {
+      throw new HttpError(400, 'followerId and followingId are required');
+    }
+    const [existing] = store.follows.find('follower_id = ? and following_id = ?', [
+      followerId,
+      followingId,
+    ]);
+    if (existing) {
+      return existing;
+    }
+    const id = generateId('follow');
+    return store.follows.put(id, {
+      id,
+      followerId,
+      followingId,
+      followingType,
+      createdAt: now(),
+      notifications: {
+        streamGoesLive: true,
+        newPosts: true,
+        achievements: false,
+        scheduleUpdates: true,
+      },
+      metadata: { source: 'app', ...metadata },
+    });
+  });
+
+  router.delete('/follows/:followerId/:followingId', ({ params }) => {
+    store.db
+      .prepare('delete from follows where follower_id = ? and following_id = ?')
+      .run(params.followerId, params.followingId);
+  });
+
+  router.get('/users/:userId/following/streamers', ({ params }) =>
+    store.follows
+      .find('follower_id = ? and following_type = ?', [params.userId, 'streamer'], {
+        orderBy: 'created_at desc',
+      })
+      .map(follow => {
+        const profile = store.streamers.get(follow.followingId);
+        const [liveSession] = store.sessions.find(
+          "streamer_id = ? and json_extract(data, '$.status') = 'live'",
+          [follow.followingId]
+        );
+        const [lastSession] = store.sessions.find('streamer_id = ?', [follow.followingId], {
+          orderBy: "json_extract(data, '$.startTime') desc",
+          limit: 1,
+        });
+        return {
+          id: follow.followingId,
+          platform: follow.metadata?.platform || profile?.platforms[0]?.platform || 'twitch',
+          username: profile?.username || follow.followingId,
+          displayName: profile?.displayName || follow.followingId,
+          avatar: profile?.avatar || '',
+          verified: !!profile?.isVerified,
+          description: profile?.bio || '',
+          category: profile?.categories?.[0] || '',
+          followerCount: count(
+            store,
+            'select count(*) as total from follows where following_id = ?',
+            follow.followingId
+          ),
+          isLive: !!liveSession,
+          lastLiveAt: lastSession?.startTime || '',
+          schedule: store.schedules.find('streamer_id = ? and start_time >= ?', [
+            follow.followingId,
+            now(),
+          ]),
+          socialLinks: profile?.socialLinks || {},
+          stats: {
+            totalViews: profile?.statistics?.totalViews || 0,
+            averageViewers: profile?.statistics?.averageViewers || 0,
+            totalStreams: profile?.statistics?.totalStreams || 0,
+            hoursStreamed: Math.round((profile?.statistics?.totalStreamTime || 0) / 60),
+            peakViewers: profile?.statistics?.peakViewers || 0,
+            lastStreamTitle: lastSession?.title || '',
+          },
+          tags: profile?.categories || [],
+          achievements: [],
+        };
+      })
+  );
+
+  router.get('/users/:userId/followers', ({ params }) =>
+    store.follows
+      .find('following_id = ?', [params.userId], { orderBy: 'created_at desc' })
+      .map(follow => loadProfile(follow.followerId, true))
+  );
+
+  // Clips
+
+  router.post('/clips', ({ body }) => {
+    const id = generateId('clip');
+    return store.clips.put(id, {
+      tags: [],
+      isPublic: true,
+      isHighlighted: false,
+      ...body,
+      id,
+      createdAt: now(),
+      viewCount: 0,
+      likeCount: 0,
+      shareCount: 0,
+    } as StreamClip);
+  });
+
+  router.get('/clips', ({ query }) => {
+    const conditions = ["json_extract(data, '$.isPublic') = 1"];
+    const params: string[] = [];
+    const filter = (condition: string, value: string | null) => {
+      if (value) {
+        conditions.push(condition);
+        params.push(value);
+      }
+    };
+    filter('streamer_id = ?', query.get('streamerId'));
+    filter('platform = ?', query.get('platform'));
+    filter('created_by = ?', query.get('userId'));
+    filter(
+      "exists (select 1 from json_each(data, '$.tags') where value = ?)",
+      query.get('category')
+    );
+    filter('created_at >= ?', timeRangeStart(query.get('timeRange')));
+
+    const orderBy =
+      {
+        oldest: 'created_at asc',
+        most_viewed: "json_extract(data, '$.viewCount') desc",
+        most_liked: "json_extract(data, '$.likeCount') desc",
+      }[query.get('sort') || ''] || 'created_at desc';
+
+    return store.clips.find(conditions.join(' and '), params, {
+      orderBy,
+      limit: parseLimit(query.get('limit'), 50),
+    });
+  });
+
+  router.post('/clips/:clipId/like', ({ params, body }) => {
+    const clip = store.clips.get(params.clipId);
+    if (!clip) {
+      throw notFound('Clip');
+    }
+    if (!body?.userId) {
+      throw new HttpError(400, 'userId is required');
+    }
+    store.db
+      .prepare('insert or ignore into clip_likes (clip_id, user_id) values (?, ?)')
+      .run(params.clipId, body.userId);
+    store.clips.update(params.clipId, {
+      likeCount: count(
+        store,
+        'select count(*) as total from clip_likes where clip_id = ?',
+        params.clipId
+      ),
+    });
+  });
+
+  router.post('/clips/:clipId/share', ({ params }) => {
+    const clip = store.clips.get(params.clipId);
+    if (!clip) {
+      throw notFound('Clip');
+    }
+    store.clips.update(params.clipId, { shareCount: clip.shareCount + 1 });
+  });
+
+  // Posts
+
+  router.post('/posts', ({ body }) => {
+    if (!body?.authorId) {
+      throw new HttpError(400, 'authorId is required');
+    }
+    const id = generateId('post');
+    const timestamp = now();
+    return store.posts.put(id, {
+      type: 'text',
+      attachments: [],
+      visibility: 'public',
+      tags: [],
+      mentions: [],
+      ...body,
+      author: body.author || author(body.authorId),
+      id,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      likes: 0,
+      comments: 0,
+      shares: 0,
+      isLiked: false,
+      isBookmarked: false,
+    } as SocialPost);
+  });
+
+  router.get('/users/:userId/feed', ({ params, query }) => {
+    // The user's own posts plus public and followers-only posts of people they follow
+    const posts = store.posts.find(
+      `author_id = ? or (author_id in (select following_id from follows where follower_id = ?)
+        and json_extract(data, '$.visibility') in ('public', 'followers'))`,
+      [params.userId, params.userId],
+      { orderBy: 'created_at desc', limit: parseLimit(query.get('limit'), 20) }
+    );
+    const liked = new Set(
+      store.db
+        .prepare('select post_id from post_likes where user_id = ?')
+        .all(params.userId)
+        .map(row => (row as { post_id: string }).post_id)
+    );
+    return posts.map(post => ({ ...post, isLiked: liked.has(post.id) }));
+  });
+
+  router.post('/posts/:postId/like', ({ params, body }) => {
+    if (!store.posts.get(params.postId)) {
+      throw notFound('Post');
+    }
+    if (!body?.userId) {
+      throw new HttpError(400, 'userId is required');
+    }
+    store.db
+      .prepare('insert or ignore into post_likes (post_id, user_id) values (?, ?)')
+      .run(params.postId, body.userId);
+    store.posts.update(params.postId, {
+      likes: count(
+        store,
+        'select count(*) as total from post_likes where post_id = ?',
+        params.postId
+      ),
+    });
+  });
+
+  router.post('/posts/:postId/comments', ({ params, body }) => {
+    const post = store.posts.get(params.postId);
+    if (!post) {
+      throw notFound('Post');
+    }
+    const { content, authorId } = body || {};
+    if (!content || !authorId) {
+      throw new HttpError(400, 'content and authorId are required');
+    }
+    const id = generateId('comment');
+    const timestamp = now();
+    const comment: Comment = {
+      id,
+      postId: params.postId,
+      authorId,
+      author: author(authorId),
+      content,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      likes: 0,
+      replies: [],
+      isLiked: false,
+      mentions: (content.match(/@(\w+)/g) || []).map((mention: string) => mention.slice(1)),
+      attachments: [],
+    };
+    store.comments.put(id, comment);
+    store.posts.update(params.postId, { comments: post.comments + 1 });
+    return comment;
+  });
+
+  // Activity
+
+  router.post('/activities', ({ body }) => {
+    if (!body?.userId) {
+      throw new HttpError(400, 'userId is required');
+    }
+    const id = generateId('activity');
+    return store.activities.put(id, {
+      isPublic: true,
+      metadata: {},
+      ...body,
+      id,
+      createdAt: now(),
+    });
+  });
+
+  router.get('/users/:userId/activities', ({ params, query }) =>
+    store.activities.find('user_id = ?', [params.userId], {
+      orderBy: 'created_at desc',
+      limit: parseLimit(query.get('limit'), 50),
+    })
+  );
+
+  // Badges
+
+  /**
+   * Badges the user has earned but not been awarded yet.
+   */
+  router.get('/users/:userId/badges/check', ({ params }) => {
+    const { userId } = params;
+    const profile = loadProfile(userId, true)!;
+    const owned = new Set(profile.badges.map(badge => badge.id));
+    const progress: Record<string, number> = {
+      first_follow: profile.stats.followingCount,
+      clip_creator: count(
+        store,
+        'select count(*) as total from clips where created_by = ?',
+        userId
+      ),
+      community_voice: count(
+        store,
+        'select count(*) as total from posts where author_id = ?',
+        userId
+      ),
+      rising_star: profile.stats.followersCount,
+      marathon_viewer: profile.stats.streamsWatched || 0,
+    };
+    return BADGES.filter(
+      badge => !owned.has(badge.id) && progress[badge.id] >= badge.criteria.requirement
+    ).map(badge => ({ ...badge, unlockedAt: now() }));
+  });
+
+  router.post('/users/:userId/badges', ({ params, body }) => {
+    const definition = BADGES.find(badge => badge.id === body?.badgeId);
+    if (!definition) {
+      throw notFound('Badge');
+    }
+    const [existing] = store.userBadges.find('user_id = ? and badge_id = ?', [
+      params.userId,
+      definition.id,
+    ]);
+    if (existing) {
+      return omit(existing, ['userId']);
+    }
+    const badge: Badge = { ...definition, unlockedAt: now() };
+    store.userBadges.put(`${params.userId}:${definition.id}`, { ...badge, userId: params.userId });
+    return badge;
+  });
+
+  // Schedules and sharing
+
+  router.post('/schedules', ({ body }) => {
+    if (!body?.streamerId || !body?.startTime) {
+      throw new HttpError(400, 'streamerId and startTime are required');
+    }
+    const id = generateId('schedule');
+    return store.schedules.put(id, { attendees: [], tags: [], metadata: {}, ...body, id });
+  });
+
+  router.get('/streamers/:streamerId/schedule', ({ params }) =>
+    store.schedules.find('streamer_id = ? and start_time >= ?', [params.streamerId, now()], {
+      orderBy: 'start_time asc',
+    })
+  );
+
+  router.post('/streams/share', ({ body }) => {
+    if (!body?.streamId) {
+      throw new HttpError(400, 'streamId is required');
+    }
+    const id = generateId('share');
+    return store.streamShares.put(id, { ...body, id, createdAt: now() });
+  });
+};
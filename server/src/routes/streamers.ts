@@ -0,0 +1,682 @@
+/**
+ * REST endpoints behind services/streamManagementService.ts: streamer
+ * profiles, platform connections, schedules, stream sessions, analytics,
+ * templates and alerts. Nothing here talks to the streaming platforms;
+ * sessions, keys and connection tests are bookkeeping the app can build on.
+ */
+
+import crypto from 'crypto';
+import { HttpError, Router, notFound } from '../http';
+import { publishAlert } from '../realtime/alerts';
+import { RealtimeHub } from '../realtime/hub';
+import { Store } from '../store';
+import {
+  StreamAlert,
+  StreamSession,
+  StreamTemplate,
+  StreamerPlatform,
+  StreamerProfile,
+} from '../types';
+import { generateId, now, omit, parseLimit, timeRangeStart } from '../util';
+
+const INGEST_URLS: Record<string, string> = {
+  twitch: 'rtmp://live.twitch.tv/app',
+  youtube: 'rtmp://a.rtmp.youtube.com/live2',
+  facebook: 'rtmps://live-api-s.facebook.com:443/rtmp',
+};
+
+const DEFAULT_QUALITY = {
+  bitrate: 6000,
+  resolution: '1920x1080',
+  framerate: 60,
+  encoder: 'x264',
+  keyframeInterval: 2,
+  audioCodec: 'aac',
+  videCodec: 'h264',
+  latency: 0,
+  stability: 100,
+  dropFrames: 0,
+  skippedFrames: 0,
+};
+
+const emptyStatistics = (): StreamerProfile['statistics'] => ({
+  totalStreams: 0,
+  totalStreamTime: 0,
+  averageViewers: 0,
+  peakViewers: 0,
+  totalViews: 0,
+  followerGrowth: 0,
+  subscriberGrowth: 0,
+  averageStreamDuration: 0,
+  streamFrequency: 0,
+  topCategories: [],
+  topPlatforms: [],
+  recentMetrics: [],
+});
+
+const minutesBetween = (start: string, end?: string): number =>
+  Math.max(0, Math.round((new Date(end || now()).getTime() - new Date(start).getTime()) / 60000));
+
+/**
+ * Platform connections without their OAuth tokens; those stay server-side.
+ */
+const withoutCredentials = (platform: StreamerPlatform): StreamerPlatform => {
+  return omit(platform, ['credentials']) as StreamerPlatform;
+};
+
+const publicProfile = (profile: StreamerProfile): StreamerProfile => ({
+  ...profile,
+  platforms: profile.platforms.map(withoutCredentials),
+});
+
+/**
+ * Session totals over a time range, in the StreamerStatistics shape.
+ */
+const summarizeSessions = (sessions: StreamSession[], rangeDays: number) => {
+  const statistics = emptyStatistics();
+  if (sessions.length === 0) {
+    return statistics;
+  }
+
+  const categoryMinutes = new Map<string, number>();
+  const platformViewers = new Map<string, number>();
+  const days = new Map<
+    string,
+    { viewers: number; followers: number; subscribers: number; streamTime: number }
+  >();
+  let viewerSum = 0;
+
+  sessions.forEach(session => {
+    const minutes = minutesBetween(session.startTime, session.endTime);
+    const averageViewers = Math.round((session.viewerCount + session.peakViewers) / 2);
+    statistics.totalStreamTime += minutes;
+    statistics.peakViewers = Math.max(statistics.peakViewers, session.peakViewers);
+    statistics.totalViews += session.peakViewers;
+    statistics.followerGrowth += session.followers || 0;
+    statistics.subscriberGrowth += session.subscribers || 0;
+    viewerSum += averageViewers;
+
+    categoryMinutes.set(session.category, (categoryMinutes.get(session.category) || 0) + minutes);
+    platformViewers.set(
+      session.platform,
+      (platformViewers.get(session.platform) || 0) + averageViewers
+    );
+
+    const date = session.startTime.slice(0, 10);
+    const day = days.get(date) || { viewers: 0, followers: 0, subscribers: 0, streamTime: 0 };
+    day.viewers = Math.max(day.viewers, session.peakViewers);
+    day.followers += session.followers || 0;
+    day.subscribers += session.subscribers || 0;
+    day.streamTime += minutes;
+    days.set(date, day);
+  });
+
+  statistics.totalStreams = sessions.length;
+  statistics.averageViewers = Math.round(viewerSum / sessions.length);
+  statistics.averageStreamDuration = Math.round(statistics.totalStreamTime / sessions.length);
+  // Streams per week
+  statistics.streamFrequency = Math.round((sessions.length / Math.max(1, rangeDays / 7)) * 10) / 10;
+  statistics.topCategories = Array.from(categoryMinutes, ([category, minutes]) => ({
+    category,
+    hours: Math.round((minutes / 60) * 10) / 10,
+  }))
+    .sort((a, b) => b.hours - a.hours)
+    .slice(0, 5);
+  statistics.topPlatforms = Array.from(platformViewers, ([platform, viewers]) => ({
+    platform,
+    viewers,
+  })).sort((a, b) => b.viewers - a.viewers);
+  statistics.recentMetrics = Array.from(days, ([date, day]) => ({ date, ...day })).sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+  return statistics;
+};
+
+export const registerStreamerRoutes = (router: Router, store: Store, hub: RealtimeHub): void => {
+  const requireProfile = (streamerId: string): StreamerProfile => {
+    const profile = store.streamers.get(streamerId);
+    if (!profile) {
+      throw notFound('Streamer');
+    }
+    return profile;
+  };
+
+  const requireSession = (streamerId: string, sessionId: string): StreamSession => {
+    const session = store.sessions.get(sessionId);
+    if (!session || session.streamerId !== streamerId) {
+      throw notFound('Stream session');
+    }
+    return session;
+  };
+
+  const raiseAlert = (
+    streamerId: string,
+    alert: Pick<StreamAlert, 'type' | 'message' | 'severity'> & { data?: Record<string, any> }
+  ): void => {
+    const id = generateId('alert');
+    const stored = store.alerts.put(id, {
+      data: {},
+      actionRequired: false,
+      ...alert,
+      id,
+      streamerId,
+      timestamp: now(),
+      isRead: false,
+    });
+    publishAlert(hub, stored);
+  };
+
+  const startSession = (
+    profile: StreamerProfile,
+    platform: string,
+    body: Record<string, any>
+  ): StreamSession => {
+    const connection = profile.platforms.find(candidate => candidate.platform === platform);
+    if (!connection?.isConnected) {
+      throw new HttpError(409, `${platform} is not connected`);
+    }
+    const id = generateId('session');
+    return store.sessions.put(id, {
+      id,
+      streamerId: profile.id,
+      platform,
+      title: body.title || '',
+      category: body.category || '',
+      startTime: now(),
+      status: 'live',
+      viewerCount: 0,
+      peakViewers: 0,
+      chatMessages: 0,
+      followers: 0,
+      subscribers: 0,
+      donations: 0,
+      revenue: 0,
+      quality: { ...DEFAULT_QUALITY, ...body.quality },
+      settings: body.settings || {},
+      metadata: {
+        streamKey: connection.streamKey || '',
+        ingestUrl: INGEST_URLS[platform] || '',
+        previewUrl: '',
+      },
+      analytics: {
+        viewerRetention: [],
+        chatActivity: [],
+        qualityChanges: [],
+        disconnections: [],
+      },
+      moderationActions: { warnings: 0, timeouts: 0, bans: 0, deletedMessages: 0 },
+    });
+  };
+
+  // Literal /streamers/... routes come first so /streamers/:streamerId doesn't swallow them
+
+  router.post('/streamers', ({ body }) => {
+    if (!body?.userId || !body?.username) {
+      throw new HttpError(400, 'userId and username are required');
+    }
+    const id = generateId('streamer');
+    const timestamp = now();
+    const profile = store.streamers.put(id, {
+      displayName: body.username,
+      socialLinks: {},
+      platforms: [],
+      categories: [],
+      languages: [],
+      schedule: [],
+      settings: {},
+      branding: {},
+      isVerified: false,
+      subscriptionTier: 'free',
+      ...body,
+      id,
+      statistics: emptyStatistics(),
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    });
+    return publicProfile(profile);
+  });
+
+  router.post('/streamers/schedules', ({ body }) => {
+    if (!body?.streamerId || !body?.startTime) {
+      throw new HttpError(400, 'streamerId and startTime are required');
+    }
+    requireProfile(body.streamerId);
+    const id = generateId('schedule');
+    const timestamp = now();
+    return store.schedules.put(id, {
+      tags: [],
+      attendees: [],
+      isConfirmed: false,
+      remindersSent: false,
+      ...body,
+      id,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    });
+  });
+
+  router.put('/streamers/schedules/:scheduleId', ({ params, body }) => {
+    const updates = omit(body || {}, ['id', 'streamerId']);
+    const schedule = store.schedules.update(params.scheduleId, { ...updates, updatedAt: now() });
+    if (!schedule) {
+      throw notFound('Schedule');
+    }
+    return schedule;
+  });
+
+  router.post('/streamers/schedules/:scheduleId/cancel', ({ params, body }) => {
+    const schedule = store.schedules.update(params.scheduleId, {
+      status: 'cancelled',
+      cancellationReason: body?.reason || '',
+      updatedAt: now(),
+    });
+    if (!schedule) {
+      throw notFound('Schedule');
+    }
+  });
+
+  router.post('/streamers/templates', ({ body }) => {
+    if (!body?.name || !body?.createdBy) {
+      throw new HttpError(400, 'name and createdBy are required');
+    }
+    const id = generateId('template');
+    const timestamp = now();
+    return store.templates.put(id, {
+      description: '',
+      category: '',
+      isPublic: false,
+      settings: {},
+      branding: {},
+      tags: [],
+      ...body,
+      id,
+      usageCount: 0,
+      rating: 0,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    } as StreamTemplate);
+  });
+
+  router.get('/streamers/templates', ({ query }) => {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (query.get('category')) {
+      conditions.push('category = ?');
+      params.push(query.get('category')!);
+    }
+    if (query.get('isPublic') !== null) {
+      conditions.push('is_public = ?');
+      params.push(query.get('isPublic') === 'true' ? 1 : 0);
+    }
+    if (query.get('createdBy')) {
+      conditions.push('created_by = ?');
+      params.push(query.get('createdBy')!);
+    }
+    query.getAll('tags').forEach(tag => {
+      conditions.push("exists (select 1 from json_each(data, '$.tags') where value = ?)");
+      params.push(tag);
+    });
+    return store.templates.find(conditions.join(' and ') || undefined, params, {
+      orderBy: "json_extract(data, '$.usageCount') desc",
+    });
+  });
+
+  // Profiles
+
+  router.get('/streamers/:streamerId', ({ params }) =>
+    publicProfile(requireProfile(params.streamerId))
+  );
+
+  router.put('/streamers/:streamerId', ({ params, body }) => {
+    const profile = requireProfile(params.streamerId);
+    // Platform connections and statistics change through their own endpoints
+    const updates = omit(body || {}, ['id', 'platforms', 'statistics']);
+    return publicProfile(
+      store.streamers.put(profile.id, { ...profile, ...updates, updatedAt: now() })
+    );
+  });
+
+  // Platforms
+
+  router.post('/streamers/:streamerId/platforms', ({ params, body }) => {
+    const profile = requireProfile(params.streamerId);
+    const { platform, credentials = {} } = body || {};
+    if (!platform) {
+      throw new HttpError(400, 'platform is required');
+    }
+    const existing = profile.platforms.find(candidate => candidate.platform === platform);
+    const connection: StreamerPlatform = {
+      displayName: credentials.username || profile.displayName,
+      isVerified: false,
+      followerCount: 0,
+      subscriberCount: 0,
+      ...existing,
+      platform,
+      username: credentials.username || existing?.username || profile.username,
+      isConnected: true,
+      streamKey: credentials.streamKey || existing?.streamKey,
+      credentials: {
+        accessToken: credentials.accessToken,
+        refreshToken: credentials.refreshToken,
+      },
+    };
+    store.streamers.put(profile.id, {
+      ...profile,
+      platforms: [
+        ...profile.platforms.filter(candidate => candidate.platform !== platform),
+        connection,
+      ],
+      updatedAt: now(),
+    });
+    return withoutCredentials(connection);
+  });
+
+  router.delete('/streamers/:streamerId/platforms/:platform', ({ params }) => {
+    const profile = requireProfile(params.streamerId);
+    store.streamers.put(profile.id, {
+      ...profile,
+      platforms: profile.platforms.filter(candidate => candidate.platform !== params.platform),
+      updatedAt: now(),
+    });
+  });
+
+  /**
+   * Refreshes the connection's counters from the sessions recorded here.
+   */
+  router.post('/streamers/:streamerId/platforms/:platform/sync', ({ params }) => {
+    const profile = requireProfile(params.streamerId);
+    const connection = profile.platforms.find(candidate => candidate.platform === params.platform);
+    if (!connection) {
+      throw notFound('Platform connection');
+    }
+    const sessions = store.sessions.find(
+      "streamer_id = ? and json_extract(data, '$.platform') = ?",
+      [profile.id, params.platform]
+    );
+    const synced: StreamerPlatform = {
+      ...connection,
+      followerCount: sessions.reduce((total, session) => total + (session.followers || 0), 0),
+      subscriberCount: sessions.reduce((total, session) => total + (session.subscribers || 0), 0),
+      lastStreamAt: sessions
+        .map(session => session.startTime)
+        .sort()
+        .pop(),
+    };
+    store.streamers.put(profile.id, {
+      ...profile,
+      platforms: profile.platforms.map(candidate =>
+        candidate.platform === params.platform ? synced : candidate
+      ),
+      updatedAt: now(),
+    });
+    return withoutCredentials(synced);
+  });
+
+  // Schedules
+
+  router.get('/streamers/:streamerId/schedules', ({ params, query }) => {
+    const conditions = ['streamer_id = ?'];
+    const values = [params.streamerId];
+    if (query.get('startDate')) {
+      conditions.push('start_time >= ?');
+      values.push(query.get('startDate')!);
+    }
+    if (query.get('endDate')) {
+      conditions.push('start_time <= ?');
+      values.push(query.get('endDate')!);
+    }
+    return store.schedules.find(conditions.join(' and '), values, { orderBy: 'start_time asc' });
+  });
+
+  // Stream sessions
+
+  router.post('/streamers/:streamerId/stream/start', ({ params, body }) => {
+    const profile = requireProfile(params.streamerId);
+    const session = startSession(profile, body?.platform, body || {});
+    raiseAlert(profile.id, {
+      type: 'milestone',
+      message: `You're live on ${session.platform}: ${session.title}`,
+      severity: 'success',
+      data: { sessionId: session.id, platform: session.platform },
+    });
+    return session;
+  });
+
+  router.post('/streamers/:streamerId/stream/multi/start', ({ params, body }) => {
+    const profile = requireProfile(params.streamerId);
+    const { platforms = [], ...sessionData } = body || {};
+    if (!Array.isArray(platforms) || platforms.length === 0) {
+      throw new HttpError(400, 'platforms is required');
+    }
+    const sessions = store.db.transaction(() =>
+      platforms.map((platform: string) => startSession(profile, platform, sessionData))
+    )();
+    raiseAlert(profile.id, {
+      type: 'milestone',
+      message: `You're live on ${platforms.join(', ')}`,
+      severity: 'success',
+      data: { sessionIds: sessions.map((session: StreamSession) => session.id) },
+    });
+    return sessions;
+  });
+
+  router.post('/streamers/:streamerId/stream/multi/sync/title', ({ params, body }) => {
+    const { sessionIds = [], title } = body || {};
+    if (!title) {
+      throw new HttpError(400, 'title is required');
+    }
+    sessionIds.forEach((sessionId: string) => {
+      requireSession(params.streamerId, sessionId);
+      store.sessions.update(sessionId, { title });
+    });
+  });
+
+  router.post('/streamers/:streamerId/stream/:sessionId/end', ({ params }) => {
+    const session = requireSession(params.streamerId, params.sessionId);
+    if (session.status !== 'live') {
+      return session;
+    }
+    const ended = store.sessions.put(session.id, { ...session, status: 'ended', endTime: now() });
+
+    const profile = requireProfile(params.streamerId);
+    const sessions = store.sessions.find(
+      "streamer_id = ? and json_extract(data, '$.status') = 'ended'",
+      [profile.id]
+    );
+    store.streamers.put(profile.id, {
+      ...profile,
+      statistics: {
+        ...profile.statistics,
+        ...summarizeSessions(sessions, minutesBetween(profile.createdAt) / (60 * 24)),
+      },
+      updatedAt: now(),
+    });
+    raiseAlert(profile.id, {
+      type: 'milestone',
+      message: `Stream ended after ${minutesBetween(ended.startTime, ended.endTime)} minutes`,
+      severity: 'info',
+      data: { sessionId: ended.id, peakViewers: ended.peakViewers },
+    });
+    return ended;
+  });
+
+  router.get('/streamers/:streamerId/stream/:sessionId', ({ params }) =>
+    requireSession(params.streamerId, params.sessionId)
+  );
+
+  router.put('/streamers/:streamerId/stream/:sessionId/settings', ({ params, body }) => {
+    const session = requireSession(params.streamerId, params.sessionId);
+    return store.sessions.put(session.id, {
+      ...session,
+      settings: { ...session.settings, ...body },
+    });
+  });
+
+  router.get('/streamers/:streamerId/stream/:sessionId/insights', ({ params }) => {
+    const session = requireSession(params.streamerId, params.sessionId);
+    const start = new Date(session.startTime).getTime();
+    const minuteStamp = (minute: number) => new Date(start + minute * 60000).toISOString();
+    const retention: number[] = session.analytics?.viewerRetention || [];
+    const chatActivity: number[] = session.analytics?.chatActivity || [];
+
+    const recommendations: { category: string; suggestion: string; impact: string }[] = [];
+    if (session.quality?.dropFrames > 0) {
+      recommendations.push({
+        category: 'quality',
+        suggestion: 'Lower the bitrate or resolution to stop dropped frames',
+        impact: 'high',
+      });
+    }
+    if (session.chatMessages < session.peakViewers) {
+      recommendations.push({
+        category: 'engagement',
+        suggestion: 'Ask viewers questions or run a poll to get chat going',
+        impact: 'medium',
+      });
+    }
+
+    return {
+      viewerJourney: retention.map((count, minute) => ({
+        timestamp: minuteStamp(minute),
+        action: 'watching',
+        count,
+      })),
+      engagementHeatmap: chatActivity.map((messages, minute) => ({
+        timestamp: minuteStamp(minute),
+        engagement: retention[minute] ? messages / retention[minute] : 0,
+      })),
+      // No sentiment model here; reports neutral with the raw activity
+      chatAnalysis: { sentiment: 0, topics: [], activity: chatActivity },
+      recommendations,
+    };
+  });
+
+  // Analytics
+
+  router.get('/streamers/:streamerId/analytics', ({ params, query }) => {
+    const profile = requireProfile(params.streamerId);
+    const since = timeRangeStart(query.get('timeRange') || '30d');
+    const sessions = store.sessions.find(
+      "streamer_id = ? and json_extract(data, '$.startTime') >= ?",
+      [profile.id, since || profile.createdAt]
+    );
+    return summarizeSessions(sessions, minutesBetween(since || profile.createdAt) / (60 * 24));
+  });
+
+  // Templates
+
+  router.post('/streamers/:streamerId/templates/:templateId/apply', ({ params }) => {
+    const profile = requireProfile(params.streamerId);
+    const template = store.templates.get(params.templateId);
+    if (!template) {
+      throw notFound('Template');
+    }
+    store.templates.put(template.id, { ...template, usageCount: template.usageCount + 1 });
+    return publicProfile(
+      store.streamers.put(profile.id, {
+        ...profile,
+        settings: { ...profile.settings, ...template.settings },
+        branding: { ...profile.branding, ...template.branding },
+        updatedAt: now(),
+      })
+    );
+  });
+
+  // Alerts
+
+  router.get('/streamers/:streamerId/alerts', ({ params, query }) =>
+    store.alerts.find('streamer_id = ?', [params.streamerId], {
+      orderBy: 'created_at desc',
+      limit: parseLimit(query.get('limit'), 50),
+    })
+  );
+
+  router.post('/streamers/:streamerId/alerts/:alertId/read', ({ params }) => {
+    const alert = store.alerts.get(params.alertId);
+    if (!alert || alert.streamerId !== params.streamerId) {
+      throw notFound('Alert');
+    }
+    store.alerts.put(alert.id, { ...alert, isRead: true });
+  });
+
+  // Utilities
+
+  router.post('/streamers/:streamerId/stream-key/:platform', ({ params }) => {
+    const profile = requireProfile(params.streamerId);
+    const connection = profile.platforms.find(candidate => candidate.platform === params.platform);
+    if (!connection) {
+      throw notFound('Platform connection');
+    }
+    const streamKey = `live_${crypto.randomBytes(20).toString('hex')}`;
+    store.streamers.put(profile.id, {
+      ...profile,
+      platforms: profile.platforms.map(candidate =>
+        candidate === connection ? { ...candidate, streamKey } : candidate
+      ),
+      updatedAt: now(),
+    });
+    return { streamKey };
+  });
+
+  /**
+   * Checks the connection is usable from what's stored. It doesn't reach out
+   * to the platform's ingest, so latency is only the time taken here.
+   */
+  router.post('/streamers/:streamerId/test-connection/:platform', ({ params }) => {
+    const startedAt = Date.now();
+    const profile = requireProfile(params.streamerId);
+    const connection = profile.platforms.find(candidate => candidate.platform === params.platform);
+    const errors: string[] = [];
+    if (!connection?.isConnected) {
+      errors.push(`${params.platform} is not connected`);
+    } else if (!connection.streamKey) {
+      errors.push('No stream key set; generate one first');
+    }
+    if (!INGEST_URLS[params.platform]) {
+      errors.push(`No known ingest server for ${params.platform}`);
+    }
+    return {
+      success: errors.length === 0,
+      latency: Date.now() - startedAt,
+      quality: errors.length === 0 ? 'good' : 'unavailable',
+      errors,
+    };
+  });
+
+  router.post('/streamers/:streamerId/optimize-settings', ({ params, body }) => {
+    requireProfile(params.streamerId);
+    const quality = body?.quality || {};
+    const recommendations: { setting: string; current: any; recommended: any; reason: string }[] =
+      [];
+    const estimatedImprovement: { metric: string; improvement: string }[] = [];
+
+    if (quality.maxBitrate > 6000) {
+      recommendations.push({
+        setting: 'quality.maxBitrate',
+        current: quality.maxBitrate,
+        recommended: 6000,
+        reason: 'Twitch and most viewers cap out at 6000 kbps',
+      });
+      estimatedImprovement.push({ metric: 'dropped frames', improvement: 'fewer' });
+    }
+    if (quality.keyframeInterval !== undefined && quality.keyframeInterval !== 2) {
+      recommendations.push({
+        setting: 'quality.keyframeInterval',
+        current: quality.keyframeInterval,
+        recommended: 2,
+        reason: 'Platforms expect a keyframe every 2 seconds for quality switching',
+      });
+      estimatedImprovement.push({ metric: 'startup time', improvement: 'faster' });
+    }
+    if (quality.maxFramerate > 30 && quality.maxBitrate && quality.maxBitrate < 4500) {
+      recommendations.push({
+        setting: 'quality.maxFramerate',
+        current: quality.maxFramerate,
+        recommended: 30,
+        reason: 'Below 4500 kbps, 60 fps looks worse than 30 fps',
+      });
+      estimatedImprovement.push({ metric: 'image quality', improvement: 'sharper' });
+    }
+    return { recommendations, estimatedImprovement };
+  });
+};
@@ -0,0 +1,132 @@
+/**
+ * Every table the server reads and writes, with the document fields mirrored
+ * into query columns. Join tables without documents (likes, votes,
+ * friendships) are queried through `db` directly.
+ */
+
+import { SqliteDatabase, Table } from './db';
+import {
+  Activity,
+  Badge,
+  Comment,
+  Following,
+  FriendRequest,
+  LiveNotification,
+  Poll,
+  PollVote,
+  QASession,
+  Question,
+  QueueItem,
+  RoomActivity,
+  RoomInvitation,
+  SocialPost,
+  StreamAlert,
+  StreamClip,
+  StreamRoom,
+  StreamSchedule,
+  StreamSession,
+  StreamShare,
+  StreamTemplate,
+  StreamerProfile,
+  SyncRoom,
+  UserPresence,
+  UserProfile,
+} from './types';
+
+export const createStore = (db: SqliteDatabase) => ({
+  db,
+
+  users: new Table<UserProfile>(db, 'users', { username: user => user.username }),
+  follows: new Table<Following>(db, 'follows', {
+    follower_id: follow => follow.followerId,
+    following_id: follow => follow.followingId,
+    following_type: follow => follow.followingType,
+    created_at: follow => follow.createdAt,
+  }),
+  clips: new Table<StreamClip>(db, 'clips', {
+    streamer_id: clip => clip.streamerId,
+    platform: clip => clip.platform,
+    created_by: clip => clip.createdBy,
+    created_at: clip => clip.createdAt,
+  }),
+  posts: new Table<SocialPost>(db, 'posts', {
+    author_id: post => post.authorId,
+    created_at: post => post.createdAt,
+  }),
+  comments: new Table<Comment>(db, 'comments', {
+    post_id: comment => comment.postId,
+    created_at: comment => comment.createdAt,
+  }),
+  activities: new Table<Activity>(db, 'activities', {
+    user_id: activity => activity.userId,
+    created_at: activity => activity.createdAt,
+  }),
+  userBadges: new Table<Badge & { userId: string }>(db, 'user_badges', {
+    user_id: badge => badge.userId,
+    badge_id: badge => badge.id,
+  }),
+  streamShares: new Table<StreamShare>(db, 'stream_shares', {
+    stream_id: share => share.streamId,
+    created_at: share => share.createdAt,
+  }),
+
+  streamers: new Table<StreamerProfile>(db, 'streamers', { user_id: profile => profile.userId }),
+  schedules: new Table<StreamSchedule>(db, 'schedules', {
+    streamer_id: schedule => schedule.streamerId,
+    start_time: schedule => schedule.startTime,
+  }),
+  sessions: new Table<StreamSession>(db, 'stream_sessions', {
+    streamer_id: session => session.streamerId,
+  }),
+  templates: new Table<StreamTemplate>(db, 'stream_templates', {
+    created_by: template => template.createdBy,
+    category: template => template.category,
+    is_public: template => template.isPublic,
+  }),
+  alerts: new Table<StreamAlert>(db, 'stream_alerts', {
+    streamer_id: alert => alert.streamerId,
+    created_at: alert => alert.timestamp,
+  }),
+
+  rooms: new Table<StreamRoom>(db, 'rooms', {
+    visibility: room => room.visibility,
+    is_active: room => room.isActive,
+  }),
+  roomInvitations: new Table<RoomInvitation>(db, 'room_invitations', {
+    room_id: invitation => invitation.roomId,
+    to_user_id: invitation => invitation.toUserId,
+  }),
+  roomQueue: new Table<QueueItem & { roomId: string }>(db, 'room_queue', {
+    room_id: item => item.roomId,
+  }),
+  roomActivities: new Table<RoomActivity>(db, 'room_activities', {
+    room_id: activity => activity.roomId,
+    created_at: activity => activity.timestamp,
+  }),
+  syncRooms: new Table<SyncRoom>(db, 'sync_rooms'),
+  polls: new Table<Poll>(db, 'polls', { room_id: poll => poll.roomId }),
+  pollVotes: new Table<PollVote>(db, 'poll_votes', {
+    poll_id: vote => vote.pollId,
+    user_id: vote => vote.userId,
+  }),
+  qaSessions: new Table<QASession>(db, 'qa_sessions', { room_id: session => session.roomId }),
+  questions: new Table<Question>(db, 'qa_questions', {
+    session_id: question => question.sessionId,
+  }),
+  presences: new Table<UserPresence>(db, 'presences', {
+    username: presence => presence.username,
+    is_online: presence => presence.isOnline,
+    last_seen: presence => presence.lastSeen,
+  }),
+  friendRequests: new Table<FriendRequest>(db, 'friend_requests', {
+    from_user_id: request => request.fromUserId,
+    to_user_id: request => request.toUserId,
+    status: request => request.status,
+  }),
+  notifications: new Table<LiveNotification>(db, 'notifications', {
+    user_id: notification => notification.userId,
+    is_read: notification => notification.isRead,
+  }),
+});
+
+export type Store = ReturnType<typeof createStore>;
@@ -0,0 +1,326 @@
+/**
+ * The documents the app's services send and expect back. Only the fields the
+ * server reads or fills in are spelled out; everything else is stored and
+ * returned as the client sent it. The full shapes live next to each service
+ * in the app (services/socialService.ts, services/streamRoomsService.ts, ...).
+ */
+
+type Passthrough = { [field: string]: any };
+
+// socialService
+
+export interface UserProfile extends Passthrough {
+  id: string;
+  username: string;
+  displayName: string;
+  joinedAt: string;
+  lastActiveAt: string;
+  stats: Record<string, number>;
+  badges: Badge[];
+}
+
+export interface Badge extends Passthrough {
+  id: string;
+  name: string;
+  unlockedAt: string;
+}
+
+export interface Following extends Passthrough {
+  id: string;
+  followerId: string;
+  followingId: string;
+  followingType: 'user' | 'streamer';
+  createdAt: string;
+}
+
+export interface StreamClip extends Passthrough {
+  id: string;
+  streamerId: string;
+  platform: string;
+  createdBy: string;
+  createdAt: string;
+  viewCount: number;
+  likeCount: number;
+  shareCount: number;
+  isPublic: boolean;
+}
+
+export interface SocialPost extends Passthrough {
+  id: string;
+  authorId: string;
+  createdAt: string;
+  updatedAt: string;
+  likes: number;
+  comments: number;
+  shares: number;
+  isLiked: boolean;
+  isBookmarked: boolean;
+  visibility: 'public' | 'followers' | 'private';
+}
+
+export interface Comment extends Passthrough {
+  id: string;
+  postId: string;
+  authorId: string;
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Activity extends Passthrough {
+  id: string;
+  userId: string;
+  type: string;
+  createdAt: string;
+  isPublic: boolean;
+}
+
+export interface StreamSchedule extends Passthrough {
+  id: string;
+  streamerId: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface StreamShare extends Passthrough {
+  id: string;
+  streamId: string;
+  platform: string;
+  createdAt: string;
+}
+
+// streamManagementService
+
+export interface StreamerPlatform extends Passthrough {
+  platform: string;
+  username: string;
+  isConnected: boolean;
+  streamKey?: string;
+}
+
+export interface StreamerProfile extends Passthrough {
+  id: string;
+  userId: string;
+  username: string;
+  platforms: StreamerPlatform[];
+  settings: Record<string, any>;
+  branding: Record<string, any>;
+  statistics: Record<string, any>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StreamSession extends Passthrough {
+  id: string;
+  streamerId: string;
+  platform: string;
+  title: string;
+  category: string;
+  startTime: string;
+  endTime?: string;
+  status: 'scheduled' | 'live' | 'ended' | 'cancelled';
+  viewerCount: number;
+  peakViewers: number;
+}
+
+export interface StreamTemplate extends Passthrough {
+  id: string;
+  category: string;
+  isPublic: boolean;
+  createdBy: string;
+  tags: string[];
+  usageCount: number;
+  rating: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StreamAlert extends Passthrough {
+  id: string;
+  streamerId: string;
+  type: string;
+  message: string;
+  timestamp: string;
+  isRead: boolean;
+  severity: 'info' | 'warning' | 'error' | 'success';
+}
+
+// streamRoomsService
+
+export type MemberRole = 'host' | 'co_host' | 'moderator' | 'vip' | 'member' | 'guest';
+
+export interface RoomMember extends Passthrough {
+  userId: string;
+  username: string;
+  role: MemberRole;
+  permissions: string[];
+  joinedAt: string;
+  lastActiveAt: string;
+  isOnline: boolean;
+  isBanned: boolean;
+  banExpiresAt?: string;
+  status: string;
+}
+
+export interface StreamRoom extends Passthrough {
+  id: string;
+  name: string;
+  visibility: 'public' | 'private' | 'invite_only' | 'password_protected';
+  streamId?: string;
+  hostId: string;
+  hostUsername: string;
+  members: RoomMember[];
+  settings: Record<string, any>;
+  createdAt: string;
+  updatedAt: string;
+  maxMembers: number;
+  currentMemberCount: number;
+  isActive: boolean;
+  tags: string[];
+  category: string;
+  password?: string;
+  layout?: RoomLayout;
+}
+
+/**
+ * The multiview a watch party shares. The server numbers each version and
+ * records who set it.
+ */
+export interface RoomLayout extends Passthrough {
+  streams: Passthrough[];
+  audioFocusStreamId: string | null;
+  version: number;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export interface RoomInvitation extends Passthrough {
+  id: string;
+  roomId: string;
+  fromUserId: string;
+  toUserId: string;
+  toUsername: string;
+  status: 'pending' | 'accepted' | 'rejected' | 'expired';
+  role?: MemberRole;
+}
+
+export interface QueueItem extends Passthrough {
+  id: string;
+  streamId: string;
+  addedAt: string;
+  votes: number;
+}
+
+export interface RoomActivity extends Passthrough {
+  id: string;
+  roomId: string;
+  userId: string;
+  timestamp: string;
+}
+
+// viewerSyncService
+
+export interface ViewerSyncState extends Passthrough {
+  userId: string;
+  username: string;
+  currentTime: number;
+  playbackState: string;
+  isHost: boolean;
+}
+
+export interface SyncRoom extends Passthrough {
+  id: string;
+  streamId: string;
+  hostId: string;
+  hostUsername: string;
+  viewers: ViewerSyncState[];
+  syncMode: 'host_controlled' | 'democratic' | 'auto_sync' | 'manual';
+  masterTime: number;
+  masterPlaybackState: string;
+  tolerance: number;
+  createdAt: string;
+  settings: Record<string, any>;
+  statistics: Record<string, number>;
+}
+
+// livePollsService
+
+export interface PollOption extends Passthrough {
+  id: string;
+  text: string;
+  votes: number;
+  percentage: number;
+}
+
+export interface Poll extends Passthrough {
+  id: string;
+  roomId: string;
+  options: PollOption[];
+  settings: Passthrough & { allowChangeVote: boolean };
+  createdBy: string;
+  status: string;
+  statistics: Passthrough & { totalVotes: number; totalParticipants: number };
+  endsAt: string;
+}
+
+export interface PollVote extends Passthrough {
+  id: string;
+  pollId: string;
+  userId: string;
+  optionId: string;
+  optionIds: string[];
+}
+
+export interface QASession extends Passthrough {
+  id: string;
+  roomId: string;
+  hostId: string;
+  moderators: string[];
+  status: string;
+  questions: Question[];
+  settings: Passthrough & { allowVoting: boolean };
+}
+
+export interface Question extends Passthrough {
+  id: string;
+  sessionId: string;
+  askedBy: string;
+  status: string;
+  upvotes: number;
+  downvotes: number;
+  answer?: string;
+  answeredBy?: string;
+  answeredByUsername?: string;
+  answeredAt?: string;
+}
+
+// presenceService
+
+export interface UserPresence extends Passthrough {
+  userId: string;
+  username: string;
+  displayName: string;
+  status: string;
+  activity?: Passthrough & { type: string };
+  location?: Passthrough;
+  lastSeen: string;
+  isOnline: boolean;
+  connectedAt?: string;
+}
+
+export interface FriendRequest extends Passthrough {
+  id: string;
+  fromUserId: string;
+  fromUsername: string;
+  toUserId: string;
+  toUsername: string;
+  status: 'pending' | 'accepted' | 'rejected' | 'cancelled';
+  respondedAt?: string;
+}
+
+export interface LiveNotification extends Passthrough {
+  id: string;
+  userId: string;
+  fromUserId?: string;
+  isRead: boolean;
+}
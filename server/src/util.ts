@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+
+export const generateId = (prefix: string): string =>
+  `${prefix}_${crypto.randomUUID().replace(/-/g, '').slice(0, 16)}`;
+
+export const now = (): string => new Date().toISOString();
+
+/**
+ * Shallow copy without the given keys, for stripping secrets and fields
+ * clients aren't allowed to overwrite.
+ */
+export const omit = <T extends object, K extends keyof T>(value: T, keys: K[]): Omit<T, K> => {
+  const copy = { ...value };
+  keys.forEach(key => delete copy[key]);
+  return copy;
+};
+
+/**
+ * Clamps a `limit` query parameter, falling back when it's missing or junk.
+ */
+export const parseLimit = (value: string | null, fallback: number, max = 200): number => {
+  const limit = Number(value);
+  return Number.isFinite(limit) && limit > 0 ? Math.min(Math.floor(limit), max) : fallback;
+};
+
+const TIME_RANGES_MS: Record<string, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  '90d': 90 * 24 * 60 * 60 * 1000,
+  '1y': 365 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * ISO cutoff for a '24h' / '7d' / '30d' / '1y' range; null for 'all' or
+ * anything unknown.
+ */
+export const timeRangeStart = (range: string | null): string | null => {
+  const span = range ? TIME_RANGES_MS[range] : undefined;
+  return span ? new Date(Date.now() - span).toISOString() : null;
+};
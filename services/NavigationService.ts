@@ -72,6 +72,18 @@ class NavigationService {
     }
   }
 
+  /**
+   * Open a shared multiview layout (streamyyy://layout?d=<code>) in the grid,
+   * which imports it
+   */
+  openSharedLayout(code: string) {
+    if (!code) {
+      this.replace('/(tabs)/grid');
+      return;
+    }
+    this.replace('/(tabs)/grid', { layout: code });
+  }
+
   /**
    * Go back in navigation history
    */
@@ -0,0 +1,295 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ChatEmote, ChatFragment, EmoteProviderId } from '@/types/chat';
+import {
+  applyEmoteIndex,
+  bttvProvider,
+  EmoteProvider,
+  emoteService,
+  ffzProvider,
+  sevenTVProvider,
+} from '../emoteService';
+
+const CHANNEL_ID = '12826';
+const SIX_HOURS_MS = 6 * 60 * 60 * 1000;
+
+const emote = (provider: EmoteProviderId, name: string, isChannelEmote = false): ChatEmote => ({
+  id: `${provider}-${name}`,
+  name,
+  provider,
+  url: `https://cdn.example/${provider}/${name}.webp`,
+  animated: false,
+  zeroWidth: false,
+  isChannelEmote,
+});
+
+interface StubProvider extends EmoteProvider {
+  fetchGlobalEmotes: jest.Mock<Promise<ChatEmote[]>, []>;
+  fetchChannelEmotes: jest.Mock<Promise<ChatEmote[]>, [string]>;
+}
+
+const stubProvider = (
+  id: EmoteProviderId,
+  globalEmotes: string[],
+  channelEmotes: string[] = []
+): StubProvider => ({
+  id,
+  fetchGlobalEmotes: jest.fn(async () => globalEmotes.map(name => emote(id, name))),
+  fetchChannelEmotes: jest.fn<Promise<ChatEmote[]>, [string]>(async () =>
+    channelEmotes.map(name => emote(id, name, true))
+  ),
+});
+
+const fetchCalls = (providers: StubProvider[]) =>
+  providers.reduce(
+    (total, provider) =>
+      total +
+      provider.fetchGlobalEmotes.mock.calls.length +
+      provider.fetchChannelEmotes.mock.calls.length,
+    0
+  );
+
+// Lets the fire-and-forget cache write land
+const flushCacheWrites = () =>
+  new Promise(resolve => jest.requireActual('timers').setImmediate(resolve));
+
+describe('emoteService', () => {
+  let sevenTV: StubProvider;
+  let bttv: StubProvider;
+  let ffz: StubProvider;
+  let providers: StubProvider[];
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-18T12:00:00Z') });
+    await AsyncStorage.clear();
+
+    sevenTV = stubProvider('7tv', ['KEKW', 'Clap'], ['peepoHappy']);
+    bttv = stubProvider('bttv', ['KEKW', 'catJAM'], ['Clap']);
+    ffz = stubProvider('ffz', ['KEKW', 'LilZ'], ['peepoHappy']);
+    providers = [sevenTV, bttv, ffz];
+    emoteService.setProviders(providers);
+  });
+
+  afterAll(() => {
+    emoteService.setProviders([sevenTVProvider, bttvProvider, ffzProvider]);
+  });
+
+  describe('merged index', () => {
+    it('prefers channel emotes over globals, then 7TV over BTTV over FFZ', async () => {
+      const index = await emoteService.getIndex(CHANNEL_ID);
+
+      expect(index.channelId).toBe(CHANNEL_ID);
+      expect(index.emotes.get('KEKW')?.provider).toBe('7tv');
+      expect(index.emotes.get('catJAM')?.provider).toBe('bttv');
+      expect(index.emotes.get('LilZ')?.provider).toBe('ffz');
+      // A channel's BTTV emote shadows the 7TV global of the same name
+      expect(index.emotes.get('Clap')).toMatchObject({ provider: 'bttv', isChannelEmote: true });
+      expect(index.emotes.get('peepoHappy')).toMatchObject({
+        provider: '7tv',
+        isChannelEmote: true,
+      });
+      expect(bttv.fetchChannelEmotes).toHaveBeenCalledWith(CHANNEL_ID);
+    });
+
+    it('leaves channel sets out of the global index', async () => {
+      const index = await emoteService.getIndex(null);
+
+      expect(index.emotes.has('peepoHappy')).toBe(false);
+      expect(index.emotes.get('Clap')?.provider).toBe('7tv');
+      providers.forEach(provider => expect(provider.fetchChannelEmotes).not.toHaveBeenCalled());
+    });
+
+    it('lists channel emotes first for the picker', async () => {
+      const names = (await emoteService.getEmotes(CHANNEL_ID)).map(entry => entry.name);
+
+      expect(names).toEqual(['Clap', 'peepoHappy', 'catJAM', 'KEKW', 'LilZ']);
+    });
+
+    it('keeps native Twitch emotes and replaces third-party names in text', async () => {
+      const index = await emoteService.getIndex(CHANNEL_ID);
+      const kappa: ChatFragment = {
+        type: 'emote',
+        text: 'Kappa',
+        id: '25',
+        url: 'https://static-cdn.jtvnw.net/emoticons/v2/25/default/dark/2.0',
+        provider: 'twitch',
+      };
+
+      const fragments = applyEmoteIndex(
+        [kappa, { type: 'text', text: ' KEKW that catJAM' }],
+        index
+      );
+
+      expect(fragments[0]).toBe(kappa);
+      expect(fragments.slice(1)).toEqual([
+        { type: 'text', text: ' ' },
+        expect.objectContaining({ type: 'emote', text: 'KEKW', provider: '7tv' }),
+        { type: 'text', text: ' that ' },
+        expect.objectContaining({ type: 'emote', text: 'catJAM', provider: 'bttv' }),
+      ]);
+    });
+  });
+
+  describe('caching', () => {
+    it('fetches each set once per session', async () => {
+      await emoteService.getIndex(CHANNEL_ID);
+      await emoteService.getIndex(CHANNEL_ID);
+      await emoteService.getIndex(null);
+
+      expect(fetchCalls(providers)).toBe(6);
+    });
+
+    it('reads sets from disk until they are six hours old', async () => {
+      await emoteService.getIndex(CHANNEL_ID);
+      await flushCacheWrites();
+      expect(fetchCalls(providers)).toBe(6);
+
+      emoteService.clearCache();
+      jest.setSystemTime(Date.now() + SIX_HOURS_MS - 1);
+      const cached = await emoteService.getIndex(CHANNEL_ID);
+      expect(cached.emotes.get('KEKW')?.provider).toBe('7tv');
+      expect(fetchCalls(providers)).toBe(6);
+
+      emoteService.clearCache();
+      jest.setSystemTime(Date.now() + 1);
+      await emoteService.getIndex(CHANNEL_ID);
+      expect(fetchCalls(providers)).toBe(12);
+    });
+  });
+
+  describe('provider failures', () => {
+    it('loads the other providers when one fails', async () => {
+      bttv.fetchGlobalEmotes.mockRejectedValue(new Error('Emote request failed: 502'));
+
+      const index = await emoteService.getIndex(null);
+
+      expect(index.emotes.get('KEKW')?.provider).toBe('7tv');
+      expect(index.emotes.get('LilZ')?.provider).toBe('ffz');
+      expect(index.emotes.has('catJAM')).toBe(false);
+    });
+
+    it("doesn't write partial sets to disk, so the next session retries", async () => {
+      bttv.fetchGlobalEmotes.mockRejectedValueOnce(new Error('Emote request failed: 502'));
+      await emoteService.getIndex(null);
+      await flushCacheWrites();
+
+      emoteService.clearCache();
+      const index = await emoteService.getIndex(null);
+
+      expect(bttv.fetchGlobalEmotes).toHaveBeenCalledTimes(2);
+      expect(index.emotes.get('catJAM')?.provider).toBe('bttv');
+    });
+  });
+});
+
+describe('emote providers', () => {
+  const responses: Record<string, unknown> = {
+    'https://7tv.io/v3/emote-sets/global': {
+      emotes: [
+        {
+          id: '7a',
+          name: 'RainTime',
+          flags: 1,
+          data: { animated: true, host: { url: '//cdn.7tv.app/emote/7a' } },
+        },
+        // Emotes still processing have no host yet
+        { id: '7b', name: 'Pending', flags: 0, data: {} },
+      ],
+    },
+    'https://api.betterttv.net/3/cached/emotes/global': [
+      { id: 'b1', code: 'SoSnowy', imageType: 'png' },
+      { id: 'b2', code: 'catJAM', imageType: 'gif' },
+    ],
+    [`https://api.betterttv.net/3/cached/users/twitch/${CHANNEL_ID}`]: {
+      channelEmotes: [{ id: 'b3', code: 'own', imageType: 'png' }],
+      sharedEmotes: [{ id: 'b4', code: 'shared', imageType: 'png', animated: true }],
+    },
+    'https://api.frankerfacez.com/v1/set/global': {
+      default_sets: [3],
+      sets: {
+        3: { emoticons: [{ id: 9, name: 'LilZ', urls: { 1: '//cdn.frankerfacez.com/9/1' } }] },
+        4: {
+          emoticons: [{ id: 10, name: 'NotDefault', urls: { 1: '//cdn.frankerfacez.com/10/1' } }],
+        },
+      },
+    },
+    [`https://api.frankerfacez.com/v1/room/id/${CHANNEL_ID}`]: {
+      sets: {
+        77: {
+          emoticons: [
+            {
+              id: 11,
+              name: 'ffzW',
+              modifier: true,
+              urls: {
+                1: 'https://cdn.frankerfacez.com/11/1',
+                2: 'https://cdn.frankerfacez.com/11/2',
+              },
+              animated: { 1: 'https://cdn.frankerfacez.com/11/animated/1' },
+            },
+          ],
+        },
+      },
+    },
+  };
+
+  beforeEach(() => {
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+      if (!(url in responses)) {
+        return { ok: false, status: 404, json: async () => ({}) };
+      }
+      return { ok: true, status: 200, json: async () => responses[url] };
+    });
+  });
+
+  it('maps 7TV sets and skips emotes without images', async () => {
+    expect(await sevenTVProvider.fetchGlobalEmotes()).toEqual([
+      {
+        id: '7a',
+        name: 'RainTime',
+        provider: '7tv',
+        url: 'https://cdn.7tv.app/emote/7a/2x.webp',
+        animated: true,
+        zeroWidth: true,
+        isChannelEmote: false,
+      },
+    ]);
+    // No 7TV account for the channel
+    expect(await sevenTVProvider.fetchChannelEmotes(CHANNEL_ID)).toEqual([]);
+  });
+
+  it('maps BTTV globals and channel plus shared emotes', async () => {
+    const globals = await bttvProvider.fetchGlobalEmotes();
+    expect(globals.map(entry => [entry.name, entry.animated, entry.zeroWidth])).toEqual([
+      ['SoSnowy', false, true],
+      ['catJAM', true, false],
+    ]);
+
+    const channel = await bttvProvider.fetchChannelEmotes(CHANNEL_ID);
+    expect(channel.map(entry => [entry.name, entry.isChannelEmote])).toEqual([
+      ['own', true],
+      ['shared', true],
+    ]);
+    expect(channel[0].url).toBe('https://cdn.betterttv.net/emote/b3/2x.webp');
+  });
+
+  it('maps only the default FFZ global sets and prefers animated images', async () => {
+    expect(await ffzProvider.fetchGlobalEmotes()).toEqual([
+      expect.objectContaining({ id: '9', name: 'LilZ', url: 'https://cdn.frankerfacez.com/9/1' }),
+    ]);
+    expect(await ffzProvider.fetchChannelEmotes(CHANNEL_ID)).toEqual([
+      expect.objectContaining({
+        name: 'ffzW',
+        url: 'https://cdn.frankerfacez.com/11/animated/1',
+        animated: true,
+        zeroWidth: true,
+        isChannelEmote: true,
+      }),
+    ]);
+  });
+
+  it('treats other HTTP errors as failures', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 500 });
+
+    await expect(sevenTVProvider.fetchGlobalEmotes()).rejects.toThrow('Emote request failed: 500');
+  });
+});
@@ -0,0 +1,90 @@
+import { AppState } from 'react-native';
+import { Stream } from '@/types/stream';
+import { goLiveService } from '../goLiveService';
+import { notificationService } from '../notificationService';
+import { YouTubeVideoLiveStatus, youtubeApi } from '../youtubeApi';
+
+jest.mock('expo-linking', () => ({
+  createURL: (path: string, { queryParams }: { queryParams: Record<string, string> }) =>
+    `streamyyy://${path.replace(/^\//, '')}?add=${queryParams.add}`,
+}));
+
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+const CHANNEL_ID = 'UCfavoriteChannel00000000';
+
+// Saved from an earlier broadcast, which has ended
+const favorite = {
+  id: 'youtube_oldBroadcast',
+  sourceId: 'oldBroadcast',
+  channelId: CHANNEL_ID,
+  username: CHANNEL_ID,
+  displayName: 'Favorite Channel',
+  title: 'Last week',
+  platform: 'youtube',
+  isLive: false,
+  profileImageUrl: 'https://i.ytimg.com/profile.jpg',
+} as Stream;
+
+const liveVideo = (id: string): YouTubeVideoLiveStatus => ({
+  id,
+  snippet: {
+    channelId: CHANNEL_ID,
+    title: 'Back live',
+    categoryId: '20',
+    liveBroadcastContent: 'live',
+  },
+  liveStreamingDetails: { actualStartTime: '2026-10-19T18:00:00Z' },
+});
+
+describe('goLiveService YouTube favorites', () => {
+  let getLiveVideosByChannel: jest.SpyInstance;
+  let notifyStreamStarted: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    Object.defineProperty(AppState, 'currentState', { value: 'active', configurable: true });
+    getLiveVideosByChannel = jest.spyOn(youtubeApi, 'getLiveVideosByChannel');
+    notifyStreamStarted = jest
+      .spyOn(notificationService, 'notifyStreamStarted')
+      .mockResolvedValue();
+    jest.spyOn(notificationService, 'isInQuietHours').mockReturnValue(false);
+  });
+
+  afterEach(() => {
+    goLiveService.watch([]);
+    jest.restoreAllMocks();
+  });
+
+  it('notifies with the new broadcast when the channel goes from offline to live', async () => {
+    getLiveVideosByChannel
+      .mockResolvedValueOnce(new Map())
+      .mockResolvedValueOnce(new Map([[CHANNEL_ID, liveVideo('newBroadcast')]]));
+
+    goLiveService.watch([favorite]);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(getLiveVideosByChannel).toHaveBeenCalledWith([CHANNEL_ID], 'prefetch');
+    expect(notifyStreamStarted).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+    expect(getLiveVideosByChannel).toHaveBeenCalledTimes(2);
+    expect(notifyStreamStarted).toHaveBeenCalledTimes(1);
+    expect(notifyStreamStarted).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 'youtube_newBroadcast',
+        streamerName: 'Favorite Channel',
+        title: 'Back live',
+        url: 'streamyyy://grid?add=youtube_newBroadcast',
+      })
+    );
+  });
+
+  it('does not notify for a channel that was already live at the first poll', async () => {
+    getLiveVideosByChannel.mockResolvedValue(new Map([[CHANNEL_ID, liveVideo('ongoing')]]));
+
+    goLiveService.watch([favorite]);
+    await jest.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+
+    expect(getLiveVideosByChannel).toHaveBeenCalledTimes(2);
+    expect(notifyStreamStarted).not.toHaveBeenCalled();
+  });
+});
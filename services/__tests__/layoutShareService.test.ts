@@ -0,0 +1,120 @@
+import { SharedLayout } from '@/types/layout';
+import { Stream } from '@/types/stream';
+import { LayoutImportError, layoutShareService } from '../layoutShareService';
+import { platformService } from '../platformService';
+
+const tile = (channel: string, x = 0) => ({
+  platform: 'twitch',
+  channel,
+  rect: { x, y: 0, width: 0.5, height: 1 },
+});
+
+const document = (overrides: Record<string, unknown>) => ({
+  version: 1,
+  preset: '2x2',
+  tiles: [tile('shroud'), tile('pokimane', 0.5)],
+  ...overrides,
+});
+
+describe('layoutShareService.validate', () => {
+  it('keeps the audio focus on its tile when earlier tiles are dropped', () => {
+    const layout = layoutShareService.validate(
+      document({
+        tiles: [{ platform: 'twitch' }, tile('shroud'), 'junk', tile('pokimane', 0.5)],
+        audioFocus: 3,
+      })
+    );
+
+    expect(layout.tiles.map(entry => entry.channel)).toEqual(['shroud', 'pokimane']);
+    expect(layout.audioFocus).toBe(1);
+    expect(layout.tiles[1].rect.x).toBe(0.5);
+  });
+
+  it('drops an audio focus that pointed at a dropped tile', () => {
+    const layout = layoutShareService.validate(
+      document({ tiles: [tile('shroud'), { channel: 'nobody' }], audioFocus: 1 })
+    );
+
+    expect(layout.tiles).toHaveLength(1);
+    expect(layout.audioFocus).toBeUndefined();
+  });
+
+  it.each([-1, 2, 0.5, '0'])('ignores an audio focus of %p', audioFocus => {
+    expect(layoutShareService.validate(document({ audioFocus })).audioFocus).toBeUndefined();
+  });
+
+  it('keeps only http(s) tile URLs, re-serialized by the URL parser', () => {
+    const layout = layoutShareService.validate(
+      document({
+        tiles: [
+          { ...tile('feed'), url: 'https://cdn.example/live.m3u8?x=</script><script>alert(1)' },
+          { ...tile('local'), url: 'javascript:alert(1)//.m3u8' },
+        ],
+      })
+    );
+
+    expect(layout.tiles[0].url).toBe(
+      'https://cdn.example/live.m3u8?x=%3C/script%3E%3Cscript%3Ealert(1)'
+    );
+    expect(layout.tiles[1].url).toBeUndefined();
+  });
+
+  it('round-trips through a link', () => {
+    const shared: SharedLayout = layoutShareService.validate(document({ audioFocus: 0 }));
+
+    const link = `streamyyy://layout?d=${layoutShareService.encode(shared)}`;
+    expect(layoutShareService.parse(link)).toEqual(shared);
+  });
+
+  it('rejects layouts with no readable tiles', () => {
+    expect(() =>
+      layoutShareService.validate(document({ tiles: [{ platform: 'twitch' }] }))
+    ).toThrow(new LayoutImportError('This layout has no streams', 'empty'));
+  });
+});
+
+describe('layoutShareService.resolve', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps the rects of the tiles it found and reports the rest', async () => {
+    jest.spyOn(platformService, 'resolveChannel').mockImplementation(async channel => {
+      if (channel === 'offline') {
+        return null;
+      }
+      return {
+        platform: 'twitch',
+        channelId: channel,
+        username: channel,
+        displayName: channel,
+        profileImageUrl: '',
+        isLive: true,
+        stream: { id: `twitch-${channel}`, platform: 'twitch', username: channel } as Stream,
+      };
+    });
+    const shared = layoutShareService.validate(
+      document({
+        preset: 'custom',
+        designAspect: 16 / 9,
+        tiles: [
+          { ...tile('shroud'), rect: { x: 0, y: 0, width: 0.7, height: 1 } },
+          { ...tile('offline'), rect: { x: 0.7, y: 0, width: 0.3, height: 0.5 } },
+          { ...tile('pokimane'), rect: { x: 0.7, y: 0.5, width: 0.3, height: 0.5 } },
+        ],
+        audioFocus: 2,
+      })
+    );
+
+    const result = await layoutShareService.resolve(shared);
+
+    expect(result.streams.map(stream => stream.id)).toEqual(['twitch-shroud', 'twitch-pokimane']);
+    expect(result.audioFocusStreamId).toBe('twitch-pokimane');
+    expect(result.skipped).toEqual([{ tile: shared.tiles[1], reason: 'not_found' }]);
+    expect(result.multiview).toMatchObject({ preset: 'custom', designAspect: 16 / 9 });
+    expect(result.multiview.tiles.map(entry => [entry.streamId, entry.rect])).toEqual([
+      ['twitch-shroud', { x: 0, y: 0, width: 0.7, height: 1 }],
+      ['twitch-pokimane', { x: 0.7, y: 0.5, width: 0.3, height: 0.5 }],
+    ]);
+  });
+});
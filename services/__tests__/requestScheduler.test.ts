@@ -0,0 +1,191 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type {
+  RequestPriority,
+  RequestSchedulerError,
+  ScheduleOptions,
+  YouTubeQuotaUsage,
+} from '../requestScheduler';
+
+type Scheduler = typeof import('../requestScheduler').requestScheduler;
+
+// Noon in Los Angeles; YouTube quota days start at midnight Pacific
+const NOON_PACIFIC = new Date('2026-10-19T19:00:00Z');
+const NEXT_PACIFIC_DAY = new Date('2026-10-20T07:30:00Z');
+
+const okResponse = { ok: true, status: 200, headers: { get: () => null } } as unknown as Response;
+
+// A new scheduler, as on app start: full buckets and the quota read from storage
+const createScheduler = (): Scheduler => {
+  let scheduler: Scheduler;
+  jest.isolateModules(() => {
+    ({ requestScheduler: scheduler } =
+      jest.requireActual<typeof import('../requestScheduler')>('../requestScheduler'));
+  });
+  return scheduler;
+};
+
+describe('requestScheduler', () => {
+  let fetchMock: jest.Mock;
+  let scheduler: Scheduler;
+
+  const request = (url: string, options: Partial<ScheduleOptions> = {}) =>
+    scheduler.schedule({ platform: 'kick', key: url, ...options }, send => send(url));
+
+  const sentUrls = () => fetchMock.mock.calls.map(([url]) => url);
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.useFakeTimers();
+    jest.setSystemTime(NOON_PACIFIC);
+    fetchMock = global.fetch as jest.Mock;
+    fetchMock.mockResolvedValue(okResponse);
+    scheduler = createScheduler();
+  });
+
+  afterEach(() => {
+    delete process.env.EXPO_PUBLIC_YOUTUBE_DAILY_QUOTA;
+  });
+
+  describe('token bucket', () => {
+    it('sends a burst up to capacity, then one request per refilled token', async () => {
+      const requests = Array.from({ length: 12 }, (_, index) => request(`/burst/${index}`));
+
+      await jest.advanceTimersByTimeAsync(0);
+      expect(fetchMock).toHaveBeenCalledTimes(10);
+      expect(scheduler.getMetrics().platforms.kick.queued.normal).toBe(2);
+
+      // Kick refills one token a second
+      await jest.advanceTimersByTimeAsync(999);
+      expect(fetchMock).toHaveBeenCalledTimes(10);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(fetchMock).toHaveBeenCalledTimes(11);
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(fetchMock).toHaveBeenCalledTimes(12);
+
+      await expect(Promise.all(requests)).resolves.toHaveLength(12);
+      expect(scheduler.getMetrics().platforms.kick.sent).toBe(12);
+    });
+
+    it('shares one request between calls with the same key', async () => {
+      const [first, second] = [request('/same'), request('/same')];
+
+      await expect(Promise.all([first, second])).resolves.toEqual([okResponse, okResponse]);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(scheduler.getMetrics().platforms.kick.coalesced).toBe(1);
+    });
+  });
+
+  describe('queue', () => {
+    it('serves visible, then normal, then prefetch, oldest first within a lane', async () => {
+      const inFlight: (() => void)[] = [];
+      fetchMock.mockImplementation(
+        () => new Promise(resolve => inFlight.push(() => resolve(okResponse)))
+      );
+
+      // Kick sends three at a time; these hold every slot
+      ['/busy/1', '/busy/2', '/busy/3'].forEach(url => request(url));
+      const queued: [string, RequestPriority][] = [
+        ['/prefetch/1', 'prefetch'],
+        ['/normal/1', 'normal'],
+        ['/visible/1', 'visible'],
+        ['/prefetch/2', 'prefetch'],
+        ['/visible/2', 'visible'],
+      ];
+      queued.forEach(([url, priority]) => request(url, { priority }));
+      await jest.advanceTimersByTimeAsync(0);
+      expect(sentUrls()).toEqual(['/busy/1', '/busy/2', '/busy/3']);
+
+      // Each finished request frees a slot for the next in line
+      while (inFlight.length) {
+        inFlight.shift()();
+        await jest.advanceTimersByTimeAsync(0);
+      }
+
+      expect(sentUrls().slice(3)).toEqual([
+        '/visible/1',
+        '/visible/2',
+        '/normal/1',
+        '/prefetch/1',
+        '/prefetch/2',
+      ]);
+    });
+
+    it('moves a pending request up when a more urgent call shares it', async () => {
+      const inFlight: (() => void)[] = [];
+      fetchMock.mockImplementation(
+        () => new Promise(resolve => inFlight.push(() => resolve(okResponse)))
+      );
+
+      ['/busy/1', '/busy/2', '/busy/3'].forEach(url => request(url));
+      request('/normal', { priority: 'normal' });
+      request('/thumbnail', { priority: 'prefetch' });
+      request('/thumbnail', { priority: 'visible' });
+      await jest.advanceTimersByTimeAsync(0);
+
+      inFlight.shift()();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(sentUrls()[3]).toBe('/thumbnail');
+    });
+  });
+
+  describe('YouTube quota', () => {
+    const youtube = (url: string, cost: number, priority: RequestPriority = 'normal') =>
+      scheduler.schedule({ platform: 'youtube', key: url, cost, priority }, send => send(url));
+
+    beforeEach(() => {
+      process.env.EXPO_PUBLIC_YOUTUBE_DAILY_QUOTA = '300';
+      scheduler = createScheduler();
+    });
+
+    it('stops prefetching once the quota runs low and refuses everything once it is spent', async () => {
+      const levels: YouTubeQuotaUsage['level'][] = [];
+      scheduler.subscribeToQuota(usage => levels.push(usage.level));
+
+      await youtube('/search/1', 100);
+      await youtube('/search/2', 150);
+      expect(scheduler.getQuotaUsage()).toMatchObject({ used: 250, budget: 300, level: 'low' });
+
+      await expect(youtube('/search/3', 1, 'prefetch')).rejects.toMatchObject({
+        name: 'RequestSchedulerError',
+        code: 'quota-reserved',
+      });
+      await youtube('/videos/1', 40, 'visible');
+      expect(scheduler.getQuotaUsage().level).toBe('critical');
+
+      const refusal: RequestSchedulerError = await youtube('/videos/2', 20, 'visible').catch(
+        error => error
+      );
+      expect(refusal.code).toBe('quota-exhausted');
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+
+      scheduler.markQuotaExhausted();
+      expect(scheduler.getQuotaUsage()).toMatchObject({ used: 300, level: 'exhausted' });
+      expect(levels).toEqual(['low', 'critical', 'exhausted']);
+    });
+
+    it('starts a new budget at midnight Pacific', async () => {
+      scheduler.markQuotaExhausted();
+      await expect(youtube('/videos/1', 1)).rejects.toMatchObject({ code: 'quota-exhausted' });
+
+      jest.setSystemTime(NEXT_PACIFIC_DAY);
+      await expect(youtube('/videos/2', 1)).resolves.toBe(okResponse);
+      expect(scheduler.getQuotaUsage()).toMatchObject({
+        day: '2026-10-20',
+        used: 1,
+        level: 'ok',
+      });
+    });
+
+    it('carries usage saved earlier the same day over to a new session', async () => {
+      await youtube('/search/1', 100);
+      await jest.advanceTimersByTimeAsync(2000);
+
+      jest.setSystemTime(NOON_PACIFIC.getTime() + 60 * 60 * 1000);
+      const restarted = createScheduler();
+      await restarted.schedule({ platform: 'youtube', key: '/videos/1', cost: 1 }, send =>
+        send('/videos/1')
+      );
+      expect(restarted.getQuotaUsage().used).toBe(101);
+    });
+  });
+});
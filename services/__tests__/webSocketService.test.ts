@@ -0,0 +1,281 @@
+/**
+ * @jest-environment node
+ */
+import { AddressInfo, createServer, Server, Socket } from 'net';
+import { setTimeout as delay } from 'timers/promises';
+import { AppState, AppStateStatus } from 'react-native';
+import WebSocket, { WebSocketServer } from 'ws';
+import { WebSocketMessage, WebSocketService } from '../webSocketService';
+
+// Browsers never throw for an unhandled socket error; ws does
+class TestWebSocket extends WebSocket {
+  constructor(url: string) {
+    super(url);
+    this.on('error', () => {});
+  }
+}
+
+interface ServerConnection {
+  socket: WebSocket;
+  messages: WebSocketMessage<Record<string, unknown>>[];
+}
+
+interface TestServer {
+  url: string;
+  port: number;
+  connections: ServerConnection[];
+  close: () => Promise<void>;
+}
+
+const startServer = (port = 0): Promise<TestServer> =>
+  new Promise(resolve => {
+    const wss = new WebSocketServer({ host: '127.0.0.1', port });
+    const connections: ServerConnection[] = [];
+
+    wss.on('connection', socket => {
+      const connection: ServerConnection = { socket, messages: [] };
+      connections.push(connection);
+      socket.on('message', raw => connection.messages.push(JSON.parse(String(raw))));
+    });
+    wss.on('listening', () => {
+      const { port: boundPort } = wss.address() as AddressInfo;
+      resolve({
+        url: `ws://127.0.0.1:${boundPort}`,
+        port: boundPort,
+        connections,
+        close: () =>
+          new Promise<void>(done => {
+            wss.clients.forEach(client => client.terminate());
+            wss.close(() => done());
+          }),
+      });
+    });
+  });
+
+// Accepts TCP connections and never answers the WebSocket handshake
+const startSilentServer = (): Promise<{ url: string; close: () => Promise<void> }> =>
+  new Promise(resolve => {
+    const sockets: Socket[] = [];
+    const server: Server = createServer(socket => sockets.push(socket));
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `ws://127.0.0.1:${port}`,
+        close: () =>
+          new Promise<void>(done => {
+            sockets.forEach(socket => socket.destroy());
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+
+// Timers are fake, network I/O is real: poll on the real clock
+const waitFor = async (check: () => boolean, description: string): Promise<void> => {
+  for (let attempt = 0; attempt < 400; attempt++) {
+    if (check()) {
+      return;
+    }
+    await delay(5);
+  }
+  throw new Error(`Timed out waiting for ${description}`);
+};
+
+const messageTypes = (connection: ServerConnection) =>
+  connection.messages.map(message => message.type);
+
+describe('webSocketService', () => {
+  let server: TestServer;
+  let service: WebSocketService;
+  let appStateListener: ((state: AppStateStatus) => void) | null;
+
+  beforeAll(() => {
+    Object.assign(globalThis, { WebSocket: TestWebSocket });
+  });
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    // Midpoint jitter unless a test says otherwise
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    appStateListener = null;
+    jest.spyOn(AppState, 'addEventListener').mockImplementation((_type, listener) => {
+      appStateListener = listener;
+      return { remove: jest.fn() };
+    });
+
+    server = await startServer();
+    service = new WebSocketService(server.url);
+  });
+
+  afterEach(async () => {
+    service.disconnect();
+    await server.close();
+    jest.restoreAllMocks();
+  });
+
+  it('connects with the identity in the URL and sends enveloped messages', async () => {
+    await service.connect('user-1', 'Viewer');
+
+    expect(service.getConnectionState()).toBe('connected');
+    await service.sendMessage('chat_message', { text: 'hi' });
+    await waitFor(() => server.connections[0]?.messages.length === 1, 'the message');
+
+    const [message] = server.connections[0].messages;
+    expect(message.type).toBe('chat_message');
+    expect(message.data).toEqual({ text: 'hi' });
+    expect(typeof message.timestamp).toBe('string');
+  });
+
+  it('reconnects with exponential backoff, jitter and a 30s cap', async () => {
+    const { port } = server;
+    await server.close();
+    // Jitter at its low end, its high end, then the midpoint
+    const jitter = [0, 1, 0.5];
+    const random = Math.random as jest.Mock;
+    random.mockReturnValue(jitter[0]);
+    const delays: number[] = [];
+    service.on('reconnecting', ({ delay: wait }) => delays.push(wait));
+
+    await expect(service.connect('user-1')).rejects.toThrow('Could not connect');
+
+    // Half to all of min(1s * 2^attempt, 30s)
+    const expected = [500, 2000, 3000, 6000, 12000, 22500, 22500];
+    for (let attempt = 0; attempt < expected.length; attempt++) {
+      await waitFor(() => delays.length === attempt + 1, `reconnect attempt ${attempt + 1}`);
+      expect(delays[attempt]).toBe(expected[attempt]);
+      expect(service.getConnectionState()).toBe('reconnecting');
+      random.mockReturnValue(jitter[attempt + 1] ?? 0.5);
+      jest.advanceTimersByTime(delays[attempt]);
+    }
+
+    server = await startServer(port);
+    const reconnected = jest.fn();
+    service.on('reconnected', reconnected);
+    await waitFor(() => delays.length === expected.length + 1, 'the next attempt');
+    jest.advanceTimersByTime(delays[expected.length]);
+    await waitFor(() => service.isConnected(), 'the reconnect');
+    expect(reconnected).toHaveBeenCalledTimes(1);
+
+    // A successful connection starts the backoff over
+    server.connections[0].socket.terminate();
+    await waitFor(() => delays.length === expected.length + 2, 'the reconnect after a drop');
+    expect(delays[expected.length + 1]).toBe(750);
+  });
+
+  it('reconnects when a heartbeat goes unanswered', async () => {
+    const disconnected = jest.fn();
+    service.on('disconnected', disconnected);
+    await service.connect('user-1');
+
+    jest.advanceTimersByTime(25000);
+    await waitFor(() => messageTypes(server.connections[0]).includes('ping'), 'the heartbeat ping');
+    expect(service.isConnected()).toBe(true);
+
+    jest.advanceTimersByTime(10000);
+    expect(service.getConnectionState()).toBe('reconnecting');
+    expect(disconnected).toHaveBeenCalledWith({ code: 4000, reason: 'heartbeat timeout' });
+
+    jest.advanceTimersByTime(750);
+    await waitFor(() => server.connections.length === 2, 'the second connection');
+    await waitFor(() => service.isConnected(), 'the reconnect');
+  });
+
+  it('gives up on a connection attempt after 10s and retries', async () => {
+    const silent = await startSilentServer();
+    service = new WebSocketService(silent.url);
+    const attempts: number[] = [];
+    service.on('reconnecting', ({ attempt }) => attempts.push(attempt));
+
+    const connecting = service.connect('user-1');
+    expect(service.getConnectionState()).toBe('connecting');
+    jest.advanceTimersByTime(9999);
+    expect(attempts).toEqual([]);
+
+    jest.advanceTimersByTime(1);
+    await expect(connecting).rejects.toThrow('Could not connect');
+    expect(attempts).toEqual([1]);
+    expect(service.getConnectionState()).toBe('reconnecting');
+
+    service.disconnect();
+    await silent.close();
+  });
+
+  it('queues up to 100 messages while offline, drops volatile ones and flushes on reconnect', async () => {
+    await service.connect('user-1');
+    await service.joinRoom('room-a');
+    server.connections[0].socket.terminate();
+    await waitFor(() => service.getConnectionState() === 'reconnecting', 'the drop');
+
+    for (let index = 0; index < 150; index++) {
+      await service.sendMessage('chat_message', { index });
+    }
+    await service.sendMessage('typing_start', { roomId: 'room-a' });
+    await service.sendMessage('ping', {});
+
+    jest.advanceTimersByTime(750);
+    await waitFor(
+      () => server.connections[1]?.messages.length === 101,
+      'the rejoin and the flushed queue'
+    );
+
+    const [join, ...flushed] = server.connections[1].messages;
+    expect(join).toMatchObject({ type: 'join_room', data: { roomId: 'room-a' } });
+    expect(flushed.every(message => message.type === 'chat_message')).toBe(true);
+    // The oldest 50 made room for newer messages
+    expect(flushed.map(message => message.data.index)).toEqual(
+      Array.from({ length: 100 }, (_, index) => index + 50)
+    );
+
+    // Nothing is replayed twice
+    await service.sendMessage('chat_message', { index: 150 });
+    await waitFor(() => server.connections[1].messages.length === 102, 'a live message');
+  });
+
+  it('rejoins every room in join order after a reconnect', async () => {
+    await service.connect('user-1');
+    await service.joinRoom('room-a');
+    await service.joinRoom('room-b');
+    await service.joinRoom('room-c');
+    await service.leaveRoom('room-b');
+    await waitFor(() => server.connections[0].messages.length === 4, 'the room messages');
+    expect(service.getCurrentRoom()).toBe('room-c');
+
+    server.connections[0].socket.terminate();
+    await waitFor(() => service.getConnectionState() === 'reconnecting', 'the drop');
+    jest.advanceTimersByTime(750);
+    await waitFor(() => server.connections[1]?.messages.length === 2, 'the rejoins');
+
+    expect(server.connections[1].messages.map(message => message.data.roomId)).toEqual([
+      'room-a',
+      'room-c',
+    ]);
+    expect(messageTypes(server.connections[1])).toEqual(['join_room', 'join_room']);
+  });
+
+  it('suspends in the background and resumes when the app is active again', async () => {
+    await service.connect('user-1');
+    await service.joinRoom('room-a');
+    expect(appStateListener).not.toBeNull();
+
+    appStateListener!('background');
+    expect(service.getConnectionState()).toBe('suspended');
+    await waitFor(
+      () => server.connections[0].socket.readyState === WebSocket.CLOSED,
+      'the server to see the close'
+    );
+
+    // Passing through the app switcher doesn't wake it up
+    appStateListener!('inactive');
+    jest.advanceTimersByTime(60000);
+    expect(service.getConnectionState()).toBe('suspended');
+    expect(server.connections).toHaveLength(1);
+
+    // Sent while suspended, delivered after resuming
+    await service.sendMessage('chat_message', { text: 'later' });
+
+    appStateListener!('active');
+    await waitFor(() => service.isConnected(), 'the resume');
+    await waitFor(() => server.connections[1]?.messages.length === 2, 'the rejoin and queue');
+    expect(messageTypes(server.connections[1])).toEqual(['join_room', 'chat_message']);
+  });
+});
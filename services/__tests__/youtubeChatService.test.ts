@@ -0,0 +1,182 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ChatEvent, ChatMessage } from '@/types/chat';
+import { youtubeApi, YouTubeAPIError, YouTubeLiveChatMessageList } from '../youtubeApi';
+import { subscribeToYouTubeChat } from '../youtubeChatService';
+
+// The recordings scripts/mock-youtube-api.js serves
+const FIXTURES_DIR = join(__dirname, '..', '..', 'scripts', 'fixtures', 'youtube-live-chat');
+const CHAT_ID = 'Cg0KC2pmS2ZQZnlKUmRrKicKGFVDU0o0Z2tWQzZOcnZJSTh1bXp0ZjBPdxILamZLZlBmeUpSZGs';
+
+const readFixture = <T>(name: string): T =>
+  JSON.parse(readFileSync(join(FIXTURES_DIR, name), 'utf8'));
+
+const pages = ['messages-1.json', 'messages-2.json', 'messages-3.json'].map(name =>
+  readFixture<YouTubeLiveChatMessageList>(name)
+);
+
+const apiError = (name: string): YouTubeAPIError => {
+  const { error } = readFixture<{
+    error: { code: number; message: string; errors: { reason: string }[] };
+  }>(name);
+  return new YouTubeAPIError(error.message, error.code, error.errors[0]?.reason);
+};
+
+const messagesOf = (events: ChatEvent[]): ChatMessage[] =>
+  events.flatMap(event => (event.type === 'message' ? [event.message] : []));
+
+const statusesOf = (events: ChatEvent[]) =>
+  events.flatMap(event => (event.type === 'status' ? [event.status] : []));
+
+describe('youtubeChatService', () => {
+  let getLiveChatMessages: jest.SpyInstance;
+  let unsubscribe: (() => void) | null;
+  let events: ChatEvent[];
+
+  const subscribe = async (videoId: string) => {
+    unsubscribe = subscribeToYouTubeChat(videoId, event => events.push(event));
+    await jest.advanceTimersByTimeAsync(0);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    events = [];
+    unsubscribe = null;
+    jest.spyOn(youtubeApi, 'getLiveChatId').mockResolvedValue(CHAT_ID);
+    getLiveChatMessages = jest.spyOn(youtubeApi, 'getLiveChatMessages');
+  });
+
+  afterEach(() => {
+    unsubscribe?.();
+    jest.restoreAllMocks();
+  });
+
+  it('follows nextPageToken at the interval YouTube asks for until the stream goes offline', async () => {
+    pages.forEach(page => getLiveChatMessages.mockResolvedValueOnce(page));
+
+    await subscribe('video-pages');
+    expect(youtubeApi.getLiveChatId).toHaveBeenCalledWith('video-pages');
+    expect(getLiveChatMessages).toHaveBeenCalledTimes(1);
+    expect(getLiveChatMessages).toHaveBeenLastCalledWith(CHAT_ID, undefined);
+    expect(statusesOf(events)).toEqual(['connecting', 'connected']);
+    expect(messagesOf(events).map(message => message.id)).toEqual(
+      pages[0].items.map(item => item.id)
+    );
+
+    await jest.advanceTimersByTimeAsync(pages[0].pollingIntervalMillis - 1);
+    expect(getLiveChatMessages).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(getLiveChatMessages).toHaveBeenCalledTimes(2);
+    expect(getLiveChatMessages).toHaveBeenLastCalledWith(CHAT_ID, pages[0].nextPageToken);
+
+    // Super chats, memberships, deletions and bans; polls aren't shown
+    const secondPage = events.slice(events.length - 8);
+    expect(secondPage.map(event => event.type)).toEqual([
+      'message',
+      'message',
+      'message',
+      'message',
+      'message',
+      'message',
+      'clearmsg',
+      'clearchat',
+    ]);
+    expect(messagesOf(secondPage).map(message => message.type)).toContain('donation');
+
+    await jest.advanceTimersByTimeAsync(pages[1].pollingIntervalMillis);
+    expect(getLiveChatMessages).toHaveBeenCalledTimes(3);
+    expect(getLiveChatMessages).toHaveBeenLastCalledWith(CHAT_ID, pages[1].nextPageToken);
+
+    // The last page reports the stream offline
+    const messages = messagesOf(events);
+    expect(messages[messages.length - 1]).toMatchObject({
+      type: 'system',
+      message: 'The live stream has ended',
+    });
+    expect(statusesOf(events).pop()).toBe('disconnected');
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(getLiveChatMessages).toHaveBeenCalledTimes(3);
+  });
+
+  it('never polls faster than once a second', async () => {
+    getLiveChatMessages.mockResolvedValue({ ...pages[0], pollingIntervalMillis: 0 });
+
+    await subscribe('video-fast');
+    await jest.advanceTimersByTimeAsync(999);
+    expect(getLiveChatMessages).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(getLiveChatMessages).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops when a page carries chatEndedEvent', async () => {
+    const { offlineAt, ...lastPage } = pages[2];
+    expect(offlineAt).toBeDefined();
+    getLiveChatMessages.mockResolvedValue(lastPage);
+
+    await subscribe('video-chat-ended');
+    expect(statusesOf(events).pop()).toBe('disconnected');
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(getLiveChatMessages).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    ['liveChatEnded', () => apiError('error-chat-ended.json')],
+    [
+      'liveChatNotFound',
+      () => new YouTubeAPIError('The live chat was not found.', 404, 'liveChatNotFound'),
+    ],
+  ])('stops for good on %s', async (reason, error) => {
+    getLiveChatMessages.mockResolvedValueOnce(pages[0]).mockRejectedValue(error());
+
+    await subscribe(`video-${reason}`);
+    await jest.advanceTimersByTimeAsync(pages[0].pollingIntervalMillis);
+    expect(getLiveChatMessages).toHaveBeenCalledTimes(2);
+
+    const messages = messagesOf(events);
+    expect(messages[messages.length - 1]).toMatchObject({
+      type: 'system',
+      message: 'Live chat has ended',
+    });
+    expect(statusesOf(events).pop()).toBe('disconnected');
+
+    await jest.advanceTimersByTimeAsync(10 * 60 * 1000);
+    expect(getLiveChatMessages).toHaveBeenCalledTimes(2);
+  });
+
+  it('backs off for five minutes when the quota runs out', async () => {
+    getLiveChatMessages
+      .mockRejectedValueOnce(new YouTubeAPIError('Quota exceeded', 403, 'quotaExceeded'))
+      .mockResolvedValue(pages[0]);
+
+    await subscribe('video-quota');
+    expect(getLiveChatMessages).toHaveBeenCalledTimes(1);
+    expect(messagesOf(events)).toEqual([]);
+    expect(statusesOf(events).pop()).toBe('connecting');
+
+    await jest.advanceTimersByTimeAsync(5 * 60 * 1000 - 1);
+    expect(getLiveChatMessages).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(getLiveChatMessages).toHaveBeenCalledTimes(2);
+    // The retry starts from the page it couldn't fetch
+    expect(getLiveChatMessages).toHaveBeenLastCalledWith(CHAT_ID, undefined);
+    expect(messagesOf(events)).toHaveLength(pages[0].items.length);
+  });
+
+  it('retries other failures with exponential backoff', async () => {
+    getLiveChatMessages
+      .mockRejectedValueOnce(new YouTubeAPIError('Backend error', 500))
+      .mockRejectedValueOnce(new YouTubeAPIError('Backend error', 503))
+      .mockResolvedValue(pages[0]);
+
+    await subscribe('video-flaky');
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(getLiveChatMessages).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(3999);
+    expect(getLiveChatMessages).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(getLiveChatMessages).toHaveBeenCalledTimes(3);
+    expect(messagesOf(events)).toHaveLength(pages[0].items.length);
+  });
+});
@@ -930,14 +930,16 @@ class AnnotationsService extends EventEmitter {
     webSocketService.on('disconnected', this.handleDisconnected.bind(this));
   }
 
-  private handleAnnotationCreate(wsMessage: WebSocketMessage): void {
+  private handleAnnotationCreate(wsMessage: WebSocketMessage<StreamAnnotation>): void {
     const annotation: StreamAnnotation = wsMessage.data;
     this.annotations.set(annotation.id, annotation);
     this.updateAnalytics('create', annotation);
     this.emit('annotation_received', annotation);
   }
 
-  private handleAnnotationUpdate(wsMessage: WebSocketMessage): void {
+  private handleAnnotationUpdate(
+    wsMessage: WebSocketMessage<{ annotationId: string; updates: Partial<StreamAnnotation> }>
+  ): void {
     const { annotationId, updates } = wsMessage.data;
     const annotation = this.annotations.get(annotationId);
     
@@ -948,13 +950,15 @@ class AnnotationsService extends EventEmitter {
     }
   }
 
-  private handleAnnotationDelete(wsMessage: WebSocketMessage): void {
+  private handleAnnotationDelete(wsMessage: WebSocketMessage<{ annotationId: string }>): void {
     const { annotationId } = wsMessage.data;
     this.annotations.delete(annotationId);
     this.emit('annotation_deleted', { annotationId });
   }
 
-  private handleAnnotationInteract(wsMessage: WebSocketMessage): void {
+  private handleAnnotationInteract(
+    wsMessage: WebSocketMessage<{ annotationId: string; interaction: AnnotationInteraction }>
+  ): void {
     const { annotationId, interaction } = wsMessage.data;
     const annotation = this.annotations.get(annotationId);
     
@@ -966,7 +970,7 @@ class AnnotationsService extends EventEmitter {
     }
   }
 
-  private handleAnnotationAnalytics(wsMessage: WebSocketMessage): void {
+  private handleAnnotationAnalytics(wsMessage: WebSocketMessage<AnnotationAnalytics>): void {
     this.analytics = wsMessage.data;
     this.emit('annotation_analytics_updated', this.analytics);
   }
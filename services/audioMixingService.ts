@@ -1,6 +1,22 @@
-import { Audio } from 'expo-av';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
 
+const LOUDNESS_STORAGE_KEY = '@streamyyy_loudness';
+// Short-term loudness (EBU R128) is measured over 3s, in 100ms blocks
+const LOUDNESS_BLOCK_MS = 100;
+const SHORT_TERM_BLOCKS = 30;
+// Blocks quieter than this are silence and don't move the estimate
+const ABSOLUTE_GATE_LUFS = -70;
+// Normalization never boosts or cuts a stream by more than this
+const MAX_BOOST_DB = 12;
+const MAX_CUT_DB = 24;
+// Seconds the normalization gain takes to settle, so speech doesn't pump
+const GAIN_TIME_CONSTANT = 1.5;
+
+export const LOUDNESS_TARGETS = [-14, -18, -23];
+
+const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
 export interface AudioStream {
   id: string;
   streamId: string;
@@ -13,6 +29,12 @@ export interface AudioStream {
   bitrate: number;
   latency: number;
   status: 'loading' | 'playing' | 'paused' | 'error';
+  /** Per-stream override; false keeps the stream at its own level */
+  normalize: boolean;
+  /** Short-term loudness in LUFS, or null until measured */
+  loudness: number | null;
+  /** Gain normalization currently applies, in dB */
+  normalizationGain: number;
 }
 
 export interface AudioMixingSettings {
@@ -24,6 +46,12 @@ export interface AudioMixingSettings {
   audioCompressionEnabled: boolean;
   lowLatencyMode: boolean;
   backgroundAudioEnabled: boolean;
+  /** Gain-normalize measured streams to targetLoudness (web only) */
+  loudnessNormalization: boolean;
+  /** LUFS */
+  targetLoudness: number;
+  /** Keep the mixed output from clipping (web only) */
+  limiterEnabled: boolean;
 }
 
 export interface AudioVisualizationData {
@@ -31,6 +59,10 @@ export interface AudioVisualizationData {
   peak: number;
   rms: number;
   timestamp: number;
+  /** Short-term LUFS, when the stream is measured */
+  loudness?: number | null;
+  /** Normalization gain in dB */
+  gain?: number;
 }
 
 export type AudioMixingEventType = 
@@ -51,6 +83,18 @@ export interface AudioMixingEvent {
   timestamp: number;
 }
 
+// The nodes createStreamGraph builds for one stream
+interface StreamAudioGraph {
+  normalizationNode: GainNode;
+  gainNode: GainNode;
+  analyser: AnalyserNode;
+  meterNodes: BiquadFilterNode[];
+  meter: AnalyserNode;
+  meterBuffer: Float32Array<ArrayBuffer>;
+  /** Mean squares of the gated blocks in the short-term window */
+  blocks: number[];
+}
+
 class AudioMixingService {
   private streams: Map<string, AudioStream> = new Map();
   private activeStreamId: string | null = null;
@@ -63,6 +107,9 @@ class AudioMixingService {
     audioCompressionEnabled: true,
     lowLatencyMode: false,
     backgroundAudioEnabled: false,
+    loudnessNormalization: true,
+    targetLoudness: -18,
+    limiterEnabled: true,
   };
   
   private eventListeners: Map<AudioMixingEventType, ((event: AudioMixingEvent) => void)[]> = new Map();
@@ -70,6 +117,12 @@ class AudioMixingService {
   private visualizationTimer: NodeJS.Timeout | null = null;
   private audioContext: any = null; // Web Audio API context
   private audioNodes: Map<string, any> = new Map(); // Audio nodes for each stream
+  // Every stream's gain feeds this bus, which runs through the limiter
+  private outputBus: GainNode | null = null;
+  private limiter: DynamicsCompressorNode | null = null;
+  private loudnessTimer: NodeJS.Timeout | null = null;
+  // Streams whose normalization was turned off, kept across sessions
+  private normalizationDisabled: Set<string> = new Set();
   
   constructor() {
     this.initializeAudioSystem();
@@ -78,23 +131,13 @@ class AudioMixingService {
 
   private async initializeAudioSystem(): Promise<void> {
     try {
-      // Configure audio session for React Native
-      await Audio.setAudioModeAsync({
-        allowsRecordingIOS: false,
-        playsInSilentModeIOS: true,
-        staysActiveInBackground: this.settings.backgroundAudioEnabled,
-        interruptionModeIOS: Audio.INTERRUPTION_MODE_IOS_DO_NOT_MIX,
-        interruptionModeAndroid: Audio.INTERRUPTION_MODE_ANDROID_DO_NOT_MIX,
-        shouldDuckAndroid: false,
-        playThroughEarpieceAndroid: false,
-      });
-
-      // Initialize Web Audio API for advanced features (web platform)
+      // Streams play in their own players; the mixer only builds a graph on web
       if (Platform.OS === 'web' && typeof window !== 'undefined') {
         const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
         if (AudioContext) {
           this.audioContext = new AudioContext();
         }
+        await this.loadLoudnessSettings();
       }
     } catch (error) {
       console.error('Failed to initialize audio system:', error);
@@ -154,6 +197,9 @@ class AudioMixingService {
       bitrate: 128,
       latency: Math.random() * 100 + 50, // Simulated latency
       status: 'loading',
+      normalize: !this.normalizationDisabled.has(streamId),
+      loudness: null,
+      normalizationGain: 0,
     };
 
     this.streams.set(streamId, audioStream);
@@ -417,25 +463,28 @@ class AudioMixingService {
       const activeStream = this.getActiveStream();
       if (!activeStream || activeStream.isMuted) return;
 
-      // Generate mock visualization data
-      const levels = Array.from({ length: 10 }, () => Math.random() * (activeStream.volume || 0));
-      const peak = Math.max(...levels);
-      const rms = Math.sqrt(levels.reduce((sum, level) => sum + level * level, 0) / levels.length);
-
-      const visualizationData: AudioVisualizationData = {
-        levels,
-        peak,
-        rms,
-        timestamp: Date.now(),
-      };
-
-      this.emitEvent('visualizationData', activeStream.streamId, visualizationData);
+      const visualizationData = this.getVisualizationData(activeStream.streamId);
+      if (visualizationData) {
+        this.emitEvent('visualizationData', activeStream.streamId, visualizationData);
+      }
     }, 100);
   }
 
-  public getVisualizationData(): AudioVisualizationData | null {
-    const activeStream = this.getActiveStream();
-    if (!activeStream || activeStream.isMuted) return null;
+  /**
+   * Meter data for one stream, or the active one. Streams routed through Web
+   * Audio report what they are playing, before their volume is applied;
+   * a named stream that isn't routed has nothing to report, and the active
+   * one falls back to an estimate while unmuted.
+   */
+  public getVisualizationData(streamId?: string): AudioVisualizationData | null {
+    const activeStream = streamId ? this.streams.get(streamId) : this.getActiveStream();
+    if (!activeStream) return null;
+
+    const analyser = this.audioNodes.get(activeStream.streamId)?.analyser;
+    if (analyser) {
+      return this.readAnalyser(activeStream, analyser);
+    }
+    if (streamId || activeStream.isMuted) return null;
 
     // Return current visualization data
     const levels = Array.from({ length: 10 }, () => Math.random() * activeStream.volume);
@@ -450,10 +499,60 @@ class AudioMixingService {
     };
   }
 
+  /**
+   * Current loudness of one stream before its volume is applied, 0–1 RMS, or
+   * null when its audio isn't routed through Web Audio
+   */
+  public getStreamLevel(streamId: string): number | null {
+    const analyser = this.audioNodes.get(streamId)?.analyser;
+    if (!analyser) return null;
+
+    const samples = new Float32Array(analyser.fftSize);
+    analyser.getFloatTimeDomainData(samples);
+    const sumOfSquares = samples.reduce((sum, sample) => sum + sample * sample, 0);
+    return Math.min(1, Math.sqrt(sumOfSquares / samples.length));
+  }
+
+  /**
+   * Turn normalization off (or back on) for one stream, e.g. when its
+   * quiet commentary is meant to stay quiet
+   */
+  public setStreamNormalization(streamId: string, enabled: boolean): void {
+    if (enabled) {
+      this.normalizationDisabled.delete(streamId);
+    } else {
+      this.normalizationDisabled.add(streamId);
+    }
+
+    const stream = this.streams.get(streamId);
+    if (stream) {
+      stream.normalize = enabled;
+      this.updateNormalizationGain(streamId);
+      this.emitEvent('volumeChanged', streamId, { normalize: enabled });
+    }
+    this.saveLoudnessSettings();
+  }
+
   // Settings management
   public updateSettings(newSettings: Partial<AudioMixingSettings>): void {
     this.settings = { ...this.settings, ...newSettings };
 
+    if ('limiterEnabled' in newSettings) {
+      this.connectOutputBus();
+    }
+    if ('loudnessNormalization' in newSettings || 'targetLoudness' in newSettings) {
+      for (const streamId of this.audioNodes.keys()) {
+        this.updateNormalizationGain(streamId);
+      }
+    }
+    if (
+      'loudnessNormalization' in newSettings ||
+      'targetLoudness' in newSettings ||
+      'limiterEnabled' in newSettings
+    ) {
+      this.saveLoudnessSettings();
+    }
+
     // Apply settings changes
     if ('enableAudioVisualization' in newSettings) {
       if (newSettings.enableAudioVisualization) {
@@ -480,37 +579,218 @@ class AudioMixingService {
     try {
       const audio = new window.Audio(audioUri);
       const source = this.audioContext.createMediaElementSource(audio);
-      const gainNode = this.audioContext.createGain();
-      const analyser = this.audioContext.createAnalyser();
-
-      // Connect audio graph
-      source.connect(gainNode);
-      gainNode.connect(analyser);
-      analyser.connect(this.audioContext.destination);
-
-      // Configure analyser for visualization
-      analyser.fftSize = 256;
-      analyser.smoothingTimeConstant = 0.8;
-
-      this.audioNodes.set(streamId, {
-        audio,
-        source,
-        gainNode,
-        analyser,
-      });
-
+      this.audioNodes.set(streamId, { audio, source, ...this.createStreamGraph(source) });
+      this.startLoudnessMetering();
     } catch (error) {
       console.error('Failed to create audio node for stream:', streamId, error);
     }
   }
 
+  /**
+   * source → normalization → volume → output bus → limiter, with the
+   * analyser and the K-weighted loudness meter tapping the source so muted
+   * and ducked streams can still be measured
+   */
+  private createStreamGraph(source: AudioNode): StreamAudioGraph {
+    const normalizationNode = this.audioContext.createGain();
+    const gainNode = this.audioContext.createGain();
+    const analyser = this.audioContext.createAnalyser();
+
+    source.connect(normalizationNode);
+    normalizationNode.connect(gainNode);
+    gainNode.connect(this.getOutputBus());
+    source.connect(analyser);
+
+    // Configure analyser for visualization
+    analyser.fftSize = 256;
+    analyser.smoothingTimeConstant = 0.8;
+
+    // BS.1770 K-weighting, approximated with a high shelf and a high-pass
+    const shelf = this.audioContext.createBiquadFilter();
+    shelf.type = 'highshelf';
+    shelf.frequency.value = 1681;
+    shelf.gain.value = 4;
+    const highPass = this.audioContext.createBiquadFilter();
+    highPass.type = 'highpass';
+    highPass.frequency.value = 38;
+    highPass.Q.value = 0.5;
+    const meter = this.audioContext.createAnalyser();
+    meter.fftSize = 4096;
+    source.connect(shelf);
+    shelf.connect(highPass);
+    highPass.connect(meter);
+
+    return {
+      normalizationNode,
+      gainNode,
+      analyser,
+      meterNodes: [shelf, highPass],
+      meter,
+      meterBuffer: new Float32Array(meter.fftSize),
+      blocks: [],
+    };
+  }
+
+  private getOutputBus(): GainNode {
+    if (!this.outputBus) {
+      this.outputBus = this.audioContext.createGain();
+      // A brickwall-ish compressor: only peaks near full scale are touched
+      this.limiter = this.audioContext.createDynamicsCompressor();
+      this.limiter.threshold.value = -1;
+      this.limiter.knee.value = 0;
+      this.limiter.ratio.value = 20;
+      this.limiter.attack.value = 0.003;
+      this.limiter.release.value = 0.1;
+      this.limiter.connect(this.audioContext.destination);
+      this.connectOutputBus();
+    }
+    return this.outputBus;
+  }
+
+  private connectOutputBus(): void {
+    if (!this.outputBus) return;
+
+    this.outputBus.disconnect();
+    this.outputBus.connect(
+      this.settings.limiterEnabled ? this.limiter : this.audioContext.destination
+    );
+  }
+
+  private startLoudnessMetering(): void {
+    if (this.loudnessTimer) return;
+
+    this.loudnessTimer = setInterval(() => {
+      let metered = 0;
+      for (const [streamId, audioNode] of this.audioNodes) {
+        if (audioNode.meter) {
+          this.measureLoudness(streamId, audioNode);
+          metered++;
+        }
+      }
+      if (metered === 0 && this.loudnessTimer) {
+        clearInterval(this.loudnessTimer);
+        this.loudnessTimer = null;
+      }
+    }, LOUDNESS_BLOCK_MS);
+  }
+
+  private measureLoudness(streamId: string, audioNode: StreamAudioGraph): void {
+    const stream = this.streams.get(streamId);
+    if (!stream) return;
+
+    audioNode.meter.getFloatTimeDomainData(audioNode.meterBuffer);
+    const samples = audioNode.meterBuffer;
+    const meanSquare = samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length;
+    // The analyser hears a mono downmix; +3dB stands in for summing two channels
+    const blockLoudness = -0.691 + 10 * Math.log10(meanSquare || 1e-12) + 3.01;
+    if (blockLoudness < ABSOLUTE_GATE_LUFS) return;
+
+    audioNode.blocks.push(meanSquare);
+    if (audioNode.blocks.length > SHORT_TERM_BLOCKS) {
+      audioNode.blocks.shift();
+    }
+    const average =
+      audioNode.blocks.reduce((sum, block) => sum + block, 0) / audioNode.blocks.length;
+    stream.loudness = -0.691 + 10 * Math.log10(average) + 3.01;
+    this.updateNormalizationGain(streamId);
+  }
+
+  private updateNormalizationGain(streamId: string): void {
+    const stream = this.streams.get(streamId);
+    const normalizationNode = this.audioNodes.get(streamId)?.normalizationNode;
+    if (!stream || !normalizationNode) return;
+
+    let gainDb = 0;
+    if (this.settings.loudnessNormalization && stream.normalize && stream.loudness !== null) {
+      gainDb = Math.max(
+        -MAX_CUT_DB,
+        Math.min(MAX_BOOST_DB, this.settings.targetLoudness - stream.loudness)
+      );
+    }
+    stream.normalizationGain = gainDb;
+    normalizationNode.gain.setTargetAtTime(
+      dbToGain(gainDb),
+      this.audioContext.currentTime,
+      GAIN_TIME_CONSTANT
+    );
+  }
+
+  private readAnalyser(stream: AudioStream, analyser: AnalyserNode): AudioVisualizationData {
+    const frequencies = new Uint8Array(analyser.frequencyBinCount);
+    analyser.getByteFrequencyData(frequencies);
+    const bandSize = Math.floor(frequencies.length / 10);
+    const levels = Array.from({ length: 10 }, (_, band) => {
+      let sum = 0;
+      for (let i = band * bandSize; i < (band + 1) * bandSize; i++) {
+        sum += frequencies[i];
+      }
+      return sum / bandSize / 255;
+    });
+
+    const samples = new Float32Array(analyser.fftSize);
+    analyser.getFloatTimeDomainData(samples);
+    let peak = 0;
+    let sumOfSquares = 0;
+    samples.forEach(sample => {
+      peak = Math.max(peak, Math.abs(sample));
+      sumOfSquares += sample * sample;
+    });
+
+    return {
+      levels,
+      peak: Math.min(1, peak),
+      rms: Math.min(1, Math.sqrt(sumOfSquares / samples.length)),
+      timestamp: Date.now(),
+      loudness: stream.loudness,
+      gain: stream.normalizationGain,
+    };
+  }
+
+  private async loadLoudnessSettings(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(LOUDNESS_STORAGE_KEY);
+      if (!stored) return;
+
+      const { loudnessNormalization, targetLoudness, limiterEnabled, disabledStreams } =
+        JSON.parse(stored);
+      this.settings = {
+        ...this.settings,
+        loudnessNormalization: loudnessNormalization !== false,
+        targetLoudness: typeof targetLoudness === 'number' ? targetLoudness : -18,
+        limiterEnabled: limiterEnabled !== false,
+      };
+      this.normalizationDisabled = new Set(Array.isArray(disabledStreams) ? disabledStreams : []);
+      for (const [streamId, stream] of this.streams) {
+        stream.normalize = !this.normalizationDisabled.has(streamId);
+      }
+    } catch (error) {
+      console.warn('Failed to load loudness settings:', error);
+    }
+  }
+
+  private saveLoudnessSettings(): void {
+    const { loudnessNormalization, targetLoudness, limiterEnabled } = this.settings;
+    AsyncStorage.setItem(
+      LOUDNESS_STORAGE_KEY,
+      JSON.stringify({
+        loudnessNormalization,
+        targetLoudness,
+        limiterEnabled,
+        disabledStreams: Array.from(this.normalizationDisabled),
+      })
+    ).catch(error => console.warn('Failed to save loudness settings:', error));
+  }
+
   private cleanupAudioNode(streamId: string): void {
     const audioNode = this.audioNodes.get(streamId);
     if (audioNode) {
       try {
         audioNode.source?.disconnect();
+        audioNode.normalizationNode?.disconnect();
         audioNode.gainNode?.disconnect();
         audioNode.analyser?.disconnect();
+        audioNode.meterNodes?.forEach((node: AudioNode) => node.disconnect());
+        audioNode.meter?.disconnect();
         audioNode.audio?.pause();
       } catch (error) {
         console.warn('Error cleaning up audio node:', error);
@@ -544,6 +824,11 @@ class AudioMixingService {
       this.visualizationTimer = null;
     }
 
+    if (this.loudnessTimer) {
+      clearInterval(this.loudnessTimer);
+      this.loudnessTimer = null;
+    }
+
     // Cleanup audio nodes
     for (const streamId of this.audioNodes.keys()) {
       this.cleanupAudioNode(streamId);
@@ -553,6 +838,8 @@ class AudioMixingService {
     if (this.audioContext) {
       this.audioContext.close();
       this.audioContext = null;
+      this.outputBus = null;
+      this.limiter = null;
     }
 
     // Clear streams and listeners
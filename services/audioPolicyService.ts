@@ -0,0 +1,363 @@
+/**
+ * Audio policy
+ * Decides how loud every grid tile plays: one focused tile, the focused tile
+ * over ducked neighbours, a free mix, or focus that follows the loudest tile
+ * or the busiest chat. Levels are written to audioMixingService and read by
+ * the grid's players; the grid passes its streams in and listens for changes.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AudioPolicy, AudioPolicyMode, AutoFocusSignal } from '@/types/layout';
+import { Stream } from '@/types/stream';
+import { audioMixingService } from './audioMixingService';
+import { isChatSourceSupported, subscribeToChatSource } from './chatSources';
+import { platformRegistry } from './platformProviders';
+
+const STORAGE_KEY = '@streamyyy_audio_policy';
+const AUTO_FOCUS_INTERVAL_MS = 2000;
+// Auto focus waits this long after any switch, so it doesn't flap between tiles
+const AUTO_FOCUS_MIN_DWELL_MS = 10000;
+// A challenger needs to beat the focused tile by this much
+const AUTO_FOCUS_MARGIN = 0.25;
+// Chat activity is messages per stream over this window
+const CHAT_WINDOW_MS = 20000;
+// Below this RMS a tile counts as silent
+const SILENCE_LEVEL = 0.01;
+
+export const DEFAULT_AUDIO_POLICY: AudioPolicy = {
+  mode: 'single',
+  duckLevel: 0.2,
+  volumes: {},
+  autoSignal: 'loudness',
+};
+
+export const AUDIO_POLICY_MODES: AudioPolicyMode[] = ['single', 'duck', 'mix', 'auto'];
+
+export interface TileAudio {
+  /** 0–1, after the policy is applied */
+  volume: number;
+  muted: boolean;
+  hasFocus: boolean;
+}
+
+type PolicyListener = () => void;
+
+const clampVolume = (value: number): number => Math.max(0, Math.min(1, value));
+
+/**
+ * What one tile should play at under a policy. Pure, so the grid and the
+ * mixer always agree.
+ */
+export const getTileAudio = (
+  policy: AudioPolicy,
+  streamId: string,
+  focusedStreamId: string | null
+): TileAudio => {
+  const level = policy.volumes[streamId] ?? 1;
+  const hasFocus = streamId === focusedStreamId;
+
+  switch (policy.mode) {
+    case 'mix':
+      return { volume: level, muted: level === 0, hasFocus };
+    case 'duck':
+      if (hasFocus) {
+        return { volume: level, muted: level === 0, hasFocus };
+      }
+      return { volume: level * policy.duckLevel, muted: policy.duckLevel === 0, hasFocus };
+    default:
+      return { volume: level, muted: !hasFocus, hasFocus };
+  }
+};
+
+/**
+ * Fill in anything missing from a stored or shared policy
+ */
+export const normalizeAudioPolicy = (
+  value: Partial<AudioPolicy> | null | undefined
+): AudioPolicy => {
+  const volumes: Record<string, number> = {};
+  Object.entries(value?.volumes || {}).forEach(([streamId, volume]) => {
+    if (typeof volume === 'number' && isFinite(volume)) {
+      volumes[streamId] = clampVolume(volume);
+    }
+  });
+
+  let mode = DEFAULT_AUDIO_POLICY.mode;
+  if (value?.mode && AUDIO_POLICY_MODES.includes(value.mode)) {
+    mode = value.mode;
+  }
+  let duckLevel = DEFAULT_AUDIO_POLICY.duckLevel;
+  if (typeof value?.duckLevel === 'number' && isFinite(value.duckLevel)) {
+    duckLevel = clampVolume(value.duckLevel);
+  }
+
+  return {
+    mode,
+    duckLevel,
+    volumes,
+    autoSignal: value?.autoSignal === 'chat' ? 'chat' : 'loudness',
+  };
+};
+
+class AudioPolicyService {
+  private policy: AudioPolicy = DEFAULT_AUDIO_POLICY;
+  private focusedStreamId: string | null = null;
+  private streams: Stream[] = [];
+  private listeners = new Set<PolicyListener>();
+  private initialized: Promise<void> | null = null;
+
+  private autoTimer: ReturnType<typeof setInterval> | null = null;
+  private lastFocusChange = 0;
+  private chatUnsubscribers = new Map<string, () => void>();
+  private chatActivity = new Map<string, number[]>();
+
+  /**
+   * Restore the last policy used. Safe to call more than once.
+   */
+  initialize(): Promise<void> {
+    if (!this.initialized) {
+      this.initialized = AsyncStorage.getItem(STORAGE_KEY)
+        .then(stored => {
+          if (stored) {
+            this.policy = normalizeAudioPolicy(JSON.parse(stored));
+            this.apply();
+          }
+        })
+        .catch(error => console.error('❌ Failed to load audio policy:', error));
+    }
+    return this.initialized;
+  }
+
+  subscribe(listener: PolicyListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getPolicy(): AudioPolicy {
+    return this.policy;
+  }
+
+  getFocusedStreamId(): string | null {
+    return this.focusedStreamId;
+  }
+
+  getTileAudio(streamId: string): TileAudio {
+    return getTileAudio(this.policy, streamId, this.focusedStreamId);
+  }
+
+  /**
+   * The tile's own volume, before ducking
+   */
+  getTileVolume(streamId: string): number {
+    return this.policy.volumes[streamId] ?? 1;
+  }
+
+  /**
+   * The grid's streams, in order. New streams join the mixer; focus falls
+   * back to the first stream when nothing or a stream that left has it.
+   */
+  setStreams(streams: Stream[]): void {
+    const ids = new Set(streams.map(stream => stream.id));
+    this.streams.forEach(stream => {
+      if (!ids.has(stream.id)) {
+        audioMixingService.removeStream(stream.id);
+      }
+    });
+    this.streams = streams;
+
+    streams.forEach(stream => {
+      if (!audioMixingService.getStream(stream.id)) {
+        audioMixingService.addStream(stream.id, stream.displayName);
+      }
+    });
+
+    if (!this.focusedStreamId || !ids.has(this.focusedStreamId)) {
+      this.focusedStreamId = streams[0]?.id || null;
+    }
+
+    this.updateAutoFocus();
+    this.apply();
+  }
+
+  /**
+   * Replace the whole policy, e.g. when a saved layout is opened
+   */
+  setPolicy(policy: Partial<AudioPolicy>): void {
+    this.policy = normalizeAudioPolicy(policy);
+    this.updateAutoFocus();
+    this.apply();
+    this.persist();
+  }
+
+  setMode(mode: AudioPolicyMode): void {
+    this.setPolicy({ ...this.policy, mode });
+    console.log('🔄 Audio policy mode:', mode);
+  }
+
+  setDuckLevel(duckLevel: number): void {
+    this.setPolicy({ ...this.policy, duckLevel });
+  }
+
+  setAutoSignal(autoSignal: AutoFocusSignal): void {
+    this.setPolicy({ ...this.policy, autoSignal });
+  }
+
+  setTileVolume(streamId: string, volume: number): void {
+    this.setPolicy({
+      ...this.policy,
+      volumes: { ...this.policy.volumes, [streamId]: clampVolume(volume) },
+    });
+  }
+
+  /**
+   * Move the audio to a tile. In auto mode this holds until the next
+   * automatic switch is allowed.
+   */
+  focus(streamId: string | null): void {
+    if (streamId === this.focusedStreamId) {
+      return;
+    }
+
+    const previous = this.focusedStreamId;
+    this.focusedStreamId = streamId;
+    this.lastFocusChange = Date.now();
+
+    if (streamId && audioMixingService.getStream(streamId)) {
+      audioMixingService.switchActiveStream(previous, streamId);
+    }
+    this.apply();
+  }
+
+  private apply(): void {
+    // Single and auto play one stream at a time; the mixer handles the switch
+    const audioMode =
+      this.policy.mode === 'duck' || this.policy.mode === 'mix' ? 'mixed' : 'single';
+    if (audioMixingService.getSettings().audioMode !== audioMode) {
+      audioMixingService.updateSettings({ audioMode });
+    }
+
+    this.streams.forEach(stream => {
+      const tile = this.getTileAudio(stream.id);
+      audioMixingService.setStreamVolume(stream.id, tile.volume);
+      audioMixingService.setStreamMuted(stream.id, tile.muted);
+    });
+    this.listeners.forEach(listener => listener());
+  }
+
+  private persist(): void {
+    AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.policy)).catch(error =>
+      console.error('❌ Failed to save audio policy:', error)
+    );
+  }
+
+  // Auto focus only runs while it has something to choose between
+  private updateAutoFocus(): void {
+    const active = this.policy.mode === 'auto' && this.streams.length > 1;
+
+    if (!active) {
+      if (this.autoTimer) {
+        clearInterval(this.autoTimer);
+        this.autoTimer = null;
+      }
+      this.syncChatSubscriptions([]);
+      return;
+    }
+
+    // Chat is the fallback when no tile's audio can be measured, so follow it either way
+    this.syncChatSubscriptions(this.streams);
+    if (!this.autoTimer) {
+      this.autoTimer = setInterval(() => this.runAutoFocus(), AUTO_FOCUS_INTERVAL_MS);
+    }
+  }
+
+  private syncChatSubscriptions(streams: Stream[]): void {
+    const wanted = new Map<string, Stream>();
+    streams.forEach(stream => {
+      const source = platformRegistry.get(stream.platform)?.getChatSource(stream) || null;
+      if (isChatSourceSupported(source)) {
+        wanted.set(stream.id, stream);
+      }
+    });
+
+    this.chatUnsubscribers.forEach((unsubscribe, streamId) => {
+      if (!wanted.has(streamId)) {
+        unsubscribe();
+        this.chatUnsubscribers.delete(streamId);
+        this.chatActivity.delete(streamId);
+      }
+    });
+
+    wanted.forEach((stream, streamId) => {
+      if (this.chatUnsubscribers.has(streamId)) {
+        return;
+      }
+      const source = platformRegistry.get(stream.platform)!.getChatSource(stream)!;
+      this.chatUnsubscribers.set(
+        streamId,
+        subscribeToChatSource(source, event => {
+          if (event.type === 'message') {
+            const times = this.chatActivity.get(streamId) || [];
+            times.push(Date.now());
+            this.chatActivity.set(streamId, times);
+          }
+        })
+      );
+    });
+  }
+
+  private getChatRate(streamId: string, now: number): number {
+    const recent = (this.chatActivity.get(streamId) || []).filter(
+      time => now - time <= CHAT_WINDOW_MS
+    );
+    this.chatActivity.set(streamId, recent);
+    return recent.length;
+  }
+
+  private getScores(now: number): Map<string, number> {
+    const scores = new Map<string, number>();
+
+    if (this.policy.autoSignal === 'loudness') {
+      this.streams.forEach(stream => {
+        const level = audioMixingService.getStreamLevel(stream.id);
+        if (level !== null) {
+          scores.set(stream.id, level < SILENCE_LEVEL ? 0 : level);
+        }
+      });
+      // Only web-routed audio can be measured; everything else is judged by chat
+      if (scores.size > 0) {
+        return scores;
+      }
+    }
+
+    this.streams.forEach(stream => scores.set(stream.id, this.getChatRate(stream.id, now)));
+    return scores;
+  }
+
+  private runAutoFocus(): void {
+    const now = Date.now();
+    if (now - this.lastFocusChange < AUTO_FOCUS_MIN_DWELL_MS) {
+      return;
+    }
+
+    const scores = this.getScores(now);
+    let leader: string | null = null;
+    let best = 0;
+    scores.forEach((score, streamId) => {
+      if (score > best) {
+        best = score;
+        leader = streamId;
+      }
+    });
+
+    const current = this.focusedStreamId ? scores.get(this.focusedStreamId) || 0 : 0;
+    if (leader && leader !== this.focusedStreamId && best > current * (1 + AUTO_FOCUS_MARGIN)) {
+      console.log('🔄 Auto audio focus:', leader, `(${this.policy.autoSignal})`);
+      this.focus(leader);
+    }
+  }
+}
+
+export const audioPolicyService = new AudioPolicyService();
+export default audioPolicyService;
@@ -0,0 +1,57 @@
+/**
+ * Chat Sources
+ * Routes a provider's PlatformChatSource to the native chat client for its
+ * kind, so chat UI subscribes and sends without knowing the platform.
+ */
+
+import { ChatEvent } from '@/types/chat';
+import { emoteService } from './emoteService';
+import { subscribeToKickChat } from './kickChatService';
+import { PlatformChatSource } from './platformRegistry';
+import { sendTwitchChatMessage, subscribeToTwitchChat } from './twitchChatService';
+import { subscribeToYouTubeChat } from './youtubeChatService';
+
+const NATIVE_CHAT_KINDS: PlatformChatSource['kind'][] = [
+  'twitch-irc',
+  'youtube-live-chat',
+  'kick-pusher',
+];
+
+/**
+ * False for embed-only chat and platforms without a native client yet
+ */
+export const isChatSourceSupported = (
+  source: PlatformChatSource | null
+): source is PlatformChatSource => {
+  return !!source && NATIVE_CHAT_KINDS.includes(source.kind);
+};
+
+/**
+ * Subscribes to live chat events for the source. Unsupported sources emit
+ * nothing; the returned function always unsubscribes.
+ */
+export const subscribeToChatSource = (
+  source: PlatformChatSource,
+  listener: (event: ChatEvent) => void
+): (() => void) => {
+  switch (source.kind) {
+    case 'twitch-irc':
+      // 7TV/BTTV/FFZ emotes are keyed to Twitch channels
+      return subscribeToTwitchChat(source.channel, emoteService.decorateListener(listener));
+    case 'youtube-live-chat':
+      return subscribeToYouTubeChat(source.channel, listener);
+    case 'kick-pusher':
+      return subscribeToKickChat(source.channel, listener);
+    default:
+      return () => {};
+  }
+};
+
+export const sendChatMessage = async (source: PlatformChatSource, text: string): Promise<void> => {
+  switch (source.kind) {
+    case 'twitch-irc':
+      return sendTwitchChatMessage(source.channel, text);
+    default:
+      throw new Error('Sending is not supported for this chat');
+  }
+};
@@ -1,4 +1,12 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ChatEvent } from '@/types/chat';
 import { analyticsService } from './analyticsService';
+import { TwitchHelixError, twitchAuthService } from './twitchAuthService';
+import {
+  AutoModMessageHoldEvent,
+  AutoModMessageUpdateEvent,
+  subscribeToTwitchEvent,
+} from './twitchEventSubService';
 
 export interface ModerationRule {
   id: string;
@@ -171,9 +179,104 @@ export interface ModerationDashboard {
   }[];
 }
 
+/**
+ * Twitch channel a moderation action applies to: chat login plus user id
+ */
+export interface ChatModerationTarget {
+  channel: string;
+  broadcasterId: string;
+}
+
+export type ChatModAction =
+  | 'timeout'
+  | 'ban'
+  | 'unban'
+  | 'delete'
+  | 'clear'
+  | 'slow'
+  | 'emote_only'
+  | 'subs_only'
+  | 'followers_only'
+  | 'automod_approve'
+  | 'automod_deny';
+
+export interface ChatModLogEntry {
+  id: string;
+  channel: string;
+  action: ChatModAction;
+  targetLogin?: string;
+  /** e.g. "10m: spam" for a timeout or "30s" for slow mode */
+  detail?: string;
+  /** Moderator login; null for actions seen in chat whose moderator is unknown */
+  moderator: string | null;
+  timestamp: string;
+}
+
+/**
+ * Chat message AutoMod is holding for a moderator to approve or deny
+ */
+export interface HeldChatMessage {
+  id: string;
+  channel: string;
+  userId: string;
+  userLogin: string;
+  userName: string;
+  text: string;
+  /** AutoMod category and level, or the blocked term that matched */
+  reason: string;
+  heldAt: string;
+}
+
+export interface ChatSettingsUpdate {
+  /** Seconds between messages; 0 turns slow mode off */
+  slowMode?: number;
+  emoteOnly?: boolean;
+  subsOnly?: boolean;
+  /** Minutes a user must have followed; null turns followers-only off */
+  followersOnly?: number | null;
+}
+
+export type ChatModerationErrorCode =
+  | 'not-authenticated'
+  | 'missing-scope'
+  | 'forbidden'
+  | 'failed';
+
+/**
+ * A chat moderation action Twitch refused. `message` is written for the user.
+ */
+export class ChatModerationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ChatModerationErrorCode
+  ) {
+    super(message);
+    this.name = 'ChatModerationError';
+  }
+}
+
+const MOD_LOG_PREFIX = '@streamyyy_modlog_';
+const MOD_LOG_LIMIT = 200;
+// IRC echoes our own bans and deletions; skip them when logged within this window
+const MOD_LOG_ECHO_WINDOW_MS = 10000;
+
+const formatDuration = (seconds: number): string => {
+  const units: [number, string][] = [
+    [86400, 'd'],
+    [3600, 'h'],
+    [60, 'm'],
+  ];
+  const unit = units.find(([size]) => seconds % size === 0);
+  return unit ? `${seconds / unit[0]}${unit[1]}` : `${seconds}s`;
+};
+
 class ContentModerationService {
   private readonly baseUrl = process.env.EXPO_PUBLIC_API_BASE_URL || 'https://api.streammulti.com';
   private readonly aiApiKey = process.env.EXPO_PUBLIC_AI_API_KEY || '';
+  private modLogs = new Map<string, Promise<ChatModLogEntry[]>>();
+  private modLogListeners = new Map<string, Set<(entries: ChatModLogEntry[]) => void>>();
+  private heldMessages = new Map<string, HeldChatMessage[]>();
+  private heldListeners = new Map<string, Set<(messages: HeldChatMessage[]) => void>>();
 
   constructor() {
     console.log('Content Moderation Service initialized');
@@ -693,6 +796,421 @@ class ContentModerationService {
       throw error;
     }
   }
+
+  // Twitch Chat Moderation
+  // Actions run through Helix as the linked Twitch account, which must
+  // moderate the channel and have granted TWITCH_MODERATION_SCOPES.
+  async timeoutChatUser(
+    target: ChatModerationTarget,
+    user: { id: string; login: string },
+    durationSeconds: number,
+    reason?: string
+  ): Promise<void> {
+    console.log('🔄 Timing out chat user:', user.login, durationSeconds);
+    await this.helixModRequest(target, '/moderation/bans', 'moderator:manage:banned_users', {
+      method: 'POST',
+      body: JSON.stringify({ data: { user_id: user.id, duration: durationSeconds, reason } }),
+    });
+    const detail = reason
+      ? `${formatDuration(durationSeconds)}: ${reason}`
+      : formatDuration(durationSeconds);
+    this.logChatModAction(target.channel, 'timeout', user.login, detail);
+  }
+
+  async banChatUser(
+    target: ChatModerationTarget,
+    user: { id: string; login: string },
+    reason?: string
+  ): Promise<void> {
+    console.log('🔄 Banning chat user:', user.login);
+    await this.helixModRequest(target, '/moderation/bans', 'moderator:manage:banned_users', {
+      method: 'POST',
+      body: JSON.stringify({ data: { user_id: user.id, reason } }),
+    });
+    this.logChatModAction(target.channel, 'ban', user.login, reason);
+  }
+
+  /**
+   * Lifts a ban or an active timeout
+   */
+  async unbanChatUser(
+    target: ChatModerationTarget,
+    user: { id: string; login: string }
+  ): Promise<void> {
+    console.log('🔄 Unbanning chat user:', user.login);
+    await this.helixModRequest(
+      target,
+      `/moderation/bans?user_id=${encodeURIComponent(user.id)}`,
+      'moderator:manage:banned_users',
+      { method: 'DELETE' }
+    );
+    this.logChatModAction(target.channel, 'unban', user.login);
+  }
+
+  async deleteChatMessage(
+    target: ChatModerationTarget,
+    messageId: string,
+    login?: string
+  ): Promise<void> {
+    console.log('🔄 Deleting chat message:', messageId);
+    await this.helixModRequest(
+      target,
+      `/moderation/chat?message_id=${encodeURIComponent(messageId)}`,
+      'moderator:manage:chat_messages',
+      { method: 'DELETE' }
+    );
+    this.logChatModAction(target.channel, 'delete', login);
+  }
+
+  async clearChat(target: ChatModerationTarget): Promise<void> {
+    console.log('🔄 Clearing chat:', target.channel);
+    await this.helixModRequest(target, '/moderation/chat', 'moderator:manage:chat_messages', {
+      method: 'DELETE',
+    });
+    this.logChatModAction(target.channel, 'clear');
+  }
+
+  async updateChatSettings(
+    target: ChatModerationTarget,
+    settings: ChatSettingsUpdate
+  ): Promise<void> {
+    console.log('🔄 Updating chat settings:', target.channel, settings);
+
+    const body: Record<string, boolean | number> = {};
+    if (settings.slowMode !== undefined) {
+      body.slow_mode = settings.slowMode > 0;
+      if (settings.slowMode > 0) {
+        body.slow_mode_wait_time = settings.slowMode;
+      }
+    }
+    if (settings.emoteOnly !== undefined) {
+      body.emote_mode = settings.emoteOnly;
+    }
+    if (settings.subsOnly !== undefined) {
+      body.subscriber_mode = settings.subsOnly;
+    }
+    if (settings.followersOnly !== undefined) {
+      body.follower_mode = settings.followersOnly !== null;
+      if (settings.followersOnly !== null) {
+        body.follower_mode_duration = settings.followersOnly;
+      }
+    }
+
+    await this.helixModRequest(target, '/chat/settings', 'moderator:manage:chat_settings', {
+      method: 'PATCH',
+      body: JSON.stringify(body),
+    });
+
+    if (settings.slowMode !== undefined) {
+      this.logChatModAction(
+        target.channel,
+        'slow',
+        undefined,
+        settings.slowMode > 0 ? `${settings.slowMode}s` : 'off'
+      );
+    }
+    if (settings.emoteOnly !== undefined) {
+      this.logChatModAction(
+        target.channel,
+        'emote_only',
+        undefined,
+        settings.emoteOnly ? 'on' : 'off'
+      );
+    }
+    if (settings.subsOnly !== undefined) {
+      this.logChatModAction(
+        target.channel,
+        'subs_only',
+        undefined,
+        settings.subsOnly ? 'on' : 'off'
+      );
+    }
+    if (settings.followersOnly !== undefined) {
+      const detail = settings.followersOnly === null ? 'off' : `${settings.followersOnly}m`;
+      this.logChatModAction(target.channel, 'followers_only', undefined, detail);
+    }
+  }
+
+  /**
+   * Messages AutoMod holds in the channel, kept current over EventSub as
+   * they arrive and as any moderator resolves them.
+   */
+  subscribeToHeldMessages(
+    target: ChatModerationTarget,
+    listener: (messages: HeldChatMessage[]) => void,
+    onError?: (error: ChatModerationError) => void
+  ): () => void {
+    const session = twitchAuthService.getSession();
+    if (!session) {
+      onError?.(
+        new ChatModerationError('Sign in with Twitch to review held messages', 'not-authenticated')
+      );
+      return () => {};
+    }
+
+    const { broadcasterId } = target;
+    let listeners = this.heldListeners.get(broadcasterId);
+    if (!listeners) {
+      listeners = new Set();
+      this.heldListeners.set(broadcasterId, listeners);
+    }
+    listeners.add(listener);
+    listener(this.heldMessages.get(broadcasterId) || []);
+
+    const condition = { broadcaster_user_id: broadcasterId, moderator_user_id: session.userId };
+    const handleError = (error: TwitchHelixError) => onError?.(this.toChatModerationError(error));
+
+    const unsubscribeHold = subscribeToTwitchEvent<AutoModMessageHoldEvent>(
+      { type: 'automod.message.hold', version: '2', condition },
+      event => {
+        const held: HeldChatMessage = {
+          id: event.message_id,
+          channel: target.channel,
+          userId: event.user_id,
+          userLogin: event.user_login,
+          userName: event.user_name,
+          text: event.message?.text || '',
+          reason:
+            event.reason === 'blocked_term'
+              ? 'Blocked term'
+              : `${event.automod?.category || 'AutoMod'} (level ${event.automod?.level ?? '?'})`,
+          heldAt: event.held_at,
+        };
+        this.setHeldMessages(broadcasterId, [
+          ...(this.heldMessages.get(broadcasterId) || []),
+          held,
+        ]);
+      },
+      handleError
+    );
+
+    const unsubscribeUpdate = subscribeToTwitchEvent<AutoModMessageUpdateEvent>(
+      { type: 'automod.message.update', version: '2', condition },
+      event => {
+        this.setHeldMessages(
+          broadcasterId,
+          (this.heldMessages.get(broadcasterId) || []).filter(held => held.id !== event.message_id)
+        );
+        if (event.status === 'approved' || event.status === 'denied') {
+          this.logChatModAction(
+            target.channel,
+            event.status === 'approved' ? 'automod_approve' : 'automod_deny',
+            event.user_login,
+            undefined,
+            event.moderator_user_login
+          );
+        }
+      },
+      handleError
+    );
+
+    return () => {
+      unsubscribeHold();
+      unsubscribeUpdate();
+      listeners?.delete(listener);
+    };
+  }
+
+  async resolveHeldMessage(
+    target: ChatModerationTarget,
+    held: HeldChatMessage,
+    allow: boolean
+  ): Promise<void> {
+    console.log('🔄 Resolving held message:', held.id, allow ? 'ALLOW' : 'DENY');
+
+    const session = twitchAuthService.getSession();
+    if (!session) {
+      throw new ChatModerationError(
+        'Sign in with Twitch to review held messages',
+        'not-authenticated'
+      );
+    }
+    if (!session.scopes.includes('moderator:manage:automod')) {
+      throw new ChatModerationError(
+        'Grant moderator permissions to review held messages',
+        'missing-scope'
+      );
+    }
+
+    try {
+      await twitchAuthService.helixRequest('/moderation/automod/message', {
+        method: 'POST',
+        body: JSON.stringify({
+          user_id: session.userId,
+          msg_id: held.id,
+          action: allow ? 'ALLOW' : 'DENY',
+        }),
+      });
+    } catch (error) {
+      console.error('❌ Failed to resolve held message:', error);
+      throw this.toChatModerationError(error);
+    }
+
+    // The update event logs it too; drop the message right away so the queue feels instant
+    const broadcasterId = target.broadcasterId;
+    this.setHeldMessages(
+      broadcasterId,
+      (this.heldMessages.get(broadcasterId) || []).filter(message => message.id !== held.id)
+    );
+  }
+
+  /**
+   * Moderation log for a channel, newest first. Holds actions taken here and
+   * bans, timeouts and deletions by other moderators seen in chat.
+   */
+  getChatModLog(channel: string): Promise<ChatModLogEntry[]> {
+    let log = this.modLogs.get(channel);
+    if (!log) {
+      log = AsyncStorage.getItem(MOD_LOG_PREFIX + channel)
+        .then(stored => (stored ? (JSON.parse(stored) as ChatModLogEntry[]) : []))
+        .catch(error => {
+          console.error('❌ Failed to load mod log:', error);
+          return [];
+        });
+      this.modLogs.set(channel, log);
+    }
+    return log;
+  }
+
+  subscribeToChatModLog(
+    channel: string,
+    listener: (entries: ChatModLogEntry[]) => void
+  ): () => void {
+    let listeners = this.modLogListeners.get(channel);
+    if (!listeners) {
+      listeners = new Set();
+      this.modLogListeners.set(channel, listeners);
+    }
+    listeners.add(listener);
+    this.getChatModLog(channel).then(entries => {
+      if (listeners?.has(listener)) {
+        listener(entries);
+      }
+    });
+
+    return () => {
+      listeners?.delete(listener);
+    };
+  }
+
+  /**
+   * Logs moderation visible in chat (bans, timeouts, clears, deletions),
+   * skipping the echo of actions this app just took.
+   */
+  recordChatModEvent(channel: string, event: ChatEvent): void {
+    if (event.type === 'clearchat') {
+      if (!event.login) {
+        this.logChatModAction(channel, 'clear', undefined, undefined, null);
+      } else if (event.duration) {
+        this.logChatModAction(
+          channel,
+          'timeout',
+          event.login,
+          formatDuration(event.duration),
+          null
+        );
+      } else {
+        this.logChatModAction(channel, 'ban', event.login, undefined, null);
+      }
+    } else if (event.type === 'clearmsg') {
+      this.logChatModAction(channel, 'delete', undefined, undefined, null);
+    }
+  }
+
+  private logChatModAction(
+    channel: string,
+    action: ChatModAction,
+    targetLogin?: string,
+    detail?: string,
+    moderator: string | null = twitchAuthService.getSession()?.login || null
+  ): void {
+    const entry: ChatModLogEntry = {
+      id: `${channel}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      channel,
+      action,
+      targetLogin,
+      detail,
+      moderator,
+      timestamp: new Date().toISOString(),
+    };
+
+    const log = this.getChatModLog(channel).then(entries => {
+      const isEcho =
+        moderator === null &&
+        entries.some(
+          existing =>
+            existing.action === action &&
+            existing.targetLogin === targetLogin &&
+            Date.now() - new Date(existing.timestamp).getTime() < MOD_LOG_ECHO_WINDOW_MS
+        );
+      if (isEcho) {
+        return entries;
+      }
+
+      const updated = [entry, ...entries].slice(0, MOD_LOG_LIMIT);
+      AsyncStorage.setItem(MOD_LOG_PREFIX + channel, JSON.stringify(updated)).catch(error =>
+        console.error('❌ Failed to save mod log:', error)
+      );
+      this.modLogListeners.get(channel)?.forEach(listener => listener(updated));
+      return updated;
+    });
+    this.modLogs.set(channel, log);
+  }
+
+  private setHeldMessages(broadcasterId: string, messages: HeldChatMessage[]): void {
+    this.heldMessages.set(broadcasterId, messages);
+    this.heldListeners.get(broadcasterId)?.forEach(listener => listener(messages));
+  }
+
+  private async helixModRequest(
+    target: ChatModerationTarget,
+    path: string,
+    scope: string,
+    init: RequestInit
+  ): Promise<void> {
+    const session = twitchAuthService.getSession();
+    if (!session) {
+      throw new ChatModerationError('Sign in with Twitch to moderate chat', 'not-authenticated');
+    }
+    if (!session.scopes.includes(scope)) {
+      throw new ChatModerationError(
+        'Grant moderator permissions to use mod tools',
+        'missing-scope'
+      );
+    }
+
+    const separator = path.includes('?') ? '&' : '?';
+    const query = `broadcaster_id=${target.broadcasterId}&moderator_id=${session.userId}`;
+
+    try {
+      await twitchAuthService.helixRequest(`${path}${separator}${query}`, init);
+    } catch (error) {
+      console.error('❌ Chat moderation request failed:', error);
+      throw this.toChatModerationError(error);
+    }
+  }
+
+  private toChatModerationError(error: unknown): ChatModerationError {
+    if (!(error instanceof TwitchHelixError)) {
+      return new ChatModerationError('Could not reach Twitch. Try again.', 'failed');
+    }
+    if (/scope/i.test(error.message)) {
+      return new ChatModerationError(
+        'Grant moderator permissions to use mod tools',
+        'missing-scope'
+      );
+    }
+    if (error.status === 401) {
+      return new ChatModerationError(
+        'Sign in with Twitch again to moderate chat',
+        'not-authenticated'
+      );
+    }
+    if (error.status === 403) {
+      return new ChatModerationError("You're not a moderator in this channel", 'forbidden');
+    }
+    return new ChatModerationError(error.message, 'failed');
+  }
 }
 
 export const contentModerationService = new ContentModerationService();
@@ -0,0 +1,139 @@
+import { PlaybackSource, Stream } from '@/types/stream';
+import { PlatformProvider, ResolvedChannel } from './platformRegistry';
+import { createStreamId } from './streamAdapters';
+import { normalizeHttpUrl, probeStreamUrl } from './streamProbe';
+
+declare module '@/types/stream' {
+  interface StreamPlatformIds {
+    custom: true;
+  }
+}
+
+const MEDIA_URL_PATTERN = /^https?:\/\/\S+\.(m3u8|mp4|m4v|mov)(\?|#|$)/i;
+
+// Stable id so adding the same URL twice is caught as a duplicate
+const hashUrl = (url: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < url.length; i++) {
+    hash = ((hash << 5) + hash + url.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const describeUrl = (url: string): { host: string; name: string } => {
+  try {
+    const { host, pathname } = new URL(url);
+    const segments = pathname.split('/').filter(Boolean);
+    const file = segments[segments.length - 1] || host;
+    return { host, name: file.replace(/\.(m3u8|mp4|m4v|mov)$/i, '') };
+  } catch {
+    return { host: url, name: url };
+  }
+};
+
+/**
+ * Builds a grid stream for a probed media URL.
+ */
+export function createCustomStream(playback: PlaybackSource, title?: string): Stream {
+  const sourceId = hashUrl(playback.url);
+  const { host, name } = describeUrl(playback.url);
+
+  return {
+    id: createStreamId('custom', sourceId),
+    sourceId,
+    channelId: host,
+    username: host,
+    displayName: title || name,
+    title: title || `${name} (${host})`,
+    platform: 'custom',
+    thumbnailUrl: '',
+    viewerCount: 0,
+    isLive: playback.isLive,
+    category: playback.isLive ? 'Live' : 'Video',
+    embedUrl: playback.url,
+    profileImageUrl: '',
+    startedAt: new Date().toISOString(),
+    playback,
+  };
+}
+
+/**
+ * Self-hosted and internal streams added by URL: HLS playlists (Owncast,
+ * RTMP-to-HLS relays, event feeds) and plain MP4 files. They are never
+ * discovered or searched, only resolved from a pasted URL.
+ */
+export const customStreamProvider: PlatformProvider = {
+  id: 'custom',
+  displayName: 'Custom URL',
+  color: '#0EA5E9',
+  icon: '🔗',
+  baseUrl: '',
+  capabilities: {
+    discovery: false,
+    search: false,
+    chat: false,
+    clips: false,
+    vods: false,
+    categories: false,
+  },
+
+  async discover(): Promise<Stream[]> {
+    return [];
+  },
+
+  async search(): Promise<Stream[]> {
+    return [];
+  },
+
+  async resolveChannel(input: string): Promise<ResolvedChannel | null> {
+    if (!normalizeHttpUrl(input)) {
+      return null;
+    }
+
+    const stream = createCustomStream(await probeStreamUrl(input));
+
+    return {
+      platform: 'custom',
+      channelId: stream.channelId,
+      username: stream.username,
+      displayName: stream.displayName,
+      profileImageUrl: '',
+      isLive: stream.isLive,
+      stream,
+    };
+  },
+
+  matchesUrl(url: string): boolean {
+    return MEDIA_URL_PATTERN.test(url.trim());
+  },
+
+  getEmbedUrl(stream: Stream): string {
+    return stream.playback?.url || stream.embedUrl;
+  },
+
+  getChannelUrl(stream: Stream): string {
+    return stream.playback?.url || stream.embedUrl;
+  },
+
+  getChatSource() {
+    return null;
+  },
+
+  getPlaybackSource(stream: Stream): PlaybackSource | null {
+    if (stream.playback) {
+      return stream.playback;
+    }
+
+    // Streams saved before probing only have the URL; let the player sort it out
+    const url = stream.embedUrl && normalizeHttpUrl(stream.embedUrl);
+    if (!url) {
+      return null;
+    }
+    return {
+      type: /\.(mp4|m4v|mov)(\?|#|$)/i.test(url) ? 'mp4' : 'hls',
+      url,
+      isLive: stream.isLive,
+      variants: [],
+    };
+  },
+};
@@ -25,6 +25,24 @@ export interface UserStreamLayout {
   updated_at: string;
 }
 
+export interface StreamView {
+  id: string;
+  user_id: string;
+  stream_id: string;
+  stream_name: string;
+  duration_seconds: number;
+  viewed_at: string;
+  platform: string | null;
+  title: string | null;
+  category: string | null;
+  thumbnail_url: string | null;
+}
+
+export type StreamViewDetails = Pick<
+  StreamView,
+  'platform' | 'title' | 'category' | 'thumbnail_url'
+>;
+
 export interface UserSubscription {
   id: string;
   user_id: string;
@@ -395,19 +413,119 @@ class DatabaseService {
   }
 
   // Analytics and Usage
-  async recordStreamView(userId: string, streamId: string, streamName: string, duration: number): Promise<void> {
+  async recordStreamView(
+    userId: string,
+    streamId: string,
+    streamName: string,
+    duration: number,
+    details?: Partial<StreamViewDetails>,
+    viewedAt: string = new Date().toISOString()
+  ): Promise<string | null> {
     try {
-      await supabase
+      const { data, error } = await supabase
         .from('stream_views')
         .insert({
           user_id: userId,
           stream_id: streamId,
           stream_name: streamName,
           duration_seconds: duration,
-          viewed_at: new Date().toISOString(),
-        });
+          viewed_at: viewedAt,
+          ...details,
+        })
+        .select('id')
+        .single();
+
+      if (error) {
+        console.error('Error recording stream view:', error);
+        return null;
+      }
+
+      return data.id;
     } catch (error) {
       console.error('Error recording stream view:', error);
+      return null;
+    }
+  }
+
+  async updateStreamView(
+    userId: string,
+    viewId: string,
+    duration: number,
+    viewedAt: string
+  ): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('stream_views')
+        .update({ duration_seconds: duration, viewed_at: viewedAt })
+        .eq('user_id', userId)
+        .eq('id', viewId);
+
+      if (error) {
+        console.error('Error updating stream view:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error updating stream view:', error);
+      return false;
+    }
+  }
+
+  async getStreamViews(userId: string, limit = 100): Promise<StreamView[] | null> {
+    try {
+      const { data, error } = await supabase
+        .from('stream_views')
+        .select('*')
+        .eq('user_id', userId)
+        .order('viewed_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching stream views:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error fetching stream views:', error);
+      return null;
+    }
+  }
+
+  async deleteStreamView(userId: string, viewId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('stream_views')
+        .delete()
+        .eq('user_id', userId)
+        .eq('id', viewId);
+
+      if (error) {
+        console.error('Error deleting stream view:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting stream view:', error);
+      return false;
+    }
+  }
+
+  async clearStreamViews(userId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase.from('stream_views').delete().eq('user_id', userId);
+
+      if (error) {
+        console.error('Error clearing stream views:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error clearing stream views:', error);
+      return false;
     }
   }
 
@@ -0,0 +1,428 @@
+/**
+ * Emote Service
+ * Third-party emotes from 7TV, BetterTTV and FrankerFaceZ for Twitch chat.
+ * Global and per-channel sets are merged into one name -> emote index per
+ * channel, cached in memory and on disk, and applied to incoming messages
+ * on top of the native Twitch emotes from IRC tags.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ChatEmote, ChatEvent, ChatFragment, EmoteProviderId } from '@/types/chat';
+
+const CACHE_PREFIX = '@streamyyy_emotes_';
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+const GLOBAL_KEY = 'global';
+
+// BTTV marks overlay emotes by name rather than with a flag
+const BTTV_ZERO_WIDTH = new Set([
+  'SoSnowy',
+  'IceCold',
+  'SantaHat',
+  'TopHat',
+  'ReinDeer',
+  'CandyCane',
+  'cvMask',
+  'cvHazmat',
+]);
+
+// 7TV active emote flag for zero-width emotes
+const SEVENTV_ZERO_WIDTH_FLAG = 1;
+
+/**
+ * Source of third-party emotes. Swap providers with `setProviders` to run
+ * against fixtures instead of the network.
+ */
+export interface EmoteProvider {
+  id: EmoteProviderId;
+  fetchGlobalEmotes(): Promise<ChatEmote[]>;
+  /** Emotes of a Twitch channel by user id; empty when it has none */
+  fetchChannelEmotes(twitchUserId: string): Promise<ChatEmote[]>;
+}
+
+export interface EmoteIndex {
+  /** Twitch user id, or null for the global-only index */
+  channelId: string | null;
+  emotes: Map<string, ChatEmote>;
+}
+
+interface CachedEmotes {
+  fetchedAt: number;
+  emotes: ChatEmote[];
+}
+
+// Provider responses, reduced to the fields read here
+
+interface SevenTVEmote {
+  id: string;
+  name: string;
+  flags: number;
+  data?: { animated?: boolean; host?: { url: string } };
+}
+
+interface SevenTVEmoteSet {
+  emotes?: SevenTVEmote[];
+}
+
+interface SevenTVUser {
+  emote_set?: SevenTVEmoteSet | null;
+}
+
+interface BTTVEmote {
+  id: string;
+  code: string;
+  imageType?: string;
+  animated?: boolean;
+}
+
+interface BTTVUser {
+  channelEmotes?: BTTVEmote[];
+  sharedEmotes?: BTTVEmote[];
+}
+
+interface FFZEmote {
+  id: number;
+  name: string;
+  /** Image URLs by scale ("1", "2", "4") */
+  urls: Record<string, string>;
+  animated?: Record<string, string> | null;
+  modifier?: boolean;
+}
+
+interface FFZEmoteSet {
+  emoticons?: FFZEmote[];
+}
+
+interface FFZSets {
+  sets?: Record<string, FFZEmoteSet>;
+}
+
+interface FFZGlobalSets extends FFZSets {
+  default_sets?: number[];
+}
+
+const fetchJson = async <T>(url: string): Promise<T | null> => {
+  const response = await fetch(url);
+  // Channels without an account on the provider answer 404
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Emote request failed: ${response.status} ${url}`);
+  }
+  return response.json();
+};
+
+const fromSevenTV = (emotes: SevenTVEmote[] = [], isChannelEmote: boolean): ChatEmote[] =>
+  emotes
+    .filter(emote => emote?.data?.host?.url)
+    .map(emote => ({
+      id: emote.id,
+      name: emote.name,
+      provider: '7tv' as const,
+      url: `https:${emote.data.host.url}/2x.webp`,
+      animated: !!emote.data.animated,
+      zeroWidth: (emote.flags & SEVENTV_ZERO_WIDTH_FLAG) !== 0,
+      isChannelEmote,
+    }));
+
+const fromBTTV = (emotes: BTTVEmote[] = [], isChannelEmote: boolean): ChatEmote[] =>
+  emotes.map(emote => ({
+    id: emote.id,
+    name: emote.code,
+    provider: 'bttv' as const,
+    url: `https://cdn.betterttv.net/emote/${emote.id}/2x.webp`,
+    animated: !!emote.animated || emote.imageType === 'gif',
+    zeroWidth: BTTV_ZERO_WIDTH.has(emote.code),
+    isChannelEmote,
+  }));
+
+const fromFFZ = (sets: Record<string, FFZEmoteSet> = {}, isChannelEmote: boolean): ChatEmote[] =>
+  Object.values(sets).flatMap(set =>
+    (set?.emoticons || []).map(emote => {
+      const url =
+        emote.animated?.['2'] || emote.animated?.['1'] || emote.urls['2'] || emote.urls['1'];
+      return {
+        id: String(emote.id),
+        name: emote.name,
+        provider: 'ffz' as const,
+        url: url.startsWith('//') ? `https:${url}` : url,
+        animated: !!emote.animated,
+        zeroWidth: !!emote.modifier,
+        isChannelEmote,
+      };
+    })
+  );
+
+export const sevenTVProvider: EmoteProvider = {
+  id: '7tv',
+
+  async fetchGlobalEmotes() {
+    const set = await fetchJson<SevenTVEmoteSet>('https://7tv.io/v3/emote-sets/global');
+    return fromSevenTV(set?.emotes, false);
+  },
+
+  async fetchChannelEmotes(twitchUserId: string) {
+    const user = await fetchJson<SevenTVUser>(`https://7tv.io/v3/users/twitch/${twitchUserId}`);
+    return fromSevenTV(user?.emote_set?.emotes, true);
+  },
+};
+
+export const bttvProvider: EmoteProvider = {
+  id: 'bttv',
+
+  async fetchGlobalEmotes() {
+    const emotes = await fetchJson<BTTVEmote[]>('https://api.betterttv.net/3/cached/emotes/global');
+    return fromBTTV(emotes || [], false);
+  },
+
+  async fetchChannelEmotes(twitchUserId: string) {
+    const user = await fetchJson<BTTVUser>(
+      `https://api.betterttv.net/3/cached/users/twitch/${twitchUserId}`
+    );
+    return fromBTTV([...(user?.channelEmotes || []), ...(user?.sharedEmotes || [])], true);
+  },
+};
+
+export const ffzProvider: EmoteProvider = {
+  id: 'ffz',
+
+  async fetchGlobalEmotes() {
+    const response = await fetchJson<FFZGlobalSets>('https://api.frankerfacez.com/v1/set/global');
+    const defaultSets: number[] = response?.default_sets || [];
+    const sets = Object.fromEntries(
+      Object.entries(response?.sets || {}).filter(([id]) => defaultSets.includes(Number(id)))
+    );
+    return fromFFZ(sets, false);
+  },
+
+  async fetchChannelEmotes(twitchUserId: string) {
+    const response = await fetchJson<FFZSets>(
+      `https://api.frankerfacez.com/v1/room/id/${twitchUserId}`
+    );
+    return fromFFZ(response?.sets, true);
+  },
+};
+
+/**
+ * Replaces words that name a known emote with emote fragments. Native
+ * Twitch emote fragments are kept as they are.
+ */
+export const applyEmoteIndex = (fragments: ChatFragment[], index: EmoteIndex): ChatFragment[] => {
+  if (index.emotes.size === 0) {
+    return fragments;
+  }
+
+  const result: ChatFragment[] = [];
+  const pushText = (text: string) => {
+    const last = result[result.length - 1];
+    if (last?.type === 'text') {
+      result[result.length - 1] = { type: 'text', text: last.text + text };
+    } else if (text) {
+      result.push({ type: 'text', text });
+    }
+  };
+
+  fragments.forEach(fragment => {
+    if (fragment.type !== 'text') {
+      result.push(fragment);
+      return;
+    }
+
+    fragment.text.split(/(\s+)/).forEach(word => {
+      const emote = index.emotes.get(word);
+      if (!emote) {
+        pushText(word);
+        return;
+      }
+      result.push({
+        type: 'emote',
+        text: emote.name,
+        id: emote.id,
+        url: emote.url,
+        provider: emote.provider,
+        animated: emote.animated,
+        zeroWidth: emote.zeroWidth,
+      });
+    });
+  });
+
+  return result;
+};
+
+class EmoteService {
+  private providers: EmoteProvider[] = [sevenTVProvider, bttvProvider, ffzProvider];
+  private sets = new Map<string, Promise<ChatEmote[]>>();
+  private indexes = new Map<string, Promise<EmoteIndex>>();
+
+  /**
+   * Replaces the emote sources, e.g. with fixture-backed providers in tests,
+   * and drops everything cached in memory.
+   */
+  setProviders(providers: EmoteProvider[]): void {
+    this.providers = providers;
+    this.clearCache();
+  }
+
+  clearCache(): void {
+    this.sets.clear();
+    this.indexes.clear();
+  }
+
+  /**
+   * Emote index for a Twitch channel; pass null for global emotes only.
+   * Channel emotes win over globals with the same name, and 7TV over BTTV
+   * over FFZ within each group.
+   */
+  getIndex(channelId: string | null): Promise<EmoteIndex> {
+    const key = channelId || GLOBAL_KEY;
+    let index = this.indexes.get(key);
+
+    if (!index) {
+      index = Promise.all([
+        this.getSet(GLOBAL_KEY),
+        channelId ? this.getSet(channelId) : Promise.resolve([]),
+      ]).then(([globalEmotes, channelEmotes]) => {
+        const emotes = new Map<string, ChatEmote>();
+        [...globalEmotes, ...channelEmotes].forEach(emote => {
+          const current = emotes.get(emote.name);
+          if (!current || this.outranks(emote, current)) {
+            emotes.set(emote.name, emote);
+          }
+        });
+        return { channelId, emotes };
+      });
+      this.indexes.set(key, index);
+    }
+
+    return index;
+  }
+
+  /**
+   * All emotes usable in the channel, channel sets first, for the picker
+   */
+  async getEmotes(channelId: string | null): Promise<ChatEmote[]> {
+    const index = await this.getIndex(channelId);
+    return Array.from(index.emotes.values()).sort(
+      (a, b) => Number(b.isChannelEmote) - Number(a.isChannelEmote) || a.name.localeCompare(b.name)
+    );
+  }
+
+  /**
+   * Wraps a chat listener so message fragments gain third-party emotes once
+   * the channel's index has loaded. The channel comes from roomstate events.
+   */
+  decorateListener(listener: (event: ChatEvent) => void): (event: ChatEvent) => void {
+    let index: EmoteIndex | null = null;
+    let channelId: string | null = null;
+
+    this.getIndex(null)
+      .then(globalIndex => {
+        index = index || globalIndex;
+      })
+      .catch(() => {});
+
+    return event => {
+      if (event.type === 'roomstate' && event.channelId && event.channelId !== channelId) {
+        channelId = event.channelId;
+        const requested = channelId;
+        this.getIndex(requested)
+          .then(channelIndex => {
+            if (channelId === requested) {
+              index = channelIndex;
+            }
+          })
+          .catch(() => {});
+      }
+
+      if (event.type === 'message' && index) {
+        listener({
+          ...event,
+          message: { ...event.message, fragments: applyEmoteIndex(event.message.fragments, index) },
+        });
+        return;
+      }
+
+      listener(event);
+    };
+  }
+
+  private outranks(candidate: ChatEmote, current: ChatEmote): boolean {
+    if (candidate.isChannelEmote !== current.isChannelEmote) {
+      return candidate.isChannelEmote;
+    }
+    return this.providerRank(candidate.provider) < this.providerRank(current.provider);
+  }
+
+  private providerRank(provider: EmoteProviderId): number {
+    const rank = this.providers.findIndex(entry => entry.id === provider);
+    return rank === -1 ? this.providers.length : rank;
+  }
+
+  /**
+   * Every provider's emotes for one set (global or a channel), from the
+   * disk cache while fresh. A failing provider only drops its own emotes.
+   */
+  private getSet(key: string): Promise<ChatEmote[]> {
+    let set = this.sets.get(key);
+
+    if (!set) {
+      set = (async () => {
+        const cached = await this.readCache(key);
+        if (cached) {
+          return cached;
+        }
+
+        let complete = true;
+        const results = await Promise.all(
+          this.providers.map(provider => {
+            const request =
+              key === GLOBAL_KEY ? provider.fetchGlobalEmotes() : provider.fetchChannelEmotes(key);
+            return request.catch(error => {
+              console.warn(`⚠️ Failed to load ${provider.id} emotes for ${key}:`, error);
+              complete = false;
+              return [] as ChatEmote[];
+            });
+          })
+        );
+
+        const emotes = results.flat();
+        console.log(`😀 Loaded ${emotes.length} emotes for ${key}`);
+        // Partial results are only kept in memory so the next launch retries
+        if (complete) {
+          this.writeCache(key, emotes);
+        }
+        return emotes;
+      })();
+      this.sets.set(key, set);
+    }
+
+    return set;
+  }
+
+  private async readCache(key: string): Promise<ChatEmote[] | null> {
+    try {
+      const stored = await AsyncStorage.getItem(CACHE_PREFIX + key);
+      if (!stored) {
+        return null;
+      }
+
+      const cached: CachedEmotes = JSON.parse(stored);
+      return Date.now() - cached.fetchedAt < CACHE_TTL_MS ? cached.emotes : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeCache(key: string, emotes: ChatEmote[]): void {
+    const cached: CachedEmotes = { fetchedAt: Date.now(), emotes };
+    AsyncStorage.setItem(CACHE_PREFIX + key, JSON.stringify(cached)).catch(error =>
+      console.error('❌ Failed to cache emotes:', error)
+    );
+  }
+}
+
+export const emoteService = new EmoteService();
+
+export const getChannelEmotes = async (channelId: string | null) => {
+  return emoteService.getEmotes(channelId);
+};
@@ -0,0 +1,264 @@
+/**
+ * Go-Live Service
+ * Notifies when a favorited channel starts streaming. While a Twitch account
+ * is linked, Twitch favorites are followed over EventSub (stream.online and
+ * stream.offline) so alerts arrive within seconds; every favorite is also
+ * covered by the transitions the batched live status refresh reports, which
+ * is all Kick has. That refresh follows a YouTube favorite's saved video,
+ * and each broadcast is a new video, so YouTube favorites' channels are also
+ * polled for their current broadcast. All sources feed one per-channel
+ * state, so a go-live seen twice notifies once, and a channel that comes
+ * back within the grace window after going offline is treated as a restart.
+ */
+
+import * as Linking from 'expo-linking';
+import { AppState } from 'react-native';
+import { Stream } from '@/types/stream';
+import { LiveStatusUpdate, liveStatusService } from './liveStatusService';
+import { notificationService } from './notificationService';
+import { createStreamId, getChannelKey } from './streamAdapters';
+import { twitchAuthService } from './twitchAuthService';
+import { subscribeToTwitchEvent } from './twitchEventSubService';
+import { YouTubeVideoLiveStatus, youtubeApi } from './youtubeApi';
+
+// A stream that drops and comes back within this long is the same broadcast
+const RESTART_GRACE_MS = 10 * 60 * 1000;
+
+// A few quota units per channel each time, so slower than the grid's refresh
+const YOUTUBE_POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+interface ChannelState {
+  isLive: boolean;
+  /** When the channel was last seen going offline */
+  offlineAt: number | null;
+}
+
+/** Deep link that opens the grid with `stream` added */
+export const getGoLiveLink = (stream: Pick<Stream, 'id'>): string =>
+  Linking.createURL('/grid', { queryParams: { add: stream.id } });
+
+class GoLiveService {
+  // Favorites by channel key
+  private favorites = new Map<string, Stream>();
+  private channels = new Map<string, ChannelState>();
+  // Unsubscribes for Twitch channels followed over EventSub, by channel key
+  private eventSub = new Map<string, () => void>();
+  // Channels EventSub refused (e.g. subscription limit); polling covers them
+  private eventSubRefused = new Set<string>();
+  private youtubePoll: ReturnType<typeof setInterval> | null = null;
+  // Whether each YouTube favorite was live at the last channel poll, by channel key
+  private youtubeLive = new Map<string, boolean>();
+
+  constructor() {
+    liveStatusService.subscribe(updates => this.handleLiveStatus(updates));
+    twitchAuthService.subscribe(() => {
+      this.eventSubRefused.clear();
+      this.syncEventSub();
+    });
+  }
+
+  /**
+   * Sets the channels to watch. Call again whenever favorites change.
+   */
+  watch(favorites: Stream[]): void {
+    this.favorites = new Map(favorites.map(stream => [getChannelKey(stream), stream]));
+    this.syncEventSub();
+    this.syncYouTubePoll();
+  }
+
+  private syncEventSub(): void {
+    const wanted = new Map<string, Stream>();
+    if (twitchAuthService.getSession()) {
+      this.favorites.forEach((stream, key) => {
+        // EventSub conditions need the numeric user id, which older favorites lack
+        if (
+          stream.platform === 'twitch' &&
+          /^\d+$/.test(stream.channelId) &&
+          !this.eventSubRefused.has(key)
+        ) {
+          wanted.set(key, stream);
+        }
+      });
+    }
+
+    this.eventSub.forEach((unsubscribe, key) => {
+      if (!wanted.has(key)) {
+        unsubscribe();
+        this.eventSub.delete(key);
+      }
+    });
+    wanted.forEach((stream, key) => {
+      if (!this.eventSub.has(key)) {
+        this.eventSub.set(key, this.followOnEventSub(key, stream));
+      }
+    });
+  }
+
+  private followOnEventSub(key: string, stream: Stream): () => void {
+    const condition = { broadcaster_user_id: stream.channelId };
+    const onError = (error: Error) => {
+      console.warn(`⚠️ Polling go-live for ${stream.username} instead of EventSub:`, error.message);
+      this.eventSubRefused.add(key);
+      this.eventSub.get(key)?.();
+      this.eventSub.delete(key);
+    };
+
+    const unsubscribes = [
+      subscribeToTwitchEvent(
+        { type: 'stream.online', version: '1', condition },
+        event => {
+          // Reruns and premieres also start a stream; only alert for live broadcasts
+          if (event?.type === 'live') {
+            this.handleOnline(key);
+          }
+        },
+        onError
+      ),
+      subscribeToTwitchEvent(
+        { type: 'stream.offline', version: '1', condition },
+        () => this.handleOffline(key),
+        onError
+      ),
+    ];
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }
+
+  private syncYouTubePoll(): void {
+    this.youtubeLive.forEach((_, key) => {
+      if (!this.favorites.has(key)) {
+        this.youtubeLive.delete(key);
+      }
+    });
+
+    const hasYouTube = Array.from(this.favorites.values()).some(
+      stream => stream.platform === 'youtube'
+    );
+    if (!hasYouTube) {
+      if (this.youtubePoll) {
+        clearInterval(this.youtubePoll);
+        this.youtubePoll = null;
+      }
+      return;
+    }
+    if (!this.youtubePoll) {
+      this.youtubePoll = setInterval(() => this.pollYouTube(), YOUTUBE_POLL_INTERVAL_MS);
+      this.pollYouTube();
+    }
+  }
+
+  private async pollYouTube(): Promise<void> {
+    if (AppState.currentState !== 'active') {
+      return;
+    }
+    const favorites = Array.from(this.favorites).filter(
+      ([, stream]) => stream.platform === 'youtube'
+    );
+    if (!favorites.length) {
+      return;
+    }
+
+    let live: Map<string, YouTubeVideoLiveStatus>;
+    try {
+      // Prefetch is refused first when quota runs low; the grid's own polls matter more
+      live = await youtubeApi.getLiveVideosByChannel(
+        favorites.map(([, stream]) => stream.channelId),
+        'prefetch'
+      );
+    } catch (error) {
+      console.warn('⚠️ Skipping YouTube go-live poll:', (error as Error).message);
+      return;
+    }
+
+    favorites.forEach(([key, favorite]) => {
+      const video = live.get(favorite.channelId);
+      const wasLive = this.youtubeLive.get(key);
+      this.youtubeLive.set(key, !!video);
+      // The first poll only sets the baseline
+      if (wasLive === undefined || wasLive === !!video) {
+        return;
+      }
+      if (video) {
+        this.handleOnline(key, {
+          ...favorite,
+          id: createStreamId('youtube', video.id),
+          sourceId: video.id,
+          title: video.snippet.title,
+          isLive: true,
+          thumbnailUrl: youtubeApi.getThumbnailUrl(video.id),
+          embedUrl: youtubeApi.generateEmbedUrl(video.id),
+          startedAt: video.liveStreamingDetails?.actualStartTime || favorite.startedAt,
+        });
+      } else {
+        this.handleOffline(key);
+      }
+    });
+  }
+
+  private handleLiveStatus(updates: LiveStatusUpdate[]): void {
+    updates.forEach(update => {
+      const key = getChannelKey(update.stream);
+      if (!update.transition || !this.favorites.has(key)) {
+        return;
+      }
+      if (update.transition === 'online') {
+        this.handleOnline(key, { ...update.stream, ...update.changes });
+      } else {
+        this.handleOffline(key);
+      }
+    });
+  }
+
+  private handleOnline(key: string, fresh?: Stream): void {
+    const state = this.channels.get(key);
+    const now = Date.now();
+    this.channels.set(key, { isLive: true, offlineAt: null });
+
+    if (state?.isLive) {
+      // Already reported by the other source
+      return;
+    }
+    if (state?.offlineAt && now - state.offlineAt < RESTART_GRACE_MS) {
+      console.log(`🔄 ${key} restarted its stream, not notifying again`);
+      return;
+    }
+
+    const favorite = this.favorites.get(key);
+    if (favorite) {
+      this.notify(fresh || favorite, !fresh);
+    }
+  }
+
+  private handleOffline(key: string): void {
+    const state = this.channels.get(key);
+    if (state && !state.isLive) {
+      // Keep the first offline time so a late poll doesn't extend the grace window
+      return;
+    }
+    this.channels.set(key, { isLive: false, offlineAt: Date.now() });
+  }
+
+  private notify(stream: Stream, isStale: boolean): void {
+    if (notificationService.isInQuietHours()) {
+      // An alert delivered after quiet hours would be hours late; drop it
+      console.log(`🔕 ${stream.displayName} went live during quiet hours`);
+      return;
+    }
+
+    console.log(`✅ ${stream.displayName} went live`);
+    notificationService
+      .notifyStreamStarted({
+        id: stream.id,
+        streamerName: stream.displayName,
+        // EventSub doesn't say what the stream is about, and the saved title is old
+        title: isStale ? 'Live now on Twitch' : stream.title,
+        profileImage: stream.profileImageUrl,
+        thumbnail: isStale ? undefined : stream.thumbnailUrl,
+        url: getGoLiveLink(stream),
+      })
+      .catch(error => console.error('❌ Failed to send go-live notification:', error));
+  }
+}
+
+export const goLiveService = new GoLiveService();
+
+export const watchFavoritesGoLive = (favorites: Stream[]) => goLiveService.watch(favorites);
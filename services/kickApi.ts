@@ -1,3 +1,5 @@
+import { RequestPriority, requestScheduler } from './requestScheduler';
+
 interface KickStream {
   id: string;
   slug: string;
@@ -108,6 +110,20 @@ interface KickCategory {
   category_icon: string;
 }
 
+interface KickChatroom {
+  id: number;
+  channel_id: number;
+  chat_mode: string;
+  slow_mode: boolean;
+  followers_mode: boolean;
+  subscribers_mode: boolean;
+  emotes_mode: boolean;
+  /** Slow mode delay in seconds */
+  message_interval: number;
+  /** Minutes a viewer must have followed in followers mode */
+  following_min_duration: number;
+}
+
 interface KickChannel {
   id: string;
   user_id: string;
@@ -128,6 +144,7 @@ interface KickChannel {
   verified: boolean;
   follower_count: number;
   category: KickCategory | null;
+  chatroom?: KickChatroom;
 }
 
 interface KickApiResponse<T> {
@@ -156,7 +173,11 @@ class KickAPI {
     console.log('Kick API initialized');
   }
 
-  private async makeRequest<T>(endpoint: string, params?: Record<string, string>): Promise<T> {
+  private async makeRequest<T>(
+    endpoint: string,
+    params?: Record<string, string>,
+    priority: RequestPriority = 'normal'
+  ): Promise<T> {
     const url = new URL(`${this.baseUrl}${endpoint}`);
     
     if (params) {
@@ -174,15 +195,17 @@ class KickAPI {
       'Referer': 'https://kick.com/',
     };
 
-    const response = await fetch(url.toString(), { headers });
+    return requestScheduler.schedule({ platform: 'kick', key: url.toString(), priority }, async send => {
+      const response = await send(url.toString(), { headers });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`Kick API request failed: ${response.status} ${response.statusText}`, errorText);
-      throw new Error(`Kick API request failed: ${response.status} ${response.statusText}`);
-    }
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`Kick API request failed: ${response.status} ${response.statusText}`, errorText);
+        throw new Error(`Kick API request failed: ${response.status} ${response.statusText}`);
+      }
 
-    return response.json();
+      return response.json();
+    });
   }
 
   async getLiveStreams(limit: number = 20, page: number = 1): Promise<KickApiResponse<KickStream>> {
@@ -194,7 +217,7 @@ class KickAPI {
         page: page.toString(),
       };
 
-      const response = await this.makeRequest<KickApiResponse<KickStream>>('/channels/live', params);
+      const response = await this.makeRequest<KickApiResponse<KickStream>>('/channels/live', params, 'prefetch');
       
       // Filter only live streams
       const liveStreams = response.data.filter(stream => stream.is_live);
@@ -219,7 +242,7 @@ class KickAPI {
         limit: limit.toString(),
       };
 
-      const response = await this.makeRequest<KickApiResponse<KickStream>>(`/channels/live/${categorySlug}`, params);
+      const response = await this.makeRequest<KickApiResponse<KickStream>>(`/channels/live/${categorySlug}`, params, 'prefetch');
       
       console.log(`✅ Fetched ${response.data.length} streams for category ${categorySlug}`);
       return response.data;
@@ -250,7 +273,7 @@ class KickAPI {
 
   async getChannelInfo(channelSlug: string): Promise<KickChannel | null> {
     try {
-      const response = await this.makeRequest<KickChannel>(`/channels/${channelSlug}`);
+      const response = await this.makeRequest<KickChannel>(`/channels/${channelSlug}`, undefined, 'visible');
       return response;
     } catch (error) {
       console.error('❌ Failed to get Kick channel info:', error);
@@ -260,7 +283,7 @@ class KickAPI {
 
   async getCategories(): Promise<KickCategory[]> {
     try {
-      const response = await this.makeRequest<KickApiResponse<KickCategory>>('/categories');
+      const response = await this.makeRequest<KickApiResponse<KickCategory>>('/categories', undefined, 'prefetch');
       return response.data || [];
     } catch (error) {
       console.error('❌ Failed to get Kick categories:', error);
@@ -276,7 +299,7 @@ class KickAPI {
         limit: limit.toString(),
       };
 
-      const response = await this.makeRequest<KickApiResponse<KickStream>>('/channels/featured', params);
+      const response = await this.makeRequest<KickApiResponse<KickStream>>('/channels/featured', params, 'prefetch');
       
       console.log(`✅ Fetched ${response.data.length} featured streams`);
       return response.data;
@@ -365,4 +388,4 @@ export const fetchKickCategories = async () => {
   return kickApi.getCategories();
 };
 
-export type { KickStream, KickChannel, KickCategory, KickApiResponse };
\ No newline at end of file
+export type { KickStream, KickChannel, KickChatroom, KickCategory, KickApiResponse };
\ No newline at end of file
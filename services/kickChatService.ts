@@ -0,0 +1,547 @@
+/**
+ * Kick Chat Service
+ * Read-only Kick chat over Kick's public Pusher WebSocket. Channel slugs are
+ * resolved to chatroom ids through the channel API, then every chatroom is
+ * subscribed on one shared socket and its events fanned out to subscribers.
+ */
+
+import {
+  ChatConnectionStatus,
+  ChatEvent,
+  ChatFragment,
+  ChatMessage,
+  ChatRoomState,
+  ChatUserBadge,
+} from '@/types/chat';
+import { kickApi, KickChatroom } from './kickApi';
+
+// Kick's public Pusher app; override to point at a local mock during development
+const KICK_PUSHER_URL =
+  process.env.EXPO_PUBLIC_KICK_PUSHER_URL ||
+  'wss://ws-us2.pusher.com/app/32cbd69e4b950bf97679?protocol=7&client=js&version=8.4.0&flash=false';
+const EMOTE_CDN_URL = 'https://files.kick.com/emotes';
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+const DEFAULT_ACTIVITY_TIMEOUT_S = 120;
+const PONG_TIMEOUT_MS = 30000;
+
+const EMOTE_PATTERN = /\[emote:(\d+):([^\]]+)\]/g;
+
+type ChatListener = (event: ChatEvent) => void;
+
+interface PusherFrame {
+  event: string;
+  channel?: string;
+  /** Pusher double-encodes event payloads as JSON strings */
+  data?: string | object;
+}
+
+interface PusherConnectionEstablished {
+  socket_id: string;
+  activity_timeout?: number;
+}
+
+interface PusherError {
+  code: number | null;
+  message: string;
+}
+
+interface KickSender {
+  id: number;
+  username: string;
+  slug: string;
+  identity?: {
+    color?: string;
+    badges?: { type: string; text: string; count?: number }[];
+  };
+}
+
+interface KickSubscriptionEvent {
+  username: string;
+  months: number;
+}
+
+interface KickGiftedSubscriptionsEvent {
+  gifter_username?: string;
+  gifted_usernames?: string[];
+}
+
+interface KickUserBannedEvent {
+  user?: { id: number; slug: string };
+}
+
+interface KickMessageDeletedEvent {
+  message?: { id: string };
+}
+
+interface KickChatroomUpdatedEvent {
+  emotes_mode?: { enabled: boolean };
+  followers_mode?: { enabled: boolean; min_duration?: number };
+  slow_mode?: { enabled: boolean; message_interval?: number };
+  subscribers_mode?: { enabled: boolean };
+}
+
+export interface KickChatMessageEvent {
+  id: string;
+  chatroom_id: number;
+  content: string;
+  type: 'message' | 'reply' | string;
+  created_at: string;
+  sender: KickSender;
+}
+
+/**
+ * Splits Kick's inline `[emote:id:name]` markup into text and emote fragments
+ */
+export const parseKickFragments = (content: string): ChatFragment[] => {
+  const fragments: ChatFragment[] = [];
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(EMOTE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      fragments.push({ type: 'text', text: content.slice(lastIndex, index) });
+    }
+    fragments.push({
+      type: 'emote',
+      text: match[2],
+      id: match[1],
+      url: `${EMOTE_CDN_URL}/${match[1]}/fullsize`,
+    });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < content.length) {
+    fragments.push({ type: 'text', text: content.slice(lastIndex) });
+  }
+  return fragments;
+};
+
+const toPlainText = (fragments: ChatFragment[]): string =>
+  fragments.map(fragment => fragment.text).join('');
+
+export const toKickChatMessage = (event: KickChatMessageEvent, channel: string): ChatMessage => {
+  const fragments = parseKickFragments(event.content);
+  const badges: ChatUserBadge[] = (event.sender.identity?.badges || []).map(badge => ({
+    id: badge.type,
+    version: String(badge.count || 1),
+  }));
+
+  return {
+    id: event.id,
+    platform: 'kick',
+    channel,
+    userId: String(event.sender.id),
+    username: event.sender.slug,
+    displayName: event.sender.username,
+    message: toPlainText(fragments),
+    fragments,
+    timestamp: new Date(event.created_at),
+    type: 'normal',
+    badges,
+    color: event.sender.identity?.color || undefined,
+  };
+};
+
+const systemChatMessage = (
+  id: string,
+  channel: string,
+  type: ChatMessage['type'],
+  systemMessage: string,
+  username: string = ''
+): ChatMessage => ({
+  id,
+  platform: 'kick',
+  channel,
+  userId: '',
+  username: username.toLowerCase(),
+  displayName: username || 'Kick',
+  message: '',
+  fragments: [],
+  timestamp: new Date(),
+  type,
+  badges: [],
+  systemMessage,
+});
+
+const chatroomRoomState = (chatroom: KickChatroom): ChatRoomState => ({
+  emoteOnly: chatroom.emotes_mode,
+  followersOnly: chatroom.followers_mode ? chatroom.following_min_duration || 0 : null,
+  slowMode: chatroom.slow_mode ? chatroom.message_interval : 0,
+  subsOnly: chatroom.subscribers_mode,
+});
+
+/**
+ * Maps a Pusher event on a chatroom channel to chat events. Returns an empty
+ * list for events the chat UI doesn't show (pins, polls, ...).
+ */
+export const toKickChatEvents = (eventName: string, data: object, channel: string): ChatEvent[] => {
+  switch (eventName) {
+    case 'App\\Events\\ChatMessageEvent':
+      return [
+        { type: 'message', message: toKickChatMessage(data as KickChatMessageEvent, channel) },
+      ];
+
+    case 'App\\Events\\SubscriptionEvent': {
+      const { username, months } = data as KickSubscriptionEvent;
+      return [
+        {
+          type: 'message',
+          message: systemChatMessage(
+            `kick-sub-${username}-${Date.now()}`,
+            channel,
+            'subscription',
+            months > 1 ? `${username} subscribed for ${months} months` : `${username} subscribed`,
+            username
+          ),
+        },
+      ];
+    }
+
+    case 'App\\Events\\GiftedSubscriptionsEvent': {
+      const gift = data as KickGiftedSubscriptionsEvent;
+      const count = gift.gifted_usernames?.length || 1;
+      const gifter = gift.gifter_username || 'Anonymous';
+      return [
+        {
+          type: 'message',
+          message: systemChatMessage(
+            `kick-gift-${gifter}-${Date.now()}`,
+            channel,
+            'subscription',
+            `${gifter} gifted ${count} subscription${count === 1 ? '' : 's'}`,
+            gift.gifter_username
+          ),
+        },
+      ];
+    }
+
+    case 'App\\Events\\UserBannedEvent': {
+      const { user } = data as KickUserBannedEvent;
+      if (!user) {
+        return [];
+      }
+      return [{ type: 'clearchat', channel, login: user.slug, userId: String(user.id) }];
+    }
+
+    case 'App\\Events\\MessageDeletedEvent': {
+      const { message } = data as KickMessageDeletedEvent;
+      return message?.id ? [{ type: 'clearmsg', channel, messageId: message.id }] : [];
+    }
+
+    case 'App\\Events\\ChatroomClearEvent':
+      return [{ type: 'clearchat', channel }];
+
+    case 'App\\Events\\ChatroomUpdatedEvent': {
+      const room = data as KickChatroomUpdatedEvent;
+      return [
+        {
+          type: 'roomstate',
+          channel,
+          state: {
+            emoteOnly: !!room.emotes_mode?.enabled,
+            followersOnly: room.followers_mode?.enabled
+              ? room.followers_mode.min_duration || 0
+              : null,
+            slowMode: room.slow_mode?.enabled ? room.slow_mode.message_interval || 0 : 0,
+            subsOnly: !!room.subscribers_mode?.enabled,
+          },
+        },
+      ];
+    }
+
+    default:
+      return [];
+  }
+};
+
+class KickChatService {
+  private socket: WebSocket | null = null;
+  private channels = new Map<string, Set<ChatListener>>();
+  private status: ChatConnectionStatus = 'disconnected';
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectDelay = MIN_RECONNECT_DELAY_MS;
+  private activityTimer: ReturnType<typeof setTimeout> | null = null;
+  private activityTimeoutMs = DEFAULT_ACTIVITY_TIMEOUT_S * 1000;
+  private chatrooms = new Map<string, KickChatroom>();
+  private resolving = new Map<string, Promise<KickChatroom | null>>();
+  /** Pusher channel name -> channel slug, for routing incoming events */
+  private pusherChannels = new Map<string, string>();
+
+  constructor(private readonly url: string = KICK_PUSHER_URL) {}
+
+  /**
+   * Delivers chat events for the Kick channel `slug` to `listener`. The
+   * socket is opened on the first subscription and closed when the last
+   * one leaves.
+   */
+  subscribe(slug: string, listener: ChatListener): () => void {
+    const name = slug.toLowerCase();
+    let listeners = this.channels.get(name);
+
+    if (!listeners) {
+      listeners = new Set();
+      this.channels.set(name, listeners);
+      this.resolveAndJoin(name);
+    }
+
+    listeners.add(listener);
+    listener({ type: 'status', status: this.status });
+    const chatroom = this.chatrooms.get(name);
+    if (chatroom) {
+      listener({ type: 'roomstate', channel: name, state: chatroomRoomState(chatroom) });
+    }
+    this.connect();
+
+    return () => {
+      const current = this.channels.get(name);
+      if (!current) {
+        return;
+      }
+
+      current.delete(listener);
+      if (current.size === 0) {
+        this.channels.delete(name);
+        const room = this.chatrooms.get(name);
+        if (room) {
+          const pusherChannel = `chatrooms.${room.id}.v2`;
+          this.pusherChannels.delete(pusherChannel);
+          this.send('pusher:unsubscribe', { channel: pusherChannel });
+        }
+      }
+
+      if (this.channels.size === 0) {
+        this.disconnect();
+      }
+    };
+  }
+
+  getStatus(): ChatConnectionStatus {
+    return this.status;
+  }
+
+  private async resolveAndJoin(slug: string): Promise<void> {
+    const chatroom = await this.resolveChatroom(slug);
+    if (!this.channels.has(slug)) {
+      return;
+    }
+
+    if (!chatroom) {
+      this.emit(slug, {
+        type: 'message',
+        message: systemChatMessage(
+          `kick-missing-${slug}`,
+          slug,
+          'system',
+          `Couldn't find Kick chat for ${slug}`
+        ),
+      });
+      return;
+    }
+
+    this.emit(slug, { type: 'roomstate', channel: slug, state: chatroomRoomState(chatroom) });
+    this.join(slug, chatroom);
+  }
+
+  private resolveChatroom(slug: string): Promise<KickChatroom | null> {
+    const cached = this.chatrooms.get(slug);
+    if (cached) {
+      return Promise.resolve(cached);
+    }
+
+    let pending = this.resolving.get(slug);
+    if (!pending) {
+      pending = kickApi
+        .getChannelInfo(slug)
+        .then(channel => {
+          const chatroom = channel?.chatroom || null;
+          if (chatroom) {
+            this.chatrooms.set(slug, chatroom);
+          }
+          return chatroom;
+        })
+        .finally(() => this.resolving.delete(slug));
+      this.resolving.set(slug, pending);
+    }
+    return pending;
+  }
+
+  private join(slug: string, chatroom: KickChatroom): void {
+    const pusherChannel = `chatrooms.${chatroom.id}.v2`;
+    this.pusherChannels.set(pusherChannel, slug);
+    if (this.status === 'connected') {
+      this.send('pusher:subscribe', { auth: '', channel: pusherChannel });
+    }
+  }
+
+  private connect(): void {
+    if (this.socket || this.channels.size === 0) {
+      return;
+    }
+
+    this.setStatus('connecting');
+    console.log('💬 Connecting to Kick chat');
+
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onmessage = event => {
+      if (this.socket !== socket) {
+        return;
+      }
+
+      try {
+        this.handleFrame(JSON.parse(String(event.data)));
+      } catch (error) {
+        console.warn('⚠️ Ignoring malformed Kick chat frame:', error);
+      }
+    };
+
+    socket.onerror = event => {
+      console.error('❌ Kick chat socket error:', (event as WebSocketErrorEvent).message || event);
+    };
+
+    socket.onclose = event => {
+      if (this.socket !== socket) {
+        return;
+      }
+
+      this.socket = null;
+      this.clearActivityTimer();
+      this.setStatus('disconnected');
+
+      // Pusher 4000-4099 close codes mean retrying with the same settings won't help
+      if (event.code >= 4000 && event.code < 4100) {
+        console.error(`❌ Kick chat closed by server: ${event.code} ${event.reason}`);
+        return;
+      }
+      this.scheduleReconnect();
+    };
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.clearActivityTimer();
+    this.reconnectDelay = MIN_RECONNECT_DELAY_MS;
+    this.pusherChannels.clear();
+    this.setStatus('disconnected');
+  }
+
+  private scheduleReconnect(): void {
+    if (this.channels.size === 0 || this.reconnectTimer) {
+      return;
+    }
+
+    console.log(`🔄 Reconnecting to Kick chat in ${this.reconnectDelay}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+  }
+
+  private send(event: string, data: Record<string, unknown>): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ event, data }));
+    }
+  }
+
+  private handleFrame(frame: PusherFrame): void {
+    this.resetActivityTimer();
+    const data: object = typeof frame.data === 'string' ? JSON.parse(frame.data) : frame.data || {};
+
+    switch (frame.event) {
+      case 'pusher:connection_established': {
+        const { activity_timeout } = data as PusherConnectionEstablished;
+        this.reconnectDelay = MIN_RECONNECT_DELAY_MS;
+        if (activity_timeout) {
+          this.activityTimeoutMs = activity_timeout * 1000;
+        }
+        this.setStatus('connected');
+        this.resetActivityTimer();
+        // Resubscribe everything resolved so far; the rest joins as it resolves
+        this.channels.forEach((_, slug) => {
+          const chatroom = this.chatrooms.get(slug);
+          if (chatroom) {
+            this.join(slug, chatroom);
+          }
+        });
+        return;
+      }
+
+      case 'pusher:ping':
+        this.send('pusher:pong', {});
+        return;
+
+      case 'pusher:error': {
+        const { code, message } = data as PusherError;
+        console.error(`❌ Kick chat error: ${code} ${message}`);
+        return;
+      }
+    }
+
+    const slug = frame.channel ? this.pusherChannels.get(frame.channel) : undefined;
+    if (!slug || frame.event.startsWith('pusher')) {
+      return;
+    }
+
+    toKickChatEvents(frame.event, data, slug).forEach(event => this.emit(slug, event));
+  }
+
+  /**
+   * Pusher expects a ping after `activity_timeout` of silence and closes
+   * connections that stop answering; a missing pong forces a reconnect.
+   */
+  private resetActivityTimer(): void {
+    this.clearActivityTimer();
+    if (!this.socket) {
+      return;
+    }
+
+    this.activityTimer = setTimeout(() => {
+      this.send('pusher:ping', {});
+      this.activityTimer = setTimeout(() => this.socket?.close(), PONG_TIMEOUT_MS);
+    }, this.activityTimeoutMs);
+  }
+
+  private clearActivityTimer(): void {
+    if (this.activityTimer) {
+      clearTimeout(this.activityTimer);
+      this.activityTimer = null;
+    }
+  }
+
+  private emit(slug: string, event: ChatEvent): void {
+    this.channels.get(slug)?.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('❌ Kick chat listener failed:', error);
+      }
+    });
+  }
+
+  private setStatus(status: ChatConnectionStatus): void {
+    if (this.status === status) {
+      return;
+    }
+
+    this.status = status;
+    this.channels.forEach(listeners => {
+      listeners.forEach(listener => listener({ type: 'status', status }));
+    });
+  }
+}
+
+export const kickChatService = new KickChatService();
+
+export const subscribeToKickChat = (slug: string, listener: ChatListener) => {
+  return kickChatService.subscribe(slug, listener);
+};
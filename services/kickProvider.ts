@@ -0,0 +1,87 @@
+import { Stream } from '@/types/stream';
+import { kickApi, KickStream } from './kickApi';
+import { EmbedOptions, PlatformProvider, ResolvedChannel } from './platformRegistry';
+import { fromKickStream } from './streamAdapters';
+
+const CHANNEL_URL_PATTERN = /^(?:https?:\/\/)?(?:www\.)?kick\.com\/([a-zA-Z0-9_-]+)\/?$/;
+
+const parseSlug = (input: string): string | null => {
+  const value = input.trim();
+  const match = value.match(CHANNEL_URL_PATTERN);
+  if (match) {
+    return match[1].toLowerCase();
+  }
+
+  return /^[a-zA-Z0-9_-]+$/.test(value) ? value.toLowerCase() : null;
+};
+
+export const kickProvider: PlatformProvider = {
+  id: 'kick',
+  displayName: 'Kick',
+  color: '#53FC18',
+  icon: '⚡',
+  baseUrl: 'https://kick.com',
+  capabilities: {
+    discovery: true,
+    search: true,
+    chat: true,
+    clips: true,
+    vods: true,
+    categories: true,
+  },
+
+  async discover(limit: number): Promise<Stream[]> {
+    const response = await kickApi.getLiveStreams(limit);
+    return response.data.map(fromKickStream);
+  },
+
+  async search(query: string, limit: number): Promise<Stream[]> {
+    const channels = await kickApi.searchChannels(query, limit);
+    return channels
+      .filter(channel => channel.livestream && channel.livestream.is_live)
+      .map(channel => fromKickStream(channel.livestream!));
+  },
+
+  async resolveChannel(input: string): Promise<ResolvedChannel | null> {
+    const slug = parseSlug(input);
+    if (!slug) {
+      return null;
+    }
+
+    const channel = await kickApi.getChannelInfo(slug);
+    if (!channel) {
+      return null;
+    }
+
+    const liveStream = channel.livestream?.is_live ? channel.livestream : null;
+
+    return {
+      platform: 'kick',
+      channelId: channel.id,
+      username: channel.slug,
+      displayName: channel.user?.username || channel.slug,
+      profileImageUrl: channel.user?.profile_pic || '',
+      isLive: !!liveStream,
+      // Channel lookups return the livestream without its parent channel, so re-attach it
+      stream: liveStream
+        ? fromKickStream({ ...liveStream, slug: channel.slug, channel } as unknown as KickStream)
+        : undefined,
+    };
+  },
+
+  matchesUrl(url: string): boolean {
+    return /^(?:https?:\/\/)?(?:www\.)?kick\.com\//i.test(url.trim());
+  },
+
+  getEmbedUrl(stream: Stream, options: EmbedOptions = {}): string {
+    return kickApi.generateEmbedUrl(stream.username, options);
+  },
+
+  getChannelUrl(stream: Stream): string {
+    return `https://kick.com/${stream.username}`;
+  },
+
+  getChatSource(stream: Stream) {
+    return { kind: 'kick-pusher', channel: stream.username };
+  },
+};
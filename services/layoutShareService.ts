@@ -0,0 +1,426 @@
+/**
+ * Layout sharing
+ * Turns a multiview into a small versioned document that travels as a deep
+ * link (streamyyy://layout?d=...), a QR code of that link or a JSON file, and
+ * turns it back into streams. Streams are stored by platform and channel, so
+ * importing finds whatever those channels are broadcasting now; channels
+ * that are offline or gone are skipped and reported instead of failing the
+ * whole layout.
+ */
+
+import * as Linking from 'expo-linking';
+import {
+  AudioPolicy,
+  LayoutPreset,
+  LayoutTile,
+  MultiviewLayout,
+  NormalizedRect,
+  SharedLayout,
+  SharedLayoutTile,
+} from '@/types/layout';
+import { Stream } from '@/types/stream';
+import { clampRect, LAYOUT_PRESETS } from '@/utils/layoutEngine';
+import { audioPolicyService, normalizeAudioPolicy } from './audioPolicyService';
+import { platformRegistry } from './platformProviders';
+import { resolveChannel } from './platformService';
+import { normalizeHttpUrl } from './streamProbe';
+import { QualityLevel, streamQualityManager } from './streamQualityManager';
+
+export const SHARED_LAYOUT_VERSION = 1;
+// The grid shows at most this many streams; larger layouts are rejected
+export const MAX_SHARED_TILES = 9;
+
+const QUALITY_LEVELS: QualityLevel[] = ['auto', 'source', '720p60', '720p', '480p', '360p', '160p'];
+
+export type LayoutImportErrorCode = 'malformed' | 'unsupported_version' | 'empty' | 'too_many';
+
+/**
+ * A layout that can't be read. `message` is written for the user.
+ */
+export class LayoutImportError extends Error {
+  constructor(
+    message: string,
+    public readonly code: LayoutImportErrorCode
+  ) {
+    super(message);
+    this.name = 'LayoutImportError';
+  }
+}
+
+export type SkippedTileReason = 'offline' | 'not_found' | 'unsupported';
+
+export interface SkippedTile {
+  tile: SharedLayoutTile;
+  reason: SkippedTileReason;
+}
+
+/** Per-stream settings to apply once the streams are in the grid */
+export interface TileSettings {
+  quality?: QualityLevel;
+  volume?: number;
+}
+
+export interface ResolvedSharedLayout {
+  layout: SharedLayout;
+  /** The shared tiles holding the playable streams; skipped tiles are left out */
+  multiview: MultiviewLayout;
+  /** Playable streams, in the layout's order */
+  streams: Stream[];
+  audioFocusStreamId: string | null;
+  tileSettings: Record<string, TileSettings>;
+  skipped: SkippedTile[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value);
+
+const isRect = (value: unknown): value is NormalizedRect =>
+  isObject(value) && ['x', 'y', 'width', 'height'].every(key => isFiniteNumber(value[key]));
+
+const isOneOf = <T extends string>(options: readonly T[], value: unknown): value is T =>
+  (options as readonly unknown[]).includes(value);
+
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+// base64url of UTF-8 text, so names with emoji survive btoa
+const toBase64Url = (text: string): string =>
+  btoa(unescape(encodeURIComponent(text)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (code: string): string => {
+  const base64 = code.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return decodeURIComponent(escape(atob(padded)));
+};
+
+export const describeSkippedTile = ({ tile, reason }: SkippedTile): string => {
+  const name = tile.displayName || tile.channel;
+  const platformName = platformRegistry.get(tile.platform)?.displayName || tile.platform;
+  switch (reason) {
+    case 'offline':
+      return `${name} is not live right now`;
+    case 'unsupported':
+      return `${name}: ${platformName} isn't supported in this version`;
+    default:
+      return `Couldn't find ${name} on ${platformName}`;
+  }
+};
+
+class LayoutShareService {
+  /**
+   * Describe the grid for sharing. Tiles follow the layout's order; its
+   * stream ids pick the streams, quality comes from the quality manager and
+   * volume and audio mode from the audio policy.
+   */
+  createSharedLayout(
+    layout: MultiviewLayout,
+    streams: Stream[],
+    audioFocusStreamId?: string | null
+  ): SharedLayout {
+    const tiles: SharedLayoutTile[] = [];
+    let audioFocus: number | undefined;
+    const { mode, duckLevel, autoSignal } = audioPolicyService.getPolicy();
+
+    layout.tiles.forEach(layoutTile => {
+      const stream = streams.find(candidate => candidate.id === layoutTile.streamId);
+      if (!stream || tiles.length >= MAX_SHARED_TILES) {
+        return;
+      }
+
+      const tile: SharedLayoutTile = {
+        platform: stream.platform,
+        channel: stream.username,
+        channelId: stream.channelId,
+        displayName: stream.displayName,
+        rect: {
+          x: round(layoutTile.rect.x),
+          y: round(layoutTile.rect.y),
+          width: round(layoutTile.rect.width),
+          height: round(layoutTile.rect.height),
+        },
+      };
+
+      // Recordings and direct media have no channel that goes live again
+      if (stream.recording) {
+        tile.url = platformRegistry.getRecordingUrl(stream);
+      } else if (stream.playback) {
+        tile.url = stream.playback.url;
+      }
+
+      const quality = streamQualityManager.getStreamQuality(stream.id);
+      if (quality && !quality.isAdaptive) {
+        tile.quality = quality.targetQuality;
+      }
+      const volume = audioPolicyService.getPolicy().volumes[stream.id];
+      if (volume !== undefined) {
+        tile.volume = round(volume);
+      }
+
+      if (stream.id === audioFocusStreamId) {
+        audioFocus = tiles.length;
+      }
+      tiles.push(tile);
+    });
+
+    return {
+      version: SHARED_LAYOUT_VERSION,
+      name: layout.name,
+      preset: layout.preset,
+      designAspect: layout.designAspect,
+      tiles,
+      audioFocus,
+      audio: { mode, duckLevel: round(duckLevel), autoSignal },
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  encode(layout: SharedLayout): string {
+    return toBase64Url(JSON.stringify(layout));
+  }
+
+  /**
+   * Opens the layout in the app: streamyyy://layout?d=<code>
+   */
+  getLink(layout: SharedLayout): string {
+    return Linking.createURL('/layout', { queryParams: { d: this.encode(layout) } });
+  }
+
+  toJSON(layout: SharedLayout): string {
+    return JSON.stringify(layout, null, 2);
+  }
+
+  getFileName(layout: SharedLayout): string {
+    const slug = (layout.name || 'multiview')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+    return `${slug || 'multiview'}.streamyyy-layout.json`;
+  }
+
+  /**
+   * Read a layout from a link, a bare code or a JSON file's text
+   */
+  parse(input: string): SharedLayout {
+    const text = input.trim();
+    if (!text) {
+      throw new LayoutImportError('Paste a layout link, code or file', 'empty');
+    }
+
+    let data: unknown;
+    try {
+      if (text.startsWith('{')) {
+        data = JSON.parse(text);
+      } else {
+        const match = text.match(/[?&]d=([^&#\s]+)/);
+        data = JSON.parse(fromBase64Url(match ? decodeURIComponent(match[1]) : text));
+      }
+    } catch {
+      throw new LayoutImportError("That isn't a Streamyyy layout", 'malformed');
+    }
+
+    return this.validate(data);
+  }
+
+  /**
+   * Check a decoded layout and drop anything this version can't use.
+   * Out-of-range positions are pulled back into the container, volumes are
+   * clamped and unknown qualities fall back to auto.
+   */
+  validate(data: unknown): SharedLayout {
+    if (!isObject(data) || typeof data.version !== 'number' || !Array.isArray(data.tiles)) {
+      throw new LayoutImportError("That isn't a Streamyyy layout", 'malformed');
+    }
+    if (data.version > SHARED_LAYOUT_VERSION) {
+      throw new LayoutImportError(
+        'This layout was made with a newer version of Streamyyy. Update the app to open it.',
+        'unsupported_version'
+      );
+    }
+    if (data.tiles.length > MAX_SHARED_TILES) {
+      throw new LayoutImportError(`Layouts can have up to ${MAX_SHARED_TILES} streams`, 'too_many');
+    }
+
+    // Unreadable tiles are dropped; indexes into the list are renumbered
+    // against the tiles that are kept
+    const tiles: SharedLayoutTile[] = [];
+    const keptIndexes = new Map<number, number>();
+    const rawTiles: unknown[] = data.tiles;
+    rawTiles.forEach((tile, index) => {
+      if (
+        !isObject(tile) ||
+        typeof tile.platform !== 'string' ||
+        typeof tile.channel !== 'string' ||
+        tile.channel.trim() === ''
+      ) {
+        return;
+      }
+      keptIndexes.set(index, tiles.length);
+      tiles.push({
+        platform: tile.platform,
+        channel: tile.channel.trim(),
+        channelId: typeof tile.channelId === 'string' ? tile.channelId : undefined,
+        displayName: typeof tile.displayName === 'string' ? tile.displayName : undefined,
+        url: typeof tile.url === 'string' ? normalizeHttpUrl(tile.url) || undefined : undefined,
+        rect: this.validateRect(tile.rect, index, rawTiles.length),
+        quality: isOneOf(QUALITY_LEVELS, tile.quality) ? tile.quality : undefined,
+        volume: isFiniteNumber(tile.volume) ? Math.max(0, Math.min(1, tile.volume)) : undefined,
+      });
+    });
+
+    if (tiles.length === 0) {
+      throw new LayoutImportError('This layout has no streams', 'empty');
+    }
+
+    const preset: LayoutPreset = isOneOf(LAYOUT_PRESETS, data.preset) ? data.preset : 'adaptive';
+    // A focus on a dropped tile is dropped with it
+    const audioFocus =
+      typeof data.audioFocus === 'number' ? keptIndexes.get(data.audioFocus) : undefined;
+    let audio: SharedLayout['audio'];
+    if (isObject(data.audio)) {
+      // Each field is checked before it's used
+      const { mode, duckLevel, autoSignal } = normalizeAudioPolicy(
+        data.audio as Partial<AudioPolicy>
+      );
+      audio = { mode, duckLevel, autoSignal };
+    }
+
+    return {
+      version: data.version,
+      name: typeof data.name === 'string' ? data.name.slice(0, 80) : undefined,
+      preset,
+      designAspect:
+        typeof data.designAspect === 'number' && data.designAspect > 0
+          ? data.designAspect
+          : undefined,
+      tiles,
+      audioFocus,
+      audio,
+      createdAt: typeof data.createdAt === 'string' ? data.createdAt : undefined,
+    };
+  }
+
+  // Tiles without a usable rect are stacked top to bottom in their slot
+  private validateRect(value: unknown, index: number, count: number): NormalizedRect {
+    if (!isRect(value)) {
+      return { x: 0, y: index / count, width: 1, height: 1 / count };
+    }
+    return clampRect({ x: value.x, y: value.y, width: value.width, height: value.height });
+  }
+
+  /**
+   * Find the streams a layout refers to. Channels are resolved in parallel;
+   * offline, unknown and unsupported ones are skipped.
+   */
+  async resolve(layout: SharedLayout): Promise<ResolvedSharedLayout> {
+    console.log('🔄 Resolving shared layout:', layout.name || layout.preset, layout.tiles.length);
+
+    const results = await Promise.all(
+      layout.tiles.map(tile => this.resolveTile(tile).catch(() => 'not_found' as const))
+    );
+
+    const streams: Stream[] = [];
+    const tiles: LayoutTile[] = [];
+    const skipped: SkippedTile[] = [];
+    const tileSettings: Record<string, TileSettings> = {};
+    let audioFocusStreamId: string | null = null;
+
+    results.forEach((result, index) => {
+      const tile = layout.tiles[index];
+      if (typeof result === 'string') {
+        skipped.push({ tile, reason: result });
+        return;
+      }
+      // The same channel twice would be the same stream
+      if (streams.some(stream => stream.id === result.id)) {
+        return;
+      }
+
+      streams.push(result);
+      tiles.push({
+        id: `tile_${tiles.length}`,
+        streamId: result.id,
+        rect: tile.rect,
+        zIndex: tiles.length + 1,
+      });
+      tileSettings[result.id] = {
+        quality: tile.quality as QualityLevel | undefined,
+        volume: tile.volume,
+      };
+      if (index === layout.audioFocus) {
+        audioFocusStreamId = result.id;
+      }
+    });
+
+    const multiview: MultiviewLayout = {
+      id: `shared_${Date.now()}`,
+      name: layout.name,
+      preset: layout.preset,
+      designAspect: layout.designAspect,
+      tiles,
+    };
+
+    console.log(`✅ Shared layout resolved: ${streams.length} streams, ${skipped.length} skipped`);
+    return { layout, multiview, streams, audioFocusStreamId, tileSettings, skipped };
+  }
+
+  private async resolveTile(tile: SharedLayoutTile): Promise<Stream | SkippedTileReason> {
+    if (tile.url) {
+      const provider = platformRegistry.findByUrl(tile.url);
+      const recording = await provider?.resolveRecording?.(tile.url);
+      if (recording) {
+        return recording;
+      }
+      const channel = await resolveChannel(tile.url, provider?.id);
+      if (channel?.stream) {
+        return channel.stream;
+      }
+      // A recording that's gone can still fall back to its channel
+      if (!platformRegistry.has(tile.platform) || tile.platform === 'custom') {
+        return 'not_found';
+      }
+    }
+
+    if (!platformRegistry.has(tile.platform)) {
+      return 'unsupported';
+    }
+
+    const channel = await resolveChannel(tile.channel, tile.platform);
+    if (!channel) {
+      return 'not_found';
+    }
+    return channel.stream || 'offline';
+  }
+
+  /**
+   * Apply the layout's quality and volume once its streams are in the grid.
+   * Players that mount later keep a quality picked here.
+   */
+  applyTileSettings(settings: Record<string, TileSettings>, streams: Stream[]) {
+    for (const stream of streams) {
+      const tile = settings[stream.id];
+      if (!tile) {
+        continue;
+      }
+
+      if (tile.quality) {
+        if (streamQualityManager.getStreamQuality(stream.id)) {
+          streamQualityManager.setStreamQuality(stream.id, tile.quality, true);
+        } else {
+          streamQualityManager.initializeStream(stream.id, tile.quality, tile.quality === 'auto');
+        }
+      }
+
+      if (tile.volume !== undefined) {
+        audioPolicyService.setTileVolume(stream.id, tile.volume);
+      }
+    }
+  }
+}
+
+export const layoutShareService = new LayoutShareService();
+export default layoutShareService;
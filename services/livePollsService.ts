@@ -820,20 +820,20 @@ class LivePollsService extends EventEmitter {
     webSocketService.on('disconnected', this.handleDisconnected.bind(this));
   }
 
-  private handlePollCreate(wsMessage: WebSocketMessage): void {
+  private handlePollCreate(wsMessage: WebSocketMessage<Poll>): void {
     const poll: Poll = wsMessage.data;
     this.activePolls.set(poll.id, poll);
     this.emit('poll_received', poll);
   }
 
-  private handlePollVote(wsMessage: WebSocketMessage): void {
+  private handlePollVote(wsMessage: WebSocketMessage<PollVote>): void {
     const vote: PollVote = wsMessage.data;
     this.addVoteToCache(vote);
     this.updatePollStatistics(vote.pollId);
     this.emit('vote_received', vote);
   }
 
-  private handlePollClose(wsMessage: WebSocketMessage): void {
+  private handlePollClose(wsMessage: WebSocketMessage<{ pollId: string }>): void {
     const { pollId } = wsMessage.data;
     const poll = this.activePolls.get(pollId);
     if (poll) {
@@ -843,19 +843,19 @@ class LivePollsService extends EventEmitter {
     }
   }
 
-  private handlePollUpdate(wsMessage: WebSocketMessage): void {
+  private handlePollUpdate(wsMessage: WebSocketMessage<Poll>): void {
     const poll: Poll = wsMessage.data;
     this.activePolls.set(poll.id, poll);
     this.emit('poll_updated', poll);
   }
 
-  private handleQASessionCreate(wsMessage: WebSocketMessage): void {
+  private handleQASessionCreate(wsMessage: WebSocketMessage<QASession>): void {
     const session: QASession = wsMessage.data;
     this.activeSessions.set(session.id, session);
     this.emit('qa_session_received', session);
   }
 
-  private handleQuestionAsk(wsMessage: WebSocketMessage): void {
+  private handleQuestionAsk(wsMessage: WebSocketMessage<Question>): void {
     const question: Question = wsMessage.data;
     const session = this.activeSessions.get(question.sessionId);
     if (session) {
@@ -865,7 +865,11 @@ class LivePollsService extends EventEmitter {
     }
   }
 
-  private handleQuestionAnswer(wsMessage: WebSocketMessage): void {
+  private handleQuestionAnswer(
+    wsMessage: WebSocketMessage<
+      { questionId: string } & Pick<Question, 'answer' | 'answeredBy' | 'answeredByUsername'>
+    >
+  ): void {
     const { questionId, answer, answeredBy, answeredByUsername } = wsMessage.data;
     const question = this.findQuestion(questionId);
     if (question) {
@@ -878,7 +882,9 @@ class LivePollsService extends EventEmitter {
     }
   }
 
-  private handleQuestionVote(wsMessage: WebSocketMessage): void {
+  private handleQuestionVote(
+    wsMessage: WebSocketMessage<{ questionId: string; vote: 'up' | 'down' }>
+  ): void {
     const { questionId, vote } = wsMessage.data;
     const question = this.findQuestion(questionId);
     if (question) {
@@ -0,0 +1,225 @@
+/**
+ * Live Status Service
+ * Refreshes live state for many streams with as few calls as each platform
+ * allows: Twitch's streams endpoint takes 100 channels per call, YouTube's
+ * videos.list takes 50 videos, and Kick is asked per channel (the request
+ * scheduler keeps those to a few at a time). Results are compared with the
+ * streams passed in and only what changed is reported.
+ */
+
+import { Stream } from '@/types/stream';
+import { kickApi } from './kickApi';
+import { getChannelKey } from './streamAdapters';
+import { twitchApi } from './twitchApi';
+import { youtubeApi } from './youtubeApi';
+
+/** Stream fields the refresh keeps current */
+export type LiveStatus = Pick<Stream, 'isLive' | 'viewerCount'> &
+  Partial<Pick<Stream, 'title' | 'category' | 'categoryId' | 'startedAt'>>;
+
+export interface LiveStatusUpdate {
+  streamId: string;
+  /** The stream as it was before this refresh */
+  stream: Stream;
+  changes: Partial<Stream>;
+  /** Set when the stream went live or offline since the previous refresh */
+  transition?: 'online' | 'offline';
+}
+
+type UpdateListener = (updates: LiveStatusUpdate[]) => void;
+
+const STATUS_FIELDS: (keyof LiveStatus)[] = [
+  'isLive',
+  'viewerCount',
+  'title',
+  'category',
+  'categoryId',
+  'startedAt',
+];
+
+const OFFLINE: LiveStatus = { isLive: false, viewerCount: 0 };
+
+// YouTube status belongs to a broadcast, everything else to the channel
+const getStatusKey = (stream: Stream): string =>
+  stream.platform === 'youtube' ? `youtube:video:${stream.sourceId}` : getChannelKey(stream);
+
+const unique = (values: string[]): string[] => Array.from(new Set(values));
+
+class LiveStatusService {
+  private listeners = new Set<UpdateListener>();
+  // Live state seen by earlier refreshes, so persisted data never counts as a transition
+  private lastSeen = new Map<string, boolean>();
+
+  /**
+   * Fetches current status for `streams` and returns one update per stream
+   * id whose data changed. Platforms that fail are skipped, not marked offline.
+   */
+  async refresh(streams: Stream[]): Promise<LiveStatusUpdate[]> {
+    // Direct media and recordings have no live status to follow
+    const tracked = streams.filter(stream => !stream.playback && !stream.recording);
+    if (!tracked.length) {
+      return [];
+    }
+
+    const results = await Promise.all([
+      this.fetchTwitch(tracked.filter(stream => stream.platform === 'twitch')),
+      this.fetchYouTube(tracked.filter(stream => stream.platform === 'youtube')),
+      this.fetchKick(tracked.filter(stream => stream.platform === 'kick')),
+    ]);
+    const statuses = new Map<string, LiveStatus>();
+    results.forEach(result => result.forEach((status, key) => statuses.set(key, status)));
+
+    const updates = new Map<string, LiveStatusUpdate>();
+    tracked.forEach(stream => {
+      const status = statuses.get(getStatusKey(stream));
+      if (!status || updates.has(stream.id)) {
+        return;
+      }
+
+      // Fields a platform didn't report are left alone
+      const known = STATUS_FIELDS.filter(field => status[field] !== undefined);
+      if (known.some(field => status[field] !== stream[field])) {
+        const changes: Partial<Stream> = { lastUpdated: new Date().toISOString() };
+        known.forEach(field => {
+          changes[field] = status[field] as never;
+        });
+        updates.set(stream.id, { streamId: stream.id, stream, changes });
+      }
+    });
+
+    statuses.forEach((status, key) => {
+      const wasLive = this.lastSeen.get(key);
+      this.lastSeen.set(key, status.isLive);
+      if (wasLive === undefined || wasLive === status.isLive) {
+        return;
+      }
+      updates.forEach(update => {
+        if (getStatusKey(update.stream) === key) {
+          update.transition = status.isLive ? 'online' : 'offline';
+        }
+      });
+    });
+
+    const list = Array.from(updates.values());
+    if (list.length) {
+      console.log(`🔄 Live status changed for ${list.length} stream(s)`);
+      this.listeners.forEach(listener => listener(list));
+    }
+    return list;
+  }
+
+  /**
+   * Listens for the updates every refresh produces. Returns an unsubscribe.
+   */
+  subscribe(listener: UpdateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async fetchTwitch(streams: Stream[]): Promise<Map<string, LiveStatus>> {
+    const statuses = new Map<string, LiveStatus>();
+    if (!streams.length) {
+      return statuses;
+    }
+
+    // Older saved streams have the login where the numeric user id belongs
+    const byId = streams.filter(stream => /^\d+$/.test(stream.channelId));
+    const byLogin = streams.filter(stream => !/^\d+$/.test(stream.channelId));
+
+    try {
+      const live = await twitchApi.getLiveStreamsForChannels(
+        unique(byId.map(stream => stream.channelId)),
+        unique(byLogin.map(stream => stream.username))
+      );
+
+      streams.forEach(stream => {
+        const match = live.find(
+          item => item.user_id === stream.channelId || item.user_login === stream.username
+        );
+        if (!match) {
+          statuses.set(getStatusKey(stream), OFFLINE);
+          return;
+        }
+        statuses.set(getStatusKey(stream), {
+          isLive: true,
+          viewerCount: match.viewer_count || 0,
+          title: match.title,
+          category: match.game_name,
+          categoryId: match.game_id || undefined,
+          startedAt: match.started_at,
+        });
+      });
+    } catch (error) {
+      console.error('❌ Failed to refresh Twitch live status:', error);
+    }
+    return statuses;
+  }
+
+  private async fetchYouTube(streams: Stream[]): Promise<Map<string, LiveStatus>> {
+    const statuses = new Map<string, LiveStatus>();
+    if (!streams.length) {
+      return statuses;
+    }
+
+    try {
+      const videos = await youtubeApi.getVideoLiveStatuses(
+        unique(streams.map(stream => stream.sourceId))
+      );
+
+      streams.forEach(stream => {
+        const video = videos.find(item => item.id === stream.sourceId);
+        const details = video?.liveStreamingDetails;
+        if (video?.snippet.liveBroadcastContent !== 'live' || details?.actualEndTime) {
+          statuses.set(getStatusKey(stream), OFFLINE);
+          return;
+        }
+        statuses.set(getStatusKey(stream), {
+          isLive: true,
+          viewerCount: Number(details?.concurrentViewers) || 0,
+          title: video.snippet.title,
+          category: video.snippet.categoryId || 'Live',
+          categoryId: video.snippet.categoryId,
+          startedAt: details?.actualStartTime,
+        });
+      });
+    } catch (error) {
+      console.error('❌ Failed to refresh YouTube live status:', error);
+    }
+    return statuses;
+  }
+
+  private async fetchKick(streams: Stream[]): Promise<Map<string, LiveStatus>> {
+    const statuses = new Map<string, LiveStatus>();
+    const slugs = unique(streams.map(stream => stream.username));
+
+    const channels = await Promise.all(slugs.map(slug => kickApi.getChannelInfo(slug)));
+    streams.forEach(stream => {
+      const channel = channels[slugs.indexOf(stream.username)];
+      if (!channel) {
+        // Lookup failed; keep what we have
+        return;
+      }
+
+      const livestream = channel.livestream;
+      if (!livestream?.is_live) {
+        statuses.set(getStatusKey(stream), OFFLINE);
+        return;
+      }
+      statuses.set(getStatusKey(stream), {
+        isLive: true,
+        viewerCount: livestream.viewer_count || 0,
+        title: livestream.session_title,
+        category: channel.category?.name,
+        categoryId: channel.category?.id,
+        startedAt: livestream.start_time,
+      });
+    });
+    return statuses;
+  }
+}
+
+export const liveStatusService = new LiveStatusService();
+
+export const refreshLiveStatus = async (streams: Stream[]) => liveStatusService.refresh(streams);
@@ -1,3 +1,6 @@
+import { platformRegistry } from './platformProviders';
+import { PlatformProvider } from './platformRegistry';
+import { fromUniversalStream } from './streamAdapters';
 import { twitchApi, TwitchStream } from './twitchApi';
 
 // Generic stream interface that works across platforms
@@ -40,7 +43,8 @@ export interface PlatformConfig {
   };
 }
 
-// Platform configurations
+// Platform configurations for the wire format. Registered providers take
+// precedence; these only fill in API/embed details and sites without a provider.
 export const PLATFORMS: Record<string, PlatformConfig> = {
   twitch: {
     name: 'twitch',
@@ -356,12 +360,18 @@ class MultiPlatformStreamingAPI {
 
   // Get platform configuration
   getPlatformConfig(platform: string): PlatformConfig | null {
+    const provider = platformRegistry.get(platform);
+    if (provider) {
+      return configFromProvider(provider, PLATFORMS[platform]);
+    }
     return PLATFORMS[platform] || null;
   }
 
   // Get all supported platforms
   getSupportedPlatforms(): PlatformConfig[] {
-    return Object.values(PLATFORMS);
+    const providerIds = platformRegistry.getIds() as string[];
+    const unregistered = Object.keys(PLATFORMS).filter(name => !providerIds.includes(name));
+    return [...providerIds, ...unregistered].map(name => this.getPlatformConfig(name)!);
   }
 
   // Generate embed URL for any platform
@@ -370,42 +380,23 @@ class MultiPlatformStreamingAPI {
     muted?: boolean;
   } = {}): string {
     const { autoplay = true, muted = true } = options;
-    const config = this.getPlatformConfig(stream.platform);
-    
-    if (!config) {
-      return stream.embedUrl;
+    const provider = platformRegistry.get(stream.platform);
+
+    if (provider) {
+      return platformRegistry.getEmbedUrl(fromUniversalStream(stream), { autoplay, muted });
     }
 
-    let embedUrl = config.embedTemplate;
-    
-    switch (stream.platform) {
-      case 'twitch':
-        embedUrl = embedUrl
-          .replace('{channel}', stream.streamerName)
-          .replace('{autoplay}', autoplay.toString())
-          .replace('{muted}', muted.toString());
-        break;
-      case 'youtube':
-        embedUrl = embedUrl
-          .replace('{videoId}', stream.id)
-          .replace('{autoplay}', autoplay ? '1' : '0')
-          .replace('{muted}', muted ? '1' : '0');
-        break;
-      case 'kick':
-        embedUrl = embedUrl
-          .replace('{channel}', stream.streamerName)
-          .replace('{autoplay}', autoplay.toString())
-          .replace('{muted}', muted.toString());
-        break;
-      case 'facebook':
-        embedUrl = embedUrl
-          .replace('{url}', encodeURIComponent(stream.streamUrl))
-          .replace('{autoplay}', autoplay.toString())
-          .replace('{muted}', muted.toString());
-        break;
+    const config = PLATFORMS[stream.platform];
+    if (!config) {
+      return stream.embedUrl;
     }
 
-    return embedUrl;
+    // Sites without a provider only support URL-based embeds
+    return config.embedTemplate
+      .replace('{url}', encodeURIComponent(stream.streamUrl))
+      .replace('{channel}', stream.streamerName)
+      .replace('{autoplay}', autoplay.toString())
+      .replace('{muted}', muted.toString());
   }
 
   // Get chat URL for platforms that support it
@@ -426,19 +417,43 @@ class MultiPlatformStreamingAPI {
   }
 }
 
+const configFromProvider = (
+  provider: PlatformProvider,
+  base?: PlatformConfig
+): PlatformConfig => ({
+  name: provider.id,
+  displayName: provider.displayName,
+  color: provider.color,
+  icon: provider.icon,
+  baseUrl: provider.baseUrl,
+  apiUrl: base?.apiUrl || provider.baseUrl,
+  embedTemplate: base?.embedTemplate || '',
+  chatUrl: base?.chatUrl,
+  features: {
+    chat: provider.capabilities.chat,
+    clips: provider.capabilities.clips,
+    vods: provider.capabilities.vods,
+    search: provider.capabilities.search,
+    categories: provider.capabilities.categories,
+  },
+});
+
 export const multiPlatformApi = new MultiPlatformStreamingAPI();
 
 // Export helper functions
 export const getPlatformColor = (platform: string): string => {
-  return PLATFORMS[platform]?.color || '#6366F1';
+  return multiPlatformApi.getPlatformConfig(platform)?.color || '#6366F1';
 };
 
 export const getPlatformIcon = (platform: string): string => {
-  return PLATFORMS[platform]?.icon || '📺';
+  return multiPlatformApi.getPlatformConfig(platform)?.icon || '📺';
 };
 
 export const getPlatformDisplayName = (platform: string): string => {
-  return PLATFORMS[platform]?.displayName || platform.charAt(0).toUpperCase() + platform.slice(1);
+  return (
+    multiPlatformApi.getPlatformConfig(platform)?.displayName ||
+    platform.charAt(0).toUpperCase() + platform.slice(1)
+  );
 };
 
 export type { UniversalStream, PlatformConfig };
\ No newline at end of file
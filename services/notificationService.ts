@@ -1,4 +1,5 @@
 // Universal Push Notification Service for cross-platform notifications
+import { Alert, AlertButton, Linking } from 'react-native';
 import { platformDetection } from '@/utils/crossPlatformStorage';
 import { pwaService } from './pwaService';
 
@@ -120,8 +121,12 @@ class UniversalNotificationService {
   }
 
   private setupEventListeners() {
+    // React Native defines window but not its DOM events
+    const hasWindowEvents =
+      typeof window !== 'undefined' && typeof window.addEventListener === 'function';
+
     // Listen for online/offline events
-    if (typeof window !== 'undefined') {
+    if (hasWindowEvents) {
       window.addEventListener('online', () => {
         this.isOnline = true;
         this.processQueuedNotifications();
@@ -133,7 +138,7 @@ class UniversalNotificationService {
     }
 
     // Listen for PWA events
-    if (typeof window !== 'undefined') {
+    if (hasWindowEvents) {
       window.addEventListener('pwa-visible', () => {
         this.handleAppVisible();
       });
@@ -234,7 +239,11 @@ class UniversalNotificationService {
       await pwaService.showNotification(title, options);
     } else {
       // Fallback to regular notification
-      new Notification(title, options);
+      const notification = new Notification(title, options);
+      const url = options.data?.url;
+      if (url) {
+        notification.onclick = () => window.open(url, '_self');
+      }
     }
   }
 
@@ -254,9 +263,14 @@ class UniversalNotificationService {
   }
 
   private async sendMobileNotification(title: string, options: NotificationOptions): Promise<void> {
-    // This would integrate with react-native push notifications
-    // For now, we'll use web notification as fallback
-    await this.sendWebNotification(title, options);
+    // Without a push notification library, show it in-app; the app is open
+    // whenever go-live detection runs
+    const url: string | undefined = options.data?.url;
+    const buttons: AlertButton[] = [{ text: 'Dismiss', style: 'cancel' }];
+    if (url) {
+      buttons.push({ text: 'Watch', onPress: () => Linking.openURL(url) });
+    }
+    Alert.alert(title, options.body, buttons);
   }
 
   public async setupPushSubscription(): Promise<void> {
@@ -363,7 +377,7 @@ class UniversalNotificationService {
       image: streamData.thumbnail,
       tag: `stream-${streamData.id}`,
       category: 'stream',
-      url: `/stream/${streamData.id}`,
+      url: streamData.url || `/stream/${streamData.id}`,
       actions: [
         {
           action: 'watch',
@@ -466,7 +480,7 @@ class UniversalNotificationService {
     }
   }
 
-  private isInQuietHours(): boolean {
+  public isInQuietHours(): boolean {
     if (!this.settings.quietHours.enabled) return false;
 
     const now = new Date();
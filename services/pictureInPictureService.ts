@@ -0,0 +1,521 @@
+/**
+ * System Picture-in-Picture
+ * Puts the grid into the OS's picture-in-picture window, unlike the in-app
+ * floating players:
+ * - Android: the activity itself shrinks into PiP, with next-stream and
+ *   mute actions; the grid hides its chrome while it's there.
+ * - iOS: AVPictureInPicture plays the focused stream when AVPlayer can
+ *   (HLS and MP4 sources); platform embeds can't leave their web view.
+ * - Web/Electron: a Document Picture-in-Picture window with a mini 2x2
+ *   multiview of the grid's streams and its own controls.
+ * The grid pushes its streams, focus and mute in with update() and handles
+ * the actions that come back.
+ */
+
+import { EventSubscription } from 'expo-modules-core';
+import { Platform } from 'react-native';
+import { SystemPip, SystemPipAction } from '@/modules/system-pip';
+import { PlaybackSource, Stream } from '@/types/stream';
+import { platformRegistry } from './platformRegistry';
+import { HLS_JS_URL } from './streamProbe';
+
+// The mini multiview is a 2x2 grid
+const MINI_MULTIVIEW_STREAMS = 4;
+const DOCUMENT_PIP_SIZE = { width: 480, height: 300 };
+const FOCUS_COLOR = '#8b5cf6';
+
+export type PictureInPictureMode = 'none' | 'document' | 'android' | 'ios';
+
+export type PictureInPictureAction =
+  | { type: 'next' }
+  | { type: 'mute' }
+  | { type: 'focus'; streamId: string };
+
+export interface PictureInPictureState {
+  /** In grid order */
+  streams: Stream[];
+  focusedStreamId: string | null;
+  muted: boolean;
+}
+
+export class PictureInPictureError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'unsupported' | 'unsupported_stream' | 'failed'
+  ) {
+    super(message);
+    this.name = 'PictureInPictureError';
+  }
+}
+
+type ModeListener = (mode: PictureInPictureMode) => void;
+type ActionHandler = (action: PictureInPictureAction) => void;
+
+// The Document Picture-in-Picture API, which TypeScript's DOM types don't include yet
+interface DocumentPictureInPicture {
+  readonly window: Window | null;
+  requestWindow(options?: { width?: number; height?: number }): Promise<Window>;
+}
+
+// The parts of hls.js the PiP window uses; it's loaded into that window from the CDN
+interface HlsPlayer {
+  loadSource(url: string): void;
+  attachMedia(media: HTMLMediaElement): void;
+  destroy(): void;
+}
+
+interface HlsConstructor {
+  new (): HlsPlayer;
+  isSupported(): boolean;
+}
+
+const getDocumentPip = (): DocumentPictureInPicture | null => {
+  if (
+    Platform.OS !== 'web' ||
+    typeof window === 'undefined' ||
+    !('documentPictureInPicture' in window)
+  ) {
+    return null;
+  }
+  return (window as Window & { documentPictureInPicture: DocumentPictureInPicture })
+    .documentPictureInPicture;
+};
+
+/**
+ * The streams the mini multiview shows: the first four, with the focused
+ * stream swapped in if it's further down the grid
+ */
+export const getMiniMultiviewStreams = (
+  streams: Stream[],
+  focusedStreamId: string | null
+): Stream[] => {
+  const visible = streams.slice(0, MINI_MULTIVIEW_STREAMS);
+  const focused = streams.find(stream => stream.id === focusedStreamId);
+  if (focused && !visible.includes(focused)) {
+    visible[visible.length - 1] = focused;
+  }
+  return visible;
+};
+
+class PictureInPictureService {
+  private mode: PictureInPictureMode = 'none';
+  private state: PictureInPictureState = { streams: [], focusedStreamId: null, muted: true };
+  private modeListeners = new Set<ModeListener>();
+  private actionHandlers = new Set<ActionHandler>();
+  private nativeSubscriptions: EventSubscription[] = [];
+
+  private pipWindow: Window | null = null;
+  private tiles = new Map<string, HTMLElement>();
+  private hlsPlayers = new Map<string, HlsPlayer>();
+  private hlsJs: Promise<HlsConstructor | null> | null = null;
+
+  isSupported(): boolean {
+    if (Platform.OS === 'web') {
+      return getDocumentPip() !== null;
+    }
+    return SystemPip?.isSupported() ?? false;
+  }
+
+  /**
+   * iOS can only show streams AVPlayer plays; everywhere else any stream works
+   */
+  canShow(stream: Stream | undefined): boolean {
+    if (!stream) {
+      return false;
+    }
+    return Platform.OS !== 'ios' || platformRegistry.getPlaybackSource(stream) !== null;
+  }
+
+  getMode(): PictureInPictureMode {
+    return this.mode;
+  }
+
+  isActive(): boolean {
+    return this.mode !== 'none';
+  }
+
+  subscribe(listener: ModeListener): () => void {
+    this.modeListeners.add(listener);
+    return () => {
+      this.modeListeners.delete(listener);
+    };
+  }
+
+  onAction(handler: ActionHandler): () => void {
+    this.actionHandlers.add(handler);
+    this.listenToNative();
+    return () => {
+      this.actionHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * The grid's current streams, focus and mute. Keeps the PiP window and
+   * the Android actions in step while PiP is open.
+   */
+  update(state: PictureInPictureState): void {
+    this.state = state;
+
+    if (Platform.OS === 'android' && SystemPip) {
+      SystemPip.setActions(this.getNativeActions()).catch(error =>
+        console.warn('⚠️ Failed to update PiP actions:', error)
+      );
+    } else if (this.mode === 'ios') {
+      SystemPip?.setMuted(state.muted);
+    } else if (this.mode === 'document') {
+      this.renderDocument();
+    }
+  }
+
+  /**
+   * Android 12+ goes into PiP by itself when the user leaves the app
+   */
+  setAutoEnterEnabled(enabled: boolean): void {
+    if (Platform.OS === 'android' && SystemPip?.isSupported()) {
+      // Mode changes and actions arrive without enter() being called
+      this.listenToNative();
+      SystemPip.setAutoEnterEnabled(enabled).catch(error =>
+        console.warn('⚠️ Failed to set PiP auto-enter:', error)
+      );
+    }
+  }
+
+  async enter(): Promise<void> {
+    if (!this.isSupported()) {
+      throw new PictureInPictureError(
+        "This device doesn't support picture in picture",
+        'unsupported'
+      );
+    }
+    if (this.state.streams.length === 0) {
+      throw new PictureInPictureError('Add a stream first', 'failed');
+    }
+
+    if (Platform.OS === 'web') {
+      await this.openDocumentPip();
+      return;
+    }
+
+    this.listenToNative();
+    if (Platform.OS === 'android') {
+      await SystemPip.setActions(this.getNativeActions());
+      if (!(await SystemPip.enter())) {
+        throw new PictureInPictureError("Couldn't start picture in picture", 'failed');
+      }
+      this.setMode('android');
+      return;
+    }
+
+    const stream =
+      this.state.streams.find(candidate => candidate.id === this.state.focusedStreamId) ||
+      this.state.streams[0];
+    const source = platformRegistry.getPlaybackSource(stream);
+    if (!source) {
+      throw new PictureInPictureError(
+        `${stream.displayName} can't play in picture in picture on iOS`,
+        'unsupported_stream'
+      );
+    }
+    try {
+      if (await SystemPip.start(source.url, this.state.muted)) {
+        this.setMode('ios');
+      }
+    } catch (error) {
+      console.error('❌ Failed to start picture in picture:', error);
+      throw new PictureInPictureError("Couldn't start picture in picture", 'failed');
+    }
+  }
+
+  async exit(): Promise<void> {
+    if (this.mode === 'document') {
+      this.pipWindow?.close();
+    } else if (this.mode === 'ios') {
+      await SystemPip?.stop();
+    }
+    // Android PiP is left by expanding the window; there's nothing to call
+  }
+
+  private setMode(mode: PictureInPictureMode): void {
+    if (mode === this.mode) {
+      return;
+    }
+    this.mode = mode;
+    console.log('🔄 Picture in picture:', mode);
+    this.modeListeners.forEach(listener => listener(mode));
+  }
+
+  private emitAction(action: PictureInPictureAction): void {
+    this.actionHandlers.forEach(handler => handler(action));
+  }
+
+  private getNativeActions(): SystemPipAction[] {
+    const actions: SystemPipAction[] = [];
+    if (this.state.streams.length > 1) {
+      actions.push({ id: 'next', title: 'Next stream', icon: 'next' });
+    }
+    if (this.state.muted) {
+      actions.push({ id: 'mute', title: 'Unmute', icon: 'unmute' });
+    } else {
+      actions.push({ id: 'mute', title: 'Mute', icon: 'mute' });
+    }
+    return actions;
+  }
+
+  private listenToNative(): void {
+    if (!SystemPip || this.nativeSubscriptions.length > 0) {
+      return;
+    }
+    this.nativeSubscriptions = [
+      SystemPip.addListener('onAction', ({ id }) => {
+        if (id === 'next' || id === 'mute') {
+          this.emitAction({ type: id });
+        }
+      }),
+      SystemPip.addListener('onModeChange', ({ isInPictureInPicture }) => {
+        if (isInPictureInPicture) {
+          this.setMode(Platform.OS === 'ios' ? 'ios' : 'android');
+        } else {
+          this.setMode('none');
+        }
+      }),
+    ];
+  }
+
+  // Document Picture-in-Picture
+
+  private async openDocumentPip(): Promise<void> {
+    if (this.pipWindow) {
+      this.pipWindow.focus();
+      return;
+    }
+
+    const documentPip = getDocumentPip();
+    if (!documentPip) {
+      throw new PictureInPictureError(
+        "This device doesn't support picture in picture",
+        'unsupported'
+      );
+    }
+
+    try {
+      const pipWindow = await documentPip.requestWindow(DOCUMENT_PIP_SIZE);
+      this.pipWindow = pipWindow;
+      pipWindow.addEventListener('pagehide', () => {
+        this.pipWindow = null;
+        this.tiles.clear();
+        this.hlsPlayers.forEach(player => player.destroy());
+        this.hlsPlayers.clear();
+        this.hlsJs = null;
+        this.setMode('none');
+      });
+      this.setMode('document');
+      this.renderDocument();
+    } catch (error) {
+      console.error('❌ Failed to open picture in picture window:', error);
+      throw new PictureInPictureError("Couldn't open picture in picture", 'failed');
+    }
+  }
+
+  // Plain DOM: the window is a separate document, outside React Native Web's styles
+  private renderDocument(): void {
+    const doc = this.pipWindow?.document;
+    if (!doc) {
+      return;
+    }
+
+    const streams = getMiniMultiviewStreams(this.state.streams, this.state.focusedStreamId);
+    let grid = doc.getElementById('grid');
+    if (!grid) {
+      grid = this.buildDocument(doc);
+    }
+
+    const columns = streams.length > 1 ? 2 : 1;
+    const rows = streams.length > 2 ? 2 : 1;
+    grid.style.gridTemplateColumns = `repeat(${columns}, 1fr)`;
+    grid.style.gridTemplateRows = `repeat(${rows}, 1fr)`;
+
+    // Tiles are reused so unchanged streams keep playing
+    const ids = new Set(streams.map(stream => stream.id));
+    this.tiles.forEach((tile, streamId) => {
+      if (!ids.has(streamId)) {
+        tile.remove();
+        this.tiles.delete(streamId);
+        this.hlsPlayers.get(streamId)?.destroy();
+        this.hlsPlayers.delete(streamId);
+      }
+    });
+    streams.forEach(stream => {
+      const tile = this.tiles.get(stream.id) || this.buildTile(doc, stream);
+      grid!.appendChild(tile);
+      this.updateTile(tile, stream);
+    });
+
+    const mute = doc.getElementById('mute');
+    if (mute) {
+      mute.textContent = this.state.muted ? 'Unmute' : 'Mute';
+    }
+    const next = doc.getElementById('next');
+    if (next) {
+      next.style.display = this.state.streams.length > 1 ? '' : 'none';
+    }
+  }
+
+  private buildDocument(doc: Document): HTMLElement {
+    doc.title = 'Streamyyy';
+    Object.assign(doc.body.style, {
+      margin: '0',
+      height: '100vh',
+      display: 'flex',
+      flexDirection: 'column',
+      background: '#000',
+      fontFamily: 'system-ui, sans-serif',
+    });
+
+    const grid = doc.createElement('div');
+    grid.id = 'grid';
+    Object.assign(grid.style, { flex: '1', display: 'grid', gap: '2px', minHeight: '0' });
+
+    const bar = doc.createElement('div');
+    Object.assign(bar.style, { display: 'flex', gap: '6px', padding: '6px' });
+    bar.append(
+      this.buildButton(doc, 'next', 'Next stream', () => this.emitAction({ type: 'next' })),
+      this.buildButton(doc, 'mute', 'Unmute', () => this.emitAction({ type: 'mute' }))
+    );
+
+    doc.body.append(grid, bar);
+    return grid;
+  }
+
+  private buildButton(
+    doc: Document,
+    id: string,
+    label: string,
+    onClick: () => void
+  ): HTMLButtonElement {
+    const button = doc.createElement('button');
+    button.id = id;
+    button.textContent = label;
+    Object.assign(button.style, {
+      flex: '1',
+      padding: '6px',
+      border: '0',
+      borderRadius: '6px',
+      background: '#2a2a2a',
+      color: '#fff',
+      fontSize: '12px',
+      fontWeight: '600',
+      cursor: 'pointer',
+    });
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  private buildTile(doc: Document, stream: Stream): HTMLElement {
+    const tile = doc.createElement('div');
+    Object.assign(tile.style, { position: 'relative', minHeight: '0', overflow: 'hidden' });
+
+    // Media the app plays itself goes in a <video>; everything else is the platform embed
+    const media = doc.createElement(
+      platformRegistry.getPlaybackSource(stream) ? 'video' : 'iframe'
+    );
+    media.setAttribute('allow', 'autoplay; fullscreen');
+    Object.assign(media.style, {
+      width: '100%',
+      height: '100%',
+      border: '0',
+      background: '#000',
+      objectFit: 'contain',
+    });
+
+    // Clicking the name moves the audio to this tile
+    const label = doc.createElement('button');
+    label.textContent = stream.displayName;
+    Object.assign(label.style, {
+      position: 'absolute',
+      left: '4px',
+      bottom: '4px',
+      padding: '2px 6px',
+      border: '0',
+      borderRadius: '4px',
+      background: 'rgba(0, 0, 0, 0.7)',
+      color: '#fff',
+      fontSize: '11px',
+      cursor: 'pointer',
+    });
+    label.addEventListener('click', () => this.emitAction({ type: 'focus', streamId: stream.id }));
+
+    tile.append(media, label);
+    this.tiles.set(stream.id, tile);
+    return tile;
+  }
+
+  private updateTile(tile: HTMLElement, stream: Stream): void {
+    const hasFocus = stream.id === this.state.focusedStreamId;
+    const muted = this.state.muted || !hasFocus;
+    tile.style.boxShadow = hasFocus ? `inset 0 0 0 2px ${FOCUS_COLOR}` : 'none';
+
+    const media = tile.firstElementChild as HTMLIFrameElement | HTMLVideoElement;
+    if (media.tagName === 'VIDEO' && 'muted' in media) {
+      const source = platformRegistry.getPlaybackSource(stream)!;
+      if (media.dataset.source !== source.url) {
+        media.dataset.source = source.url;
+        media.autoplay = true;
+        media.playsInline = true;
+        this.setVideoSource(media, stream.id, source);
+      }
+      media.muted = muted;
+      return;
+    }
+
+    // Embeds only take mute in their URL, so a change reloads that tile
+    const url = platformRegistry.getEmbedUrl(stream, { muted, autoplay: true });
+    if (media.getAttribute('src') !== url) {
+      media.setAttribute('src', url);
+    }
+  }
+
+  // Chrome, the only browser with Document PiP, can't play HLS in a <video> by itself
+  private setVideoSource(video: HTMLVideoElement, streamId: string, source: PlaybackSource): void {
+    this.hlsPlayers.get(streamId)?.destroy();
+    this.hlsPlayers.delete(streamId);
+
+    if (source.type !== 'hls' || video.canPlayType('application/vnd.apple.mpegurl')) {
+      video.src = source.url;
+      return;
+    }
+
+    this.loadHlsJs().then(Hls => {
+      // The tile may have moved on while hls.js loaded
+      if (!Hls?.isSupported() || !video.isConnected || video.dataset.source !== source.url) {
+        return;
+      }
+      const player = new Hls();
+      player.loadSource(source.url);
+      player.attachMedia(video);
+      this.hlsPlayers.set(streamId, player);
+    });
+  }
+
+  private loadHlsJs(): Promise<HlsConstructor | null> {
+    const pipWindow = this.pipWindow as (Window & { Hls?: HlsConstructor }) | null;
+    if (!pipWindow) {
+      return Promise.resolve(null);
+    }
+    if (!this.hlsJs) {
+      this.hlsJs = new Promise(resolve => {
+        const script = pipWindow.document.createElement('script');
+        script.src = HLS_JS_URL;
+        script.addEventListener('load', () => resolve(pipWindow.Hls || null));
+        script.addEventListener('error', () => {
+          console.warn('⚠️ Failed to load hls.js into the picture in picture window');
+          resolve(null);
+        });
+        pipWindow.document.head.append(script);
+      });
+    }
+    return this.hlsJs;
+  }
+}
+
+export const pictureInPictureService = new PictureInPictureService();
+export default pictureInPictureService;
@@ -0,0 +1,24 @@
+import { customStreamProvider } from './customStreamProvider';
+import { kickProvider } from './kickProvider';
+import { PlatformProvider, platformRegistry } from './platformRegistry';
+import { twitchProvider } from './twitchProvider';
+import { youtubeProvider } from './youtubeProvider';
+
+/**
+ * Providers that ship with the app. A new site is added by writing a
+ * provider module and listing it here; everything else reads the registry.
+ */
+export const BUILT_IN_PROVIDERS: PlatformProvider[] = [
+  twitchProvider,
+  youtubeProvider,
+  kickProvider,
+  customStreamProvider,
+];
+
+BUILT_IN_PROVIDERS.forEach(provider => {
+  if (!platformRegistry.has(provider.id)) {
+    platformRegistry.register(provider);
+  }
+});
+
+export { platformRegistry };
@@ -0,0 +1,194 @@
+import { PlaybackSource, RecordingKind, Stream, StreamPlatform } from '@/types/stream';
+
+/**
+ * Feature flags a provider advertises. Screens use these to decide which
+ * platforms to query (e.g. only `search` providers show up in search).
+ */
+export interface PlatformCapabilities {
+  discovery: boolean;
+  search: boolean;
+  chat: boolean;
+  clips: boolean;
+  vods: boolean;
+  categories: boolean;
+}
+
+/**
+ * Where a stream's chat comes from. `kind` tells the chat layer which client
+ * to use; `embed` is the read-only fallback rendered in a WebView.
+ */
+export interface PlatformChatSource {
+  kind: 'twitch-irc' | 'youtube-live-chat' | 'kick-pusher' | 'embed';
+  /** Channel login/slug or video id the chat client joins */
+  channel: string;
+  url?: string;
+}
+
+/**
+ * A channel looked up by login, slug or URL. `stream` is set when the
+ * channel is live right now.
+ */
+export interface ResolvedChannel {
+  platform: StreamPlatform;
+  channelId: string;
+  username: string;
+  displayName: string;
+  profileImageUrl: string;
+  isLive: boolean;
+  stream?: Stream;
+}
+
+/**
+ * One page of a channel's recordings. Pass `cursor` back to get the next page;
+ * it is missing on the last one.
+ */
+export interface RecordingPage {
+  streams: Stream[];
+  cursor?: string;
+}
+
+export interface EmbedOptions {
+  autoplay?: boolean;
+  muted?: boolean;
+}
+
+/**
+ * Everything the app needs from a streaming site. Each provider lives in its
+ * own module and registers itself with `platformRegistry`, so discovery,
+ * search and the grid never switch on platform ids.
+ */
+export interface PlatformProvider {
+  id: StreamPlatform;
+  displayName: string;
+  color: string;
+  icon: string;
+  baseUrl: string;
+  capabilities: PlatformCapabilities;
+
+  /** Top live streams for the discovery feed */
+  discover(limit: number): Promise<Stream[]>;
+  /** Live streams matching a free-text query */
+  search(query: string, limit: number): Promise<Stream[]>;
+  /** Looks up a channel from a login/slug or a pasted channel URL */
+  resolveChannel(input: string): Promise<ResolvedChannel | null>;
+  /** True when `url` points at this platform */
+  matchesUrl(url: string): boolean;
+  getEmbedUrl(stream: Stream, options?: EmbedOptions): string;
+  getChannelUrl(stream: Stream): string;
+  getChatSource(stream: Stream): PlatformChatSource | null;
+  /**
+   * Direct media for providers the app plays itself instead of embedding a
+   * web player. Streams with a playback source render in the HLS player.
+   */
+  getPlaybackSource?(stream: Stream): PlaybackSource | null;
+  /**
+   * Past broadcasts (`vods` capability) or clips (`clips` capability) of a
+   * channel as streams with a `recording`, newest or most viewed first.
+   */
+  getRecordings?(
+    channel: Pick<Stream, 'channelId' | 'username'>,
+    kind: RecordingKind,
+    cursor?: string
+  ): Promise<RecordingPage>;
+  /** Looks up a VOD or clip from a pasted URL, honouring its timestamp */
+  resolveRecording?(url: string): Promise<Stream | null>;
+  /** Link to a recording on the platform's site, `seconds` in when given */
+  getRecordingUrl?(stream: Stream, seconds?: number): string;
+}
+
+type RegistryListener = (providers: PlatformProvider[]) => void;
+
+class PlatformRegistry {
+  private providers = new Map<StreamPlatform, PlatformProvider>();
+  private listeners = new Set<RegistryListener>();
+
+  register(provider: PlatformProvider): () => void {
+    if (this.providers.has(provider.id)) {
+      console.warn(`⚠️ Replacing platform provider: ${provider.id}`);
+    }
+
+    this.providers.set(provider.id, provider);
+    console.log(`🔌 Registered platform provider: ${provider.id}`);
+    this.notify();
+
+    return () => this.unregister(provider.id);
+  }
+
+  unregister(id: StreamPlatform): void {
+    if (this.providers.delete(id)) {
+      this.notify();
+    }
+  }
+
+  has(id: string): id is StreamPlatform {
+    return this.providers.has(id as StreamPlatform);
+  }
+
+  get(id: string): PlatformProvider | null {
+    return this.providers.get(id as StreamPlatform) || null;
+  }
+
+  getAll(): PlatformProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  getIds(): StreamPlatform[] {
+    return Array.from(this.providers.keys());
+  }
+
+  withCapability(capability: keyof PlatformCapabilities): PlatformProvider[] {
+    return this.getAll().filter(provider => provider.capabilities[capability]);
+  }
+
+  findByUrl(url: string): PlatformProvider | null {
+    return this.getAll().find(provider => provider.matchesUrl(url)) || null;
+  }
+
+  getEmbedUrl(stream: Stream, options?: EmbedOptions): string {
+    const provider = this.get(stream.platform);
+    if (!provider) {
+      return stream.embedUrl;
+    }
+
+    try {
+      return provider.getEmbedUrl(stream, options);
+    } catch (error) {
+      console.error(`❌ Failed to build ${stream.platform} embed URL:`, error);
+      return stream.embedUrl;
+    }
+  }
+
+  getPlaybackSource(stream: Stream): PlaybackSource | null {
+    return this.get(stream.platform)?.getPlaybackSource?.(stream) || null;
+  }
+
+  getRecordingUrl(stream: Stream, seconds?: number): string {
+    const provider = this.get(stream.platform);
+    if (!provider) {
+      return stream.embedUrl;
+    }
+    return provider.getRecordingUrl?.(stream, seconds) || provider.getChannelUrl(stream);
+  }
+
+  subscribe(listener: RegistryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    const providers = this.getAll();
+    this.listeners.forEach(listener => listener(providers));
+  }
+}
+
+export const platformRegistry = new PlatformRegistry();
+
+export const registerPlatformProvider = (provider: PlatformProvider) => {
+  return platformRegistry.register(provider);
+};
+
+export const getPlatformProvider = (id: string) => {
+  return platformRegistry.get(id);
+};
@@ -1,26 +1,17 @@
-import { twitchApi, TwitchStream } from './twitchApi';
-import { youtubeApi, YouTubeStream } from './youtubeApi';
-import { kickApi, KickStream } from './kickApi';
+import { Stream, StreamPlatform } from '@/types/stream';
+import { platformRegistry } from './platformProviders';
+import { ResolvedChannel } from './platformRegistry';
 
-export type Platform = 'twitch' | 'youtube' | 'kick';
+export type Platform = StreamPlatform;
 
-export interface UnifiedStream {
-  id: string;
-  platform: Platform;
-  title: string;
+/**
+ * Canonical `Stream` plus the legacy field names that the discovery screens
+ * still read.
+ */
+export interface UnifiedStream extends Stream {
   streamerName: string;
   streamerDisplayName: string;
-  viewerCount: number;
-  thumbnailUrl: string;
-  profileImageUrl: string;
-  category: string;
-  isLive: boolean;
   startedAt: string;
-  embedUrl: string;
-  language?: string;
-  tags?: string[];
-  description?: string;
-  originalData: TwitchStream | YouTubeStream | KickStream;
 }
 
 export interface PlatformStats {
@@ -32,122 +23,46 @@ export interface PlatformStats {
 }
 
 class PlatformService {
-  private platformColors = {
-    twitch: '#9146FF',
-    youtube: '#FF0000',
-    kick: '#53FC18',
-  };
-
-  private platformIcons = {
-    twitch: 'twitch',
-    youtube: 'youtube',
-    kick: 'kick',
-  };
-
   constructor() {
     console.log('Platform Service initialized');
   }
 
-  private normalizeTwitchStream(stream: TwitchStream): UnifiedStream {
+  private toUnifiedStream(stream: Stream): UnifiedStream {
     return {
-      id: `twitch_${stream.id}`,
-      platform: 'twitch',
-      title: stream.title,
-      streamerName: stream.user_login,
-      streamerDisplayName: stream.user_name,
-      viewerCount: stream.viewer_count,
-      thumbnailUrl: twitchApi.getThumbnailUrl(stream.thumbnail_url),
-      profileImageUrl: twitchApi.getProfileImageUrl(stream.user_login),
-      category: stream.game_name,
-      isLive: stream.type === 'live',
-      startedAt: stream.started_at,
-      embedUrl: twitchApi.generateEmbedUrl(stream.user_login),
-      language: stream.language,
-      tags: stream.tag_ids,
-      originalData: stream,
+      ...stream,
+      streamerName: stream.username,
+      streamerDisplayName: stream.displayName,
+      startedAt: stream.startedAt || '',
     };
   }
 
-  private normalizeYouTubeStream(stream: YouTubeStream): UnifiedStream {
-    return {
-      id: `youtube_${stream.id}`,
-      platform: 'youtube',
-      title: stream.title,
-      streamerName: stream.channelTitle,
-      streamerDisplayName: stream.channelTitle,
-      viewerCount: stream.viewerCount,
-      thumbnailUrl: stream.thumbnailUrl,
-      profileImageUrl: youtubeApi.getThumbnailUrl(stream.channelId, 'high'),
-      category: stream.categoryId || 'Live',
-      isLive: stream.isLive,
-      startedAt: stream.publishedAt,
-      embedUrl: youtubeApi.generateEmbedUrl(stream.id),
-      description: stream.description,
-      tags: stream.tags,
-      originalData: stream,
-    };
-  }
-
-  private normalizeKickStream(stream: KickStream): UnifiedStream {
-    return {
-      id: `kick_${stream.id}`,
-      platform: 'kick',
-      title: stream.session_title,
-      streamerName: stream.channel.slug,
-      streamerDisplayName: stream.channel.user.username,
-      viewerCount: stream.viewer_count,
-      thumbnailUrl: kickApi.getThumbnailUrl(stream),
-      profileImageUrl: stream.channel.user.profile_pic,
-      category: stream.channel.category?.name || 'Live',
-      isLive: stream.is_live,
-      startedAt: stream.start_time,
-      embedUrl: kickApi.generateEmbedUrl(stream.channel.slug),
-      language: stream.language,
-      originalData: stream,
-    };
+  private getProvider(platform: Platform) {
+    const provider = platformRegistry.get(platform);
+    if (!provider) {
+      throw new Error(`Unsupported platform: ${platform}`);
+    }
+    return provider;
   }
 
   async getAllLiveStreams(limit: number = 20): Promise<UnifiedStream[]> {
     console.log('🔄 Fetching live streams from all platforms...');
     
     try {
-      const [twitchStreams, youtubeStreams, kickStreams] = await Promise.allSettled([
-        twitchApi.getTopStreams(Math.ceil(limit / 3)),
-        youtubeApi.getLiveStreams(Math.ceil(limit / 3)),
-        kickApi.getLiveStreams(Math.ceil(limit / 3)),
-      ]);
+      const providers = platformRegistry.withCapability('discovery');
+      const perPlatformLimit = Math.ceil(limit / Math.max(providers.length, 1));
+      const results = await Promise.allSettled(
+        providers.map(provider => provider.discover(perPlatformLimit))
+      );
 
       const allStreams: UnifiedStream[] = [];
 
-      // Process Twitch streams
-      if (twitchStreams.status === 'fulfilled') {
-        const normalizedTwitch = twitchStreams.value.data.map(stream => 
-          this.normalizeTwitchStream(stream)
-        );
-        allStreams.push(...normalizedTwitch);
-      } else {
-        console.warn('Failed to fetch Twitch streams:', twitchStreams.reason);
-      }
-
-      // Process YouTube streams
-      if (youtubeStreams.status === 'fulfilled') {
-        const normalizedYouTube = youtubeStreams.value.items.map(stream => 
-          this.normalizeYouTubeStream(stream)
-        );
-        allStreams.push(...normalizedYouTube);
-      } else {
-        console.warn('Failed to fetch YouTube streams:', youtubeStreams.reason);
-      }
-
-      // Process Kick streams
-      if (kickStreams.status === 'fulfilled') {
-        const normalizedKick = kickStreams.value.data.map(stream => 
-          this.normalizeKickStream(stream)
-        );
-        allStreams.push(...normalizedKick);
-      } else {
-        console.warn('Failed to fetch Kick streams:', kickStreams.reason);
-      }
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          allStreams.push(...result.value.map(stream => this.toUnifiedStream(stream)));
+        } else {
+          console.warn(`Failed to fetch ${providers[index].displayName} streams:`, result.reason);
+        }
+      });
 
       // Sort by viewer count and limit results
       const sortedStreams = allStreams
@@ -166,53 +81,26 @@ class PlatformService {
     console.log(`🔄 Fetching streams from ${platform}...`);
     
     try {
-      switch (platform) {
-        case 'twitch': {
-          const response = await twitchApi.getTopStreams(limit);
-          return response.data.map(stream => this.normalizeTwitchStream(stream));
-        }
-        case 'youtube': {
-          const response = await youtubeApi.getLiveStreams(limit);
-          return response.items.map(stream => this.normalizeYouTubeStream(stream));
-        }
-        case 'kick': {
-          const response = await kickApi.getLiveStreams(limit);
-          return response.data.map(stream => this.normalizeKickStream(stream));
-        }
-        default:
-          throw new Error(`Unsupported platform: ${platform}`);
-      }
+      const streams = await this.getProvider(platform).discover(limit);
+      return streams.map(stream => this.toUnifiedStream(stream));
     } catch (error) {
       console.error(`❌ Failed to fetch streams from ${platform}:`, error);
       throw error;
     }
   }
 
-  async searchStreams(query: string, platforms: Platform[] = ['twitch', 'youtube', 'kick'], limit: number = 20): Promise<UnifiedStream[]> {
+  async searchStreams(
+    query: string,
+    platforms: Platform[] = platformRegistry.withCapability('search').map(provider => provider.id),
+    limit: number = 20
+  ): Promise<UnifiedStream[]> {
     console.log(`🔍 Searching for "${query}" across platforms: ${platforms.join(', ')}`);
     
     try {
       const searchPromises = platforms.map(async (platform) => {
         const perPlatformLimit = Math.ceil(limit / platforms.length);
-        
-        switch (platform) {
-          case 'twitch': {
-            const response = await twitchApi.searchStreams(query, perPlatformLimit);
-            return response.data.map(stream => this.normalizeTwitchStream(stream));
-          }
-          case 'youtube': {
-            const response = await youtubeApi.searchStreams(query, perPlatformLimit);
-            return response.items.map(stream => this.normalizeYouTubeStream(stream));
-          }
-          case 'kick': {
-            const channels = await kickApi.searchChannels(query, perPlatformLimit);
-            return channels
-              .filter(channel => channel.livestream && channel.livestream.is_live)
-              .map(channel => this.normalizeKickStream(channel.livestream!));
-          }
-          default:
-            return [];
-        }
+        const streams = await this.getProvider(platform).search(query, perPlatformLimit);
+        return streams.map(stream => this.toUnifiedStream(stream));
       });
 
       const results = await Promise.allSettled(searchPromises);
@@ -243,85 +131,34 @@ class PlatformService {
     console.log('📊 Fetching platform statistics...');
     
     try {
-      const [twitchStreams, youtubeStreams, kickStreams] = await Promise.allSettled([
-        twitchApi.getTopStreams(100),
-        youtubeApi.getLiveStreams(100),
-        kickApi.getLiveStreams(100),
-      ]);
-
-      const stats: PlatformStats[] = [];
-
-      // Twitch stats
-      if (twitchStreams.status === 'fulfilled') {
-        const streams = twitchStreams.value.data;
-        const totalViewers = streams.reduce((sum, stream) => sum + stream.viewer_count, 0);
-        const categories = streams.map(s => s.game_name);
-        const topCategory = this.getMostFrequent(categories);
-        
-        stats.push({
-          platform: 'twitch',
-          totalStreams: streams.length,
-          averageViewers: Math.round(totalViewers / streams.length),
-          topCategory: topCategory || 'Unknown',
-          isOnline: true,
-        });
-      } else {
-        stats.push({
-          platform: 'twitch',
-          totalStreams: 0,
-          averageViewers: 0,
-          topCategory: 'Unknown',
-          isOnline: false,
-        });
-      }
+      const providers = platformRegistry.withCapability('discovery');
+      const results = await Promise.allSettled(providers.map(provider => provider.discover(100)));
+
+      const stats: PlatformStats[] = results.map((result, index) => {
+        const platform = providers[index].id;
+
+        if (result.status === 'rejected' || result.value.length === 0) {
+          return {
+            platform,
+            totalStreams: 0,
+            averageViewers: 0,
+            topCategory: 'Unknown',
+            isOnline: result.status === 'fulfilled',
+          };
+        }
 
-      // YouTube stats
-      if (youtubeStreams.status === 'fulfilled') {
-        const streams = youtubeStreams.value.items;
+        const streams = result.value;
         const totalViewers = streams.reduce((sum, stream) => sum + stream.viewerCount, 0);
-        const categories = streams.map(s => s.categoryId || 'Live');
-        const topCategory = this.getMostFrequent(categories);
-        
-        stats.push({
-          platform: 'youtube',
-          totalStreams: streams.length,
-          averageViewers: Math.round(totalViewers / streams.length),
-          topCategory: topCategory || 'Live',
-          isOnline: true,
-        });
-      } else {
-        stats.push({
-          platform: 'youtube',
-          totalStreams: 0,
-          averageViewers: 0,
-          topCategory: 'Live',
-          isOnline: false,
-        });
-      }
+        const topCategory = this.getMostFrequent(streams.map(s => s.category || 'Live'));
 
-      // Kick stats
-      if (kickStreams.status === 'fulfilled') {
-        const streams = kickStreams.value.data;
-        const totalViewers = streams.reduce((sum, stream) => sum + stream.viewer_count, 0);
-        const categories = streams.map(s => s.channel.category?.name || 'Live');
-        const topCategory = this.getMostFrequent(categories);
-        
-        stats.push({
-          platform: 'kick',
+        return {
+          platform,
           totalStreams: streams.length,
           averageViewers: Math.round(totalViewers / streams.length),
-          topCategory: topCategory || 'Live',
+          topCategory: topCategory || 'Unknown',
           isOnline: true,
-        });
-      } else {
-        stats.push({
-          platform: 'kick',
-          totalStreams: 0,
-          averageViewers: 0,
-          topCategory: 'Live',
-          isOnline: false,
-        });
-      }
+        };
+      });
 
       console.log('✅ Platform statistics fetched');
       return stats;
@@ -331,6 +168,25 @@ class PlatformService {
     }
   }
 
+  async resolveChannel(input: string, platform?: Platform): Promise<ResolvedChannel | null> {
+    // Pasted URLs pick their provider; bare names are tried on every platform in order
+    const provider = platform ? this.getProvider(platform) : platformRegistry.findByUrl(input);
+    const candidates = provider ? [provider] : platformRegistry.getAll();
+
+    for (const candidate of candidates) {
+      try {
+        const channel = await candidate.resolveChannel(input);
+        if (channel) {
+          return channel;
+        }
+      } catch (error) {
+        console.warn(`Failed to resolve "${input}" on ${candidate.displayName}:`, error);
+      }
+    }
+
+    return null;
+  }
+
   private getMostFrequent(arr: string[]): string | null {
     if (arr.length === 0) return null;
     
@@ -345,15 +201,15 @@ class PlatformService {
   }
 
   getPlatformColor(platform: Platform): string {
-    return this.platformColors[platform];
+    return platformRegistry.get(platform)?.color || '#6366F1';
   }
 
   getPlatformIcon(platform: Platform): string {
-    return this.platformIcons[platform];
+    return platformRegistry.get(platform)?.icon || '📺';
   }
 
   generateEmbedUrl(stream: UnifiedStream): string {
-    return stream.embedUrl;
+    return platformRegistry.getEmbedUrl(stream);
   }
 
   async getRecommendedStreams(userPreferences: {
@@ -366,7 +222,7 @@ class PlatformService {
     console.log('🎯 Fetching recommended streams based on preferences...');
     
     try {
-      const platforms = userPreferences.platforms || ['twitch', 'youtube', 'kick'];
+      const platforms = userPreferences.platforms || platformRegistry.getIds();
       const allStreams = await this.getAllLiveStreams(limit * 2); // Get more to filter
       
       let filteredStreams = allStreams.filter(stream => {
@@ -438,4 +294,8 @@ export const fetchPlatformStats = async () => {
 
 export const fetchRecommendedStreams = async (preferences: any = {}, limit: number = 20) => {
   return platformService.getRecommendedStreams(preferences, limit);
-};
\ No newline at end of file
+};
+
+export const resolveChannel = async (input: string, platform?: Platform) => {
+  return platformService.resolveChannel(input, platform);
+};
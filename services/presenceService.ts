@@ -689,7 +689,9 @@ class PresenceService extends EventEmitter {
     webSocketService.on('disconnected', this.handleDisconnected.bind(this));
   }
 
-  private handlePresenceUpdate(wsMessage: WebSocketMessage): void {
+  private handlePresenceUpdate(
+    wsMessage: WebSocketMessage<{ userId: string; status: PresenceStatus; customMessage?: string }>
+  ): void {
     const { userId, status, customMessage } = wsMessage.data;
     const user = this.onlineUsers.get(userId);
     
@@ -705,7 +707,7 @@ class PresenceService extends EventEmitter {
     }
   }
 
-  private handleUserOnline(wsMessage: WebSocketMessage): void {
+  private handleUserOnline(wsMessage: WebSocketMessage<UserPresence>): void {
     const user: UserPresence = wsMessage.data;
     this.onlineUsers.set(user.userId, user);
     
@@ -732,7 +734,9 @@ class PresenceService extends EventEmitter {
     this.emit('user_online', user);
   }
 
-  private handleUserOffline(wsMessage: WebSocketMessage): void {
+  private handleUserOffline(
+    wsMessage: WebSocketMessage<{ userId: string; username: string }>
+  ): void {
     const { userId, username } = wsMessage.data;
     const user = this.onlineUsers.get(userId);
     
@@ -758,7 +762,9 @@ class PresenceService extends EventEmitter {
     }
   }
 
-  private handleActivityUpdate(wsMessage: WebSocketMessage): void {
+  private handleActivityUpdate(
+    wsMessage: WebSocketMessage<{ userId: string; activity: UserActivity }>
+  ): void {
     const { userId, activity } = wsMessage.data;
     const user = this.onlineUsers.get(userId);
     
@@ -770,7 +776,9 @@ class PresenceService extends EventEmitter {
     }
   }
 
-  private handleLocationUpdate(wsMessage: WebSocketMessage): void {
+  private handleLocationUpdate(
+    wsMessage: WebSocketMessage<{ userId: string; location: UserLocation }>
+  ): void {
     const { userId, location } = wsMessage.data;
     const user = this.onlineUsers.get(userId);
     
@@ -782,7 +790,7 @@ class PresenceService extends EventEmitter {
     }
   }
 
-  private handleFriendRequest(wsMessage: WebSocketMessage): void {
+  private handleFriendRequest(wsMessage: WebSocketMessage<FriendRequest>): void {
     const request: FriendRequest = wsMessage.data;
     
     if (!this.friendsList) {
@@ -820,7 +828,9 @@ class PresenceService extends EventEmitter {
     this.emit('friend_request_received', request);
   }
 
-  private handleFriendRequestResponse(wsMessage: WebSocketMessage): void {
+  private handleFriendRequestResponse(
+    wsMessage: WebSocketMessage<{ requestId: string; accept: boolean; respondedAt: string }>
+  ): void {
     const { requestId, accept, respondedAt } = wsMessage.data;
     
     if (this.friendsList) {
@@ -849,13 +859,13 @@ class PresenceService extends EventEmitter {
     }
   }
 
-  private handleNotificationCreate(wsMessage: WebSocketMessage): void {
+  private handleNotificationCreate(wsMessage: WebSocketMessage<LiveNotification>): void {
     const notification: LiveNotification = wsMessage.data;
     this.notifications.set(notification.id, notification);
     this.emit('notification_received', notification);
   }
 
-  private handleNotificationRead(wsMessage: WebSocketMessage): void {
+  private handleNotificationRead(wsMessage: WebSocketMessage<{ notificationId: string }>): void {
     const { notificationId } = wsMessage.data;
     const notification = this.notifications.get(notificationId);
     if (notification) {
@@ -865,12 +875,12 @@ class PresenceService extends EventEmitter {
     }
   }
 
-  private handlePresenceStats(wsMessage: WebSocketMessage): void {
+  private handlePresenceStats(wsMessage: WebSocketMessage<PresenceStatistics>): void {
     this.presenceStats = wsMessage.data;
     this.emit('presence_stats_updated', this.presenceStats);
   }
 
-  private handleUserSearchResults(wsMessage: WebSocketMessage): void {
+  private handleUserSearchResults(wsMessage: WebSocketMessage<UserPresence[]>): void {
     const results: UserPresence[] = wsMessage.data;
     this.emit('user_search_results', results);
   }
@@ -509,13 +509,19 @@ class RealtimeChatService extends EventEmitter {
     webSocketService.on('disconnected', this.handleDisconnected.bind(this));
   }
 
-  private handleChatMessage(wsMessage: WebSocketMessage): void {
+  private handleChatMessage(wsMessage: WebSocketMessage<ChatMessage>): void {
     const message: ChatMessage = wsMessage.data;
     this.addMessageToCache(message);
     this.emit('message_received', message);
   }
 
-  private handleMessageReaction(wsMessage: WebSocketMessage): void {
+  private handleMessageReaction(
+    wsMessage: WebSocketMessage<{
+      messageId: string;
+      reaction: ChatReaction;
+      action: 'add' | 'remove';
+    }>
+  ): void {
     const { messageId, reaction, action } = wsMessage.data;
     const message = this.messageCache.get(messageId);
     
@@ -534,7 +540,9 @@ class RealtimeChatService extends EventEmitter {
     }
   }
 
-  private handleMessageEdit(wsMessage: WebSocketMessage): void {
+  private handleMessageEdit(
+    wsMessage: WebSocketMessage<{ messageId: string; newContent: string; editedAt: string }>
+  ): void {
     const { messageId, newContent, editedAt } = wsMessage.data;
     const message = this.messageCache.get(messageId);
     
@@ -546,7 +554,7 @@ class RealtimeChatService extends EventEmitter {
     }
   }
 
-  private handleMessageDelete(wsMessage: WebSocketMessage): void {
+  private handleMessageDelete(wsMessage: WebSocketMessage<{ messageId: string }>): void {
     const { messageId } = wsMessage.data;
     const message = this.messageCache.get(messageId);
     
@@ -557,7 +565,9 @@ class RealtimeChatService extends EventEmitter {
     }
   }
 
-  private handleTypingStart(wsMessage: WebSocketMessage): void {
+  private handleTypingStart(
+    wsMessage: WebSocketMessage<Pick<TypingIndicator, 'userId' | 'username' | 'roomId'>>
+  ): void {
     const { userId, username, roomId } = wsMessage.data;
     
     if (userId === this.currentUser?.id) return;
@@ -574,7 +584,7 @@ class RealtimeChatService extends EventEmitter {
     this.emit('typing_start', indicator);
   }
 
-  private handleTypingStop(wsMessage: WebSocketMessage): void {
+  private handleTypingStop(wsMessage: WebSocketMessage<{ userId: string }>): void {
     const { userId } = wsMessage.data;
     
     if (userId === this.currentUser?.id) return;
@@ -587,13 +597,13 @@ class RealtimeChatService extends EventEmitter {
     }
   }
 
-  private handleUserJoin(wsMessage: WebSocketMessage): void {
+  private handleUserJoin(wsMessage: WebSocketMessage<ChatUser>): void {
     const user: ChatUser = wsMessage.data;
     this.users.set(user.id, user);
     this.emit('user_joined', user);
   }
 
-  private handleUserLeave(wsMessage: WebSocketMessage): void {
+  private handleUserLeave(wsMessage: WebSocketMessage<{ userId: string }>): void {
     const { userId } = wsMessage.data;
     const user = this.users.get(userId);
     
@@ -614,7 +614,7 @@ class RealtimeReactionsService extends EventEmitter {
     webSocketService.on('disconnected', this.handleDisconnected.bind(this));
   }
 
-  private handleReactionReceived(wsMessage: WebSocketMessage): void {
+  private handleReactionReceived(wsMessage: WebSocketMessage<ReactionData>): void {
     const reaction: ReactionData = wsMessage.data;
     
     this.activeReactions.set(reaction.id, reaction);
@@ -623,7 +623,9 @@ class RealtimeReactionsService extends EventEmitter {
     this.emit('reaction_received', reaction);
   }
 
-  private handleReactionBurst(wsMessage: WebSocketMessage): void {
+  private handleReactionBurst(
+    wsMessage: WebSocketMessage<{ burst: ReactionBurst; reactions: ReactionData[] }>
+  ): void {
     const { burst, reactions } = wsMessage.data;
     
     this.reactionBursts.set(burst.id, burst);
@@ -636,13 +638,15 @@ class RealtimeReactionsService extends EventEmitter {
     this.emit('reaction_burst_received', { burst, reactions });
   }
 
-  private handleInteractiveElementCreate(wsMessage: WebSocketMessage): void {
+  private handleInteractiveElementCreate(wsMessage: WebSocketMessage<InteractiveElement>): void {
     const element: InteractiveElement = wsMessage.data;
     this.interactiveElements.set(element.id, element);
     this.emit('interactive_element_received', element);
   }
 
-  private handleInteractiveElementInteract(wsMessage: WebSocketMessage): void {
+  private handleInteractiveElementInteract(
+    wsMessage: WebSocketMessage<{ elementId: string; interaction: ElementInteraction }>
+  ): void {
     const { elementId, interaction } = wsMessage.data;
     const element = this.interactiveElements.get(elementId);
     
@@ -652,13 +656,13 @@ class RealtimeReactionsService extends EventEmitter {
     }
   }
 
-  private handleInteractiveElementUpdate(wsMessage: WebSocketMessage): void {
+  private handleInteractiveElementUpdate(wsMessage: WebSocketMessage<InteractiveElement>): void {
     const element: InteractiveElement = wsMessage.data;
     this.interactiveElements.set(element.id, element);
     this.emit('interactive_element_updated', element);
   }
 
-  private handleReactionStats(wsMessage: WebSocketMessage): void {
+  private handleReactionStats(wsMessage: WebSocketMessage<ReactionStats>): void {
     this.reactionStats = wsMessage.data;
     this.emit('reaction_stats_updated', this.reactionStats);
   }
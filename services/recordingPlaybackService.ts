@@ -0,0 +1,118 @@
+/**
+ * Recording Playback Service
+ * Connects grid controls to the VOD and clip players they drive. Each
+ * RecordingPlayer registers the commands its WebView understands and reports
+ * its position back; controls read that state and send seeks, speed changes
+ * and pause/play by stream id.
+ */
+
+export const PLAYBACK_RATES = [0.5, 1, 1.25, 1.5, 2];
+
+export interface RecordingPlaybackState {
+  /** Seconds into the recording */
+  position: number;
+  /** Seconds; 0 until the player knows */
+  duration: number;
+  playing: boolean;
+  rate: number;
+  /** When `position` was reported, for estimating where playback is now */
+  updatedAt: number;
+}
+
+export interface RecordingPlayerCommands {
+  seekTo(seconds: number): void;
+  setPlaybackRate(rate: number): void;
+  setPaused(paused: boolean): void;
+}
+
+type PlaybackListener = (streamId: string, state: RecordingPlaybackState) => void;
+
+class RecordingPlaybackService {
+  private players = new Map<string, RecordingPlayerCommands>();
+  private states = new Map<string, RecordingPlaybackState>();
+  private listeners = new Set<PlaybackListener>();
+
+  /**
+   * Called by a player once its WebView is ready. Returns an unregister.
+   */
+  register(streamId: string, commands: RecordingPlayerCommands): () => void {
+    this.players.set(streamId, commands);
+    return () => {
+      if (this.players.get(streamId) === commands) {
+        this.players.delete(streamId);
+        this.states.delete(streamId);
+      }
+    };
+  }
+
+  isRegistered(streamId: string): boolean {
+    return this.players.has(streamId);
+  }
+
+  report(streamId: string, state: Omit<RecordingPlaybackState, 'updatedAt'>): void {
+    const next = { ...state, updatedAt: Date.now() };
+    this.states.set(streamId, next);
+    this.listeners.forEach(listener => listener(streamId, next));
+  }
+
+  getState(streamId: string): RecordingPlaybackState | null {
+    return this.states.get(streamId) || null;
+  }
+
+  /**
+   * Where playback is right now, extrapolated from the last report.
+   */
+  getCurrentPosition(streamId: string): number | null {
+    const state = this.states.get(streamId);
+    if (!state) {
+      return null;
+    }
+    if (!state.playing) {
+      return state.position;
+    }
+    return state.position + ((Date.now() - state.updatedAt) / 1000) * state.rate;
+  }
+
+  seekTo(streamId: string, seconds: number): void {
+    const state = this.states.get(streamId);
+    const upper = state?.duration || Infinity;
+    const position = Math.min(Math.max(0, seconds), upper);
+    this.players.get(streamId)?.seekTo(position);
+    if (state) {
+      this.report(streamId, { ...state, position });
+    }
+  }
+
+  seekBy(streamId: string, seconds: number): void {
+    const position = this.getCurrentPosition(streamId);
+    if (position !== null) {
+      this.seekTo(streamId, position + seconds);
+    }
+  }
+
+  setPlaybackRate(streamId: string, rate: number): void {
+    this.players.get(streamId)?.setPlaybackRate(rate);
+    const state = this.states.get(streamId);
+    if (state) {
+      // Re-anchor the position so extrapolation switches speed from now on
+      const position = this.getCurrentPosition(streamId) ?? state.position;
+      this.report(streamId, { ...state, position, rate });
+    }
+  }
+
+  setPaused(streamId: string, paused: boolean): void {
+    this.players.get(streamId)?.setPaused(paused);
+  }
+
+  /**
+   * Listens for position reports from every player. Returns an unsubscribe.
+   */
+  subscribe(listener: PlaybackListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const recordingPlaybackService = new RecordingPlaybackService();
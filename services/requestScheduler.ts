@@ -0,0 +1,481 @@
+/**
+ * Request Scheduler
+ * Every Twitch, YouTube and Kick API call goes through here. Each platform
+ * has a token bucket that follows the rate-limit headers it returns, YouTube
+ * calls are charged against the daily quota, identical calls share one
+ * request, and streams on screen are served before discovery prefetching.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export type ApiPlatform = 'twitch' | 'youtube' | 'kick';
+
+/** Lanes drain in this order */
+export type RequestPriority = 'visible' | 'normal' | 'prefetch';
+
+export type QuotaLevel = 'ok' | 'low' | 'critical' | 'exhausted';
+
+export interface ScheduleOptions {
+  platform: ApiPlatform;
+  /** Calls with the same key made while one is pending share its result */
+  key: string;
+  priority?: RequestPriority;
+  /** YouTube quota units charged for each request sent */
+  cost?: number;
+}
+
+export interface ScheduledRequestInit extends RequestInit {
+  /** Aborts the request this long after it leaves the queue */
+  timeoutMs?: number;
+}
+
+/** Sends one request once the platform's bucket has a token for it */
+export type ScheduledFetch = (url: string, init?: ScheduledRequestInit) => Promise<Response>;
+
+export interface PlatformRequestMetrics {
+  tokens: number;
+  capacity: number;
+  queued: Record<RequestPriority, number>;
+  inFlight: number;
+  sent: number;
+  coalesced: number;
+  /** 429 responses */
+  throttled: number;
+  /** Network failures and error statuses */
+  failed: number;
+  avgWaitMs: number;
+  /** Epoch ms the platform asked us to wait until */
+  pausedUntil: number | null;
+}
+
+export interface YouTubeQuotaUsage {
+  /** Pacific-time date; YouTube resets quotas at midnight Pacific */
+  day: string;
+  used: number;
+  budget: number;
+  level: QuotaLevel;
+}
+
+export interface RequestSchedulerMetrics {
+  platforms: Record<ApiPlatform, PlatformRequestMetrics>;
+  youtubeQuota: YouTubeQuotaUsage;
+}
+
+export type RequestSchedulerErrorCode = 'quota-exhausted' | 'quota-reserved';
+
+/**
+ * Request refused before it was sent, e.g. the YouTube budget is spent.
+ */
+export class RequestSchedulerError extends Error {
+  constructor(
+    message: string,
+    public readonly platform: ApiPlatform,
+    public readonly code: RequestSchedulerErrorCode
+  ) {
+    super(message);
+    this.name = 'RequestSchedulerError';
+  }
+}
+
+interface BucketConfig {
+  capacity: number;
+  refillPerSecond: number;
+  maxConcurrent: number;
+}
+
+const BUCKETS: Record<ApiPlatform, BucketConfig> = {
+  // Helix gives each app token 800 points a minute; the proxy reports the rest
+  twitch: { capacity: 800, refillPerSecond: 800 / 60, maxConcurrent: 6 },
+  // Cost is metered in quota units; the bucket only smooths bursts
+  youtube: { capacity: 10, refillPerSecond: 5, maxConcurrent: 4 },
+  // Kick's API is unofficial and sits behind Cloudflare, so stay well under it
+  kick: { capacity: 10, refillPerSecond: 1, maxConcurrent: 3 },
+};
+
+const PRIORITY_ORDER: RequestPriority[] = ['visible', 'normal', 'prefetch'];
+const PLATFORMS: ApiPlatform[] = ['twitch', 'youtube', 'kick'];
+
+const QUOTA_STORAGE_KEY = '@streamyyy_youtube_quota';
+const DEFAULT_YOUTUBE_QUOTA = 10000;
+// Prefetching stops at the first threshold so the rest is kept for streams on screen
+const QUOTA_LOW_RATIO = 0.8;
+const QUOTA_CRITICAL_RATIO = 0.95;
+const QUOTA_SAVE_DELAY_MS = 2000;
+// Used when neither Retry-After nor Ratelimit-Reset says how long to wait
+const DEFAULT_THROTTLE_MS = 5000;
+const WAIT_SMOOTHING = 0.2;
+
+interface PendingRequest {
+  priority: RequestPriority;
+  cost: number;
+  promise: Promise<unknown>;
+}
+
+interface Ticket {
+  request: PendingRequest;
+  enqueuedAt: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+interface PlatformState {
+  config: BucketConfig;
+  tokens: number;
+  refilledAt: number;
+  pausedUntil: number;
+  queue: Ticket[];
+  inFlight: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  sent: number;
+  coalesced: number;
+  throttled: number;
+  failed: number;
+  avgWaitMs: number;
+}
+
+type QuotaListener = (usage: YouTubeQuotaUsage) => void;
+
+/** Pacific date as YYYY-MM-DD */
+const getQuotaDay = (): string => {
+  try {
+    return new Date().toLocaleDateString('en-CA', { timeZone: 'America/Los_Angeles' });
+  } catch {
+    // No time zone data; Pacific standard time is close enough
+    return new Date(Date.now() - 8 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  }
+};
+
+const getQuotaLevel = (used: number, budget: number): QuotaLevel => {
+  if (used >= budget) {
+    return 'exhausted';
+  }
+  if (used >= budget * QUOTA_CRITICAL_RATIO) {
+    return 'critical';
+  }
+  if (used >= budget * QUOTA_LOW_RATIO) {
+    return 'low';
+  }
+  return 'ok';
+};
+
+class RequestScheduler {
+  private platforms = {} as Record<ApiPlatform, PlatformState>;
+  private pending = new Map<string, PendingRequest>();
+  private readonly quotaBudget =
+    Number(process.env.EXPO_PUBLIC_YOUTUBE_DAILY_QUOTA) || DEFAULT_YOUTUBE_QUOTA;
+  private quota = { day: getQuotaDay(), used: 0 };
+  private quotaLevel: QuotaLevel = 'ok';
+  private quotaLoadPromise: Promise<void> | null = null;
+  private quotaSaveTimer: ReturnType<typeof setTimeout> | null = null;
+  private quotaListeners = new Set<QuotaListener>();
+
+  constructor() {
+    PLATFORMS.forEach(platform => {
+      const config = BUCKETS[platform];
+      this.platforms[platform] = {
+        config,
+        tokens: config.capacity,
+        refilledAt: Date.now(),
+        pausedUntil: 0,
+        queue: [],
+        inFlight: 0,
+        timer: null,
+        sent: 0,
+        coalesced: 0,
+        throttled: 0,
+        failed: 0,
+        avgWaitMs: 0,
+      };
+    });
+  }
+
+  /**
+   * Runs `run` with a fetch that waits its turn. A call whose key matches a
+   * pending one gets that call's result instead, and raises its priority.
+   */
+  schedule<T>(options: ScheduleOptions, run: (send: ScheduledFetch) => Promise<T>): Promise<T> {
+    const key = `${options.platform}:${options.key}`;
+    const priority = options.priority || 'normal';
+    const existing = this.pending.get(key);
+    if (existing) {
+      this.platforms[options.platform].coalesced += 1;
+      if (PRIORITY_ORDER.indexOf(priority) < PRIORITY_ORDER.indexOf(existing.priority)) {
+        existing.priority = priority;
+      }
+      return existing.promise as Promise<T>;
+    }
+
+    const request: PendingRequest = { priority, cost: options.cost || 0, promise: null };
+    const send: ScheduledFetch = (url, init) => this.send(options.platform, request, url, init);
+    request.promise = run(send).finally(() => {
+      this.pending.delete(key);
+    });
+    this.pending.set(key, request);
+    return request.promise as Promise<T>;
+  }
+
+  /**
+   * Charges the rest of today's YouTube budget, e.g. after YouTube answers
+   * `quotaExceeded` because other apps share the key.
+   */
+  markQuotaExhausted(): void {
+    this.rollQuotaDay();
+    this.quota.used = Math.max(this.quota.used, this.quotaBudget);
+    this.quotaChanged();
+  }
+
+  getQuotaUsage(): YouTubeQuotaUsage {
+    this.rollQuotaDay();
+    return { ...this.quota, budget: this.quotaBudget, level: this.quotaLevel };
+  }
+
+  /**
+   * Listens for YouTube quota crossing into a new level. Returns an unsubscribe.
+   */
+  subscribeToQuota(listener: QuotaListener): () => void {
+    this.quotaListeners.add(listener);
+    return () => {
+      this.quotaListeners.delete(listener);
+    };
+  }
+
+  getMetrics(): RequestSchedulerMetrics {
+    const platforms = {} as Record<ApiPlatform, PlatformRequestMetrics>;
+    PLATFORMS.forEach(platform => {
+      const state = this.platforms[platform];
+      this.refill(state);
+      const queued = { visible: 0, normal: 0, prefetch: 0 };
+      state.queue.forEach(ticket => {
+        queued[ticket.request.priority] += 1;
+      });
+      platforms[platform] = {
+        tokens: Math.floor(state.tokens),
+        capacity: state.config.capacity,
+        queued,
+        inFlight: state.inFlight,
+        sent: state.sent,
+        coalesced: state.coalesced,
+        throttled: state.throttled,
+        failed: state.failed,
+        avgWaitMs: Math.round(state.avgWaitMs),
+        pausedUntil: state.pausedUntil > Date.now() ? state.pausedUntil : null,
+      };
+    });
+    return { platforms, youtubeQuota: this.getQuotaUsage() };
+  }
+
+  private async send(
+    platform: ApiPlatform,
+    request: PendingRequest,
+    url: string,
+    init: ScheduledRequestInit = {}
+  ): Promise<Response> {
+    if (platform === 'youtube') {
+      await this.loadQuota();
+    }
+
+    const state = this.platforms[platform];
+    await new Promise<void>((resolve, reject) => {
+      state.queue.push({ request, enqueuedAt: Date.now(), resolve, reject });
+      this.drain(platform);
+    });
+
+    const { timeoutMs, ...fetchInit } = init;
+    const controller = timeoutMs ? new AbortController() : null;
+    const timeoutId = controller ? setTimeout(() => controller.abort(), timeoutMs) : null;
+
+    try {
+      const response = await fetch(
+        url,
+        controller ? { ...fetchInit, signal: controller.signal } : fetchInit
+      );
+      this.recordResponse(platform, response);
+      return response;
+    } catch (error) {
+      state.failed += 1;
+      throw error;
+    } finally {
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+      }
+      state.inFlight -= 1;
+      this.drain(platform);
+    }
+  }
+
+  private drain(platform: ApiPlatform): void {
+    const state = this.platforms[platform];
+    if (state.timer) {
+      clearTimeout(state.timer);
+      state.timer = null;
+    }
+
+    while (state.queue.length && state.inFlight < state.config.maxConcurrent) {
+      const now = Date.now();
+      if (state.pausedUntil > now) {
+        this.wake(platform, state.pausedUntil - now);
+        return;
+      }
+
+      this.refill(state);
+      if (state.tokens < 1) {
+        this.wake(platform, ((1 - state.tokens) / state.config.refillPerSecond) * 1000);
+        return;
+      }
+
+      const ticket = this.takeNext(state);
+      const refusal = platform === 'youtube' ? this.checkQuota(ticket.request) : null;
+      if (refusal) {
+        ticket.reject(refusal);
+        continue;
+      }
+
+      state.tokens -= 1;
+      state.inFlight += 1;
+      state.sent += 1;
+      state.avgWaitMs += (now - ticket.enqueuedAt - state.avgWaitMs) * WAIT_SMOOTHING;
+      if (platform === 'youtube') {
+        this.chargeQuota(ticket.request.cost);
+      }
+      ticket.resolve();
+    }
+  }
+
+  private wake(platform: ApiPlatform, delayMs: number): void {
+    this.platforms[platform].timer = setTimeout(() => this.drain(platform), Math.ceil(delayMs));
+  }
+
+  /** Highest lane first, oldest first within a lane */
+  private takeNext(state: PlatformState): Ticket {
+    let best = 0;
+    state.queue.forEach((ticket, index) => {
+      const rank = PRIORITY_ORDER.indexOf(ticket.request.priority);
+      if (rank < PRIORITY_ORDER.indexOf(state.queue[best].request.priority)) {
+        best = index;
+      }
+    });
+    return state.queue.splice(best, 1)[0];
+  }
+
+  private refill(state: PlatformState): void {
+    const now = Date.now();
+    const elapsed = (now - state.refilledAt) / 1000;
+    state.tokens = Math.min(
+      state.config.capacity,
+      state.tokens + elapsed * state.config.refillPerSecond
+    );
+    state.refilledAt = now;
+  }
+
+  /**
+   * Follows the Ratelimit-* headers Twitch sends (and the proxy passes on)
+   * and backs off after a 429.
+   */
+  private recordResponse(platform: ApiPlatform, response: Response): void {
+    const state = this.platforms[platform];
+    const remaining = response.headers.get('Ratelimit-Remaining');
+    const reset = Number(response.headers.get('Ratelimit-Reset')) * 1000;
+
+    if (remaining !== null && !isNaN(Number(remaining))) {
+      this.refill(state);
+      state.tokens = Math.min(state.tokens, Number(remaining));
+      if (Number(remaining) === 0 && reset > Date.now()) {
+        state.pausedUntil = Math.max(state.pausedUntil, reset);
+      }
+    }
+
+    if (response.status === 429) {
+      state.throttled += 1;
+      const retryAfter = Number(response.headers.get('Retry-After')) * 1000;
+      let waitUntil = Date.now() + DEFAULT_THROTTLE_MS;
+      if (retryAfter > 0) {
+        waitUntil = Date.now() + retryAfter;
+      } else if (reset > Date.now()) {
+        waitUntil = reset;
+      }
+      state.pausedUntil = Math.max(state.pausedUntil, waitUntil);
+      console.warn(`🚫 ${platform} rate limited, pausing requests for ${waitUntil - Date.now()}ms`);
+    } else if (!response.ok) {
+      state.failed += 1;
+    }
+  }
+
+  private checkQuota(request: PendingRequest): RequestSchedulerError | null {
+    this.rollQuotaDay();
+    if (this.quota.used + request.cost > this.quotaBudget) {
+      return new RequestSchedulerError(
+        'YouTube API quota for today is used up',
+        'youtube',
+        'quota-exhausted'
+      );
+    }
+    if (request.priority === 'prefetch' && this.quotaLevel !== 'ok') {
+      return new RequestSchedulerError(
+        'YouTube API quota is running low; saving it for streams on screen',
+        'youtube',
+        'quota-reserved'
+      );
+    }
+    return null;
+  }
+
+  private chargeQuota(cost: number): void {
+    if (!cost) {
+      return;
+    }
+    this.rollQuotaDay();
+    this.quota.used += cost;
+    this.quotaChanged();
+  }
+
+  private rollQuotaDay(): void {
+    const day = getQuotaDay();
+    if (day !== this.quota.day) {
+      this.quota = { day, used: 0 };
+      this.quotaChanged();
+    }
+  }
+
+  private quotaChanged(): void {
+    const level = getQuotaLevel(this.quota.used, this.quotaBudget);
+    if (level !== this.quotaLevel) {
+      this.quotaLevel = level;
+      if (level !== 'ok') {
+        console.warn(
+          `⚠️ YouTube API quota ${level}: ${this.quota.used}/${this.quotaBudget} units used today`
+        );
+      }
+      const usage = this.getQuotaUsage();
+      this.quotaListeners.forEach(listener => listener(usage));
+    }
+
+    if (!this.quotaSaveTimer) {
+      this.quotaSaveTimer = setTimeout(() => {
+        this.quotaSaveTimer = null;
+        AsyncStorage.setItem(QUOTA_STORAGE_KEY, JSON.stringify(this.quota)).catch(error =>
+          console.error('❌ Failed to save YouTube quota usage:', error)
+        );
+      }, QUOTA_SAVE_DELAY_MS);
+    }
+  }
+
+  private loadQuota(): Promise<void> {
+    if (!this.quotaLoadPromise) {
+      this.quotaLoadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(QUOTA_STORAGE_KEY);
+          const saved = stored ? (JSON.parse(stored) as { day: string; used: number }) : null;
+          if (saved && saved.day === getQuotaDay()) {
+            this.quota.used = Math.max(this.quota.used, saved.used);
+            this.quotaChanged();
+          }
+        } catch (error) {
+          console.error('❌ Failed to load YouTube quota usage:', error);
+        }
+      })();
+    }
+    return this.quotaLoadPromise;
+  }
+}
+
+export const requestScheduler = new RequestScheduler();
@@ -0,0 +1,360 @@
+import { Stream, StreamPlatform } from '@/types/stream';
+import { kickApi, KickStream } from './kickApi';
+import type { UniversalStream } from './multiPlatformStreamingApi';
+import type { UnifiedStream } from './platformService';
+import {
+  parseTwitchTimestamp,
+  twitchApi,
+  TwitchClip,
+  TwitchStream,
+  TwitchVideo,
+} from './twitchApi';
+import { youtubeApi, YouTubeStream } from './youtubeApi';
+
+/**
+ * Adapters that turn platform API payloads (and the legacy stream shapes we
+ * used to persist) into the canonical `Stream` model from types/stream.ts.
+ */
+
+export const createStreamId = (platform: StreamPlatform, sourceId: string): string =>
+  `${platform}_${sourceId}`;
+
+export const createChannelKey = (platform: StreamPlatform, channelId: string): string =>
+  `${platform}:${channelId}`;
+
+export const getChannelKey = (stream: Pick<Stream, 'platform' | 'channelId'>): string =>
+  createChannelKey(stream.platform, stream.channelId);
+
+export const isSameChannel = (
+  a: Pick<Stream, 'platform' | 'channelId'>,
+  b: Pick<Stream, 'platform' | 'channelId'>
+): boolean => a.platform === b.platform && a.channelId === b.channelId;
+
+// Any platform id is kept as-is so streams from providers that register after
+// persisted state is rehydrated survive migration; only missing ids fall back.
+const asPlatform = (value: unknown): StreamPlatform =>
+  typeof value === 'string' && value ? (value as StreamPlatform) : 'twitch';
+
+const stripPlatformPrefix = (platform: StreamPlatform, id: string): string =>
+  id.startsWith(`${platform}_`) ? id.slice(platform.length + 1) : id;
+
+const safeTwitchEmbedUrl = (login: string): string => {
+  try {
+    return twitchApi.generateEmbedUrl(login);
+  } catch {
+    return '';
+  }
+};
+
+export function fromTwitchStream(stream: TwitchStream): Stream {
+  const login = stream.user_login || stream.user_name?.toLowerCase() || '';
+
+  return {
+    id: createStreamId('twitch', stream.id),
+    sourceId: stream.id,
+    channelId: stream.user_id || login,
+    username: login,
+    displayName: stream.user_name || login,
+    title: stream.title || '',
+    platform: 'twitch',
+    thumbnailUrl: stream.thumbnail_url ? twitchApi.getThumbnailUrl(stream.thumbnail_url) : '',
+    viewerCount: stream.viewer_count || 0,
+    isLive: stream.type ? stream.type === 'live' : true,
+    category: stream.game_name || '',
+    categoryId: stream.game_id || undefined,
+    embedUrl: login ? safeTwitchEmbedUrl(login) : '',
+    profileImageUrl: login ? twitchApi.getProfileImageUrl(login) : '',
+    language: stream.language,
+    maturityRating: stream.is_mature ? 'mature' : 'general',
+    tags: stream.tag_ids || [],
+    startedAt: stream.started_at,
+  };
+}
+
+/**
+ * A past broadcast, highlight or upload. `startAt` is where playback begins,
+ * e.g. from a `?t=` link.
+ */
+export function fromTwitchVideo(video: TwitchVideo, startAt?: number): Stream {
+  return {
+    id: createStreamId('twitch', `v${video.id}`),
+    sourceId: `v${video.id}`,
+    channelId: video.user_id,
+    username: video.user_login,
+    displayName: video.user_name || video.user_login,
+    title: video.title || '',
+    platform: 'twitch',
+    thumbnailUrl: video.thumbnail_url ? twitchApi.getThumbnailUrl(video.thumbnail_url) : '',
+    viewerCount: video.view_count || 0,
+    isLive: false,
+    category: video.type === 'archive' ? 'Past broadcast' : 'Highlight',
+    embedUrl: twitchApi.generateVideoEmbedUrl(video.id, { startAt }),
+    profileImageUrl: twitchApi.getProfileImageUrl(video.user_login),
+    description: video.description,
+    language: video.language,
+    startedAt: video.created_at,
+    recording: {
+      type: 'vod',
+      id: video.id,
+      duration: parseTwitchTimestamp(video.duration) || 0,
+      createdAt: video.created_at,
+      startAt,
+    },
+  };
+}
+
+/**
+ * Clips only carry the broadcaster's display name, so pass `login` when it's
+ * known; the lowercased display name is the fallback.
+ */
+export function fromTwitchClip(clip: TwitchClip, login?: string): Stream {
+  const username = login || clip.broadcaster_name.toLowerCase();
+
+  return {
+    id: createStreamId('twitch', `clip_${clip.id}`),
+    sourceId: `clip_${clip.id}`,
+    channelId: clip.broadcaster_id,
+    username,
+    displayName: clip.broadcaster_name,
+    title: clip.title || '',
+    platform: 'twitch',
+    thumbnailUrl: clip.thumbnail_url,
+    viewerCount: clip.view_count || 0,
+    isLive: false,
+    category: 'Clip',
+    categoryId: clip.game_id || undefined,
+    embedUrl: twitchApi.generateClipEmbedUrl(clip.id),
+    profileImageUrl: twitchApi.getProfileImageUrl(username),
+    language: clip.language,
+    startedAt: clip.created_at,
+    recording: {
+      type: 'clip',
+      id: clip.id,
+      duration: clip.duration,
+      createdAt: clip.created_at,
+    },
+  };
+}
+
+export function fromYouTubeStream(stream: YouTubeStream): Stream {
+  return {
+    id: createStreamId('youtube', stream.id),
+    sourceId: stream.id,
+    channelId: stream.channelId,
+    username: stream.channelId,
+    displayName: stream.channelTitle,
+    title: stream.title,
+    platform: 'youtube',
+    thumbnailUrl: stream.thumbnailUrl || youtubeApi.getThumbnailUrl(stream.id),
+    viewerCount: stream.viewerCount || 0,
+    isLive: stream.isLive,
+    category: stream.categoryId || 'Live',
+    categoryId: stream.categoryId,
+    embedUrl: youtubeApi.generateEmbedUrl(stream.id),
+    profileImageUrl: youtubeApi.getThumbnailUrl(stream.channelId, 'high'),
+    description: stream.description,
+    tags: stream.tags || [],
+    startedAt: stream.actualStartTime || stream.publishedAt,
+  };
+}
+
+export function fromKickStream(stream: KickStream): Stream {
+  return {
+    id: createStreamId('kick', stream.id),
+    sourceId: stream.id,
+    channelId: stream.channel?.id || stream.channel_id,
+    username: stream.channel?.slug || stream.slug,
+    displayName: stream.channel?.user?.username || stream.channel?.slug || stream.slug,
+    title: stream.session_title,
+    platform: 'kick',
+    thumbnailUrl: kickApi.getThumbnailUrl(stream),
+    viewerCount: stream.viewer_count || 0,
+    isLive: stream.is_live,
+    category: stream.channel?.category?.name || 'Live',
+    categoryId: stream.channel?.category?.id,
+    embedUrl: kickApi.generateEmbedUrl(stream.channel?.slug || stream.slug),
+    profileImageUrl: stream.channel?.user?.profile_pic || '',
+    language: stream.language,
+    startedAt: stream.start_time,
+  };
+}
+
+export function fromUnifiedStream(stream: UnifiedStream): Stream {
+  const platform = asPlatform(stream.platform);
+  const sourceId = stream.sourceId || stripPlatformPrefix(platform, stream.id);
+
+  return {
+    id: createStreamId(platform, sourceId),
+    sourceId,
+    channelId: stream.channelId || stream.streamerName,
+    username: stream.username || stream.streamerName,
+    displayName: stream.displayName || stream.streamerDisplayName || stream.streamerName,
+    title: stream.title,
+    platform,
+    thumbnailUrl: stream.thumbnailUrl,
+    viewerCount: stream.viewerCount || 0,
+    isLive: stream.isLive,
+    category: stream.category,
+    embedUrl: stream.embedUrl,
+    profileImageUrl: stream.profileImageUrl,
+    description: stream.description,
+    language: stream.language,
+    tags: stream.tags,
+    startedAt: stream.startedAt,
+  };
+}
+
+export function fromUniversalStream(stream: UniversalStream): Stream {
+  const platform = asPlatform(stream.platform);
+  const sourceId = stripPlatformPrefix(platform, stream.id);
+
+  return {
+    id: createStreamId(platform, sourceId),
+    sourceId,
+    channelId:
+      stream.platformData?.user_id || stream.platformData?.channelId || stream.streamerName,
+    username: stream.streamerName,
+    displayName: stream.streamerDisplayName || stream.streamerName,
+    title: stream.title,
+    platform,
+    thumbnailUrl: stream.thumbnailUrl,
+    viewerCount: stream.viewerCount || 0,
+    isLive: stream.isLive,
+    category: stream.game,
+    embedUrl: stream.embedUrl,
+    profileImageUrl: stream.profileImageUrl,
+    language: stream.language,
+    maturityRating: stream.isMature ? 'mature' : 'general',
+    tags: stream.tags,
+    startedAt: stream.startTime,
+  };
+}
+
+/**
+ * Loose shape accepted by `toStream` for hand-built stream records, e.g. the
+ * `{ id, username, title, game, viewers }` objects the favorites screen used
+ * to pass to `addToMultiView`.
+ */
+export interface PartialStreamInput {
+  id: string;
+  platform?: string;
+  username?: string;
+  displayName?: string;
+  title?: string;
+  game?: string;
+  category?: string;
+  viewers?: number;
+  viewerCount?: number;
+  thumbnail?: string;
+  thumbnailUrl?: string;
+  [key: string]: unknown;
+}
+
+export type StreamSource =
+  | Stream
+  | TwitchStream
+  | YouTubeStream
+  | KickStream
+  | UnifiedStream
+  | UniversalStream
+  | PartialStreamInput;
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null;
+
+function fromPartialStream(value: Record<string, any>): Stream | null {
+  const platform = asPlatform(value.platform);
+  const rawId = value.sourceId || value.id;
+  const username = value.username || value.user_login || value.user_name;
+
+  if (!rawId && !username) {
+    return null;
+  }
+
+  const sourceId = stripPlatformPrefix(platform, String(rawId || username));
+  const login = String(username || sourceId);
+
+  return {
+    id: createStreamId(platform, sourceId),
+    sourceId,
+    channelId: String(value.channelId || value.user_id || login),
+    username: login,
+    displayName: value.displayName || value.user_name || login,
+    title: value.title || '',
+    platform,
+    thumbnailUrl: value.thumbnailUrl || value.thumbnail_url || value.thumbnail || '',
+    viewerCount: value.viewerCount ?? value.viewer_count ?? value.viewers ?? 0,
+    isLive: value.isLive ?? value.is_live ?? true,
+    category: value.category || value.game_name || value.game || '',
+    embedUrl: value.embedUrl || (platform === 'twitch' && login ? safeTwitchEmbedUrl(login) : ''),
+    profileImageUrl:
+      value.profileImageUrl ||
+      (platform === 'twitch' && login ? twitchApi.getProfileImageUrl(login) : ''),
+    language: value.language,
+    tags: value.tags,
+    startedAt: value.startedAt,
+    addedAt: value.addedAt,
+  };
+}
+
+/**
+ * Converts any stream-like value into the canonical model. Returns null when
+ * the value cannot be identified as a stream at all.
+ */
+export function toStream(value: unknown): Stream | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  if ('sourceId' in value && 'channelId' in value && 'username' in value && 'platform' in value) {
+    return value as Stream;
+  }
+
+  if ('user_login' in value && 'user_id' in value) {
+    return fromTwitchStream(value as TwitchStream);
+  }
+
+  if ('session_title' in value && 'channel' in value) {
+    return fromKickStream(value as KickStream);
+  }
+
+  if ('channelTitle' in value && 'liveBroadcastContent' in value) {
+    return fromYouTubeStream(value as YouTubeStream);
+  }
+
+  if ('streamerName' in value && 'platformData' in value) {
+    return fromUniversalStream(value as UniversalStream);
+  }
+
+  if ('streamerName' in value) {
+    return fromUnifiedStream(value as UnifiedStream);
+  }
+
+  return fromPartialStream(value);
+}
+
+/**
+ * Converts a list of stream-like values, dropping anything unrecognizable and
+ * collapsing duplicates by canonical id.
+ */
+export function toStreams(values: unknown): Stream[] {
+  if (!Array.isArray(values)) {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  return values.reduce<Stream[]>((streams, value) => {
+    const stream = toStream(value);
+    if (stream && !seen.has(stream.id)) {
+      seen.add(stream.id);
+      streams.push(stream);
+    }
+    return streams;
+  }, []);
+}
+
+export const streamAdapters = {
+  twitch: fromTwitchStream,
+  youtube: fromYouTubeStream,
+  kick: fromKickStream,
+};
@@ -0,0 +1,235 @@
+/**
+ * Stream Probe Service
+ * Inspects direct media URLs (HLS playlists, MP4 files) before they are added
+ * to the grid: detects the container, lists HLS variants and tells live from VOD.
+ */
+
+import { PlaybackSource, StreamVariant } from '@/types/stream';
+
+const PROBE_TIMEOUT_MS = 10000;
+// Players load hls.js from here where the browser can't play HLS itself
+export const HLS_JS_URL = 'https://cdn.jsdelivr.net/npm/hls.js@1/dist/hls.min.js';
+const MP4_EXTENSIONS = /\.(mp4|m4v|mov)(\?|#|$)/i;
+const HLS_EXTENSION = /\.m3u8(\?|#|$)/i;
+
+export interface MediaPlaylistInfo {
+  isLive: boolean;
+  duration: number;
+  targetDuration?: number;
+  segmentCount: number;
+}
+
+const parseAttributes = (line: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(line)) !== null) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+
+  return attributes;
+};
+
+/**
+ * `url` re-serialized by the URL parser, or null unless it is a valid
+ * http(s) URL. Players and share links only ever see URLs that passed this.
+ */
+export const normalizeHttpUrl = (url: string, baseUrl?: string): string | null => {
+  try {
+    const parsed = new URL(url.trim(), baseUrl);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.href : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isMasterPlaylist = (playlist: string): boolean =>
+  playlist.includes('#EXT-X-STREAM-INF');
+
+/**
+ * Parses the variant list of an HLS master playlist, highest bandwidth first.
+ */
+export function parseMasterPlaylist(playlist: string, baseUrl: string): StreamVariant[] {
+  const lines = playlist.split(/\r?\n/).map(line => line.trim());
+  const variants: StreamVariant[] = [];
+
+  lines.forEach((line, index) => {
+    if (!line.startsWith('#EXT-X-STREAM-INF:')) {
+      return;
+    }
+
+    const uri = lines.slice(index + 1).find(next => next && !next.startsWith('#'));
+    const url = uri && normalizeHttpUrl(uri, baseUrl);
+    if (!url) {
+      return;
+    }
+
+    const attributes = parseAttributes(line.slice('#EXT-X-STREAM-INF:'.length));
+    const [width, height] = (attributes.RESOLUTION || '').split('x').map(Number);
+    const frameRate = attributes['FRAME-RATE'] ? Number(attributes['FRAME-RATE']) : undefined;
+
+    variants.push({
+      url,
+      bandwidth: Number(attributes.BANDWIDTH) || 0,
+      width: width || undefined,
+      height: height || undefined,
+      frameRate,
+      codecs: attributes.CODECS,
+      name: height
+        ? `${height}p${frameRate && frameRate > 30 ? Math.round(frameRate) : ''}`
+        : undefined,
+    });
+  });
+
+  return variants.sort((a, b) => b.bandwidth - a.bandwidth);
+}
+
+/**
+ * Reads live/VOD state and duration from an HLS media playlist. A playlist is
+ * VOD when it is closed with EXT-X-ENDLIST or declared as PLAYLIST-TYPE:VOD.
+ */
+export function parseMediaPlaylist(playlist: string): MediaPlaylistInfo {
+  const lines = playlist.split(/\r?\n/).map(line => line.trim());
+  let duration = 0;
+  let segmentCount = 0;
+  let targetDuration: number | undefined;
+  let isVod = false;
+
+  lines.forEach(line => {
+    if (line.startsWith('#EXTINF:')) {
+      duration += parseFloat(line.slice('#EXTINF:'.length)) || 0;
+      segmentCount++;
+    } else if (line.startsWith('#EXT-X-TARGETDURATION:')) {
+      targetDuration = Number(line.slice('#EXT-X-TARGETDURATION:'.length)) || undefined;
+    } else if (line === '#EXT-X-ENDLIST' || line === '#EXT-X-PLAYLIST-TYPE:VOD') {
+      isVod = true;
+    }
+  });
+
+  return {
+    isLive: !isVod,
+    duration,
+    targetDuration,
+    segmentCount,
+  };
+}
+
+class StreamProbe {
+  private async fetchWithTimeout(url: string, init: RequestInit = {}): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+
+    try {
+      return await fetch(url, { ...init, signal: controller.signal });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private async fetchPlaylist(url: string): Promise<string> {
+    const response = await this.fetchWithTimeout(url);
+    if (!response.ok) {
+      throw new Error(`Playlist request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const playlist = await response.text();
+    if (!playlist.trimStart().startsWith('#EXTM3U')) {
+      throw new Error('URL did not return an HLS playlist');
+    }
+
+    return playlist;
+  }
+
+  private async probeHls(url: string, playlist: string): Promise<PlaybackSource> {
+    if (!isMasterPlaylist(playlist)) {
+      const info = parseMediaPlaylist(playlist);
+      return {
+        type: 'hls',
+        url,
+        isLive: info.isLive,
+        variants: [],
+        duration: info.isLive ? undefined : info.duration,
+      };
+    }
+
+    const variants = parseMasterPlaylist(playlist, url);
+    if (variants.length === 0) {
+      throw new Error('HLS master playlist has no playable variants');
+    }
+
+    // The lowest rendition is the cheapest way to learn whether the stream is live
+    const mediaPlaylist = await this.fetchPlaylist(variants[variants.length - 1].url);
+    const info = parseMediaPlaylist(mediaPlaylist);
+
+    return {
+      type: 'hls',
+      url,
+      isLive: info.isLive,
+      variants,
+      duration: info.isLive ? undefined : info.duration,
+    };
+  }
+
+  private async probeMp4(url: string): Promise<PlaybackSource> {
+    const response = await this.fetchWithTimeout(url, { method: 'HEAD' });
+    if (!response.ok) {
+      throw new Error(`Video request failed: ${response.status} ${response.statusText}`);
+    }
+
+    return { type: 'mp4', url, isLive: false, variants: [] };
+  }
+
+  /**
+   * Works out how to play `url`. Throws with a user-presentable message when
+   * the URL is unreachable or not a supported format.
+   */
+  async probe(url: string): Promise<PlaybackSource> {
+    const normalized = normalizeHttpUrl(url);
+    if (!normalized) {
+      throw new Error('Stream URL must start with http:// or https://');
+    }
+
+    console.log(`🔎 Probing stream URL: ${normalized}`);
+
+    try {
+      if (MP4_EXTENSIONS.test(normalized)) {
+        return await this.probeMp4(normalized);
+      }
+
+      if (HLS_EXTENSION.test(normalized)) {
+        return await this.probeHls(normalized, await this.fetchPlaylist(normalized));
+      }
+
+      // No recognizable extension (e.g. Owncast's /hls/stream), so sniff the response
+      const response = await this.fetchWithTimeout(normalized);
+      if (!response.ok) {
+        throw new Error(`Stream request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      if (contentType.startsWith('video/')) {
+        return { type: 'mp4', url: normalized, isLive: false, variants: [] };
+      }
+
+      const body = await response.text();
+      if (body.trimStart().startsWith('#EXTM3U')) {
+        return await this.probeHls(normalized, body);
+      }
+
+      throw new Error('Unsupported stream URL. Use an .m3u8 playlist or an MP4 file.');
+    } catch (error) {
+      console.error('❌ Stream probe failed:', error);
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error('Timed out while checking the stream URL');
+      }
+      throw error;
+    }
+  }
+}
+
+export const streamProbe = new StreamProbe();
+
+export const probeStreamUrl = async (url: string) => {
+  return streamProbe.probe(url);
+};
@@ -3,6 +3,7 @@
  * Intelligent quality management and adaptive streaming for multiple concurrent streams
  */
 
+import { StreamVariant } from '@/types/stream';
 import { logDebug, logWarning, logError } from '@/utils/errorHandler';
 
 export type QualityLevel = 'auto' | 'source' | '720p60' | '720p' | '480p' | '360p' | '160p';
@@ -97,8 +98,28 @@ const QUALITY_PRESETS: Record<QualityLevel, QualitySettings> = {
   }
 };
 
+const QUALITY_LADDER: QualityLevel[] = ['source', '720p60', '720p', '480p', '360p', '160p'];
+
+/**
+ * Maps an HLS rendition onto the closest quality level so direct streams share
+ * the same adaptive logic and selector as platform embeds.
+ */
+export const qualityLevelForVariant = (variant: StreamVariant): QualityLevel => {
+  const height = variant.height || 0;
+  if (height >= 1080) return 'source';
+  if (height >= 720) return (variant.frameRate || 0) > 30 ? '720p60' : '720p';
+  if (height >= 480) return '480p';
+  if (height >= 360) return '360p';
+  if (height > 0) return '160p';
+
+  // No RESOLUTION attribute: fall back to the bandwidth presets
+  const mbps = variant.bandwidth / 1_000_000;
+  return QUALITY_LADDER.find(level => mbps >= QUALITY_PRESETS[level].bandwidth * 0.5) || '160p';
+};
+
 class StreamQualityManager {
   private qualityStates = new Map<string, StreamQualityState>();
+  private streamVariants = new Map<string, Map<QualityLevel, StreamVariant>>();
   private listeners = new Set<(event: QualityChangeEvent) => void>();
   private adaptiveSettings: AdaptiveSettings = {
     enabled: true,
@@ -127,6 +148,13 @@ class StreamQualityManager {
     initialQuality: QualityLevel = 'auto',
     isAdaptive: boolean = true
   ): void {
+    // A quality picked before the player mounted (e.g. from a shared layout) wins over auto
+    const existing = this.qualityStates.get(streamId);
+    if (existing && !existing.isAdaptive && isAdaptive) {
+      logDebug('Keeping manual stream quality', { streamId, quality: existing.targetQuality });
+      return;
+    }
+
     const state: StreamQualityState = {
       streamId,
       currentQuality: initialQuality,
@@ -277,7 +305,11 @@ class StreamQualityManager {
   /**
    * Get all available quality levels
    */
-  getAvailableQualities(): QualityLevel[] {
+  getAvailableQualities(streamId?: string): QualityLevel[] {
+    const byLevel = streamId ? this.streamVariants.get(streamId) : undefined;
+    if (byLevel) {
+      return ['auto', ...QUALITY_LADDER.filter(level => byLevel.has(level))];
+    }
     return Object.keys(QUALITY_PRESETS) as QualityLevel[];
   }
 
@@ -288,6 +320,50 @@ class StreamQualityManager {
     return QUALITY_PRESETS[quality];
   }
 
+  /**
+   * Register the HLS variants of a direct stream. Each quality level keeps the
+   * highest-bandwidth variant that maps onto it, and the top variant is always
+   * exposed as `source`.
+   */
+  setStreamVariants(streamId: string, variants: StreamVariant[]): void {
+    const byLevel = new Map<QualityLevel, StreamVariant>();
+    const sorted = [...variants].sort((a, b) => b.bandwidth - a.bandwidth);
+
+    sorted.forEach((variant, index) => {
+      const level = index === 0 ? 'source' : qualityLevelForVariant(variant);
+      if (!byLevel.has(level)) {
+        byLevel.set(level, variant);
+      }
+    });
+
+    if (byLevel.size > 0) {
+      this.streamVariants.set(streamId, byLevel);
+    } else {
+      this.streamVariants.delete(streamId);
+    }
+
+    logDebug('Stream variants registered', { streamId, levels: Array.from(byLevel.keys()) });
+  }
+
+  /**
+   * Variant to play for a quality level; null means let the player adapt
+   * using the master playlist
+   */
+  getVariantForQuality(streamId: string, quality: QualityLevel): StreamVariant | null {
+    if (quality === 'auto') return null;
+    return this.streamVariants.get(streamId)?.get(quality) || null;
+  }
+
+  getStreamVariants(streamId: string): Array<{ level: QualityLevel; variant: StreamVariant }> {
+    const byLevel = this.streamVariants.get(streamId);
+    if (!byLevel) return [];
+
+    return QUALITY_LADDER.filter(level => byLevel.has(level)).map(level => ({
+      level,
+      variant: byLevel.get(level)!,
+    }));
+  }
+
   /**
    * Calculate total bandwidth usage for all streams
    */
@@ -348,6 +424,7 @@ class StreamQualityManager {
    * Remove stream from quality management
    */
   removeStream(streamId: string): void {
+    this.streamVariants.delete(streamId);
     if (this.qualityStates.delete(streamId)) {
       logDebug('Stream removed from quality management', { streamId });
     }
@@ -362,6 +439,7 @@ class StreamQualityManager {
       this.updateInterval = null;
     }
     this.qualityStates.clear();
+    this.streamVariants.clear();
     this.listeners.clear();
   }
 
@@ -420,7 +498,7 @@ class StreamQualityManager {
     const state = this.qualityStates.get(streamId);
     if (!state) return;
 
-    const qualities: QualityLevel[] = ['source', '720p60', '720p', '480p', '360p', '160p'];
+    const qualities = this.getSteppableQualities(streamId);
     const currentIndex = qualities.indexOf(state.currentQuality);
     
     if (currentIndex < qualities.length - 1) {
@@ -453,7 +531,7 @@ class StreamQualityManager {
     const state = this.qualityStates.get(streamId);
     if (!state) return;
 
-    const qualities: QualityLevel[] = ['160p', '360p', '480p', '720p', '720p60', 'source'];
+    const qualities = this.getSteppableQualities(streamId).reverse();
     const currentIndex = qualities.indexOf(state.currentQuality);
     
     if (currentIndex < qualities.length - 1) {
@@ -482,6 +560,12 @@ class StreamQualityManager {
     }
   }
 
+  // Quality ladder from best to worst, limited to the stream's HLS variants when it has them
+  private getSteppableQualities(streamId: string): QualityLevel[] {
+    const byLevel = this.streamVariants.get(streamId);
+    return byLevel ? QUALITY_LADDER.filter(level => byLevel.has(level)) : [...QUALITY_LADDER];
+  }
+
   private isSystemUnderLoad(): boolean {
     // This would integrate with actual system monitoring
     // For now, use basic heuristics
@@ -513,6 +597,9 @@ export const initializeStreamQuality = (streamId: string, initialQuality?: Quali
 export const setStreamQuality = (streamId: string, quality: QualityLevel) =>
   streamQualityManager.setStreamQuality(streamId, quality);
 
+export const setStreamVariants = (streamId: string, variants: StreamVariant[]) =>
+  streamQualityManager.setStreamVariants(streamId, variants);
+
 export const updateStreamMetrics = (streamId: string, metrics: any) =>
   streamQualityManager.updateStreamMetrics(streamId, metrics);
 
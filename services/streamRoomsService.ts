@@ -1,5 +1,6 @@
 import { EventEmitter } from 'eventemitter3';
 import { webSocketService, WebSocketMessage } from './webSocketService';
+import { Stream } from '@/types/stream';
 import { logError, logDebug, withErrorHandling } from '@/utils/errorHandler';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
@@ -26,6 +27,8 @@ export interface StreamRoom {
   expiresAt?: string;
   statistics: RoomStatistics;
   features: RoomFeatures;
+  /** The multiview a watch party shares; set once the host publishes one */
+  layout?: RoomLayout;
 }
 
 export type RoomType = 'watch_party' | 'community' | 'gaming' | 'discussion' | 'study' | 'music' | 'art' | 'tech' | 'sports' | 'custom';
@@ -247,6 +250,30 @@ export interface QueueItem {
   tags: string[];
 }
 
+export type RoomGridLayout = '1x1' | '2x2' | '3x3' | '2x1' | '1x2' | 'adaptive';
+
+export type RoomViewMode = 'grid' | 'stack' | 'pip' | 'focus';
+
+/**
+ * A watch party's shared multiview: the streams in grid order, how the grid
+ * arranges them and which one has the audio. The server stamps `version`,
+ * `updatedBy` and `updatedAt` on every change.
+ */
+export interface RoomLayout {
+  streams: Stream[];
+  gridLayout: RoomGridLayout;
+  viewMode: RoomViewMode;
+  audioFocusStreamId: string | null;
+  version: number;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export type RoomLayoutUpdate = Pick<
+  RoomLayout,
+  'streams' | 'gridLayout' | 'viewMode' | 'audioFocusStreamId'
+>;
+
 export interface RoomEvent {
   id: string;
   roomId: string;
@@ -304,6 +331,9 @@ class StreamRoomsService extends EventEmitter {
    */
   async initialize(userId: string, username: string): Promise<void> {
     return withErrorHandling(async () => {
+      if (this.isInitialized && this.currentUserId === userId) {
+        return;
+      }
       logDebug('Initializing stream rooms service', { userId, username });
       
       this.currentUserId = userId;
@@ -594,6 +624,32 @@ class StreamRoomsService extends EventEmitter {
     this.emit('stream_changed', { streamId, streamName, streamUrl });
   }
 
+  /**
+   * Share a multiview with the room. Everyone's grid follows it; the server
+   * echoes it back with a version number.
+   */
+  async shareLayout(layout: RoomLayoutUpdate): Promise<void> {
+    if (!this.currentRoom) {
+      throw new Error('No active room');
+    }
+
+    if (!this.hasPermission('change_stream')) {
+      throw new Error('No permission to change the layout');
+    }
+
+    await webSocketService.sendMessage('room_layout_update', {
+      roomId: this.currentRoom.id,
+      layout,
+    });
+  }
+
+  /**
+   * Get the layout a room is sharing
+   */
+  getRoomLayout(roomId: string): RoomLayout | null {
+    return this.joinedRooms.get(roomId)?.layout || null;
+  }
+
   /**
    * Manage room queue
    */
@@ -865,10 +921,12 @@ class StreamRoomsService extends EventEmitter {
     webSocketService.on('message:room_queue_update', this.handleQueueUpdate.bind(this));
     webSocketService.on('message:room_activity', this.handleActivity.bind(this));
     webSocketService.on('message:room_search_results', this.handleSearchResults.bind(this));
+    webSocketService.on('message:room_layout_update', this.handleLayoutUpdate.bind(this));
     webSocketService.on('disconnected', this.handleDisconnected.bind(this));
+    webSocketService.on('reconnected', this.handleReconnected.bind(this));
   }
 
-  private handleRoomState(wsMessage: WebSocketMessage): void {
+  private handleRoomState(wsMessage: WebSocketMessage<StreamRoom>): void {
     const room: StreamRoom = wsMessage.data;
     
     this.joinedRooms.set(room.id, room);
@@ -879,7 +937,9 @@ class StreamRoomsService extends EventEmitter {
     this.emit('room_state_updated', room);
   }
 
-  private handleMemberJoin(wsMessage: WebSocketMessage): void {
+  private handleMemberJoin(
+    wsMessage: WebSocketMessage<{ roomId: string; member: RoomMember }>
+  ): void {
     const { roomId, member } = wsMessage.data;
     
     const room = this.joinedRooms.get(roomId);
@@ -896,7 +956,9 @@ class StreamRoomsService extends EventEmitter {
     this.emit('member_joined', { roomId, member });
   }
 
-  private handleMemberLeave(wsMessage: WebSocketMessage): void {
+  private handleMemberLeave(
+    wsMessage: WebSocketMessage<{ roomId: string; userId: string; username: string }>
+  ): void {
     const { roomId, userId, username } = wsMessage.data;
     
     const room = this.joinedRooms.get(roomId);
@@ -913,7 +975,14 @@ class StreamRoomsService extends EventEmitter {
     this.emit('member_left', { roomId, userId, username });
   }
 
-  private handleStreamChange(wsMessage: WebSocketMessage): void {
+  private handleStreamChange(
+    wsMessage: WebSocketMessage<{
+      roomId: string;
+      streamId: string;
+      streamName: string;
+      streamUrl: string;
+    }>
+  ): void {
     const { roomId, streamId, streamName, streamUrl } = wsMessage.data;
     
     const room = this.joinedRooms.get(roomId);
@@ -929,7 +998,9 @@ class StreamRoomsService extends EventEmitter {
     this.emit('stream_changed', { roomId, streamId, streamName, streamUrl });
   }
 
-  private handleSettingsUpdate(wsMessage: WebSocketMessage): void {
+  private handleSettingsUpdate(
+    wsMessage: WebSocketMessage<{ roomId: string; settings: RoomSettings }>
+  ): void {
     const { roomId, settings } = wsMessage.data;
     
     const room = this.joinedRooms.get(roomId);
@@ -945,7 +1016,14 @@ class StreamRoomsService extends EventEmitter {
     this.emit('room_settings_updated', { roomId, settings });
   }
 
-  private handleMemberRoleUpdate(wsMessage: WebSocketMessage): void {
+  private handleMemberRoleUpdate(
+    wsMessage: WebSocketMessage<{
+      roomId: string;
+      userId: string;
+      role: MemberRole;
+      permissions: Permission[];
+    }>
+  ): void {
     const { roomId, userId, role, permissions } = wsMessage.data;
     
     const room = this.joinedRooms.get(roomId);
@@ -964,19 +1042,21 @@ class StreamRoomsService extends EventEmitter {
     this.emit('member_role_updated', { roomId, userId, role });
   }
 
-  private handleInvitation(wsMessage: WebSocketMessage): void {
+  private handleInvitation(wsMessage: WebSocketMessage<RoomInvitation>): void {
     const invitation: RoomInvitation = wsMessage.data;
     this.roomInvitations.set(invitation.id, invitation);
     this.emit('invitation_received', invitation);
   }
 
-  private handleQueueUpdate(wsMessage: WebSocketMessage): void {
+  private handleQueueUpdate(
+    wsMessage: WebSocketMessage<{ roomId: string; queue: WatchQueue }>
+  ): void {
     const { roomId, queue } = wsMessage.data;
     this.watchQueues.set(roomId, queue);
     this.emit('queue_updated', { roomId, queue });
   }
 
-  private handleActivity(wsMessage: WebSocketMessage): void {
+  private handleActivity(wsMessage: WebSocketMessage<RoomActivity>): void {
     const activity: RoomActivity = wsMessage.data;
     
     if (!this.roomActivities.has(activity.roomId)) {
@@ -994,15 +1074,48 @@ class StreamRoomsService extends EventEmitter {
     this.emit('activity_received', activity);
   }
 
-  private handleSearchResults(wsMessage: WebSocketMessage): void {
+  private handleSearchResults(wsMessage: WebSocketMessage<StreamRoom[]>): void {
     const results: StreamRoom[] = wsMessage.data;
     this.emit('room_search_results', results);
   }
 
+  private handleLayoutUpdate(
+    wsMessage: WebSocketMessage<{ roomId: string; layout: RoomLayout }>
+  ): void {
+    const { roomId, layout } = wsMessage.data;
+
+    const room = this.joinedRooms.get(roomId);
+    if (room) {
+      // Updates can cross a fresh room_state; keep whichever is newer
+      if (room.layout && room.layout.version >= layout.version) {
+        return;
+      }
+      room.layout = layout;
+
+      if (room.id === this.currentRoom?.id) {
+        this.currentRoom = room;
+      }
+    }
+
+    this.emit('room_layout_updated', { roomId, layout });
+  }
+
   private handleDisconnected(): void {
     this.emit('disconnected');
   }
 
+  // The server marked us offline while we were gone; rejoining brings back
+  // membership and the latest room state, layout included
+  private handleReconnected(): void {
+    if (!this.currentRoom || !this.currentUserId) return;
+
+    webSocketService.sendMessage('room_join', {
+      roomId: this.currentRoom.id,
+      userId: this.currentUserId,
+      username: this.currentUsername,
+    });
+  }
+
   private async recordActivity(
     roomId: string,
     type: ActivityType,
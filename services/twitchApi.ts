@@ -1,8 +1,18 @@
-interface TwitchTokenResponse {
-  access_token: string;
-  expires_in: number;
-  token_type: string;
-}
+import { RequestPriority, requestScheduler, ScheduledFetch } from './requestScheduler';
+
+/**
+ * Base URL of the twitch-proxy Edge Function (supabase/functions/twitch-proxy),
+ * which holds the client secret and makes Helix calls with an app token.
+ * `npm run mock:twitch-proxy` serves the same routes offline.
+ */
+export const TWITCH_PROXY_URL =
+  process.env.EXPO_PUBLIC_TWITCH_PROXY_URL ||
+  (process.env.EXPO_PUBLIC_SUPABASE_URL
+    ? `${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/twitch-proxy`
+    : '');
+
+// The proxy only serves Helix to requests carrying the project's anon key
+const SUPABASE_ANON_KEY = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || '';
 
 export interface TwitchStream {
   id: string;
@@ -40,12 +50,107 @@ export interface TwitchGame {
   box_art_url: string;
 }
 
+export interface TwitchVideo {
+  id: string;
+  stream_id: string | null;
+  user_id: string;
+  user_login: string;
+  user_name: string;
+  title: string;
+  description: string;
+  created_at: string;
+  published_at: string;
+  url: string;
+  /** Template with %{width} and %{height} placeholders */
+  thumbnail_url: string;
+  viewable: string;
+  view_count: number;
+  language: string;
+  type: TwitchVideoType;
+  /** e.g. "3h8m33s" */
+  duration: string;
+  muted_segments: { duration: number; offset: number }[] | null;
+}
+
+export type TwitchVideoType = 'archive' | 'highlight' | 'upload';
+
+export interface TwitchClip {
+  /** Clip slug, also used in clip URLs */
+  id: string;
+  url: string;
+  embed_url: string;
+  broadcaster_id: string;
+  broadcaster_name: string;
+  creator_id: string;
+  creator_name: string;
+  /** VOD the clip was cut from, empty when the VOD is gone */
+  video_id: string;
+  game_id: string;
+  language: string;
+  title: string;
+  view_count: number;
+  created_at: string;
+  thumbnail_url: string;
+  /** Seconds */
+  duration: number;
+  /** Seconds into `video_id` where the clip starts */
+  vod_offset: number | null;
+  is_featured: boolean;
+}
+
+// Most ids Helix accepts in one request
+const HELIX_BATCH_SIZE = 100;
+
+// Every host the app's web builds run on; Twitch refuses embeds for other parents
+const EMBED_PARENT_DOMAINS = [
+  'localhost',
+  '127.0.0.1',
+  'expo.dev',
+  'exp.host',
+  'expo.io',
+  'snack.expo.dev',
+  'reactnative.dev',
+  'github.dev',
+  'codesandbox.io',
+  'streamyyy.com',
+  'bolt.new'
+];
+
+/**
+ * Reads a Twitch timestamp like the `t` in twitch.tv/videos/123?t=1h2m3s.
+ * Bare numbers are seconds. Returns null for anything else.
+ */
+export const parseTwitchTimestamp = (value: string): number | null => {
+  const input = value.trim().toLowerCase();
+  if (/^\d+$/.test(input)) {
+    return Number(input);
+  }
+
+  const match = input.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!input || !match) {
+    return null;
+  }
+  const [, hours = '0', minutes = '0', seconds = '0'] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+};
+
+/**
+ * Formats seconds the way Twitch links and embeds expect, e.g. 3723 → "1h2m3s".
+ */
+export const formatTwitchTimestamp = (totalSeconds: number): string => {
+  const total = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+
+  if (hours) {
+    return `${hours}h${minutes}m${seconds}s`;
+  }
+  return minutes ? `${minutes}m${seconds}s` : `${seconds}s`;
+};
+
 class TwitchAPI {
-  private accessToken: string | null = null;
-  private tokenExpiry: number = 0;
-  private readonly clientId = process.env.EXPO_PUBLIC_TWITCH_CLIENT_ID;
-  private readonly clientSecret = process.env.EXPO_PUBLIC_TWITCH_CLIENT_SECRET;
-  private readonly baseUrl = 'https://api.twitch.tv/helix';
+  private readonly baseUrl = `${TWITCH_PROXY_URL}/helix`;
   
   // Cache for improved performance
   private cache = new Map<string, { data: any; timestamp: number; ttl: number }>();
@@ -60,14 +165,14 @@ class TwitchAPI {
   }>();
 
   constructor() {
-    if (!this.clientId || !this.clientSecret) {
-      console.error('Twitch API credentials not found in environment variables');
-      console.error('Please ensure EXPO_PUBLIC_TWITCH_CLIENT_ID and EXPO_PUBLIC_TWITCH_CLIENT_SECRET are set in your .env file');
-      console.error('You can get these credentials from https://dev.twitch.tv/console/apps');
+    if (!TWITCH_PROXY_URL) {
+      console.error('Twitch proxy URL not found in environment variables');
+      console.error('Please set EXPO_PUBLIC_SUPABASE_URL (with the twitch-proxy function deployed) or EXPO_PUBLIC_TWITCH_PROXY_URL in your .env file');
+      console.error('For offline development run `npm run mock:twitch-proxy`');
     }
   }
 
-  private getCacheKey(endpoint: string, params?: Record<string, string>): string {
+  private getCacheKey(endpoint: string, params?: Record<string, string | string[]>): string {
     const paramString = params ? JSON.stringify(params) : '';
     return `${endpoint}:${paramString}`;
   }
@@ -138,45 +243,7 @@ class TwitchAPI {
     return new Map(this.streamHealthMap);
   }
 
-  private async getAccessToken(): Promise<string> {
-    if (this.accessToken && Date.now() < this.tokenExpiry) {
-      return this.accessToken;
-    }
-
-    if (!this.clientId || !this.clientSecret) {
-      throw new Error('Twitch API credentials not configured');
-    }
-
-    // Create request body manually to ensure compatibility
-    const requestBody = `client_id=${encodeURIComponent(this.clientId)}&client_secret=${encodeURIComponent(this.clientSecret)}&grant_type=client_credentials`;
-
-    try {
-      const response = await fetch('https://id.twitch.tv/oauth2/token', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: requestBody,
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Token request failed: ${response.status} - ${errorText}`);
-      }
-
-      const data: TwitchTokenResponse = await response.json();
-      this.accessToken = data.access_token;
-      this.tokenExpiry = Date.now() + (data.expires_in * 1000) - 60000; // Refresh 1 minute early
-
-      console.log('Successfully obtained Twitch access token');
-      return this.accessToken;
-    } catch (error) {
-      console.error('Failed to get Twitch access token:', error);
-      throw new Error('Failed to authenticate with Twitch API');
-    }
-  }
-
-  private async makeRequest<T>(endpoint: string, params?: Record<string, string>, retries: number = 3, useCache: boolean = true): Promise<T> {
+  private async makeRequest<T>(endpoint: string, params?: Record<string, string | string[]>, priority: RequestPriority = 'normal', retries: number = 3, useCache: boolean = true): Promise<T> {
     const cacheKey = this.getCacheKey(endpoint, params);
     
     // Check cache first
@@ -188,38 +255,40 @@ class TwitchAPI {
       }
     }
 
-    const token = await this.getAccessToken();
     const url = new URL(`${this.baseUrl}${endpoint}`);
     
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
-        if (value) {
-          url.searchParams.append(key, value);
-        }
+        // Helix takes lists as a repeated parameter, e.g. ?user_id=1&user_id=2
+        const values = Array.isArray(value) ? value : [value];
+        values.forEach(item => {
+          if (item) {
+            url.searchParams.append(key, item);
+          }
+        });
       });
     }
 
+    // Identical requests already in flight share one response
+    return requestScheduler.schedule({ platform: 'twitch', key: url.toString(), priority }, send =>
+      this.sendWithRetries<T>(send, url.toString(), cacheKey, retries, useCache)
+    );
+  }
+
+  private async sendWithRetries<T>(send: ScheduledFetch, url: string, cacheKey: string, retries: number, useCache: boolean): Promise<T> {
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt <= retries; attempt++) {
       try {
-        // Create AbortController for timeout
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 second timeout
-
-        const response = await fetch(url.toString(), {
+        const response = await send(url, {
           headers: {
-            'Authorization': `Bearer ${token}`,
-            'Client-Id': this.clientId!,
             'Content-Type': 'application/json',
-            'Accept': 'application/vnd.twitchtv.v5+json',
             'User-Agent': 'StreamYYY/1.0 (Multi-Streaming App)',
+            ...(SUPABASE_ANON_KEY ? { apikey: SUPABASE_ANON_KEY } : {}),
           },
-          signal: controller.signal,
+          timeoutMs: 15000, // 15 second timeout
         });
 
-        clearTimeout(timeoutId);
-
         if (!response.ok) {
           const errorText = await response.text();
           let errorData: any = {};
@@ -230,33 +299,19 @@ class TwitchAPI {
             // Error text is not JSON
           }
           
-          // Handle rate limiting with detailed response
-          if (response.status === 429) {
-            const retryAfter = response.headers.get('Retry-After');
-            const rateLimitRemaining = response.headers.get('Ratelimit-Remaining');
-            const rateLimitReset = response.headers.get('Ratelimit-Reset');
-            
-            const waitTime = retryAfter ? parseInt(retryAfter) * 1000 : Math.min((attempt + 1) * 3000, 30000);
-            
-            console.warn(`🚫 Rate limited (${rateLimitRemaining} remaining, resets at ${rateLimitReset})`);
-            console.warn(`⏱️ Waiting ${waitTime}ms before retry ${attempt + 1}/${retries}`);
-            
-            if (attempt < retries) {
-              await new Promise(resolve => setTimeout(resolve, waitTime));
-              continue;
-            }
+          // Rate limited; the scheduler holds Twitch requests until the limit resets
+          if (response.status === 429 && attempt < retries) {
+            console.warn(`⏱️ Rate limited, retry ${attempt + 1}/${retries} once the limit resets`);
+            continue;
           }
 
           // Handle token expiration with better logic
           if (response.status === 401) {
-            console.warn('🔑 Token expired or invalid, refreshing and retrying...');
-            this.accessToken = null;
-            this.tokenExpiry = 0;
+            console.warn('🔑 Proxy app token rejected, retrying...');
             this.clearCache(); // Clear cache on auth failure
-            
+
             if (attempt < retries) {
-              // Get new token and retry
-              await this.getAccessToken();
+              // The proxy mints a fresh app token on the next call
               continue;
             }
           }
@@ -348,7 +403,7 @@ class TwitchAPI {
     
     console.log('🔄 Fetching top streams from Twitch API...');
     try {
-      const result = await this.makeRequest<{ data: TwitchStream[]; pagination: { cursor?: string } }>('/streams', params);
+      const result = await this.makeRequest<{ data: TwitchStream[]; pagination: { cursor?: string } }>('/streams', params, 'prefetch');
       console.log(`✅ Fetched ${result.data.length} streams successfully`);
       
       // Filter out streams that might have issues
@@ -398,7 +453,7 @@ class TwitchAPI {
     }
 
     try {
-      const result = await this.makeRequest<{ data: TwitchStream[]; pagination: { cursor?: string } }>('/streams', params);
+      const result = await this.makeRequest<{ data: TwitchStream[]; pagination: { cursor?: string } }>('/streams', params, 'prefetch');
       
       // Enhance streams with additional metadata
       const enhancedStreams = result.data.map((stream, index) => {
@@ -541,6 +596,37 @@ class TwitchAPI {
     }
   }
 
+  async getStreamByUserLogin(userLogin: string): Promise<TwitchStream | null> {
+    const result = await this.makeRequest<{ data: TwitchStream[] }>('/streams', {
+      user_login: userLogin.toLowerCase(),
+    }, 'visible');
+    return result.data[0] || null;
+  }
+
+  /**
+   * Live streams for a set of channels, fetched 100 channels per request and
+   * bypassing the cache. Offline channels are absent from the result.
+   */
+  async getLiveStreamsForChannels(userIds: string[], userLogins: string[] = []): Promise<TwitchStream[]> {
+    const channels = [
+      ...userIds.map(id => ['user_id', id]),
+      ...userLogins.map(login => ['user_login', login.toLowerCase()]),
+    ];
+    const batches: Record<string, string[]>[] = [];
+    for (let i = 0; i < channels.length; i += HELIX_BATCH_SIZE) {
+      const batch: Record<string, string[]> = { user_id: [], user_login: [] };
+      channels.slice(i, i + HELIX_BATCH_SIZE).forEach(([key, value]) => batch[key].push(value));
+      batches.push(batch);
+    }
+
+    const results = await Promise.all(
+      batches.map(batch =>
+        this.makeRequest<{ data: TwitchStream[] }>('/streams', { ...batch, first: String(HELIX_BATCH_SIZE) }, 'visible', 3, false)
+      )
+    );
+    return results.flatMap(result => result.data);
+  }
+
   async searchChannels(query: string, first: number = 20): Promise<{ data: TwitchUser[] }> {
     console.log(`Searching for channels with query: ${query}`);
     const result = await this.makeRequest<{ data: TwitchUser[] }>('/search/channels', {
@@ -563,11 +649,50 @@ class TwitchAPI {
     return this.makeRequest('/users', params);
   }
 
+  /**
+   * A channel's past broadcasts, highlights and uploads, newest first.
+   */
+  async getVideos(
+    userId: string,
+    options: { type?: TwitchVideoType | 'all'; first?: number; after?: string } = {}
+  ): Promise<{ data: TwitchVideo[]; pagination: { cursor?: string } }> {
+    const { type = 'all', first = 20, after } = options;
+    const params: Record<string, string> = { user_id: userId, type, first: first.toString() };
+    if (after) params.after = after;
+
+    return this.makeRequest('/videos', params, 'visible');
+  }
+
+  async getVideoById(videoId: string): Promise<TwitchVideo | null> {
+    const result = await this.makeRequest<{ data: TwitchVideo[] }>('/videos', { id: videoId }, 'visible');
+    return result.data[0] || null;
+  }
+
+  /**
+   * A channel's most viewed clips, optionally only those made after `startedAt`.
+   */
+  async getClips(
+    broadcasterId: string,
+    options: { first?: number; after?: string; startedAt?: string } = {}
+  ): Promise<{ data: TwitchClip[]; pagination: { cursor?: string } }> {
+    const { first = 20, after, startedAt } = options;
+    const params: Record<string, string> = { broadcaster_id: broadcasterId, first: first.toString() };
+    if (after) params.after = after;
+    if (startedAt) params.started_at = startedAt;
+
+    return this.makeRequest('/clips', params, 'visible');
+  }
+
+  async getClipById(clipId: string): Promise<TwitchClip | null> {
+    const result = await this.makeRequest<{ data: TwitchClip[] }>('/clips', { id: clipId }, 'visible');
+    return result.data[0] || null;
+  }
+
   async getTopGames(first: number = 20): Promise<{ data: TwitchGame[] }> {
     console.log('Fetching top games from Twitch API...');
     const result = await this.makeRequest<{ data: TwitchGame[] }>('/games/top', { 
       first: first.toString() 
-    });
+    }, 'prefetch');
     console.log(`Fetched ${result.data.length} games`);
     return result;
   }
@@ -599,21 +724,7 @@ class TwitchAPI {
     });
     
     // Add comprehensive parent domains
-    const parentDomains = [
-      'localhost',
-      '127.0.0.1',
-      'expo.dev',
-      'exp.host',
-      'expo.io',
-      'snack.expo.dev',
-      'reactnative.dev',
-      'github.dev',
-      'codesandbox.io',
-      'streamyyy.com',
-      'bolt.new'
-    ];
-    
-    parentDomains.forEach(domain => {
+    EMBED_PARENT_DOMAINS.forEach(domain => {
       params.append('parent', domain);
     });
     
@@ -623,8 +734,43 @@ class TwitchAPI {
     return embedUrl;
   }
 
+  /**
+   * Player for a past broadcast, starting `startAt` seconds in. Its controls
+   * stay off like the live player's; the grid drives seeking and speed.
+   */
+  generateVideoEmbedUrl(videoId: string, options: { muted?: boolean; autoplay?: boolean; startAt?: number } = {}): string {
+    const { muted = true, autoplay = true, startAt = 0 } = options;
+    const params = new URLSearchParams({
+      video: `v${videoId}`,
+      muted: muted.toString(),
+      autoplay: autoplay.toString(),
+      controls: 'false',
+      time: formatTwitchTimestamp(startAt)
+    });
+    EMBED_PARENT_DOMAINS.forEach(domain => {
+      params.append('parent', domain);
+    });
+
+    return `https://player.twitch.tv/?${params.toString()}`;
+  }
+
+  generateClipEmbedUrl(clipId: string, options: { muted?: boolean; autoplay?: boolean } = {}): string {
+    const { muted = true, autoplay = true } = options;
+    const params = new URLSearchParams({
+      clip: clipId,
+      muted: muted.toString(),
+      autoplay: autoplay.toString()
+    });
+    EMBED_PARENT_DOMAINS.forEach(domain => {
+      params.append('parent', domain);
+    });
+
+    return `https://clips.twitch.tv/embed?${params.toString()}`;
+  }
+
   getThumbnailUrl(templateUrl: string, width: number = 320, height: number = 180): string {
-    return templateUrl.replace('{width}', width.toString()).replace('{height}', height.toString());
+    // Stream previews use {width}, VOD thumbnails %{width}
+    return templateUrl.replace(/%?\{width\}/, width.toString()).replace(/%?\{height\}/, height.toString());
   }
 
   getProfileImageUrl(username: string): string {
@@ -639,7 +785,7 @@ class TwitchAPI {
       // Get a sample of streams to estimate total
       const response = await this.makeRequest<{ data: TwitchStream[]; pagination: { cursor?: string } }>('/streams', {
         first: '100'
-      });
+      }, 'prefetch');
       
       // Since we can't get exact total from Twitch API, we'll estimate
       // based on the fact that Twitch typically has 2-3 million concurrent viewers
@@ -702,4 +848,14 @@ export const searchChannels = async (query: string, first: number = 20) => {
   return result.data;
 };
 
+export const fetchChannelVideos = async (userId: string, first: number = 20) => {
+  const result = await twitchApi.getVideos(userId, { first });
+  return result.data;
+};
+
+export const fetchChannelClips = async (broadcasterId: string, first: number = 20) => {
+  const result = await twitchApi.getClips(broadcasterId, { first });
+  return result.data;
+};
+
 export type { TwitchStream, TwitchUser, TwitchGame };
\ No newline at end of file
@@ -0,0 +1,361 @@
+/**
+ * Twitch Auth Service
+ * Links the user's Twitch account (separately from the Clerk app login) so
+ * chat can be sent as them. Uses the authorization code flow when the
+ * twitch-proxy function is configured, which holds the client secret and gives
+ * refresh tokens; otherwise the implicit flow, whose tokens are re-validated
+ * and must be renewed by signing in again.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  AuthRequest,
+  exchangeCodeAsync,
+  makeRedirectUri,
+  refreshAsync,
+  ResponseType,
+  revokeAsync,
+  TokenResponse,
+} from 'expo-auth-session';
+import * as WebBrowser from 'expo-web-browser';
+import { TWITCH_PROXY_URL } from './twitchApi';
+
+WebBrowser.maybeCompleteAuthSession();
+
+const STORAGE_KEY = '@streamyyy_twitch_auth';
+const VALIDATE_URL = 'https://id.twitch.tv/oauth2/validate';
+const HELIX_URL = process.env.EXPO_PUBLIC_TWITCH_HELIX_URL || 'https://api.twitch.tv/helix';
+// Twitch requires apps to re-validate user tokens at least once an hour
+const VALIDATE_INTERVAL_MS = 60 * 60 * 1000;
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export const TWITCH_CHAT_SCOPES = ['chat:read', 'chat:edit'];
+
+// Requested on top of the chat scopes by users who moderate channels
+export const TWITCH_MODERATION_SCOPES = [
+  'moderator:manage:banned_users',
+  'moderator:manage:chat_messages',
+  'moderator:manage:chat_settings',
+  'moderator:manage:automod',
+];
+
+const discovery = {
+  authorizationEndpoint: 'https://id.twitch.tv/oauth2/authorize',
+  // Code and refresh grants need the client secret, which only the proxy has
+  tokenEndpoint: TWITCH_PROXY_URL
+    ? `${TWITCH_PROXY_URL}/oauth/token`
+    : 'https://id.twitch.tv/oauth2/token',
+  revocationEndpoint: 'https://id.twitch.tv/oauth2/revoke',
+};
+
+export interface TwitchAuthSession {
+  accessToken: string;
+  refreshToken?: string;
+  /** Epoch ms; unknown for implicit tokens until validated */
+  expiresAt?: number;
+  scopes: string[];
+  userId: string;
+  login: string;
+}
+
+export class TwitchAuthError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'cancelled' | 'config' | 'expired' | 'network' | 'unknown'
+  ) {
+    super(message);
+    this.name = 'TwitchAuthError';
+  }
+}
+
+/**
+ * Helix request made as the linked account failed. `message` is Twitch's.
+ */
+export class TwitchHelixError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'TwitchHelixError';
+  }
+}
+
+type SessionListener = (session: TwitchAuthSession | null) => void;
+
+class TwitchAuthService {
+  private readonly clientId = process.env.EXPO_PUBLIC_TWITCH_CLIENT_ID;
+  private session: TwitchAuthSession | null = null;
+  private listeners = new Set<SessionListener>();
+  private validateTimer: ReturnType<typeof setInterval> | null = null;
+  private loadPromise: Promise<TwitchAuthSession | null> | null = null;
+  private refreshPromise: Promise<TwitchAuthSession | null> | null = null;
+
+  /**
+   * Restores the stored session and checks it is still valid.
+   */
+  load(): Promise<TwitchAuthSession | null> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(STORAGE_KEY);
+          if (stored) {
+            this.setSession(JSON.parse(stored), false);
+            await this.validate();
+          }
+        } catch (error) {
+          console.error('❌ Failed to restore Twitch session:', error);
+        }
+        return this.session;
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  getSession(): TwitchAuthSession | null {
+    return this.session;
+  }
+
+  subscribe(listener: SessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async signIn(scopes: string[] = TWITCH_CHAT_SCOPES): Promise<TwitchAuthSession> {
+    if (!this.clientId) {
+      throw new TwitchAuthError('Twitch client ID is not configured', 'config');
+    }
+
+    const useCodeFlow = !!TWITCH_PROXY_URL;
+    const redirectUri =
+      process.env.EXPO_PUBLIC_TWITCH_REDIRECT_URI ||
+      makeRedirectUri({ scheme: 'streamyyy', path: 'twitch-auth' });
+    const request = new AuthRequest({
+      clientId: this.clientId,
+      scopes,
+      redirectUri,
+      responseType: useCodeFlow ? ResponseType.Code : ResponseType.Token,
+      usePKCE: useCodeFlow,
+      extraParams: { force_verify: 'true' },
+    });
+
+    const result = await request.promptAsync(discovery);
+    if (result.type === 'cancel' || result.type === 'dismiss') {
+      throw new TwitchAuthError('Twitch sign-in was cancelled', 'cancelled');
+    }
+    if (result.type !== 'success') {
+      const message = result.type === 'error' ? result.error?.message : undefined;
+      throw new TwitchAuthError(message || 'Twitch sign-in failed', 'unknown');
+    }
+
+    let tokens: TokenResponse;
+    if (useCodeFlow) {
+      tokens = await exchangeCodeAsync(
+        {
+          clientId: this.clientId,
+          code: result.params.code,
+          redirectUri,
+          extraParams: request.codeVerifier ? { code_verifier: request.codeVerifier } : undefined,
+        },
+        discovery
+      );
+    } else {
+      tokens = new TokenResponse({
+        accessToken: result.params.access_token,
+        tokenType: 'bearer',
+        scope: result.params.scope,
+      });
+    }
+
+    const session = await this.buildSession(tokens);
+    this.setSession(session);
+    console.log(`✅ Twitch account linked: ${session.login}`);
+    return session;
+  }
+
+  async signOut(): Promise<void> {
+    const session = this.session;
+    this.setSession(null);
+
+    if (session && this.clientId) {
+      try {
+        await revokeAsync({ token: session.accessToken, clientId: this.clientId }, discovery);
+      } catch (error) {
+        console.warn('⚠️ Failed to revoke Twitch token:', error);
+      }
+    }
+  }
+
+  /**
+   * Current access token, refreshed when close to expiry. Returns null and
+   * clears the session when the token was revoked and cannot be refreshed.
+   */
+  async getValidAccessToken(): Promise<string | null> {
+    const session = this.session;
+    if (!session) {
+      return null;
+    }
+
+    const expiresSoon = session.expiresAt && session.expiresAt - Date.now() < REFRESH_MARGIN_MS;
+    if (expiresSoon) {
+      const refreshed = await this.refresh();
+      return refreshed?.accessToken || null;
+    }
+
+    return session.accessToken;
+  }
+
+  /**
+   * Calls a Helix endpoint with the linked account's user token. Resolves
+   * null for empty (204) responses.
+   */
+  async helixRequest<T>(path: string, init: RequestInit = {}): Promise<T | null> {
+    const token = await this.getValidAccessToken();
+    if (!token || !this.clientId) {
+      throw new TwitchHelixError('Sign in with Twitch first', 401);
+    }
+
+    const response = await fetch(`${HELIX_URL}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Client-Id': this.clientId,
+        'Content-Type': 'application/json',
+        ...init.headers,
+      },
+    });
+
+    if (response.status === 204) {
+      return null;
+    }
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new TwitchHelixError(
+        data?.message || `Twitch request failed (${response.status})`,
+        response.status
+      );
+    }
+    return data;
+  }
+
+  private refresh(): Promise<TwitchAuthSession | null> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.doRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async doRefresh(): Promise<TwitchAuthSession | null> {
+    const session = this.session;
+    if (!session) {
+      return null;
+    }
+
+    if (!session.refreshToken || !this.clientId) {
+      console.warn('⚠️ Twitch token expired; sign in again to keep chatting');
+      this.setSession(null);
+      return null;
+    }
+
+    try {
+      const tokens = await refreshAsync(
+        {
+          clientId: this.clientId,
+          refreshToken: session.refreshToken,
+        },
+        discovery
+      );
+      const refreshed = await this.buildSession(tokens, session.refreshToken);
+      this.setSession(refreshed);
+      return refreshed;
+    } catch (error) {
+      console.error('❌ Twitch token refresh failed:', error);
+      this.setSession(null);
+      return null;
+    }
+  }
+
+  /**
+   * Checks the token with Twitch. Invalid tokens are refreshed or dropped.
+   */
+  private async validate(): Promise<void> {
+    const session = this.session;
+    if (!session) {
+      return;
+    }
+
+    try {
+      const response = await fetch(VALIDATE_URL, {
+        headers: { Authorization: `OAuth ${session.accessToken}` },
+      });
+
+      if (response.status === 401) {
+        await this.refresh();
+        return;
+      }
+
+      if (response.ok) {
+        const data = await response.json();
+        if (this.session === session && data.expires_in) {
+          this.setSession({ ...session, expiresAt: Date.now() + data.expires_in * 1000 });
+        }
+      }
+    } catch (error) {
+      // Offline: keep the session and try again on the next interval
+      console.warn('⚠️ Could not validate Twitch token:', error);
+    }
+  }
+
+  private async buildSession(
+    tokens: TokenResponse,
+    previousRefreshToken?: string
+  ): Promise<TwitchAuthSession> {
+    const response = await fetch(VALIDATE_URL, {
+      headers: { Authorization: `OAuth ${tokens.accessToken}` },
+    });
+    if (!response.ok) {
+      throw new TwitchAuthError('Twitch rejected the new access token', 'expired');
+    }
+
+    const data = await response.json();
+    return {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken || previousRefreshToken,
+      expiresAt: data.expires_in ? Date.now() + data.expires_in * 1000 : undefined,
+      scopes: data.scopes || [],
+      userId: data.user_id,
+      login: data.login,
+    };
+  }
+
+  private setSession(session: TwitchAuthSession | null, persist: boolean = true): void {
+    this.session = session;
+
+    if (persist) {
+      const write = session
+        ? AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(session))
+        : AsyncStorage.removeItem(STORAGE_KEY);
+      write.catch(error => console.error('❌ Failed to persist Twitch session:', error));
+    }
+
+    if (session && !this.validateTimer) {
+      this.validateTimer = setInterval(() => this.validate(), VALIDATE_INTERVAL_MS);
+    } else if (!session && this.validateTimer) {
+      clearInterval(this.validateTimer);
+      this.validateTimer = null;
+    }
+
+    this.listeners.forEach(listener => listener(session));
+  }
+}
+
+export const twitchAuthService = new TwitchAuthService();
+
+export const getTwitchAccessToken = async () => {
+  return twitchAuthService.getValidAccessToken();
+};
@@ -0,0 +1,819 @@
+/**
+ * Twitch Chat Service
+ * Twitch chat over the IRC WebSocket interface. Connects anonymously
+ * (justinfan login) until a Twitch account is linked, requests IRCv3
+ * tags/commands and fans messages out to per-channel subscribers over a
+ * single shared socket. Authenticated connections can also send messages.
+ */
+
+import {
+  ChatConnectionStatus,
+  ChatEvent,
+  ChatFragment,
+  ChatMessage,
+  ChatRoomState,
+  ChatUserBadge,
+} from '@/types/chat';
+
+// Point at a local mock server (scripts/mock-twitch-irc.js) during development
+const TWITCH_IRC_URL = process.env.EXPO_PUBLIC_TWITCH_IRC_URL || 'wss://irc-ws.chat.twitch.tv:443';
+const EMOTE_CDN_URL = 'https://static-cdn.jtvnw.net/emoticons/v2';
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+const SEND_TIMEOUT_MS = 5000;
+const MAX_MESSAGE_LENGTH = 500;
+
+// Twitch allows 20 messages per 30s, or 100 in channels where the user is a moderator
+const RATE_LIMIT_WINDOW_MS = 30000;
+const RATE_LIMIT_NORMAL = 20;
+const RATE_LIMIT_MODERATOR = 100;
+
+const SUBSCRIPTION_NOTICES = new Set([
+  'sub',
+  'resub',
+  'subgift',
+  'submysterygift',
+  'giftpaidupgrade',
+  'anongiftpaidupgrade',
+  'primepaidupgrade',
+]);
+
+export interface IrcMessage {
+  tags: Record<string, string>;
+  prefix?: string;
+  command: string;
+  params: string[];
+}
+
+export interface TwitchChatCredentials {
+  login: string;
+  /** Resolves a current user access token with the chat:edit scope */
+  getToken: () => Promise<string | null>;
+}
+
+export type ChatSendErrorCode =
+  | 'not-authenticated'
+  | 'not-connected'
+  | 'not-joined'
+  | 'invalid'
+  | 'rate-limited'
+  | 'slow-mode'
+  | 'subs-only'
+  | 'timeout'
+  | string; // Twitch NOTICE msg-id, e.g. msg_followersonly or msg_duplicate
+
+/**
+ * A message that was not sent. `message` is written for the user.
+ */
+export class ChatSendError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ChatSendErrorCode
+  ) {
+    super(message);
+    this.name = 'ChatSendError';
+  }
+}
+
+interface ChannelUserState {
+  badges: ChatUserBadge[];
+  color?: string;
+  displayName?: string;
+}
+
+interface PendingSend {
+  text: string;
+  resolve: () => void;
+  reject: (error: ChatSendError) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+type ChatListener = (event: ChatEvent) => void;
+
+const TAG_ESCAPES: Record<string, string> = {
+  ':': ';',
+  s: ' ',
+  '\\': '\\',
+  r: '\r',
+  n: '\n',
+};
+
+const unescapeTagValue = (value: string): string =>
+  value.replace(/\\(.?)/g, (_, char: string) => (char in TAG_ESCAPES ? TAG_ESCAPES[char] : char));
+
+/**
+ * Parses one IRC line, including the IRCv3 `@tags` prefix Twitch sends.
+ */
+export function parseIrcMessage(line: string): IrcMessage | null {
+  let rest = line.trim();
+  if (!rest) {
+    return null;
+  }
+
+  const tags: Record<string, string> = {};
+  if (rest.startsWith('@')) {
+    const end = rest.indexOf(' ');
+    rest
+      .slice(1, end)
+      .split(';')
+      .forEach(pair => {
+        const separator = pair.indexOf('=');
+        const key = separator === -1 ? pair : pair.slice(0, separator);
+        tags[key] = separator === -1 ? '' : unescapeTagValue(pair.slice(separator + 1));
+      });
+    rest = rest.slice(end + 1).trimStart();
+  }
+
+  let prefix: string | undefined;
+  if (rest.startsWith(':')) {
+    const end = rest.indexOf(' ');
+    prefix = rest.slice(1, end);
+    rest = rest.slice(end + 1).trimStart();
+  }
+
+  const trailingIndex = rest.indexOf(' :');
+  const head = trailingIndex === -1 ? rest : rest.slice(0, trailingIndex);
+  const [command, ...params] = head.split(' ').filter(Boolean);
+  if (!command) {
+    return null;
+  }
+
+  if (trailingIndex !== -1) {
+    params.push(rest.slice(trailingIndex + 2));
+  }
+
+  return { tags, prefix, command, params };
+}
+
+/**
+ * Parses the `badges` tag, e.g. "moderator/1,subscriber/12"
+ */
+export function parseBadges(tag: string | undefined): ChatUserBadge[] {
+  if (!tag) {
+    return [];
+  }
+
+  return tag
+    .split(',')
+    .filter(Boolean)
+    .map(badge => {
+      const [id, version = '1'] = badge.split('/');
+      return { id, version };
+    });
+}
+
+/**
+ * Splits a message into text and emote fragments using the `emotes` tag,
+ * e.g. "25:0-4,12-16/1902:6-10". Positions count Unicode code points.
+ */
+export function parseEmoteFragments(message: string, tag: string | undefined): ChatFragment[] {
+  if (!tag) {
+    return message ? [{ type: 'text', text: message }] : [];
+  }
+
+  const ranges: Array<{ id: string; start: number; end: number }> = [];
+  tag.split('/').forEach(entry => {
+    const [id, positions] = entry.split(':');
+    positions?.split(',').forEach(range => {
+      const [start, end] = range.split('-').map(Number);
+      if (Number.isInteger(start) && Number.isInteger(end)) {
+        ranges.push({ id, start, end });
+      }
+    });
+  });
+  ranges.sort((a, b) => a.start - b.start);
+
+  const characters = Array.from(message);
+  const fragments: ChatFragment[] = [];
+  let cursor = 0;
+
+  ranges.forEach(({ id, start, end }) => {
+    if (start < cursor || end >= characters.length) {
+      return;
+    }
+    if (start > cursor) {
+      fragments.push({ type: 'text', text: characters.slice(cursor, start).join('') });
+    }
+    fragments.push({
+      type: 'emote',
+      id,
+      text: characters.slice(start, end + 1).join(''),
+      // `default` serves the animated variant when the emote has one
+      url: `${EMOTE_CDN_URL}/${id}/default/dark/1.0`,
+      provider: 'twitch',
+    });
+    cursor = end + 1;
+  });
+
+  if (cursor < characters.length) {
+    fragments.push({ type: 'text', text: characters.slice(cursor).join('') });
+  }
+
+  return fragments;
+}
+
+const parseRoomState = (tags: Record<string, string>): Partial<ChatRoomState> => {
+  const state: Partial<ChatRoomState> = {};
+  if ('emote-only' in tags) {
+    state.emoteOnly = tags['emote-only'] === '1';
+  }
+  if ('subs-only' in tags) {
+    state.subsOnly = tags['subs-only'] === '1';
+  }
+  if ('slow' in tags) {
+    state.slowMode = Number(tags.slow) || 0;
+  }
+  if ('followers-only' in tags) {
+    const minutes = Number(tags['followers-only']);
+    state.followersOnly = minutes >= 0 ? minutes : null;
+  }
+  return state;
+};
+
+/**
+ * Converts a PRIVMSG or USERNOTICE into the shared chat message shape.
+ */
+export function toChatMessage(irc: IrcMessage): ChatMessage | null {
+  const { tags, params, command } = irc;
+  const channel = (params[0] || '').replace(/^#/, '');
+  let text = params[1] || '';
+  let type: ChatMessage['type'] = 'normal';
+
+  // "/me" messages arrive wrapped in CTCP ACTION
+  const action = /^\u0001ACTION (.*)\u0001$/.exec(text);
+  if (action) {
+    text = action[1];
+    type = 'action';
+  }
+
+  if (command === 'USERNOTICE') {
+    const noticeId = tags['msg-id'];
+    type = SUBSCRIPTION_NOTICES.has(noticeId)
+      ? 'subscription'
+      : noticeId === 'announcement'
+        ? 'announcement'
+        : 'system';
+  } else if (command !== 'PRIVMSG') {
+    return null;
+  }
+
+  const bits = tags.bits ? Number(tags.bits) : undefined;
+  if (bits && type === 'normal') {
+    type = 'donation';
+  }
+
+  const login = tags.login || irc.prefix?.split('!')[0] || '';
+  const sentAt = Number(tags['tmi-sent-ts']);
+
+  return {
+    id: tags.id || `${channel}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    platform: 'twitch',
+    channel,
+    userId: tags['user-id'] || '',
+    username: login,
+    displayName: tags['display-name'] || login,
+    message: text,
+    fragments: parseEmoteFragments(text, tags.emotes),
+    timestamp: sentAt ? new Date(sentAt) : new Date(),
+    type,
+    badges: parseBadges(tags.badges),
+    color: tags.color || undefined,
+    bits,
+    systemMessage: tags['system-msg'] || undefined,
+  };
+}
+
+class TwitchChatService {
+  private socket: WebSocket | null = null;
+  private channels = new Map<string, Set<ChatListener>>();
+  private status: ChatConnectionStatus = 'disconnected';
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectDelay = MIN_RECONNECT_DELAY_MS;
+  private credentials: TwitchChatCredentials | null = null;
+  private authRejected = false;
+  private login: string | null = null;
+  private userStates = new Map<string, ChannelUserState>();
+  private roomStates = new Map<string, Partial<ChatRoomState>>();
+  private roomIds = new Map<string, string>();
+  private pendingSends = new Map<string, PendingSend[]>();
+  private sentAt: number[] = [];
+  private lastSentByChannel = new Map<string, number>();
+
+  constructor(private readonly url: string = TWITCH_IRC_URL) {}
+
+  /**
+   * Joins `channel` and delivers its chat events to `listener`. The socket is
+   * opened on the first subscription and closed when the last one leaves.
+   */
+  subscribe(channel: string, listener: ChatListener): () => void {
+    const name = channel.toLowerCase().replace(/^#/, '');
+    let listeners = this.channels.get(name);
+
+    if (!listeners) {
+      listeners = new Set();
+      this.channels.set(name, listeners);
+      if (this.status === 'connected') {
+        this.send(`JOIN #${name}`);
+      }
+    }
+
+    listeners.add(listener);
+    listener({ type: 'status', status: this.status });
+    listener({ type: 'identity', login: this.login });
+    const roomState = this.roomStates.get(name);
+    if (roomState) {
+      listener({
+        type: 'roomstate',
+        channel: name,
+        state: roomState,
+        channelId: this.roomIds.get(name),
+      });
+    }
+    const userState = this.userStates.get(name);
+    if (userState) {
+      listener({ type: 'userstate', channel: name, badges: userState.badges });
+    }
+    this.connect();
+
+    return () => {
+      const current = this.channels.get(name);
+      if (!current) {
+        return;
+      }
+
+      current.delete(listener);
+      if (current.size === 0) {
+        this.channels.delete(name);
+        if (this.status === 'connected') {
+          this.send(`PART #${name}`);
+        }
+      }
+
+      if (this.channels.size === 0) {
+        this.disconnect();
+      }
+    };
+  }
+
+  getStatus(): ChatConnectionStatus {
+    return this.status;
+  }
+
+  /**
+   * Login the connection is authenticated as, or null while anonymous
+   */
+  getLogin(): string | null {
+    return this.login;
+  }
+
+  /**
+   * Switches between anonymous and authenticated chat. An open connection is
+   * re-established so the new identity takes effect immediately.
+   */
+  setCredentials(credentials: TwitchChatCredentials | null): void {
+    if (this.credentials?.login === credentials?.login) {
+      this.credentials = credentials;
+      return;
+    }
+
+    this.credentials = credentials;
+    this.authRejected = false;
+
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+      this.handleClosed();
+      this.connect();
+    }
+  }
+
+  /**
+   * Sends a chat message as the linked account. Resolves once Twitch confirms
+   * it and rejects with a ChatSendError explaining why it was not delivered.
+   */
+  sendMessage(channel: string, text: string): Promise<void> {
+    const name = channel.toLowerCase().replace(/^#/, '');
+    const message = text.replace(/[\r\n]+/g, ' ').trim();
+
+    if (!message) {
+      return Promise.reject(new ChatSendError('Message cannot be empty', 'invalid'));
+    }
+    if (message.length > MAX_MESSAGE_LENGTH) {
+      return Promise.reject(
+        new ChatSendError(`Message too long (max ${MAX_MESSAGE_LENGTH} characters)`, 'invalid')
+      );
+    }
+    if (!this.login) {
+      return Promise.reject(
+        new ChatSendError('Sign in with Twitch to send chat messages', 'not-authenticated')
+      );
+    }
+    if (this.status !== 'connected') {
+      return Promise.reject(
+        new ChatSendError('Not connected to Twitch chat. Try again shortly.', 'not-connected')
+      );
+    }
+    if (!this.channels.has(name)) {
+      return Promise.reject(new ChatSendError(`Not joined to #${name}`, 'not-joined'));
+    }
+
+    const blocked = this.checkRestrictions(name);
+    if (blocked) {
+      return Promise.reject(blocked);
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const pending: PendingSend = {
+        text: message,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.settlePending(
+            name,
+            pending,
+            new ChatSendError(
+              "Twitch didn't confirm the message. It may not have been sent.",
+              'timeout'
+            )
+          );
+        }, SEND_TIMEOUT_MS),
+      };
+
+      const queue = this.pendingSends.get(name) || [];
+      queue.push(pending);
+      this.pendingSends.set(name, queue);
+
+      const now = Date.now();
+      this.sentAt.push(now);
+      this.lastSentByChannel.set(name, now);
+      this.send(`PRIVMSG #${name} :${message}`);
+    });
+  }
+
+  // Client-side checks for limits Twitch would otherwise enforce by dropping messages
+  private checkRestrictions(channel: string): ChatSendError | null {
+    const now = Date.now();
+    const badges = this.userStates.get(channel)?.badges || [];
+    const hasBadge = (id: string) => badges.some(badge => badge.id === id);
+    const isPrivileged = hasBadge('broadcaster') || hasBadge('moderator');
+    const room = this.roomStates.get(channel) || {};
+
+    this.sentAt = this.sentAt.filter(time => now - time < RATE_LIMIT_WINDOW_MS);
+    const limit = isPrivileged ? RATE_LIMIT_MODERATOR : RATE_LIMIT_NORMAL;
+    if (this.sentAt.length >= limit) {
+      const retryIn = Math.ceil((this.sentAt[0] + RATE_LIMIT_WINDOW_MS - now) / 1000);
+      return new ChatSendError(
+        `You're sending messages too quickly. Try again in ${retryIn}s.`,
+        'rate-limited'
+      );
+    }
+
+    if (room.subsOnly && !isPrivileged && !hasBadge('subscriber') && !hasBadge('founder')) {
+      return new ChatSendError('This room is in subscribers-only mode.', 'subs-only');
+    }
+
+    const lastSent = this.lastSentByChannel.get(channel);
+    if (room.slowMode && lastSent && !isPrivileged && !hasBadge('vip')) {
+      const waitMs = room.slowMode * 1000 - (now - lastSent);
+      if (waitMs > 0) {
+        return new ChatSendError(
+          `Slow mode is on. You can send another message in ${Math.ceil(waitMs / 1000)}s.`,
+          'slow-mode'
+        );
+      }
+    }
+
+    return null;
+  }
+
+  private settlePending(channel: string, pending: PendingSend, error?: ChatSendError): void {
+    const queue = this.pendingSends.get(channel);
+    const index = queue ? queue.indexOf(pending) : -1;
+    if (index === -1) {
+      return;
+    }
+
+    queue.splice(index, 1);
+    clearTimeout(pending.timer);
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve();
+    }
+  }
+
+  private rejectAllPending(error: ChatSendError): void {
+    this.pendingSends.forEach((queue, channel) => {
+      [...queue].forEach(pending => this.settlePending(channel, pending, error));
+    });
+  }
+
+  private connect(): void {
+    if (this.socket || this.channels.size === 0) {
+      return;
+    }
+
+    this.setStatus('connecting');
+    console.log(`💬 Connecting to Twitch chat: ${this.url}`);
+
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = async () => {
+      const credentials = this.authRejected ? null : this.credentials;
+      const token = credentials ? await credentials.getToken() : null;
+      if (this.socket !== socket) {
+        return;
+      }
+
+      this.send('CAP REQ :twitch.tv/tags twitch.tv/commands');
+      if (credentials && token) {
+        this.send(`PASS oauth:${token}`);
+        this.send(`NICK ${credentials.login.toLowerCase()}`);
+      } else {
+        this.send('PASS SCHMOOPIIE');
+        this.send(`NICK justinfan${Math.floor(10000 + Math.random() * 80000)}`);
+      }
+    };
+
+    socket.onmessage = event => {
+      String(event.data)
+        .split('\r\n')
+        .forEach(line => {
+          const message = parseIrcMessage(line);
+          if (message) {
+            this.handleMessage(message);
+          }
+        });
+    };
+
+    socket.onerror = event => {
+      console.error('❌ Twitch chat socket error:', (event as ErrorEvent).message || event);
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) {
+        return;
+      }
+
+      this.socket = null;
+      this.handleClosed();
+      this.scheduleReconnect();
+    };
+  }
+
+  private handleClosed(): void {
+    this.setStatus('disconnected');
+    this.setLogin(null);
+    this.userStates.clear();
+    this.rejectAllPending(
+      new ChatSendError(
+        'Disconnected from Twitch chat before the message was sent',
+        'not-connected'
+      )
+    );
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.reconnectDelay = MIN_RECONNECT_DELAY_MS;
+    this.handleClosed();
+    this.roomStates.clear();
+    this.roomIds.clear();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.channels.size === 0 || this.reconnectTimer) {
+      return;
+    }
+
+    console.log(`🔄 Reconnecting to Twitch chat in ${this.reconnectDelay}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+  }
+
+  private send(line: string): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(`${line}\r\n`);
+    }
+  }
+
+  private handleMessage(message: IrcMessage): void {
+    const channel = (message.params[0] || '').replace(/^#/, '');
+
+    switch (message.command) {
+      case 'PING':
+        this.send(`PONG :${message.params[0] || 'tmi.twitch.tv'}`);
+        break;
+
+      case '001':
+        // Welcome: logged in, (re)join everything we are subscribed to
+        this.reconnectDelay = MIN_RECONNECT_DELAY_MS;
+        this.setLogin(/^justinfan\d+$/.test(message.params[0]) ? null : message.params[0]);
+        this.setStatus('connected');
+        if (this.channels.size > 0) {
+          this.send(`JOIN ${Array.from(this.channels.keys(), name => `#${name}`).join(',')}`);
+        }
+        break;
+
+      case 'RECONNECT':
+        // Twitch is about to restart the edge server; drop and reconnect
+        this.socket?.close();
+        break;
+
+      case 'PRIVMSG':
+      case 'USERNOTICE': {
+        const chatMessage = toChatMessage(message);
+        if (chatMessage) {
+          this.emit(channel, { type: 'message', message: chatMessage });
+        }
+        break;
+      }
+
+      case 'CLEARCHAT':
+        this.emit(channel, {
+          type: 'clearchat',
+          channel,
+          login: message.params[1],
+          userId: message.tags['target-user-id'],
+          duration: message.tags['ban-duration'] ? Number(message.tags['ban-duration']) : undefined,
+        });
+        break;
+
+      case 'CLEARMSG':
+        if (message.tags['target-msg-id']) {
+          this.emit(channel, {
+            type: 'clearmsg',
+            channel,
+            messageId: message.tags['target-msg-id'],
+          });
+        }
+        break;
+
+      case 'ROOMSTATE': {
+        const state = parseRoomState(message.tags);
+        this.roomStates.set(channel, { ...this.roomStates.get(channel), ...state });
+        if (message.tags['room-id']) {
+          this.roomIds.set(channel, message.tags['room-id']);
+        }
+        this.emit(channel, {
+          type: 'roomstate',
+          channel,
+          state,
+          channelId: this.roomIds.get(channel),
+        });
+        break;
+      }
+
+      case 'USERSTATE':
+        this.handleUserState(channel, message);
+        break;
+
+      case 'NOTICE':
+        if (
+          channel === '*' &&
+          /authentication failed|improperly formatted auth/i.test(message.params[1] || '')
+        ) {
+          // Bad or expired token: fall back to reading anonymously
+          console.error('❌ Twitch chat login rejected, continuing read-only');
+          this.authRejected = true;
+          this.socket?.close();
+          break;
+        }
+
+        if (this.rejectPendingFromNotice(channel, message)) {
+          break;
+        }
+
+        if (channel && channel !== '*') {
+          this.emit(channel, {
+            type: 'message',
+            message: {
+              id: `${channel}-notice-${Date.now()}`,
+              platform: 'twitch',
+              channel,
+              userId: '',
+              username: '',
+              displayName: 'Twitch',
+              message: message.params[1] || '',
+              fragments: [{ type: 'text', text: message.params[1] || '' }],
+              timestamp: new Date(),
+              type: 'system',
+              badges: [],
+            },
+          });
+        }
+        break;
+
+      default:
+        break;
+    }
+  }
+
+  // USERSTATE follows JOIN and every successful PRIVMSG
+  private handleUserState(channel: string, message: IrcMessage): void {
+    const { tags } = message;
+    const userState: ChannelUserState = {
+      badges: parseBadges(tags.badges),
+      color: tags.color || undefined,
+      displayName: tags['display-name'] || undefined,
+    };
+    this.userStates.set(channel, userState);
+    this.emit(channel, { type: 'userstate', channel, badges: userState.badges });
+
+    const pending = this.pendingSends.get(channel)?.[0];
+    if (!pending || !this.login) {
+      return;
+    }
+
+    this.settlePending(channel, pending);
+
+    // Twitch doesn't echo our own messages back, so add them locally
+    this.emit(channel, {
+      type: 'message',
+      message: {
+        id: tags.id || `${channel}-self-${Date.now()}`,
+        platform: 'twitch',
+        channel,
+        userId: '',
+        username: this.login,
+        displayName: userState.displayName || this.login,
+        message: pending.text,
+        fragments: [{ type: 'text', text: pending.text }],
+        timestamp: new Date(),
+        type: 'normal',
+        badges: userState.badges,
+        color: userState.color,
+      },
+    });
+  }
+
+  // Twitch rejects messages with a NOTICE whose msg-id starts with msg_
+  private rejectPendingFromNotice(channel: string, message: IrcMessage): boolean {
+    const noticeId = message.tags['msg-id'] || '';
+    const pending = this.pendingSends.get(channel)?.[0];
+    if (!pending || !noticeId.startsWith('msg_')) {
+      return false;
+    }
+
+    this.settlePending(
+      channel,
+      pending,
+      new ChatSendError(message.params[1] || 'Twitch rejected the message', noticeId)
+    );
+    return true;
+  }
+
+  private emit(channel: string, event: ChatEvent): void {
+    this.channels.get(channel)?.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('❌ Twitch chat listener failed:', error);
+      }
+    });
+  }
+
+  private setLogin(login: string | null): void {
+    if (this.login === login) {
+      return;
+    }
+
+    this.login = login;
+    this.channels.forEach(listeners => {
+      listeners.forEach(listener => listener({ type: 'identity', login }));
+    });
+  }
+
+  private setStatus(status: ChatConnectionStatus): void {
+    if (this.status === status) {
+      return;
+    }
+
+    this.status = status;
+    this.channels.forEach(listeners => {
+      listeners.forEach(listener => listener({ type: 'status', status }));
+    });
+  }
+}
+
+export const twitchChatService = new TwitchChatService();
+
+export const subscribeToTwitchChat = (channel: string, listener: ChatListener) => {
+  return twitchChatService.subscribe(channel, listener);
+};
+
+export const sendTwitchChatMessage = async (channel: string, text: string) => {
+  return twitchChatService.sendMessage(channel, text);
+};
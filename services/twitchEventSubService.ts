@@ -0,0 +1,404 @@
+/**
+ * Twitch EventSub Service
+ * EventSub over WebSocket as the linked Twitch account. One session socket
+ * carries every subscription; subscriptions are created through Helix once
+ * Twitch welcomes the session and again after a fresh reconnect. The socket
+ * only stays open while something is subscribed and an account is linked.
+ */
+
+import { ErrorContext, logDebug, logError, logWarning } from '@/utils/errorHandler';
+import { TwitchHelixError, twitchAuthService } from './twitchAuthService';
+
+// Point at the Twitch CLI's websocket server to test locally
+const EVENTSUB_URL =
+  process.env.EXPO_PUBLIC_TWITCH_EVENTSUB_URL || 'wss://eventsub.wss.twitch.tv/ws';
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 60000;
+// Grace on top of the keepalive interval Twitch announces in the welcome
+const KEEPALIVE_GRACE_MS = 10000;
+const SEEN_MESSAGE_LIMIT = 200;
+
+const logContext = (action: string, additionalData?: Record<string, unknown>): ErrorContext => ({
+  component: 'TwitchEventSubService',
+  action,
+  additionalData,
+});
+
+export interface EventSubSubscriptionRequest {
+  /** e.g. automod.message.hold or stream.online */
+  type: string;
+  version: string;
+  condition: Record<string, string>;
+}
+
+/** Event object of a notification; its fields depend on the subscription type */
+export type EventSubEvent = Record<string, unknown>;
+
+/** automod.message.hold v2 */
+export interface AutoModMessageHoldEvent {
+  broadcaster_user_id: string;
+  user_id: string;
+  user_login: string;
+  user_name: string;
+  message_id: string;
+  message: { text: string };
+  reason: 'automod' | 'blocked_term';
+  automod: { category: string; level: number } | null;
+  held_at: string;
+}
+
+/** automod.message.update v2 */
+export interface AutoModMessageUpdateEvent extends AutoModMessageHoldEvent {
+  moderator_user_id: string;
+  moderator_user_login: string;
+  status: 'approved' | 'denied' | 'expired';
+}
+
+interface EventSubSession {
+  id: string;
+  keepalive_timeout_seconds: number | null;
+  reconnect_url: string | null;
+}
+
+interface EventSubSubscription {
+  id: string;
+  type: string;
+  status: string;
+}
+
+// Payload of each WebSocket message type, reduced to the fields read here
+interface EventSubPayloads {
+  session_welcome: { session: EventSubSession };
+  session_keepalive: Record<string, never>;
+  session_reconnect: { session: EventSubSession };
+  notification: { subscription: EventSubSubscription; event: EventSubEvent };
+  revocation: { subscription: EventSubSubscription };
+}
+
+type EventSubMessageType = keyof EventSubPayloads;
+
+interface EventSubEnvelope<T extends EventSubMessageType> {
+  metadata: { message_id: string; message_type: T; message_timestamp: string };
+  payload: EventSubPayloads[T];
+}
+
+type EventSubMessage = { [T in EventSubMessageType]: EventSubEnvelope<T> }[EventSubMessageType];
+
+const isMessageType = <T extends EventSubMessageType>(
+  message: EventSubMessage,
+  type: T
+): message is Extract<EventSubMessage, EventSubEnvelope<T>> => {
+  return message.metadata?.message_type === type;
+};
+
+type EventSubListener<T extends object = EventSubEvent> = (event: T) => void;
+type EventSubErrorListener = (error: TwitchHelixError) => void;
+
+interface ActiveSubscription {
+  request: EventSubSubscriptionRequest;
+  listeners: Set<EventSubListener<object>>;
+  errorListeners: Set<EventSubErrorListener>;
+  /** Helix subscription id while registered with the current session */
+  remoteId: string | null;
+}
+
+const subscriptionKey = ({ type, version, condition }: EventSubSubscriptionRequest): string =>
+  `${type}@${version}:${Object.keys(condition)
+    .sort()
+    .map(key => `${key}=${condition[key]}`)
+    .join('&')}`;
+
+class TwitchEventSubService {
+  private socket: WebSocket | null = null;
+  private sessionId: string | null = null;
+  private subscriptions = new Map<string, ActiveSubscription>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectDelay = MIN_RECONNECT_DELAY_MS;
+  private keepaliveTimer: ReturnType<typeof setTimeout> | null = null;
+  private keepaliveMs = 0;
+  private seenMessageIds: string[] = [];
+  private userId: string | null = null;
+
+  constructor(private readonly url: string = EVENTSUB_URL) {
+    this.userId = twitchAuthService.getSession()?.userId || null;
+    // A different (or no) account invalidates every subscription on the session
+    twitchAuthService.subscribe(session => {
+      const userId = session?.userId || null;
+      if (userId === this.userId) {
+        return;
+      }
+      this.userId = userId;
+      this.disconnect();
+      this.connect();
+    });
+  }
+
+  /**
+   * Delivers events of one EventSub subscription to `listener`. Helix errors
+   * when creating it (missing scope, not a moderator) go to `onError`.
+   */
+  subscribe<T extends object = EventSubEvent>(
+    request: EventSubSubscriptionRequest,
+    listener: EventSubListener<T>,
+    onError?: EventSubErrorListener
+  ): () => void {
+    const key = subscriptionKey(request);
+    let subscription = this.subscriptions.get(key);
+
+    if (!subscription) {
+      subscription = { request, listeners: new Set(), errorListeners: new Set(), remoteId: null };
+      this.subscriptions.set(key, subscription);
+      if (this.sessionId) {
+        this.createRemote(subscription);
+      }
+    }
+
+    subscription.listeners.add(listener);
+    if (onError) {
+      subscription.errorListeners.add(onError);
+    }
+    this.connect();
+
+    return () => {
+      const current = this.subscriptions.get(key);
+      if (!current) {
+        return;
+      }
+
+      current.listeners.delete(listener);
+      if (onError) {
+        current.errorListeners.delete(onError);
+      }
+      if (current.listeners.size > 0) {
+        return;
+      }
+
+      this.subscriptions.delete(key);
+      if (current.remoteId) {
+        this.deleteRemote(current.remoteId);
+      }
+      if (this.subscriptions.size === 0) {
+        this.disconnect();
+      }
+    };
+  }
+
+  private connect(url: string = this.url): void {
+    if (this.socket || this.subscriptions.size === 0 || !twitchAuthService.getSession()) {
+      return;
+    }
+
+    this.openSocket(url);
+  }
+
+  private openSocket(url: string): void {
+    const socket = new WebSocket(url);
+    const isMigration = !!this.socket;
+    if (!isMigration) {
+      this.socket = socket;
+    }
+
+    socket.onmessage = event => {
+      let message: EventSubMessage;
+      try {
+        message = JSON.parse(String(event.data));
+      } catch {
+        return;
+      }
+
+      // A reconnect socket takes over once Twitch welcomes it
+      if (isMessageType(message, 'session_welcome') && this.socket !== socket) {
+        const previous = this.socket;
+        this.socket = socket;
+        previous?.close();
+      }
+      if (this.socket === socket) {
+        this.handleMessage(message, isMigration);
+      }
+    };
+
+    socket.onerror = event => {
+      const detail = (event as ErrorEvent).message || 'connection failed';
+      logError(`Twitch EventSub socket error: ${detail}`, logContext('connect'));
+    };
+
+    socket.onclose = event => {
+      if (this.socket !== socket) {
+        return;
+      }
+
+      this.socket = null;
+      this.handleClosed();
+      // 4000-4007: Twitch ended the session, e.g. 4003 when no subscription was created
+      logDebug(`Twitch EventSub closed (${event.code})`);
+      this.scheduleReconnect();
+    };
+  }
+
+  private handleMessage(message: EventSubMessage, isMigration: boolean): void {
+    const messageId = message.metadata?.message_id;
+    if (messageId) {
+      // Twitch may redeliver a message; handle each once
+      if (this.seenMessageIds.includes(messageId)) {
+        return;
+      }
+      this.seenMessageIds.push(messageId);
+      this.seenMessageIds = this.seenMessageIds.slice(-SEEN_MESSAGE_LIMIT);
+    }
+
+    this.resetKeepalive();
+
+    if (isMessageType(message, 'session_welcome')) {
+      const { session } = message.payload;
+      this.sessionId = session.id;
+      this.keepaliveMs = (session.keepalive_timeout_seconds || 10) * 1000;
+      this.reconnectDelay = MIN_RECONNECT_DELAY_MS;
+      this.resetKeepalive();
+      // Subscriptions carry over to a reconnect URL but not to a new session
+      if (!isMigration) {
+        this.subscriptions.forEach(subscription => this.createRemote(subscription));
+      }
+    } else if (isMessageType(message, 'session_reconnect')) {
+      logDebug('Twitch EventSub moving to a new edge server');
+      this.openSocket(message.payload.session.reconnect_url);
+    } else if (isMessageType(message, 'notification')) {
+      const { subscription: remote, event } = message.payload;
+      this.subscriptions.forEach(subscription => {
+        if (subscription.remoteId === remote.id) {
+          subscription.listeners.forEach(listener => {
+            try {
+              listener(event);
+            } catch (error) {
+              logError(error as Error, logContext('notify', { type: remote.type }));
+            }
+          });
+        }
+      });
+    } else if (isMessageType(message, 'revocation')) {
+      const { id, type, status } = message.payload.subscription;
+      logWarning(`Twitch revoked EventSub ${type}: ${status}`, logContext('revocation'));
+      this.subscriptions.forEach(subscription => {
+        if (subscription.remoteId === id) {
+          subscription.remoteId = null;
+          const error = new TwitchHelixError(`Subscription revoked: ${status}`, 403);
+          subscription.errorListeners.forEach(listener => listener(error));
+        }
+      });
+    }
+    // session_keepalive only resets the timer
+  }
+
+  private async createRemote(subscription: ActiveSubscription): Promise<void> {
+    const sessionId = this.sessionId;
+    subscription.remoteId = null;
+
+    try {
+      const response = await twitchAuthService.helixRequest<{ data: { id: string }[] }>(
+        '/eventsub/subscriptions',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            ...subscription.request,
+            transport: { method: 'websocket', session_id: sessionId },
+          }),
+        }
+      );
+
+      const remoteId = response?.data[0]?.id || null;
+      const isCurrent =
+        this.subscriptions.get(subscriptionKey(subscription.request)) === subscription;
+      if (!isCurrent) {
+        // Unsubscribed while the request was in flight
+        if (remoteId) {
+          this.deleteRemote(remoteId);
+        }
+        return;
+      }
+      if (sessionId === this.sessionId) {
+        subscription.remoteId = remoteId;
+        logDebug(`Twitch EventSub subscribed: ${subscription.request.type}`);
+      }
+    } catch (error) {
+      const helixError =
+        error instanceof TwitchHelixError
+          ? error
+          : new TwitchHelixError('Could not subscribe to Twitch events', 0);
+      logError(helixError, logContext('subscribe', { type: subscription.request.type }));
+      subscription.errorListeners.forEach(listener => listener(helixError));
+    }
+  }
+
+  private deleteRemote(remoteId: string): void {
+    twitchAuthService
+      .helixRequest(`/eventsub/subscriptions?id=${encodeURIComponent(remoteId)}`, {
+        method: 'DELETE',
+      })
+      .catch((error: Error) =>
+        logWarning(
+          `Failed to delete Twitch EventSub subscription: ${error.message}`,
+          logContext('unsubscribe', { remoteId })
+        )
+      );
+  }
+
+  // Twitch sends a message or keepalive at least every keepalive interval
+  private resetKeepalive(): void {
+    if (this.keepaliveTimer) {
+      clearTimeout(this.keepaliveTimer);
+      this.keepaliveTimer = null;
+    }
+    if (!this.keepaliveMs) {
+      return;
+    }
+
+    this.keepaliveTimer = setTimeout(() => {
+      logWarning('Twitch EventSub keepalive missed, reconnecting', logContext('keepalive'));
+      this.socket?.close();
+    }, this.keepaliveMs + KEEPALIVE_GRACE_MS);
+  }
+
+  private handleClosed(): void {
+    this.sessionId = null;
+    this.keepaliveMs = 0;
+    this.resetKeepalive();
+    this.subscriptions.forEach(subscription => {
+      subscription.remoteId = null;
+    });
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.reconnectDelay = MIN_RECONNECT_DELAY_MS;
+    this.handleClosed();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.subscriptions.size === 0 || this.reconnectTimer) {
+      return;
+    }
+
+    logDebug(`Reconnecting to Twitch EventSub in ${this.reconnectDelay}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+  }
+}
+
+export const twitchEventSubService = new TwitchEventSubService();
+
+export const subscribeToTwitchEvent = <T extends object = EventSubEvent>(
+  request: EventSubSubscriptionRequest,
+  listener: EventSubListener<T>,
+  onError?: EventSubErrorListener
+) => {
+  return twitchEventSubService.subscribe(request, listener, onError);
+};
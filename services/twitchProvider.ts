@@ -0,0 +1,180 @@
+import { RecordingKind, Stream } from '@/types/stream';
+import { EmbedOptions, PlatformProvider, RecordingPage, ResolvedChannel } from './platformRegistry';
+import { fromTwitchClip, fromTwitchStream, fromTwitchVideo } from './streamAdapters';
+import { formatTwitchTimestamp, parseTwitchTimestamp, twitchApi } from './twitchApi';
+
+const CHANNEL_URL_PATTERN = /^(?:https?:\/\/)?(?:www\.|m\.)?twitch\.tv\/([a-zA-Z0-9_]{3,25})\/?$/;
+const VIDEO_URL_PATTERN = /^(?:https?:\/\/)?(?:www\.|m\.)?twitch\.tv\/videos\/(\d+)\/?(?:[?#].*)?$/;
+// clips.twitch.tv/<slug>, clips.twitch.tv/embed?clip=<slug> and twitch.tv/<login>/clip/<slug>
+const CLIP_URL_PATTERNS = [
+  /^(?:https?:\/\/)?clips\.twitch\.tv\/(?:embed\?(?:.*&)?clip=)?([a-zA-Z0-9_-]+)/,
+  /^(?:https?:\/\/)?(?:www\.|m\.)?twitch\.tv\/[a-zA-Z0-9_]{3,25}\/clip\/([a-zA-Z0-9_-]+)/,
+];
+const TIMESTAMP_PARAM_PATTERN = /[?&]t=([0-9hms]+)/i;
+
+const parseLogin = (input: string): string | null => {
+  const value = input.trim();
+  const match = value.match(CHANNEL_URL_PATTERN);
+  if (match) {
+    return match[1].toLowerCase();
+  }
+
+  return /^[a-zA-Z0-9_]{3,25}$/.test(value) ? value.toLowerCase() : null;
+};
+
+const parseClipId = (input: string): string | null => {
+  for (const pattern of CLIP_URL_PATTERNS) {
+    const match = input.match(pattern);
+    if (match) {
+      return match[1];
+    }
+  }
+  return null;
+};
+
+// Favorites saved before ids were stored only know the login
+const getBroadcasterId = async (channel: Pick<Stream, 'channelId' | 'username'>) => {
+  if (/^\d+$/.test(channel.channelId)) {
+    return channel.channelId;
+  }
+  const users = await twitchApi.getUsers(undefined, [channel.username]);
+  return users.data[0]?.id || null;
+};
+
+export const twitchProvider: PlatformProvider = {
+  id: 'twitch',
+  displayName: 'Twitch',
+  color: '#9146FF',
+  icon: '🎮',
+  baseUrl: 'https://twitch.tv',
+  capabilities: {
+    discovery: true,
+    search: true,
+    chat: true,
+    clips: true,
+    vods: true,
+    categories: true,
+  },
+
+  async discover(limit: number): Promise<Stream[]> {
+    const response = await twitchApi.getTopStreams(limit);
+    return response.data.map(fromTwitchStream);
+  },
+
+  async search(query: string, limit: number): Promise<Stream[]> {
+    const response = await twitchApi.searchStreams(query, limit);
+    return response.data.map(fromTwitchStream);
+  },
+
+  async resolveChannel(input: string): Promise<ResolvedChannel | null> {
+    const login = parseLogin(input);
+    if (!login) {
+      return null;
+    }
+
+    const [users, liveStream] = await Promise.all([
+      twitchApi.getUsers(undefined, [login]),
+      twitchApi.getStreamByUserLogin(login),
+    ]);
+    const user = users.data[0];
+    if (!user) {
+      return null;
+    }
+
+    return {
+      platform: 'twitch',
+      channelId: user.id,
+      username: user.login,
+      displayName: user.display_name,
+      profileImageUrl: user.profile_image_url,
+      isLive: !!liveStream,
+      stream: liveStream ? fromTwitchStream(liveStream) : undefined,
+    };
+  },
+
+  matchesUrl(url: string): boolean {
+    return /^(?:https?:\/\/)?(?:[a-z]+\.)?twitch\.tv\//i.test(url.trim());
+  },
+
+  async getRecordings(
+    channel: Pick<Stream, 'channelId' | 'username'>,
+    kind: RecordingKind,
+    cursor?: string
+  ): Promise<RecordingPage> {
+    const broadcasterId = await getBroadcasterId(channel);
+    if (!broadcasterId) {
+      return { streams: [] };
+    }
+
+    if (kind === 'clip') {
+      const response = await twitchApi.getClips(broadcasterId, { after: cursor });
+      return {
+        streams: response.data.map(clip => fromTwitchClip(clip, channel.username)),
+        cursor: response.pagination?.cursor,
+      };
+    }
+
+    const response = await twitchApi.getVideos(broadcasterId, { after: cursor });
+    return {
+      streams: response.data.map(video => fromTwitchVideo(video)),
+      cursor: response.pagination?.cursor,
+    };
+  },
+
+  async resolveRecording(url: string): Promise<Stream | null> {
+    const input = url.trim();
+    const videoMatch = input.match(VIDEO_URL_PATTERN);
+    if (videoMatch) {
+      const video = await twitchApi.getVideoById(videoMatch[1]);
+      const timestamp = input.match(TIMESTAMP_PARAM_PATTERN);
+      const startAt = timestamp ? parseTwitchTimestamp(timestamp[1]) : null;
+      return video ? fromTwitchVideo(video, startAt ?? undefined) : null;
+    }
+
+    const clipId = parseClipId(input);
+    if (!clipId) {
+      return null;
+    }
+    const clip = await twitchApi.getClipById(clipId);
+    if (!clip) {
+      return null;
+    }
+    const users = await twitchApi.getUsers([clip.broadcaster_id]);
+    return fromTwitchClip(clip, users.data[0]?.login);
+  },
+
+  getEmbedUrl(stream: Stream, options: EmbedOptions = {}): string {
+    const recording = stream.recording;
+    if (recording?.type === 'vod') {
+      return twitchApi.generateVideoEmbedUrl(recording.id, {
+        ...options,
+        startAt: recording.startAt,
+      });
+    }
+    if (recording?.type === 'clip') {
+      return twitchApi.generateClipEmbedUrl(recording.id, options);
+    }
+    return twitchApi.generateEmbedUrl(stream.username, options);
+  },
+
+  getRecordingUrl(stream: Stream, seconds?: number): string {
+    const recording = stream.recording;
+    if (recording?.type === 'clip') {
+      return `https://clips.twitch.tv/${recording.id}`;
+    }
+    if (recording?.type !== 'vod') {
+      return `https://twitch.tv/${stream.username}`;
+    }
+
+    const url = `https://www.twitch.tv/videos/${recording.id}`;
+    return seconds ? `${url}?t=${formatTwitchTimestamp(seconds)}` : url;
+  },
+
+  getChannelUrl(stream: Stream): string {
+    return `https://twitch.tv/${stream.username}`;
+  },
+
+  getChatSource(stream: Stream) {
+    return { kind: 'twitch-irc', channel: stream.username };
+  },
+};
@@ -424,7 +424,7 @@ class ViewerSyncService extends EventEmitter {
     webSocketService.on('disconnected', this.handleDisconnected.bind(this));
   }
 
-  private handleRoomState(wsMessage: WebSocketMessage): void {
+  private handleRoomState(wsMessage: WebSocketMessage<SyncRoom>): void {
     const roomState: SyncRoom = wsMessage.data;
     this.currentRoom = roomState;
     
@@ -442,7 +442,7 @@ class ViewerSyncService extends EventEmitter {
     }
   }
 
-  private handleSyncEvent(wsMessage: WebSocketMessage): void {
+  private handleSyncEvent(wsMessage: WebSocketMessage<SyncEvent>): void {
     const event: SyncEvent = wsMessage.data;
     
     switch (event.type) {
@@ -481,7 +481,7 @@ class ViewerSyncService extends EventEmitter {
     this.emit('sync_event_received', event);
   }
 
-  private handleSyncCommand(wsMessage: WebSocketMessage): void {
+  private handleSyncCommand(wsMessage: WebSocketMessage<SyncCommand>): void {
     const command: SyncCommand = wsMessage.data;
     
     // Add to command queue
@@ -494,7 +494,9 @@ class ViewerSyncService extends EventEmitter {
     this.processSyncCommands();
   }
 
-  private handleHostChange(wsMessage: WebSocketMessage): void {
+  private handleHostChange(
+    wsMessage: WebSocketMessage<{ newHostId: string; newHostUsername: string }>
+  ): void {
     const { newHostId, newHostUsername } = wsMessage.data;
     
     if (this.currentRoom) {
@@ -0,0 +1,356 @@
+/**
+ * VOD Sync Service
+ * Lines up several past broadcasts of the same event (different players'
+ * POVs of a tournament match, say) on one shared timeline. Each VOD is
+ * anchored at the wall-clock time its broadcast started, and can be nudged by
+ * a manual offset when broadcasters ran different stream delays. A single
+ * master clock drives every tile through recordingPlaybackService and drift
+ * correction re-seeks any tile that wanders past the tolerance, the same way
+ * viewerSyncService keeps remote viewers in step.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { EventEmitter } from 'eventemitter3';
+import { RecordingSource, Stream } from '@/types/stream';
+import { recordingPlaybackService } from './recordingPlaybackService';
+
+const TOLERANCE_STORAGE_KEY = '@streamyyy_vod_sync_tolerance';
+
+export const SYNC_TOLERANCE_OPTIONS = [0.25, 0.5, 1, 2];
+// Same default as viewerSyncService's drift threshold
+const DEFAULT_TOLERANCE_SECONDS = 0.5;
+
+// How often tiles are compared against the master clock
+const DRIFT_CHECK_INTERVAL_MS = 1000;
+// A seek takes a moment to land; don't correct the same tile again before then
+const CORRECTION_COOLDOWN_MS = 3000;
+
+export interface VodSyncTrack {
+  streamId: string;
+  displayName: string;
+  /** Epoch ms the broadcast started, i.e. position 0 of the VOD */
+  startsAt: number;
+  /** Seconds */
+  duration: number;
+  /** Manual nudge in seconds; positive shows a later moment of this VOD */
+  offset: number;
+}
+
+export interface VodSyncTimeline {
+  /** Epoch ms of the earliest moment any track covers */
+  start: number;
+  /** Epoch ms of the latest moment any track covers */
+  end: number;
+  /** Epoch ms the master clock is at */
+  position: number;
+  playing: boolean;
+  rate: number;
+}
+
+export interface VodSyncCorrection {
+  streamId: string;
+  /** Seconds the tile was ahead (positive) or behind (negative) */
+  drift: number;
+  /** Seconds into the VOD it was moved to */
+  position: number;
+}
+
+/** True for streams the sync mode can line up */
+export const isSyncableVod = (stream: Stream): stream is Stream & { recording: RecordingSource } =>
+  stream.recording?.type === 'vod' &&
+  !Number.isNaN(Date.parse(stream.recording.createdAt || stream.startedAt));
+
+class VodSyncService extends EventEmitter {
+  private tracks: VodSyncTrack[] = [];
+  private active = false;
+  private playing = false;
+  private rate = 1;
+  // Master clock: `anchorPosition` was the timeline position at `anchorWall`
+  private anchorPosition = 0;
+  private anchorWall = 0;
+  private tolerance = DEFAULT_TOLERANCE_SECONDS;
+  private lastCorrection = new Map<string, number>();
+  private driftTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor() {
+    super();
+    this.loadTolerance();
+  }
+
+  /**
+   * Starts syncing the VODs among `streams`, or refreshes the set of tracks
+   * when already running. Offsets of tracks that stay are kept.
+   */
+  start(streams: Stream[]): void {
+    const previous = new Map(this.tracks.map(track => [track.streamId, track]));
+    this.tracks = streams.filter(isSyncableVod).map(stream => ({
+      streamId: stream.id,
+      displayName: stream.displayName,
+      startsAt: Date.parse(stream.recording.createdAt || stream.startedAt),
+      duration: stream.recording.duration,
+      offset: previous.get(stream.id)?.offset ?? 0,
+    }));
+
+    if (!this.tracks.length) {
+      this.stop();
+      return;
+    }
+
+    if (this.active) {
+      this.tracks
+        .filter(track => !previous.has(track.streamId))
+        .forEach(track => this.alignTrack(track));
+    } else {
+      this.active = true;
+      this.playing = false;
+      this.rate = 1;
+      // Start at the first moment every POV is rolling
+      this.setAnchor(Math.max(...this.tracks.map(track => this.getTrackStart(track))));
+      this.driftTimer = setInterval(() => this.checkDrift(), DRIFT_CHECK_INTERVAL_MS);
+      console.log(`🔄 VOD sync started with ${this.tracks.length} tracks`);
+      this.alignAll();
+    }
+
+    this.emitState();
+  }
+
+  stop(): void {
+    if (!this.active) {
+      return;
+    }
+    if (this.driftTimer) {
+      clearInterval(this.driftTimer);
+      this.driftTimer = null;
+    }
+    this.active = false;
+    this.playing = false;
+    this.tracks = [];
+    this.lastCorrection.clear();
+    console.log('✅ VOD sync stopped');
+    this.emitState();
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  getTracks(): VodSyncTrack[] {
+    return this.tracks;
+  }
+
+  getTimeline(): VodSyncTimeline {
+    return {
+      start: Math.min(...this.tracks.map(track => this.getTrackStart(track))),
+      end: Math.max(...this.tracks.map(track => this.getTrackStart(track) + track.duration * 1000)),
+      position: this.getPosition(),
+      playing: this.playing,
+      rate: this.rate,
+    };
+  }
+
+  getTolerance(): number {
+    return this.tolerance;
+  }
+
+  /**
+   * Seconds into the track's VOD that matches the master clock; outside
+   * [0, duration] when the VOD doesn't cover that moment.
+   */
+  getTrackPosition(track: VodSyncTrack, timelinePosition = this.getPosition()): number {
+    return (timelinePosition - track.startsAt) / 1000 + track.offset;
+  }
+
+  play(): void {
+    if (!this.active || this.playing) {
+      return;
+    }
+    this.setAnchor(this.getPosition());
+    this.playing = true;
+    this.alignAll();
+    this.emitState();
+  }
+
+  pause(): void {
+    if (!this.active || !this.playing) {
+      return;
+    }
+    this.setAnchor(this.getPosition());
+    this.playing = false;
+    this.tracks.forEach(track => recordingPlaybackService.setPaused(track.streamId, true));
+    this.emitState();
+  }
+
+  /**
+   * Moves the master clock to an epoch ms within the timeline.
+   */
+  seek(timelinePosition: number): void {
+    if (!this.active) {
+      return;
+    }
+    const { start, end } = this.getTimeline();
+    this.setAnchor(Math.min(Math.max(start, timelinePosition), end));
+    this.alignAll();
+    this.emitState();
+  }
+
+  seekBy(seconds: number): void {
+    this.seek(this.getPosition() + seconds * 1000);
+  }
+
+  setRate(rate: number): void {
+    if (!this.active) {
+      return;
+    }
+    this.setAnchor(this.getPosition());
+    this.rate = rate;
+    this.tracks.forEach(track => recordingPlaybackService.setPlaybackRate(track.streamId, rate));
+    this.emitState();
+  }
+
+  /**
+   * Shifts one track against the others by `seconds`.
+   */
+  nudge(streamId: string, seconds: number): void {
+    const track = this.tracks.find(item => item.streamId === streamId);
+    if (!track) {
+      return;
+    }
+    // Avoid float noise building up from repeated 0.1s nudges
+    track.offset = Math.round((track.offset + seconds) * 10) / 10;
+    this.alignTrack(track);
+    this.emitState();
+  }
+
+  resetOffset(streamId: string): void {
+    const track = this.tracks.find(item => item.streamId === streamId);
+    if (track && track.offset !== 0) {
+      this.nudge(streamId, -track.offset);
+    }
+  }
+
+  async setTolerance(seconds: number): Promise<void> {
+    this.tolerance = seconds;
+    this.emitState();
+    try {
+      await AsyncStorage.setItem(TOLERANCE_STORAGE_KEY, String(seconds));
+    } catch (error) {
+      console.error('❌ Failed to save VOD sync tolerance:', error);
+    }
+  }
+
+  private async loadTolerance(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(TOLERANCE_STORAGE_KEY);
+      if (stored && !Number.isNaN(Number(stored))) {
+        this.tolerance = Number(stored);
+      }
+    } catch (error) {
+      console.error('❌ Failed to load VOD sync tolerance:', error);
+    }
+  }
+
+  private getPosition(): number {
+    if (!this.playing) {
+      return this.anchorPosition;
+    }
+    return this.anchorPosition + (Date.now() - this.anchorWall) * this.rate;
+  }
+
+  private setAnchor(position: number): void {
+    this.anchorPosition = position;
+    this.anchorWall = Date.now();
+  }
+
+  private getTrackStart(track: VodSyncTrack): number {
+    return track.startsAt - track.offset * 1000;
+  }
+
+  private alignAll(): void {
+    this.tracks.forEach(track => this.alignTrack(track));
+  }
+
+  /**
+   * Seeks a tile to where the master clock says it should be and matches its
+   * play state. Tiles whose VOD doesn't cover the current moment sit paused.
+   */
+  private alignTrack(track: VodSyncTrack): void {
+    const position = this.getTrackPosition(track);
+    const inRange = position >= 0 && position <= track.duration;
+
+    recordingPlaybackService.seekTo(
+      track.streamId,
+      Math.min(Math.max(0, position), track.duration)
+    );
+    recordingPlaybackService.setPaused(track.streamId, !this.playing || !inRange);
+    this.lastCorrection.set(track.streamId, Date.now());
+  }
+
+  private checkDrift(): void {
+    const now = Date.now();
+    const timelinePosition = this.getPosition();
+
+    if (this.playing && timelinePosition >= this.getTimeline().end) {
+      this.pause();
+      return;
+    }
+
+    this.tracks.forEach(track => {
+      if (!recordingPlaybackService.isRegistered(track.streamId)) {
+        return;
+      }
+      if (now - (this.lastCorrection.get(track.streamId) || 0) < CORRECTION_COOLDOWN_MS) {
+        return;
+      }
+
+      const expected = this.getTrackPosition(track, timelinePosition);
+      const inRange = expected >= 0 && expected <= track.duration;
+      const state = recordingPlaybackService.getState(track.streamId);
+
+      if (!this.playing || !inRange) {
+        if (state?.playing) {
+          recordingPlaybackService.setPaused(track.streamId, true);
+        }
+        return;
+      }
+
+      // The player hasn't reported yet, or stopped on its own (buffering, came into range)
+      if (!state || !state.playing) {
+        this.alignTrack(track);
+        return;
+      }
+
+      const current = recordingPlaybackService.getCurrentPosition(track.streamId) ?? state.position;
+      const drift = current - expected;
+      if (Math.abs(drift) <= this.tolerance) {
+        return;
+      }
+
+      this.emit('sync_drift_detected', {
+        streamId: track.streamId,
+        drift,
+        threshold: this.tolerance,
+      });
+      recordingPlaybackService.seekTo(track.streamId, expected);
+      if (state.rate !== this.rate) {
+        recordingPlaybackService.setPlaybackRate(track.streamId, this.rate);
+      }
+      this.lastCorrection.set(track.streamId, now);
+
+      const correction: VodSyncCorrection = { streamId: track.streamId, drift, position: expected };
+      this.emit('sync_correction_applied', correction);
+    });
+  }
+
+  private emitState(): void {
+    this.emit('state_changed');
+  }
+}
+
+export const vodSyncService = new VodSyncService();
+
+export const startVodSync = (streams: Stream[]) => vodSyncService.start(streams);
+
+export const stopVodSync = () => vodSyncService.stop();
+
+export const nudgeVodSyncTrack = (streamId: string, seconds: number) =>
+  vodSyncService.nudge(streamId, seconds);
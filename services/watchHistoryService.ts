@@ -0,0 +1,400 @@
+/**
+ * Watch History Service
+ * Records which streams were watched in the grid and for how long. History is
+ * kept on the device so it works offline and, for signed-in users, mirrored
+ * to the stream_views table; views recorded on other devices are merged in
+ * on sync. Resume positions for on-demand videos are kept on the device
+ * alongside the history.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Stream } from '@/types/stream';
+import { authService } from './authService';
+import { StreamView, databaseService } from './databaseService';
+
+const STORAGE_KEY = '@streamyyy_watch_history';
+const POSITIONS_STORAGE_KEY = '@streamyyy_watch_positions';
+const MAX_ENTRIES = 500;
+// Anything shorter is flipping through channels, not watching
+const MIN_WATCH_SECONDS = 30;
+// Watching the same stream again this soon continues the previous entry
+const MERGE_WINDOW_MS = 15 * 60 * 1000;
+// Positions this close to the start or end aren't worth resuming
+const RESUME_MARGIN_SECONDS = 30;
+const CONTINUE_WATCHING_LIMIT = 10;
+
+export interface WatchHistoryEntry {
+  /** Local id; stays the same once the entry is synced */
+  id: string;
+  /** stream_views row id, null until synced */
+  remoteId: string | null;
+  streamId: string;
+  platform: string;
+  channelName: string;
+  title: string;
+  category: string;
+  thumbnailUrl: string;
+  durationSeconds: number;
+  /** When the view last ended */
+  watchedAt: string;
+  /** Enough to reopen the stream; missing for views from other devices */
+  stream?: Stream;
+}
+
+export interface ContinueWatchingItem {
+  entry: WatchHistoryEntry;
+  stream: Stream;
+  position: number;
+  duration: number;
+}
+
+type HistoryListener = (entries: WatchHistoryEntry[]) => void;
+
+interface WatchSession {
+  stream: Stream;
+  startedAt: number;
+}
+
+interface SavedPosition {
+  position: number;
+  duration: number;
+  updatedAt: string;
+}
+
+/** On-demand videos and past broadcasts are the only streams that can be resumed */
+export const isResumable = (stream: Stream): boolean =>
+  stream.recording?.type === 'vod' || (!!stream.playback && !stream.playback.isLive);
+
+const toEntry = (view: StreamView): WatchHistoryEntry => ({
+  id: `remote_${view.id}`,
+  remoteId: view.id,
+  streamId: view.stream_id,
+  platform: view.platform || view.stream_id.split('_')[0],
+  channelName: view.stream_name,
+  title: view.title || '',
+  category: view.category || '',
+  thumbnailUrl: view.thumbnail_url || '',
+  durationSeconds: view.duration_seconds,
+  watchedAt: view.viewed_at,
+});
+
+class WatchHistoryService {
+  private entries: WatchHistoryEntry[] | null = null;
+  private loadPromise: Promise<WatchHistoryEntry[]> | null = null;
+  private sessions = new Map<string, WatchSession>();
+  private listeners = new Set<HistoryListener>();
+  private positions: Record<string, SavedPosition> | null = null;
+  private positionsPromise: Promise<Record<string, SavedPosition>> | null = null;
+
+  /**
+   * History on this device, newest first.
+   */
+  load(): Promise<WatchHistoryEntry[]> {
+    if (this.entries) {
+      return Promise.resolve(this.entries);
+    }
+    if (!this.loadPromise) {
+      this.loadPromise = AsyncStorage.getItem(STORAGE_KEY)
+        .then(stored => {
+          this.entries = stored ? JSON.parse(stored) : [];
+          return this.entries!;
+        })
+        .catch(error => {
+          console.error('❌ Failed to load watch history:', error);
+          this.entries = [];
+          return this.entries;
+        })
+        .finally(() => {
+          this.loadPromise = null;
+        });
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Uploads views recorded while offline and merges in views from the
+   * user's other devices. Returns the merged history.
+   */
+  async sync(): Promise<WatchHistoryEntry[]> {
+    const entries = await this.load();
+    const userId = await this.getUserId();
+    if (!userId) {
+      return entries;
+    }
+
+    console.log('🔄 Syncing watch history');
+    for (const entry of entries.filter(item => !item.remoteId)) {
+      entry.remoteId = await databaseService.recordStreamView(
+        userId,
+        entry.streamId,
+        entry.channelName,
+        entry.durationSeconds,
+        {
+          platform: entry.platform,
+          title: entry.title,
+          category: entry.category,
+          thumbnail_url: entry.thumbnailUrl,
+        },
+        entry.watchedAt
+      );
+    }
+
+    const views = await databaseService.getStreamViews(userId, MAX_ENTRIES);
+    if (views) {
+      const known = new Set(entries.map(entry => entry.remoteId));
+      views.filter(view => !known.has(view.id)).forEach(view => entries.push(toEntry(view)));
+    }
+
+    await this.save(entries);
+    return this.entries!;
+  }
+
+  /**
+   * Sets the streams currently being watched. Streams that left the list
+   * since the previous call are recorded; pass an empty list when the app
+   * goes to the background.
+   */
+  setWatching(streams: Stream[]): void {
+    const now = Date.now();
+    const watching = new Map(streams.map(stream => [stream.id, stream]));
+
+    this.sessions.forEach((session, streamId) => {
+      if (!watching.has(streamId)) {
+        this.sessions.delete(streamId);
+        this.record(session.stream, Math.round((now - session.startedAt) / 1000));
+      }
+    });
+    watching.forEach((stream, streamId) => {
+      const session = this.sessions.get(streamId);
+      if (session) {
+        // Keep the latest title and category for the entry
+        session.stream = stream;
+      } else {
+        this.sessions.set(streamId, { stream, startedAt: now });
+      }
+    });
+  }
+
+  async remove(entryId: string): Promise<void> {
+    const entries = await this.load();
+    const entry = entries.find(item => item.id === entryId);
+    if (!entry) {
+      return;
+    }
+
+    await this.save(entries.filter(item => item.id !== entryId));
+    const userId = await this.getUserId();
+    if (userId && entry.remoteId) {
+      await databaseService.deleteStreamView(userId, entry.remoteId);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.save([]);
+    const userId = await this.getUserId();
+    if (userId) {
+      await databaseService.clearStreamViews(userId);
+    }
+  }
+
+  /**
+   * Listens for history changes. Returns an unsubscribe.
+   */
+  subscribe(listener: HistoryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stores how far into an on-demand video playback is.
+   */
+  async savePosition(streamId: string, position: number, duration: number): Promise<void> {
+    const positions = await this.loadPositions();
+    positions[streamId] = { position, duration, updatedAt: new Date().toISOString() };
+
+    // Keep as many positions as history entries, dropping the oldest
+    const streamIds = Object.keys(positions);
+    if (streamIds.length > MAX_ENTRIES) {
+      streamIds
+        .sort((a, b) => positions[b].updatedAt.localeCompare(positions[a].updatedAt))
+        .slice(MAX_ENTRIES)
+        .forEach(id => delete positions[id]);
+    }
+
+    try {
+      await AsyncStorage.setItem(POSITIONS_STORAGE_KEY, JSON.stringify(positions));
+    } catch (error) {
+      console.error('❌ Failed to save playback position:', error);
+    }
+  }
+
+  /**
+   * Where to resume `streamId`, or 0 to start from the beginning.
+   */
+  async getResumePosition(streamId: string): Promise<number> {
+    const saved = (await this.loadPositions())[streamId];
+    if (!saved || !this.isResumePosition(saved.position, saved.duration)) {
+      return 0;
+    }
+    return saved.position;
+  }
+
+  /**
+   * On-demand videos started but not finished, most recently watched first.
+   */
+  async getContinueWatching(): Promise<ContinueWatchingItem[]> {
+    const entries = await this.load();
+    const seen = new Set<string>();
+    const candidates = entries.filter(entry => {
+      if (!entry.stream || !isResumable(entry.stream) || seen.has(entry.streamId)) {
+        return false;
+      }
+      seen.add(entry.streamId);
+      return true;
+    });
+
+    const positions = await this.loadPositions();
+    const items: ContinueWatchingItem[] = [];
+    for (const entry of candidates) {
+      const saved = positions[entry.streamId];
+      if (saved && this.isResumePosition(saved.position, saved.duration)) {
+        items.push({
+          entry,
+          stream: entry.stream!,
+          position: saved.position,
+          duration: saved.duration,
+        });
+      }
+      if (items.length >= CONTINUE_WATCHING_LIMIT) {
+        break;
+      }
+    }
+    return items;
+  }
+
+  private loadPositions(): Promise<Record<string, SavedPosition>> {
+    if (this.positions) {
+      return Promise.resolve(this.positions);
+    }
+    if (!this.positionsPromise) {
+      this.positionsPromise = AsyncStorage.getItem(POSITIONS_STORAGE_KEY)
+        .then(stored => {
+          this.positions = stored ? JSON.parse(stored) : {};
+          return this.positions!;
+        })
+        .catch(error => {
+          console.error('❌ Failed to load playback positions:', error);
+          this.positions = {};
+          return this.positions;
+        })
+        .finally(() => {
+          this.positionsPromise = null;
+        });
+    }
+    return this.positionsPromise;
+  }
+
+  private isResumePosition(position: number, duration: number): boolean {
+    return (
+      position > RESUME_MARGIN_SECONDS && (!duration || position < duration - RESUME_MARGIN_SECONDS)
+    );
+  }
+
+  private async record(stream: Stream, seconds: number): Promise<void> {
+    if (seconds < MIN_WATCH_SECONDS) {
+      return;
+    }
+
+    const entries = await this.load();
+    const watchedAt = new Date().toISOString();
+    const previous = entries.find(entry => entry.streamId === stream.id);
+    const isContinuation =
+      !!previous && Date.now() - new Date(previous.watchedAt).getTime() < MERGE_WINDOW_MS;
+
+    let entry: WatchHistoryEntry;
+    if (previous && isContinuation) {
+      entry = {
+        ...previous,
+        title: stream.title,
+        category: stream.category,
+        durationSeconds: previous.durationSeconds + seconds,
+        watchedAt,
+        stream,
+      };
+    } else {
+      entry = {
+        id: `view_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+        remoteId: null,
+        streamId: stream.id,
+        platform: stream.platform,
+        channelName: stream.displayName,
+        title: stream.title,
+        category: stream.category,
+        thumbnailUrl: stream.thumbnailUrl,
+        durationSeconds: seconds,
+        watchedAt,
+        stream,
+      };
+    }
+    await this.save([entry, ...entries.filter(item => item.id !== entry.id)]);
+    console.log(`✅ Recorded ${seconds}s of ${stream.displayName}`);
+
+    const userId = await this.getUserId();
+    if (!userId) {
+      return;
+    }
+    if (entry.remoteId) {
+      await databaseService.updateStreamView(
+        userId,
+        entry.remoteId,
+        entry.durationSeconds,
+        entry.watchedAt
+      );
+      return;
+    }
+
+    const remoteId = await databaseService.recordStreamView(
+      userId,
+      entry.streamId,
+      entry.channelName,
+      entry.durationSeconds,
+      {
+        platform: entry.platform,
+        title: entry.title,
+        category: entry.category,
+        thumbnail_url: entry.thumbnailUrl,
+      },
+      entry.watchedAt
+    );
+    if (remoteId) {
+      // Failed inserts stay local and are retried by the next sync
+      const current = await this.load();
+      await this.save(current.map(item => (item.id === entry.id ? { ...item, remoteId } : item)));
+    }
+  }
+
+  private async save(entries: WatchHistoryEntry[]): Promise<void> {
+    this.entries = entries
+      .sort((a, b) => new Date(b.watchedAt).getTime() - new Date(a.watchedAt).getTime())
+      .slice(0, MAX_ENTRIES);
+    this.listeners.forEach(listener => listener(this.entries!));
+
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      console.error('❌ Failed to save watch history:', error);
+    }
+  }
+
+  private async getUserId(): Promise<string | null> {
+    const user = await authService.getCurrentUser();
+    return user?.id || null;
+  }
+}
+
+export const watchHistoryService = new WatchHistoryService();
+
+export const getWatchHistory = async () => watchHistoryService.load();
+export const syncWatchHistory = async () => watchHistoryService.sync();
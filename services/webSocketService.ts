@@ -0,0 +1,572 @@
+/**
+ * WebSocket Service
+ * The app's single connection to the realtime backend (see server/README.md).
+ * Every frame is a `{ type, data, timestamp }` envelope; services send with
+ * `sendMessage` and listen with `on('message:<type>')`. Chat-style rooms are
+ * multiplexed over the one socket and rejoined after a reconnect, messages
+ * sent while offline are queued until the socket is back, and the connection
+ * is closed while the app is in the background.
+ */
+
+import { EventEmitter } from 'eventemitter3';
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+
+// Point at the reference server (`npm run server`) during development
+const WS_URL = process.env.EXPO_PUBLIC_WS_URL || 'wss://ws.streammulti.com';
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+const CONNECT_TIMEOUT_MS = 10000;
+const HEARTBEAT_INTERVAL_MS = 25000;
+const HEARTBEAT_TIMEOUT_MS = 10000;
+const MAX_QUEUED_MESSAGES = 100;
+
+// Only meaningful right now; replaying them after a reconnect would mislead
+const VOLATILE_MESSAGE_TYPES = new Set([
+  'ping',
+  'typing_start',
+  'typing_stop',
+  'presence_heartbeat',
+  'room_heartbeat',
+]);
+
+export interface WebSocketMessage<T = unknown> {
+  type: string;
+  data: T;
+  timestamp: string;
+}
+
+/** A frame as it comes off the socket, before it is wrapped as a WebSocketMessage */
+interface PartyFrame {
+  type?: unknown;
+  data?: unknown;
+  timestamp?: string;
+}
+
+interface RoomPayload {
+  roomId?: string;
+}
+
+interface PongPayload {
+  heartbeat?: boolean;
+}
+
+interface ErrorPayload {
+  type?: string;
+  message?: string;
+}
+
+export type WebSocketConnectionState =
+  | 'disconnected'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'suspended';
+
+export interface ConnectionStateChange {
+  state: WebSocketConnectionState;
+  isConnected: boolean;
+  reconnectAttempt: number;
+}
+
+interface RealtimeIdentity {
+  userId: string;
+  username?: string;
+}
+
+interface ConnectWaiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+export class WebSocketService extends EventEmitter {
+  private socket: WebSocket | null = null;
+  private state: WebSocketConnectionState = 'disconnected';
+  private identity: RealtimeIdentity | null = null;
+  // Insertion order doubles as join order; the last entry is the current room
+  private rooms = new Set<string>();
+  private queue: WebSocketMessage[] = [];
+  private waiters: ConnectWaiter[] = [];
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private connectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private heartbeatTimeout: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  // Set by connect() and cleared by disconnect(); reconnects only happen in between
+  private active = false;
+  private closedByUser = false;
+
+  constructor(private readonly url: string = WS_URL) {
+    super();
+  }
+
+  /**
+   * Opens the connection as `userId`, or resolves straight away if it's
+   * already open as that user. Rejects if this attempt fails; the service
+   * keeps retrying in the background either way.
+   */
+  connect(userId?: string, username?: string): Promise<void> {
+    const identityChanged =
+      !!userId && (userId !== this.identity?.userId || username !== this.identity?.username);
+    if (userId) {
+      this.identity = { userId, username };
+    }
+    this.active = true;
+    this.closedByUser = false;
+    this.watchAppState();
+
+    if (identityChanged && this.socket) {
+      // The server reads the identity from the connection URL
+      this.dropSocket();
+      this.handleClosed(1000, 'identity changed');
+    }
+    if (this.state === 'connected') {
+      return Promise.resolve();
+    }
+
+    const opened = new Promise<void>((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+    if (this.state === 'disconnected') {
+      this.openSocket();
+    } else if (this.state === 'reconnecting' && this.reconnectTimer) {
+      // Someone is waiting on us; skip the rest of the backoff
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+      this.openSocket();
+    }
+    return opened;
+  }
+
+  /**
+   * Closes the connection for good and forgets rooms and queued messages.
+   */
+  disconnect(): void {
+    const wasConnected = this.state === 'connected';
+    this.active = false;
+    this.closedByUser = true;
+    this.clearReconnectTimer();
+    this.dropSocket();
+    this.stopHeartbeat();
+    this.rooms.clear();
+    this.queue = [];
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.rejectWaiters(new Error('Disconnected from the realtime server'));
+    this.reconnectAttempt = 0;
+    this.setState('disconnected');
+    if (wasConnected) {
+      this.emit('disconnected', { code: 1000, reason: 'client disconnect' });
+    }
+  }
+
+  isConnected(): boolean {
+    return this.state === 'connected';
+  }
+
+  getConnectionState(): WebSocketConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Sends `data` as a `type` message. While offline the message is queued and
+   * delivered once the connection is back, except for volatile types like
+   * pings and typing indicators, which are dropped.
+   */
+  async sendMessage<T = unknown>(type: string, data: T = {} as T): Promise<void> {
+    const message: WebSocketMessage<T> = { type, data, timestamp: new Date().toISOString() };
+
+    if (this.state === 'connected' && this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+      return;
+    }
+    if (VOLATILE_MESSAGE_TYPES.has(type)) {
+      return;
+    }
+
+    this.queue.push(message);
+    if (this.queue.length > MAX_QUEUED_MESSAGES) {
+      this.queue.shift();
+    }
+    this.connectLazily();
+  }
+
+  /**
+   * Joins a chat-style room. Several rooms can be joined at once; the most
+   * recent one receives messages that don't name a `roomId`.
+   */
+  async joinRoom(roomId: string): Promise<void> {
+    this.rooms.delete(roomId);
+    this.rooms.add(roomId);
+
+    if (this.state === 'connected') {
+      await this.sendMessage('join_room', { roomId });
+    } else {
+      // Joined when the socket opens, along with any other rooms
+      this.connectLazily();
+    }
+  }
+
+  /**
+   * Leaves `roomId`, or the current room when none is given.
+   */
+  async leaveRoom(roomId: string | null = this.getCurrentRoom()): Promise<void> {
+    if (!roomId || !this.rooms.delete(roomId)) {
+      return;
+    }
+
+    this.queue = this.queue.filter(message => (message.data as RoomPayload)?.roomId !== roomId);
+    if (this.state === 'connected') {
+      await this.sendMessage('leave_room', { roomId });
+    }
+  }
+
+  getCurrentRoom(): string | null {
+    return Array.from(this.rooms).pop() || null;
+  }
+
+  getRooms(): string[] {
+    return Array.from(this.rooms);
+  }
+
+  async sendTypingIndicator(
+    isTyping: boolean,
+    roomId: string | null = this.getCurrentRoom()
+  ): Promise<void> {
+    if (!roomId) {
+      return;
+    }
+
+    await this.sendMessage(isTyping ? 'typing_start' : 'typing_stop', {
+      userId: this.identity?.userId,
+      username: this.identity?.username,
+      roomId,
+    });
+  }
+
+  /**
+   * Calls `listener` with the payload of every `type` message. Returns an
+   * unsubscribe function.
+   */
+  onMessage<T = unknown>(type: string, listener: (data: T) => void): () => void {
+    const handler = (message: WebSocketMessage<T>) => listener(message.data);
+    this.on(`message:${type}`, handler);
+    return () => {
+      this.off(`message:${type}`, handler);
+    };
+  }
+
+  private connectLazily(): void {
+    if (this.state !== 'disconnected' || this.closedByUser) {
+      return;
+    }
+
+    this.connect().catch(error => {
+      console.warn('⚠️ Realtime connection failed:', error.message);
+    });
+  }
+
+  private buildUrl(): string {
+    if (!this.identity) {
+      return this.url;
+    }
+
+    const params = [`userId=${encodeURIComponent(this.identity.userId)}`];
+    if (this.identity.username) {
+      params.push(`username=${encodeURIComponent(this.identity.username)}`);
+    }
+    return `${this.url}${this.url.includes('?') ? '&' : '?'}${params.join('&')}`;
+  }
+
+  private openSocket(): void {
+    this.setState(this.reconnectAttempt > 0 ? 'reconnecting' : 'connecting');
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.buildUrl());
+    } catch (error) {
+      console.error('❌ Failed to open realtime connection:', error);
+      this.handleClosed(1006, 'failed to open');
+      return;
+    }
+    this.socket = socket;
+
+    this.connectTimer = setTimeout(() => {
+      console.warn('⚠️ Realtime connection timed out');
+      this.dropSocket();
+      this.handleClosed(1006, 'connect timeout');
+    }, CONNECT_TIMEOUT_MS);
+
+    socket.onopen = () => {
+      if (this.socket !== socket) {
+        return;
+      }
+
+      this.clearConnectTimer();
+      const reconnected = this.reconnectAttempt > 0;
+      this.reconnectAttempt = 0;
+      this.setState('connected');
+      this.startHeartbeat();
+
+      // Rooms first, in join order, so queued messages land where they were meant to
+      this.rooms.forEach(roomId => this.sendNow({ type: 'join_room', data: { roomId } }));
+      const queued = this.queue;
+      this.queue = [];
+      queued.forEach(message => this.sendNow(message));
+
+      console.log('✅ Connected to realtime server');
+      this.waiters.forEach(waiter => waiter.resolve());
+      this.waiters = [];
+      this.emit('connected');
+      if (reconnected) {
+        this.emit('reconnected');
+      }
+    };
+
+    socket.onmessage = event => {
+      if (this.socket !== socket) {
+        return;
+      }
+      this.handleFrame(event.data);
+    };
+
+    socket.onerror = () => {
+      // onclose follows with the details
+    };
+
+    socket.onclose = event => {
+      if (this.socket !== socket) {
+        return;
+      }
+      this.socket = null;
+      this.handleClosed(event.code, event.reason);
+    };
+  }
+
+  // Forgets the current socket without waiting for its close event
+  private dropSocket(): void {
+    const socket = this.socket;
+    if (!socket) {
+      return;
+    }
+
+    this.socket = null;
+    socket.onopen = null;
+    socket.onmessage = null;
+    socket.onerror = null;
+    socket.onclose = null;
+    try {
+      socket.close();
+    } catch {
+      // Already closed
+    }
+  }
+
+  private handleClosed(code: number, reason: string): void {
+    const wasConnected = this.state === 'connected';
+    this.clearConnectTimer();
+    this.stopHeartbeat();
+    this.rejectWaiters(new Error('Could not connect to the realtime server'));
+
+    if (this.state !== 'suspended') {
+      if (this.active) {
+        this.scheduleReconnect();
+      } else {
+        this.setState('disconnected');
+      }
+    }
+    if (wasConnected) {
+      console.log(`🔄 Realtime connection closed (${code}${reason ? `: ${reason}` : ''})`);
+      this.emit('disconnected', { code, reason });
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) {
+      return;
+    }
+
+    const backoff = Math.min(
+      MIN_RECONNECT_DELAY_MS * 2 ** this.reconnectAttempt,
+      MAX_RECONNECT_DELAY_MS
+    );
+    // Jitter so clients dropped by the same outage don't all return at once
+    const delay = Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+    this.reconnectAttempt += 1;
+    this.setState('reconnecting');
+    this.emit('reconnecting', { attempt: this.reconnectAttempt, delay });
+
+    console.log(`🔄 Reconnecting to realtime server in ${delay}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket();
+    }, delay);
+  }
+
+  private handleFrame(raw: unknown): void {
+    // Any traffic proves the connection is alive
+    this.clearHeartbeatTimeout();
+
+    let parsed: PartyFrame | null;
+    try {
+      parsed = JSON.parse(String(raw));
+    } catch {
+      console.warn('⚠️ Ignoring malformed realtime message');
+      return;
+    }
+    if (!parsed || typeof parsed.type !== 'string') {
+      return;
+    }
+
+    // A few server messages (stream alerts) come unwrapped; their fields are the payload
+    const message: WebSocketMessage = {
+      type: parsed.type,
+      data: parsed.data !== undefined ? parsed.data : parsed,
+      timestamp: parsed.timestamp || new Date().toISOString(),
+    };
+
+    if (message.type === 'pong' && (message.data as PongPayload)?.heartbeat) {
+      return;
+    }
+    if (message.type === 'error') {
+      const error = message.data as ErrorPayload;
+      console.warn(`⚠️ Realtime server rejected ${error?.type || 'a message'}:`, error?.message);
+    }
+    if (message.type === 'room_joined') {
+      this.emit('room_state', message.data);
+    }
+
+    this.emit('message', message);
+    this.emit(`message:${message.type}`, message);
+  }
+
+  private sendNow(message: Omit<WebSocketMessage, 'timestamp'> & { timestamp?: string }): void {
+    this.socket?.send(
+      JSON.stringify({ ...message, timestamp: message.timestamp || new Date().toISOString() })
+    );
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      this.sendNow({ type: 'ping', data: { heartbeat: true, timestamp: Date.now() } });
+      if (this.heartbeatTimeout) {
+        return;
+      }
+      this.heartbeatTimeout = setTimeout(() => {
+        console.warn('⚠️ Realtime heartbeat missed, reconnecting');
+        this.dropSocket();
+        this.handleClosed(4000, 'heartbeat timeout');
+      }, HEARTBEAT_TIMEOUT_MS);
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.clearHeartbeatTimeout();
+  }
+
+  private clearHeartbeatTimeout(): void {
+    if (this.heartbeatTimeout) {
+      clearTimeout(this.heartbeatTimeout);
+      this.heartbeatTimeout = null;
+    }
+  }
+
+  private clearConnectTimer(): void {
+    if (this.connectTimer) {
+      clearTimeout(this.connectTimer);
+      this.connectTimer = null;
+    }
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private rejectWaiters(error: Error): void {
+    this.waiters.forEach(waiter => waiter.reject(error));
+    this.waiters = [];
+  }
+
+  private setState(state: WebSocketConnectionState): void {
+    if (this.state === state) {
+      return;
+    }
+
+    this.state = state;
+    const change: ConnectionStateChange = {
+      state,
+      isConnected: state === 'connected',
+      reconnectAttempt: this.reconnectAttempt,
+    };
+    this.emit('connection_state_changed', change);
+  }
+
+  private watchAppState(): void {
+    if (this.appStateSubscription) {
+      return;
+    }
+
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+  }
+
+  // iOS passes through 'inactive' for the app switcher and notification
+  // center; only a real trip to the background closes the socket
+  private handleAppStateChange = (nextState: AppStateStatus): void => {
+    if (nextState === 'background') {
+      this.suspend();
+    } else if (nextState === 'active') {
+      this.resume();
+    }
+  };
+
+  private suspend(): void {
+    if (!this.active || this.state === 'suspended') {
+      return;
+    }
+
+    console.log('🔄 Suspending realtime connection while in background');
+    this.clearReconnectTimer();
+    const wasConnected = this.state === 'connected';
+    this.dropSocket();
+    this.stopHeartbeat();
+    this.clearConnectTimer();
+    this.rejectWaiters(new Error('Realtime connection suspended in background'));
+    this.setState('suspended');
+    if (wasConnected) {
+      this.emit('disconnected', { code: 1000, reason: 'suspended' });
+    }
+  }
+
+  private resume(): void {
+    if (!this.active || this.state !== 'suspended') {
+      return;
+    }
+
+    this.reconnectAttempt = 0;
+    this.openSocket();
+  }
+}
+
+export const webSocketService = new WebSocketService();
+
+/**
+ * Connects as `userId` and joins `roomId` over the shared socket.
+ */
+export const connectToRealtime = async (
+  userId: string,
+  roomId?: string,
+  username?: string
+): Promise<void> => {
+  await webSocketService.connect(userId, username);
+  if (roomId) {
+    await webSocketService.joinRoom(roomId);
+  }
+};
@@ -1,3 +1,5 @@
+import { RequestPriority, requestScheduler, RequestSchedulerError } from './requestScheduler';
+
 interface YouTubeStream {
   id: string;
   channelId: string;
@@ -48,9 +50,122 @@ interface YouTubeCategory {
   assignable: boolean;
 }
 
+interface YouTubeLiveChatAuthor {
+  channelId: string;
+  channelUrl: string;
+  displayName: string;
+  profileImageUrl: string;
+  isVerified: boolean;
+  isChatOwner: boolean;
+  isChatSponsor: boolean;
+  isChatModerator: boolean;
+}
+
+interface YouTubeLiveChatMessage {
+  id: string;
+  snippet: {
+    type: string;
+    liveChatId: string;
+    authorChannelId: string;
+    publishedAt: string;
+    hasDisplayContent: boolean;
+    displayMessage?: string;
+    textMessageDetails?: { messageText: string };
+    superChatDetails?: {
+      amountMicros: string;
+      currency: string;
+      amountDisplayString: string;
+      userComment?: string;
+      tier: number;
+    };
+    superStickerDetails?: {
+      superStickerMetadata: { stickerId: string; altText: string; language: string };
+      amountMicros: string;
+      currency: string;
+      amountDisplayString: string;
+      tier: number;
+    };
+    newSponsorDetails?: { memberLevelName: string; isUpgrade: boolean };
+    memberMilestoneChatDetails?: {
+      memberLevelName: string;
+      memberMonth: number;
+      userComment?: string;
+    };
+    membershipGiftingDetails?: { giftMembershipsCount: number; giftMembershipsLevelName: string };
+    giftMembershipReceivedDetails?: {
+      memberLevelName: string;
+      gifterChannelId: string;
+      associatedMembershipGiftingMessageId: string;
+    };
+    messageDeletedDetails?: { deletedMessageId: string };
+    userBannedDetails?: {
+      bannedUserDetails: { channelId: string; displayName: string };
+      banType: 'permanent' | 'temporary';
+      banDurationSeconds?: string;
+    };
+  };
+  authorDetails: YouTubeLiveChatAuthor;
+}
+
+interface YouTubeLiveChatMessageList {
+  nextPageToken: string;
+  pollingIntervalMillis: number;
+  /** Set once the broadcast has ended */
+  offlineAt?: string;
+  items: YouTubeLiveChatMessage[];
+}
+
+interface YouTubeVideoLiveStatus {
+  id: string;
+  snippet: {
+    channelId: string;
+    title: string;
+    categoryId: string;
+    /** `live` while broadcasting, `upcoming` before, `none` once ended */
+    liveBroadcastContent: 'live' | 'upcoming' | 'none';
+  };
+  liveStreamingDetails?: {
+    actualStartTime?: string;
+    actualEndTime?: string;
+    concurrentViewers?: string;
+  };
+}
+
+/**
+ * Failed API request. `reason` is the first error reason YouTube reports,
+ * e.g. `liveChatEnded` or `quotaExceeded`.
+ */
+export class YouTubeAPIError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly reason?: string
+  ) {
+    super(message);
+    this.name = 'YouTubeAPIError';
+  }
+}
+
+// Most ids videos.list accepts in one request
+const VIDEOS_BATCH_SIZE = 50;
+
+// Recent uploads checked per channel; a new broadcast is at the top of the list
+const RECENT_UPLOADS = 5;
+
+// Quota units per call (https://developers.google.com/youtube/v3/determine_quota_cost)
+const QUOTA_COSTS: Record<string, number> = {
+  '/search': 100,
+  '/videos': 1,
+  '/channels': 1,
+  '/playlistItems': 1,
+  '/videoCategories': 1,
+  '/liveChat/messages': 5,
+};
+
 class YouTubeAPI {
   private readonly apiKey = process.env.EXPO_PUBLIC_YOUTUBE_API_KEY;
-  private readonly baseUrl = 'https://www.googleapis.com/youtube/v3';
+  private readonly baseUrl =
+    process.env.EXPO_PUBLIC_YOUTUBE_API_URL || 'https://www.googleapis.com/youtube/v3';
 
   constructor() {
     if (!this.apiKey) {
@@ -60,7 +175,11 @@ class YouTubeAPI {
     }
   }
 
-  private async makeRequest<T>(endpoint: string, params?: Record<string, string>): Promise<T> {
+  private async makeRequest<T>(
+    endpoint: string,
+    params?: Record<string, string>,
+    priority: RequestPriority = 'normal'
+  ): Promise<T> {
     if (!this.apiKey) {
       throw new Error('YouTube API key not configured');
     }
@@ -76,15 +195,46 @@ class YouTubeAPI {
       });
     }
 
-    const response = await fetch(url.toString());
+    const cost = QUOTA_COSTS[endpoint] || 1;
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`YouTube API request failed: ${response.status} ${response.statusText}`, errorText);
-      throw new Error(`YouTube API request failed: ${response.status} ${response.statusText}`);
+    try {
+      return await requestScheduler.schedule(
+        { platform: 'youtube', key: url.toString(), priority, cost },
+        async send => {
+          const response = await send(url.toString());
+
+          if (!response.ok) {
+            const errorText = await response.text();
+            console.error(`YouTube API request failed: ${response.status} ${response.statusText}`, errorText);
+
+            let reason: string | undefined;
+            try {
+              reason = JSON.parse(errorText).error?.errors?.[0]?.reason;
+            } catch {
+              // Not a JSON error body
+            }
+
+            if (reason === 'quotaExceeded') {
+              requestScheduler.markQuotaExhausted();
+            }
+
+            throw new YouTubeAPIError(
+              `YouTube API request failed: ${response.status} ${response.statusText}`,
+              response.status,
+              reason
+            );
+          }
+
+          return response.json();
+        }
+      );
+    } catch (error) {
+      // Refused locally; reported the way YouTube would so callers back off
+      if (error instanceof RequestSchedulerError) {
+        throw new YouTubeAPIError(error.message, 403, 'quotaExceeded');
+      }
+      throw error;
     }
-
-    return response.json();
   }
 
   async getLiveStreams(maxResults: number = 20, pageToken?: string): Promise<YouTubeSearchResult> {
@@ -104,7 +254,7 @@ class YouTubeAPI {
         params.pageToken = pageToken;
       }
 
-      const response = await this.makeRequest<YouTubeSearchResult>('/search', params);
+      const response = await this.makeRequest<YouTubeSearchResult>('/search', params, 'prefetch');
       
       // Process the streams to match our interface
       const processedStreams = response.items.map(item => ({
@@ -139,7 +289,7 @@ class YouTubeAPI {
         order: 'viewCount',
       };
 
-      const response = await this.makeRequest<YouTubeSearchResult>('/search', params);
+      const response = await this.makeRequest<YouTubeSearchResult>('/search', params, 'prefetch');
       
       console.log(`✅ Fetched ${response.items.length} streams for category ${categoryId}`);
       return response;
@@ -192,6 +342,139 @@ class YouTubeAPI {
     }
   }
 
+  async getLiveStreamByChannel(channelId: string): Promise<YouTubeStream | null> {
+    try {
+      const params: Record<string, string> = {
+        part: 'snippet',
+        type: 'video',
+        channelId,
+        eventType: 'live',
+        maxResults: '1',
+      };
+
+      const response = await this.makeRequest<YouTubeSearchResult>('/search', params);
+      const stream = response.items?.[0];
+
+      return stream ? { ...stream, isLive: true } : null;
+    } catch (error) {
+      console.error('❌ Failed to get YouTube live stream for channel:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Chat id of a live broadcast. Null when the video has no active chat,
+   * which includes broadcasts that have already ended.
+   */
+  async getLiveChatId(videoId: string): Promise<string | null> {
+    const params: Record<string, string> = {
+      part: 'liveStreamingDetails',
+      id: videoId,
+    };
+
+    const response = await this.makeRequest<{
+      items: { id: string; liveStreamingDetails?: { activeLiveChatId?: string } }[];
+    }>('/videos', params, 'visible');
+
+    return response.items?.[0]?.liveStreamingDetails?.activeLiveChatId || null;
+  }
+
+  /**
+   * Live details for up to 50 videos per request. Videos that were deleted or
+   * made private are missing from the result.
+   */
+  async getVideoLiveStatuses(
+    videoIds: string[],
+    priority: RequestPriority = 'visible'
+  ): Promise<YouTubeVideoLiveStatus[]> {
+    const batches: string[][] = [];
+    for (let i = 0; i < videoIds.length; i += VIDEOS_BATCH_SIZE) {
+      batches.push(videoIds.slice(i, i + VIDEOS_BATCH_SIZE));
+    }
+
+    const results = await Promise.all(
+      batches.map(batch =>
+        this.makeRequest<{ items: YouTubeVideoLiveStatus[] }>(
+          '/videos',
+          {
+            part: 'snippet,liveStreamingDetails',
+            id: batch.join(','),
+            maxResults: String(VIDEOS_BATCH_SIZE),
+          },
+          priority
+        )
+      )
+    );
+    return results.flatMap(result => result.items || []);
+  }
+
+  /**
+   * Current live broadcast of each channel, by channel id; channels that
+   * aren't live are missing. Reads each channel's latest uploads, which
+   * include live broadcasts, and checks them in one videos.list batch: a
+   * unit per channel plus one per 50 videos, where search.list would
+   * charge 100 per channel.
+   */
+  async getLiveVideosByChannel(
+    channelIds: string[],
+    priority: RequestPriority = 'normal'
+  ): Promise<Map<string, YouTubeVideoLiveStatus>> {
+    const live = new Map<string, YouTubeVideoLiveStatus>();
+    // The uploads playlist id is the channel id with UC swapped for UU
+    const uploads = channelIds.filter(channelId => channelId.startsWith('UC'));
+    if (!uploads.length) {
+      return live;
+    }
+
+    const playlists = await Promise.all(
+      uploads.map(channelId =>
+        this.makeRequest<{ items: { contentDetails: { videoId: string } }[] }>(
+          '/playlistItems',
+          {
+            part: 'contentDetails',
+            playlistId: `UU${channelId.slice(2)}`,
+            maxResults: String(RECENT_UPLOADS),
+          },
+          priority
+        )
+      )
+    );
+    const videoIds = playlists.flatMap(playlist =>
+      (playlist.items || []).map(item => item.contentDetails.videoId)
+    );
+    if (!videoIds.length) {
+      return live;
+    }
+
+    const videos = await this.getVideoLiveStatuses(videoIds, priority);
+    videos.forEach(video => {
+      if (
+        video.snippet.liveBroadcastContent === 'live' &&
+        !video.liveStreamingDetails?.actualEndTime
+      ) {
+        live.set(video.snippet.channelId, video);
+      }
+    });
+    return live;
+  }
+
+  async getLiveChatMessages(
+    liveChatId: string,
+    pageToken?: string
+  ): Promise<YouTubeLiveChatMessageList> {
+    const params: Record<string, string> = {
+      liveChatId,
+      part: 'snippet,authorDetails',
+      maxResults: '2000',
+    };
+
+    if (pageToken) {
+      params.pageToken = pageToken;
+    }
+
+    return this.makeRequest<YouTubeLiveChatMessageList>('/liveChat/messages', params, 'visible');
+  }
+
   async getVideoCategories(): Promise<YouTubeCategory[]> {
     try {
       const params: Record<string, string> = {
@@ -199,7 +482,7 @@ class YouTubeAPI {
         regionCode: 'US',
       };
 
-      const response = await this.makeRequest<{items: YouTubeCategory[]}>('/videoCategories', params);
+      const response = await this.makeRequest<{items: YouTubeCategory[]}>('/videoCategories', params, 'prefetch');
       return response.items || [];
     } catch (error) {
       console.error('❌ Failed to get YouTube video categories:', error);
@@ -307,4 +590,13 @@ export const fetchYouTubeStreamsByCategory = async (categoryId: string, maxResul
   return result.items;
 };
 
-export type { YouTubeStream, YouTubeChannel, YouTubeCategory, YouTubeSearchResult };
\ No newline at end of file
+export type {
+  YouTubeStream,
+  YouTubeChannel,
+  YouTubeCategory,
+  YouTubeSearchResult,
+  YouTubeLiveChatAuthor,
+  YouTubeLiveChatMessage,
+  YouTubeLiveChatMessageList,
+  YouTubeVideoLiveStatus,
+};
\ No newline at end of file
@@ -0,0 +1,321 @@
+/**
+ * YouTube Chat Service
+ * Read-only YouTube live chat by polling liveChatMessages.list. Each video
+ * gets one poller shared by its subscribers; it waits the
+ * pollingIntervalMillis YouTube asks for between pages and stops when the
+ * broadcast ends or its chat goes away.
+ */
+
+import { ChatEvent, ChatMessage, ChatUserBadge } from '@/types/chat';
+import { youtubeApi, YouTubeAPIError, YouTubeLiveChatMessage } from './youtubeApi';
+
+// Floor for the server-provided interval so a bad value can't burn the quota
+const MIN_POLL_INTERVAL_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60000;
+const QUOTA_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// Errors after which polling again cannot succeed
+const TERMINAL_REASONS = new Set([
+  'liveChatEnded',
+  'liveChatDisabled',
+  'liveChatNotFound',
+  'forbidden',
+  'videoNotFound',
+]);
+
+const QUOTA_REASONS = new Set(['quotaExceeded', 'rateLimitExceeded', 'dailyLimitExceeded']);
+
+type ChatListener = (event: ChatEvent) => void;
+
+interface ChatPoller {
+  videoId: string;
+  listeners: Set<ChatListener>;
+  liveChatId: string | null;
+  pageToken?: string;
+  timer: ReturnType<typeof setTimeout> | null;
+  failures: number;
+  stopped: boolean;
+}
+
+const authorBadges = (author: YouTubeLiveChatMessage['authorDetails']): ChatUserBadge[] => {
+  const badges: ChatUserBadge[] = [];
+  if (author.isChatOwner) {
+    badges.push({ id: 'broadcaster', version: '1' });
+  }
+  if (author.isChatModerator) {
+    badges.push({ id: 'moderator', version: '1' });
+  }
+  if (author.isChatSponsor) {
+    badges.push({ id: 'subscriber', version: '1' });
+  }
+  if (author.isVerified) {
+    badges.push({ id: 'verified', version: '1' });
+  }
+  return badges;
+};
+
+/**
+ * Maps one liveChatMessages item to a chat event. Super chats and stickers
+ * become donations, membership events become subscriptions. Returns null
+ * for item types the chat UI doesn't show (polls, tombstones, ...).
+ */
+export const toYouTubeChatEvent = (
+  item: YouTubeLiveChatMessage,
+  videoId: string
+): ChatEvent | null => {
+  const { snippet, authorDetails: author } = item;
+
+  switch (snippet.type) {
+    case 'messageDeletedEvent':
+      if (!snippet.messageDeletedDetails) {
+        return null;
+      }
+      return {
+        type: 'clearmsg',
+        channel: videoId,
+        messageId: snippet.messageDeletedDetails.deletedMessageId,
+      };
+    case 'userBannedEvent': {
+      const banned = snippet.userBannedDetails?.bannedUserDetails;
+      return banned
+        ? { type: 'clearchat', channel: videoId, login: banned.channelId, userId: banned.channelId }
+        : null;
+    }
+  }
+
+  let type: ChatMessage['type'] = 'normal';
+  let text = snippet.displayMessage || '';
+  let systemMessage: string | undefined;
+  const name = author.displayName;
+
+  switch (snippet.type) {
+    case 'textMessageEvent':
+      text = snippet.textMessageDetails?.messageText ?? text;
+      break;
+    case 'superChatEvent': {
+      const details = snippet.superChatDetails;
+      type = 'donation';
+      text = details?.userComment || '';
+      systemMessage = `${name} sent a ${details?.amountDisplayString} Super Chat`;
+      break;
+    }
+    case 'superStickerEvent': {
+      const details = snippet.superStickerDetails;
+      type = 'donation';
+      text = details?.superStickerMetadata.altText || '';
+      systemMessage = `${name} sent a ${details?.amountDisplayString} Super Sticker`;
+      break;
+    }
+    case 'newSponsorEvent':
+      type = 'subscription';
+      text = '';
+      systemMessage = snippet.newSponsorDetails?.isUpgrade
+        ? `${author.displayName} upgraded to ${snippet.newSponsorDetails.memberLevelName}`
+        : snippet.displayMessage || `${author.displayName} became a member`;
+      break;
+    case 'memberMilestoneChatEvent': {
+      const details = snippet.memberMilestoneChatDetails;
+      type = 'subscription';
+      text = details?.userComment || '';
+      systemMessage = `${name} has been a member for ${details?.memberMonth} months`;
+      break;
+    }
+    case 'membershipGiftingEvent': {
+      const count = snippet.membershipGiftingDetails?.giftMembershipsCount;
+      type = 'subscription';
+      text = '';
+      systemMessage = `${name} gifted ${count} memberships`;
+      break;
+    }
+    case 'giftMembershipReceivedEvent':
+      type = 'subscription';
+      text = '';
+      systemMessage =
+        snippet.displayMessage || `${author.displayName} received a gifted membership`;
+      break;
+    default:
+      return null;
+  }
+
+  return {
+    type: 'message',
+    message: {
+      id: item.id,
+      platform: 'youtube',
+      channel: videoId,
+      // Channel ids are the only stable handle YouTube exposes for chatters
+      userId: author.channelId,
+      username: author.channelId,
+      displayName: author.displayName,
+      message: text,
+      fragments: text ? [{ type: 'text', text }] : [],
+      timestamp: new Date(snippet.publishedAt),
+      type,
+      badges: authorBadges(author),
+      systemMessage,
+    },
+  };
+};
+
+class YouTubeChatService {
+  private pollers = new Map<string, ChatPoller>();
+
+  /**
+   * Streams chat for a live video. Returns an unsubscribe function; the
+   * poller stops once its last subscriber leaves.
+   */
+  subscribe(videoId: string, listener: ChatListener): () => void {
+    let poller = this.pollers.get(videoId);
+
+    if (!poller) {
+      poller = {
+        videoId,
+        listeners: new Set(),
+        liveChatId: null,
+        timer: null,
+        failures: 0,
+        stopped: false,
+      };
+      this.pollers.set(videoId, poller);
+      poller.listeners.add(listener);
+      this.emit(poller, { type: 'status', status: 'connecting' });
+      this.poll(poller);
+    } else {
+      poller.listeners.add(listener);
+      listener({ type: 'status', status: poller.liveChatId ? 'connected' : 'connecting' });
+    }
+
+    return () => {
+      const current = this.pollers.get(videoId);
+      if (!current) {
+        return;
+      }
+      current.listeners.delete(listener);
+      if (current.listeners.size === 0) {
+        this.stop(current);
+      }
+    };
+  }
+
+  private async poll(poller: ChatPoller): Promise<void> {
+    poller.timer = null;
+
+    try {
+      if (!poller.liveChatId) {
+        poller.liveChatId = await youtubeApi.getLiveChatId(poller.videoId);
+        if (poller.stopped) {
+          return;
+        }
+        if (!poller.liveChatId) {
+          this.end(poller, 'This stream has no live chat');
+          return;
+        }
+        this.emit(poller, { type: 'status', status: 'connected' });
+      }
+
+      const page = await youtubeApi.getLiveChatMessages(poller.liveChatId, poller.pageToken);
+      if (poller.stopped) {
+        return;
+      }
+
+      poller.failures = 0;
+      poller.pageToken = page.nextPageToken;
+
+      let ended = !!page.offlineAt;
+      page.items.forEach(item => {
+        if (item.snippet.type === 'chatEndedEvent') {
+          ended = true;
+          return;
+        }
+        const event = toYouTubeChatEvent(item, poller.videoId);
+        if (event) {
+          this.emit(poller, event);
+        }
+      });
+
+      if (ended) {
+        this.end(poller, 'The live stream has ended');
+        return;
+      }
+
+      this.schedule(poller, Math.max(page.pollingIntervalMillis || 0, MIN_POLL_INTERVAL_MS));
+    } catch (error) {
+      if (poller.stopped) {
+        return;
+      }
+
+      const reason = error instanceof YouTubeAPIError ? error.reason : undefined;
+      if (reason && TERMINAL_REASONS.has(reason)) {
+        this.end(poller, 'Live chat has ended');
+        return;
+      }
+
+      console.warn(`⚠️ YouTube chat poll failed for ${poller.videoId}:`, error);
+      poller.failures++;
+      const delay =
+        reason && QUOTA_REASONS.has(reason)
+          ? QUOTA_RETRY_DELAY_MS
+          : Math.min(MIN_POLL_INTERVAL_MS * 2 ** poller.failures, MAX_RETRY_DELAY_MS);
+      this.emit(poller, { type: 'status', status: 'connecting' });
+      this.schedule(poller, delay);
+    }
+  }
+
+  private schedule(poller: ChatPoller, delay: number): void {
+    if (!poller.stopped) {
+      poller.timer = setTimeout(() => this.poll(poller), delay);
+    }
+  }
+
+  /**
+   * Stops polling for good and tells subscribers why.
+   */
+  private end(poller: ChatPoller, reason: string): void {
+    console.log(`📺 YouTube chat stopped for ${poller.videoId}: ${reason}`);
+    this.emit(poller, {
+      type: 'message',
+      message: {
+        id: `youtube-chat-end-${poller.videoId}`,
+        platform: 'youtube',
+        channel: poller.videoId,
+        userId: '',
+        username: '',
+        displayName: 'YouTube',
+        message: reason,
+        fragments: [{ type: 'text', text: reason }],
+        timestamp: new Date(),
+        type: 'system',
+        badges: [],
+      },
+    });
+    this.emit(poller, { type: 'status', status: 'disconnected' });
+    this.stop(poller);
+  }
+
+  private stop(poller: ChatPoller): void {
+    poller.stopped = true;
+    if (poller.timer) {
+      clearTimeout(poller.timer);
+      poller.timer = null;
+    }
+    if (this.pollers.get(poller.videoId) === poller) {
+      this.pollers.delete(poller.videoId);
+    }
+  }
+
+  private emit(poller: ChatPoller, event: ChatEvent): void {
+    poller.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('❌ YouTube chat listener failed:', error);
+      }
+    });
+  }
+}
+
+export const youtubeChatService = new YouTubeChatService();
+
+export const subscribeToYouTubeChat = (videoId: string, listener: ChatListener) => {
+  return youtubeChatService.subscribe(videoId, listener);
+};
@@ -0,0 +1,85 @@
+import { Stream } from '@/types/stream';
+import { EmbedOptions, PlatformProvider, ResolvedChannel } from './platformRegistry';
+import { fromYouTubeStream } from './streamAdapters';
+import { youtubeApi } from './youtubeApi';
+
+const CHANNEL_ID_PATTERN = /^UC[a-zA-Z0-9_-]{22}$/;
+const CHANNEL_URL_PATTERN = /youtube\.com\/channel\/(UC[a-zA-Z0-9_-]{22})/;
+
+const parseChannelId = (input: string): string | null => {
+  const value = input.trim();
+  if (CHANNEL_ID_PATTERN.test(value)) {
+    return value;
+  }
+
+  const match = value.match(CHANNEL_URL_PATTERN);
+  return match ? match[1] : null;
+};
+
+export const youtubeProvider: PlatformProvider = {
+  id: 'youtube',
+  displayName: 'YouTube',
+  color: '#FF0000',
+  icon: '📺',
+  baseUrl: 'https://youtube.com',
+  capabilities: {
+    discovery: true,
+    search: true,
+    chat: true,
+    clips: false,
+    vods: true,
+    categories: true,
+  },
+
+  async discover(limit: number): Promise<Stream[]> {
+    const response = await youtubeApi.getLiveStreams(limit);
+    return response.items.map(fromYouTubeStream);
+  },
+
+  async search(query: string, limit: number): Promise<Stream[]> {
+    const response = await youtubeApi.searchStreams(query, limit);
+    return response.items.map(fromYouTubeStream);
+  },
+
+  async resolveChannel(input: string): Promise<ResolvedChannel | null> {
+    const channelId = parseChannelId(input);
+    if (!channelId) {
+      return null;
+    }
+
+    const [channel, liveStream] = await Promise.all([
+      youtubeApi.getChannelInfo(channelId),
+      youtubeApi.getLiveStreamByChannel(channelId),
+    ]);
+    if (!channel) {
+      return null;
+    }
+
+    return {
+      platform: 'youtube',
+      channelId: channel.id,
+      username: channel.customUrl || channel.id,
+      displayName: channel.title,
+      profileImageUrl: channel.thumbnailUrl,
+      isLive: !!liveStream,
+      stream: liveStream ? fromYouTubeStream(liveStream) : undefined,
+    };
+  },
+
+  matchesUrl(url: string): boolean {
+    return /^(?:https?:\/\/)?(?:[a-z]+\.)?(?:youtube\.com|youtu\.be)\//i.test(url.trim());
+  },
+
+  getEmbedUrl(stream: Stream, options: EmbedOptions = {}): string {
+    const { autoplay = true, muted = true } = options;
+    return youtubeApi.generateEmbedUrl(stream.sourceId, { autoplay, mute: muted });
+  },
+
+  getChannelUrl(stream: Stream): string {
+    return `https://youtube.com/channel/${stream.channelId}`;
+  },
+
+  getChatSource(stream: Stream) {
+    return { kind: 'youtube-live-chat', channel: stream.sourceId };
+  },
+};
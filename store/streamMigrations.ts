@@ -0,0 +1,73 @@
+import { toStreams } from '@/services/streamAdapters';
+import { Stream } from '@/types/stream';
+
+/**
+ * Version of the persisted stream schema. Bump this whenever the canonical
+ * `Stream` shape changes and add a step to `migratePersistedStreamState`.
+ *
+ * 0 - raw platform payloads (`TwitchStream` in useAppStore/useStreamManager,
+ *     `UnifiedStream` in useCrossPlatformStore)
+ * 1 - canonical `Stream` from types/stream.ts
+ */
+export const STREAM_SCHEMA_VERSION = 1;
+
+interface PersistedLayoutLike {
+  streams?: unknown;
+  [key: string]: unknown;
+}
+
+const migrateLayout = <T extends PersistedLayoutLike>(layout: T | null | undefined): T | null => {
+  if (!layout || typeof layout !== 'object') {
+    return null;
+  }
+
+  return { ...layout, streams: toStreams(layout.streams) };
+};
+
+/**
+ * Migrates the persisted slice of a zustand store that holds
+ * `activeStreams`, `savedLayouts` and `currentLayout`. Used as the `migrate`
+ * option of the `persist` middleware, so unknown keys pass through untouched.
+ */
+export function migratePersistedStreamState<T>(persistedState: unknown, version: number): T {
+  if (!persistedState || typeof persistedState !== 'object') {
+    return persistedState as T;
+  }
+
+  const state = { ...(persistedState as Record<string, any>) };
+
+  if (version < 1) {
+    if ('activeStreams' in state) {
+      state.activeStreams = toStreams(state.activeStreams);
+    }
+
+    if (Array.isArray(state.savedLayouts)) {
+      state.savedLayouts = state.savedLayouts
+        .map((layout: PersistedLayoutLike) => migrateLayout(layout))
+        .filter(Boolean);
+    }
+
+    if ('currentLayout' in state) {
+      state.currentLayout = migrateLayout(state.currentLayout);
+    }
+  }
+
+  return state as T;
+}
+
+/**
+ * Parses a JSON-encoded stream list written by any previous app version and
+ * returns it in the canonical shape.
+ */
+export function migrateStoredStreamList(serialized: string | null): Stream[] {
+  if (!serialized) {
+    return [];
+  }
+
+  try {
+    return toStreams(JSON.parse(serialized));
+  } catch (error) {
+    console.error('❌ Failed to parse stored streams:', error);
+    return [];
+  }
+}
@@ -1,21 +1,28 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { TwitchStream } from '@/services/twitchApi';
+import { AudioPolicy, LayoutPreset } from '@/types/layout';
+import { Stream } from '@/types/stream';
+import { migratePersistedStreamState, STREAM_SCHEMA_VERSION } from './streamMigrations';
 
 export interface Layout {
   id: string;
   name: string;
-  streams: TwitchStream[];
+  streams: Stream[];
   gridType: 'grid' | 'stacked' | 'pip' | 'focus';
   gridColumns: number;
   createdAt: string;
   userId?: string;
   isDefault?: boolean;
+  /** Exact arrangement; older layouts only have gridType and gridColumns */
+  preset?: LayoutPreset;
+  /** Audio policy and focused tile the layout was saved with */
+  audio?: AudioPolicy;
+  audioFocusStreamId?: string | null;
 }
 
 export interface StreamState {
-  activeStreams: TwitchStream[];
+  activeStreams: Stream[];
   savedLayouts: Layout[];
   currentLayout: Layout | null;
   maxStreams: number;
@@ -23,9 +30,11 @@ export interface StreamState {
   error: string | null;
   
   // Stream actions
-  addStream: (stream: TwitchStream) => void;
+  addStream: (stream: Stream) => void;
   removeStream: (streamId: string) => void;
-  updateStream: (streamId: string, updates: Partial<TwitchStream>) => void;
+  updateStream: (streamId: string, updates: Partial<Stream>) => void;
+  /** Applies updates keyed by stream id in a single store change */
+  updateStreams: (updates: Record<string, Partial<Stream>>) => void;
   clearStreams: () => void;
   
   // Layout actions
@@ -101,7 +110,7 @@ export const useAppStore = create<AppState>()(
       ...defaultSettings,
 
       // Stream actions
-      addStream: (stream: TwitchStream) => {
+      addStream: (stream: Stream) => {
         const state = get();
         const streamExists = state.activeStreams.some(s => s.id === stream.id);
         
@@ -119,7 +128,7 @@ export const useAppStore = create<AppState>()(
         }));
       },
 
-      updateStream: (streamId: string, updates: Partial<TwitchStream>) => {
+      updateStream: (streamId: string, updates: Partial<Stream>) => {
         set(state => ({
           activeStreams: state.activeStreams.map(stream =>
             stream.id === streamId ? { ...stream, ...updates } : stream
@@ -127,6 +136,19 @@ export const useAppStore = create<AppState>()(
         }));
       },
 
+      updateStreams: (updates: Record<string, Partial<Stream>>) => {
+        const state = get();
+        if (!state.activeStreams.some(stream => updates[stream.id])) {
+          return;
+        }
+
+        set(state => ({
+          activeStreams: state.activeStreams.map(stream =>
+            updates[stream.id] ? { ...stream, ...updates[stream.id] } : stream
+          ),
+        }));
+      },
+
       clearStreams: () => {
         set({ activeStreams: [], currentLayout: null });
       },
@@ -227,6 +249,9 @@ export const useAppStore = create<AppState>()(
     {
       name: 'streamyyy-storage',
       storage: createJSONStorage(() => AsyncStorage),
+      version: STREAM_SCHEMA_VERSION,
+      migrate: (persistedState, version) =>
+        migratePersistedStreamState<AppState>(persistedState, version),
       partialize: (state) => ({
         activeStreams: state.activeStreams,
         savedLayouts: state.savedLayouts,
@@ -280,6 +305,7 @@ export const useStreamActions = () => useAppStore(state => ({
   addStream: state.addStream,
   removeStream: state.removeStream,
   updateStream: state.updateStream,
+  updateStreams: state.updateStreams,
   clearStreams: state.clearStreams,
 }), shallow);
 
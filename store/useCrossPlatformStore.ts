@@ -1,13 +1,13 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { createCrossPlatformStorage, platformDetection } from '@/utils/crossPlatformStorage';
-import { TwitchStream } from '@/services/twitchApi';
-import { UnifiedStream } from '@/services/platformService';
+import { Stream } from '@/types/stream';
+import { migratePersistedStreamState, STREAM_SCHEMA_VERSION } from './streamMigrations';
 
 export interface Layout {
   id: string;
   name: string;
-  streams: UnifiedStream[];
+  streams: Stream[];
   gridType: 'grid' | 'stacked' | 'pip' | 'focus';
   gridColumns: number;
   createdAt: string;
@@ -27,7 +27,7 @@ export interface CrossPlatformState {
   isOnline: boolean;
   
   // Stream state
-  activeStreams: UnifiedStream[];
+  activeStreams: Stream[];
   savedLayouts: Layout[];
   currentLayout: Layout | null;
   maxStreams: number;
@@ -70,9 +70,9 @@ export interface CrossPlatformState {
   
   // Actions
   initializePlatform: () => Promise<void>;
-  addStream: (stream: UnifiedStream) => void;
+  addStream: (stream: Stream) => void;
   removeStream: (streamId: string) => void;
-  updateStream: (streamId: string, updates: Partial<UnifiedStream>) => void;
+  updateStream: (streamId: string, updates: Partial<Stream>) => void;
   clearStreams: () => void;
   
   // Layout actions
@@ -222,7 +222,7 @@ export const useCrossPlatformStore = create<CrossPlatformState>()(
           console.log(`✅ Platform ${state.platform} initialized`);
         },
         
-        addStream: (stream: UnifiedStream) => {
+        addStream: (stream: Stream) => {
           const state = get();
           const streamExists = state.activeStreams.some(s => s.id === stream.id);
           
@@ -242,7 +242,7 @@ export const useCrossPlatformStore = create<CrossPlatformState>()(
           }));
         },
         
-        updateStream: (streamId: string, updates: Partial<UnifiedStream>) => {
+        updateStream: (streamId: string, updates: Partial<Stream>) => {
           set(state => ({
             activeStreams: state.activeStreams.map(stream =>
               stream.id === streamId ? { ...stream, ...updates } : stream
@@ -406,6 +406,9 @@ export const useCrossPlatformStore = create<CrossPlatformState>()(
     {
       name: 'streamyyy-cross-platform-storage',
       storage: createJSONStorage(() => createCrossPlatformStorage()),
+      version: STREAM_SCHEMA_VERSION,
+      migrate: (persistedState, version) =>
+        migratePersistedStreamState<CrossPlatformState>(persistedState, version),
       partialize: (state) => ({
         activeStreams: state.activeStreams,
         savedLayouts: state.savedLayouts,
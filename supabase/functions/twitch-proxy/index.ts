@@ -0,0 +1,198 @@
+/**
+ * Twitch Proxy
+ * Supabase Edge Function that keeps the Twitch client secret off devices.
+ * It mints and caches an app access token for read-only Helix requests and
+ * completes the OAuth code and refresh grants used to link Twitch accounts.
+ *
+ *   GET  /twitch-proxy/helix/<endpoint>?<query>   Helix as the app
+ *   POST /twitch-proxy/oauth/token                authorization_code and refresh_token grants
+ *
+ * Deploy:
+ *   supabase secrets set TWITCH_CLIENT_ID=... TWITCH_CLIENT_SECRET=...
+ *   supabase functions deploy twitch-proxy --no-verify-jwt
+ *
+ * JWT verification is off because the OAuth token exchange is posted by
+ * expo-auth-session, which can't attach a Supabase key. Helix requests are
+ * checked here instead: they need the project's anon key as the `apikey`
+ * header or a `Bearer` authorization, so the app token only serves the app.
+ * Locally, run
+ * `npm run mock:twitch-proxy` instead; it serves the same routes offline.
+ */
+
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+
+const HELIX_URL = 'https://api.twitch.tv/helix';
+const TOKEN_URL = 'https://id.twitch.tv/oauth2/token';
+// Renew app tokens this long before Twitch expires them
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+// Read-only Helix endpoints the app calls; anything else is refused
+const HELIX_ALLOWLIST = new Set([
+  'streams',
+  'users',
+  'games',
+  'games/top',
+  'search/channels',
+  'videos',
+  'clips',
+]);
+const OAUTH_GRANTS = new Set(['authorization_code', 'refresh_token']);
+// Forwarded so the app can back off the way it would against Twitch directly
+const PASSTHROUGH_HEADERS = ['Ratelimit-Limit', 'Ratelimit-Remaining', 'Ratelimit-Reset'];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, apikey, content-type, x-client-info',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const clientId = Deno.env.get('TWITCH_CLIENT_ID') ?? '';
+const clientSecret = Deno.env.get('TWITCH_CLIENT_SECRET') ?? '';
+// Set by Supabase for every deployed function
+const anonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+
+// Warm instances share the token between requests
+let appToken: { value: string; expiresAt: number } | null = null;
+let pendingToken: Promise<string> | null = null;
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', ...headers },
+  });
+
+const error = (status: number, message: string) =>
+  json(status, { error: status >= 500 ? 'Server Error' : 'Bad Request', status, message });
+
+async function mintAppToken(): Promise<string> {
+  const response = await fetch(TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: clientId,
+      client_secret: clientSecret,
+      grant_type: 'client_credentials',
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`App token request failed: ${response.status} ${await response.text()}`);
+  }
+
+  const data = await response.json();
+  appToken = {
+    value: data.access_token,
+    expiresAt: Date.now() + data.expires_in * 1000 - TOKEN_REFRESH_MARGIN_MS,
+  };
+  console.log('✅ Minted Twitch app token');
+  return appToken.value;
+}
+
+function getAppToken(): Promise<string> {
+  if (appToken && Date.now() < appToken.expiresAt) {
+    return Promise.resolve(appToken.value);
+  }
+  if (!pendingToken) {
+    pendingToken = mintAppToken().finally(() => {
+      pendingToken = null;
+    });
+  }
+  return pendingToken;
+}
+
+function hasAnonKey(req: Request): boolean {
+  return (
+    req.headers.get('apikey') === anonKey ||
+    req.headers.get('authorization') === `Bearer ${anonKey}`
+  );
+}
+
+async function forwardHelix(endpoint: string, search: string): Promise<Response> {
+  if (!HELIX_ALLOWLIST.has(endpoint)) {
+    return error(403, `Helix endpoint not allowed: ${endpoint}`);
+  }
+
+  const send = async () =>
+    fetch(`${HELIX_URL}/${endpoint}${search}`, {
+      headers: {
+        Authorization: `Bearer ${await getAppToken()}`,
+        'Client-Id': clientId,
+      },
+    });
+
+  let response = await send();
+  if (response.status === 401) {
+    // Revoked or expired early; mint a new token and try once more
+    appToken = null;
+    response = await send();
+  }
+
+  const headers: Record<string, string> = {};
+  PASSTHROUGH_HEADERS.forEach(name => {
+    const value = response.headers.get(name);
+    if (value) {
+      headers[name] = value;
+    }
+  });
+
+  return new Response(await response.text(), {
+    status: response.status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+async function exchangeOAuthToken(req: Request): Promise<Response> {
+  const params = new URLSearchParams(await req.text());
+  const grantType = params.get('grant_type') ?? '';
+
+  if (!OAUTH_GRANTS.has(grantType)) {
+    return error(400, `Unsupported grant_type: ${grantType}`);
+  }
+  if (params.get('client_id') && params.get('client_id') !== clientId) {
+    return error(400, 'client_id does not match this proxy');
+  }
+
+  params.set('client_id', clientId);
+  params.set('client_secret', clientSecret);
+
+  const response = await fetch(TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: params,
+  });
+
+  return new Response(await response.text(), {
+    status: response.status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (!clientId || !clientSecret) {
+    return error(500, 'TWITCH_CLIENT_ID and TWITCH_CLIENT_SECRET are not set');
+  }
+
+  const url = new URL(req.url);
+
+  try {
+    const helix = /\/helix\/(.+)$/.exec(url.pathname);
+    if (helix && req.method === 'GET') {
+      if (!anonKey) {
+        return error(500, 'SUPABASE_ANON_KEY is not set');
+      }
+      if (!hasAnonKey(req)) {
+        return error(401, 'Helix requests need the project anon key');
+      }
+      return await forwardHelix(helix[1], url.search);
+    }
+    if (url.pathname.endsWith('/oauth/token') && req.method === 'POST') {
+      return await exchangeOAuthToken(req);
+    }
+    return error(404, `No route for ${req.method} ${url.pathname}`);
+  } catch (err) {
+    console.error('❌ Twitch proxy request failed:', err);
+    return error(502, 'Could not reach Twitch');
+  }
+});
@@ -0,0 +1,20 @@
+-- Watch history: stream_views rows carry enough to list a view without
+-- looking the stream up again, and can be updated and deleted by the app.
+
+create table if not exists public.stream_views (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null,
+  stream_id text not null,
+  stream_name text not null,
+  duration_seconds integer not null default 0,
+  viewed_at timestamptz not null default now()
+);
+
+alter table public.stream_views
+  add column if not exists platform text,
+  add column if not exists title text,
+  add column if not exists category text,
+  add column if not exists thumbnail_url text;
+
+create index if not exists stream_views_user_viewed_at_idx
+  on public.stream_views (user_id, viewed_at desc);
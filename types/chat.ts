@@ -0,0 +1,94 @@
+import { StreamPlatform } from './stream';
+
+/**
+ * Piece of a chat message: plain text or an emote rendered as an image
+ */
+export type ChatFragment =
+  | { type: 'text'; text: string }
+  | {
+      type: 'emote';
+      text: string;
+      id: string;
+      url: string;
+      provider?: EmoteProviderId;
+      animated?: boolean;
+      /** Drawn on top of the emote before it instead of after it */
+      zeroWidth?: boolean;
+    };
+
+export type EmoteProviderId = 'twitch' | '7tv' | 'bttv' | 'ffz';
+
+/**
+ * Emote available by name in a channel, from Twitch or a third-party set
+ */
+export interface ChatEmote {
+  id: string;
+  name: string;
+  provider: EmoteProviderId;
+  url: string;
+  animated: boolean;
+  zeroWidth: boolean;
+  /** Channel set rather than the provider's global set */
+  isChannelEmote: boolean;
+}
+
+/**
+ * Chat badge such as moderator/1 or subscriber/12
+ */
+export interface ChatUserBadge {
+  id: string;
+  version: string;
+}
+
+/**
+ * Chat message shared by every platform chat client and the chat UI
+ */
+export interface ChatMessage {
+  /** Platform message id, used for targeted deletions */
+  id: string;
+  platform: StreamPlatform;
+  /** Channel login/slug or video id the message was sent in */
+  channel: string;
+  userId: string;
+  username: string;
+  displayName: string;
+  message: string;
+  fragments: ChatFragment[];
+  timestamp: Date;
+  type: 'normal' | 'action' | 'subscription' | 'donation' | 'announcement' | 'system';
+  badges: ChatUserBadge[];
+  color?: string;
+  /** Bits cheered with the message */
+  bits?: number;
+  /** Text shown above user notices, e.g. "Foo subscribed for 6 months" */
+  systemMessage?: string;
+  isDeleted?: boolean;
+}
+
+/**
+ * Chat room modes reported by the platform
+ */
+export interface ChatRoomState {
+  emoteOnly: boolean;
+  followersOnly: number | null;
+  slowMode: number;
+  subsOnly: boolean;
+}
+
+export type ChatConnectionStatus = 'connecting' | 'connected' | 'disconnected';
+
+/**
+ * Events every platform chat client emits to its subscribers
+ */
+export type ChatEvent =
+  | { type: 'message'; message: ChatMessage }
+  /** Without `login`/`userId` the whole chat was cleared; `duration` in seconds for timeouts */
+  | { type: 'clearchat'; channel: string; login?: string; userId?: string; duration?: number }
+  | { type: 'clearmsg'; channel: string; messageId: string }
+  /** `channelId` is the platform's id for the room, when the client reports it */
+  | { type: 'roomstate'; channel: string; state: Partial<ChatRoomState>; channelId?: string }
+  /** Badges of the signed-in account in the room, e.g. moderator */
+  | { type: 'userstate'; channel: string; badges: ChatUserBadge[] }
+  | { type: 'status'; status: ChatConnectionStatus }
+  /** Account the client is signed in as; null while anonymous */
+  | { type: 'identity'; login: string | null };
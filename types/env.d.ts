@@ -2,7 +2,7 @@ declare global {
   namespace NodeJS {
     interface ProcessEnv {
       EXPO_PUBLIC_TWITCH_CLIENT_ID: string;
-      EXPO_PUBLIC_TWITCH_CLIENT_SECRET: string;
+      EXPO_PUBLIC_TWITCH_PROXY_URL?: string;
     }
   }
 }
@@ -5,8 +5,10 @@
 
 // Re-export all types from individual modules
 export * from './stream';
+export * from './chat';
 export * from './api';
 export * from './ui';
+export * from './layout';
 
 // Additional core types that extend the base types
 export interface TwitchStream {
@@ -0,0 +1,165 @@
+/**
+ * Multiview layout types
+ * Tiles are rectangles in normalized container coordinates (0–1 on both
+ * axes), so one layout fits any screen. utils/layoutEngine.ts solves them
+ * into pixels for a concrete container.
+ */
+
+/**
+ * A rectangle as fractions of the container: x and width of its width, y and
+ * height of its height
+ */
+export interface NormalizedRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Limits the solver enforces when turning a tile into pixels
+ */
+export interface TileConstraints {
+  /** Width / height the tile keeps (e.g. 16 / 9); it is centered in its rect */
+  aspectRatio?: number;
+  /** Smallest width in pixels; the tile grows, staying inside the container */
+  minWidth?: number;
+  /** Smallest height in pixels */
+  minHeight?: number;
+}
+
+export interface LayoutTile {
+  id: string;
+  /** Stream shown in the tile; empty slots have none */
+  streamId?: string;
+  rect: NormalizedRect;
+  zIndex: number;
+  constraints?: TileConstraints;
+}
+
+/**
+ * Built-in arrangements. Grid presets are columns x rows; 'adaptive' picks
+ * the grid that shows the most video for the container, and 'custom' keeps
+ * the tiles exactly as stored.
+ */
+export type LayoutPreset =
+  | 'adaptive'
+  | '1x1'
+  | '2x1'
+  | '1x2'
+  | '2x2'
+  | '3x3'
+  | '4x4'
+  | '3x1'
+  | '4x1'
+  | '1x3'
+  | '1x4'
+  | 'pip'
+  | 'focus'
+  | 'stacked'
+  | 'mosaic'
+  | 'custom';
+
+export interface MultiviewLayout {
+  id: string;
+  name?: string;
+  preset: LayoutPreset;
+  /**
+   * In stream order. Presets are rebuilt for every container, so only their
+   * stream ids and constraints matter; custom tiles are used as stored.
+   */
+  tiles: LayoutTile[];
+  /** Constraints for tiles that don't set their own */
+  constraints?: TileConstraints;
+  /** Step edits snap to, as a fraction of the container (e.g. 1 / 24) */
+  snap?: number;
+  /** Width / height of the container a custom layout was made in */
+  designAspect?: number;
+}
+
+/**
+ * Pixel space a layout is solved into
+ */
+export interface LayoutContainer {
+  width: number;
+  height: number;
+  /** Space between neighbouring tiles */
+  gap?: number;
+  /** Space between the tiles and the container's edges */
+  padding?: number;
+}
+
+/**
+ * A tile in pixels, relative to the container's top-left corner
+ */
+export interface SolvedTile {
+  id: string;
+  streamId?: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  zIndex: number;
+}
+
+/**
+ * How the grid's tiles share the speakers
+ * - single: only the focused tile is heard; tapping a tile moves the audio
+ * - duck: the focused tile plays at full volume, the others at duckLevel
+ * - mix: every tile plays at its own volume
+ * - auto: like single, but focus follows the loudest tile or the busiest chat
+ */
+export type AudioPolicyMode = 'single' | 'duck' | 'mix' | 'auto';
+
+/** What auto mode follows */
+export type AutoFocusSignal = 'loudness' | 'chat';
+
+export interface AudioPolicy {
+  mode: AudioPolicyMode;
+  /** Volume of the tiles without focus in duck mode, 0–1 */
+  duckLevel: number;
+  /** Per-stream volume, 0–1, keyed by stream id; missing streams play at 1 */
+  volumes: Record<string, number>;
+  autoSignal: AutoFocusSignal;
+}
+
+/**
+ * One tile of a shared layout. Streams are referenced by platform and
+ * channel rather than by id, since a channel's live broadcast id changes
+ * every time it goes live.
+ */
+export interface SharedLayoutTile {
+  platform: string;
+  /** Channel login or slug, as typed into "Add stream" */
+  channel: string;
+  channelId?: string;
+  /** Shown while resolving and when the channel can't be found */
+  displayName?: string;
+  /** VOD, clip or direct media URL; opened instead of the channel when set */
+  url?: string;
+  rect: NormalizedRect;
+  /** A QualityLevel from streamQualityManager; missing means auto */
+  quality?: string;
+  /** 0–1 */
+  volume?: number;
+}
+
+/**
+ * A multiview as it travels in links, QR codes and JSON files
+ * (services/layoutShareService.ts)
+ */
+export interface SharedLayout {
+  /** Format version; readers reject layouts newer than they understand */
+  version: number;
+  name?: string;
+  preset: LayoutPreset;
+  /** Width / height of the container the rects were made in */
+  designAspect?: number;
+  /** In stream order */
+  tiles: SharedLayoutTile[];
+  /** Index into tiles of the stream whose audio plays */
+  audioFocus?: number;
+  /** Audio policy; per-stream volumes travel on the tiles */
+  audio?: Omit<AudioPolicy, 'volumes'>;
+  createdAt?: string;
+}
@@ -1,9 +1,22 @@
+import { LayoutTile } from './layout';
+
 /**
  * Core stream data structure
+ *
+ * This is the canonical stream model shared by every store, hook and grid
+ * component. Platform API payloads are converted into it through the adapters
+ * in services/streamAdapters.ts.
  */
 export interface Stream {
+  /** Canonical id, `${platform}_${sourceId}` */
   id: string;
+  /** Platform-native id of the broadcast or video */
+  sourceId: string;
+  /** Platform-native id of the channel/user that owns the stream */
+  channelId: string;
+  /** Login or slug used in channel URLs and embeds */
   username: string;
+  displayName: string;
   title: string;
   platform: StreamPlatform;
   thumbnailUrl: string;
@@ -13,6 +26,8 @@ export interface Stream {
   embedUrl: string;
   profileImageUrl: string;
   // Enhanced properties for better functionality
+  categoryId?: string;
+  description?: string;
   language?: string;
   maturityRating?: 'mature' | 'general';
   tags?: string[];
@@ -22,12 +37,77 @@ export interface Stream {
   loadAttempts?: number;
   lastError?: string | null;
   addedAt?: string;
+  // Direct media playback (custom HLS/MP4 sources)
+  playback?: PlaybackSource;
+  // Past broadcast or clip played through the platform's on-demand player
+  recording?: RecordingSource;
+}
+
+/**
+ * One rendition from an HLS master playlist
+ */
+export interface StreamVariant {
+  /** Absolute URL of the variant's media playlist */
+  url: string;
+  /** Peak bits per second from EXT-X-STREAM-INF BANDWIDTH */
+  bandwidth: number;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  codecs?: string;
+  name?: string;
+}
+
+/**
+ * Media that the app plays directly instead of through a platform embed
+ */
+export interface PlaybackSource {
+  type: 'hls' | 'mp4';
+  url: string;
+  isLive: boolean;
+  /** Empty for MP4 files and single-rendition playlists */
+  variants: StreamVariant[];
+  /** Total length in seconds for VOD playlists and files, when known */
+  duration?: number;
+}
+
+/**
+ * A past broadcast (VOD) or clip. Recordings share the grid with live
+ * streams but play through the platform's on-demand player, which can seek
+ * and change speed.
+ */
+export interface RecordingSource {
+  type: RecordingKind;
+  /** Platform id of the video, or the clip slug */
+  id: string;
+  /** Length in seconds */
+  duration: number;
+  /** When the broadcast or clip was originally recorded */
+  createdAt: string;
+  /** Where playback starts, in seconds, e.g. from a `?t=1h2m3s` link */
+  startAt?: number;
+}
+
+export type RecordingKind = 'vod' | 'clip';
+
+/**
+ * Ids of the platforms that have a provider in services/platformRegistry.ts.
+ * A provider module for a new site adds its id through declaration merging:
+ *
+ *   declare module '@/types/stream' {
+ *     interface StreamPlatformIds { rumble: true }
+ *   }
+ */
+export interface StreamPlatformIds {
+  twitch: true;
+  youtube: true;
+  kick: true;
 }
 
 /**
  * Supported streaming platforms
  */
-export type StreamPlatform = 'twitch' | 'youtube' | 'kick';
+export type StreamPlatform = keyof StreamPlatformIds;
 
 /**
  * Stream quality options
@@ -48,6 +128,12 @@ export interface StreamLayout {
   description?: string;
   userId?: string;
   isDefault?: boolean;
+  /**
+   * Tile arrangement in normalized coordinates, for layouts the user placed
+   * by hand. Without it the grid solves `type` (see toLayoutPreset in
+   * utils/layoutEngine) for the screen it is shown on.
+   */
+  tiles?: LayoutTile[];
   // Layout-specific settings
   settings?: LayoutSettings;
 }
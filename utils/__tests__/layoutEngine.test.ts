@@ -0,0 +1,143 @@
+import { LayoutContainer, LayoutPreset, MultiviewLayout, SolvedTile } from '@/types/layout';
+import {
+  createLayout,
+  getPresetCapacity,
+  getPresetRects,
+  solveLayout,
+  solvePreset,
+  toLayoutPreset,
+} from '../layoutEngine';
+
+const LANDSCAPE: LayoutContainer = { width: 1000, height: 500 };
+const PORTRAIT: LayoutContainer = { width: 500, height: 1000 };
+
+const streamIds = (count: number) => Array.from({ length: count }, (_, index) => `s${index}`);
+
+const frame = ({ x, y, width, height }: SolvedTile) => ({ x, y, width, height });
+
+describe('layoutEngine presets', () => {
+  it.each<[LayoutPreset, number]>([
+    ['1x1', 1],
+    ['2x1', 2],
+    ['2x2', 4],
+    ['3x3', 9],
+    ['4x4', 16],
+    ['1x4', 4],
+  ])('shows at most the %s grid capacity of %i streams', (preset, capacity) => {
+    expect(getPresetCapacity(preset)).toBe(capacity);
+    expect(createLayout(preset, streamIds(capacity + 2)).tiles).toHaveLength(capacity);
+  });
+
+  it.each<LayoutPreset>(['adaptive', 'pip', 'focus', 'stacked', 'mosaic', 'custom'])(
+    'has no capacity limit for %s',
+    preset => {
+      expect(getPresetCapacity(preset)).toBe(Infinity);
+    }
+  );
+
+  it('centers a short last row', () => {
+    expect(getPresetRects('2x2', 3)[2]).toEqual({ x: 0.25, y: 0.5, width: 0.5, height: 0.5 });
+
+    const lastRow = getPresetRects('3x3', 8).slice(6);
+    expect(lastRow.map(cell => cell.x)).toEqual([1 / 6, 1 / 2]);
+    expect(lastRow.every(cell => cell.y === 2 / 3)).toBe(true);
+  });
+
+  it('keeps pip thumbnails inside the container', () => {
+    [LANDSCAPE, PORTRAIT].forEach(container => {
+      [2, 4, 8, 12].forEach(count => {
+        const tiles = solvePreset('pip', streamIds(count), container);
+        expect(tiles).toHaveLength(count);
+        expect(frame(tiles[0])).toEqual({ x: 0, y: 0, ...container });
+        tiles.slice(1).forEach(tile => {
+          expect(tile.x).toBeGreaterThanOrEqual(0);
+          expect(tile.y).toBeGreaterThanOrEqual(0);
+          expect(tile.x + tile.width).toBeLessThanOrEqual(container.width);
+          expect(tile.y + tile.height).toBeLessThanOrEqual(container.height);
+          // Above the main stream
+          expect(tile.zIndex).toBeGreaterThan(tiles[0].zIndex);
+        });
+      });
+    });
+  });
+});
+
+describe('layoutEngine orientation', () => {
+  const custom: MultiviewLayout = {
+    id: 'side-by-side',
+    preset: 'custom',
+    designAspect: 2,
+    tiles: [
+      { id: 'main', streamId: 'a', rect: { x: 0, y: 0, width: 0.7, height: 1 }, zIndex: 1 },
+      { id: 'top', streamId: 'b', rect: { x: 0.7, y: 0, width: 0.3, height: 0.5 }, zIndex: 2 },
+      { id: 'bottom', streamId: 'c', rect: { x: 0.7, y: 0.5, width: 0.3, height: 0.5 }, zIndex: 3 },
+    ],
+  };
+
+  it('uses a custom layout as stored in the orientation it was made for', () => {
+    expect(solveLayout(custom, LANDSCAPE).map(frame)).toEqual([
+      { x: 0, y: 0, width: 700, height: 500 },
+      { x: 700, y: 0, width: 300, height: 250 },
+      { x: 700, y: 250, width: 300, height: 250 },
+    ]);
+  });
+
+  it('turns a custom layout on its side for the other orientation', () => {
+    expect(solveLayout(custom, PORTRAIT).map(frame)).toEqual([
+      { x: 0, y: 0, width: 500, height: 700 },
+      { x: 0, y: 700, width: 250, height: 300 },
+      { x: 250, y: 700, width: 250, height: 300 },
+    ]);
+  });
+
+  it('rebuilds presets for the container they are solved in', () => {
+    const focus = createLayout('focus', streamIds(3), { container: LANDSCAPE });
+
+    const [wideMain, ...wideThumbs] = solveLayout(focus, LANDSCAPE);
+    expect(frame(wideMain)).toEqual({ x: 0, y: 0, width: 750, height: 500 });
+    wideThumbs.forEach(thumb => expect(thumb.x).toBe(750));
+
+    const [tallMain, ...tallThumbs] = solveLayout(focus, PORTRAIT);
+    expect(tallMain).toMatchObject({ x: 0, y: 0, width: 500 });
+    tallThumbs.forEach(thumb => expect(thumb.y).toBe(tallMain.height));
+  });
+
+  it('gives gaps between tiles and keeps outer edges flush with the padding', () => {
+    const tiles = solvePreset('2x1', ['a', 'b'], { ...LANDSCAPE, gap: 10, padding: 20 });
+
+    expect(tiles.map(frame)).toEqual([
+      { x: 20, y: 20, width: 475, height: 460 },
+      { x: 505, y: 20, width: 475, height: 460 },
+    ]);
+  });
+});
+
+describe('toLayoutPreset', () => {
+  it.each<[string, LayoutPreset]>([
+    ['grid_1x1', '1x1'],
+    ['grid_2x2', '2x2'],
+    ['grid_3x3', '3x3'],
+    ['grid_4x4', '4x4'],
+    ['linear_2x1', '2x1'],
+    ['linear_3x1', '3x1'],
+    ['linear_4x1', '4x1'],
+    ['split_horizontal', '1x2'],
+    ['split_vertical', '2x1'],
+    ['floating', 'custom'],
+    ['grid-2x2', '2x2'],
+    ['grid-3x1', '3x1'],
+    ['grid-4x1', '4x1'],
+    ['grid-1x4', '1x4'],
+    ['fullscreen', '1x1'],
+    ['grid', 'adaptive'],
+    ['auto', 'adaptive'],
+  ])('maps the older %s layout to %s', (name, preset) => {
+    expect(toLayoutPreset(name)).toBe(preset);
+  });
+
+  it('keeps preset names and falls back to adaptive', () => {
+    expect(toLayoutPreset('mosaic')).toBe('mosaic');
+    expect(toLayoutPreset('unknown')).toBe('adaptive');
+    expect(toLayoutPreset(undefined)).toBe('adaptive');
+  });
+});
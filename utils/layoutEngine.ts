@@ -0,0 +1,490 @@
+/**
+ * Layout engine shared by every multiview grid. Layouts are tiles in
+ * normalized (0–1) container coordinates; solveLayout turns them into pixels
+ * for whatever container the grid has, so a layout made on a phone keeps its
+ * shape on a tablet or a desktop window.
+ */
+
+import {
+  LayoutContainer,
+  LayoutPreset,
+  LayoutTile,
+  MultiviewLayout,
+  NormalizedRect,
+  SolvedTile,
+  TileConstraints,
+} from '@/types/layout';
+
+export const VIDEO_ASPECT_RATIO = 16 / 9;
+
+export const LAYOUT_PRESETS: LayoutPreset[] = [
+  'adaptive',
+  '1x1',
+  '2x1',
+  '1x2',
+  '2x2',
+  '3x3',
+  '4x4',
+  '3x1',
+  '4x1',
+  '1x3',
+  '1x4',
+  'pip',
+  'focus',
+  'stacked',
+  'mosaic',
+  'custom',
+];
+
+// Columns and rows of the fixed grid presets
+const GRID_PRESETS: Partial<Record<LayoutPreset, [number, number]>> = {
+  '1x1': [1, 1],
+  '2x1': [2, 1],
+  '1x2': [1, 2],
+  '2x2': [2, 2],
+  '3x3': [3, 3],
+  '4x4': [4, 4],
+  '3x1': [3, 1],
+  '4x1': [4, 1],
+  '1x3': [1, 3],
+  '1x4': [1, 4],
+};
+
+// Names from the older layout pickers: LayoutType (AdvancedLayoutManager),
+// LayoutMode (modern/LayoutManager) and StreamLayoutType (types/stream)
+const PRESET_ALIASES: Record<string, LayoutPreset> = {
+  grid_1x1: '1x1',
+  grid_2x2: '2x2',
+  grid_3x3: '3x3',
+  grid_4x4: '4x4',
+  linear_2x1: '2x1',
+  linear_3x1: '3x1',
+  linear_4x1: '4x1',
+  split_horizontal: '1x2',
+  split_vertical: '2x1',
+  floating: 'custom',
+  'grid-2x2': '2x2',
+  'grid-3x1': '3x1',
+  'grid-4x1': '4x1',
+  'grid-1x4': '1x4',
+  fullscreen: '1x1',
+  grid: 'adaptive',
+  auto: 'adaptive',
+};
+
+// Reference container for layouts built without one
+const DEFAULT_CONTAINER: LayoutContainer = { width: 1280, height: 720 };
+
+// Thumbnail width in pip layouts, as a fraction of the container's width
+const PIP_THUMB_PORTRAIT = 0.3;
+const PIP_THUMB_LANDSCAPE = 0.22;
+const PIP_MARGIN = 0.02;
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, value));
+
+const rect = (x: number, y: number, width: number, height: number): NormalizedRect => ({
+  x,
+  y,
+  width,
+  height,
+});
+
+/**
+ * Maps any layout name the app has used to a preset
+ */
+export const toLayoutPreset = (name: string | null | undefined): LayoutPreset => {
+  if (!name) {
+    return 'adaptive';
+  }
+  if ((LAYOUT_PRESETS as string[]).includes(name)) {
+    return name as LayoutPreset;
+  }
+  return PRESET_ALIASES[name] || 'adaptive';
+};
+
+/**
+ * How many streams a preset shows; the rest get no tile
+ */
+export const getPresetCapacity = (preset: LayoutPreset): number => {
+  const grid = GRID_PRESETS[preset];
+  return grid ? grid[0] * grid[1] : Infinity;
+};
+
+const gridRects = (columns: number, rows: number, count: number): NormalizedRect[] => {
+  const visible = Math.min(count, columns * rows);
+  const rects: NormalizedRect[] = [];
+  for (let index = 0; index < visible; index++) {
+    const row = Math.floor(index / columns);
+    // A short last row is centered instead of hugging the left edge
+    const inRow = Math.min(columns, visible - row * columns);
+    const offset = (columns - inRow) / 2;
+    rects.push(rect(((index % columns) + offset) / columns, row / rows, 1 / columns, 1 / rows));
+  }
+  return rects;
+};
+
+/**
+ * The grid that shows the most video for this container. Grids whose tiles
+ * meet the minimum size win over ones that don't.
+ */
+const bestGrid = (
+  count: number,
+  container: LayoutContainer,
+  constraints: TileConstraints = {}
+): [number, number] => {
+  let best: [number, number] = [1, Math.max(1, count)];
+  let bestScore = -1;
+
+  for (let columns = 1; columns <= Math.max(1, count); columns++) {
+    const rows = Math.ceil(count / columns);
+    const cellWidth = container.width / columns;
+    const cellHeight = container.height / rows;
+    const videoWidth = Math.min(cellWidth, cellHeight * VIDEO_ASPECT_RATIO);
+    const videoArea = videoWidth * (videoWidth / VIDEO_ASPECT_RATIO) * count;
+    const fits =
+      cellWidth >= (constraints.minWidth || 0) && cellHeight >= (constraints.minHeight || 0);
+    const score = (fits ? 1 : 0) + videoArea / (container.width * container.height);
+
+    if (score > bestScore) {
+      bestScore = score;
+      best = [columns, rows];
+    }
+  }
+  return best;
+};
+
+const pipRects = (count: number, aspect: number): NormalizedRect[] => {
+  const rects = [rect(0, 0, 1, 1)];
+  const width = aspect >= 1 ? PIP_THUMB_LANDSCAPE : PIP_THUMB_PORTRAIT;
+  const height = Math.min(0.3, (width * aspect) / VIDEO_ASPECT_RATIO);
+  const marginX = PIP_MARGIN;
+  const marginY = PIP_MARGIN * aspect;
+  const perColumn = Math.max(1, Math.floor((1 - marginY) / (height + marginY)));
+
+  // Thumbnails stack up from the bottom-right corner, then move left
+  for (let index = 0; index < count - 1; index++) {
+    const column = Math.floor(index / perColumn);
+    const row = index % perColumn;
+    rects.push(
+      rect(
+        clamp(1 - (column + 1) * (width + marginX), 0, 1 - width),
+        1 - (row + 1) * (height + marginY),
+        width,
+        height
+      )
+    );
+  }
+  return rects;
+};
+
+const focusRects = (count: number, aspect: number): NormalizedRect[] => {
+  const others = count - 1;
+  if (others <= 0) {
+    return [rect(0, 0, 1, 1)];
+  }
+
+  // Landscape: thumbnails in a column on the right
+  if (aspect >= 1) {
+    const stripWidth = 0.25;
+    const thumbHeight = Math.min(1 / others, (stripWidth * aspect) / VIDEO_ASPECT_RATIO);
+    return [
+      rect(0, 0, 1 - stripWidth, 1),
+      ...Array.from({ length: others }, (_, index) =>
+        rect(1 - stripWidth, index * thumbHeight, stripWidth, thumbHeight)
+      ),
+    ];
+  }
+
+  // Portrait: the main stream on top, thumbnails in rows of three below
+  const mainHeight = Math.min(0.7, aspect / VIDEO_ASPECT_RATIO);
+  const columns = Math.min(3, others);
+  const rows = Math.ceil(others / columns);
+  const thumbHeight = Math.min((1 - mainHeight) / rows, aspect / columns / VIDEO_ASPECT_RATIO);
+  return [
+    rect(0, 0, 1, mainHeight),
+    ...gridRects(columns, rows, others).map(cell =>
+      rect(cell.x, mainHeight + cell.y * rows * thumbHeight, cell.width, thumbHeight)
+    ),
+  ];
+};
+
+// One large tile over two rows and two of three columns, the rest around it
+const mosaicRects = (count: number): NormalizedRect[] => {
+  if (count <= 1) {
+    return [rect(0, 0, 1, 1)];
+  }
+  const rows = count <= 3 ? 2 : 2 + Math.ceil((count - 3) / 3);
+  const rects = [rect(0, 0, 2 / 3, 2 / rows)];
+  for (let index = 0; index < count - 1; index++) {
+    // The first two sit beside the large tile, the rest in full rows below
+    const column = index < 2 ? 2 : (index - 2) % 3;
+    const row = index < 2 ? index : 2 + Math.floor((index - 2) / 3);
+    rects.push(rect(column / 3, row / rows, 1 / 3, 1 / rows));
+  }
+  return rects;
+};
+
+/**
+ * Normalized rects for a preset, one per shown stream
+ */
+export const getPresetRects = (
+  preset: LayoutPreset,
+  count: number,
+  container: LayoutContainer = DEFAULT_CONTAINER,
+  constraints?: TileConstraints
+): NormalizedRect[] => {
+  if (count <= 0) {
+    return [];
+  }
+  const aspect = container.width / Math.max(1, container.height);
+  const grid = GRID_PRESETS[preset];
+  if (grid) {
+    return gridRects(grid[0], grid[1], count);
+  }
+
+  switch (preset) {
+    case 'pip':
+      return pipRects(count, aspect);
+    case 'focus':
+      return focusRects(count, aspect);
+    case 'stacked':
+      return gridRects(1, count, count);
+    case 'mosaic':
+      return mosaicRects(count);
+    default: {
+      const [columns, rows] = bestGrid(count, container, constraints);
+      return gridRects(columns, rows, count);
+    }
+  }
+};
+
+/**
+ * A layout for these streams, in order. The first stream is the main one in
+ * pip, focus and mosaic. 'custom' starts from the adaptive arrangement.
+ */
+export const createLayout = (
+  preset: LayoutPreset,
+  streamIds: string[],
+  options: {
+    id?: string;
+    name?: string;
+    container?: LayoutContainer;
+    constraints?: TileConstraints;
+  } = {}
+): MultiviewLayout => {
+  const container = options.container || DEFAULT_CONTAINER;
+  const rects = getPresetRects(
+    preset === 'custom' ? 'adaptive' : preset,
+    streamIds.length,
+    container,
+    options.constraints
+  );
+
+  return {
+    id: options.id || `layout_${Date.now()}`,
+    name: options.name,
+    preset,
+    constraints: options.constraints,
+    tiles: rects.map((tileRect, index) => ({
+      id: `tile_${index}`,
+      streamId: streamIds[index],
+      rect: tileRect,
+      zIndex: index + 1,
+    })),
+    ...(preset === 'custom' ? { designAspect: container.width / container.height } : {}),
+  };
+};
+
+/**
+ * Tiles arranged for this container: presets are rebuilt, and custom layouts
+ * made for the other orientation are turned on their side
+ */
+const arrangeTiles = (layout: MultiviewLayout, container: LayoutContainer): LayoutTile[] => {
+  if (layout.preset !== 'custom') {
+    const rects = getPresetRects(layout.preset, layout.tiles.length, container, layout.constraints);
+    return layout.tiles.slice(0, rects.length).map((tile, index) => ({
+      ...tile,
+      rect: rects[index],
+      // Presets order their own overlaps (pip thumbnails above the main tile)
+      zIndex: index + 1,
+    }));
+  }
+
+  const landscape = container.width >= container.height;
+  if (!layout.designAspect || layout.designAspect >= 1 === landscape) {
+    return layout.tiles;
+  }
+  return layout.tiles.map(tile => ({
+    ...tile,
+    rect: rect(tile.rect.y, tile.rect.x, tile.rect.height, tile.rect.width),
+  }));
+};
+
+const solveTile = (
+  tile: LayoutTile,
+  constraints: TileConstraints,
+  container: LayoutContainer
+): SolvedTile => {
+  const gap = container.gap || 0;
+  const padding = container.padding || 0;
+  const innerWidth = Math.max(0, container.width - padding * 2);
+  const innerHeight = Math.max(0, container.height - padding * 2);
+
+  // Neighbouring tiles end up exactly one gap apart and outer edges stay flush
+  let x = padding + tile.rect.x * (innerWidth + gap);
+  let y = padding + tile.rect.y * (innerHeight + gap);
+  let width = Math.max(0, tile.rect.width * (innerWidth + gap) - gap);
+  let height = Math.max(0, tile.rect.height * (innerHeight + gap) - gap);
+
+  if (constraints.minWidth && width < constraints.minWidth) {
+    width = Math.min(constraints.minWidth, innerWidth);
+    x = Math.min(x, padding + innerWidth - width);
+  }
+  if (constraints.minHeight && height < constraints.minHeight) {
+    height = Math.min(constraints.minHeight, innerHeight);
+    y = Math.min(y, padding + innerHeight - height);
+  }
+
+  if (constraints.aspectRatio && width > 0 && height > 0) {
+    if (width / height > constraints.aspectRatio) {
+      const fitted = height * constraints.aspectRatio;
+      x += (width - fitted) / 2;
+      width = fitted;
+    } else {
+      const fitted = width / constraints.aspectRatio;
+      y += (height - fitted) / 2;
+      height = fitted;
+    }
+  }
+
+  return {
+    id: tile.id,
+    streamId: tile.streamId,
+    x: Math.round(x),
+    y: Math.round(y),
+    width: Math.round(width),
+    height: Math.round(height),
+    zIndex: tile.zIndex,
+  };
+};
+
+/**
+ * Pixel frames for every tile of the layout in this container
+ */
+export const solveLayout = (layout: MultiviewLayout, container: LayoutContainer): SolvedTile[] => {
+  if (container.width <= 0 || container.height <= 0) {
+    return [];
+  }
+  return arrangeTiles(layout, container).map(tile =>
+    solveTile(tile, { ...layout.constraints, ...tile.constraints }, container)
+  );
+};
+
+/**
+ * Shorthand for grids that lay out a preset for their streams
+ */
+export const solvePreset = (
+  preset: LayoutPreset,
+  streamIds: string[],
+  container: LayoutContainer,
+  constraints?: TileConstraints
+): SolvedTile[] =>
+  solveLayout(createLayout(preset, streamIds, { container, constraints }), container);
+
+/**
+ * Tiles keep the stream they were built with while it is still open; the
+ * other tiles take the remaining streams in order
+ */
+export const assignStreams = <T extends MultiviewLayout>(layout: T, streamIds: string[]): T => {
+  const placed = new Set(layout.tiles.map(tile => tile.streamId));
+  const remaining = streamIds.filter(streamId => !placed.has(streamId));
+  return {
+    ...layout,
+    tiles: layout.tiles.map(tile =>
+      tile.streamId && streamIds.includes(tile.streamId)
+        ? tile
+        : { ...tile, streamId: remaining.shift() }
+    ),
+  };
+};
+
+export const snapValue = (value: number, step?: number): number =>
+  step ? Math.round(value / step) * step : value;
+
+/**
+ * Keeps a rect inside the container
+ */
+export const clampRect = (value: NormalizedRect): NormalizedRect => {
+  const width = clamp(value.width, 0, 1);
+  const height = clamp(value.height, 0, 1);
+  return rect(clamp(value.x, 0, 1 - width), clamp(value.y, 0, 1 - height), width, height);
+};
+
+/**
+ * A pixel frame as a rect of the container
+ */
+export const toNormalizedRect = (
+  frame: { x: number; y: number; width: number; height: number },
+  container: { width: number; height: number }
+): NormalizedRect =>
+  clampRect(
+    rect(
+      frame.x / container.width,
+      frame.y / container.height,
+      frame.width / container.width,
+      frame.height / container.height
+    )
+  );
+
+/**
+ * The layout with its tiles fixed in place for editing
+ */
+export const toCustomLayout = (
+  layout: MultiviewLayout,
+  container: LayoutContainer = DEFAULT_CONTAINER
+): MultiviewLayout => {
+  if (layout.preset === 'custom') {
+    return layout;
+  }
+  return {
+    ...layout,
+    preset: 'custom',
+    tiles: arrangeTiles(layout, container),
+    designAspect: container.width / container.height,
+  };
+};
+
+/**
+ * Moves or resizes one tile, applying the layout's snapping and the tile's
+ * minimum size. Presets become custom layouts.
+ */
+export const updateTileRect = (
+  layout: MultiviewLayout,
+  tileId: string,
+  changes: Partial<NormalizedRect>,
+  container: LayoutContainer = DEFAULT_CONTAINER
+): MultiviewLayout => {
+  const custom = toCustomLayout(layout, container);
+
+  return {
+    ...custom,
+    tiles: custom.tiles.map(tile => {
+      if (tile.id !== tileId) {
+        return tile;
+      }
+      const constraints = { ...custom.constraints, ...tile.constraints };
+      const next = { ...tile.rect, ...changes };
+      // Snapping never shrinks a tile below one step or its minimum size
+      const minWidth = Math.max(custom.snap || 0, (constraints.minWidth || 0) / container.width);
+      const minHeight = Math.max(custom.snap || 0, (constraints.minHeight || 0) / container.height);
+      const snapped = rect(
+        snapValue(next.x, custom.snap),
+        snapValue(next.y, custom.snap),
+        Math.max(snapValue(next.width, custom.snap), minWidth),
+        Math.max(snapValue(next.height, custom.snap), minHeight)
+      );
+      return { ...tile, rect: clampRect(snapped) };
+    }),
+  };
+};